@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAerobicTrend, type AerobicTrendPoint } from '@/lib/db/sessions'
+import { logger } from '@/lib/logger'
+
+export interface AerobicTrendsResponse {
+  sessions: AerobicTrendPoint[]
+}
+
+const DEFAULT_DAYS = 180
+const MAX_DAYS = 730
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const requested = parseInt(request.nextUrl.searchParams.get('days') || '', 10)
+    const days = Number.isFinite(requested) && requested > 0 ? Math.min(requested, MAX_DAYS) : DEFAULT_DAYS
+    const start = new Date()
+    start.setDate(start.getDate() - days)
+
+    const response: AerobicTrendsResponse = {
+      sessions: await getAerobicTrend(user.id, start.toISOString().split('T')[0]),
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[aerobic-trends] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch aerobic trends' },
+      { status: 500 }
+    )
+  }
+}
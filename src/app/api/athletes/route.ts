@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAthlete, updateAthlete, type AthleteUpdate } from '@/lib/db/athletes'
+import { ATL_DAYS_RANGE, CTL_DAYS_RANGE } from '@/lib/fitness/pmc'
+import { getPmcSettings, recomputeAllFitness } from '@/lib/fitness/pmc-engine'
+import { logger } from '@/lib/logger'
+
+// Matches the CHECK constraints in migration 028
+const THRESHOLD_PACE_RANGE = { min: 120, max: 900 }
+const RUNNING_FTP_RANGE = { min: 50, max: 800 }
+
+const PMC_FIELDS = ['ctl_time_constant', 'atl_time_constant', 'fitness_source'] as const
 
 export async function GET() {
   const supabase = await createClient()
@@ -53,7 +62,9 @@ export async function PATCH(request: NextRequest) {
     // Validate the update fields
     const allowedFields: (keyof AthleteUpdate)[] = [
       'name', 'ftp', 'weight_kg', 'max_hr', 'lthr', 'resting_hr',
-      'weekly_hours_available', 'updated_at'
+      'threshold_pace', 'running_ftp',
+      'weekly_hours_available', 'ctl_time_constant', 'atl_time_constant',
+      'fitness_source', 'updated_at'
     ]
 
     const updates: AthleteUpdate = {}
@@ -63,6 +74,40 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    const ctlDays = updates.ctl_time_constant
+    const atlDays = updates.atl_time_constant
+    if (ctlDays != null && (ctlDays < CTL_DAYS_RANGE.min || ctlDays > CTL_DAYS_RANGE.max)) {
+      return NextResponse.json(
+        { error: `CTL time constant must be ${CTL_DAYS_RANGE.min}-${CTL_DAYS_RANGE.max} days` },
+        { status: 400 }
+      )
+    }
+    if (atlDays != null && (atlDays < ATL_DAYS_RANGE.min || atlDays > ATL_DAYS_RANGE.max)) {
+      return NextResponse.json(
+        { error: `ATL time constant must be ${ATL_DAYS_RANGE.min}-${ATL_DAYS_RANGE.max} days` },
+        { status: 400 }
+      )
+    }
+    if (updates.threshold_pace != null && (updates.threshold_pace < THRESHOLD_PACE_RANGE.min || updates.threshold_pace > THRESHOLD_PACE_RANGE.max)) {
+      return NextResponse.json(
+        { error: `Threshold pace must be ${THRESHOLD_PACE_RANGE.min}-${THRESHOLD_PACE_RANGE.max} seconds per km` },
+        { status: 400 }
+      )
+    }
+    if (updates.running_ftp != null && (updates.running_ftp < RUNNING_FTP_RANGE.min || updates.running_ftp > RUNNING_FTP_RANGE.max)) {
+      return NextResponse.json(
+        { error: `Running FTP must be ${RUNNING_FTP_RANGE.min}-${RUNNING_FTP_RANGE.max} W` },
+        { status: 400 }
+      )
+    }
+    if (updates.fitness_source != null && !['intervals_icu', 'local'].includes(updates.fitness_source)) {
+      return NextResponse.json(
+        { error: 'fitness_source must be intervals_icu, local or null' },
+        { status: 400 }
+      )
+    }
+
+    const previous = await getAthlete(user.id)
     const athlete = await updateAthlete(user.id, updates)
     if (!athlete) {
       return NextResponse.json(
@@ -71,6 +116,21 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    // New time constants or a switch to the local PMC: recompute fitness history
+    const pmcChanged = PMC_FIELDS.some(field =>
+      updates[field] !== undefined && updates[field] !== previous?.[field]
+    )
+    if (pmcChanged) {
+      try {
+        const settings = await getPmcSettings(user.id)
+        if (settings.source === 'local') {
+          await recomputeAllFitness(user.id, settings.timeConstants)
+        }
+      } catch (error) {
+        logger.error('[Athletes] Fitness recompute failed:', error)
+      }
+    }
+
     return NextResponse.json(athlete)
   } catch {
     return NextResponse.json(
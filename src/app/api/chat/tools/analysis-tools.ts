@@ -1,28 +1,59 @@
 import { z } from 'zod'
 import { defineTool, resolveAthleteProfile } from './types'
 import { getSessions } from '@/lib/db/sessions'
-import { getFitnessHistory } from '@/lib/db/fitness'
-import { getDateRange, type IntervalsActivity } from '@/lib/intervals-icu'
-import { getNormalizedPower } from '@/lib/transforms'
+import { getFitnessHistory, getSportFitnessHistory } from '@/lib/db/fitness'
+import { formatDateForApi, getDateRange, type IntervalsActivity } from '@/lib/intervals-icu'
+import { getNormalizedPower, getSportType } from '@/lib/transforms'
 import { logger } from '@/lib/logger'
+import { DURABILITY_WORK_THRESHOLDS_KJ } from '@/lib/analysis/durability'
+import { comparePowerCurveWindows, type PowerCurveWindow } from '@/lib/analysis/power-curve-windows'
+import type { DateWindow } from '@/lib/analysis/power-curve-comparison'
+import type { DurabilityPoint, FitnessHistory, SportFitness } from '@/types'
 
 // ============================================================
 // ANALYZE POWER CURVE
 // ============================================================
 
+const dateWindowSchema = z.object({
+  startDate: z.string().describe('First day (YYYY-MM-DD)'),
+  endDate: z.string().describe('Last day (YYYY-MM-DD)'),
+  label: z.string().optional().describe('Name for the window, e.g. "Pre-block"'),
+})
+
 const powerCurveInputSchema = z.object({
-  period: z.enum(['30d', '90d', '180d', '365d']).optional().describe('Time period to analyze (default 90d)'),
+  period: z.enum(['30d', '90d', '180d', '365d']).optional().describe('Time period to analyze, ending today (default 90d). Ignored when window is set.'),
   compareToPrevious: z.boolean().optional().describe('Compare to previous period of same length'),
+  window: dateWindowSchema.optional().describe('Window to analyze instead of period, e.g. the weeks after a training block'),
+  baselineWindow: dateWindowSchema.optional().describe('Window to compare against (default: the period of the same length just before). E.g. the weeks before a block, last season, or all-time from 2000-01-01.'),
 })
 
 type PowerCurveInput = z.infer<typeof powerCurveInputSchema>
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function windowDays(window: DateWindow): number {
+  return Math.round((Date.parse(window.endDate) - Date.parse(window.startDate)) / 86400000) + 1
+}
+
 export const analyzePowerCurve = defineTool<PowerCurveInput, unknown>({
-  description: 'Analyze the athlete\'s power curve to identify strengths, limiters, and rider profile. Compares peak power at key durations (5s, 1min, 5min, 20min) and identifies whether the athlete is a sprinter, time trialist, climber, or all-rounder.',
+  description: `Analyze the athlete's power curve to identify strengths, limiters, and rider profile. Compares peak power at key durations (5s, 1min, 5min, 20min) and identifies whether the athlete is a sprinter, time trialist, climber, or all-rounder.
+Pass window and baselineWindow to compare any two periods (this season vs. last, last 42 days vs. all-time, before vs. after a training block): returns the change in watts and W/kg at every duration, with W/kg using the athlete's weight in each period.`,
   inputSchema: powerCurveInputSchema,
-  execute: async ({ period = '90d', compareToPrevious = true }, ctx) => {
+  execute: async ({ period = '90d', compareToPrevious = true, window, baselineWindow }, ctx) => {
     const periodDays = { '30d': 30, '90d': 90, '180d': 180, '365d': 365 }[period] || 90
 
+    for (const w of [window, baselineWindow]) {
+      if (w && (!DATE_PATTERN.test(w.startDate) || !DATE_PATTERN.test(w.endDate) || w.endDate < w.startDate)) {
+        return { error: 'Windows need YYYY-MM-DD start and end dates, with the end on or after the start.' }
+      }
+    }
+
     // Key durations to analyze (in seconds)
     const keyDurations = [
       { secs: 5, label: '5s', category: 'neuromuscular' },
@@ -33,94 +64,44 @@ export const analyzePowerCurve = defineTool<PowerCurveInput, unknown>({
 
     // Resolve athlete profile — no hardcoded defaults
     const profile = await resolveAthleteProfile(ctx)
-    if (!profile.ftp || !profile.weight_kg) {
+    if (!profile.weight_kg) {
       return {
-        error: 'Power curve analysis requires both FTP and weight. Please set these in intervals.icu or your profile settings.',
+        error: 'Power curve analysis requires weight. Please set it in intervals.icu or your profile settings.',
         warnings: profile.warnings,
       }
     }
-    const athleteFTP = profile.ftp
-    const weightKg = profile.weight_kg
 
-    let currentPeaks: Record<string, number> = {}
-    const previousPeaks: Record<string, number> = {}
-    let dataSource = 'none'
-
-    // Try local Supabase first
-    if (ctx.flags.useLocalData && ctx.athleteId) {
-      try {
-        const endDate = new Date()
-        const startDate = new Date()
-        startDate.setDate(startDate.getDate() - periodDays)
-
-        const sessions = await getSessions(ctx.athleteId, {
-          startDate: startDate.toISOString().split('T')[0],
-          endDate: endDate.toISOString().split('T')[0],
-          limit: 200,
-        })
-
-        if (sessions.length > 0) {
-          const maxPower = Math.max(...sessions.filter(s => s.max_power).map(s => s.max_power || 0))
-          const avgNP = sessions.filter(s => s.normalized_power).reduce((sum, s) => sum + (s.normalized_power || 0), 0) / sessions.filter(s => s.normalized_power).length
-
-          // Estimate peaks based on available data (simplified)
-          currentPeaks = {
-            '5s': maxPower,
-            '1min': Math.round(maxPower * 0.75),
-            '5min': Math.round(avgNP * 1.1),
-            '20min': Math.round(athleteFTP * 1.05),
-          }
-          dataSource = 'local_estimated'
-        }
-      } catch {
-        // Fall through
-      }
+    const today = formatDateForApi(new Date())
+    const current: DateWindow = window ?? {
+      startDate: shiftDays(today, -(periodDays - 1)),
+      endDate: today,
+      label: `Last ${periodDays} days`,
+    }
+    const currentDays = windowDays(current)
+    const baseline: DateWindow = baselineWindow ?? {
+      startDate: shiftDays(current.startDate, -currentDays),
+      endDate: shiftDays(current.startDate, -1),
+      label: `Previous ${currentDays} days`,
     }
 
-    // Fall back to intervals.icu for actual power curve data
-    if (ctx.intervalsConnected && dataSource === 'none') {
-      try {
-        const { oldest, newest } = getDateRange(periodDays)
-        const powerCurves = await ctx.intervalsClient.getPowerCurves(oldest, newest)
-
-        if (powerCurves && powerCurves.length > 0) {
-          for (const duration of keyDurations) {
-            const match = powerCurves.find((pc: { secs: number }) => pc.secs === duration.secs)
-            if (match) {
-              currentPeaks[duration.label] = match.watts
-            }
-          }
-          dataSource = 'intervals_icu'
-        }
+    const result = await comparePowerCurveWindows(ctx.athleteId ?? '', baseline, current, {
+      useLocalData: ctx.flags.useLocalData && !!ctx.athleteId,
+      remote: ctx.intervalsConnected
+        ? async (start, end) => ((await ctx.intervalsClient.getPowerCurves(start, end)) || [])
+            .map(pc => ({ duration: pc.secs, watts: pc.watts }))
+        : undefined,
+      profileWeightKg: profile.weight_kg,
+    })
 
-        // Get previous period if requested
-        if (compareToPrevious) {
-          const prevEnd = new Date()
-          prevEnd.setDate(prevEnd.getDate() - periodDays)
-          const prevStart = new Date()
-          prevStart.setDate(prevStart.getDate() - (periodDays * 2))
-
-          const prevCurves = await ctx.intervalsClient.getPowerCurves(
-            prevStart.toISOString().split('T')[0],
-            prevEnd.toISOString().split('T')[0]
-          )
-
-          if (prevCurves && prevCurves.length > 0) {
-            for (const duration of keyDurations) {
-              const match = prevCurves.find((pc: { secs: number }) => pc.secs === duration.secs)
-              if (match) {
-                previousPeaks[duration.label] = match.watts
-              }
-            }
-          }
-        }
-      } catch (error) {
-        logger.error('[analyzePowerCurve] Error fetching power curves:', error)
-      }
+    if (result.current.points.length === 0) {
+      return { error: 'No power data available for this window. Ensure intervals.icu is connected or you have sessions with power data.' }
     }
 
-    if (Object.keys(currentPeaks).length === 0) {
-      return { error: 'No power data available. Ensure intervals.icu is connected or you have recent sessions with power data.' }
+    const weightKg = result.current.weightKg ?? profile.weight_kg
+    const currentPeaks: Record<string, number> = {}
+    for (const duration of keyDurations) {
+      const match = result.current.points.find(p => p.duration === duration.secs)
+      if (match) currentPeaks[duration.label] = match.watts
     }
 
     // Analyze rider profile
@@ -165,19 +146,41 @@ export const analyzePowerCurve = defineTool<PowerCurveInput, unknown>({
     const strengths = metrics.filter(m => m.value >= m.benchmark * 1.1).map(m => m.label)
     const limiters = metrics.filter(m => m.value < m.benchmark * 0.9).map(m => m.label)
 
-    const comparison = compareToPrevious && Object.keys(previousPeaks).length > 0
-      ? keyDurations.map(d => ({
-          duration: d.label,
-          current: currentPeaks[d.label] || null,
-          previous: previousPeaks[d.label] || null,
-          change: currentPeaks[d.label] && previousPeaks[d.label]
-            ? Math.round(((currentPeaks[d.label] - previousPeaks[d.label]) / previousPeaks[d.label]) * 100)
-            : null,
-        }))
+    const showComparison = (compareToPrevious || !!baselineWindow) && result.baseline.points.length > 0
+    const summarizeWindow = (w: PowerCurveWindow) => ({
+      label: w.label,
+      startDate: w.startDate,
+      endDate: w.endDate,
+      dataSource: w.source,
+      sessionCount: w.sessionCount,
+      weightKg: w.weightKg,
+      weightSource: w.weightSource,
+    })
+    const comparison = showComparison
+      ? {
+          baseline: summarizeWindow(result.baseline),
+          current: summarizeWindow(result.current),
+          avgChangePercent: result.comparison.avgDeltaPercent,
+          avgChangeWkgPercent: result.comparison.avgDeltaWkgPercent,
+          biggestGain: result.comparison.biggestGain,
+          biggestLoss: result.comparison.biggestLoss,
+          durations: result.comparison.points
+            .filter(p => p.deltaPercent !== null)
+            .map(p => ({
+              duration: p.durationLabel,
+              previous: p.baselineWatts,
+              current: p.watts,
+              changeWatts: p.deltaWatts,
+              change: p.deltaPercent,
+              previousWkg: p.baselineWkg,
+              currentWkg: p.wkg,
+              changeWkg: p.deltaWkgPercent,
+            })),
+        }
       : null
 
     return {
-      period: `${periodDays} days`,
+      period: `${current.startDate} to ${current.endDate} (${currentDays} days)`,
       powerPeaks: keyDurations.map(d => ({
         duration: d.label,
         watts: currentPeaks[d.label] || null,
@@ -196,9 +199,9 @@ export const analyzePowerCurve = defineTool<PowerCurveInput, unknown>({
         limiters.includes('5s (Neuromuscular)') ? 'Include sprint work and neuromuscular efforts if sprinting is a goal' : null,
         strengths.includes('5min (VO2max)') && !strengths.includes('20min (Threshold)') ? 'Good VO2max base - convert to threshold power with sustained efforts' : null,
       ].filter(Boolean),
-      dataSource,
+      dataSource: result.current.source,
       weightKg,
-      ftp: athleteFTP,
+      ftp: profile.ftp,
     }
   },
 })
@@ -213,8 +216,39 @@ const efficiencyInputSchema = z.object({
 
 type EfficiencyInput = z.infer<typeof efficiencyInputSchema>
 
+/**
+ * Best and latest 5/20min power after each work threshold, across the rides that reached it
+ */
+function summarizeDurability(sessions: Array<{ date: string; durability?: DurabilityPoint[] }>) {
+  const rides = sessions.filter(s => s.durability && s.durability.length > 0)
+  if (rides.length === 0) return null
+
+  const thresholds = DURABILITY_WORK_THRESHOLDS_KJ.flatMap(afterKj => {
+    const points = rides
+      .map(s => ({ date: s.date, point: s.durability!.find(p => p.after_kj === afterKj) }))
+      .filter((r): r is { date: string; point: DurabilityPoint } => !!r.point)
+    if (points.length === 0) return []
+    const latest = points[points.length - 1]
+    const best = (key: 'best_5min' | 'best_20min') =>
+      Math.max(0, ...points.map(p => p.point[key] ?? 0)) || null
+    return [{
+      afterKj,
+      rides: points.length,
+      best5min: best('best_5min'),
+      best20min: best('best_20min'),
+      latest: { date: latest.date, power5min: latest.point.best_5min, power20min: latest.point.best_20min },
+    }]
+  })
+
+  return {
+    ridesAnalyzed: rides.length,
+    thresholds,
+    interpretation: 'Best power after 1000/2000/3000 kJ of work in a ride. The closer it stays to fresh 5/20min power, the more fatigue-resistant the athlete.',
+  }
+}
+
 export const analyzeEfficiency = defineTool<EfficiencyInput, unknown>({
-  description: 'Analyze aerobic efficiency trends using Efficiency Factor (NP/HR) and decoupling. Use to assess aerobic development, identify fitness improvements, and understand how well the athlete maintains power relative to heart rate over time.',
+  description: 'Analyze aerobic efficiency trends using Efficiency Factor (NP/HR), Pw:HR decoupling and durability (best 5/20min power after 1000/2000/3000 kJ of work). Use to assess aerobic development, fatigue resistance on long rides, and how well the athlete maintains power relative to heart rate over time.',
   inputSchema: efficiencyInputSchema,
   execute: async ({ days = 90 }, ctx) => {
     const lookbackDays = Math.min(days, 180)
@@ -226,6 +260,7 @@ export const analyzeEfficiency = defineTool<EfficiencyInput, unknown>({
       duration: number
       ef: number
       decoupling?: number
+      durability?: DurabilityPoint[]
       type?: string
     }> = []
     let dataSource = 'none'
@@ -250,7 +285,10 @@ export const analyzeEfficiency = defineTool<EfficiencyInput, unknown>({
             np: s.normalized_power!,
             avgHr: s.avg_hr!,
             duration: s.duration_seconds,
-            ef: Math.round((s.normalized_power! / s.avg_hr!) * 100) / 100,
+            // Stored from the streams at sync; summary NP/HR for sessions without them
+            ef: s.efficiency_factor ?? Math.round((s.normalized_power! / s.avg_hr!) * 100) / 100,
+            decoupling: s.decoupling,
+            durability: s.durability,
             type: s.workout_type,
           }))
 
@@ -382,6 +420,7 @@ export const analyzeEfficiency = defineTool<EfficiencyInput, unknown>({
           : 'Efficiency stable - fitness is maintained',
       },
       decouplingAnalysis,
+      durabilityAnalysis: summarizeDurability(sessions),
       bestSessions: bestEFSessions,
       worstSessions: worstEFSessions,
       weeklyProgression,
@@ -401,29 +440,64 @@ export const analyzeEfficiency = defineTool<EfficiencyInput, unknown>({
 
 const trainingLoadInputSchema = z.object({
   includeWeeklyBreakdown: z.boolean().optional().describe('Include week-by-week TSS breakdown'),
+  sport: z.enum(['cycling', 'running', 'swimming', 'other']).optional()
+    .describe('Only analyze load from this sport (CTL/ATL/ramp rate from the per-sport PMC). Omit for total load with a per-sport split.'),
 })
 
 type TrainingLoadInput = z.infer<typeof trainingLoadInputSchema>
 
+// Weekly run CTL increase above which injury risk climbs
+const RUN_RAMP_RATE_LIMIT = 5
+
+type LoadDay = Pick<FitnessHistory, 'date' | 'ctl' | 'atl' | 'tss_day' | 'ramp_rate'>
+
+/**
+ * Latest CTL/ATL/TSB/ramp rate per sport and each sport's share of the total CTL
+ */
+function summarizeSportLoad(rows: SportFitness[]) {
+  const latest = new Map<SportFitness['sport'], SportFitness>()
+  for (const row of rows) latest.set(row.sport, row)
+  const sports = [...latest.values()].filter(row => row.ctl >= 0.5)
+  const totalCTL = sports.reduce((sum, row) => sum + row.ctl, 0)
+  return sports
+    .sort((a, b) => b.ctl - a.ctl)
+    .map(row => ({
+      sport: row.sport,
+      ctl: Math.round(row.ctl),
+      atl: Math.round(row.atl),
+      tsb: Math.round(row.tsb),
+      rampRate: row.ramp_rate,
+      ctlShare: totalCTL > 0 ? Math.round((row.ctl / totalCTL) * 100) : 0,
+    }))
+}
+
 export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
-  description: 'Analyze training load metrics including ACWR (acute:chronic workload ratio), monotony, and strain. Use to assess injury risk, training balance, and load management.',
+  description: 'Analyze training load metrics including ACWR (acute:chronic workload ratio), monotony, strain and CTL ramp rate. Session TSS falls back to heart rate (hrTSS, TRIMP) or session RPE when there is no power; stressMethods shows how the load was scored. Without a sport, loadBySport splits CTL and ramp rate by sport; pass sport (e.g. "running") to analyze one sport\'s load on its own - run ramp rates matter most for injury risk. Use to assess injury risk, training balance, and load management.',
   inputSchema: trainingLoadInputSchema,
-  execute: async ({ includeWeeklyBreakdown = true }, ctx) => {
+  execute: async ({ includeWeeklyBreakdown = true, sport }, ctx) => {
     const lookbackDays = 42 // 6 weeks for good context
 
     let dailyTSS: Array<{ date: string; tss: number }> = []
     let currentCTL = 0
     let currentATL = 0
+    let rampRate: number | null = null
     let dataSource = 'none'
+    // Sessions and TSS per stress scoring method (local data only)
+    const stressMethods: Record<string, { sessions: number; tss: number }> = {}
+    // Per-sport CTL split (local data only, without a sport filter)
+    let loadBySport: ReturnType<typeof summarizeSportLoad> | undefined
 
     // Try local Supabase first
     if (ctx.flags.useLocalData && ctx.athleteId) {
       try {
-        const [fitnessHistory, sessions] = await Promise.all([
-          getFitnessHistory(ctx.athleteId, lookbackDays),
+        const [fitnessHistory, sessions]: [LoadDay[], Awaited<ReturnType<typeof getSessions>>] = await Promise.all([
+          sport
+            ? getSportFitnessHistory(ctx.athleteId, lookbackDays, sport)
+            : getFitnessHistory(ctx.athleteId, lookbackDays),
           getSessions(ctx.athleteId, {
             startDate: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
             limit: 200,
+            sport,
           }),
         ])
 
@@ -431,22 +505,47 @@ export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
           const latest = fitnessHistory[fitnessHistory.length - 1]
           currentCTL = latest.ctl
           currentATL = latest.atl
-
-          dailyTSS = fitnessHistory.map(f => ({
-            date: f.date,
-            tss: f.tss_day || 0,
-          }))
+          rampRate = latest.ramp_rate ?? null
           dataSource = 'local'
-        } else if (sessions.length > 0) {
+        }
+        if (!sport) {
+          try {
+            const sportFitness = await getSportFitnessHistory(ctx.athleteId, lookbackDays)
+            if (sportFitness.length > 0) loadBySport = summarizeSportLoad(sportFitness)
+          } catch {
+            // The per-sport split is supplementary
+          }
+        }
+
+        // Daily load from session TSS (power, HR, TRIMP, RPE or intervals.icu load)
+        if (sessions.length > 0) {
           const tssbyDate: Record<string, number> = {}
           sessions.forEach(s => {
-            if (!tssbyDate[s.date]) tssbyDate[s.date] = 0
-            tssbyDate[s.date] += s.tss || 0
+            const date = s.date.split('T')[0]
+            if (!tssbyDate[date]) tssbyDate[date] = 0
+            tssbyDate[date] += s.tss || 0
+
+            const method = s.tss_method ?? (s.tss ? 'manual' : 'unscored')
+            if (!stressMethods[method]) stressMethods[method] = { sessions: 0, tss: 0 }
+            stressMethods[method].sessions++
+            stressMethods[method].tss += s.tss || 0
           })
+          if (fitnessHistory.length > 0) {
+            // Days without sessions count as rest days
+            fitnessHistory.forEach(f => {
+              const date = f.date.split('T')[0]
+              if (!(date in tssbyDate)) tssbyDate[date] = 0
+            })
+          }
           dailyTSS = Object.entries(tssbyDate)
             .map(([date, tss]) => ({ date, tss }))
             .sort((a, b) => a.date.localeCompare(b.date))
           dataSource = 'local'
+        } else if (fitnessHistory.length > 0) {
+          dailyTSS = fitnessHistory.map(f => ({
+            date: f.date,
+            tss: f.tss_day || 0,
+          }))
         }
       } catch {
         // Fall through
@@ -462,14 +561,17 @@ export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
           ctx.intervalsClient.getActivities(oldest, newest),
         ])
 
-        if (wellness.length > 0) {
+        // intervals.icu wellness has no per-sport CTL/ATL
+        if (wellness.length > 0 && !sport) {
           const latest = wellness[wellness.length - 1]
           currentCTL = latest.ctl
           currentATL = latest.atl
+          rampRate = latest.rampRate ?? null
         }
 
         const tssbyDate: Record<string, number> = {}
-        activities.forEach((a: { start_date_local?: string; icu_training_load?: number }) => {
+        activities.forEach((a: { start_date_local?: string; icu_training_load?: number; type?: string }) => {
+          if (sport && getSportType(a.type ?? '') !== sport) return
           const date = a.start_date_local?.split('T')[0]
           if (date) {
             if (!tssbyDate[date]) tssbyDate[date] = 0
@@ -486,7 +588,11 @@ export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
     }
 
     if (dailyTSS.length < 14) {
-      return { error: 'Insufficient data for training load analysis. Need at least 2 weeks of training data.' }
+      return {
+        error: sport
+          ? `Insufficient ${sport} data for training load analysis. Need at least 2 weeks of ${sport} sessions.`
+          : 'Insufficient data for training load analysis. Need at least 2 weeks of training data.',
+      }
     }
 
     // Fill in missing dates with 0 TSS
@@ -584,12 +690,18 @@ export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
     else if (tsb < 25) tsbStatus = 'Fresh - ready for hard efforts or racing'
     else tsbStatus = 'Very fresh - may be losing fitness'
 
+    const runRampRate = sport === 'running'
+      ? rampRate
+      : loadBySport?.find(s => s.sport === 'running')?.rampRate ?? null
+
     return {
+      sport: sport ?? 'all',
       currentFitness: {
         ctl: Math.round(currentCTL),
         atl: Math.round(currentATL),
         tsb: Math.round(tsb),
         tsbStatus,
+        rampRate,
       },
       acwr: {
         value: acwr,
@@ -615,7 +727,16 @@ export const analyzeTrainingLoad = defineTool<TrainingLoadInput, unknown>({
         monotony > 2.0 ? 'Add more variety to your training - mix hard and easy days' : null,
         strain > 8000 ? 'High strain detected - prioritize sleep and recovery' : null,
         tsb < -25 ? 'Deep fatigue - schedule a recovery day or easy week soon' : null,
+        runRampRate != null && runRampRate > RUN_RAMP_RATE_LIMIT
+          ? `Run CTL is rising ${runRampRate} points/week - running load is ramping faster than tendons and bones adapt, hold run volume steady`
+          : null,
+        stressMethods.unscored ? `${stressMethods.unscored.sessions} session(s) have no TSS - set LTHR or log an RPE so they count towards load` : null,
       ].filter(Boolean),
+      stressMethods: Object.keys(stressMethods).length > 0 ? stressMethods : undefined,
+      loadBySport,
+      note: sport && dataSource === 'intervals_icu'
+        ? `Per-sport CTL/ATL need local data - ACWR, monotony and strain use intervals.icu ${sport} activities only`
+        : undefined,
       dataSource,
     }
   },
@@ -0,0 +1,166 @@
+import { z } from 'zod'
+import { defineTool } from './types'
+import {
+  getClimb,
+  getClimbLeaderboard,
+  getClimbSummaries,
+  getRankedSessionClimbs,
+  type Climb,
+  type ClimbEffort,
+  type RankedClimbEffort,
+} from '@/lib/db/climbs'
+import { logger } from '@/lib/logger'
+
+const inputSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID to list the climbs of, each ranked against earlier ascents'),
+  climbId: z.string().optional().describe('Climb ID to get the full leaderboard and trend for'),
+  sport: z.enum(['cycling', 'running']).optional().describe('Limit the climb list to one sport (when neither ID is given)'),
+  limit: z.number().optional().describe('Number of climbs to list when neither ID is given (default 10, max 25)'),
+})
+
+type Input = z.infer<typeof inputSchema>
+
+interface EffortSummary {
+  date: string
+  sessionId: string
+  durationSeconds: number
+  vam: number
+  avgPower: number | null
+  wattsPerKg: number | null
+  avgHr: number | null
+}
+
+interface ClimbInfo {
+  climbId: string
+  name: string
+  sport: Climb['sport']
+  lengthMeters: number
+  elevationGain: number
+  avgGradient: number
+}
+
+interface SessionClimb extends EffortSummary {
+  climbId: string | null
+  name: string
+  lengthMeters: number
+  avgGradient: number
+  maxGradient: number
+  /** 1 = fastest ascent; null for climbs without GPS */
+  rank: number | null
+  effortCount: number
+  gapToBestSeconds: number | null
+}
+
+interface ClimbLeaderboard extends ClimbInfo {
+  effortCount: number
+  best: EffortSummary
+  latest: EffortSummary
+  /** Fastest first */
+  leaderboard: EffortSummary[]
+  /** Oldest first, for progression */
+  history?: EffortSummary[]
+}
+
+type Output =
+  | { mode: 'session'; sessionId: string; climbs: SessionClimb[] }
+  | { mode: 'climb'; climb: ClimbLeaderboard }
+  | { mode: 'overview'; climbs: ClimbLeaderboard[]; totalClimbs: number }
+
+interface ErrorOutput {
+  error: string
+}
+
+function summarizeEffort(effort: ClimbEffort): EffortSummary {
+  return {
+    date: effort.date,
+    sessionId: effort.session_id,
+    durationSeconds: effort.duration_seconds,
+    vam: effort.vam,
+    avgPower: effort.avg_power,
+    wattsPerKg: effort.watts_per_kg,
+    avgHr: effort.avg_hr,
+  }
+}
+
+function summarizeSessionClimb(effort: RankedClimbEffort): SessionClimb {
+  return {
+    ...summarizeEffort(effort),
+    climbId: effort.climb_id,
+    name: effort.climb_name ?? `${(effort.length_meters / 1000).toFixed(1)} km at ${effort.avg_gradient}%`,
+    lengthMeters: effort.length_meters,
+    avgGradient: effort.avg_gradient,
+    maxGradient: effort.max_gradient,
+    rank: effort.rank,
+    effortCount: effort.effort_count,
+    gapToBestSeconds: effort.best_seconds !== null ? effort.duration_seconds - effort.best_seconds : null,
+  }
+}
+
+function buildLeaderboard(climb: Climb, efforts: ClimbEffort[], top: number, withHistory: boolean): ClimbLeaderboard {
+  const summaries = efforts.map(summarizeEffort)
+  const history = [...summaries].sort((a, b) => a.date.localeCompare(b.date))
+  return {
+    climbId: climb.id,
+    name: climb.name,
+    sport: climb.sport,
+    lengthMeters: climb.length_meters,
+    elevationGain: climb.elevation_gain,
+    avgGradient: climb.avg_gradient,
+    effortCount: efforts.length,
+    best: summaries[0],
+    latest: history[history.length - 1],
+    leaderboard: summaries.slice(0, top),
+    ...(withHistory ? { history } : {}),
+  }
+}
+
+export const analyzeClimbing = defineTool<Input, Output | ErrorOutput>({
+  description: `Analyze the athlete's climbs: repeated ascents matched by GPS, with personal leaderboards.
+
+Each climb effort has length, average and max gradient, time, VAM (vertical ascent in m/h),
+average power, W/kg and heart rate.
+- sessionId: the climbs in one session, each ranked against earlier ascents of the same climb
+- climbId: the full leaderboard and date-ordered history of one climb, to track climbing progression
+- neither: the most-ridden climbs with best, latest and top efforts
+
+Use when the athlete asks about climbing, hills, VAM, a specific climb or their times up it.`,
+
+  inputSchema,
+
+  execute: async ({ sessionId, climbId, sport, limit = 10 }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'Climb analysis needs a signed-in athlete with synced sessions.' }
+    }
+
+    try {
+      if (sessionId) {
+        const climbs = await getRankedSessionClimbs(sessionId, ctx.athleteId)
+        return { mode: 'session', sessionId, climbs: climbs.map(summarizeSessionClimb) }
+      }
+
+      if (climbId) {
+        const [climb, efforts] = await Promise.all([
+          getClimb(climbId, ctx.athleteId),
+          getClimbLeaderboard(climbId, ctx.athleteId),
+        ])
+        if (!climb || efforts.length === 0) return { error: `No climb found with ID ${climbId}` }
+        return { mode: 'climb', climb: buildLeaderboard(climb, efforts, 10, true) }
+      }
+
+      const summaries = await getClimbSummaries(ctx.athleteId, sport)
+      if (summaries.length === 0) {
+        return { error: 'No climbs found yet. Climbs are detected in rides and runs with altitude and GPS streams.' }
+      }
+      const top = summaries.slice(0, Math.min(Math.max(Math.round(limit), 1), 25))
+      const leaderboards = await Promise.all(top.map(c => getClimbLeaderboard(c.id, ctx.athleteId!)))
+      return {
+        mode: 'overview',
+        totalClimbs: summaries.length,
+        climbs: top.map((c, i) => buildLeaderboard(c, leaderboards[i], 3, false)),
+      }
+    } catch (error) {
+      logger.error('[analyzeClimbing] Error:', error)
+      return { error: 'Failed to load climbs' }
+    }
+  },
+})
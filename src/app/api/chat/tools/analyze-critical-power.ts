@@ -0,0 +1,159 @@
+import { z } from 'zod'
+import { defineTool, resolveAthleteProfile } from './types'
+import { fitCriticalPowerModels, type CpModelFit, type MeanMaxPoint } from '@/lib/analysis/critical-power'
+import { getMeanMaxPowerWindows, type MeanMaxSource } from '@/lib/analysis/mean-max-power'
+import { formatDateForApi } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+
+const inputSchema = z.object({
+  days: z.number().optional().describe('Length of the mean-maximal power window in days (default 90, max 365)'),
+  endDate: z.string().optional().describe('Last day of the window (YYYY-MM-DD, default today). Use to analyze an earlier part of the season.'),
+  trendWindows: z.number().optional().describe('Number of earlier consecutive windows to fit as well, to track CP and W\' over a season (default 0, max 12)'),
+})
+
+type Input = z.infer<typeof inputSchema>
+
+interface WindowFit {
+  startDate: string
+  endDate: string
+  source: MeanMaxSource | 'intervals_icu'
+  sessionCount: number
+  cp: number | null
+  wPrime: number | null
+  pMax: number | null
+  modeledFtp: number | null
+  model: CpModelFit['model'] | null
+}
+
+interface Output {
+  window: { startDate: string; endDate: string; days: number }
+  dataSource: MeanMaxSource | 'intervals_icu'
+  meanMaxPower: MeanMaxPoint[]
+  models: CpModelFit[]
+  recommended: CpModelFit | null
+  currentFtp: number | null
+  weightKg: number | null
+  cpPerKg: number | null
+  trend?: WindowFit[]
+  notes: string[]
+}
+
+interface ErrorOutput {
+  error: string
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+export const analyzeCriticalPower = defineTool<Input, Output | ErrorOutput>({
+  description: `Fit Critical Power models to the athlete's mean-maximal power over a date window.
+
+Fits the 2-parameter (CP/W'), 3-parameter (Morton, adds Pmax) and omni-domain models.
+Returns CP (W), W' (J), Pmax, fit error (RMSE and %), and a modeled FTP for each model,
+plus a recommended model.
+
+Use trendWindows to fit consecutive earlier windows and track how CP and W' develop over a season.
+Use when the athlete asks about critical power, W', anaerobic capacity, or a modeled FTP.`,
+
+  inputSchema,
+
+  execute: async ({ days = 90, endDate, trendWindows = 0 }, ctx) => {
+    const windowDays = Math.min(Math.max(Math.round(days), 14), 365)
+    const windowCount = Math.min(Math.max(Math.round(trendWindows), 0), 12) + 1
+    const lastDay = endDate || formatDateForApi(new Date())
+
+    // Most recent window first
+    const windows = Array.from({ length: windowCount }, (_, i) => {
+      const windowEnd = shiftDays(lastDay, -i * windowDays)
+      return { startDate: shiftDays(windowEnd, -(windowDays - 1)), endDate: windowEnd }
+    })
+
+    const profile = await resolveAthleteProfile(ctx)
+    const curves: Array<{ points: MeanMaxPoint[]; source: WindowFit['source']; sessionCount: number }> =
+      windows.map(() => ({ points: [], source: 'none', sessionCount: 0 }))
+
+    if (ctx.flags.useLocalData && ctx.athleteId) {
+      try {
+        const local = await getMeanMaxPowerWindows(ctx.athleteId, windows)
+        local.forEach((result, i) => { curves[i] = result })
+      } catch (error) {
+        logger.error('[analyzeCriticalPower] Error loading local power data:', error)
+      }
+    }
+
+    // Fill windows without local data from intervals.icu power curves
+    if (ctx.intervalsConnected) {
+      for (let i = 0; i < windows.length; i++) {
+        if (curves[i].points.length > 0) continue
+        try {
+          const powerCurves = await ctx.intervalsClient.getPowerCurves(windows[i].startDate, windows[i].endDate)
+          if (powerCurves && powerCurves.length > 0) {
+            curves[i] = {
+              points: powerCurves.map(pc => ({ duration: pc.secs, watts: pc.watts })),
+              source: 'intervals_icu',
+              sessionCount: 0,
+            }
+          }
+        } catch (error) {
+          logger.error('[analyzeCriticalPower] Error fetching power curves:', error)
+        }
+      }
+    }
+
+    const current = curves[0]
+    if (current.points.length === 0) {
+      return { error: 'No power data available for this window. Upload rides with power or connect intervals.icu.' }
+    }
+
+    const { models, recommended } = fitCriticalPowerModels(current.points)
+    const notes: string[] = []
+    if (!recommended) {
+      notes.push('Not enough maximal efforts between 2 and 20 minutes to fit a Critical Power model. Hard efforts of ~3, ~8 and ~15 minutes give the most reliable fit.')
+    } else if (!models.some(m => m.model === 'omni_domain')) {
+      notes.push('The omni-domain model needs both a short sprint (≤30s) and a 10+ minute effort in the window.')
+    }
+    if (recommended && recommended.errorPercent > 5) {
+      notes.push('Fit error is above 5%: some durations are probably not maximal efforts, so treat CP and W\' as estimates.')
+    }
+    if (recommended && profile.ftp) {
+      const diff = Math.round(((recommended.modeledFtp - profile.ftp) / profile.ftp) * 100)
+      if (Math.abs(diff) >= 5) {
+        notes.push(`Modeled FTP is ${diff > 0 ? '+' : ''}${diff}% vs the configured FTP of ${profile.ftp}W.`)
+      }
+    }
+
+    const trend = windowCount > 1
+      ? windows.map((w, i) => {
+          const fit = fitCriticalPowerModels(curves[i].points).recommended
+          return {
+            ...w,
+            source: curves[i].source,
+            sessionCount: curves[i].sessionCount,
+            cp: fit?.cp ?? null,
+            wPrime: fit?.wPrime ?? null,
+            pMax: fit?.pMax ?? null,
+            modeledFtp: fit?.modeledFtp ?? null,
+            model: fit?.model ?? null,
+          }
+        }).reverse()
+      : undefined
+
+    return {
+      window: { ...windows[0], days: windowDays },
+      dataSource: current.source,
+      meanMaxPower: current.points,
+      models,
+      recommended,
+      currentFtp: profile.ftp,
+      weightKg: profile.weight_kg,
+      cpPerKg: recommended && profile.weight_kg
+        ? Math.round((recommended.cp / profile.weight_kg) * 100) / 100
+        : null,
+      trend,
+      notes,
+    }
+  },
+})
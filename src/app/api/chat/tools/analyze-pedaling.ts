@@ -0,0 +1,110 @@
+import { z } from 'zod'
+import { defineTool } from './types'
+import { getSession, getSessions } from '@/lib/db/sessions'
+import { analyzeSessionPedaling, type SessionPedalingAnalysis } from '@/lib/analysis/session-pedaling'
+import { DEFAULT_REFERENCE_CADENCE, type QuadrantAnalysis } from '@/lib/analysis/pedaling'
+import { logger } from '@/lib/logger'
+
+const inputSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID of a ride, or "latest" for the most recent ride (default)'),
+  referenceCadence: z.number().optional().describe('Cadence (rpm) the quadrants are split at. Default: the athlete\'s cadence near FTP in this ride, else 90'),
+})
+
+type Input = z.infer<typeof inputSchema>
+
+interface Output extends Omit<SessionPedalingAnalysis, 'quadrants'> {
+  /** Quadrant times without the scatter points (the pedaling-analysis widget plots those) */
+  quadrants: Omit<QuadrantAnalysis, 'points'> | null
+  notes: string[]
+}
+
+interface ErrorOutput {
+  error: string
+}
+
+// Share of pedaling time in a quadrant worth pointing out
+const NOTABLE_QUADRANT_PERCENT = 15
+
+function pedalingNotes(analysis: SessionPedalingAnalysis): string[] {
+  const notes: string[] = []
+  const { quadrants, cadenceTargets } = analysis
+
+  if (!quadrants) {
+    notes.push('No FTP known, so quadrant and zone analysis are unavailable. Set an FTP to split force and velocity.')
+  } else {
+    const q2 = quadrants.quadrants.find(q => q.quadrant === 2)!
+    const q4 = quadrants.quadrants.find(q => q.quadrant === 4)!
+    if (q2.percent >= NOTABLE_QUADRANT_PERCENT) {
+      notes.push(`${q2.percent}% of pedaling was high force at low cadence (QII): climbing or strength work.`)
+    }
+    if (q4.percent >= NOTABLE_QUADRANT_PERCENT) {
+      notes.push(`${q4.percent}% of pedaling was light, fast spinning (QIV).`)
+    }
+    if (!quadrants.referenceCadenceEstimated && quadrants.referenceCadence === DEFAULT_REFERENCE_CADENCE) {
+      notes.push(`Too little riding near FTP to estimate a reference cadence; quadrants use ${quadrants.referenceCadence} rpm.`)
+    }
+  }
+
+  if (cadenceTargets.length > 0) {
+    const met = cadenceTargets.filter(r => r.onTarget === true).length
+    const checked = cadenceTargets.filter(r => r.onTarget !== null).length
+    notes.push(checked > 0
+      ? `${met} of ${checked} reps with a cadence target were ridden on target (±5 rpm).`
+      : 'The planned workout had cadence targets, but no reps could be matched to check them.')
+  }
+  return notes
+}
+
+function withoutPoints(quadrants: QuadrantAnalysis): Omit<QuadrantAnalysis, 'points'> {
+  const times: Partial<QuadrantAnalysis> = { ...quadrants }
+  delete times.points
+  return times as Omit<QuadrantAnalysis, 'points'>
+}
+
+export const analyzePedaling = defineTool<Input, Output | ErrorOutput>({
+  description: `Analyze pedaling in a ride: quadrant analysis, cadence per power zone and torque peaks.
+
+Quadrant analysis places every pedaling second by pedal force vs. pedal velocity, split at FTP
+and a reference cadence: QI high force/high velocity (sprints), QII high force/low velocity
+(climbing, low-cadence strength work), QIII low/low (easy riding), QIV low force/high velocity (spinning).
+Also returns average cadence and cadence bands in each power zone, peak crank torque (Nm) over
+5s-20min, and — when the plan day prescribed cadence targets — whether each rep met its target.
+
+Use when the athlete asks about cadence, torque, pedaling style, low-cadence/strength work or big-gear efforts.
+Show the pedaling-analysis widget with config { sessionId } to plot the quadrant scatter.`,
+
+  inputSchema,
+
+  execute: async ({ sessionId = 'latest', referenceCadence }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'No athlete ID available' }
+    }
+
+    try {
+      const session = sessionId === 'latest'
+        ? (await getSessions(ctx.athleteId, { sport: 'cycling', limit: 1 }))[0]
+        : await getSession(sessionId)
+      if (!session || session.athlete_id !== ctx.athleteId) {
+        return { error: 'Session not found' }
+      }
+
+      const analysis = await analyzeSessionPedaling(session, {
+        referenceCadence,
+        remote: ctx.intervalsConnected ? ctx.intervalsClient : null,
+      })
+      if (!analysis) {
+        return { error: 'Pedaling analysis needs a ride with power and cadence streams.' }
+      }
+
+      const { quadrants, ...rest } = analysis
+      return {
+        ...rest,
+        quadrants: quadrants ? withoutPoints(quadrants) : null,
+        notes: pedalingNotes(analysis),
+      }
+    } catch (error) {
+      logger.error('[analyzePedaling] Error:', error)
+      return { error: 'Failed to analyze pedaling' }
+    }
+  },
+})
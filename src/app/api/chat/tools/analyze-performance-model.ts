@@ -0,0 +1,141 @@
+import { z } from 'zod'
+import { defineTool } from './types'
+import {
+  banisterStateAt,
+  predictPerformance,
+  DEFAULT_TAPER_LOAD,
+  type BanisterModel,
+  type PerformanceMarker,
+  type PerformancePoint,
+  type TaperResult,
+} from '@/lib/analysis/banister'
+import { fitAthletePerformanceModel } from '@/lib/analysis/performance-model'
+import { formatDateForApi } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+
+const inputSchema = z.object({
+  days: z.number().optional().describe('Training history to fit the model on, in days (default 365, min 90, max 730)'),
+  eventDate: z.string().optional().describe('Date of an upcoming A-event (YYYY-MM-DD). Predicts performance up to it, assuming the usual daily load until the taper.'),
+})
+
+type Input = z.infer<typeof inputSchema>
+
+interface Output {
+  window: { startDate: string; endDate: string; days: number }
+  model: BanisterModel | null
+  markers: {
+    count: number
+    bySource: Record<string, number>
+    recent: PerformanceMarker[]
+  }
+  /** Average daily TSS over the last 4 weeks */
+  recentDailyLoad: number
+  currentPerformance: number | null
+  /** Fitted performance over the last 8 weeks and, with an event, predicted up to it */
+  predictedCurve: PerformancePoint[]
+  bestTaper: Omit<TaperResult, 'curve'> | null
+  eventPerformance: PerformancePoint | null
+  notes: string[]
+}
+
+interface ErrorOutput {
+  error: string
+}
+
+const HISTORY_CURVE_DAYS = 56
+const MAX_PREDICT_DAYS = 180
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+export const analyzePerformanceModel = defineTool<Input, Output | ErrorOutput>({
+  description: `Fit a Banister fitness-fatigue (impulse-response) model to the athlete's own performance markers.
+
+Markers are 5- and 20-minute power bests, race results with power and test sessions, each expressed
+as % of the athlete's best power at that duration. Returns the fitted gains (k1, k2), time constants
+(τ1 fitness, τ2 fatigue), fit quality (R², RMSE), a predicted performance curve and the taper length
+that maximises event-day performance.
+
+Use when the athlete asks how they respond to training, when they will peak, or how long to taper.`,
+
+  inputSchema,
+
+  execute: async ({ days = 365, eventDate }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'No athlete profile available.' }
+    }
+
+    const windowDays = Math.min(Math.max(Math.round(days), 90), 730)
+    const endDate = formatDateForApi(new Date())
+
+    let fitted
+    try {
+      fitted = await fitAthletePerformanceModel(ctx.athleteId, { days: windowDays, endDate })
+    } catch (error) {
+      logger.error('[analyzePerformanceModel] Error fitting performance model:', error)
+      return { error: 'Failed to load training and performance data.' }
+    }
+
+    const { model, markers, dailyTss, recentDailyLoad, bestTaper } = fitted
+    const bySource: Record<string, number> = {}
+    for (const marker of markers) {
+      bySource[marker.source] = (bySource[marker.source] || 0) + 1
+    }
+
+    const notes: string[] = []
+    let predictedCurve: PerformancePoint[] = []
+    let currentPerformance: number | null = null
+    let eventPerformance: PerformancePoint | null = null
+
+    if (!model) {
+      notes.push(`Not enough performance markers to fit the model (${markers.length} found). Maximal 5- or 20-minute efforts, tests or races spread over several months are needed.`)
+    } else {
+      const curveStart = shiftDays(endDate, -HISTORY_CURVE_DAYS)
+      const curveEnd = eventDate && eventDate > endDate
+        ? (eventDate < shiftDays(endDate, MAX_PREDICT_DAYS) ? eventDate : shiftDays(endDate, MAX_PREDICT_DAYS))
+        : endDate
+
+      // Future days continue at the usual load and taper into the event
+      const load = new Map(dailyTss)
+      const taperDays = bestTaper?.days ?? 0
+      for (let date = shiftDays(endDate, 1); date <= curveEnd; date = shiftDays(date, 1)) {
+        const inTaper = eventDate !== undefined && date >= shiftDays(eventDate, -taperDays)
+        load.set(date, inTaper ? recentDailyLoad * DEFAULT_TAPER_LOAD : recentDailyLoad)
+      }
+
+      predictedCurve = predictPerformance(model, banisterStateAt(model, load, curveStart), load, curveStart, curveEnd)
+      currentPerformance = predictedCurve.find(p => p.date === endDate)?.performance ?? null
+      if (eventDate && eventDate > endDate) {
+        eventPerformance = predictedCurve.find(p => p.date === eventDate) ?? null
+      }
+
+      if (model.r2 < 0.3) {
+        notes.push('The model explains little of the variation in the markers: some efforts were probably not maximal, so treat predictions as rough.')
+      }
+      if (model.markerCount < 12) {
+        notes.push('Few markers: the fitted time constants may shift noticeably as more maximal efforts are recorded.')
+      }
+    }
+
+    return {
+      window: { startDate: shiftDays(endDate, -windowDays), endDate, days: windowDays },
+      model,
+      markers: {
+        count: markers.length,
+        bySource,
+        recent: markers.slice(-10),
+      },
+      recentDailyLoad,
+      currentPerformance,
+      predictedCurve,
+      bestTaper: bestTaper
+        ? { days: bestTaper.days, performance: bestTaper.performance, gain: bestTaper.gain }
+        : null,
+      eventPerformance,
+      notes,
+    }
+  },
+})
@@ -0,0 +1,101 @@
+import { z } from 'zod'
+import { defineTool } from './types'
+import { getRunningBestsHistory } from '@/lib/db/sessions'
+import { summarizeRunningBests, type RunningBestRecord } from '@/lib/analysis/running'
+import { formatPace } from '@/lib/analysis/zones'
+import { logger } from '@/lib/logger'
+
+const inputSchema = z.object({
+  startDate: z.string().optional().describe('Only consider runs from this date (YYYY-MM-DD), e.g. for season bests. Default: all history'),
+  distance: z.enum(['1k', '5k', '10k', 'Half marathon']).optional().describe('Limit to one distance'),
+})
+
+type Input = z.infer<typeof inputSchema>
+
+interface EffortSummary {
+  date: string
+  sessionId: string
+  seconds: number
+  time: string
+  pace: string
+}
+
+interface DistanceBests {
+  distance: string
+  distanceMeters: number
+  best: EffortSummary
+  latest: EffortSummary
+  runCount: number
+  /** Each time the best improved, oldest first */
+  progression: EffortSummary[]
+}
+
+interface Output {
+  startDate: string | null
+  runsAnalyzed: number
+  bests: DistanceBests[]
+}
+
+interface ErrorOutput {
+  error: string
+}
+
+function formatTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  const mmss = `${String(m).padStart(h > 0 ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`
+  return h > 0 ? `${h}:${mmss}` : mmss
+}
+
+function summarizeEffort(record: RunningBestRecord): EffortSummary {
+  return {
+    date: record.date,
+    sessionId: record.sessionId,
+    seconds: record.seconds,
+    time: formatTime(record.seconds),
+    pace: `${formatPace(record.pace)}/km`,
+  }
+}
+
+export const analyzeRunningBests = defineTool<Input, Output | ErrorOutput>({
+  description: `Get the athlete's running best efforts: fastest 1k, 5k, 10k and half marathon found within their runs.
+
+For each distance returns the best time and pace (with the run it came from), the latest effort,
+how many runs covered the distance, and the progression of records over time.
+Use startDate for season bests.
+
+Use when the athlete asks about their 5k/10k time, running PRs, race-distance bests or running progression.`,
+
+  inputSchema,
+
+  execute: async ({ startDate, distance }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'Running bests need a signed-in athlete with synced runs.' }
+    }
+
+    try {
+      const runs = await getRunningBestsHistory(ctx.athleteId, startDate)
+      const progressions = summarizeRunningBests(runs).filter(p => !distance || p.label === distance)
+      if (progressions.length === 0) {
+        return { error: 'No running best efforts found yet. They are found in runs with a stored distance stream.' }
+      }
+
+      return {
+        startDate: startDate ?? null,
+        runsAnalyzed: runs.length,
+        bests: progressions.map(p => ({
+          distance: p.label,
+          distanceMeters: p.distance,
+          best: summarizeEffort(p.best),
+          latest: summarizeEffort(p.latest),
+          runCount: p.efforts,
+          progression: p.records.map(summarizeEffort),
+        })),
+      }
+    } catch (error) {
+      logger.error('[analyzeRunningBests] Error:', error)
+      return { error: 'Failed to load running bests' }
+    }
+  },
+})
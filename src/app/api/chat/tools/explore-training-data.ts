@@ -37,6 +37,8 @@ interface WeeklySummary {
   totalHours: number
   totalDistanceKm: number
   totalTSS: number
+  /** TSS per scoring method (power, pace, hr, trimp, rpe, external) */
+  tssByMethod: Record<string, number>
   avgPower: number | null
   avgHR: number | null
   avgIF: number | null
@@ -58,6 +60,7 @@ interface SessionDetail {
   durationMin: number
   distanceKm: number | null
   tss: number | null
+  tssMethod: string | null
   avgPower: number | null
   normalizedPower: number | null
   avgHR: number | null
@@ -159,6 +162,7 @@ export const exploreTrainingData = defineTool<ExploreTrainingDataInput, unknown>
         durationMin: Math.round((s.duration_seconds || 0) / 60),
         distanceKm: s.distance_meters ? Math.round(s.distance_meters / 1000 * 10) / 10 : null,
         tss: s.tss ? Math.round(s.tss) : null,
+        tssMethod: s.tss_method ?? null,
         avgPower: s.avg_power ? Math.round(s.avg_power) : null,
         normalizedPower: s.normalized_power ? Math.round(s.normalized_power) : null,
         avgHR: s.avg_hr ? Math.round(s.avg_hr) : null,
@@ -186,10 +190,15 @@ export const exploreTrainingData = defineTool<ExploreTrainingDataInput, unknown>
         const lastSession = weekSessions[weekSessions.length - 1]
         const workoutTypes: Record<string, number> = {}
         const dayDistribution: Record<string, number> = {}
+        const tssByMethod: Record<string, number> = {}
 
         weekSessions.forEach(s => {
           workoutTypes[s.type] = (workoutTypes[s.type] || 0) + 1
           dayDistribution[s.dayOfWeek] = (dayDistribution[s.dayOfWeek] || 0) + 1
+          if (s.tss) {
+            const method = s.tssMethod || 'manual'
+            tssByMethod[method] = (tssByMethod[method] || 0) + s.tss
+          }
         })
 
         const sessionsWithPower = weekSessions.filter(s => s.avgPower)
@@ -202,6 +211,7 @@ export const exploreTrainingData = defineTool<ExploreTrainingDataInput, unknown>
           totalHours: Math.round(weekSessions.reduce((sum, s) => sum + s.durationMin, 0) / 60 * 10) / 10,
           totalDistanceKm: Math.round(weekSessions.reduce((sum, s) => sum + (s.distanceKm || 0), 0) * 10) / 10,
           totalTSS: weekSessions.reduce((sum, s) => sum + (s.tss || 0), 0),
+          tssByMethod,
           avgPower: sessionsWithPower.length > 0
             ? Math.round(sessionsWithPower.reduce((sum, s) => sum + s.avgPower!, 0) / sessionsWithPower.length)
             : null,
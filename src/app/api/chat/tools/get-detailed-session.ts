@@ -2,8 +2,20 @@ import { z } from 'zod'
 import { defineTool } from './types'
 import { getSession } from '@/lib/db/sessions'
 import { getNormalizedPower, getAveragePower } from '@/lib/transforms'
-import { calculatePeakPower, analyzePacing, enrichWithStreams, buildPacingAssessment } from '@/lib/analysis/power-analysis'
+import { calculatePeakPowers, analyzePacing, enrichWithStreams, buildPacingAssessment, buildWPrimeAssessment } from '@/lib/analysis/power-analysis'
+import { bestsExclusionMask, cleanStreams } from '@/lib/analysis/stream-quality'
 import type { PeakPowers, PacingAnalysis } from '@/lib/analysis/power-analysis'
+import { calculateWPrimeBalance, summarizeWPrimeBalance } from '@/lib/analysis/w-prime-balance'
+import type { WPrimeBalanceSummary } from '@/lib/analysis/w-prime-balance'
+import { resolveCriticalPower } from '@/lib/analysis/mean-max-power'
+import { analyzeSessionIntervals, type PlannedIntervalComparison } from '@/lib/analysis/session-intervals'
+import type { DetectedInterval } from '@/lib/analysis/interval-detection'
+import { getSessionZoneDistribution, getZoneContext, sessionZoneDistribution } from '@/lib/analysis/session-zones'
+import { formatPace, summarizeZoneDistribution, type ZoneMetric, type ZoneSummary } from '@/lib/analysis/zones'
+import { calculateRunningBests, calculateRunningMetrics, speedToPace, type RunningStreams } from '@/lib/analysis/running'
+import { getAthlete } from '@/lib/db/athletes'
+import { getSessionStreams } from '@/lib/streams/stream-access'
+import type { ActivityLap, DeviceInfo, LeftRightBalance } from '@/lib/fit-parser'
 import type { Session } from '@/types'
 
 const inputSchema = z.object({
@@ -22,6 +34,40 @@ interface PowerZones {
   z6: number
 }
 
+// Keep long lap lists (e.g. auto-lap every km) from flooding the context
+const MAX_LAPS = 30
+const MAX_INTERVALS = 30
+
+interface LapSummary {
+  lap: number
+  duration_seconds: number
+  distance_meters?: number
+  avg_power?: number
+  normalized_power?: number
+  avg_hr?: number
+  trigger?: string
+}
+
+interface RunningSummary {
+  /** Paces as m:ss per km */
+  avgPace: string | null
+  gradeAdjustedPace?: string | null
+  normalizedGradedPace?: string | null
+  thresholdPace: string | null
+  /** NGP / threshold pace */
+  intensityFactor?: number | null
+  rtss?: number | null
+  bestEfforts?: { distance: string; seconds: number; pace: string }[]
+}
+
+interface SessionEnvironment {
+  avg_temperature?: number
+  max_temperature?: number
+  left_right_balance?: LeftRightBalance
+  power_meter?: string
+  devices?: string[]
+}
+
 interface SessionResponse {
   session: {
     id: string
@@ -45,8 +91,19 @@ interface SessionResponse {
     // Enhanced metrics
     peakPowers?: PeakPowers
     pacing?: PacingAnalysis
+    // W′ depletion against the athlete's CP/W′ (rides)
+    wPrimeBalance?: WPrimeBalanceSummary
+    // Pace, grade-adjusted pace, rTSS and best efforts (runs)
+    running?: RunningSummary
     // Interval descriptions for structured workouts
     intervalSummary?: string[] | null
+    // Work/recovery bouts detected from the power stream (merged with laps)
+    detectedIntervals?: DetectedInterval[]
+    // Time in zones from the streams with the athlete's zone models
+    timeInZones?: Partial<Record<ZoneMetric, ZoneSummary>>
+    // Device laps and recording environment (uploaded files)
+    laps?: LapSummary[]
+    environment?: SessionEnvironment
   }
   analysis: {
     isHighIntensity: boolean
@@ -56,6 +113,9 @@ interface SessionResponse {
     isLikelyRace: boolean
     sessionType: 'race' | 'workout' | 'endurance' | 'recovery' | 'unknown'
     pacingAssessment?: string
+    wPrimeAssessment?: string
+    // Detected work bouts vs the prescribed intervals of the plan day
+    intervalCompliance?: PlannedIntervalComparison
   }
   source: 'local' | 'intervals_icu'
 }
@@ -112,6 +172,97 @@ export function determineSessionType(
   return 'unknown'
 }
 
+/**
+ * Compact lap list from uploaded file laps. A single lap is just the whole ride.
+ */
+function summarizeLaps(laps: ActivityLap[] | undefined): LapSummary[] | undefined {
+  if (!laps || laps.length < 2) return undefined
+  return laps.slice(0, MAX_LAPS).map((lap, i) => ({
+    lap: i + 1,
+    duration_seconds: lap.duration_seconds,
+    distance_meters: lap.distance_meters,
+    avg_power: lap.avg_power !== undefined ? Math.round(lap.avg_power) : undefined,
+    normalized_power: lap.normalized_power !== undefined ? Math.round(lap.normalized_power) : undefined,
+    avg_hr: lap.avg_hr !== undefined ? Math.round(lap.avg_hr) : undefined,
+    trigger: lap.trigger,
+  }))
+}
+
+/**
+ * Temperature, pedal balance and sensors recorded in uploaded files
+ */
+function buildEnvironment(raw: Record<string, unknown> | null): SessionEnvironment | undefined {
+  if (!raw) return undefined
+  const devices = raw.devices as DeviceInfo[] | undefined
+  const describe = (d: DeviceInfo) => [d.manufacturer, d.product].filter(Boolean).join(' ')
+  const powerMeter = devices?.find(d => d.device_type === 'bike_power')
+
+  const environment: SessionEnvironment = {
+    avg_temperature: raw.avg_temperature as number | undefined,
+    max_temperature: raw.max_temperature as number | undefined,
+    left_right_balance: raw.left_right_balance as LeftRightBalance | undefined,
+    power_meter: powerMeter ? describe(powerMeter) || undefined : undefined,
+    devices: devices?.map(describe).filter(Boolean),
+  }
+  if (environment.devices?.length === 0) delete environment.devices
+
+  return Object.values(environment).some(v => v !== undefined) ? environment : undefined
+}
+
+/**
+ * Efficiency factor: NP per heartbeat for rides, speed (m/min) per heartbeat for runs
+ */
+function calculateEfficiencyFactor(
+  sport: string,
+  normalizedPower: number | null | undefined,
+  distanceMeters: number | null | undefined,
+  durationSeconds: number | null | undefined,
+  avgHr: number | null | undefined
+): number | null {
+  if (!avgHr) return null
+  const output = sport === 'running'
+    ? distanceMeters && durationSeconds ? distanceMeters / (durationSeconds / 60) : null
+    : normalizedPower
+  return output ? Math.round((output / avgHr) * 100) / 100 : null
+}
+
+const paceOrNull = (pace: number | null | undefined) => (pace ? `${formatPace(pace)}/km` : null)
+
+/**
+ * Pace summary of a run from its average speed, completed with GAP, NGP,
+ * rTSS and best efforts when the speed stream is available
+ */
+export function buildRunningSummary(
+  distanceMeters: number | null | undefined,
+  durationSeconds: number | null | undefined,
+  thresholdPace: number | null,
+  streams?: RunningStreams | null
+): RunningSummary {
+  const avgSpeed = distanceMeters && durationSeconds ? distanceMeters / durationSeconds : 0
+  const summary: RunningSummary = {
+    avgPace: paceOrNull(speedToPace(avgSpeed)),
+    thresholdPace: paceOrNull(thresholdPace),
+  }
+  if (!streams?.velocity_smooth?.length) return summary
+
+  const metrics = calculateRunningMetrics(streams, thresholdPace)
+  return {
+    ...summary,
+    avgPace: paceOrNull(metrics.avgPace) ?? summary.avgPace,
+    gradeAdjustedPace: paceOrNull(metrics.gradeAdjustedPace),
+    normalizedGradedPace: paceOrNull(metrics.normalizedGradedPace),
+    intensityFactor: metrics.intensityFactor,
+    rtss: metrics.rtss,
+    bestEfforts: streams.distance
+      ? calculateRunningBests(streams.distance, streams.time).map(effort => ({
+          distance: effort.label,
+          seconds: effort.seconds,
+          pace: `${formatPace(effort.pace)}/km`,
+        }))
+      : undefined,
+  }
+}
+
 /**
  * Helper to build response from session data (local DB)
  * Uses raw_data field if available for additional metrics
@@ -142,6 +293,9 @@ export function buildSessionResponse(session: Session): SessionResponse {
   const icuFtp = raw?.icu_ftp as number | undefined
   // Interval summary - human-readable descriptions of structured intervals
   const intervalSummary = raw?.interval_summary as string[] | undefined
+  const laps = summarizeLaps(raw?.laps as ActivityLap[] | undefined)
+  const environment = buildEnvironment(raw)
+  const running = session.sport === 'running'
 
   return {
     session: {
@@ -164,15 +318,23 @@ export function buildSessionResponse(session: Session): SessionResponse {
       decoupling,
       calories,
       intervalSummary: intervalSummary || null,
+      ...(running ? { running: buildRunningSummary(session.distance_meters, session.duration_seconds, null) } : {}),
+      ...(laps ? { laps } : {}),
+      ...(environment ? { environment } : {}),
     },
     analysis: {
       isHighIntensity: (session.intensity_factor || 0) > 0.85,
-      isPolarized: powerZones
+      // Stored power zones are Coggan zones of cycling FTP
+      isPolarized: powerZones && !running
         ? (powerZones.z1 + powerZones.z2) > 70 || (powerZones.z5 + powerZones.z6) > 20
         : false,
-      efficiencyFactor: session.normalized_power && session.avg_hr
-        ? Math.round((session.normalized_power / session.avg_hr) * 100) / 100
-        : null,
+      efficiencyFactor: calculateEfficiencyFactor(
+        session.sport,
+        session.normalized_power,
+        session.distance_meters,
+        session.duration_seconds,
+        session.avg_hr
+      ),
       decoupling: decoupling
         ? `${decoupling.toFixed(1)}% (${decoupling < 5 ? 'good aerobic fitness' : 'needs more base work'})`
         : null,
@@ -190,10 +352,16 @@ export const getDetailedSession = defineTool<Input, Output>({
 
 Use this after finding a session with findSessions. Includes:
 - Basic metrics (power, HR, TSS, IF)
-- Peak powers (5s, 30s, 1min, 5min, 20min)
+- Peak powers (5s, 30s, 1min, 5min, 20min), leaving out flagged power samples and ranges the athlete excluded from bests
+- Data quality: counts of power spikes, HR dropouts, stuck sensors, power without cadence and zero-filled pauses found in the streams
 - Pacing analysis (splits, variability index, match burns)
+- W′ balance: lowest W′bal, near-empty matches (<10% W′) and time below 25% W′ (needs CP/W′)
 - Session type classification (race, workout, endurance, recovery)
-- Interval summary: Human-readable descriptions of structured workout intervals (e.g., "3 x 5 min @ 120% FTP with 2 min rest")`,
+- Interval summary: Human-readable descriptions of structured workout intervals (e.g., "3 x 5 min @ 120% FTP with 2 min rest")
+- Runs: average pace, grade-adjusted pace (GAP), normalized graded pace (NGP), intensity vs threshold pace, rTSS and 1k/5k/10k/half-marathon best efforts; IF and power zones use running FTP, never cycling FTP
+- Time in zones: power, HR and (runs) pace zones recomputed from the streams with the athlete's zone models (e.g. Seiler 3-zone or custom lab zones)
+- Detected intervals: work/recovery bouts found in the power stream (duration, avg/NP power, % FTP, HR drift, cadence), compared with the planned intervals when the session matches a plan day
+- Device laps, temperature, left/right balance and recording devices (uploaded files)`,
   inputSchema,
   execute: async ({ sessionId, includeStreams = true }, ctx) => {
     // Try local Supabase first if feature flag is enabled
@@ -203,11 +371,54 @@ Use this after finding a session with findSessions. Includes:
         if (localSession) {
           const response = buildSessionResponse(localSession)
 
-          // If streams requested and intervals.icu connected, fetch peak powers & pacing
-          if (includeStreams && ctx.intervalsConnected && localSession.external_id) {
+          // If streams requested, add peak powers & pacing (local streams first, then intervals.icu)
+          if (includeStreams) {
             const rawData = localSession.raw_data as Record<string, unknown> | null
-            const ftp = (rawData?.icu_ftp as number) || null
-            await enrichWithStreams(response, localSession.external_id, ctx.intervalsClient, ftp)
+            const running = localSession.sport === 'running'
+            const athlete = running ? await getAthlete(ctx.athleteId) : null
+            // Runs: intervals.icu's run FTP or the athlete's running FTP, never cycling FTP
+            const ftp = running
+              ? (rawData?.icu_ftp as number) || athlete?.running_ftp || null
+              : (rawData?.icu_ftp as number) || (rawData?.ftp_used as number) || null
+            // CP/W′ are cycling power models
+            const criticalPower = running ? null : await resolveCriticalPower(ctx.athleteId, localSession.date)
+            await enrichWithStreams(
+              response,
+              localSession,
+              ctx.intervalsConnected ? ctx.intervalsClient : null,
+              ftp,
+              criticalPower
+            )
+
+            try {
+              const streams = await getSessionStreams(
+                localSession,
+                ['time', 'watts', 'heartrate', 'cadence', 'velocity_smooth', 'distance', 'altitude'],
+                ctx.intervalsConnected ? ctx.intervalsClient : null
+              )
+              if (running) {
+                response.session.running = buildRunningSummary(
+                  localSession.distance_meters,
+                  localSession.duration_seconds,
+                  athlete?.threshold_pace ?? null,
+                  streams
+                )
+              }
+              if (streams) {
+                response.session.timeInZones = summarizeZoneDistribution(
+                  await getSessionZoneDistribution(localSession, streams, ftp)
+                )
+              }
+              const intervals = streams ? await analyzeSessionIntervals(localSession, streams, ftp) : null
+              if (intervals && intervals.intervals.length > 0) {
+                response.session.detectedIntervals = intervals.intervals.slice(0, MAX_INTERVALS)
+              }
+              if (intervals?.plannedComparison) {
+                response.analysis.intervalCompliance = intervals.plannedComparison
+              }
+            } catch {
+              // Zones and interval detection are optional
+            }
           }
 
           return response
@@ -244,25 +455,45 @@ Use this after finding a session with findSessions. Includes:
         }
       }
 
-      // Get FTP for analysis
+      // Get FTP for analysis (intervals.icu reports the run FTP for runs)
       const ftp = activity.icu_ftp || null
+      const sport = activity.type?.toLowerCase().includes('run') ? 'running' : 'cycling'
+      const athlete = sport === 'running' && ctx.athleteId ? await getAthlete(ctx.athleteId) : null
 
       // Fetch streams for detailed analysis if requested
       let peakPowers: PeakPowers | undefined
       let pacing: PacingAnalysis | undefined
+      let wPrimeBalance: WPrimeBalanceSummary | undefined
+      let timeInZones: Partial<Record<ZoneMetric, ZoneSummary>> | undefined
+      let running: RunningSummary | undefined = sport === 'running'
+        ? buildRunningSummary(activity.distance, activity.moving_time, athlete?.threshold_pace ?? null)
+        : undefined
 
       if (includeStreams) {
         try {
-          const streams = await ctx.intervalsClient.getActivityStreams(sessionId, ['watts'])
+          const { streams, flags } = cleanStreams(await ctx.intervalsClient.getActivityStreams(
+            sessionId,
+            ['time', 'watts', 'heartrate', 'cadence', 'velocity_smooth', 'distance', 'altitude']
+          ))
           if (streams.watts && streams.watts.length > 0) {
-            peakPowers = {
-              peak_5s: calculatePeakPower(streams.watts, 5),
-              peak_30s: calculatePeakPower(streams.watts, 30),
-              peak_1min: calculatePeakPower(streams.watts, 60),
-              peak_5min: calculatePeakPower(streams.watts, 300),
-              peak_20min: calculatePeakPower(streams.watts, 1200),
-            }
+            peakPowers = calculatePeakPowers(streams.watts, bestsExclusionMask(streams.watts.length, flags))
             pacing = analyzePacing(streams.watts, ftp)
+
+            const criticalPower = ctx.athleteId && sport !== 'running'
+              ? await resolveCriticalPower(ctx.athleteId, activity.start_date_local)
+              : null
+            if (criticalPower) {
+              const balance = calculateWPrimeBalance(streams.watts, criticalPower)
+              wPrimeBalance = summarizeWPrimeBalance(balance, streams.watts, criticalPower) ?? undefined
+            }
+          }
+
+          if (sport === 'running') {
+            running = buildRunningSummary(activity.distance, activity.moving_time, athlete?.threshold_pace ?? null, streams)
+          }
+          if (ctx.athleteId) {
+            const zoneContext = await getZoneContext(ctx.athleteId)
+            timeInZones = summarizeZoneDistribution(sessionZoneDistribution({ sport }, streams, zoneContext, ftp))
           }
         } catch {
           // Streams not available, continue without
@@ -299,6 +530,9 @@ Use this after finding a session with findSessions. Includes:
         calories: activity.calories,
         peakPowers,
         pacing,
+        wPrimeBalance,
+        running,
+        timeInZones,
         // Interval descriptions for structured workouts
         intervalSummary: activity.interval_summary || null,
       }
@@ -310,18 +544,23 @@ Use this after finding a session with findSessions. Includes:
         session,
         analysis: {
           isHighIntensity: (activity.icu_intensity || 0) > 0.85,
-          isPolarized: powerZones
+          isPolarized: powerZones && sport !== 'running'
             ? (powerZones.z1 + powerZones.z2) > 70 || (powerZones.z5 + powerZones.z6) > 20
             : false,
-          efficiencyFactor: normalizedPower && session.avg_hr
-            ? Math.round((normalizedPower / session.avg_hr) * 100) / 100
-            : null,
+          efficiencyFactor: calculateEfficiencyFactor(
+            sport,
+            normalizedPower,
+            activity.distance,
+            activity.moving_time,
+            session.avg_hr
+          ),
           decoupling: activity.decoupling
             ? `${activity.decoupling.toFixed(1)}% (${activity.decoupling < 5 ? 'good aerobic fitness' : 'needs more base work'})`
             : null,
           isLikelyRace: sessionType === 'race',
           sessionType,
           pacingAssessment,
+          wPrimeAssessment: wPrimeBalance ? buildWPrimeAssessment(wPrimeBalance) : undefined,
         },
         source: 'intervals_icu',
       }
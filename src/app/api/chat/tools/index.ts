@@ -11,11 +11,16 @@ import { getRecoveryTrends } from './get-recovery-trends'
 import { getActiveInsights } from './get-active-insights'
 import { logWorkoutOutcome } from './log-workout-outcome'
 import { analyzePowerCurve, analyzeEfficiency, analyzeTrainingLoad } from './analysis-tools'
+import { analyzeCriticalPower } from './analyze-critical-power'
+import { analyzePerformanceModel } from './analyze-performance-model'
+import { analyzeClimbing } from './analyze-climbing'
+import { analyzeRunningBests } from './analyze-running-bests'
+import { analyzePedaling } from './analyze-pedaling'
 import { generateTrainingPlan, analyzePatterns, getTrainingPlan, updatePlanDay } from './plan-tools'
 import { showOnCanvas } from './show-on-canvas'
 import { analyzeRace } from './race-analysis-tools'
 import { exploreTrainingData } from './explore-training-data'
-import { proposePlan, modifyProposal, acceptProposal } from './plan-proposal-tools'
+import { proposePlan, proposeSeasonPlan, modifyProposal, adaptTrainingPlan, acceptProposal } from './plan-proposal-tools'
 import { searchConversationHistory } from './search-conversation-history'
 import { compareSessions } from './compare-sessions'
 import { getSessionReport } from './get-session-report'
@@ -45,6 +50,11 @@ export function buildTools(ctx: ToolContext) {
     analyzePowerCurve: analyzePowerCurve(ctx),
     analyzeEfficiency: analyzeEfficiency(ctx),
     analyzeTrainingLoad: analyzeTrainingLoad(ctx),
+    analyzeCriticalPower: analyzeCriticalPower(ctx),
+    analyzePerformanceModel: analyzePerformanceModel(ctx),
+    analyzeClimbing: analyzeClimbing(ctx),
+    analyzeRunningBests: analyzeRunningBests(ctx),
+    analyzePedaling: analyzePedaling(ctx),
 
     // Plan tools (always available)
     generateTrainingPlan: generateTrainingPlan(ctx),
@@ -57,7 +67,9 @@ export function buildTools(ctx: ToolContext) {
 
     // Plan proposal tools (draft → review → accept flow)
     proposePlan: proposePlan(ctx),
+    proposeSeasonPlan: proposeSeasonPlan(ctx),
     modifyProposal: modifyProposal(ctx),
+    adaptTrainingPlan: adaptTrainingPlan(ctx),
     acceptProposal: acceptProposal(ctx),
 
     // Exploratory analysis (AI-driven pattern discovery)
@@ -105,6 +117,11 @@ export {
   analyzePowerCurve,
   analyzeEfficiency,
   analyzeTrainingLoad,
+  analyzeCriticalPower,
+  analyzePerformanceModel,
+  analyzeClimbing,
+  analyzeRunningBests,
+  analyzePedaling,
   generateTrainingPlan,
   analyzePatterns,
   getTrainingPlan,
@@ -113,7 +130,9 @@ export {
   analyzeRace,
   exploreTrainingData,
   proposePlan,
+  proposeSeasonPlan,
   modifyProposal,
+  adaptTrainingPlan,
   acceptProposal,
   searchConversationHistory,
   compareSessions,
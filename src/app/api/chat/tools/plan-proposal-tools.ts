@@ -1,7 +1,11 @@
 import { z } from 'zod'
 import { defineTool } from './types'
 import { enrichAthleteContext } from './utils/athlete-context-utils'
-import { generateTrainingPlan as generatePlan, getAvailablePlans } from '@/lib/plans/generator'
+import { generateTrainingPlan as generatePlan, getAvailablePlans, type GeneratedPlan, type GeneratePlanInput } from '@/lib/plans/generator'
+import { generateSeasonPlan, type SeasonEvent } from '@/lib/plans/season'
+import { optimizePlan, type PlanOptimization } from '@/lib/plans/optimizer'
+import { isCustomTemplateId } from '@/lib/plans/custom-templates'
+import type { PlanTemplate } from '@/lib/plans/templates'
 import {
   createTrainingPlan,
   createPlanDays,
@@ -9,11 +13,133 @@ import {
   getTrainingPlan as getTrainingPlanFromDB,
   updateTrainingPlan,
   getPlanDays,
+  type PlanDayInsert,
 } from '@/lib/db/training-plans'
+import { getUpcomingEvents } from '@/lib/db/events'
+import { getCustomPlanTemplates } from '@/lib/db/plan-templates'
 import { projectFitness, planDataToPlanDays } from '@/lib/plans/projection'
+import { getPmcSettings } from '@/lib/fitness/pmc-engine'
+import type { PmcTimeConstants } from '@/lib/fitness/pmc'
+import { getPerformanceProjectionInput } from '@/lib/analysis/performance-model'
 import { analyzeAthletePatterns } from '@/lib/learning'
+import { proposePlanAdaptation } from '@/lib/fitness/plan-adaptation-engine'
 import { logger } from '@/lib/logger'
 
+/**
+ * The athlete's CTL/ATL time constants for projections (default 42/7)
+ */
+async function getTimeConstants(athleteId?: string): Promise<PmcTimeConstants | undefined> {
+  if (!athleteId) return undefined
+  try {
+    return (await getPmcSettings(athleteId)).timeConstants
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Templates the athlete or their coach saved, for selection alongside the built-ins
+ */
+async function getCustomTemplates(athleteId?: string): Promise<PlanTemplate[]> {
+  if (!athleteId) return []
+  try {
+    return await getCustomPlanTemplates(athleteId)
+  } catch (error) {
+    logger.error('[PlanTemplates] Failed to load custom templates:', error)
+    return []
+  }
+}
+
+/**
+ * The athlete's fitted performance model for projecting race-day performance
+ * towards an A-event (null without an event or enough performance markers)
+ */
+async function getPerformanceProjection(athleteId: string | undefined, startDate: string, eventDate?: string) {
+  if (!athleteId || !eventDate) return null
+  try {
+    return await getPerformanceProjectionInput(athleteId, startDate)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Next Monday as YYYY-MM-DD, the default plan start
+ */
+function nextMonday(): string {
+  const today = new Date()
+  const daysUntilMonday = (8 - today.getDay()) % 7 || 7
+  const monday = new Date(today)
+  monday.setDate(today.getDate() + daysUntilMonday)
+  return monday.toISOString().split('T')[0]
+}
+
+/**
+ * Plan day rows for a generated plan
+ */
+function planDayInserts(plan: GeneratedPlan, planId: string): PlanDayInsert[] {
+  return plan.weeks.flatMap(week =>
+    week.days.map(day => ({
+      plan_id: planId,
+      date: day.date,
+      week_number: day.weekNumber,
+      day_of_week: day.dayOfWeek,
+      workout_template_id: day.workout?.templateId || null,
+      workout_type: day.workout?.category || null,
+      workout_name: day.workout?.name || null,
+      target_tss: day.workout?.targetTSS || null,
+      target_duration_minutes: day.workout?.targetDurationMinutes || null,
+      target_if: day.workout?.targetIF || null,
+      custom_description: null,
+      intervals_json: day.workout?.intervals as unknown as Record<string, unknown> || null,
+      completed: false,
+      actual_session_id: null,
+      actual_tss: null,
+      actual_duration_minutes: null,
+      compliance_score: null,
+      coach_notes: null,
+      athlete_notes: null,
+    }))
+  )
+}
+
+/**
+ * Week summaries for the plan-proposal widget
+ */
+function weekSummariesFor(plan: GeneratedPlan) {
+  return plan.weeks.map(w => ({
+    week: w.weekNumber,
+    phase: w.phase,
+    focus: w.focusDescription,
+    targetTSS: w.actualTargetTSS,
+    days: w.days.map(d => ({
+      date: d.date,
+      dayOfWeek: d.dayOfWeek,
+      isKeyWorkout: d.isKeyWorkout,
+      workout: d.workout ? {
+        name: d.workout.name,
+        category: d.workout.category,
+        targetTSS: d.workout.targetTSS,
+        targetDurationMinutes: d.workout.targetDurationMinutes,
+      } : null,
+    })),
+  }))
+}
+
+/**
+ * How an optimized plan meets its target, for the model to explain
+ */
+function optimizationSummary(optimization: PlanOptimization) {
+  return {
+    feasible: optimization.feasible,
+    target: optimization.target,
+    projected: optimization.projected,
+    rampRate: optimization.rampRate,
+    taper: `${optimization.taperDays} days at ${Math.round(optimization.taperLoad * 100)}% load`,
+    constraints: optimization.constraints,
+  }
+}
+
 // ============================================================
 // PROPOSE PLAN
 // ============================================================
@@ -21,6 +147,10 @@ import { logger } from '@/lib/logger'
 const proposePlanInputSchema = z.object({
   goal: z.enum(['base_build', 'ftp_build', 'event_prep', 'taper', 'maintenance']).optional()
     .describe('Training goal: base_build, ftp_build, event_prep, taper, or maintenance'),
+  templateId: z.string().optional()
+    .describe('Specific plan template ID, e.g. a coach\'s "custom_..." template listed by generateTrainingPlan with showAvailablePlans'),
+  sport: z.enum(['cycling', 'running']).optional()
+    .describe('Sport of the plan (default: cycling). Running plans use threshold pace.'),
   targetEventDate: z.string().optional()
     .describe('Target event date in YYYY-MM-DD format'),
   weeklyHours: z.number().optional()
@@ -30,6 +160,13 @@ const proposePlanInputSchema = z.object({
     startDate: z.string().optional().describe('Plan start date YYYY-MM-DD'),
     intensity: z.enum(['low', 'moderate', 'high']).optional().describe('Intensity preference'),
   }).optional().describe('Optional athlete preferences'),
+  fitnessTarget: z.object({
+    minCTL: z.number().optional().describe('Lowest CTL wanted on race day (omit to maximize CTL)'),
+    tsbMin: z.number().optional().describe('Lowest race-day TSB (default: 5)'),
+    tsbMax: z.number().optional().describe('Highest race-day TSB (default: 15)'),
+    maxRampRate: z.number().optional().describe('Highest CTL gain per week (default: 6)'),
+    restDays: z.array(z.number()).optional().describe('Days without training (0=Sun, 6=Sat; default: Monday)'),
+  }).optional().describe('Solve daily TSS for a race-day fitness target instead of using a fixed template. Requires targetEventDate; weeklyHours is the weekly cap.'),
 })
 
 type ProposePlanInput = z.infer<typeof proposePlanInputSchema>
@@ -43,34 +180,33 @@ Use this when:
 - Athlete wants a structured training plan
 - You want to suggest a periodized training approach
 
+Pass fitnessTarget when the athlete asks for specific race-day numbers (e.g. "CTL 85 and TSB +5 to +15 on race day, ramp no more than 6/week"): the plan is then solved from those targets and constraints instead of a fixed template week structure.
+
 The athlete can then review the calendar view and projection, ask for modifications, or accept the plan.`,
 
   inputSchema: proposePlanInputSchema,
 
-  execute: async ({ goal, targetEventDate, weeklyHours, preferences }, ctx) => {
+  execute: async ({ goal, templateId, sport = 'cycling', targetEventDate, weeklyHours, preferences, fitnessTarget }, ctx) => {
+    if (fitnessTarget && !targetEventDate) {
+      return { error: 'A fitness target needs targetEventDate: the race day the target applies to.' }
+    }
+
     // Gather athlete context from best available source — no hardcoded defaults
     const enriched = await enrichAthleteContext(ctx)
-    if (!enriched.ftp) {
+    if (!enriched.ftp && sport === 'cycling') {
       return {
         error: 'Cannot create a training plan without your FTP. Please set your FTP in intervals.icu or your profile settings.',
         warnings: enriched.warnings,
       }
     }
-    const athleteFTP = enriched.ftp
+    const athleteFTP = enriched.ftp ?? 0
     const weightKg = enriched.weight_kg
     const currentCTL = enriched.ctl
     const currentATL = enriched.atl
     const fitnessSource = enriched.fitness_source
 
     // Calculate start date (next Monday by default)
-    let planStartDate = preferences?.startDate
-    if (!planStartDate) {
-      const today = new Date()
-      const daysUntilMonday = (8 - today.getDay()) % 7 || 7
-      const nextMonday = new Date(today)
-      nextMonday.setDate(today.getDate() + daysUntilMonday)
-      planStartDate = nextMonday.toISOString().split('T')[0]
-    }
+    const planStartDate = preferences?.startDate ?? nextMonday()
 
     // Map intensity preference to weekly hours adjustment
     const intensityMultiplier = preferences?.intensity === 'low' ? 0.8
@@ -90,27 +226,57 @@ The athlete can then review the calendar view and projection, ask for modificati
       }
     }
 
-    // Generate the plan
-    const result = generatePlan({
+    const athleteContext = {
+      ftp: athleteFTP,
+      ctl: currentCTL,
+      atl: currentATL,
+      weight_kg: weightKg ?? undefined,
+      runningFtp: enriched.running_ftp,
+      thresholdPace: enriched.threshold_pace,
+    }
+    const [timeConstants, customTemplates] = await Promise.all([
+      getTimeConstants(ctx.athleteId),
+      getCustomTemplates(ctx.athleteId),
+    ])
+
+    // Solve for the fitness target, or generate the plan from a template
+    const optimized = fitnessTarget && targetEventDate
+      ? optimizePlan({
+        startDate: planStartDate,
+        sport,
+        target: {
+          eventDate: targetEventDate,
+          minCTL: fitnessTarget.minCTL,
+          tsbRange: [fitnessTarget.tsbMin ?? 5, fitnessTarget.tsbMax ?? 15],
+        },
+        constraints: {
+          maxRampRate: fitnessTarget.maxRampRate,
+          maxWeeklyHours: adjustedWeeklyHours,
+          restDays: fitnessTarget.restDays,
+          keyDays: preferences?.keyDays,
+        },
+        athleteContext,
+        timeConstants,
+      })
+      : null
+    const result = optimized ?? generatePlan({
+      templateId,
       goal,
+      sport,
       startDate: planStartDate,
       weeklyHoursTarget: adjustedWeeklyHours,
       keyWorkoutDays: preferences?.keyDays,
       targetEventDate,
-      athleteContext: {
-        ftp: athleteFTP,
-        ctl: currentCTL,
-        atl: currentATL,
-        weight_kg: weightKg ?? undefined,
-      },
+      athleteContext,
       patterns,
+      customTemplates,
     })
 
     if (!result.success || !result.plan) {
       return {
         error: result.error || 'Failed to generate plan proposal',
         warnings: result.warnings,
-        availablePlans: getAvailablePlans(currentCTL),
+        availablePlans: getAvailablePlans(currentCTL, sport, customTemplates),
         tip: 'Try specifying a different goal or adjusting weekly hours.',
       }
     }
@@ -119,8 +285,11 @@ The athlete can then review the calendar view and projection, ask for modificati
 
     // Calculate fitness projection
     const planDays = planDataToPlanDays(plan as unknown as Record<string, unknown>)
+    const performance = await getPerformanceProjection(ctx.athleteId, plan.startDate, targetEventDate)
     const projection = projectFitness(currentCTL, currentATL, planDays, {
       eventDate: targetEventDate,
+      timeConstants,
+      performance: performance ?? undefined,
     })
 
     // Save as DRAFT plan
@@ -147,30 +316,7 @@ The athlete can then review the calendar view and projection, ask for modificati
           savedPlanId = savedPlan.id
 
           // Save plan days
-          const planDaysToInsert = plan.weeks.flatMap(week =>
-            week.days.map(day => ({
-              plan_id: savedPlan.id,
-              date: day.date,
-              week_number: day.weekNumber,
-              day_of_week: day.dayOfWeek,
-              workout_template_id: day.workout?.templateId || null,
-              workout_type: day.workout?.category || null,
-              workout_name: day.workout?.name || null,
-              target_tss: day.workout?.targetTSS || null,
-              target_duration_minutes: day.workout?.targetDurationMinutes || null,
-              target_if: day.workout?.targetIF || null,
-              custom_description: null,
-              intervals_json: day.workout?.intervals as unknown as Record<string, unknown> || null,
-              completed: false,
-              actual_session_id: null,
-              actual_tss: null,
-              actual_duration_minutes: null,
-              compliance_score: null,
-              coach_notes: null,
-              athlete_notes: null,
-            }))
-          )
-          await createPlanDays(planDaysToInsert)
+          await createPlanDays(planDayInserts(plan, savedPlan.id))
         }
       } catch (e) {
         logger.error('Failed to persist draft plan:', e)
@@ -178,23 +324,7 @@ The athlete can then review the calendar view and projection, ask for modificati
     }
 
     // Build week summaries for the proposal widget
-    const weekSummaries = plan.weeks.map(w => ({
-      week: w.weekNumber,
-      phase: w.phase,
-      focus: w.focusDescription,
-      targetTSS: w.actualTargetTSS,
-      days: w.days.map(d => ({
-        date: d.date,
-        dayOfWeek: d.dayOfWeek,
-        isKeyWorkout: d.isKeyWorkout,
-        workout: d.workout ? {
-          name: d.workout.name,
-          category: d.workout.category,
-          targetTSS: d.workout.targetTSS,
-          targetDurationMinutes: d.workout.targetDurationMinutes,
-        } : null,
-      })),
-    }))
+    const weekSummaries = weekSummariesFor(plan)
 
     // Build projection summary for the projection widget
     const projectionSummary = {
@@ -205,6 +335,12 @@ The athlete can then review the calendar view and projection, ask for modificati
       peakCTLDate: projection.peakCTLDate,
       ctlGain: projection.ctlGain,
       eventFitness: projection.eventFitness,
+      peakPerformance: projection.peakPerformance,
+      performanceModel: performance ? {
+        markerCount: performance.model.markerCount,
+        r2: performance.model.r2,
+        bestTaperDays: performance.bestTaper?.days ?? null,
+      } : null,
     }
 
     return {
@@ -228,10 +364,12 @@ The athlete can then review the calendar view and projection, ask for modificati
       },
       weekSummaries,
       projection: projectionSummary,
+      optimization: optimized?.plan ? optimizationSummary(optimized.plan.optimization) : undefined,
       athleteContext: {
         ctl: Math.round(currentCTL),
         atl: Math.round(currentATL),
-        ftp: athleteFTP,
+        ftp: enriched.ftp,
+        ...(sport === 'running' ? { thresholdPace: enriched.threshold_pace, runningFtp: enriched.running_ftp } : {}),
         weight_kg: weightKg,
         profileSource: enriched.profile_source,
         fitnessSource,
@@ -253,7 +391,7 @@ The athlete can then review the calendar view and projection, ask for modificati
         },
         {
           type: 'plan-projection',
-          insight: `Projected CTL gain: +${projection.ctlGain} (${Math.round(currentCTL)} → ${Math.round(projection.finalCTL)}).${projection.eventFitness ? ` Event day TSB: ${Math.round(projection.eventFitness.tsb)} — ${projection.eventFitness.tsb >= -10 && projection.eventFitness.tsb <= 15 ? 'good race form' : projection.eventFitness.tsb > 15 ? 'very fresh, may lose some fitness' : 'still fatigued, consider more taper'}.` : ''}`,
+          insight: `Projected CTL gain: +${projection.ctlGain} (${Math.round(currentCTL)} → ${Math.round(projection.finalCTL)}).${projection.eventFitness ? ` Event day TSB: ${Math.round(projection.eventFitness.tsb)} — ${projection.eventFitness.tsb >= -10 && projection.eventFitness.tsb <= 15 ? 'good race form' : projection.eventFitness.tsb > 15 ? 'very fresh, may lose some fitness' : 'still fatigued, consider more taper'}.` : ''}${projection.eventFitness?.performance != null ? ` Predicted event-day performance: ${projection.eventFitness.performance.toFixed(1)}% of best${performance?.bestTaper ? ` (model suggests a ${performance.bestTaper.days}-day taper)` : ''}.` : ''}`,
           config: {
             projection: projectionSummary,
             planId: savedPlanId,
@@ -265,6 +403,229 @@ The athlete can then review the calendar view and projection, ask for modificati
   },
 })
 
+// ============================================================
+// PROPOSE SEASON PLAN
+// ============================================================
+
+const proposeSeasonPlanInputSchema = z.object({
+  sport: z.enum(['cycling', 'running']).optional()
+    .describe('Sport of the plan (default: cycling)'),
+  weeklyHours: z.number().optional()
+    .describe('Target weekly training hours (default: 8)'),
+  eventIds: z.array(z.string()).optional()
+    .describe('Limit the season to these event IDs (default: all upcoming planned events)'),
+  preferences: z.object({
+    keyDays: z.array(z.number()).optional().describe('Key workout days (0=Sun, 6=Sat)'),
+    startDate: z.string().optional().describe('Plan start date YYYY-MM-DD'),
+  }).optional().describe('Optional athlete preferences'),
+})
+
+type ProposeSeasonPlanInput = z.infer<typeof proposeSeasonPlanInputSchema>
+
+export const proposeSeasonPlan = defineTool<ProposeSeasonPlanInput, unknown>({
+  description: `Propose a full-season plan (macrocycle) covering all of the athlete's upcoming events, saved as a DRAFT like proposePlan. Events are treated by priority:
+- A-events: base/build blocks, then a taper and peak for each race
+- B-events: a 3-day mini-taper and a rest day after
+- C-events: trained through, the race replaces that day's workout
+
+Several plan templates are chained into one long plan; the projection shows form on every race day.
+
+Use this when:
+- Athlete has several races coming up or asks for a season plan
+- Athlete wants to plan "the whole season" or "until my last race"
+- A single-template plan (proposePlan) can't cover all the events`,
+
+  inputSchema: proposeSeasonPlanInputSchema,
+
+  execute: async ({ sport = 'cycling', weeklyHours, eventIds, preferences }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'No athlete ID available. Season planning requires a logged-in user with events.' }
+    }
+
+    const enriched = await enrichAthleteContext(ctx)
+    if (!enriched.ftp && sport === 'cycling') {
+      return {
+        error: 'Cannot create a training plan without your FTP. Please set your FTP in intervals.icu or your profile settings.',
+        warnings: enriched.warnings,
+      }
+    }
+    const currentCTL = enriched.ctl
+    const currentATL = enriched.atl
+
+    const upcoming = await getUpcomingEvents(ctx.athleteId, 50)
+    const events: SeasonEvent[] = upcoming
+      .filter(e => !eventIds?.length || eventIds.includes(e.id))
+      .map(e => ({ id: e.id, name: e.name, date: e.date, priority: e.priority, distanceKm: e.distance_km }))
+
+    if (events.length === 0) {
+      return {
+        error: 'No upcoming events to plan a season around.',
+        tip: 'Add events with an A/B/C priority first, or use proposePlan for a single-goal plan.',
+      }
+    }
+
+    const result = generateSeasonPlan({
+      sport,
+      startDate: preferences?.startDate ?? nextMonday(),
+      weeklyHoursTarget: weeklyHours || 8,
+      keyWorkoutDays: preferences?.keyDays,
+      events,
+      athleteContext: {
+        ftp: enriched.ftp ?? 0,
+        ctl: currentCTL,
+        atl: currentATL,
+        weight_kg: enriched.weight_kg ?? undefined,
+        runningFtp: enriched.running_ftp,
+        thresholdPace: enriched.threshold_pace,
+      },
+    })
+
+    if (!result.success || !result.plan) {
+      return {
+        error: result.error || 'Failed to generate season plan',
+        warnings: result.warnings,
+      }
+    }
+
+    const plan = result.plan
+    const aEvents = plan.events.filter(e => e.priority === 'A')
+    const nextA = aEvents[0]
+
+    // Project the whole season; the performance model targets the first A-event
+    const planDays = planDataToPlanDays(plan as unknown as Record<string, unknown>)
+    const performance = await getPerformanceProjection(ctx.athleteId, plan.startDate, nextA?.date)
+    const projection = projectFitness(currentCTL, currentATL, planDays, {
+      eventDate: nextA?.date,
+      timeConstants: await getTimeConstants(ctx.athleteId),
+      performance: performance ?? undefined,
+    })
+
+    const pointsByDate = new Map(projection.points.map(p => [p.date, p]))
+    const eventForm = plan.events.map(e => {
+      const point = pointsByDate.get(e.date)
+      return {
+        name: e.name,
+        date: e.date,
+        priority: e.priority,
+        treatment: e.treatment,
+        week: e.weekNumber,
+        ctl: point ? Math.round(point.ctl) : null,
+        tsb: point ? Math.round(point.tsb) : null,
+      }
+    })
+
+    // Save as DRAFT plan, targeting the last A-event
+    const lastA = aEvents[aEvents.length - 1]
+    let savedPlanId: string | null = null
+    try {
+      const savedPlan = await createTrainingPlan({
+        athlete_id: ctx.athleteId,
+        name: plan.templateName,
+        description: plan.description,
+        goal: plan.goal,
+        duration_weeks: plan.durationWeeks,
+        weekly_hours_target: plan.weeklyHoursTarget,
+        start_date: plan.startDate,
+        end_date: plan.endDate,
+        key_workout_days: preferences?.keyDays || [],
+        target_event_id: lastA?.id ?? null,
+        target_event_date: plan.targetEventDate || null,
+        status: 'draft',
+        plan_data: plan as unknown as Record<string, unknown>,
+      })
+
+      if (savedPlan) {
+        savedPlanId = savedPlan.id
+        await createPlanDays(planDayInserts(plan, savedPlan.id))
+      }
+    } catch (e) {
+      logger.error('Failed to persist draft season plan:', e)
+    }
+
+    const weekSummaries = weekSummariesFor(plan)
+    const projectionSummary = {
+      points: projection.points,
+      startFitness: { ctl: Math.round(currentCTL), atl: Math.round(currentATL), tsb: Math.round(currentCTL - currentATL) },
+      endFitness: { ctl: Math.round(projection.finalCTL), atl: Math.round(projection.finalATL), tsb: Math.round(projection.finalTSB) },
+      peakCTL: projection.peakCTL,
+      peakCTLDate: projection.peakCTLDate,
+      ctlGain: projection.ctlGain,
+      eventFitness: projection.eventFitness,
+      peakPerformance: projection.peakPerformance,
+      performanceModel: performance ? {
+        markerCount: performance.model.markerCount,
+        r2: performance.model.r2,
+        bestTaperDays: performance.bestTaper?.days ?? null,
+      } : null,
+    }
+
+    const raceForm = eventForm
+      .filter(e => e.priority !== 'C' && e.tsb != null)
+      .map(e => `${e.name} (${e.priority}) TSB ${e.tsb}`)
+      .join(', ')
+
+    return {
+      success: true,
+      planId: savedPlanId,
+      status: 'draft',
+      plan: {
+        name: plan.templateName,
+        description: plan.description,
+        duration: `${plan.durationWeeks} weeks`,
+        dates: `${plan.startDate} to ${plan.endDate}`,
+        weeklyHoursTarget: plan.weeklyHoursTarget,
+      },
+      blocks: plan.blocks.map(b => ({
+        template: b.templateName,
+        weeks: `${b.seasonWeeks[0]}-${b.seasonWeeks[1]}`,
+        dates: `${b.startDate} to ${b.endDate}`,
+        phases: b.phases,
+        targetEvent: b.targetEvent,
+      })),
+      events: eventForm,
+      summary: {
+        totalWorkoutDays: plan.summary.totalWorkoutDays,
+        totalRestDays: plan.summary.totalRestDays,
+        avgWeeklyTSS: plan.summary.avgWeeklyTSS,
+        phases: plan.summary.phases,
+      },
+      weekSummaries,
+      projection: projectionSummary,
+      athleteContext: {
+        ctl: Math.round(currentCTL),
+        atl: Math.round(currentATL),
+        ftp: enriched.ftp,
+        profileSource: enriched.profile_source,
+        fitnessSource: enriched.fitness_source,
+      },
+      warnings: [...result.warnings, ...enriched.warnings],
+      canvasWidgets: [
+        {
+          type: 'plan-proposal',
+          insight: `${plan.templateName} — ${plan.durationWeeks} weeks across ${plan.events.length} event${plan.events.length === 1 ? '' : 's'} in ${plan.blocks.length} blocks. Review the calendar below and let me know if you want to modify anything.`,
+          config: {
+            planId: savedPlanId,
+            planName: plan.templateName,
+            weekSummaries,
+            targetEventDate: plan.targetEventDate,
+            startDate: plan.startDate,
+            endDate: plan.endDate,
+          },
+        },
+        {
+          type: 'plan-projection',
+          insight: `Season CTL: ${Math.round(currentCTL)} → peak ${Math.round(projection.peakCTL)} on ${projection.peakCTLDate}.${raceForm ? ` Race-day form: ${raceForm}.` : ''}`,
+          config: {
+            projection: projectionSummary,
+            planId: savedPlanId,
+          },
+        },
+      ],
+      tip: 'This is a draft season plan. Review it, then tell me to accept it or ask for changes (e.g., "drop the club race" or "more hours in the build").',
+    }
+  },
+})
+
 // ============================================================
 // MODIFY PROPOSAL
 // ============================================================
@@ -301,9 +662,12 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
       return { error: `Plan is already ${existingPlan.status}. Only draft plans can be modified.` }
     }
 
+    // Plans generated before running support have no sport and are cycling
+    const sport = existingPlan.plan_data?.sport === 'running' ? 'running' : 'cycling'
+
     // Get current fitness from best available source — no hardcoded defaults
     const enriched = await enrichAthleteContext(ctx)
-    if (!enriched.ftp) {
+    if (!enriched.ftp && sport === 'cycling') {
       return {
         error: 'Cannot modify the training plan without your FTP. Please set your FTP in intervals.icu or your profile settings.',
         warnings: enriched.warnings,
@@ -311,7 +675,7 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
     }
     const currentCTL = enriched.ctl
     const currentATL = enriched.atl
-    const athleteFTP = enriched.ftp
+    const athleteFTP = enriched.ftp ?? 0
     const weightKg = enriched.weight_kg
 
     // Apply modifications
@@ -323,20 +687,54 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
     const startDate = modifications.startDate ?? existingPlan.start_date
     const keyDays = modifications.keyDays ?? existingPlan.key_workout_days ?? undefined
 
-    // Regenerate the plan
-    const result = generatePlan({
-      goal: existingPlan.goal as 'base_build' | 'ftp_build' | 'event_prep' | 'taper' | 'maintenance',
+    // Regenerate the plan; season drafts are rebuilt around their events and
+    // optimized drafts re-solved for their target
+    const planInput: Omit<GeneratePlanInput, 'goal' | 'targetEventDate'> = {
+      sport,
       startDate,
       weeklyHoursTarget: adjustedWeeklyHours,
       keyWorkoutDays: keyDays,
-      targetEventDate: existingPlan.target_event_date ?? undefined,
       athleteContext: {
         ftp: athleteFTP,
         ctl: currentCTL,
         atl: currentATL,
         weight_kg: weightKg ?? undefined,
+        runningFtp: enriched.running_ftp,
+        thresholdPace: enriched.threshold_pace,
       },
-    })
+    }
+    const seasonEvents = existingPlan.plan_data?.templateId === 'season' && Array.isArray(existingPlan.plan_data.events)
+      ? existingPlan.plan_data.events as SeasonEvent[]
+      : null
+    const optimization = existingPlan.plan_data?.templateId === 'optimized'
+      ? existingPlan.plan_data.optimization as PlanOptimization | undefined
+      : undefined
+    // Drafts from a custom template keep it rather than re-selecting by goal
+    const customTemplateId = typeof existingPlan.plan_data?.templateId === 'string' &&
+      isCustomTemplateId(existingPlan.plan_data.templateId)
+      ? existingPlan.plan_data.templateId
+      : undefined
+    const timeConstants = await getTimeConstants(ctx.athleteId)
+    const result = seasonEvents
+      ? generateSeasonPlan({ ...planInput, events: seasonEvents })
+      : optimization
+      ? optimizePlan({
+        startDate,
+        sport,
+        target: optimization.target.minCTL === null
+          ? { eventDate: optimization.target.eventDate, tsbRange: optimization.target.tsbRange }
+          : { ...optimization.target, minCTL: optimization.target.minCTL },
+        constraints: { ...optimization.constraints, maxWeeklyHours: adjustedWeeklyHours, keyDays: keyDays ?? optimization.constraints.keyDays },
+        athleteContext: planInput.athleteContext,
+        timeConstants,
+      })
+      : generatePlan({
+        ...planInput,
+        templateId: customTemplateId,
+        goal: existingPlan.goal as 'base_build' | 'ftp_build' | 'event_prep' | 'taper' | 'maintenance',
+        targetEventDate: existingPlan.target_event_date ?? undefined,
+        customTemplates: customTemplateId ? await getCustomTemplates(ctx.athleteId) : undefined,
+      })
 
     if (!result.success || !result.plan) {
       return {
@@ -349,8 +747,15 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
 
     // Recalculate projection
     const planDays = planDataToPlanDays(plan as unknown as Record<string, unknown>)
+    const performance = await getPerformanceProjection(
+      ctx.athleteId,
+      plan.startDate,
+      existingPlan.target_event_date ?? undefined
+    )
     const projection = projectFitness(currentCTL, currentATL, planDays, {
       eventDate: existingPlan.target_event_date ?? undefined,
+      timeConstants,
+      performance: performance ?? undefined,
     })
 
     // Update the draft plan in DB
@@ -376,52 +781,13 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
         }
       }
 
-      const planDaysToInsert = plan.weeks.flatMap(week =>
-        week.days.map(day => ({
-          plan_id: planId,
-          date: day.date,
-          week_number: day.weekNumber,
-          day_of_week: day.dayOfWeek,
-          workout_template_id: day.workout?.templateId || null,
-          workout_type: day.workout?.category || null,
-          workout_name: day.workout?.name || null,
-          target_tss: day.workout?.targetTSS || null,
-          target_duration_minutes: day.workout?.targetDurationMinutes || null,
-          target_if: day.workout?.targetIF || null,
-          custom_description: null,
-          intervals_json: day.workout?.intervals as unknown as Record<string, unknown> || null,
-          completed: false,
-          actual_session_id: null,
-          actual_tss: null,
-          actual_duration_minutes: null,
-          compliance_score: null,
-          coach_notes: null,
-          athlete_notes: null,
-        }))
-      )
-      await createPlanDays(planDaysToInsert)
+      await createPlanDays(planDayInserts(plan, planId))
     } catch (e) {
       logger.error('Failed to update draft plan:', e)
     }
 
     // Build updated summaries
-    const weekSummaries = plan.weeks.map(w => ({
-      week: w.weekNumber,
-      phase: w.phase,
-      focus: w.focusDescription,
-      targetTSS: w.actualTargetTSS,
-      days: w.days.map(d => ({
-        date: d.date,
-        dayOfWeek: d.dayOfWeek,
-        isKeyWorkout: d.isKeyWorkout,
-        workout: d.workout ? {
-          name: d.workout.name,
-          category: d.workout.category,
-          targetTSS: d.workout.targetTSS,
-          targetDurationMinutes: d.workout.targetDurationMinutes,
-        } : null,
-      })),
-    }))
+    const weekSummaries = weekSummariesFor(plan)
 
     const projectionSummary = {
       points: projection.points,
@@ -431,6 +797,12 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
       peakCTLDate: projection.peakCTLDate,
       ctlGain: projection.ctlGain,
       eventFitness: projection.eventFitness,
+      peakPerformance: projection.peakPerformance,
+      performanceModel: performance ? {
+        markerCount: performance.model.markerCount,
+        r2: performance.model.r2,
+        bestTaperDays: performance.bestTaper?.days ?? null,
+      } : null,
     }
 
     return {
@@ -475,6 +847,140 @@ export const modifyProposal = defineTool<ModifyProposalInput, unknown>({
   },
 })
 
+// ============================================================
+// ADAPT PLAN
+// ============================================================
+
+const adaptTrainingPlanInputSchema = z.object({
+  sickStartDate: z.string().optional()
+    .describe('First day the athlete was or will be sick, YYYY-MM-DD'),
+  sickEndDate: z.string().optional()
+    .describe('Last sick day, YYYY-MM-DD (default: sickStartDate)'),
+})
+
+type AdaptTrainingPlanInput = z.infer<typeof adaptTrainingPlanInputSchema>
+
+export const adaptTrainingPlan = defineTool<AdaptTrainingPlanInput, unknown>({
+  description: `Re-balance the remaining weeks of the active training plan after missed key workouts, illness, or more load than planned. Keeps key sessions by moving them to open days, shifts, shortens or drops easy filler rides to keep each week within its TSS range, and never changes the taper before the target event. The adapted plan is saved as a DRAFT and shown on the canvas with the proposed changes; the athlete accepts it like any plan proposal.
+
+Use this when:
+- Athlete missed or skipped key workouts this week
+- Athlete is or was sick (pass the sick dates)
+- Athlete rode much more than planned and feels fatigued
+- Athlete asks to "adjust", "rebalance" or "catch up on" their plan`,
+
+  inputSchema: adaptTrainingPlanInputSchema,
+
+  execute: async ({ sickStartDate, sickEndDate }, ctx) => {
+    if (!ctx.athleteId) {
+      return { error: 'No athlete ID available. Plan adaptation requires a logged-in user.' }
+    }
+
+    const sick = sickStartDate
+      ? { startDate: sickStartDate, endDate: sickEndDate && sickEndDate >= sickStartDate ? sickEndDate : sickStartDate }
+      : null
+
+    const proposal = await proposePlanAdaptation(ctx.athleteId, { sick })
+    if (!proposal) {
+      return {
+        hasPlan: false,
+        message: 'No active training plan to adapt.',
+        tip: 'Use proposePlan to create a plan first.',
+      }
+    }
+
+    const { plan, draftPlanId, adaptation, planData, weekSummaries } = proposal
+    if (adaptation.changes.length === 0) {
+      return {
+        success: true,
+        changed: false,
+        planId: plan.id,
+        triggers: adaptation.triggers,
+        message: adaptation.triggers.length > 0
+          ? 'The plan already absorbs this - no changes needed.'
+          : 'The plan is on track: no missed key workouts or load over plan in the last week.',
+      }
+    }
+
+    const enriched = await enrichAthleteContext(ctx)
+    const today = new Date().toISOString().split('T')[0]
+    const remainingDays = planDataToPlanDays(planData).filter(d => d.date >= today)
+    const targetEventDate = plan.target_event_date ?? undefined
+    const performance = await getPerformanceProjection(ctx.athleteId, today, targetEventDate)
+    const projection = projectFitness(enriched.ctl, enriched.atl, remainingDays, {
+      eventDate: targetEventDate,
+      timeConstants: await getTimeConstants(ctx.athleteId),
+      performance: performance ?? undefined,
+    })
+
+    const projectionSummary = {
+      points: projection.points,
+      startFitness: { ctl: Math.round(enriched.ctl), atl: Math.round(enriched.atl), tsb: Math.round(enriched.ctl - enriched.atl) },
+      endFitness: { ctl: Math.round(projection.finalCTL), atl: Math.round(projection.finalATL), tsb: Math.round(projection.finalTSB) },
+      peakCTL: projection.peakCTL,
+      peakCTLDate: projection.peakCTLDate,
+      ctlGain: projection.ctlGain,
+      eventFitness: projection.eventFitness,
+      peakPerformance: projection.peakPerformance,
+      performanceModel: performance ? {
+        markerCount: performance.model.markerCount,
+        r2: performance.model.r2,
+        bestTaperDays: performance.bestTaper?.days ?? null,
+      } : null,
+    }
+
+    const moved = adaptation.changes.filter(c => c.action === 'moved').length
+    const dropped = adaptation.changes.filter(c => c.action === 'dropped').length
+    const reduced = adaptation.changes.filter(c => c.action === 'reduced').length
+    const changeSummary = [
+      moved > 0 ? `${moved} moved` : null,
+      reduced > 0 ? `${reduced} shortened` : null,
+      dropped > 0 ? `${dropped} dropped` : null,
+    ].filter(Boolean).join(', ')
+
+    return {
+      success: true,
+      changed: true,
+      planId: draftPlanId,
+      adaptsPlanId: plan.id,
+      status: 'draft',
+      triggers: adaptation.triggers,
+      changes: adaptation.changes,
+      weeks: adaptation.weeks,
+      taperStart: adaptation.taperStart,
+      projection: projectionSummary,
+      warnings: enriched.warnings,
+      canvasWidgets: [
+        {
+          type: 'plan-proposal',
+          insight: `Adapted ${plan.name}: ${changeSummary}. ${adaptation.triggers.map(t => t.detail).join('. ')}.`,
+          config: {
+            planId: draftPlanId,
+            planName: plan.name,
+            weekSummaries,
+            targetEventDate,
+            startDate: weekSummaries[0]?.days[0]?.date ?? plan.start_date,
+            endDate: plan.end_date,
+            triggers: adaptation.triggers,
+            changes: adaptation.changes,
+          },
+        },
+        {
+          type: 'plan-projection',
+          insight: `Projected CTL with the adapted plan: ${Math.round(enriched.ctl)} → ${Math.round(projection.finalCTL)}.${projection.eventFitness ? ` Event day TSB: ${Math.round(projection.eventFitness.tsb)}.` : ''}`,
+          config: {
+            projection: projectionSummary,
+            planId: draftPlanId,
+          },
+        },
+      ],
+      tip: draftPlanId
+        ? 'This is a draft of the adapted plan. Approving it replaces the current plan and keeps completed workouts.'
+        : 'The adapted plan could not be saved as a draft. Describe the changes to the athlete instead.',
+    }
+  },
+})
+
 // ============================================================
 // ACCEPT PROPOSAL
 // ============================================================
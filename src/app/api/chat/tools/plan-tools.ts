@@ -2,7 +2,10 @@ import { z } from 'zod'
 import { defineTool } from './types'
 import { enrichAthleteContext } from './utils/athlete-context-utils'
 import { generateTrainingPlan as generatePlan, getAvailablePlans } from '@/lib/plans/generator'
-import { planTemplates } from '@/lib/plans/templates'
+import { planTemplates, type PlanTemplate } from '@/lib/plans/templates'
+import { getCustomPlanTemplates } from '@/lib/db/plan-templates'
+import { formatPace } from '@/lib/analysis/zones'
+import { scoreCompliance } from '@/lib/analysis/plan-compliance'
 import {
   createTrainingPlan,
   createPlanDays,
@@ -23,7 +26,9 @@ const generatePlanInputSchema = z.object({
   goal: z.enum(['base_build', 'ftp_build', 'event_prep', 'taper', 'maintenance']).optional()
     .describe('Training goal: base_build (aerobic foundation), ftp_build (increase FTP), event_prep (prepare for goal event), taper (pre-race), maintenance (hold fitness)'),
   templateId: z.string().optional()
-    .describe('Specific plan template ID if known (e.g., "base_build_4week", "ftp_build_8week", "taper_3week", "event_prep_12week")'),
+    .describe('Specific plan template ID if known (e.g., "base_build_4week", "ftp_build_8week", "taper_3week", "event_prep_12week", "run_base_4week", "run_threshold_6week", or a "custom_..." ID from showAvailablePlans)'),
+  sport: z.enum(['cycling', 'running']).optional()
+    .describe('Sport of the plan (default: cycling). Running plans use threshold pace; ftp_build raises threshold pace.'),
   startDate: z.string().optional()
     .describe('Plan start date in YYYY-MM-DD format. Defaults to next Monday.'),
   weeklyHoursTarget: z.number().optional()
@@ -44,6 +49,7 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
   execute: async ({
     goal,
     templateId,
+    sport = 'cycling',
     startDate,
     weeklyHoursTarget,
     keyWorkoutDays,
@@ -52,29 +58,43 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
   }, ctx) => {
     // Gather athlete context from best available source — no hardcoded defaults
     const enriched = await enrichAthleteContext(ctx)
-    if (!enriched.ftp) {
+    if (!enriched.ftp && sport === 'cycling') {
       return {
         error: 'Cannot generate a training plan without your FTP. Please set your FTP in intervals.icu or your profile settings.',
         warnings: enriched.warnings,
       }
     }
-    const athleteFTP = enriched.ftp
+    const athleteFTP = enriched.ftp ?? 0
     const weightKg = enriched.weight_kg
     const currentCTL = enriched.ctl
     const currentATL = enriched.atl
     const fitnessSource = enriched.fitness_source
 
+    // Templates the athlete or their coach saved, considered alongside the built-ins
+    let customTemplates: PlanTemplate[] = []
+    if (ctx.athleteId) {
+      try {
+        customTemplates = await getCustomPlanTemplates(ctx.athleteId)
+      } catch (error) {
+        logger.error('[generateTrainingPlan] Failed to load custom templates:', error)
+      }
+    }
+
     // If just listing available plans
     if (showAvailablePlans) {
-      const available = getAvailablePlans(currentCTL)
+      const available = getAvailablePlans(currentCTL, sport, customTemplates)
       return {
         currentFitness: {
           ctl: Math.round(currentCTL),
           atl: Math.round(currentATL),
-          ftp: athleteFTP,
+          ftp: enriched.ftp,
+          ...(sport === 'running' ? {
+            thresholdPace: enriched.threshold_pace ? `${formatPace(enriched.threshold_pace)}/km` : null,
+            runningFtp: enriched.running_ftp,
+          } : {}),
         },
         availablePlans: available,
-        totalPlans: planTemplates.length,
+        totalPlans: planTemplates.length + customTemplates.length,
         recommendation: available.filter(p => p.isApplicable).length > 0
           ? `You have ${available.filter(p => p.isApplicable).length} plans available at your current fitness level.`
           : 'Build fitness first - your CTL is below minimum for most plans.',
@@ -106,6 +126,7 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
     const result = generatePlan({
       templateId,
       goal,
+      sport,
       startDate: planStartDate,
       weeklyHoursTarget,
       keyWorkoutDays,
@@ -115,15 +136,18 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
         ctl: currentCTL,
         atl: currentATL,
         weight_kg: weightKg ?? undefined,
+        runningFtp: enriched.running_ftp,
+        thresholdPace: enriched.threshold_pace,
       },
       patterns,
+      customTemplates,
     })
 
     if (!result.success || !result.plan) {
       return {
         error: result.error || 'Failed to generate plan',
         warnings: result.warnings,
-        availablePlans: getAvailablePlans(currentCTL),
+        availablePlans: getAvailablePlans(currentCTL, sport, customTemplates),
       }
     }
 
@@ -221,7 +245,10 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
         intervals: d.workout?.intervals?.map(i => ({
           sets: i.sets,
           duration: `${Math.round(i.durationSeconds / 60)} min`,
-          power: `${i.targetPowerMin}-${i.targetPowerMax}W`,
+          ...(i.targetPowerMin !== undefined ? { power: `${i.targetPowerMin}-${i.targetPowerMax}W` } : {}),
+          ...(i.targetPaceMin !== undefined && i.targetPaceMax !== undefined
+            ? { pace: `${formatPace(i.targetPaceMin)}-${formatPace(i.targetPaceMax)}/km` }
+            : {}),
         })),
       }))
 
@@ -230,6 +257,7 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
       savedPlanId,
       plan: {
         name: plan.templateName,
+        sport: plan.sport,
         goal: plan.goal,
         description: plan.description,
         duration: `${plan.durationWeeks} weeks`,
@@ -247,7 +275,11 @@ export const generateTrainingPlan = defineTool<GeneratePlanInput, unknown>({
       athleteContext: {
         ctl: Math.round(currentCTL),
         atl: Math.round(currentATL),
-        ftp: athleteFTP,
+        ftp: enriched.ftp,
+        ...(plan.sport === 'running' ? {
+          thresholdPace: enriched.threshold_pace ? `${formatPace(enriched.threshold_pace)}/km` : null,
+          runningFtp: enriched.running_ftp,
+        } : {}),
         weight_kg: weightKg,
         profileSource: enriched.profile_source,
         fitnessSource,
@@ -504,8 +536,13 @@ export const updatePlanDay = defineTool<UpdatePlanDayInput, unknown>({
       if (athleteNotes) updates.athlete_notes = athleteNotes
 
       // Calculate compliance if we have actual data
-      if (actualTSS && planDay.target_tss) {
-        updates.compliance_score = Math.min(100, Math.round((actualTSS / planDay.target_tss) * 100))
+      if (actualTSS !== undefined || actualDuration !== undefined) {
+        const compliance = scoreCompliance(planDay, {
+          durationMinutes: actualDuration ?? null,
+          tss: actualTSS ?? null,
+          intensityFactor: null,
+        })
+        if (compliance) updates.compliance_score = compliance.score
       }
 
       const updated = await updateDay(planDay.id, updates)
@@ -1,12 +1,18 @@
 import { z } from 'zod'
 import { defineTool } from './types'
 import { getSessions } from '@/lib/db/sessions'
-import { getFitnessHistory } from '@/lib/db/fitness'
+import { getFitnessHistory, getSportFitnessHistory } from '@/lib/db/fitness'
 import { getDateRange, formatDateForApi } from '@/lib/intervals-icu'
+import { getSportType } from '@/lib/transforms'
+import { aggregateZoneDistribution } from '@/lib/analysis/session-zones'
+import { summarizeZoneDistribution, type ZoneMetric, type ZoneSummary } from '@/lib/analysis/zones'
+import { logger } from '@/lib/logger'
 
 const inputSchema = z.object({
   metric: z.enum(['tss', 'duration', 'intensity', 'fitness', 'volume', 'distance']).describe('The metric to analyze'),
   period: z.enum(['week', 'month', '3months', '6months', 'year']).describe('Time period to analyze'),
+  sport: z.enum(['cycling', 'running', 'swimming', 'other']).optional()
+    .describe('Only include sessions of this sport; fitness then uses the per-sport PMC (e.g. run CTL and ramp rate)'),
 })
 
 type Input = z.infer<typeof inputSchema>
@@ -18,6 +24,8 @@ interface FitnessData {
   avgTSB: number
   currentATL: number
   currentTSB: number
+  // CTL change over the last 7 days
+  rampRate?: number | null
 }
 
 interface IntensityDistribution {
@@ -26,8 +34,15 @@ interface IntensityDistribution {
   high: number
 }
 
+interface ZoneDistribution {
+  // Sessions with stored streams the zone times are based on
+  sessionCount: number
+  zones: Partial<Record<ZoneMetric, ZoneSummary>>
+}
+
 interface TrendsResponse {
   period: string
+  sport: string
   sessionCount: number
   totalTSS: number
   avgTSSPerSession: number
@@ -39,6 +54,8 @@ interface TrendsResponse {
   sessionsPerWeek: number
   fitnessData: FitnessData | null
   intensityDistribution: IntensityDistribution | null
+  // Time in zones across the period with the athlete's zone models (local data only)
+  zoneDistribution?: ZoneDistribution | null
   source: 'local' | 'intervals_icu'
 }
 
@@ -61,9 +78,9 @@ const DAYS_MAP: Record<string, number> = {
 }
 
 export const queryHistoricalTrends = defineTool<Input, Output>({
-  description: 'Analyze training patterns and trends over a time period. Use for questions about training volume, intensity distribution, fitness progression, or comparing time periods.',
+  description: 'Analyze training patterns and trends over a time period. Use for questions about training volume, intensity distribution, fitness progression, or comparing time periods. For intensity, returns time in zones across the period using the athlete\'s zone models (e.g. Seiler 3-zone for polarized analysis) alongside session counts by IF. Pass sport to look at one sport only (e.g. run volume or run CTL).',
   inputSchema,
-  execute: async ({ metric, period }, ctx) => {
+  execute: async ({ metric, period, sport }, ctx) => {
     const days = DAYS_MAP[period]
     const startDate = new Date()
     startDate.setDate(startDate.getDate() - days)
@@ -73,8 +90,12 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
     if (ctx.flags.useLocalData && ctx.athleteId) {
       try {
         const [localSessions, localFitness] = await Promise.all([
-          getSessions(ctx.athleteId, { startDate: startDateStr, limit: 200 }),
-          metric === 'fitness' ? getFitnessHistory(ctx.athleteId, days) : Promise.resolve([]),
+          getSessions(ctx.athleteId, { startDate: startDateStr, limit: 200, sport }),
+          metric !== 'fitness'
+            ? Promise.resolve([])
+            : sport
+              ? getSportFitnessHistory(ctx.athleteId, days, sport)
+              : getFitnessHistory(ctx.athleteId, days),
         ])
 
         if (localSessions.length > 0) {
@@ -100,12 +121,23 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
               avgTSB: Math.round(avgTSB),
               currentATL: Math.round(last.atl),
               currentTSB: Math.round(last.tsb),
+              rampRate: last.ramp_rate ?? null,
             }
           }
 
           // Calculate intensity distribution
           let intensityDistribution: IntensityDistribution | null = null
+          let zoneDistribution: ZoneDistribution | null = null
           if (metric === 'intensity') {
+            try {
+              const { sessionCount, ...zoneTimes } = await aggregateZoneDistribution(ctx.athleteId, localSessions)
+              const zones = summarizeZoneDistribution(zoneTimes)
+              zoneDistribution = zones ? { sessionCount, zones } : null
+            } catch (error) {
+              // The IF-based split still applies without zone times
+              logger.error('[queryHistoricalTrends] Zone distribution error:', error)
+            }
+
             const lowIntensity = localSessions.filter(s => (s.intensity_factor || 0) < 0.75).length
             const medIntensity = localSessions.filter(s => (s.intensity_factor || 0) >= 0.75 && (s.intensity_factor || 0) < 0.90).length
             const highIntensity = localSessions.filter(s => (s.intensity_factor || 0) >= 0.90).length
@@ -118,6 +150,7 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
 
           return {
             period,
+            sport: sport ?? 'all',
             sessionCount: localSessions.length,
             totalTSS: Math.round(totalTSS),
             avgTSSPerSession: Math.round(totalTSS / localSessions.length),
@@ -129,6 +162,7 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
             sessionsPerWeek: Math.round(localSessions.length / (days / 7) * 10) / 10,
             fitnessData,
             intensityDistribution,
+            zoneDistribution,
             source: 'local',
           }
         }
@@ -153,7 +187,7 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
 
       // Filter out STRAVA activities (same as dashboard)
       const sessions = activities.filter((a: { source?: string; type?: string; moving_time?: number }) =>
-        a.source !== 'STRAVA' && a.type && a.moving_time
+        a.source !== 'STRAVA' && a.type && a.moving_time && (!sport || getSportType(a.type) === sport)
       )
 
       if (sessions.length === 0) {
@@ -170,8 +204,9 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
         : 0
 
       // Get fitness trend if requested
+      // intervals.icu wellness has no per-sport CTL/ATL
       let fitnessData: FitnessData | null = null
-      if (metric === 'fitness' && wellness.length > 0) {
+      if (metric === 'fitness' && wellness.length > 0 && !sport) {
         const first = wellness[0]
         const last = wellness[wellness.length - 1]
         const avgTSB = wellness.reduce((sum: number, w: { ctl: number; atl: number }) => sum + (w.ctl - w.atl), 0) / wellness.length
@@ -200,6 +235,7 @@ export const queryHistoricalTrends = defineTool<Input, Output>({
 
       return {
         period,
+        sport: sport ?? 'all',
         sessionCount: sessions.length,
         totalTSS: Math.round(totalTSS),
         avgTSSPerSession: Math.round(totalTSS / sessions.length),
@@ -18,6 +18,7 @@ import {
 } from '@/lib/db/race-competitors'
 import { createClient } from '@/lib/supabase/server'
 import { analyzeRacePacing } from '@/lib/analysis/race-pacing'
+import { getSessionStreams } from '@/lib/streams/stream-access'
 import type { RacePacingAnalysis } from '@/lib/analysis/race-pacing'
 
 // ============================================================
@@ -28,7 +29,7 @@ async function fetchLatestRacePacing(
   ctx: ToolContext,
   latestRace: { race_date: string; race_name: string; duration_seconds?: number } | null
 ): Promise<{ raceName: string; pacing: RacePacingAnalysis } | null> {
-  if (!latestRace || !ctx.intervalsConnected || !ctx.athleteId) return null
+  if (!latestRace || !ctx.athleteId) return null
 
   try {
     // Find matching session by date
@@ -39,7 +40,7 @@ async function fetchLatestRacePacing(
     const raceDay = latestRace.race_date.split('T')[0]
     const { data: sessions } = await supabase
       .from('sessions')
-      .select('external_id, raw_data, duration_seconds')
+      .select('id, athlete_id, source, external_id, raw_data, duration_seconds')
       .eq('athlete_id', ctx.athleteId)
       .gte('date', raceDay)
       .lt('date', raceDay + 'T23:59:59')
@@ -49,7 +50,6 @@ async function fetchLatestRacePacing(
     if (!sessions || sessions.length === 0) return null
 
     const session = sessions[0]
-    if (!session.external_id) return null
 
     // Get FTP from athlete context or session raw_data
     const athleteCtx = parseAthleteContext(ctx.athleteContext)
@@ -57,9 +57,13 @@ async function fetchLatestRacePacing(
       || (session.raw_data as Record<string, unknown> | null)?.icu_ftp as number | null
       || null
 
-    // Fetch power stream
-    const streams = await ctx.intervalsClient.getActivityStreams(session.external_id, ['watts'])
-    if (!streams.watts || streams.watts.length === 0) return null
+    // Fetch power stream (local first, then intervals.icu)
+    const streams = await getSessionStreams(
+      session,
+      ['watts'],
+      ctx.intervalsConnected ? ctx.intervalsClient : null
+    )
+    if (!streams?.watts || streams.watts.length === 0) return null
 
     const duration = latestRace.duration_seconds || session.duration_seconds || streams.watts.length
     const pacing = analyzeRacePacing(streams.watts, ftp, duration)
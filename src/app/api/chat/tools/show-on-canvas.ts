@@ -9,10 +9,10 @@ import { toWidgetConfig } from '@/lib/widgets/config-factory'
 const chartConfigSchema = z.object({
   chartType: z.enum(['line', 'area', 'overlay']).default('overlay').describe('Chart visualization type'),
   sessionId: z.string().describe('Session ID to fetch data for, or "latest" for most recent session'),
-  metrics: z.array(z.enum(['power', 'heartRate', 'cadence', 'speed', 'altitude']))
+  metrics: z.array(z.enum(['power', 'heartRate', 'cadence', 'speed', 'altitude', 'wPrimeBalance', 'torque']))
     .min(1)
     .max(3)
-    .describe('Metrics to display (power on left axis, others on right axis)'),
+    .describe('Metrics to display (power on left axis, others on right axis). wPrimeBalance is W′bal in kJ (needs CP/W′); torque is crank torque in Nm from power and cadence'),
   timeRange: z.object({
     start: z.number(),
     end: z.number(),
@@ -36,7 +36,8 @@ const widgetSchema = z.object({
     'plan-proposal',
     'plan-projection',
     'training-calendar',
-    'session-analysis'
+    'session-analysis',
+    'pedaling-analysis'
   ]).describe('Type of widget to display'),
   insight: z.string().describe('Explain what the user should notice or why you are showing this data'),
   sourceReference: z.string().optional().describe('Wiki article slug to cite as sports science reference'),
@@ -68,11 +69,11 @@ export const showOnCanvas = defineTool<Input, Output>({
 - Bad: "Showing your fitness"
 - Good: "Your CTL of 72 indicates strong aerobic base - you're ready for intensity work"
 
-**Widget types:** fitness, pmc-chart, sessions, power-curve, sleep, workout-card, chart, race-history, competitor-analysis, plan-proposal, plan-projection, training-calendar, session-analysis
+**Widget types:** fitness, pmc-chart, sessions, power-curve, sleep, workout-card, chart, race-history, competitor-analysis, plan-proposal, plan-projection, training-calendar, session-analysis, pedaling-analysis
 
 **Chart widget:** Requires chartConfig with sessionId ("latest" or ID) and metrics array (["power", "heartRate"], etc.). Power on left Y-axis, others on right.
 
-**Data widgets:** race-history/competitor-analysis need config from analyzeRace. plan-proposal/plan-projection need config from proposePlan. session-analysis needs config with session, analysis, comparison, personalBests.`,
+**Data widgets:** race-history/competitor-analysis need config from analyzeRace. plan-proposal/plan-projection need config from proposePlan. session-analysis needs config with session, analysis, comparison, personalBests. pedaling-analysis needs config with sessionId (optionally referenceCadence). power-curve overlays two periods when config has a preset ("season", "last-42-days-vs-all-time", "last-90-days-vs-previous") or baseline and current windows ({startDate, endDate}).`,
 
   inputSchema,
 
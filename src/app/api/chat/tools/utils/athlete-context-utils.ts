@@ -1,5 +1,6 @@
 import { parseAthleteContext, resolveAthleteProfile, type ToolContext } from '../types'
 import { getCurrentFitness } from '@/lib/db/fitness'
+import { getAthlete } from '@/lib/db/athletes'
 import { formatDateForApi } from '@/lib/intervals-icu'
 
 /**
@@ -10,6 +11,10 @@ import { formatDateForApi } from '@/lib/intervals-icu'
 export interface EnrichedAthleteContext {
   ftp: number | null
   weight_kg: number | null
+  /** Threshold pace in s/km, from the athlete profile */
+  threshold_pace: number | null
+  /** Running power threshold, from the athlete profile */
+  running_ftp: number | null
   ctl: number
   atl: number
   tsb: number
@@ -27,6 +32,8 @@ export interface EnrichedAthleteContext {
  * 2. Fall back to intervals.icu athlete API
  * 3. Return null if unavailable (no hardcoded defaults)
  *
+ * Running thresholds come from the local athlete profile only.
+ *
  * Fitness (CTL/ATL/TSB) resolution:
  * 1. Parse athleteContext JSON for initial values
  * 2. Try local Supabase (getCurrentFitness) if useLocalData flag is on
@@ -47,6 +54,19 @@ export async function enrichAthleteContext(
   let fitness_source: EnrichedAthleteContext['fitness_source'] =
     parsed.currentFitness ? 'context' : 'default'
 
+  // Running thresholds are only stored locally
+  let threshold_pace: number | null = null
+  let running_ftp: number | null = null
+  if (ctx.athleteId) {
+    try {
+      const athlete = await getAthlete(ctx.athleteId)
+      threshold_pace = athlete?.threshold_pace ?? null
+      running_ftp = athlete?.running_ftp ?? null
+    } catch {
+      // No local profile
+    }
+  }
+
   // Try local Supabase for more accurate fitness data
   if (ctx.flags.useLocalData && ctx.athleteId) {
     try {
@@ -81,6 +101,8 @@ export async function enrichAthleteContext(
   return {
     ftp: profile.ftp,
     weight_kg: profile.weight_kg,
+    threshold_pace,
+    running_ftp,
     ctl,
     atl,
     tsb,
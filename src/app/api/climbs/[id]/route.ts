@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getClimb, getClimbLeaderboard, type Climb, type ClimbEffort } from '@/lib/db/climbs'
+import { logger } from '@/lib/logger'
+
+export interface ClimbLeaderboardResponse {
+  climb: Climb
+  /** Fastest first */
+  efforts: ClimbEffort[]
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const climb = await getClimb(id, user.id)
+    if (!climb) {
+      return NextResponse.json({ error: 'Climb not found' }, { status: 404 })
+    }
+
+    const response: ClimbLeaderboardResponse = {
+      climb,
+      efforts: await getClimbLeaderboard(id, user.id),
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[climbs] Leaderboard error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch climb leaderboard' },
+      { status: 500 }
+    )
+  }
+}
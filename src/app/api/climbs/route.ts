@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getClimbSummaries, type ClimbSummary } from '@/lib/db/climbs'
+import type { Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+export interface ClimbsResponse {
+  climbs: ClimbSummary[]
+}
+
+const CLIMB_SPORTS = ['cycling', 'running']
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const sport = request.nextUrl.searchParams.get('sport')
+    if (sport && !CLIMB_SPORTS.includes(sport)) {
+      return NextResponse.json(
+        { error: `sport must be one of: ${CLIMB_SPORTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const response: ClimbsResponse = {
+      climbs: await getClimbSummaries(user.id, (sport as Session['sport']) || undefined),
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[climbs] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch climbs' },
+      { status: 500 }
+    )
+  }
+}
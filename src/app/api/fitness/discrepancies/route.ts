@@ -3,6 +3,8 @@
  *
  * GET /api/fitness/discrepancies - Get active discrepancies for current user
  * PATCH /api/fitness/discrepancies - Acknowledge or resolve discrepancies
+ *   { action: 'acknowledge_all' } | { action: 'acknowledge', discrepancyId }
+ *   { action: 'recompute_local' } - Switch to the local PMC and recompute all fitness history
  */
 
 import { NextResponse } from 'next/server'
@@ -12,6 +14,9 @@ import {
   acknowledgeDiscrepancy,
   resolveAllDiscrepancies,
 } from '@/lib/db/fitness-discrepancies'
+import { updateAthlete } from '@/lib/db/athletes'
+import { recomputeAllFitness } from '@/lib/fitness/pmc-engine'
+import { logger } from '@/lib/logger'
 
 export async function GET() {
   const supabase = await createClient()
@@ -60,6 +65,22 @@ export async function PATCH(request: Request) {
     return NextResponse.json({ success })
   }
 
+  if (action === 'recompute_local') {
+    const athlete = await updateAthlete(user.id, { fitness_source: 'local' })
+    if (!athlete) {
+      return NextResponse.json({ error: 'Failed to update fitness source' }, { status: 500 })
+    }
+
+    try {
+      const daysRecomputed = await recomputeAllFitness(user.id)
+      await resolveAllDiscrepancies(user.id, 'Recomputed from local sessions')
+      return NextResponse.json({ success: true, daysRecomputed })
+    } catch (error) {
+      logger.error('[Discrepancies] Local recompute failed:', error)
+      return NextResponse.json({ error: 'Failed to recompute fitness history' }, { status: 500 })
+    }
+  }
+
   if (action === 'acknowledge' && discrepancyId) {
     const success = await acknowledgeDiscrepancy(discrepancyId, user.id)
     return NextResponse.json({ success })
@@ -1,8 +1,8 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
-import { getCurrentFitness, getFitnessHistory } from '@/lib/db/fitness'
+import { getCurrentFitness, getFitnessHistory, getSportFitnessHistory } from '@/lib/db/fitness'
 import { intervalsClient, getDateRange } from '@/lib/intervals-icu'
-import { buildPMCData } from '@/lib/transforms'
+import { buildPMCData, buildSportPMCData } from '@/lib/transforms'
 import { logger } from '@/lib/logger'
 
 /**
@@ -10,6 +10,7 @@ import { logger } from '@/lib/logger'
  *
  * Returns fitness data from LOCAL database (source of truth).
  * Falls back to intervals.icu if local data is empty/stale.
+ * sportPmcData holds the locally calculated CTL per sport.
  */
 export async function GET(request: Request): Promise<NextResponse> {
   const { searchParams } = new URL(request.url)
@@ -32,10 +33,12 @@ export async function GET(request: Request): Promise<NextResponse> {
 
   try {
     // First, try to get fitness from local database
-    const [currentFitness, fitnessHistory] = await Promise.all([
+    const [currentFitness, fitnessHistory, sportFitness] = await Promise.all([
       getCurrentFitness(athleteId),
       getFitnessHistory(athleteId, days),
+      getSportFitnessHistory(athleteId, days),
     ])
+    const sportPmcData = buildSportPMCData(sportFitness)
 
     // Check if we have recent local data (within last 2 days)
     const hasRecentData = fitnessHistory.length > 0 && (() => {
@@ -67,6 +70,7 @@ export async function GET(request: Request): Promise<NextResponse> {
           ctl_change: ctlTrend,
         },
         pmcData,
+        sportPmcData,
         ctlTrend: Math.round(ctlTrend),
         lastUpdated: fitnessHistory[fitnessHistory.length - 1]?.date || null,
       })
@@ -115,6 +119,7 @@ export async function GET(request: Request): Promise<NextResponse> {
         resting_hr: today?.restingHR ?? null,
       },
       pmcData,
+      sportPmcData,
       ctlTrend,
       lastUpdated: newest,
     })
@@ -0,0 +1,104 @@
+/**
+ * FTP Change Proposals API Endpoint
+ *
+ * GET /api/ftp-proposals - Get the pending FTP change proposal and FTP history
+ * PATCH /api/ftp-proposals - Accept or reject a proposal
+ *   { action: 'accept', proposalId, recomputeTss?: boolean }
+ *   { action: 'reject', proposalId }
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getPendingFtpProposal, getFtpHistory } from '@/lib/db/ftp-proposals'
+import { acceptFtpProposal, rejectFtpProposal } from '@/lib/fitness/ftp-detector'
+import { logger } from '@/lib/logger'
+
+export async function GET() {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const [proposal, history] = await Promise.all([
+    getPendingFtpProposal(user.id),
+    getFtpHistory(user.id),
+  ])
+
+  return NextResponse.json({ proposal, history })
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+  const { action, proposalId, recomputeTss } = body
+
+  if (!proposalId) {
+    return NextResponse.json(
+      { error: 'proposalId is required' },
+      { status: 400 }
+    )
+  }
+
+  if (action === 'reject') {
+    const success = await rejectFtpProposal(user.id, proposalId)
+    return NextResponse.json({ success })
+  }
+
+  if (action === 'accept') {
+    try {
+      const result = await acceptFtpProposal(user.id, proposalId, {
+        recomputeTss: recomputeTss === true,
+      })
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Proposal not found or already resolved' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+      logger.error('[ftp-proposals] Accept error:', error)
+      return NextResponse.json(
+        { error: 'Failed to apply FTP change' },
+        { status: 500 }
+      )
+    }
+  }
+
+  return NextResponse.json(
+    { error: 'Invalid action' },
+    { status: 400 }
+  )
+}
@@ -8,6 +8,7 @@ import {
   type GoalInsert,
   type GoalUpdate,
 } from '@/lib/db/goals'
+import { DURABILITY_DURATIONS, DURABILITY_WORK_THRESHOLDS_KJ } from '@/lib/analysis/durability'
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const supabase = await createClient()
@@ -55,7 +56,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Validate metric goal conditions if metric_type is provided
     if (body.metric_type) {
-      const validMetricTypes = ['hr_at_power', 'power_duration', 'relative_power']
+      const validMetricTypes = ['hr_at_power', 'power_duration', 'relative_power', 'durability']
       if (!validMetricTypes.includes(body.metric_type)) {
         return NextResponse.json(
           { error: `Invalid metric_type. Must be one of: ${validMetricTypes.join(', ')}` },
@@ -90,6 +91,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
             )
           }
           break
+        case 'durability':
+          if (
+            !conditions.target_power ||
+            !DURABILITY_WORK_THRESHOLDS_KJ.includes(conditions.after_kj) ||
+            !DURABILITY_DURATIONS.some(d => d.seconds === conditions.duration_seconds)
+          ) {
+            return NextResponse.json(
+              { error: `durability goals require target_power, after_kj (${DURABILITY_WORK_THRESHOLDS_KJ.join(', ')}) and duration_seconds (${DURABILITY_DURATIONS.map(d => d.seconds).join(' or ')}) in metric_conditions` },
+              { status: 400 }
+            )
+          }
+          break
       }
     }
 
@@ -0,0 +1,236 @@
+/**
+ * Plan Templates API Endpoint
+ *
+ * GET /api/plan-templates - The athlete's templates, templates shared with them and the built-ins
+ * POST /api/plan-templates - Create a template { template } or import an export { import }
+ * PATCH /api/plan-templates - Update or share a template
+ *   { action: 'update', id, template }
+ *   { action: 'share', id, email }
+ *   { action: 'unshare', id, email? } (without email, removes a template shared with you)
+ * DELETE /api/plan-templates?id=xxx - Delete a template
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getPlanTemplates,
+  getPlanTemplateShares,
+  createPlanTemplate,
+  updatePlanTemplate,
+  deletePlanTemplate,
+  sharePlanTemplate,
+  unsharePlanTemplate,
+  rowToPlanTemplate,
+  type PlanTemplateRow,
+  type PlanTemplateShare,
+} from '@/lib/db/plan-templates'
+import {
+  importPlanTemplate,
+  normalizePlanTemplate,
+  validatePlanTemplate,
+  exportPlanTemplate,
+} from '@/lib/plans/custom-templates'
+import { planTemplates, type PlanTemplate } from '@/lib/plans/templates'
+
+export interface SavedPlanTemplate {
+  /** plan_templates row id */
+  id: string
+  template: PlanTemplate
+  updatedAt: string
+  /** Email addresses it is shared with (own templates only) */
+  shares: Array<{ email: string }>
+}
+
+export interface PlanTemplatesResponse {
+  own: SavedPlanTemplate[]
+  shared: SavedPlanTemplate[]
+  builtIn: PlanTemplate[]
+}
+
+function toSaved(row: PlanTemplateRow, shares: PlanTemplateShare[] = []): SavedPlanTemplate {
+  return {
+    id: row.id,
+    template: rowToPlanTemplate(row),
+    updatedAt: row.updated_at,
+    shares: shares
+      .filter(s => s.template_id === row.id)
+      .map(s => ({ email: s.athlete_email })),
+  }
+}
+
+/**
+ * Template from the request body, returning it or a validation error
+ */
+function parseTemplate(body: Record<string, unknown>): { template?: PlanTemplate; error?: string } {
+  if (body.import !== undefined) return importPlanTemplate(body.import)
+
+  const template = normalizePlanTemplate(body.template)
+  const invalid = validatePlanTemplate(template)
+  return invalid ? { error: invalid } : { template }
+}
+
+export async function GET() {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const [{ own, shared }, shares] = await Promise.all([
+    getPlanTemplates(user.id),
+    getPlanTemplateShares(user.id),
+  ])
+
+  return NextResponse.json({
+    own: own.map(row => toSaved(row, shares)),
+    shared: shared.map(row => toSaved(row)),
+    builtIn: planTemplates,
+  } satisfies PlanTemplatesResponse)
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+  const { template, error } = parseTemplate(body)
+  if (!template) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  const row = await createPlanTemplate({ athlete_id: user.id, template: exportPlanTemplate(template).template })
+  if (!row) {
+    return NextResponse.json({ error: 'Failed to create plan template' }, { status: 500 })
+  }
+
+  return NextResponse.json(toSaved(row))
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+  const { action, id } = body
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  if (action === 'unshare') {
+    const email = typeof body.email === 'string' ? body.email : undefined
+    const success = await unsharePlanTemplate(id, user.id, email)
+    return NextResponse.json({ success })
+  }
+
+  const { own } = await getPlanTemplates(user.id)
+  const existing = own.find(row => row.id === id)
+  if (!existing) {
+    return NextResponse.json({ error: 'Plan template not found' }, { status: 404 })
+  }
+
+  if (action === 'update') {
+    const { template, error } = parseTemplate({ template: body.template })
+    if (!template) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const row = await updatePlanTemplate(id, user.id, exportPlanTemplate(template).template)
+    if (!row) {
+      return NextResponse.json({ error: 'Failed to update plan template' }, { status: 500 })
+    }
+    return NextResponse.json(toSaved(row, await getPlanTemplateShares(user.id)))
+  }
+
+  if (action === 'share') {
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+    if (!email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+    if (email === user.email?.toLowerCase()) {
+      return NextResponse.json({ error: 'You already own this template' }, { status: 400 })
+    }
+    if (!await sharePlanTemplate(id, email)) {
+      return NextResponse.json({ error: 'Failed to share plan template' }, { status: 500 })
+    }
+    return NextResponse.json(toSaved(existing, await getPlanTemplateShares(user.id)))
+  }
+
+  return NextResponse.json(
+    { error: 'Invalid action' },
+    { status: 400 }
+  )
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const id = new URL(request.url).searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  const success = await deletePlanTemplate(id, user.id)
+  return NextResponse.json({ success })
+}
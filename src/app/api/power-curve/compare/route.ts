@@ -0,0 +1,94 @@
+/**
+ * Power Curve Comparison API
+ *
+ * GET /api/power-curve/compare?preset=season - Compare mean-maximal power
+ * of two preset windows (season, last-42-days-vs-all-time,
+ * last-90-days-vs-previous)
+ * GET /api/power-curve/compare?baselineStart=&baselineEnd=&currentStart=&currentEnd=
+ * - Compare two custom date windows (e.g. before and after a training block)
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete } from '@/lib/db/athletes'
+import {
+  COMPARISON_PRESETS,
+  comparisonPresetWindows,
+  type ComparisonPreset,
+  type DateWindow,
+} from '@/lib/analysis/power-curve-comparison'
+import { comparePowerCurveWindows, type PowerCurveWindowComparison } from '@/lib/analysis/power-curve-windows'
+import { logger } from '@/lib/logger'
+
+export interface PowerCurveComparisonResponse extends PowerCurveWindowComparison {
+  preset: ComparisonPreset | null
+  ftp: number | null
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseWindow(start: string | null, end: string | null): DateWindow | null {
+  if (!start || !end || !DATE_PATTERN.test(start) || !DATE_PATTERN.test(end) || end < start) return null
+  return { startDate: start, endDate: end }
+}
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const params = new URL(request.url).searchParams
+    const presetParam = params.get('preset')
+    let preset: ComparisonPreset | null = null
+    let windows: { baseline: DateWindow; current: DateWindow }
+
+    if (params.has('baselineStart') || params.has('currentStart')) {
+      const baseline = parseWindow(params.get('baselineStart'), params.get('baselineEnd'))
+      const current = parseWindow(params.get('currentStart'), params.get('currentEnd'))
+      if (!baseline || !current) {
+        return NextResponse.json(
+          { error: 'Windows need YYYY-MM-DD start and end dates, with the end on or after the start' },
+          { status: 400 }
+        )
+      }
+      windows = { baseline, current }
+    } else {
+      preset = COMPARISON_PRESETS.includes(presetParam as ComparisonPreset)
+        ? presetParam as ComparisonPreset
+        : 'season'
+      windows = comparisonPresetWindows(preset, new Date().toISOString().split('T')[0])
+    }
+
+    const [result, athlete] = await Promise.all([
+      comparePowerCurveWindows(user.id, windows.baseline, windows.current),
+      getAthlete(user.id),
+    ])
+
+    const response: PowerCurveComparisonResponse = {
+      ...result,
+      preset,
+      ftp: athlete?.ftp ?? null,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[power-curve/compare] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare power curves' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Critical Power Model API
+ *
+ * GET /api/power-curve/model?days=90 - Fit CP models to the mean-maximal
+ * power of the last `days` days (default 90, 14-365)
+ * POST /api/power-curve/model - Save CP/W′ on the athlete (used for W′ balance)
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete, updateAthlete } from '@/lib/db/athletes'
+import { getMeanMaxPower, type MeanMaxSource } from '@/lib/analysis/mean-max-power'
+import { fitCriticalPowerModels, type CpModelFit, type MeanMaxPoint } from '@/lib/analysis/critical-power'
+import { logger } from '@/lib/logger'
+
+export interface CriticalPowerResponse {
+  window: { startDate: string; endDate: string; days: number }
+  source: MeanMaxSource
+  sessionCount: number
+  meanMaxPower: MeanMaxPoint[]
+  models: CpModelFit[]
+  recommended: CpModelFit | null
+  weightKg: number | null
+  ftp: number | null
+  /** CP/W′ currently saved on the athlete */
+  saved: { cp: number; wPrime: number; updatedAt: string | null } | null
+}
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const daysParam = Number(new URL(request.url).searchParams.get('days') || 90)
+    const days = Math.min(Math.max(Math.round(daysParam) || 90, 14), 365)
+
+    const end = new Date()
+    const start = new Date()
+    start.setDate(start.getDate() - (days - 1))
+    const startDate = start.toISOString().split('T')[0]
+    const endDate = end.toISOString().split('T')[0]
+
+    const [meanMax, athlete] = await Promise.all([
+      getMeanMaxPower(user.id, startDate, endDate),
+      getAthlete(user.id),
+    ])
+
+    const { models, recommended } = fitCriticalPowerModels(meanMax.points)
+
+    const response: CriticalPowerResponse = {
+      window: { startDate, endDate, days },
+      source: meanMax.source,
+      sessionCount: meanMax.sessionCount,
+      meanMaxPower: meanMax.points,
+      models,
+      recommended,
+      weightKg: athlete?.weight_kg ?? null,
+      ftp: athlete?.ftp ?? null,
+      saved: athlete?.critical_power && athlete.w_prime
+        ? { cp: athlete.critical_power, wPrime: athlete.w_prime, updatedAt: athlete.critical_power_updated_at ?? null }
+        : null,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[power-curve/model] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fit critical power model' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { cp, wPrime } = await request.json()
+    if (typeof cp !== 'number' || typeof wPrime !== 'number' || cp <= 0 || wPrime <= 0) {
+      return NextResponse.json(
+        { error: 'cp and wPrime must be positive numbers' },
+        { status: 400 }
+      )
+    }
+
+    const athlete = await updateAthlete(user.id, {
+      critical_power: Math.round(cp),
+      w_prime: Math.round(wPrime),
+    })
+    if (!athlete) {
+      return NextResponse.json(
+        { error: 'Failed to save critical power' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      saved: {
+        cp: athlete.critical_power,
+        wPrime: athlete.w_prime,
+        updatedAt: athlete.critical_power_updated_at ?? null,
+      },
+    })
+  } catch (error) {
+    logger.error('[power-curve/model] Error saving CP:', error)
+    return NextResponse.json(
+      { error: 'Failed to save critical power' },
+      { status: 500 }
+    )
+  }
+}
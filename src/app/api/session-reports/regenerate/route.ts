@@ -64,7 +64,7 @@ export async function POST(request: Request) {
     // Empty body is fine — will regenerate recent sessions
   }
 
-  // If no specific sessions, get recent cycling sessions with reports
+  // If no specific sessions, get recent sessions with reports
   if (!sessionIds || sessionIds.length === 0) {
     const { data: recentReports } = await supabase
       .from('session_reports')
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getSession } from '@/lib/db/sessions'
+import { analyzeSessionPedaling, type SessionPedalingAnalysis } from '@/lib/analysis/session-pedaling'
+import { logger } from '@/lib/logger'
+
+export type PedalingResponse = SessionPedalingAnalysis
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+    let sessionId: string | null = isUuid ? id : null
+    if (!isUuid) {
+      const { data } = await supabase
+        .from('sessions')
+        .select('id')
+        .eq('athlete_id', user.id)
+        .eq('external_id', id)
+        .maybeSingle()
+      sessionId = data?.id ?? null
+    }
+
+    const session = sessionId ? await getSession(sessionId) : null
+    if (!session || session.athlete_id !== user.id) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const referenceParam = request.nextUrl.searchParams.get('referenceCadence')
+    const referenceCadence = referenceParam ? Number(referenceParam) : null
+    if (referenceCadence !== null && (!Number.isFinite(referenceCadence) || referenceCadence < 40 || referenceCadence > 130)) {
+      return NextResponse.json(
+        { error: 'referenceCadence must be between 40 and 130 rpm' },
+        { status: 400 }
+      )
+    }
+
+    const analysis = await analyzeSessionPedaling(session, { referenceCadence })
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Pedaling analysis needs a ride with power and cadence' },
+        { status: 404 }
+      )
+    }
+
+    const response: PedalingResponse = analysis
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('[pedaling] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze pedaling' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,198 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
-import { intervalsClient, formatDateForApi } from '@/lib/intervals-icu'
+import { intervalsClient } from '@/lib/intervals-icu'
+import type { IntervalsActivity, IntervalsStreams } from '@/lib/intervals-icu'
 import { getNormalizedPower, getAveragePower } from '@/lib/transforms'
 import { createClient } from '@/lib/supabase/server'
+import { getSession, updateSession, deleteSession, type SessionUpdate } from '@/lib/db/sessions'
+import { getFitnessNearDate } from '@/lib/db/fitness'
+import { getSessionStreams } from '@/lib/streams/stream-access'
+import { resolveCriticalPower } from '@/lib/analysis/mean-max-power'
+import { calculateWPrimeBalance } from '@/lib/analysis/w-prime-balance'
+import { detectIntervals } from '@/lib/analysis/interval-detection'
+import { analyzeSessionIntervals } from '@/lib/analysis/session-intervals'
+import { getZoneContext, sessionZoneDistribution } from '@/lib/analysis/session-zones'
+import { calculateGradientBins } from '@/lib/analysis/climbs'
+import { getRankedSessionClimbs } from '@/lib/db/climbs'
+import { handleSessionsChanged } from '@/lib/fitness/pmc-engine'
+import { rescoreSession } from '@/lib/fitness/stress-engine'
+import { refreshSessionPowerBests } from '@/lib/fitness/data-quality-engine'
+import type { SessionZoneDistribution } from '@/lib/analysis/zones'
+import type { Session } from '@/types'
 import { logger } from '@/lib/logger'
 
+const CHART_STREAM_TYPES = ['time', 'watts', 'heartrate', 'cadence', 'altitude', 'velocity_smooth', 'distance'] as const
+
+type ChartStreams = Pick<IntervalsStreams, typeof CHART_STREAM_TYPES[number]>
+
+/**
+ * Downsample streams for chart performance (every 10 seconds for rides > 30min)
+ */
+function downsampleStreams(streams: ChartStreams, movingTime: number, wPrimeBalance?: number[] | null) {
+  const downsampleInterval = movingTime > 1800 ? 10 : 5
+  return {
+    time: (streams.time || []).filter((_, i) => i % downsampleInterval === 0),
+    watts: (streams.watts || []).filter((_, i) => i % downsampleInterval === 0),
+    heartrate: (streams.heartrate || []).filter((_, i) => i % downsampleInterval === 0),
+    cadence: (streams.cadence || []).filter((_, i) => i % downsampleInterval === 0),
+    altitude: (streams.altitude || []).filter((_, i) => i % downsampleInterval === 0),
+    velocity_smooth: (streams.velocity_smooth || []).filter((_, i) => i % downsampleInterval === 0),
+    ...(wPrimeBalance ? {
+      w_prime_balance: wPrimeBalance.filter((_, i) => i % downsampleInterval === 0),
+    } : {}),
+  }
+}
+
+/**
+ * Per-second W′bal in kJ, computed at full resolution before downsampling
+ */
+async function buildWPrimeBalanceStream(
+  athleteId: string | null,
+  date: string,
+  watts: number[] | undefined
+): Promise<number[] | null> {
+  if (!athleteId || !watts || watts.length === 0) return null
+  const criticalPower = await resolveCriticalPower(athleteId, date)
+  if (!criticalPower) return null
+  return calculateWPrimeBalance(watts, criticalPower).map(j => Math.round(j / 100) / 10)
+}
+
+/**
+ * Convert zone percentages stored on a session into zone times
+ */
+function zonePercentagesToTimes(
+  zones: Record<string, number | undefined> | undefined,
+  durationSeconds: number
+): { zone: string; seconds: number; minutes: number }[] {
+  if (!zones) return []
+  return Object.entries(zones)
+    .filter((entry): entry is [string, number] => entry[1] != null)
+    .map(([zone, percent]) => {
+      const seconds = Math.round(percent / 100 * durationSeconds)
+      return { zone: zone.toUpperCase(), seconds, minutes: Math.round(seconds / 60) }
+    })
+}
+
+/**
+ * Find a session in the local database by UUID or intervals.icu activity ID
+ */
+async function findLocalSession(id: string, isUuid: boolean): Promise<Session | null> {
+  if (isUuid) return getSession(id)
+
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data } = await supabase
+    .from('sessions')
+    .select('id')
+    .eq('external_id', id)
+    .maybeSingle()
+
+  return data?.id ? getSession(data.id) : null
+}
+
+/**
+ * Build the workout response from local data (session row + stored streams + local fitness)
+ */
+async function buildLocalResponse(session: Session, connected: boolean) {
+  // intervals.icu sessions keep the original activity JSON in raw_data
+  const raw = session.source === 'intervals_icu'
+    ? (session.raw_data as unknown as IntervalsActivity | undefined)
+    : undefined
+
+  const streams = await getSessionStreams(
+    session,
+    [...CHART_STREAM_TYPES],
+    connected ? intervalsClient : null
+  ) || {}
+
+  const uploadFtp = (session.raw_data as Record<string, unknown> | undefined)?.ftp_used as number | undefined
+  const ftp = raw?.icu_ftp ?? uploadFtp ?? null
+
+  const [fitness, wPrimeBalance, intervalAnalysis, zoneContext, climbs] = await Promise.all([
+    getFitnessNearDate(session.athlete_id, session.date.split('T')[0]),
+    buildWPrimeBalanceStream(session.athlete_id, session.date, streams.watts),
+    analyzeSessionIntervals(session, streams, ftp),
+    getZoneContext(session.athlete_id),
+    getRankedSessionClimbs(session.id, session.athlete_id).catch(() => []),
+  ])
+
+  // Time in zones from the streams with the athlete's zone models, else the stored zone times
+  const zones = sessionZoneDistribution(session, streams, zoneContext, ftp)
+
+  const powerZones = zones.power?.zones || raw?.icu_zone_times?.map(z => ({
+    zone: z.id,
+    seconds: z.secs,
+    minutes: Math.round(z.secs / 60),
+  })) || zonePercentagesToTimes(session.power_zones as unknown as Record<string, number>, session.duration_seconds)
+
+  const hrZones = zones.hr?.zones || raw?.icu_hr_zone_times?.map((secs, i) => ({
+    zone: `Z${i + 1}`,
+    seconds: secs,
+    minutes: Math.round(secs / 60),
+  })) || zonePercentagesToTimes(session.hr_zones as unknown as Record<string, number>, session.duration_seconds)
+
+  return {
+    activity: {
+      id: session.id,
+      name: raw?.name || session.workout_type || session.sport,
+      date: session.date,
+      type: raw?.type || session.sport,
+      sport: session.sport,
+      duration_seconds: session.duration_seconds,
+      elapsed_seconds: raw?.elapsed_time ?? session.duration_seconds,
+      distance_meters: session.distance_meters,
+      elevation_gain: raw?.total_elevation_gain,
+      // Power metrics
+      avg_power: session.avg_power,
+      normalized_power: session.normalized_power,
+      max_power: session.max_power,
+      // HR metrics
+      avg_hr: session.avg_hr,
+      max_hr: session.max_hr,
+      // Cadence
+      avg_cadence: raw?.average_cadence,
+      // Training metrics
+      tss: session.tss,
+      intensity_factor: session.intensity_factor,
+      ftp: ftp ?? undefined,
+      // Additional
+      calories: raw?.calories,
+      trimp: raw?.trimp,
+      decoupling: raw?.decoupling,
+      interval_summary: raw?.interval_summary,
+    },
+    streams: downsampleStreams(streams, session.duration_seconds, wPrimeBalance),
+    // Work/recovery bouts (full-resolution streams) and the plan day comparison
+    intervals: intervalAnalysis?.intervals ?? [],
+    intervalComparison: intervalAnalysis?.plannedComparison ?? null,
+    powerZones,
+    hrZones,
+    paceZones: zones.pace?.zones ?? [],
+    // Climbs ranked against earlier ascents, and distance/time by gradient
+    climbs,
+    gradientBins: streams.distance && streams.altitude ? calculateGradientBins(streams) : [],
+    // Issues found when the streams were cleaned, and what the athlete excluded from power bests
+    dataQuality: {
+      flags: session.data_quality ?? null,
+      excludeFromBests: session.exclude_from_bests ?? false,
+      excludedRanges: session.excluded_ranges ?? [],
+    },
+    zoneModels: {
+      power: zones.power?.model ?? null,
+      hr: zones.hr?.model ?? null,
+      pace: zones.pace?.model ?? null,
+    },
+    wellness: fitness ? {
+      ctl: fitness.ctl,
+      atl: fitness.atl,
+      tsb: Math.round(fitness.ctl - fitness.atl),
+      rampRate: fitness.ramp_rate,
+    } : null,
+    source: 'local',
+  }
+}
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -22,52 +210,47 @@ export async function GET(
     athleteId = process.env.INTERVALS_ICU_ATHLETE_ID
   }
 
-  if (!accessToken || !athleteId) {
-    return NextResponse.json(
-      { error: 'Not connected to intervals.icu' },
-      { status: 401 }
-    )
-  }
+  const connected = !!(accessToken && athleteId)
 
   try {
-    intervalsClient.setCredentials(accessToken, athleteId)
+    if (connected) {
+      intervalsClient.setCredentials(accessToken!, athleteId!)
+    }
 
     // Check if ID is a UUID (local DB) or intervals.icu activity ID
     // UUIDs have format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx
     // intervals.icu IDs have format: iXXXXXXXXX
-    let intervalsActivityId = id
     const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
 
+    // Serve from local data when the session is stored (works offline and for FIT uploads)
+    const localSession = await findLocalSession(id, isUuid)
+    if (localSession) {
+      return NextResponse.json(await buildLocalResponse(localSession, connected))
+    }
+
     if (isUuid) {
-      // Look up external_id from local sessions table
-      const supabase = await createClient()
-      if (supabase) {
-        const { data: session } = await supabase
-          .from('sessions')
-          .select('external_id')
-          .eq('id', id)
-          .single()
-
-        if (session?.external_id) {
-          intervalsActivityId = session.external_id
-        } else {
-          return NextResponse.json(
-            { error: 'Session not found in local database' },
-            { status: 404 }
-          )
-        }
-      }
+      return NextResponse.json(
+        { error: 'Session not found in local database' },
+        { status: 404 }
+      )
     }
 
+    if (!connected) {
+      return NextResponse.json(
+        { error: 'Not connected to intervals.icu' },
+        { status: 401 }
+      )
+    }
+
+    const intervalsActivityId = id
+
     // Fetch activity details from intervals.icu
     const activity = await intervalsClient.getActivity(intervalsActivityId)
 
     // Try to fetch streams (may fail for some activities)
-    let streams: { time?: number[]; watts?: number[]; heartrate?: number[]; cadence?: number[]; altitude?: number[]; velocity_smooth?: number[] } = {}
+    let streams: ChartStreams = {}
     try {
-      streams = await intervalsClient.getActivityStreams(intervalsActivityId, [
-        'time', 'watts', 'heartrate', 'cadence', 'altitude', 'velocity_smooth'
-      ])
+      streams = await intervalsClient.getActivityStreams(intervalsActivityId, [...CHART_STREAM_TYPES])
     } catch (streamError) {
       logger.warn('Could not fetch streams for activity:', intervalsActivityId, streamError)
       // Continue without streams - they're optional
@@ -82,26 +265,28 @@ export async function GET(
       // Wellness data might not exist for this date
     }
 
-    // Downsample streams for chart performance (every 10 seconds for rides > 30min)
-    const movingTime = activity.moving_time || 0
-    const downsampleInterval = movingTime > 1800 ? 10 : 5
-    const downsampledStreams = {
-      time: (streams.time || []).filter((_, i) => i % downsampleInterval === 0),
-      watts: (streams.watts || []).filter((_, i) => i % downsampleInterval === 0),
-      heartrate: (streams.heartrate || []).filter((_, i) => i % downsampleInterval === 0),
-      cadence: (streams.cadence || []).filter((_, i) => i % downsampleInterval === 0),
-      altitude: (streams.altitude || []).filter((_, i) => i % downsampleInterval === 0),
-      velocity_smooth: (streams.velocity_smooth || []).filter((_, i) => i % downsampleInterval === 0),
-    }
+    // W′bal needs the signed-in athlete's CP/W′
+    const supabase = await createClient()
+    const user = supabase ? (await supabase.auth.getUser()).data.user : null
+    const wPrimeBalance = await buildWPrimeBalanceStream(user?.id ?? null, activity.start_date_local, streams.watts)
 
-    // Transform zone times for easier chart consumption
-    const powerZones = activity.icu_zone_times?.map(z => ({
+    // Downsample streams for chart performance
+    const downsampledStreams = downsampleStreams(streams, activity.moving_time || 0, wPrimeBalance)
+
+    // Time in zones with the athlete's zone models, else intervals.icu's zone times
+    const sport = activity.type?.toLowerCase().includes('ride') ? 'cycling'
+      : activity.type?.toLowerCase().includes('run') ? 'running' : 'other'
+    const zones: SessionZoneDistribution = user
+      ? sessionZoneDistribution({ sport }, streams, await getZoneContext(user.id), activity.icu_ftp)
+      : {}
+
+    const powerZones = zones.power?.zones || activity.icu_zone_times?.map(z => ({
       zone: z.id,
       seconds: z.secs,
       minutes: Math.round(z.secs / 60),
     })) || []
 
-    const hrZones = activity.icu_hr_zone_times?.map((secs, i) => ({
+    const hrZones = zones.hr?.zones || activity.icu_hr_zone_times?.map((secs, i) => ({
       zone: `Z${i + 1}`,
       seconds: secs,
       minutes: Math.round(secs / 60),
@@ -138,14 +323,28 @@ export async function GET(
         interval_summary: activity.interval_summary,
       },
       streams: downsampledStreams,
+      intervals: streams.watts?.length
+        ? detectIntervals(
+          { watts: streams.watts, time: streams.time, heartrate: streams.heartrate, cadence: streams.cadence },
+          { ftp: activity.icu_ftp ?? null }
+        )
+        : [],
+      intervalComparison: null,
       powerZones,
       hrZones,
+      paceZones: zones.pace?.zones ?? [],
+      zoneModels: {
+        power: zones.power?.model ?? null,
+        hr: zones.hr?.model ?? null,
+        pace: zones.pace?.model ?? null,
+      },
       wellness: wellness ? {
         ctl: wellness.ctl,
         atl: wellness.atl,
         tsb: Math.round(wellness.ctl - wellness.atl),
         rampRate: wellness.rampRate,
       } : null,
+      source: 'intervals_icu',
     })
   } catch (error) {
     logger.error('Error fetching activity:', error)
@@ -155,3 +354,149 @@ export async function GET(
     )
   }
 }
+
+const EDITABLE_FIELDS = ['date', 'sport', 'workout_type', 'tss', 'rpe', 'notes', 'exclude_from_bests', 'excluded_ranges'] as const
+
+function isValidExcludedRanges(value: unknown): boolean {
+  return Array.isArray(value) && value.every(r =>
+    Number.isInteger(r?.start) && Number.isInteger(r?.end) && r.start >= 0 && r.end >= r.start
+  )
+}
+
+/**
+ * Keep the local PMC in line after a session changed (non-critical)
+ */
+async function recomputeFitnessAfterChange(athleteId: string, dates: string[]) {
+  try {
+    await handleSessionsChanged(athleteId, dates)
+  } catch (error) {
+    logger.error('[Sessions] Fitness recompute failed:', error)
+  }
+}
+
+/**
+ * PATCH /api/sessions/[id] - Edit a stored session
+ * { date?, sport?, workout_type?, tss?, rpe?, notes?, exclude_from_bests?, excluded_ranges? }
+ * A TSS entered by the athlete replaces the scored one; an RPE scores sessions
+ * that have no power or heart rate TSS. Excluding the session or sample ranges
+ * of it rebuilds the power bests it set.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const existing = await getSession(id)
+  if (!existing || existing.athlete_id !== user.id) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const updates: SessionUpdate = {}
+  for (const field of EDITABLE_FIELDS) {
+    if (field in body) {
+      (updates as Record<string, unknown>)[field] = body[field]
+    }
+  }
+  if (updates.tss != null && (typeof updates.tss !== 'number' || updates.tss < 0)) {
+    return NextResponse.json({ error: 'tss must be a non-negative number' }, { status: 400 })
+  }
+  if (updates.rpe != null && (!Number.isInteger(updates.rpe) || updates.rpe < 1 || updates.rpe > 10)) {
+    return NextResponse.json({ error: 'rpe must be an integer from 1 to 10' }, { status: 400 })
+  }
+  if (updates.date != null && isNaN(new Date(updates.date).getTime())) {
+    return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+  }
+  if (updates.exclude_from_bests != null && typeof updates.exclude_from_bests !== 'boolean') {
+    return NextResponse.json({ error: 'exclude_from_bests must be a boolean' }, { status: 400 })
+  }
+  if (updates.excluded_ranges != null && !isValidExcludedRanges(updates.excluded_ranges)) {
+    return NextResponse.json({ error: 'excluded_ranges must be a list of { start, end } sample ranges' }, { status: 400 })
+  }
+  if ('tss' in updates) {
+    updates.tss_method = null
+  }
+
+  let session = await updateSession(id, user.id, updates)
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to update session' }, { status: 500 })
+  }
+
+  // An RPE scores sessions without a power, HR or TRIMP based TSS
+  const rpeScored = !existing.tss || existing.tss_method === 'rpe' || existing.tss_method === 'external'
+  if ('rpe' in updates && !('tss' in updates) && rpeScored) {
+    try {
+      session = (await rescoreSession(session)) ?? session
+    } catch (error) {
+      logger.error('[Sessions] RPE rescoring failed:', error)
+    }
+  }
+
+  if ('exclude_from_bests' in updates || 'excluded_ranges' in updates) {
+    try {
+      await refreshSessionPowerBests(session)
+    } catch (error) {
+      logger.error('[Sessions] Power bests refresh failed:', error)
+    }
+  }
+
+  // TSS or date changes move the PMC from the earlier of the old and new date
+  if ('tss' in updates || 'date' in updates) {
+    await recomputeFitnessAfterChange(user.id, [existing.date, session.date])
+  }
+
+  return NextResponse.json(session)
+}
+
+/**
+ * DELETE /api/sessions/[id] - Delete a stored session
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const existing = await getSession(id)
+  if (!existing || existing.athlete_id !== user.id) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  const success = await deleteSession(id, user.id)
+  if (success) {
+    await recomputeFitnessAfterChange(user.id, [existing.date])
+  }
+
+  return NextResponse.json({ success })
+}
@@ -8,6 +8,7 @@ import {
   calculatePlanProgress,
   updateTrainingPlan,
 } from '@/lib/db/training-plans'
+import { scoreCompliance } from '@/lib/analysis/plan-compliance'
 
 interface RouteParams {
   params: Promise<{
@@ -94,14 +95,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       if (completed !== undefined) {
         updates.completed = completed
         if (completed) {
-          // Calculate compliance score if we have target and actual TSS
+          // Calculate compliance score if we have actual TSS or duration
           const day = await getPlanDay(dayId)
-          if (day?.target_tss && actualTss) {
-            updates.compliance_score = Math.min(
-              (actualTss / day.target_tss) * 100,
-              150 // Cap at 150%
-            ) / 100
-          }
+          const compliance = day && (actualTss !== undefined || actualDuration !== undefined)
+            ? scoreCompliance(day, {
+                durationMinutes: actualDuration ?? null,
+                tss: actualTss ?? null,
+                intensityFactor: null,
+              })
+            : null
+          if (compliance) updates.compliance_score = compliance.score
         }
       }
 
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getActivePlan, getPlanDaysWithEvents } from '@/lib/db/training-plans'
+import { getCurrentFitness } from '@/lib/db/fitness'
+import { getPmcSettings } from '@/lib/fitness/pmc-engine'
+import { projectFitness, type ProjectedFitness } from '@/lib/fitness/projector'
+import { getPerformanceProjectionInput } from '@/lib/analysis/performance-model'
+import { phaseBands, type PhaseBand, type SeasonBlock } from '@/lib/plans/season'
+import { formatDateForApi } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+
+export interface SeasonProjectionResponse {
+  plan: { id: string; name: string; startDate: string; endDate: string } | null
+  projections: ProjectedFitness[]
+  phases: PhaseBand[]
+  /** Template blocks of a season plan, empty for single-template plans */
+  blocks: SeasonBlock[]
+  events: Array<{ date: string; name: string; priority: string }>
+}
+
+/**
+ * GET /api/training-plans/season
+ *
+ * Fitness projection from today to the end of the active plan, with its
+ * phase bands, template blocks and every planned A/B/C event in range.
+ */
+export async function GET(): Promise<NextResponse> {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const plan = await getActivePlan(user.id)
+  if (!plan) {
+    return NextResponse.json({ plan: null, projections: [], phases: [], blocks: [], events: [] } satisfies SeasonProjectionResponse)
+  }
+
+  const today = formatDateForApi(new Date())
+  const [{ days, events }, fitness] = await Promise.all([
+    getPlanDaysWithEvents(plan.id, user.id),
+    getCurrentFitness(user.id),
+  ])
+
+  let timeConstants
+  let performance
+  try {
+    timeConstants = (await getPmcSettings(user.id)).timeConstants
+    performance = await getPerformanceProjectionInput(user.id, today)
+  } catch (error) {
+    logger.warn('[SeasonProjection] Projecting without athlete settings:', error)
+  }
+
+  const projections = projectFitness({
+    currentCtl: fitness?.ctl ?? 0,
+    currentAtl: fitness?.atl ?? 0,
+    currentDate: today,
+    plannedDays: days.filter(d => d.date >= today),
+    events,
+    timeConstants,
+    performance: performance ?? undefined,
+  })
+
+  const weeks = Array.isArray(plan.plan_data?.weeks) ? plan.plan_data.weeks : []
+  const blocks = Array.isArray(plan.plan_data?.blocks) ? plan.plan_data.blocks as SeasonBlock[] : []
+
+  return NextResponse.json({
+    plan: { id: plan.id, name: plan.name, startDate: plan.start_date, endDate: plan.end_date },
+    projections,
+    phases: phaseBands(weeks),
+    blocks,
+    events,
+  } satisfies SeasonProjectionResponse)
+}
@@ -0,0 +1,153 @@
+/**
+ * Archive Import API Endpoint
+ *
+ * POST /api/upload/archive - Start a bulk import from a Strava/Garmin export ZIP
+ * GET /api/upload/archive - Progress of the latest (or ?jobId=) import job
+ *
+ * The upload is streamed to a temporary file, so multi-GB exports are never
+ * held in memory. The import runs in the background, reads entries from that
+ * file and writes progress to import_jobs.
+ */
+
+import { createWriteStream } from 'fs'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isZipFile } from '@/lib/zip-reader'
+import { runArchiveImport } from '@/lib/sync/archive-import'
+import { createImportJob, getImportJob, getLatestImportJob } from '@/lib/db/import-jobs'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/upload/archive - Check import progress
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const jobId = new URL(request.url).searchParams.get('jobId')
+  const job = jobId ? await getImportJob(jobId) : await getLatestImportJob(user.id)
+
+  if (job && job.athlete_id !== user.id) {
+    return NextResponse.json({ job: null })
+  }
+
+  return NextResponse.json({ job })
+}
+
+/**
+ * Write the request body to a new temporary directory, returning the file path
+ */
+async function saveUpload(body: ReadableStream<Uint8Array>): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'archive-import-'))
+  const path = join(dir, 'export.zip')
+  try {
+    await pipeline(Readable.fromWeb(body as WebReadableStream<Uint8Array>), createWriteStream(path))
+  } catch (error) {
+    await removeUpload(path)
+    throw error
+  }
+  return path
+}
+
+async function removeUpload(path: string) {
+  await rm(dirname(path), { recursive: true, force: true }).catch(error => {
+    logger.error('[ArchiveImport] Failed to remove upload:', error)
+  })
+}
+
+/**
+ * POST /api/upload/archive?filename=export.zip - Start a bulk archive import
+ *
+ * Body: the export ZIP itself (application/zip), streamed to disk
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  if (!request.body) {
+    return NextResponse.json(
+      { error: 'No file provided' },
+      { status: 400 }
+    )
+  }
+
+  // Only one import at a time per athlete
+  const latest = await getLatestImportJob(user.id)
+  if (latest && ['pending', 'running', 'rebuilding'].includes(latest.status)) {
+    return NextResponse.json(
+      { error: 'An import is already in progress', job: latest },
+      { status: 409 }
+    )
+  }
+
+  let archivePath: string | null = null
+  try {
+    archivePath = await saveUpload(request.body)
+    if (!isZipFile(archivePath)) {
+      await removeUpload(archivePath)
+      return NextResponse.json(
+        { error: 'Please upload the export as a .zip file' },
+        { status: 400 }
+      )
+    }
+
+    const fileName = new URL(request.url).searchParams.get('filename') || 'export.zip'
+    const job = await createImportJob(user.id, fileName)
+    if (!job) {
+      await removeUpload(archivePath)
+      return NextResponse.json(
+        { error: 'Failed to create import job' },
+        { status: 500 }
+      )
+    }
+
+    // Run the import in the background (fire-and-forget); clients poll GET for progress
+    const path = archivePath
+    runArchiveImport(job.id, user.id, path)
+      .catch(error => {
+        logger.error('[ArchiveImport] Background import failed:', error)
+      })
+      .finally(() => removeUpload(path))
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    if (archivePath) await removeUpload(archivePath)
+    logger.error('Archive import error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start import' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,35 @@
 import { NextResponse } from 'next/server'
-import { parseFitFile, calculateTSS, calculateIF } from '@/lib/fit-parser'
+import { createClient } from '@/lib/supabase/server'
+import { parseActivityFile, detectActivityFormat } from '@/lib/activity-parser'
+import { importFitSession } from '@/lib/sync/fit-upload'
+import { getSession } from '@/lib/db/sessions'
+import { generateSessionReports } from '@/lib/reports/report-generator'
+import { detectFtpChange } from '@/lib/fitness/ftp-detector'
+import { handleSessionsChanged } from '@/lib/fitness/pmc-engine'
+import { matchPlanCompliance } from '@/lib/fitness/plan-compliance-engine'
 import { logger } from '@/lib/logger'
 
 export async function POST(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  // Get authenticated user
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
-    const ftpStr = formData.get('ftp') as string
-    const ftp = parseInt(ftpStr) || 250 // Default FTP if not provided
 
     if (!file) {
       return NextResponse.json(
@@ -16,53 +38,95 @@ export async function POST(request: Request) {
       )
     }
 
-    // Parse the FIT file
+    // Detect format (FIT, TCX or GPX) and parse
     const buffer = await file.arrayBuffer()
-    const fitData = await parseFitFile(buffer)
+    if (!detectActivityFormat(file.name, buffer)) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a .FIT, .TCX or .GPX file' },
+        { status: 400 }
+      )
+    }
+    const { format, data: fitData } = await parseActivityFile(file.name, buffer)
+
+    // Store as sessions (uses the athlete's stored FTP for TSS/IF/zones).
+    // Multi-session files such as brick workouts become one session per part.
+    const parts = fitData.sessions ?? [fitData]
+    const results = []
+    for (const part of parts) {
+      results.push(await importFitSession(user.id, part, file.name, format))
+    }
 
-    // Calculate training metrics
-    const normalizedPower = fitData.normalized_power || fitData.avg_power || 0
-    const tss = calculateTSS(normalizedPower, fitData.duration_seconds, ftp)
-    const intensityFactor = calculateIF(normalizedPower, ftp)
+    const stored = results.filter(r => r.sessionId)
+    if (stored.length === 0) {
+      return NextResponse.json(
+        { error: results[0]?.errors[0] || 'Failed to store session' },
+        { status: 500 }
+      )
+    }
 
-    // Determine workout type based on IF
-    let workoutType = 'endurance'
-    if (intensityFactor >= 1.05) workoutType = 'vo2max'
-    else if (intensityFactor >= 0.95) workoutType = 'threshold'
-    else if (intensityFactor >= 0.85) workoutType = 'sweetspot'
-    else if (intensityFactor >= 0.75) workoutType = 'tempo'
-    else if (intensityFactor < 0.65) workoutType = 'recovery'
+    // Generate session reports for new sessions (fire-and-forget)
+    const newSessionIds = stored.filter(r => r.isNew).map(r => r.sessionId!)
+    if (newSessionIds.length > 0) {
+      generateSessionReports(user.id, newSessionIds)
+        .then(reportResult => {
+          if (reportResult.reports_created > 0) {
+            logger.info(`[Upload] Generated ${reportResult.reports_created} session report(s) for ${file.name}`)
+          }
+          if (reportResult.errors.length > 0) {
+            logger.warn('[Upload] Session report errors:', reportResult.errors)
+          }
+        })
+        .catch(error => {
+          logger.error('[Upload] Failed to generate session report:', error)
+        })
+
+      // Check whether the upload moves the estimated FTP (fire-and-forget)
+      detectFtpChange(user.id, newSessionIds)
+        .then(proposal => {
+          if (proposal) {
+            logger.info(`[Upload] Created FTP change proposal: ${proposal.proposed_ftp}W (${proposal.method})`)
+          }
+        })
+        .catch(error => {
+          logger.error('[Upload] FTP detection failed:', error)
+        })
+    }
+
+    const sessions = (await Promise.all(stored.map(r => getSession(r.sessionId!))))
+      .filter(s => s !== null)
+
+    // Bring the local PMC up to date from the earliest uploaded session
+    try {
+      await handleSessionsChanged(user.id, sessions.map(s => s.date))
+    } catch (error) {
+      logger.error('[Upload] Fitness recompute failed:', error)
+    }
 
-    // Build session object
-    const session = {
-      id: 'upload-' + Date.now(),
-      athlete_id: 'local',
-      date: fitData.date,
-      duration_seconds: fitData.duration_seconds,
-      distance_meters: fitData.distance_meters,
-      sport: 'cycling',
-      workout_type: workoutType,
-      avg_power: fitData.avg_power,
-      normalized_power: normalizedPower,
-      max_power: fitData.max_power,
-      tss,
-      intensity_factor: intensityFactor,
-      avg_hr: fitData.avg_hr,
-      max_hr: fitData.max_hr,
-      avg_cadence: fitData.avg_cadence,
-      total_ascent: fitData.total_ascent,
-      source: 'fit_upload',
+    // Complete the plan day the upload fulfils
+    try {
+      const earliest = sessions.map(s => s.date.split('T')[0]).sort()[0]
+      if (earliest) await matchPlanCompliance(user.id, earliest)
+    } catch (error) {
+      logger.error('[Upload] Plan compliance matching failed:', error)
     }
+    const totalTss = stored.reduce((sum, r) => sum + r.tss, 0)
+    const isNew = stored.some(r => r.isNew)
 
     return NextResponse.json({
       success: true,
-      session,
-      message: 'Parsed ' + file.name + ': ' + Math.round(fitData.duration_seconds / 60) + ' min, ' + tss + ' TSS',
+      session: sessions[0] ?? null,
+      sessions,
+      isNew,
+      powerBestsUpdated: stored.reduce((sum, r) => sum + r.powerBestsUpdated, 0),
+      errors: results.flatMap(r => r.errors),
+      message: (isNew ? 'Imported ' : 'Updated ') + file.name + ': ' +
+        (parts.length > 1 ? parts.length + ' sessions, ' : '') +
+        Math.round(fitData.duration_seconds / 60) + ' min, ' + totalTss + ' TSS',
     })
   } catch (error) {
-    logger.error('FIT file parse error:', error)
+    logger.error('Activity file parse error:', error)
     return NextResponse.json(
-      { error: 'Failed to parse FIT file' },
+      { error: 'Failed to parse activity file' },
       { status: 500 }
     )
   }
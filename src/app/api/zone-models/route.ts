@@ -0,0 +1,195 @@
+/**
+ * Zone Models API Endpoint
+ *
+ * GET /api/zone-models - The athlete's zone models, the active model per metric and the presets
+ * POST /api/zone-models - Create a model { metric, name, basis, threshold?, zones, activate? }
+ * PATCH /api/zone-models - Update or activate a model
+ *   { action: 'update', modelId, name?, basis?, threshold?, zones? }
+ *   { action: 'activate', metric, modelId } (modelId null = back to the default)
+ * DELETE /api/zone-models?id=xxx - Delete a model
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getZoneModels,
+  getActiveZoneModels,
+  createZoneModel,
+  updateZoneModel,
+  deleteZoneModel,
+  setActiveZoneModel,
+} from '@/lib/db/zone-models'
+import {
+  ZONE_MODEL_PRESETS,
+  validateZoneModel,
+  type ZoneMetric,
+  type ZoneModelDefinition,
+} from '@/lib/analysis/zones'
+
+const METRICS: ZoneMetric[] = ['power', 'hr', 'pace']
+
+function parseDefinition(body: Record<string, unknown>): ZoneModelDefinition {
+  return {
+    metric: body.metric as ZoneMetric,
+    name: typeof body.name === 'string' ? body.name.trim() : '',
+    basis: (body.basis as ZoneModelDefinition['basis']) ?? 'threshold',
+    threshold: body.threshold != null && body.threshold !== '' ? Number(body.threshold) : null,
+    zones: Array.isArray(body.zones)
+      ? (body.zones as Record<string, unknown>[]).map(zone => ({
+        name: String(zone.name ?? '').trim(),
+        min: Number(zone.min),
+        ...(typeof zone.color === 'string' ? { color: zone.color } : {}),
+      }))
+      : [],
+  }
+}
+
+export async function GET() {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const [models, active] = await Promise.all([
+    getZoneModels(user.id),
+    getActiveZoneModels(user.id),
+  ])
+
+  return NextResponse.json({ models, active, presets: ZONE_MODEL_PRESETS })
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json()
+  const definition = parseDefinition(body)
+  const invalid = validateZoneModel(definition)
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 })
+  }
+
+  const model = await createZoneModel({ athlete_id: user.id, ...definition })
+  if (!model) {
+    return NextResponse.json({ error: 'Failed to create zone model' }, { status: 500 })
+  }
+
+  if (body.activate === true) {
+    await setActiveZoneModel(user.id, model.metric, model.id)
+    model.is_active = true
+  }
+
+  return NextResponse.json(model)
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json()
+  const { action, modelId } = body
+
+  if (action === 'activate') {
+    if (!METRICS.includes(body.metric)) {
+      return NextResponse.json({ error: 'metric must be power, hr or pace' }, { status: 400 })
+    }
+    const success = await setActiveZoneModel(user.id, body.metric, modelId ?? null)
+    return NextResponse.json({ success })
+  }
+
+  if (action === 'update') {
+    if (!modelId) {
+      return NextResponse.json({ error: 'modelId is required' }, { status: 400 })
+    }
+
+    const existing = (await getZoneModels(user.id)).find(m => m.id === modelId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Zone model not found' }, { status: 404 })
+    }
+
+    const definition = parseDefinition({ ...existing, ...body, metric: existing.metric })
+    const invalid = validateZoneModel(definition)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const model = await updateZoneModel(modelId, user.id, {
+      name: definition.name,
+      basis: definition.basis,
+      threshold: definition.threshold ?? null,
+      zones: definition.zones,
+    })
+    if (!model) {
+      return NextResponse.json({ error: 'Failed to update zone model' }, { status: 500 })
+    }
+    return NextResponse.json(model)
+  }
+
+  return NextResponse.json(
+    { error: 'Invalid action' },
+    { status: 400 }
+  )
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    )
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    )
+  }
+
+  const id = new URL(request.url).searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  const success = await deleteZoneModel(id, user.id)
+  return NextResponse.json({ success })
+}
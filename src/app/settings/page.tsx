@@ -7,9 +7,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useUser } from '@/hooks/use-user'
 import { useTheme } from 'next-themes'
 import { Check, Loader2, Link2, Unlink, Sun, Moon, Monitor, GlassWater, RefreshCw, Database, Clock, Scale, Trophy } from 'lucide-react'
+import { ZoneModelsEditor } from '@/components/athlete/zone-models-editor'
+import { PlanTemplatesEditor } from '@/components/training/plan-templates-editor'
+import { formatPace, parsePace } from '@/lib/analysis/zones'
 import { logger } from '@/lib/logger'
 
 interface AthleteProfile {
@@ -19,7 +23,13 @@ interface AthleteProfile {
   max_hr: number
   lthr: number
   resting_hr: number | null
+  /** Seconds per km */
+  threshold_pace: number | null
+  running_ftp: number | null
   weekly_hours_available: number
+  ctl_time_constant: number
+  atl_time_constant: number
+  fitness_source: 'intervals_icu' | 'local' | null
 }
 
 interface SyncStatus {
@@ -73,6 +83,8 @@ function SettingsContent() {
   const [zwiftUsername, setZwiftUsername] = useState('')
   const [zwiftPassword, setZwiftPassword] = useState('')
 
+  const [thresholdPaceText, setThresholdPaceText] = useState('')
+
   const [profile, setProfile] = useState<AthleteProfile>({
     name: '',
     ftp: 200,
@@ -80,7 +92,12 @@ function SettingsContent() {
     max_hr: 190,
     lthr: 165,
     resting_hr: null,
+    threshold_pace: null,
+    running_ftp: null,
     weekly_hours_available: 10,
+    ctl_time_constant: 42,
+    atl_time_constant: 7,
+    fitness_source: null,
   })
 
   // Load profile from database
@@ -101,8 +118,14 @@ function SettingsContent() {
           max_hr: data.max_hr || 190,
           lthr: data.lthr || 165,
           resting_hr: data.resting_hr ?? null,
+          threshold_pace: data.threshold_pace ?? null,
+          running_ftp: data.running_ftp ?? null,
           weekly_hours_available: data.weekly_hours_available || 10,
+          ctl_time_constant: data.ctl_time_constant || 42,
+          atl_time_constant: data.atl_time_constant || 7,
+          fitness_source: data.fitness_source ?? null,
         })
+        setThresholdPaceText(data.threshold_pace ? formatPace(data.threshold_pace) : '')
       }
     } catch (error) {
       logger.error('Failed to load profile:', error)
@@ -406,6 +429,7 @@ function SettingsContent() {
           <TabsList>
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
+            <TabsTrigger value="plans">Plans</TabsTrigger>
             <TabsTrigger value="appearance">Appearance</TabsTrigger>
             <TabsTrigger value="account">Account</TabsTrigger>
           </TabsList>
@@ -526,6 +550,103 @@ function SettingsContent() {
                   </div>
                 </div>
 
+                <div className="border-t pt-6">
+                  <h3 className="text-sm font-medium mb-4">Running</h3>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="threshold_pace">Threshold Pace</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="threshold_pace"
+                          value={thresholdPaceText}
+                          onChange={(e) => {
+                            setThresholdPaceText(e.target.value)
+                            setProfile({ ...profile, threshold_pace: e.target.value ? parsePace(e.target.value) : null })
+                          }}
+                          placeholder="e.g. 4:15"
+                        />
+                        <span className="text-sm text-muted-foreground">/km</span>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="running_ftp">Running FTP</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="running_ftp"
+                          type="number"
+                          value={profile.running_ftp || ''}
+                          onChange={(e) => setProfile({ ...profile, running_ftp: e.target.value ? parseInt(e.target.value) : null })}
+                          placeholder="Optional"
+                        />
+                        <span className="text-sm text-muted-foreground">W</span>
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Threshold pace sets pace zones and rTSS for runs. Running FTP is only needed with a running power meter.
+                  </p>
+                </div>
+
+                <div className="border-t pt-6">
+                  <h3 className="text-sm font-medium mb-1">Training Load</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Time constants of the fitness (CTL) and fatigue (ATL) averages, and where they are calculated
+                  </p>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="ctl_time_constant">Fitness (CTL)</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="ctl_time_constant"
+                          type="number"
+                          min={14}
+                          max={90}
+                          value={profile.ctl_time_constant}
+                          onChange={(e) => setProfile({ ...profile, ctl_time_constant: parseInt(e.target.value) || 0 })}
+                        />
+                        <span className="text-sm text-muted-foreground">days</span>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="atl_time_constant">Fatigue (ATL)</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="atl_time_constant"
+                          type="number"
+                          min={3}
+                          max={21}
+                          value={profile.atl_time_constant}
+                          onChange={(e) => setProfile({ ...profile, atl_time_constant: parseInt(e.target.value) || 0 })}
+                        />
+                        <span className="text-sm text-muted-foreground">days</span>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fitness_source">Calculated by</Label>
+                      <Select
+                        value={profile.fitness_source ?? 'auto'}
+                        onValueChange={(value) => setProfile({
+                          ...profile,
+                          fitness_source: value === 'auto' ? null : value as 'intervals_icu' | 'local',
+                        })}
+                      >
+                        <SelectTrigger id="fitness_source">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Automatic</SelectItem>
+                          <SelectItem value="intervals_icu">intervals.icu</SelectItem>
+                          <SelectItem value="local">Local sessions</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Automatic uses intervals.icu when connected. Local sessions recalculates your history
+                    with these time constants; intervals.icu uses its own settings.
+                  </p>
+                </div>
+
                 <div className="flex justify-end pt-4">
                   <Button onClick={handleSave} disabled={loading || !user}>
                     {loading ? (
@@ -552,6 +673,8 @@ function SettingsContent() {
                 )}
               </CardContent>
             </Card>
+
+            {user && <ZoneModelsEditor />}
           </TabsContent>
 
           {/* Integrations Tab */}
@@ -997,6 +1120,24 @@ function SettingsContent() {
             </Card>
           </TabsContent>
 
+          {/* Plans Tab */}
+          <TabsContent value="plans" className="space-y-6">
+            {user ? (
+              <PlanTemplatesEditor />
+            ) : (
+              <Card>
+                <CardContent className="py-8 text-center">
+                  <p className="text-muted-foreground mb-4">
+                    Sign in to create and share plan templates
+                  </p>
+                  <Button onClick={() => router.push('/login')}>
+                    Sign In
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           {/* Account Tab */}
           <TabsContent value="account" className="space-y-6">
             <Card>
@@ -8,6 +8,18 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { StreamChart } from '@/components/workouts/stream-chart'
 import { ZoneBarChart } from '@/components/workouts/zone-bar'
+import { ClimbsCard } from '@/components/workouts/climbs-card'
+import { DataQualityCard, type SessionDataQuality } from '@/components/workouts/data-quality-card'
+import type { RankedClimbEffort } from '@/lib/db/climbs'
+import type { GradientBin } from '@/lib/analysis/climbs'
+
+interface ZoneTimeData {
+  zone: string
+  seconds: number
+  minutes: number
+  name?: string
+  color?: string
+}
 
 interface WorkoutData {
   activity: {
@@ -40,8 +52,14 @@ interface WorkoutData {
     heartrate: number[]
     cadence: number[]
   }
-  powerZones: { zone: string; seconds: number; minutes: number }[]
-  hrZones: { zone: string; seconds: number; minutes: number }[]
+  powerZones: ZoneTimeData[]
+  hrZones: ZoneTimeData[]
+  paceZones?: ZoneTimeData[]
+  zoneModels?: { power: string | null; hr: string | null; pace: string | null }
+  climbs?: RankedClimbEffort[]
+  gradientBins?: GradientBin[]
+  /** Local sessions only */
+  dataQuality?: SessionDataQuality
   wellness: {
     ctl: number
     atl: number
@@ -175,7 +193,7 @@ export default function WorkoutDetailPage() {
     )
   }
 
-  const { activity, streams, powerZones, hrZones, wellness } = data
+  const { activity, streams, powerZones, hrZones, paceZones = [], zoneModels, climbs = [], gradientBins = [], dataQuality, wellness } = data
 
   // Prepare stream data for charts
   const powerData = streams.time?.map((time, i) => ({
@@ -262,6 +280,7 @@ export default function WorkoutDetailPage() {
                 title="Power Zones"
                 data={powerZones}
                 colorScheme="power"
+                modelName={zoneModels?.power}
               />
             )}
             {hrZones.length > 0 && (
@@ -269,10 +288,36 @@ export default function WorkoutDetailPage() {
                 title="Heart Rate Zones"
                 data={hrZones}
                 colorScheme="hr"
+                modelName={zoneModels?.hr}
+              />
+            )}
+            {paceZones.length > 0 && (
+              <ZoneBarChart
+                title="Pace Zones"
+                data={paceZones}
+                modelName={zoneModels?.pace}
+              />
+            )}
+            {gradientBins.some(b => b.min !== null && b.min >= 2 && b.seconds > 0) && (
+              <ZoneBarChart
+                title="Time by Gradient"
+                data={gradientBins.map(b => ({ zone: b.label, seconds: b.seconds, minutes: Math.round(b.seconds / 60) }))}
               />
             )}
           </div>
 
+          {/* Climbs */}
+          <ClimbsCard climbs={climbs} sessionId={activity.id} />
+
+          {/* Data quality and power bests exclusions */}
+          {dataQuality && (
+            <DataQualityCard
+              sessionId={activity.id}
+              dataQuality={dataQuality}
+              hasPower={!!activity.avg_power || streams.watts.length > 0}
+            />
+          )}
+
           {/* Interval Summary */}
           {activity.interval_summary && activity.interval_summary.length > 0 && (
             <Card className="p-4">
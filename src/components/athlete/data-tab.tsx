@@ -3,7 +3,7 @@
 /**
  * Athlete Data Tab
  *
- * Detailed reference data: Power profile, fitness history, recovery metrics, events/goals.
+ * Detailed reference data: Power profile, fitness history, aerobic durability, recovery metrics, events/goals.
  * Uses collapsible sections for organization.
  */
 
@@ -23,14 +23,17 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Skeleton } from '@/components/ui/skeleton'
-import { ChevronDown, Zap, Activity, Moon, Calendar } from 'lucide-react'
+import { ChevronDown, Zap, Activity, HeartPulse, Moon, Calendar } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 // Power components
 import { PowerCurveChart } from '@/components/power/power-curve-chart'
+import { PowerCurveComparisonChart } from '@/components/power/power-curve-comparison-chart'
 import { RiderProfileCard } from '@/components/power/rider-profile-card'
 import { PowerBestsTable } from '@/components/power/power-bests-table'
+import { CriticalPowerCard } from '@/components/power/critical-power-card'
 import { usePowerCurve } from '@/hooks/use-power-curve'
+import { useCriticalPower } from '@/hooks/use-critical-power'
 
 // Recovery components
 import { useRecoveryData } from '@/hooks/use-recovery-data'
@@ -51,6 +54,8 @@ import {
   ChartTooltipContent,
   type ChartConfig,
 } from '@/components/ui/chart'
+import { DURABILITY_WORK_THRESHOLDS_KJ } from '@/lib/analysis/durability'
+import type { AerobicTrendsResponse } from '@/app/api/athlete/aerobic-trends/route'
 import { logger } from '@/lib/logger'
 
 // PMC/History chart config
@@ -65,6 +70,19 @@ const sleepChartConfig = {
   sleepScore: { label: 'Sleep Score', color: 'hsl(142, 71%, 45%)' },
 } satisfies ChartConfig
 
+const efficiencyChartConfig = {
+  efficiencyFactor: { label: 'Efficiency Factor', color: 'hsl(221, 83%, 53%)' },
+  decoupling: { label: 'Decoupling (%)', color: 'hsl(24, 95%, 53%)' },
+} satisfies ChartConfig
+
+const durabilityChartConfig = {
+  best5min: { label: '5min power (W)', color: 'hsl(0, 84%, 60%)' },
+  best20min: { label: '20min power (W)', color: 'hsl(262, 83%, 58%)' },
+} satisfies ChartConfig
+
+// Pw:HR decoupling under 5% on a long ride means the aerobic base is holding
+const DECOUPLING_THRESHOLD = 5
+
 const TIME_RANGES = [
   { value: '6w', label: '6 Weeks', days: 42 },
   { value: '3m', label: '3 Months', days: 90 },
@@ -83,6 +101,7 @@ export function AthleteDataTab() {
   const [openSections, setOpenSections] = useState<Record<string, boolean>>({
     power: true,
     history: false,
+    durability: false,
     recovery: false,
     events: false,
   })
@@ -137,6 +156,28 @@ export function AthleteDataTab() {
         </Card>
       </Collapsible>
 
+      {/* Aerobic Durability Section */}
+      <Collapsible open={openSections.durability} onOpenChange={() => toggleSection('durability')}>
+        <Card>
+          <CollapsibleTrigger asChild>
+            <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <HeartPulse className="h-5 w-5 text-red-500" />
+                  <CardTitle>Aerobic Durability</CardTitle>
+                </div>
+                <ChevronDown className={cn('h-5 w-5 transition-transform', openSections.durability && 'rotate-180')} />
+              </div>
+            </CardHeader>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <CardContent>
+              <DurabilitySection />
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
       {/* Recovery Section */}
       <Collapsible open={openSections.recovery} onOpenChange={() => toggleSection('recovery')}>
         <Card>
@@ -186,6 +227,8 @@ export function AthleteDataTab() {
 
 function PowerSection() {
   const { powerCurve, riderProfile, weightKg, ftp, loading, error, refresh } = usePowerCurve()
+  const [cpDays, setCpDays] = useState(90)
+  const criticalPower = useCriticalPower(cpDays)
 
   if (loading) {
     return <Skeleton className="h-[400px] w-full" />
@@ -203,10 +246,18 @@ function PowerSection() {
   return (
     <div className="space-y-6">
       <PowerCurveChart powerCurve={powerCurve} weightKg={weightKg} ftp={ftp} />
+      <PowerCurveComparisonChart />
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <RiderProfileCard profile={riderProfile} weightKg={weightKg} ftp={ftp} />
         <PowerBestsTable powerCurve={powerCurve} />
       </div>
+      <CriticalPowerCard
+        data={criticalPower.data}
+        loading={criticalPower.loading}
+        days={cpDays}
+        onDaysChange={setCpDays}
+        onSave={criticalPower.save}
+      />
     </div>
   )
 }
@@ -278,6 +329,141 @@ function HistorySection() {
   )
 }
 
+function DurabilitySection() {
+  const [timeRange, setTimeRange] = useState('6m')
+  const [afterKj, setAfterKj] = useState(String(DURABILITY_WORK_THRESHOLDS_KJ[1]))
+  const [sessions, setSessions] = useState<AerobicTrendsResponse['sessions']>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const days = TIME_RANGES.find(r => r.value === timeRange)?.days || 180
+      const res = await fetch(`/api/athlete/aerobic-trends?days=${days}`)
+      if (res.ok) {
+        const data: AerobicTrendsResponse = await res.json()
+        setSessions(data.sessions || [])
+      }
+    } catch (error) {
+      logger.error('Failed to load aerobic trends:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [timeRange])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const efficiencyData = sessions
+    .filter(s => s.efficiency_factor !== null)
+    .map(s => ({ date: s.date, efficiencyFactor: s.efficiency_factor, decoupling: s.decoupling }))
+
+  const durabilityData = sessions.flatMap(s => {
+    const point = s.durability.find(p => p.after_kj === Number(afterKj))
+    return point ? [{ date: s.date, best5min: point.best_5min, best20min: point.best_20min }] : []
+  })
+
+  const latestEf = efficiencyData[efficiencyData.length - 1]?.efficiencyFactor ?? null
+  const decouplings = sessions.map(s => s.decoupling).filter((d): d is number => d !== null)
+  const avgDecoupling = decouplings.length > 0
+    ? Math.round(decouplings.reduce((a, b) => a + b, 0) / decouplings.length * 10) / 10
+    : null
+  const best20 = Math.max(0, ...durabilityData.map(d => d.best20min ?? 0)) || null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-2">
+        <Select value={afterKj} onValueChange={setAfterKj}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURABILITY_WORK_THRESHOLDS_KJ.map((kj) => (
+              <SelectItem key={kj} value={String(kj)}>
+                After {kj} kJ
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={timeRange} onValueChange={setTimeRange}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_RANGES.map((range) => (
+              <SelectItem key={range.value} value={range.value}>
+                {range.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Current metrics */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="p-4 rounded-lg border text-center">
+          <div className="text-xs text-muted-foreground uppercase mb-1">Latest EF</div>
+          <div className="text-2xl font-semibold">{latestEf?.toFixed(2) ?? '—'}</div>
+        </div>
+        <div className="p-4 rounded-lg border text-center">
+          <div className="text-xs text-muted-foreground uppercase mb-1">Avg Decoupling</div>
+          <div className="text-2xl font-semibold">{avgDecoupling !== null ? `${avgDecoupling}%` : '—'}</div>
+        </div>
+        <div className="p-4 rounded-lg border text-center">
+          <div className="text-xs text-muted-foreground uppercase mb-1">Best 20min after {afterKj} kJ</div>
+          <div className="text-2xl font-semibold">{best20 ? `${best20} W` : '—'}</div>
+        </div>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[460px] w-full" />
+      ) : sessions.length > 0 ? (
+        <>
+          <div>
+            <h4 className="text-sm font-medium mb-2">Efficiency & Decoupling</h4>
+            <ChartContainer config={efficiencyChartConfig} className="h-[200px] w-full">
+              <ComposedChart data={efficiencyData} margin={{ left: 12, right: 12, top: 12, bottom: 12 }}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis yAxisId="ef" tickLine={false} axisLine={false} tickMargin={8} domain={['auto', 'auto']} />
+                <YAxis yAxisId="decoupling" orientation="right" tickLine={false} axisLine={false} tickMargin={8} />
+                <ReferenceLine yAxisId="decoupling" y={DECOUPLING_THRESHOLD} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                <Bar yAxisId="decoupling" dataKey="decoupling" fill="var(--color-decoupling)" radius={[4, 4, 0, 0]} fillOpacity={0.5} />
+                <Line yAxisId="ef" dataKey="efficiencyFactor" type="monotone" stroke="var(--color-efficiencyFactor)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-2">Best Power After {afterKj} kJ</h4>
+            {durabilityData.length > 0 ? (
+              <ChartContainer config={durabilityChartConfig} className="h-[200px] w-full">
+                <ComposedChart data={durabilityData} margin={{ left: 12, right: 12, top: 12, bottom: 12 }}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis tickLine={false} axisLine={false} tickMargin={8} domain={['auto', 'auto']} />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dot" />} />
+                  <Line dataKey="best5min" type="monotone" stroke="var(--color-best5min)" strokeWidth={2} connectNulls />
+                  <Line dataKey="best20min" type="monotone" stroke="var(--color-best20min)" strokeWidth={2} connectNulls />
+                </ComposedChart>
+              </ChartContainer>
+            ) : (
+              <div className="flex items-center justify-center h-[200px] text-sm text-muted-foreground">
+                No rides reached {afterKj} kJ in this period
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+          No rides with power and heart rate streams
+        </div>
+      )}
+    </div>
+  )
+}
+
 function RecoverySection() {
   const { loading, data, chartData, timeRange, setTimeRange, TIME_RANGES } = useRecoveryData()
 
@@ -0,0 +1,408 @@
+'use client'
+
+/**
+ * Zone Models Editor
+ *
+ * Settings card for per-athlete power, HR and pace zone models: pick the
+ * active model per metric, start from a preset (Coggan, Seiler, Friel) and
+ * edit zone names and boundaries.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plus, Trash2, Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { ZoneModel } from '@/lib/db/zone-models'
+import {
+  describeZoneRange,
+  formatPace,
+  parsePace,
+  validateZoneModel,
+  zoneColor,
+  type ZoneMetric,
+  type ZoneModelDefinition,
+} from '@/lib/analysis/zones'
+import { logger } from '@/lib/logger'
+
+const METRIC_LABELS: Record<ZoneMetric, string> = {
+  power: 'Power',
+  hr: 'Heart Rate',
+  pace: 'Running Pace',
+}
+
+const THRESHOLD_HINTS: Record<ZoneMetric, string> = {
+  power: 'W — leave empty to use your FTP',
+  hr: 'bpm — leave empty to use your LTHR',
+  pace: 'min/km threshold pace, e.g. 4:15',
+}
+
+const DEFAULT_ID = 'default'
+
+interface Draft {
+  id?: string
+  definition: ZoneModelDefinition
+  /** Threshold as typed (pace is entered as m:ss) */
+  thresholdInput: string
+}
+
+function toDraft(definition: ZoneModelDefinition, id?: string): Draft {
+  const threshold = definition.threshold
+  return {
+    id,
+    definition: { ...definition, zones: definition.zones.map(z => ({ ...z })) },
+    thresholdInput: threshold
+      ? definition.metric === 'pace' ? formatPace(threshold) : String(threshold)
+      : '',
+  }
+}
+
+export function ZoneModelsEditor() {
+  const [models, setModels] = useState<ZoneModel[]>([])
+  const [active, setActive] = useState<Record<ZoneMetric, ZoneModelDefinition & { id?: string }> | null>(null)
+  const [presets, setPresets] = useState<Record<string, ZoneModelDefinition>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchModels = useCallback(async () => {
+    try {
+      const res = await fetch('/api/zone-models')
+      if (!res.ok) return
+      const data = await res.json()
+      setModels(data.models)
+      setActive(data.active)
+      setPresets(data.presets)
+    } catch (err) {
+      logger.error('Failed to load zone models:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchModels()
+  }, [fetchModels])
+
+  const activate = async (metric: ZoneMetric, value: string) => {
+    setError(null)
+    try {
+      const res = await fetch('/api/zone-models', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'activate', metric, modelId: value === DEFAULT_ID ? null : value }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to change zone model')
+        return
+      }
+      await fetchModels()
+    } catch (err) {
+      logger.error('Zone model activation failed:', err)
+      setError('Network error')
+    }
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    const threshold = draft.thresholdInput.trim()
+      ? draft.definition.metric === 'pace' ? parsePace(draft.thresholdInput) : Number(draft.thresholdInput)
+      : null
+    const definition = {
+      ...draft.definition,
+      threshold: draft.definition.basis === 'absolute' ? null : threshold,
+    }
+
+    const invalid = validateZoneModel(definition)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/zone-models', {
+        method: draft.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft.id
+          ? { action: 'update', modelId: draft.id, ...definition }
+          : { ...definition, activate: true }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to save zone model')
+        return
+      }
+      setDraft(null)
+      await fetchModels()
+    } catch (err) {
+      logger.error('Zone model save failed:', err)
+      setError('Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteModel = async (id: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/zone-models?id=${id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        setError('Failed to delete zone model')
+        return
+      }
+      setDraft(null)
+      await fetchModels()
+    } catch (err) {
+      logger.error('Zone model delete failed:', err)
+      setError('Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateDraft = (changes: Partial<ZoneModelDefinition>) => {
+    setDraft(d => d && { ...d, definition: { ...d.definition, ...changes } })
+  }
+
+  const updateZone = (index: number, changes: { name?: string; min?: number }) => {
+    setDraft(d => d && {
+      ...d,
+      definition: {
+        ...d.definition,
+        zones: d.definition.zones.map((zone, i) => i === index ? { ...zone, ...changes } : zone),
+      },
+    })
+  }
+
+  const addZone = () => {
+    if (!draft) return
+    const zones = draft.definition.zones
+    const last = zones[zones.length - 1]
+    updateDraft({ zones: [...zones, { name: `Zone ${zones.length + 1}`, min: (last?.min ?? 0) + 10 }] })
+  }
+
+  const removeZone = (index: number) => {
+    if (!draft) return
+    updateDraft({ zones: draft.definition.zones.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Training Zones</CardTitle>
+        <CardDescription>
+          Zone models used for time-in-zone on sessions, reports and trends
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !active ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {(['power', 'hr', 'pace'] as const).map(metric => {
+              const metricModels = models.filter(m => m.metric === metric)
+              const metricPresets = Object.entries(presets).filter(([, p]) => p.metric === metric)
+              const activeModel = active[metric]
+
+              return (
+                <div key={metric} className="space-y-3 border-t pt-6 first:border-t-0 first:pt-0">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-sm font-medium">{METRIC_LABELS[metric]}</h3>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={activeModel.id ?? DEFAULT_ID}
+                        onValueChange={(value) => activate(metric, value)}
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_ID}>Default</SelectItem>
+                          {metricModels.map(model => (
+                            <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {activeModel.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Edit zones"
+                          onClick={() => {
+                            const model = metricModels.find(m => m.id === activeModel.id)
+                            if (model) setDraft(toDraft(model, model.id))
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Active zones */}
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {activeModel.zones.map((zone, i) => (
+                      <span key={i} className="inline-flex items-center gap-1.5 rounded-md border px-2 py-1">
+                        <span
+                          className="h-2.5 w-2.5 rounded-sm"
+                          style={{ backgroundColor: zone.color || zoneColor(i, activeModel.zones.length) }}
+                        />
+                        <span className="font-medium">{zone.name}</span>
+                        <span className="text-muted-foreground">{describeZoneRange(activeModel, i)}</span>
+                      </span>
+                    ))}
+                  </div>
+                  {metric === 'pace' && !activeModel.id && (
+                    <p className="text-xs text-muted-foreground">
+                      Add a pace model with your threshold pace to get pace zones on runs.
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {metricPresets.map(([key, preset]) => (
+                      <Button
+                        key={key}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDraft(toDraft(preset))}
+                      >
+                        <Plus className="mr-1 h-3 w-3" />
+                        {preset.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+
+            {/* Model editor */}
+            {draft && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="zone-model-name">Name</Label>
+                    <Input
+                      id="zone-model-name"
+                      value={draft.definition.name}
+                      onChange={(e) => updateDraft({ name: e.target.value })}
+                    />
+                  </div>
+                  {draft.definition.metric !== 'pace' && (
+                    <div className="space-y-2">
+                      <Label>Boundaries</Label>
+                      <Select
+                        value={draft.definition.basis}
+                        onValueChange={(value) => updateDraft({ basis: value as ZoneModelDefinition['basis'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="threshold">% of threshold</SelectItem>
+                          <SelectItem value="absolute">
+                            {draft.definition.metric === 'power' ? 'Watts' : 'bpm'}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {draft.definition.basis === 'threshold' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="zone-model-threshold">Threshold</Label>
+                      <Input
+                        id="zone-model-threshold"
+                        value={draft.thresholdInput}
+                        onChange={(e) => setDraft({ ...draft, thresholdInput: e.target.value })}
+                        placeholder={draft.definition.metric === 'pace' ? '4:15' : 'Optional'}
+                      />
+                      <p className="text-xs text-muted-foreground">{THRESHOLD_HINTS[draft.definition.metric]}</p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Zones (lower bound)</Label>
+                  {draft.definition.zones.map((zone, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <span className="w-8 text-xs text-muted-foreground">Z{i + 1}</span>
+                      <Input
+                        value={zone.name}
+                        onChange={(e) => updateZone(i, { name: e.target.value })}
+                        className="flex-1"
+                      />
+                      <Input
+                        type="number"
+                        value={zone.min}
+                        disabled={i === 0}
+                        onChange={(e) => updateZone(i, { min: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                      <span className="w-10 text-xs text-muted-foreground">
+                        {draft.definition.basis === 'absolute'
+                          ? draft.definition.metric === 'power' ? 'W' : 'bpm'
+                          : '%'}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={i === 0 || draft.definition.zones.length <= 2}
+                        onClick={() => removeZone(i)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={addZone}>
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add zone
+                  </Button>
+                </div>
+
+                <div className="flex justify-between gap-2">
+                  <div>
+                    {draft.id && (
+                      <Button
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={saving}
+                        onClick={() => deleteModel(draft.id!)}
+                      >
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => { setDraft(null); setError(null) }}>
+                      Cancel
+                    </Button>
+                    <Button onClick={saveDraft} disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {draft.id ? 'Save Zones' : 'Save & Use'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -50,6 +50,8 @@ export interface OverlayDataPoint {
   cadence?: number
   speed?: number
   altitude?: number
+  wPrimeBalance?: number
+  torque?: number
   smoothedPower?: number
   smoothedHeartRate?: number
 }
@@ -99,6 +101,20 @@ const METRIC_CONFIGS: Record<ChartMetric, Omit<MetricConfig, 'key'>> = {
     yAxisId: 'right',
     type: 'area',
   },
+  wPrimeBalance: {
+    name: 'W′ Balance',
+    color: 'hsl(271, 76%, 53%)', // Purple
+    unit: 'kJ',
+    yAxisId: 'right',
+    type: 'line',
+  },
+  torque: {
+    name: 'Torque',
+    color: 'hsl(25, 95%, 53%)', // Orange
+    unit: 'Nm',
+    yAxisId: 'right',
+    type: 'line',
+  },
 }
 
 interface OverlayChartProps {
@@ -395,6 +411,19 @@ export function OverlayChart({
             />
           )}
 
+          {metrics.includes('wPrimeBalance') && (
+            <Line
+              yAxisId={METRIC_CONFIGS.wPrimeBalance.yAxisId}
+              type="monotone"
+              dataKey="wPrimeBalance"
+              stroke={METRIC_CONFIGS.wPrimeBalance.color}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+              name={METRIC_CONFIGS.wPrimeBalance.name}
+            />
+          )}
+
           <ChartTooltip
             content={
               <ChartTooltipContent
@@ -402,7 +431,10 @@ export function OverlayChart({
                 formatter={(value, name) => {
                   const metric = metrics.find(m => METRIC_CONFIGS[m].name === name)
                   const unit = metric ? METRIC_CONFIGS[metric].unit : ''
-                  return [`${Math.round(value as number)}${unit}`, name as string]
+                  const display = metric === 'wPrimeBalance'
+                    ? (value as number).toFixed(1)
+                    : Math.round(value as number)
+                  return [`${display}${unit}`, name as string]
                 }}
               />
             }
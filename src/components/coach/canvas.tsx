@@ -21,10 +21,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { FitnessCard, FatigueCard, FormCard } from '@/components/dashboard/fitness-metrics'
 import { PMCChart, TIME_RANGES, type TimeRangeKey } from '@/components/dashboard/pmc-chart'
-import type { PMCDataPoint } from '@/lib/transforms'
+import type { PMCDataPoint, SportPMCDataPoint } from '@/lib/transforms'
 import { SessionsTable } from '@/components/dashboard/sessions-table'
 import { SleepCard } from '@/components/dashboard/sleep-card'
 import { PowerCurveChart } from '@/components/power/power-curve-chart'
+import { PowerCurveComparisonChart } from '@/components/power/power-curve-comparison-chart'
+import type { PowerCurveComparisonSelection } from '@/hooks/use-power-curve-comparison'
 import { ChartWidget } from '@/components/coach/chart-widget'
 import { InsightCard } from '@/components/coach/insight-card'
 import { WorkoutCardWidget } from '@/components/coach/workout-card-widget'
@@ -34,6 +36,7 @@ import { PlanProposalWidget, type PlanProposalData } from '@/components/coach/pl
 import { PlanProjectionWidget, type PlanProjectionData } from '@/components/coach/plan-projection-widget'
 import { TrainingCalendarWidget } from '@/components/coach/training-calendar-widget'
 import { SessionAnalysisWidget, type SessionAnalysisData } from '@/components/coach/session-analysis-widget'
+import { PedalingWidget } from '@/components/coach/pedaling-widget'
 import { CanvasGrid, CanvasGridItem } from '@/components/coach/canvas-grid'
 import { CanvasStatusBar } from '@/components/coach/canvas-status-bar'
 import type { WorkoutTemplate } from '@/lib/workouts/library'
@@ -114,6 +117,7 @@ export function Canvas({
     currentFitness,
     sessions,
     pmcData,
+    sportPmcData,
     ctlTrend,
     athlete,
     loading: dataLoading
@@ -159,6 +163,7 @@ export function Canvas({
     fitness: currentFitness,
     sessions,
     pmcData,
+    sportPmcData,
     ctlTrend,
     athlete,
     powerCurve,
@@ -166,7 +171,7 @@ export function Canvas({
     competitorData,
     loading: dataLoading || powerLoading,
     raceLoading,
-  }), [currentFitness, sessions, pmcData, ctlTrend, athlete, powerCurve, raceHistory, competitorData, dataLoading, powerLoading, raceLoading])
+  }), [currentFitness, sessions, pmcData, sportPmcData, ctlTrend, athlete, powerCurve, raceHistory, competitorData, dataLoading, powerLoading, raceLoading])
 
   return (
     <div className={className}>
@@ -289,13 +294,16 @@ export function Canvas({
  */
 function PMCChartWithState({
   pmcData: initialPmcData,
+  sportPmcData: initialSportPmcData,
   ctlTrend: initialCtlTrend,
 }: {
   pmcData: PMCDataPoint[]
+  sportPmcData: SportPMCDataPoint[]
   ctlTrend: number
 }) {
   const [timeRange, setTimeRange] = useState<TimeRangeKey>('6w')
   const [pmcData, setPmcData] = useState(initialPmcData)
+  const [sportPmcData, setSportPmcData] = useState(initialSportPmcData)
   const [ctlTrend, setCtlTrend] = useState(initialCtlTrend)
 
   // Fetch fresh data when time range changes
@@ -306,6 +314,7 @@ function PMCChartWithState({
       .then(res => res.json())
       .then(data => {
         if (data.pmcData) setPmcData(data.pmcData)
+        if (data.sportPmcData) setSportPmcData(data.sportPmcData)
         if (data.ctlTrend !== undefined) setCtlTrend(data.ctlTrend)
       })
       .catch(err => logger.error('Failed to fetch PMC data:', err))
@@ -314,6 +323,7 @@ function PMCChartWithState({
   return (
     <PMCChart
       data={pmcData}
+      sportData={sportPmcData}
       ctlTrend={ctlTrend}
       timeRange={timeRange}
       onTimeRangeChange={handleTimeRangeChange}
@@ -327,6 +337,7 @@ interface WidgetRendererProps {
     fitness: ReturnType<typeof useIntervalsData>['currentFitness']
     sessions: ReturnType<typeof useIntervalsData>['sessions']
     pmcData: ReturnType<typeof useIntervalsData>['pmcData']
+    sportPmcData: ReturnType<typeof useIntervalsData>['sportPmcData']
     ctlTrend: number
     athlete: ReturnType<typeof useIntervalsData>['athlete']
     powerCurve: ReturnType<typeof usePowerCurve>['powerCurve']
@@ -366,7 +377,7 @@ function WidgetContent(props: WidgetRendererProps) {
 
     case 'pmc-chart':
       // PMCChart with stateful time range selection
-      return <PMCChartWithState pmcData={data.pmcData} ctlTrend={data.ctlTrend} />
+      return <PMCChartWithState pmcData={data.pmcData} sportPmcData={data.sportPmcData} ctlTrend={data.ctlTrend} />
 
     case 'sessions':
       // SessionsTable has its own card
@@ -381,6 +392,14 @@ function WidgetContent(props: WidgetRendererProps) {
       )
 
     case 'power-curve':
+      // With a preset or two windows in config, overlay the two periods
+      if (widget.params?.preset || (widget.params?.baseline && widget.params?.current)) {
+        return (
+          <PowerCurveComparisonChart
+            defaultSelection={widget.params as unknown as PowerCurveComparisonSelection}
+          />
+        )
+      }
       return (
         <PowerCurveChart
           powerCurve={data.powerCurve}
@@ -461,6 +480,18 @@ function WidgetContent(props: WidgetRendererProps) {
       }
       return <SessionAnalysisWidget data={sessionAnalysisData} />
 
+    case 'pedaling-analysis':
+      const pedalingSessionId = widget.params?.sessionId as string | undefined
+      if (!pedalingSessionId) {
+        return <p className="text-muted-foreground text-sm">Pedaling analysis requires a session ID</p>
+      }
+      return (
+        <PedalingWidget
+          sessionId={pedalingSessionId}
+          referenceCadence={widget.params?.referenceCadence as number | undefined}
+        />
+      )
+
     default:
       return (
         <p className="text-muted-foreground">Unknown widget type: {widget.type}</p>
@@ -10,6 +10,7 @@ import { OverlayChart } from '@/components/charts/overlay-chart'
 import { useSessionChart } from '@/hooks/use-session-chart'
 import { Skeleton } from '@/components/ui/skeleton'
 import type { ChartConfig, ChartMetric } from '@/lib/widgets/types'
+import { intervalsToAnnotations } from '@/lib/analysis/interval-detection'
 import { AlertCircle } from 'lucide-react'
 
 interface ChartWidgetProps {
@@ -17,7 +18,7 @@ interface ChartWidgetProps {
 }
 
 export function ChartWidget({ config }: ChartWidgetProps) {
-  const { data, activity, averages, loading, error } = useSessionChart(
+  const { data, activity, averages, intervals, intervalComparison, loading, error } = useSessionChart(
     config.sessionId,
     true
   )
@@ -59,6 +60,12 @@ export function ChartWidget({ config }: ChartWidgetProps) {
     )
   }
 
+  // Detected work bouts, colored by how they match the plan, plus AI annotations
+  const annotations = [
+    ...intervalsToAnnotations(intervals, intervalComparison),
+    ...(config.annotations ?? []),
+  ]
+
   return (
     <div>
       {activity && (
@@ -70,8 +77,14 @@ export function ChartWidget({ config }: ChartWidgetProps) {
         data={chartData}
         metrics={requestedMetrics}
         averages={averages}
-        annotations={config.annotations}
+        annotations={annotations}
       />
+      {intervalComparison && (
+        <div className="mt-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">Plan: </span>
+          {intervalComparison.summary}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,211 @@
+'use client'
+
+/**
+ * Pedaling Widget
+ *
+ * Quadrant analysis scatter (pedal force vs. pedal velocity, split at FTP and
+ * the reference cadence), cadence per power zone, torque peaks and how
+ * prescribed cadence targets were met. Fetches its own data by session ID.
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { AlertCircle } from 'lucide-react'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CADENCE_BANDS } from '@/lib/analysis/pedaling'
+import type { PedalingResponse } from '@/app/api/sessions/[id]/pedaling/route'
+import { cn } from '@/lib/utils'
+
+interface PedalingWidgetProps {
+  sessionId: string
+  referenceCadence?: number
+}
+
+const QUADRANT_COLORS: Record<number, string> = {
+  1: 'bg-red-500',
+  2: 'bg-orange-400',
+  3: 'bg-blue-400',
+  4: 'bg-green-400',
+}
+
+const BAND_COLORS = ['bg-red-400', 'bg-orange-400', 'bg-amber-300', 'bg-green-400', 'bg-blue-400', 'bg-indigo-500']
+
+const QUADRANT_NUMERALS = ['I', 'II', 'III', 'IV']
+
+function formatPeakDuration(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${seconds / 60}min`
+}
+
+export function PedalingWidget({ sessionId, referenceCadence }: PedalingWidgetProps) {
+  const [data, setData] = useState<PedalingResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const query = referenceCadence ? `?referenceCadence=${referenceCadence}` : ''
+    fetch(`/api/sessions/${sessionId}/pedaling${query}`)
+      .then(async res => {
+        const body = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(body.error || `Failed to load pedaling analysis: ${res.status}`)
+        return body as PedalingResponse
+      })
+      .then(body => { if (!cancelled) setData(body) })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error') })
+    return () => { cancelled = true }
+  }, [sessionId, referenceCadence])
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-destructive bg-destructive/10 rounded-lg">
+        <AlertCircle className="h-4 w-4" />
+        <span>{error}</span>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-4 w-48" />
+        <Skeleton className="h-[300px] w-full" />
+      </div>
+    )
+  }
+
+  const { quadrants, cadenceByZone, torquePeaks, cadenceTargets } = data
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm text-muted-foreground">
+        {new Date(data.date).toLocaleDateString()}
+        {data.avgCadence !== null && <> • Avg cadence <span className="font-semibold text-foreground tabular-nums">{data.avgCadence} rpm</span></>}
+      </div>
+
+      {quadrants ? (
+        <div>
+          <div className="flex items-baseline justify-between gap-2 mb-2">
+            <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Quadrant Analysis</span>
+            <span className="text-xs text-muted-foreground">
+              FTP {quadrants.ftp}W @ {quadrants.referenceCadence} rpm{quadrants.referenceCadenceEstimated ? ' (from this ride)' : ''}
+            </span>
+          </div>
+          <ResponsiveContainer width="100%" height={260}>
+            <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="velocity"
+                name="Pedal velocity"
+                unit=" m/s"
+                tick={{ fontSize: 11 }}
+                domain={[0, 'auto']}
+              />
+              <YAxis
+                type="number"
+                dataKey="force"
+                name="Pedal force"
+                unit=" N"
+                tick={{ fontSize: 11 }}
+                domain={[0, 'auto']}
+              />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+              <ReferenceLine x={quadrants.thresholdVelocity} stroke="hsl(215, 16%, 47%)" strokeDasharray="4 4" />
+              <ReferenceLine y={quadrants.thresholdForce} stroke="hsl(215, 16%, 47%)" strokeDasharray="4 4" />
+              <Scatter data={quadrants.points} fill="hsl(221, 83%, 53%)" fillOpacity={0.35} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+            {quadrants.quadrants.map(q => (
+              <div key={q.quadrant} className="flex items-center gap-2 text-xs">
+                <div className={cn('w-3 h-3 rounded-sm', QUADRANT_COLORS[q.quadrant])} />
+                <span className="text-muted-foreground">
+                  {QUADRANT_NUMERALS[q.quadrant - 1]} {q.label}:{' '}
+                  <span className="font-semibold text-foreground tabular-nums">{q.percent}%</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Quadrant analysis needs an FTP.</p>
+      )}
+
+      {cadenceByZone && (
+        <div>
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Cadence by Power Zone</span>
+          <div className="mt-3 space-y-2">
+            {cadenceByZone.filter(z => z.seconds > 0).map(zone => (
+              <div key={zone.zone} className="grid grid-cols-[7rem_3.5rem_1fr] items-center gap-2 text-xs">
+                <span className="truncate">{zone.zone} {zone.name}</span>
+                <span className="tabular-nums text-right">{zone.avgCadence} rpm</span>
+                <div className="flex h-3 rounded overflow-hidden bg-muted">
+                  {zone.bands.map((seconds, i) => seconds > 0 && (
+                    <div
+                      key={CADENCE_BANDS[i].label}
+                      className={BAND_COLORS[i]}
+                      style={{ width: `${(seconds / zone.seconds) * 100}%` }}
+                      title={`${CADENCE_BANDS[i].label} rpm: ${Math.round(seconds / 60)} min`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 mt-2">
+            {CADENCE_BANDS.map((band, i) => (
+              <div key={band.label} className="flex items-center gap-1 text-xs text-muted-foreground">
+                <div className={cn('w-2 h-2 rounded-sm', BAND_COLORS[i])} />
+                {band.label}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {torquePeaks.length > 0 && (
+        <div>
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Torque Peaks</span>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-3">
+            {torquePeaks.map(peak => (
+              <div key={peak.durationSeconds} className="text-xs">
+                <div className="text-muted-foreground">{formatPeakDuration(peak.durationSeconds)}</div>
+                <div className="text-lg font-semibold tabular-nums">{peak.torque} Nm</div>
+                <div className="text-muted-foreground tabular-nums">{peak.avgPower}W @ {peak.avgCadence} rpm</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {cadenceTargets.length > 0 && (
+        <div>
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Cadence Targets</span>
+          <ul className="mt-2 space-y-1 text-xs">
+            {cadenceTargets.map(rep => (
+              <li
+                key={rep.rep}
+                className={cn(
+                  'tabular-nums',
+                  rep.onTarget === true && 'text-green-600',
+                  rep.onTarget === false && 'text-orange-600',
+                  rep.onTarget === null && 'text-muted-foreground'
+                )}
+              >
+                Rep {rep.rep}: {rep.actualCadence !== null ? `${rep.actualCadence} rpm` : 'not ridden'} (target {rep.targetCadence} rpm)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
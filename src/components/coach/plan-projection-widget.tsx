@@ -9,6 +9,7 @@
  * - Event date vertical marker
  * - Current fitness as starting point
  * - Optimal TSB zone shaded (-10 to +5)
+ * - Predicted performance (purple line, right axis) when a Banister model could be fitted
  */
 
 import {
@@ -35,6 +36,7 @@ interface ProjectionPoint {
   isEvent?: boolean
   isTaper?: boolean
   phase?: string
+  performance?: number
 }
 
 interface FitnessSnapshot {
@@ -56,7 +58,18 @@ export interface PlanProjectionData {
       ctl: number
       atl: number
       tsb: number
+      performance?: number
     }
+    peakPerformance?: {
+      date: string
+      performance: number
+    }
+    /** Fit summary of the athlete's Banister performance model */
+    performanceModel?: {
+      markerCount: number
+      r2: number
+      bestTaperDays: number | null
+    } | null
   }
   planId: string | null
 }
@@ -78,7 +91,7 @@ function CustomTooltip({ active, payload, label }: {
       <p className="font-medium mb-1">{formatDate(label)}</p>
       {payload.map((entry) => (
         <p key={entry.name} style={{ color: entry.color }}>
-          {entry.name}: {Math.round(entry.value)}
+          {entry.name}: {entry.name === 'Performance' ? `${entry.value.toFixed(1)}%` : Math.round(entry.value)}
         </p>
       ))}
     </div>
@@ -92,7 +105,8 @@ export function PlanProjectionWidget({ data }: { data: PlanProjectionData }) {
     return <p className="text-muted-foreground text-sm">No projection data available</p>
   }
 
-  const { points, startFitness, endFitness, ctlGain, eventFitness, peakCTL } = projection
+  const { points, startFitness, endFitness, ctlGain, eventFitness, peakCTL, peakPerformance, performanceModel } = projection
+  const hasPerformance = points.some(p => p.performance != null)
 
   // Sample points for X-axis labels (every 7th point)
   const sampledPoints = points.filter((_, i) => i % 7 === 0 || i === points.length - 1)
@@ -143,9 +157,20 @@ export function PlanProjectionWidget({ data }: { data: PlanProjectionData }) {
                 ? 'Very fresh'
                 : 'Fatigued'}
           </span>
+          {eventFitness.performance != null && (
+            <span>Performance {eventFitness.performance.toFixed(1)}%</span>
+          )}
         </div>
       )}
 
+      {hasPerformance && performanceModel && (
+        <p className="text-xs text-muted-foreground text-center">
+          Performance model from {performanceModel.markerCount} efforts (R² {performanceModel.r2})
+          {peakPerformance && <> · peaks {formatDate(peakPerformance.date)} at {peakPerformance.performance.toFixed(1)}%</>}
+          {performanceModel.bestTaperDays != null && <> · best taper {performanceModel.bestTaperDays} days</>}
+        </p>
+      )}
+
       {/* Chart */}
       <ResponsiveContainer width="100%" height={240}>
         <ComposedChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
@@ -162,6 +187,16 @@ export function PlanProjectionWidget({ data }: { data: PlanProjectionData }) {
             domain={[minY, maxY]}
             width={35}
           />
+          {hasPerformance && (
+            <YAxis
+              yAxisId="performance"
+              orientation="right"
+              tick={{ fontSize: 10 }}
+              domain={['auto', 'auto']}
+              width={35}
+              unit="%"
+            />
+          )}
           <Tooltip content={<CustomTooltip />} />
           <Legend
             wrapperStyle={{ fontSize: '10px' }}
@@ -228,6 +263,19 @@ export function PlanProjectionWidget({ data }: { data: PlanProjectionData }) {
             name="ATL (Fatigue)"
             strokeDasharray="4 4"
           />
+
+          {/* Predicted performance line */}
+          {hasPerformance && (
+            <Line
+              yAxisId="performance"
+              type="monotone"
+              dataKey="performance"
+              stroke="hsl(271, 60%, 55%)"
+              strokeWidth={2}
+              dot={false}
+              name="Performance"
+            />
+          )}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
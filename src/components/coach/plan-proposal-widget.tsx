@@ -7,6 +7,7 @@
  * - Week-by-week collapsible sections
  * - All workout info visible as plain text (no hover needed)
  * - Key workout dots, rest day dimming, event badges
+ * - Proposed changes when the plan adapts an active one
  * - Neutral gray aesthetic
  */
 
@@ -19,6 +20,7 @@ import {
 } from '@/components/ui/collapsible'
 import { Button } from '@/components/ui/button'
 import { ChevronRight, Check, Loader2 } from 'lucide-react'
+import type { AdaptationTrigger, PlanDayChange } from '@/lib/plans/adaptation'
 
 interface WorkoutDay {
   date: string
@@ -47,6 +49,9 @@ export interface PlanProposalData {
   targetEventDate?: string | null
   startDate: string
   endDate: string
+  /** Set when the proposal adapts the active plan */
+  triggers?: AdaptationTrigger[]
+  changes?: PlanDayChange[]
 }
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
@@ -68,13 +73,28 @@ function formatDateRange(start: string, end: string): string {
   return `${fmt(s)} – ${fmt(e)}`
 }
 
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+function describeChange(change: PlanDayChange): string {
+  switch (change.action) {
+    case 'moved':
+      return `${formatShortDate(change.date)} → ${formatShortDate(change.toDate ?? change.date)}`
+    case 'reduced':
+      return `${formatShortDate(change.date)} · ${change.fromTSS ?? '–'} → ${change.toTSS ?? '–'} TSS`
+    case 'dropped':
+      return `${formatShortDate(change.date)} · dropped`
+  }
+}
+
 export function PlanProposalWidget({ data, onApprove, approving, approved }: {
   data: PlanProposalData
   onApprove?: (planId: string) => void
   approving?: boolean
   approved?: boolean
 }) {
-  const { weekSummaries, targetEventDate, planName, startDate, endDate, planId } = data
+  const { weekSummaries, targetEventDate, planName, startDate, endDate, planId, triggers, changes } = data
   const [expandedWeeks, setExpandedWeeks] = useState<Set<number>>(
     () => new Set(weekSummaries.map(w => w.week))
   )
@@ -136,6 +156,39 @@ export function PlanProposalWidget({ data, onApprove, approving, approved }: {
         </p>
       </div>
 
+      {/* Proposed changes to the active plan */}
+      {changes && changes.length > 0 && (
+        <div className="mb-4 rounded-md border border-border/50 px-3 py-2">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Proposed changes</p>
+          {triggers && triggers.length > 0 && (
+            <p className="text-xs text-muted-foreground mb-2">
+              {triggers.map(t => t.detail).join(' · ')}
+            </p>
+          )}
+          <div className="space-y-1">
+            {changes.map(change => (
+              <div key={`${change.date}-${change.action}-${change.workoutName}`} className="flex items-center gap-2 text-sm">
+                <span className={cn(
+                  'text-[10px] px-1.5 py-0.5 rounded shrink-0 w-14 text-center',
+                  change.action === 'dropped' ? 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30' : 'bg-muted text-muted-foreground'
+                )}>
+                  {change.action}
+                </span>
+                <span className={cn('truncate', change.isKey ? 'font-medium' : 'text-muted-foreground')}>
+                  {change.workoutName ?? change.workoutType ?? 'Workout'}
+                </span>
+                <span className="text-xs tabular-nums text-muted-foreground shrink-0">
+                  {describeChange(change)}
+                </span>
+                <span className="text-xs text-muted-foreground truncate flex-1 text-right">
+                  {change.reason}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Week rows */}
       <div className="space-y-1">
         {weekSummaries.map(week => {
@@ -29,6 +29,7 @@ import {
 } from '@/components/ui/table'
 import { ChevronDown, ChevronRight, TrendingUp, TrendingDown, Minus } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { zoneColor } from '@/lib/analysis/zones'
 
 interface PowerZones {
   z1: number
@@ -39,6 +40,12 @@ interface PowerZones {
   z6: number
 }
 
+/** Time in zones with the athlete's zone model */
+interface ZoneSummaryData {
+  model: string
+  zones: { zone: string; name: string; minutes: number; percent: number }[]
+}
+
 interface PeakPowers {
   peak_5s: number | null
   peak_30s: number | null
@@ -56,6 +63,32 @@ interface PacingData {
   matchBurns: number
 }
 
+interface WPrimeBalanceData {
+  minBalancePercent: number
+  nearEmptyMatches: number
+  secondsBelow25Percent: number
+}
+
+interface DetectedIntervalData {
+  kind: 'work' | 'recovery'
+  number: number
+  startSecond: number
+  durationSeconds: number
+  avgPower: number
+  normalizedPower: number | null
+  percentFtp: number | null
+  avgHr: number | null
+  hrDrift: number | null
+  avgCadence: number | null
+}
+
+interface IntervalComplianceData {
+  summary: string
+  executedAsPrescribed: boolean
+  workoutName: string | null
+  reps: { rep: number; status: 'completed' | 'short' | 'under' | 'over' | 'missed'; bout: { number: number } | null }[]
+}
+
 interface SessionData {
   id: string
   date: string
@@ -76,7 +109,10 @@ interface SessionData {
   calories?: number
   peakPowers?: PeakPowers
   pacing?: PacingData
+  wPrimeBalance?: WPrimeBalanceData
   intervalSummary?: string[] | null
+  detectedIntervals?: DetectedIntervalData[]
+  timeInZones?: { power?: ZoneSummaryData; hr?: ZoneSummaryData; pace?: ZoneSummaryData }
 }
 
 interface AnalysisData {
@@ -87,6 +123,7 @@ interface AnalysisData {
   isLikelyRace: boolean
   sessionType: 'race' | 'workout' | 'endurance' | 'recovery' | 'unknown'
   pacingAssessment?: string
+  intervalCompliance?: IntervalComplianceData
 }
 
 interface ComparisonData {
@@ -125,6 +162,11 @@ function formatDuration(seconds: number | null): string {
   return `${minutes}m`
 }
 
+function formatBoutDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${Math.round(seconds % 60).toString().padStart(2, '0')}`
+}
+
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr)
   return date.toLocaleDateString('en-US', {
@@ -171,6 +213,35 @@ function ZoneBar({ zones }: { zones: PowerZones }) {
   )
 }
 
+function ModelZoneBar({ summary }: { summary: ZoneSummaryData }) {
+  const total = summary.zones.reduce((sum, z) => sum + z.percent, 0)
+  if (total === 0) return <p className="text-xs text-muted-foreground">No zone data</p>
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex h-5 rounded-md overflow-hidden">
+        {summary.zones.map((zone, i) => zone.percent > 0 && (
+          <div
+            key={zone.zone}
+            className="transition-all"
+            style={{ width: `${(zone.percent / total) * 100}%`, backgroundColor: zoneColor(i, summary.zones.length) }}
+            title={`${zone.name}: ${zone.percent}% (${zone.minutes}m)`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5">
+        {summary.zones.map((zone, i) => zone.percent > 0 && (
+          <div key={zone.zone} className="flex items-center gap-1 text-xs">
+            <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: zoneColor(i, summary.zones.length) }} />
+            <span className="text-muted-foreground">{zone.name}</span>
+            <span className="font-medium tabular-nums">{Math.round(zone.percent)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 function PeakPowerTable({
   peakPowers,
   personalBests,
@@ -270,6 +341,14 @@ export function SessionAnalysisWidget({ data }: { data: SessionAnalysisData }) {
 
   const hasTier3Data = !!session.peakPowers
 
+  const workBouts = session.detectedIntervals?.filter(i => i.kind === 'work') ?? []
+  // Work bout number -> how it matched the planned rep
+  const repStatus = new Map(
+    (analysis.intervalCompliance?.reps ?? [])
+      .filter(r => r.bout)
+      .map(r => [r.bout!.number, r.status])
+  )
+
   return (
     <div className="space-y-4">
       {/* Tier 1: Always visible - Key metrics */}
@@ -362,13 +441,29 @@ export function SessionAnalysisWidget({ data }: { data: SessionAnalysisData }) {
       </div>
 
       {/* Zones, Pacing & Intervals (rendered directly, no collapsible) */}
-      {session.power_zones && (
+      {session.timeInZones?.power ? (
+        <div>
+          <p className="text-xs font-medium mb-2">
+            Power Zone Distribution <span className="text-muted-foreground font-normal">({session.timeInZones.power.model})</span>
+          </p>
+          <ModelZoneBar summary={session.timeInZones.power} />
+        </div>
+      ) : session.power_zones && (
         <div>
           <p className="text-xs font-medium mb-2">Power Zone Distribution</p>
           <ZoneBar zones={session.power_zones} />
         </div>
       )}
 
+      {session.timeInZones?.hr && (
+        <div>
+          <p className="text-xs font-medium mb-2">
+            HR Zone Distribution <span className="text-muted-foreground font-normal">({session.timeInZones.hr.model})</span>
+          </p>
+          <ModelZoneBar summary={session.timeInZones.hr} />
+        </div>
+      )}
+
       {session.pacing && (
         <div className="space-y-2">
           <p className="text-xs font-medium">Pacing</p>
@@ -415,6 +510,27 @@ export function SessionAnalysisWidget({ data }: { data: SessionAnalysisData }) {
                 <p className="font-semibold tabular-nums">{session.pacing.matchBurns}</p>
               </div>
             )}
+            {session.wPrimeBalance && (
+              <>
+                <div className="rounded-md bg-muted/40 p-2">
+                  <span className="text-muted-foreground">Min W′bal</span>
+                  <p className={cn(
+                    'font-semibold tabular-nums',
+                    session.wPrimeBalance.minBalancePercent < 10 && 'text-red-600'
+                  )}>
+                    {Math.round(session.wPrimeBalance.minBalancePercent)}%
+                  </p>
+                </div>
+                {session.wPrimeBalance.nearEmptyMatches > 0 && (
+                  <div className="rounded-md bg-muted/40 p-2">
+                    <span className="text-muted-foreground">Near-empty</span>
+                    <p className="font-semibold tabular-nums">
+                      {session.wPrimeBalance.nearEmptyMatches}× ({Math.round(session.wPrimeBalance.secondsBelow25Percent / 60)}m &lt;25%)
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
       )}
@@ -433,6 +549,60 @@ export function SessionAnalysisWidget({ data }: { data: SessionAnalysisData }) {
         </div>
       )}
 
+      {workBouts.length > 0 && (
+        <div>
+          <p className="text-xs font-medium mb-1">Detected Intervals</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-7 text-xs">#</TableHead>
+                <TableHead className="h-7 text-xs text-right">Time</TableHead>
+                <TableHead className="h-7 text-xs text-right">Avg / NP</TableHead>
+                <TableHead className="h-7 text-xs text-right">% FTP</TableHead>
+                <TableHead className="h-7 text-xs text-right">HR drift</TableHead>
+                <TableHead className="h-7 text-xs text-right">Cad</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workBouts.map(bout => {
+                const status = repStatus.get(bout.number)
+                return (
+                  <TableRow key={bout.number}>
+                    <TableCell className="py-1 text-xs">
+                      <span className={cn(
+                        status === 'completed' && 'text-green-600',
+                        (status === 'short' || status === 'under') && 'text-orange-600',
+                        status === 'over' && 'text-red-600'
+                      )}>
+                        {bout.number}
+                      </span>
+                    </TableCell>
+                    <TableCell className="py-1 text-xs text-right tabular-nums">{formatBoutDuration(bout.durationSeconds)}</TableCell>
+                    <TableCell className="py-1 text-xs text-right tabular-nums">
+                      {bout.avgPower}{bout.normalizedPower != null && ` / ${bout.normalizedPower}`}W
+                    </TableCell>
+                    <TableCell className="py-1 text-xs text-right tabular-nums">{bout.percentFtp != null ? `${bout.percentFtp}%` : '-'}</TableCell>
+                    <TableCell className="py-1 text-xs text-right tabular-nums">
+                      {bout.hrDrift != null ? `${bout.hrDrift > 0 ? '+' : ''}${bout.hrDrift}%` : '-'}
+                    </TableCell>
+                    <TableCell className="py-1 text-xs text-right tabular-nums">{bout.avgCadence ?? '-'}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          {analysis.intervalCompliance && (
+            <p className={cn(
+              'mt-1 text-xs',
+              analysis.intervalCompliance.executedAsPrescribed ? 'text-green-600' : 'text-orange-600'
+            )}>
+              {analysis.intervalCompliance.workoutName && `${analysis.intervalCompliance.workoutName}: `}
+              {analysis.intervalCompliance.summary}
+            </p>
+          )}
+        </div>
+      )}
+
       {analysis.pacingAssessment && (
         <p className="text-xs text-muted-foreground italic">{analysis.pacingAssessment}</p>
       )}
@@ -22,6 +22,7 @@ import {
   Download,
   Loader2,
 } from 'lucide-react'
+import { complianceStatus, type ComplianceStatus } from '@/lib/analysis/plan-compliance'
 import { logger } from '@/lib/logger'
 
 interface PlanDay {
@@ -35,6 +36,7 @@ interface PlanDay {
   target_duration_minutes: number | null
   completed: boolean
   skipped: boolean
+  compliance_score?: number | null
 }
 
 interface PlanEvent {
@@ -50,6 +52,16 @@ interface ActivePlan {
   end_date: string
 }
 
+const complianceColors: Record<ComplianceStatus, string> = {
+  green: 'text-green-500',
+  yellow: 'text-yellow-500',
+  red: 'text-red-500',
+}
+
+function dayCompliance(day: PlanDay): ComplianceStatus {
+  return day.compliance_score != null ? complianceStatus(day.compliance_score) : 'green'
+}
+
 const DAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
 
 const workoutTypeColors: Record<string, string> = {
@@ -335,7 +347,7 @@ export function TrainingCalendarWidget() {
                     {date.getDate()}
                   </span>
                   {planDay?.completed && (
-                    <Check className="h-3 w-3 text-green-500" />
+                    <Check className={cn('h-3 w-3', complianceColors[dayCompliance(planDay)])} />
                   )}
                 </div>
 
@@ -395,6 +407,8 @@ export function TrainingCalendarWidget() {
                 {selectedDayData.completed && (
                   <span className="text-xs text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950/30 px-1.5 py-0.5 rounded">
                     Done
+                    {selectedDayData.compliance_score != null &&
+                      ` · ${Math.round(selectedDayData.compliance_score * 100)}% compliance`}
                   </span>
                 )}
               </div>
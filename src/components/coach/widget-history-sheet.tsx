@@ -46,6 +46,7 @@ function getWidgetTypeLabel(type: WidgetConfig['type']): string {
     'plan-projection': 'Projection',
     'training-calendar': 'Calendar',
     'session-analysis': 'Session Analysis',
+    'pedaling-analysis': 'Pedaling',
   }
   return labels[type] || type
 }
@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Archive, Loader2, CheckCircle2, AlertCircle } from 'lucide-react'
+import type { ImportJob } from '@/lib/db/import-jobs'
+import { logger } from '@/lib/logger'
+
+const POLL_INTERVAL_MS = 2000
+
+function isActive(job: ImportJob | null): boolean {
+  return !!job && ['pending', 'running', 'rebuilding'].includes(job.status)
+}
+
+interface ArchiveImportBannerProps {
+  /** Called once an import completes so the page can refresh its data */
+  onImportComplete?: () => void
+}
+
+export function ArchiveImportBanner({ onImportComplete }: ArchiveImportBannerProps) {
+  const [job, setJob] = useState<ImportJob | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Only show results for imports started or watched in this page session
+  const [watching, setWatching] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const onCompleteRef = useRef(onImportComplete)
+
+  useEffect(() => {
+    onCompleteRef.current = onImportComplete
+  }, [onImportComplete])
+
+  const fetchJob = useCallback(async () => {
+    try {
+      const res = await fetch('/api/upload/archive')
+      if (res.ok) {
+        const data = await res.json()
+        setJob(data.job)
+        return data.job as ImportJob | null
+      }
+    } catch {
+      // Silently fail - banner just won't show
+    } finally {
+      setLoading(false)
+    }
+    return null
+  }, [])
+
+  useEffect(() => {
+    fetchJob().then(latest => {
+      if (isActive(latest)) setWatching(true)
+    })
+  }, [fetchJob])
+
+  // Poll while an import is running
+  useEffect(() => {
+    if (!isActive(job)) return
+    const timer = setTimeout(async () => {
+      const latest = await fetchJob()
+      if (latest?.status === 'completed') onCompleteRef.current?.()
+    }, POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [job, fetchJob])
+
+  const startImport = async (file: File) => {
+    setUploading(true)
+    setError(null)
+
+    try {
+      // Sent as the raw body so the server can stream it to disk
+      const res = await fetch(`/api/upload/archive?filename=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/zip' },
+        body: file,
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to start import')
+        if (data.job) setJob(data.job)
+      } else {
+        setJob(data.job)
+        setWatching(true)
+      }
+    } catch (err) {
+      logger.error('Archive import failed:', err)
+      setError('Network error')
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const fileInput = (
+    <input
+      ref={inputRef}
+      type="file"
+      accept=".zip"
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0]
+        if (file) startImport(file)
+      }}
+    />
+  )
+
+  if (loading || dismissed) return null
+
+  // Progress while running
+  if (job && isActive(job)) {
+    const percent = job.total_files > 0
+      ? Math.round((job.processed_files / job.total_files) * 100)
+      : 0
+
+    return (
+      <div className="mb-6 rounded-lg border p-4 text-sm">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          <span className="font-medium">
+            {job.status === 'rebuilding'
+              ? 'Rebuilding power bests and fitness history...'
+              : `Importing ${job.file_name}: ${job.processed_files} of ${job.total_files || '?'} files`}
+          </span>
+          <span className="ml-auto text-muted-foreground">
+            {job.imported} new, {job.duplicates} already stored
+            {job.failed > 0 && `, ${job.failed} failed`}
+          </span>
+        </div>
+        <Progress value={job.status === 'rebuilding' ? 100 : percent} className="mt-3" />
+      </div>
+    )
+  }
+
+  // Show success state after completing
+  if (watching && job?.status === 'completed') {
+    return (
+      <div className="mb-6 rounded-lg border border-green-200 bg-green-50 p-4 text-sm dark:border-green-900 dark:bg-green-950">
+        <div className="flex items-center gap-2">
+          <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+          <span className="font-medium text-green-800 dark:text-green-200">
+            Archive import complete: {job.imported} activities imported, {job.duplicates} already stored
+          </span>
+          {job.oldest_date && job.newest_date && (
+            <span className="text-green-600 dark:text-green-400">
+              ({job.oldest_date} to {job.newest_date})
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => setDismissed(true)}
+          >
+            Dismiss
+          </Button>
+        </div>
+        {job.failed > 0 && (
+          <p className="mt-2 text-green-700 dark:text-green-300">
+            {job.failed} files could not be imported: {job.errors.slice(0, 3).join(', ')}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  // Show error state
+  if (error || (watching && job?.status === 'failed')) {
+    return (
+      <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm dark:border-red-900 dark:bg-red-950">
+        <div className="flex items-center gap-2">
+          <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+          <span className="font-medium text-red-800 dark:text-red-200">
+            Archive import failed: {error || job?.errors.slice(-1)[0] || 'Unknown error'}
+          </span>
+          {fileInput}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+          >
+            Retry
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  // Already imported an archive before
+  if (job?.status === 'completed') return null
+
+  return (
+    <div className="mb-6 rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+      <div className="flex items-center gap-3">
+        <Archive className="h-4 w-4 shrink-0" />
+        <div className="flex-1">
+          <span className="font-medium text-foreground">Import your history:</span>{' '}
+          Upload a Strava or Garmin bulk export (.zip) to seed years of rides, power bests and fitness history.
+        </div>
+        {fileInput}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="shrink-0"
+        >
+          {uploading ? (
+            <>
+              <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            'Import Archive'
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDismissed(true)}
+          className="shrink-0"
+        >
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  )
+}
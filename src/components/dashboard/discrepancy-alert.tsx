@@ -1,7 +1,7 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { AlertTriangle, X, ChevronDown, ChevronUp } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { AlertTriangle, X, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 
@@ -19,13 +19,21 @@ interface Discrepancy {
 
 interface DiscrepancyAlertProps {
   className?: string
+  /** Called after fitness history was recomputed from local sessions */
+  onRecomputed?: () => void
 }
 
-export function DiscrepancyAlert({ className }: DiscrepancyAlertProps) {
+export function DiscrepancyAlert({ className, onRecomputed }: DiscrepancyAlertProps) {
   const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([])
   const [dismissed, setDismissed] = useState(false)
   const [expanded, setExpanded] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [recomputing, setRecomputing] = useState(false)
+  const onRecomputedRef = useRef(onRecomputed)
+
+  useEffect(() => {
+    onRecomputedRef.current = onRecomputed
+  }, [onRecomputed])
 
   const fetchDiscrepancies = useCallback(async () => {
     try {
@@ -57,6 +65,25 @@ export function DiscrepancyAlert({ className }: DiscrepancyAlertProps) {
     }
   }
 
+  const handleRecomputeLocal = async () => {
+    setRecomputing(true)
+    try {
+      const res = await fetch('/api/fitness/discrepancies', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'recompute_local' }),
+      })
+      if (res.ok) {
+        setDismissed(true)
+        onRecomputedRef.current?.()
+      }
+    } catch {
+      // Silently fail
+    } finally {
+      setRecomputing(false)
+    }
+  }
+
   if (loading || dismissed || discrepancies.length === 0) return null
 
   const largest = discrepancies.reduce((max, d) =>
@@ -77,7 +104,7 @@ export function DiscrepancyAlert({ className }: DiscrepancyAlertProps) {
         <div className="flex-1 min-w-0">
           <div className="flex items-start justify-between gap-2">
             <h4 className="font-medium text-sm text-amber-900 dark:text-amber-200">
-              Fitness Data Recalculated Upstream
+              Fitness Differs From intervals.icu
             </h4>
             <Button
               variant="ghost"
@@ -89,12 +116,23 @@ export function DiscrepancyAlert({ className }: DiscrepancyAlertProps) {
             </Button>
           </div>
           <p className="mt-1 text-sm text-amber-800/80 dark:text-amber-300/80">
-            intervals.icu recalculated your fitness history. Your CTL is now{' '}
-            <strong>{absDelta} points {direction}</strong> than what we had locally
+            intervals.icu reports a CTL{' '}
+            <strong>{absDelta} points {direction}</strong> than calculated from your stored sessions
             ({Math.round(largest.local_ctl)} &rarr; {Math.round(largest.remote_ctl)}).
-            Local data has been updated to match.
+            Your chart uses the intervals.icu values.
           </p>
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRecomputeLocal}
+            disabled={recomputing}
+            className="mt-2 h-7 px-2 text-xs border-amber-500/50 text-amber-800 dark:text-amber-200"
+          >
+            <RefreshCw className={cn('mr-1 h-3 w-3', recomputing && 'animate-spin')} />
+            {recomputing ? 'Recomputing...' : 'Recompute from local'}
+          </Button>
+
           {discrepancies.length > 1 && (
             <Button
               variant="ghost"
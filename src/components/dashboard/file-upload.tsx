@@ -6,20 +6,23 @@ import { DragHandle } from '@/components/ui/drag-handle'
 import { Upload, FileCheck, AlertCircle, Loader2 } from 'lucide-react'
 import type { Session } from '@/types'
 
+// Keep in sync with SUPPORTED_ACTIVITY_EXTENSIONS in lib/activity-parser (server-only module)
+const SUPPORTED_ACTIVITY_EXTENSIONS = ['.fit', '.tcx', '.gpx']
+
 interface FileUploadProps {
   onSessionUploaded: (session: Session) => void
-  ftp?: number
   compact?: boolean
 }
 
-export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: FileUploadProps) {
+export function FileUpload({ onSessionUploaded, compact = false }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
   const handleFile = useCallback(async (file: File) => {
-    if (!file.name.toLowerCase().endsWith('.fit')) {
-      setMessage({ type: 'error', text: 'Please upload a .FIT file' })
+    const name = file.name.toLowerCase()
+    if (!SUPPORTED_ACTIVITY_EXTENSIONS.some(ext => name.endsWith(ext))) {
+      setMessage({ type: 'error', text: 'Please upload a .FIT, .TCX or .GPX file' })
       return
     }
 
@@ -29,7 +32,6 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
     try {
       const formData = new FormData()
       formData.append('file', file)
-      formData.append('ftp', ftp.toString())
 
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -43,7 +45,9 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
       }
 
       setMessage({ type: 'success', text: data.message })
-      onSessionUploaded(data.session)
+      // Multi-session files (e.g. brick workouts) return one session per part
+      const sessions: Session[] = data.sessions ?? [data.session]
+      sessions.filter(Boolean).forEach(onSessionUploaded)
     } catch (error) {
       setMessage({
         type: 'error',
@@ -52,7 +56,7 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
     } finally {
       setIsUploading(false)
     }
-  }, [ftp, onSessionUploaded])
+  }, [onSessionUploaded])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -103,7 +107,7 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
         <DragHandle />
         <input
           type="file"
-          accept=".fit"
+          accept={SUPPORTED_ACTIVITY_EXTENSIONS.join(',')}
           onChange={handleInputChange}
           className="absolute inset-0 cursor-pointer opacity-0"
           disabled={isUploading}
@@ -129,7 +133,7 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
 
         <div className="h-10 text-center">
           <p className="text-xs text-muted-foreground line-clamp-2">
-            {isUploading ? 'Processing...' : message?.text || 'Drop .FIT file'}
+            {isUploading ? 'Processing...' : message?.text || 'Drop .FIT/.TCX/.GPX file'}
           </p>
         </div>
       </Card>
@@ -142,7 +146,7 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
       <CardHeader className="pb-3">
         <CardTitle className="text-base">Upload Activity</CardTitle>
         <CardDescription>
-          Drop a .FIT file to import your ride data
+          Drop a .FIT, .TCX or .GPX file to import your ride data
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -154,7 +158,7 @@ export function FileUpload({ onSessionUploaded, ftp = 250, compact = false }: Fi
         >
           <input
             type="file"
-            accept=".fit"
+            accept={SUPPORTED_ACTIVITY_EXTENSIONS.join(',')}
             onChange={handleInputChange}
             className="absolute inset-0 cursor-pointer opacity-0"
             disabled={isUploading}
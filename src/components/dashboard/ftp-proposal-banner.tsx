@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Zap, X, ChevronDown, ChevronUp, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type { FtpChangeProposal } from '@/lib/db/ftp-proposals'
+import type { FtpEstimateMethod } from '@/lib/analysis/eftp'
+import { logger } from '@/lib/logger'
+
+const METHOD_LABELS: Record<FtpEstimateMethod, string> = {
+  twenty_minute: '95% of best 20-min power',
+  cp_model: 'Critical Power model',
+  ramp_test: 'Ramp test (75% of best 1-min power)',
+}
+
+interface FtpProposalBannerProps {
+  /** Called after an FTP change is accepted so the page can refresh its data */
+  onAccepted?: () => void
+}
+
+export function FtpProposalBanner({ onAccepted }: FtpProposalBannerProps) {
+  const [proposal, setProposal] = useState<FtpChangeProposal | null>(null)
+  const [recomputeTss, setRecomputeTss] = useState(true)
+  const [expanded, setExpanded] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const onAcceptedRef = useRef(onAccepted)
+
+  useEffect(() => {
+    onAcceptedRef.current = onAccepted
+  }, [onAccepted])
+
+  const fetchProposal = useCallback(async () => {
+    try {
+      const res = await fetch('/api/ftp-proposals')
+      if (!res.ok) return
+      const data = await res.json()
+      setProposal(data.proposal)
+    } catch {
+      // Silently fail - this is non-critical UI
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchProposal()
+  }, [fetchProposal])
+
+  const resolve = async (action: 'accept' | 'reject') => {
+    if (!proposal) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/ftp-proposals', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, proposalId: proposal.id, recomputeTss }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to update FTP')
+        return
+      }
+      setProposal(null)
+      if (action === 'accept') onAcceptedRef.current?.()
+    } catch (err) {
+      logger.error('FTP proposal update failed:', err)
+      setError('Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!proposal) return null
+
+  const change = proposal.current_ftp ? proposal.proposed_ftp - proposal.current_ftp : null
+  const estimates = proposal.evidence?.estimates ?? []
+
+  return (
+    <div className="mb-6 rounded-lg border border-blue-500/50 bg-blue-500/10 p-4 text-sm">
+      <div className="flex items-start gap-3">
+        <Zap className="mt-0.5 h-5 w-5 flex-shrink-0 text-blue-500" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
+            <h4 className="font-medium text-blue-900 dark:text-blue-200">
+              New FTP estimate: {proposal.proposed_ftp}W
+              {change !== null && (
+                <span className="ml-1 font-normal">
+                  ({change > 0 ? '+' : ''}{change}W from {proposal.current_ftp}W)
+                </span>
+              )}
+            </h4>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => resolve('reject')}
+              disabled={saving}
+              className="h-7 px-2 text-xs text-blue-700 dark:text-blue-300"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <p className="mt-1 text-blue-800/80 dark:text-blue-300/80">
+            Based on {METHOD_LABELS[proposal.method]} from your ride on {proposal.effective_date}.
+            TSS, IF and zones use your FTP, so keeping it current keeps your training load accurate.
+          </p>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded(!expanded)}
+            className="mt-1 h-7 px-2 text-xs text-blue-700 dark:text-blue-300"
+          >
+            {expanded ? (
+              <>
+                <ChevronUp className="mr-1 h-3 w-3" />
+                Hide evidence
+              </>
+            ) : (
+              <>
+                <ChevronDown className="mr-1 h-3 w-3" />
+                {estimates.length} estimate{estimates.length === 1 ? '' : 's'}
+              </>
+            )}
+          </Button>
+
+          {expanded && (
+            <div className="mt-2 space-y-1">
+              {estimates.map((estimate, i) => (
+                <div
+                  key={`${estimate.method}-${i}`}
+                  className="flex items-center justify-between text-xs text-blue-800/70 dark:text-blue-300/70"
+                >
+                  <span>{METHOD_LABELS[estimate.method]}{estimate.date ? ` (${estimate.date})` : ''}</span>
+                  <span>
+                    {estimate.basisWatts}W &rarr; <strong>{estimate.ftp}W</strong>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <Button size="sm" onClick={() => resolve('accept')} disabled={saving}>
+              {saving && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Update FTP to {proposal.proposed_ftp}W
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => resolve('reject')} disabled={saving}>
+              Keep {proposal.current_ftp ?? 'current'}W
+            </Button>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="ftp-recompute-tss"
+                checked={recomputeTss}
+                onCheckedChange={(checked) => setRecomputeTss(checked === true)}
+              />
+              <Label htmlFor="ftp-recompute-tss" className="text-xs font-normal">
+                Recompute TSS for rides since {proposal.effective_date}
+              </Label>
+            </div>
+          </div>
+
+          {error && (
+            <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
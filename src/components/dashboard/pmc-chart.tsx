@@ -1,5 +1,6 @@
 'use client'
 
+import { useState } from 'react'
 import { TrendingUp, TrendingDown } from 'lucide-react'
 import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
 
@@ -25,7 +26,7 @@ import {
   ChartTooltipContent,
   type ChartConfig,
 } from '@/components/ui/chart'
-import type { PMCDataPoint } from '@/lib/transforms'
+import { PMC_SPORTS, type PMCDataPoint, type SportPMCDataPoint } from '@/lib/transforms'
 
 export const TIME_RANGES = {
   '1w': { label: '1 Week', days: 7 },
@@ -38,8 +39,12 @@ export const TIME_RANGES = {
 
 export type TimeRangeKey = keyof typeof TIME_RANGES
 
+type PMCView = 'total' | 'sport'
+
 interface PMCChartProps {
   data: PMCDataPoint[]
+  /** CTL per sport per day; enables the stacked-by-sport view */
+  sportData?: SportPMCDataPoint[]
   ctlTrend?: number // Change in CTL over period
   timeRange?: TimeRangeKey
   onTimeRangeChange?: (range: TimeRangeKey) => void
@@ -60,9 +65,47 @@ const chartConfig = {
   },
 } satisfies ChartConfig
 
-export function PMCChart({ data, ctlTrend = 0, timeRange = '6w', onTimeRangeChange }: PMCChartProps) {
+const sportChartConfig = {
+  cycling: {
+    label: 'Bike CTL',
+    color: 'hsl(221, 83%, 53%)', // Blue
+  },
+  running: {
+    label: 'Run CTL',
+    color: 'hsl(24, 95%, 53%)', // Orange
+  },
+  swimming: {
+    label: 'Swim CTL',
+    color: 'hsl(187, 85%, 43%)', // Cyan
+  },
+  other: {
+    label: 'Other CTL',
+    color: 'hsl(215, 16%, 57%)', // Gray
+  },
+} satisfies ChartConfig
+
+export function PMCChart({ data, sportData, ctlTrend = 0, timeRange = '6w', onTimeRangeChange }: PMCChartProps) {
+  const [view, setView] = useState<PMCView>('total')
   const trendUp = ctlTrend > 0
 
+  // Only offer the split when there is per-sport data; stack the sports that have load
+  const hasSportData = !!sportData && sportData.length > 0
+  const showSports = view === 'sport' && hasSportData
+  const sports = PMC_SPORTS.filter(sport => sportData?.some(point => (point[sport] ?? 0) > 0))
+  const latestSport = sportData?.[sportData.length - 1]
+
+  const ViewDropdown = hasSportData ? (
+    <Select value={view} onValueChange={(value) => setView(value as PMCView)}>
+      <SelectTrigger className="w-[100px] h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="total">Total</SelectItem>
+        <SelectItem value="sport">By sport</SelectItem>
+      </SelectContent>
+    </Select>
+  ) : null
+
   const TimeRangeDropdown = (
     <Select value={timeRange} onValueChange={onTimeRangeChange}>
       <SelectTrigger className="w-[100px] h-8 text-xs">
@@ -106,66 +149,114 @@ export function PMCChart({ data, ctlTrend = 0, timeRange = '6w', onTimeRangeChan
         <div className="flex items-start justify-between gap-2">
           <div className="space-y-1">
             <CardTitle>Performance Management</CardTitle>
-            <CardDescription>Fitness, fatigue, and form</CardDescription>
+            <CardDescription>{showSports ? 'Fitness (CTL) by sport' : 'Fitness, fatigue, and form'}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {ViewDropdown}
+            {TimeRangeDropdown}
           </div>
-          {TimeRangeDropdown}
         </div>
       </CardHeader>
       <CardContent>
-        <ChartContainer config={chartConfig} className="h-[250px] w-full">
-          <AreaChart
-            accessibilityLayer
-            data={data}
-            margin={{
-              left: 12,
-              right: 12,
-              top: 12,
-            }}
-          >
-            <CartesianGrid vertical={false} strokeDasharray="3 3" />
-            <XAxis
-              dataKey="date"
-              tickLine={false}
-              axisLine={false}
-              tickMargin={8}
-              tickFormatter={(value: string) => value}
-            />
-            <YAxis
-              tickLine={false}
-              axisLine={false}
-              tickMargin={8}
-              domain={['auto', 'auto']}
-            />
-            <ChartTooltip
-              cursor={false}
-              content={<ChartTooltipContent indicator="dot" />}
-            />
-            <Area
-              dataKey="tsb"
-              type="monotone"
-              fill="var(--color-tsb)"
-              fillOpacity={0.2}
-              stroke="var(--color-tsb)"
-              strokeWidth={2}
-            />
-            <Area
-              dataKey="atl"
-              type="monotone"
-              fill="var(--color-atl)"
-              fillOpacity={0.2}
-              stroke="var(--color-atl)"
-              strokeWidth={2}
-            />
-            <Area
-              dataKey="ctl"
-              type="monotone"
-              fill="var(--color-ctl)"
-              fillOpacity={0.3}
-              stroke="var(--color-ctl)"
-              strokeWidth={2}
-            />
-          </AreaChart>
-        </ChartContainer>
+        {showSports ? (
+          <ChartContainer config={sportChartConfig} className="h-[250px] w-full">
+            <AreaChart
+              accessibilityLayer
+              data={sportData}
+              margin={{
+                left: 12,
+                right: 12,
+                top: 12,
+              }}
+            >
+              <CartesianGrid vertical={false} strokeDasharray="3 3" />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value: string) => value}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                domain={[0, 'auto']}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent indicator="dot" />}
+              />
+              {sports.map(sport => (
+                <Area
+                  key={sport}
+                  dataKey={sport}
+                  type="monotone"
+                  stackId="ctl"
+                  fill={`var(--color-${sport})`}
+                  fillOpacity={0.4}
+                  stroke={`var(--color-${sport})`}
+                  strokeWidth={2}
+                />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[250px] w-full">
+            <AreaChart
+              accessibilityLayer
+              data={data}
+              margin={{
+                left: 12,
+                right: 12,
+                top: 12,
+              }}
+            >
+              <CartesianGrid vertical={false} strokeDasharray="3 3" />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value: string) => value}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                domain={['auto', 'auto']}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent indicator="dot" />}
+              />
+              <Area
+                dataKey="tsb"
+                type="monotone"
+                fill="var(--color-tsb)"
+                fillOpacity={0.2}
+                stroke="var(--color-tsb)"
+                strokeWidth={2}
+              />
+              <Area
+                dataKey="atl"
+                type="monotone"
+                fill="var(--color-atl)"
+                fillOpacity={0.2}
+                stroke="var(--color-atl)"
+                strokeWidth={2}
+              />
+              <Area
+                dataKey="ctl"
+                type="monotone"
+                fill="var(--color-ctl)"
+                fillOpacity={0.3}
+                stroke="var(--color-ctl)"
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
       </CardContent>
       <CardFooter>
         <div className="flex w-full items-start gap-2 text-sm">
@@ -186,7 +277,9 @@ export function PMCChart({ data, ctlTrend = 0, timeRange = '6w', onTimeRangeChan
               )}
             </div>
             <div className="flex items-center gap-2 leading-none text-muted-foreground">
-              Based on your training load
+              {showSports && latestSport
+                ? sports.map(sport => `${sportChartConfig[sport].label} ${Math.round(latestSport[sport] ?? 0)}`).join(' · ')
+                : 'Based on your training load'}
             </div>
           </div>
         </div>
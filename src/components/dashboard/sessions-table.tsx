@@ -39,6 +39,14 @@ interface SessionsTableProps {
   onMarkRead?: (sessionId: string) => void
 }
 
+// How a TSS without power was scored
+const TSS_METHOD_LABELS: Record<string, string> = {
+  hr: 'hrTSS from heart rate',
+  trimp: 'TRIMP from heart rate',
+  rpe: 'From session RPE',
+  external: 'intervals.icu training load',
+}
+
 function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600)
   const minutes = Math.floor((seconds % 3600) / 60)
@@ -336,8 +344,14 @@ export function SessionsTable({ sessions, sessionReports, unreadCount = 0, onMar
                       <TableCell className="text-right tabular-nums text-sm py-2">
                         {formatDuration(session.duration_seconds)}
                       </TableCell>
-                      <TableCell className="text-right tabular-nums text-sm py-2">
+                      <TableCell
+                        className="text-right tabular-nums text-sm py-2"
+                        title={session.tss_method ? TSS_METHOD_LABELS[session.tss_method] : undefined}
+                      >
                         {session.tss ?? '-'}
+                        {session.tss != null && session.tss_method && session.tss_method !== 'power' && (
+                          <span className="ml-0.5 text-[10px] text-muted-foreground">*</span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right tabular-nums text-sm py-2">
                         {session.normalized_power ?? '-'}
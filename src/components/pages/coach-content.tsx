@@ -95,7 +95,7 @@ function parseCanvasCommands(text: string): WidgetConfig[] | null {
   const widgets: WidgetConfig[] = []
   for (const match of canvasMatch) {
     const type = match.replace('[CANVAS:', '').replace(']', '').trim().toLowerCase()
-    const validTypes = ['fitness', 'pmc-chart', 'sessions', 'sleep', 'power-curve', 'workout-card', 'chart', 'race-history', 'competitor-analysis', 'plan-proposal', 'plan-projection', 'training-calendar', 'session-analysis']
+    const validTypes = ['fitness', 'pmc-chart', 'sessions', 'sleep', 'power-curve', 'workout-card', 'chart', 'race-history', 'competitor-analysis', 'plan-proposal', 'plan-projection', 'training-calendar', 'session-analysis', 'pedaling-analysis']
 
     if (validTypes.includes(type)) {
       widgets.push({
@@ -121,6 +121,7 @@ function getWidgetTitle(type: string): string {
     'chart': 'Chart',
     'training-calendar': 'Training Calendar',
     'session-analysis': 'Session Analysis',
+    'pedaling-analysis': 'Pedaling Analysis',
   }
   return titles[type] || type
 }
@@ -184,13 +185,20 @@ const TOOL_LABELS: Record<string, string> = {
   analyzePowerCurve: 'Analyzing power curve',
   analyzeEfficiency: 'Analyzing efficiency',
   analyzeTrainingLoad: 'Analyzing training load',
+  analyzeCriticalPower: 'Fitting critical power model',
+  analyzePerformanceModel: 'Fitting performance model',
+  analyzeClimbing: 'Analyzing climbs',
+  analyzeRunningBests: 'Finding running bests',
+  analyzePedaling: 'Analyzing pedaling',
   generateTrainingPlan: 'Generating training plan',
   getTrainingPlan: 'Fetching training plan',
   updatePlanDay: 'Updating plan',
   showOnCanvas: 'Preparing display',
   analyzeRace: 'Analyzing race performance',
   proposePlan: 'Creating plan proposal',
+  proposeSeasonPlan: 'Planning season',
   modifyProposal: 'Modifying proposal',
+  adaptTrainingPlan: 'Adapting training plan',
   acceptProposal: 'Activating plan',
   exploreTrainingData: 'Exploring data',
   searchConversationHistory: 'Searching past conversations',
@@ -738,6 +746,7 @@ export function CoachContent() {
       'plan-projection': `Analyze this fitness projection. Will I reach my target fitness? Is the projected TSB good for my event date? What could improve the outcome?`,
       'training-calendar': `Analyze my training calendar. Am I on track with my plan? What's coming up this week?`,
       'session-analysis': `Dig deeper into this session analysis. What are the key takeaways and what should I work on next?`,
+      'pedaling-analysis': `Analyze my pedaling in this session. What do the quadrants, cadence per zone and torque peaks say about my strength and leg speed?`,
     }
 
     const prompt = analyzePrompts[widget.type] || `Analyze the ${widget.title} widget in detail.`
@@ -5,6 +5,9 @@ import { FitnessCard, FatigueCard, FormCard } from '@/components/dashboard/fitne
 import { SessionsTable } from '@/components/dashboard/sessions-table'
 import { PMCChart, TIME_RANGES, type TimeRangeKey } from '@/components/dashboard/pmc-chart'
 import { FileUpload } from '@/components/dashboard/file-upload'
+import { ArchiveImportBanner } from '@/components/dashboard/archive-import-banner'
+import { FtpProposalBanner } from '@/components/dashboard/ftp-proposal-banner'
+import { DiscrepancyAlert } from '@/components/dashboard/discrepancy-alert'
 import { SleepCard } from '@/components/dashboard/sleep-card'
 import { WeightCard } from '@/components/dashboard/weight-card'
 import { DashboardGrid } from '@/components/dashboard/dashboard-grid'
@@ -29,12 +32,13 @@ export function DashboardContent() {
   const {
     connected,
     loading,
-    athlete,
     currentFitness,
     recovery,
     sessions,
     pmcData,
+    sportPmcData,
     ctlTrend,
+    refresh,
   } = useIntervalsData()
 
   // Auto-sync data to Supabase when needed
@@ -47,13 +51,15 @@ export function DashboardContent() {
   const [uploadedSessions, setUploadedSessions] = useState<Session[]>([])
   const [pmcTimeRange, setPmcTimeRange] = useState<TimeRangeKey>('6w')
   const [pmcDataState, setPmcDataState] = useState<typeof pmcData>(pmcData)
+  const [sportPmcDataState, setSportPmcDataState] = useState<typeof sportPmcData>(sportPmcData)
   const [pmcCtlTrendState, setPmcCtlTrendState] = useState<typeof ctlTrend>(ctlTrend)
 
   // Sync initial data from hook
   useEffect(() => {
     setPmcDataState(pmcData)
+    setSportPmcDataState(sportPmcData)
     setPmcCtlTrendState(ctlTrend)
-  }, [pmcData, ctlTrend])
+  }, [pmcData, sportPmcData, ctlTrend])
 
   // Fetch PMC data when time range changes
   useEffect(() => {
@@ -62,17 +68,19 @@ export function DashboardContent() {
       .then(res => res.json())
       .then(data => {
         if (data.pmcData) setPmcDataState(data.pmcData)
+        if (data.sportPmcData) setSportPmcDataState(data.sportPmcData)
         if (data.ctlTrend !== undefined) setPmcCtlTrendState(data.ctlTrend)
       })
       .catch(err => logger.error('Failed to fetch PMC data:', err))
   }, [pmcTimeRange])
 
   const handleSessionUploaded = useCallback((session: Session) => {
-    setUploadedSessions(prev => [session, ...prev])
+    setUploadedSessions(prev => [session, ...prev.filter(s => s.id !== session.id)])
   }, [])
 
+  // Uploaded sessions are persisted, so drop them once the data hook returns them too
   const allSessions = useMemo(() =>
-    [...uploadedSessions, ...sessions]
+    [...uploadedSessions.filter(u => !sessions.some(s => s.id === u.id)), ...sessions]
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
     [uploadedSessions, sessions]
   )
@@ -94,7 +102,6 @@ export function DashboardContent() {
   const displaySessions = allSessions
   const displayPmcData = pmcDataState
   const displayCtlTrend = pmcCtlTrendState
-  const athleteFtp = athlete?.ftp || 250
 
   return (
     <main className="h-full overflow-auto bg-muted/40 pt-[88px] pb-4 px-4 scrollbar-left scrollbar-subtle">
@@ -106,6 +113,15 @@ export function DashboardContent() {
           </div>
         )}
 
+        {/* Bulk import from a Strava/Garmin export */}
+        {!loading && <ArchiveImportBanner onImportComplete={refresh} />}
+
+        {/* Pending FTP change detected from recent rides */}
+        {!loading && <FtpProposalBanner onAccepted={refresh} />}
+
+        {/* Local PMC differs from intervals.icu */}
+        {!loading && connected && <DiscrepancyAlert className="mb-6" onRecomputed={refresh} />}
+
         {/* Dashboard Grid */}
         <DashboardGrid layouts={layouts} onLayoutChange={onLayoutChange} onDragModeChange={setDragMode}>
           <div key="customize" data-widget-id="customize" className="h-full">
@@ -175,7 +191,7 @@ export function DashboardContent() {
               {loading ? (
                 <FileUploadSkeletonCompact />
               ) : (
-                <FileUpload onSessionUploaded={handleSessionUploaded} ftp={athleteFtp} compact />
+                <FileUpload onSessionUploaded={handleSessionUploaded} compact />
               )}
             </div>
           )}
@@ -208,6 +224,7 @@ export function DashboardContent() {
               ) : (
                 <PMCChart
                   data={displayPmcData}
+                  sportData={sportPmcDataState}
                   ctlTrend={displayCtlTrend}
                   timeRange={pmcTimeRange}
                   onTimeRangeChange={setPmcTimeRange}
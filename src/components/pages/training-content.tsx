@@ -12,8 +12,10 @@ import type { WeekStats } from '@/components/training/week-stats-card'
 import { WorkoutDayDetail } from '@/components/training/workout-day-detail'
 import { EventBanner } from '@/components/training/event-banner'
 import { TargetEventSelector } from '@/components/training/target-event-selector'
+import { FitnessProjectionChart } from '@/components/training/fitness-projection-chart'
 import { useCalendarData } from '@/hooks/use-calendar-data'
 import { useTrainingPlan } from '@/hooks/use-training-plan'
+import { useSeasonProjection } from '@/hooks/use-season-projection'
 import type { PlanDay } from '@/types'
 
 export function TrainingContent() {
@@ -41,6 +43,7 @@ export function TrainingContent() {
   } = useCalendarData()
 
   const { upcomingEvents } = useTrainingPlan()
+  const { data: season, refresh: refreshSeason } = useSeasonProjection(plan?.id ?? null)
 
   const [selectedDay, setSelectedDay] = useState<PlanDay | null>(null)
   const [showEventSelector, setShowEventSelector] = useState(false)
@@ -87,7 +90,7 @@ export function TrainingContent() {
       `Generate a training plan for my ${primaryEvent.name} event on ${primaryEvent.date}. ` +
       `It's ${primaryEvent.weeksUntil} weeks away and it's my primary target (${primaryEvent.priority} priority).` +
       (secondaryEventIds.length > 0
-        ? ` I also want to maintain form for ${secondaryEventIds.length} other events.`
+        ? ` I also want to race ${secondaryEventIds.length} other events, so plan the whole season around them.`
         : '')
     )
 
@@ -181,6 +184,18 @@ export function TrainingContent() {
             today={today}
           />
         </div>
+
+        {/* Projection across the plan, with phases and A/B/C events */}
+        {season && season.projections.length > 0 && (
+          <div className="shrink-0 mt-3">
+            <FitnessProjectionChart
+              projections={season.projections}
+              phases={season.phases}
+              title={season.blocks.length > 0 ? 'Season Projection' : 'Plan Projection'}
+              compact
+            />
+          </div>
+        )}
       </div>
 
       {/* Workout detail sheet */}
@@ -191,14 +206,17 @@ export function TrainingContent() {
         onMarkComplete={async (dayId, actualTss, actualDuration) => {
           await markComplete(dayId, { tss: actualTss, duration: actualDuration })
           await refresh()
+          await refreshSeason()
         }}
         onSkip={async (dayId) => {
           await skipDay(dayId)
           await refresh()
+          await refreshSeason()
         }}
         onReschedule={async (dayId, newDate) => {
           await rescheduleDay(dayId, newDate)
           await refresh()
+          await refreshSeason()
         }}
         onUpdateNotes={async (dayId, notes) => {
           await updateNotes(dayId, notes)
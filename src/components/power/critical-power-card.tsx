@@ -0,0 +1,197 @@
+'use client'
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useState } from 'react'
+import { Gauge, Check } from 'lucide-react'
+import type { CriticalPowerResponse } from '@/app/api/power-curve/model/route'
+import type { CpModelType } from '@/lib/analysis/critical-power'
+
+const CP_WINDOWS = [
+  { value: 42, label: '6 weeks' },
+  { value: 90, label: '90 days' },
+  { value: 180, label: '6 months' },
+  { value: 365, label: '1 year' },
+]
+
+const MODEL_LABELS: Record<CpModelType, string> = {
+  two_parameter: '2-parameter',
+  three_parameter: '3-parameter',
+  omni_domain: 'Omni-domain',
+}
+
+interface CriticalPowerCardProps {
+  data: CriticalPowerResponse | null
+  loading: boolean
+  days: number
+  onDaysChange: (days: number) => void
+  /** Save CP/W′ on the athlete (used for W′ balance analysis) */
+  onSave?: (cp: number, wPrime: number) => Promise<boolean>
+}
+
+export function CriticalPowerCard({ data, loading, days, onDaysChange, onSave }: CriticalPowerCardProps) {
+  const [saving, setSaving] = useState(false)
+  const recommended = data?.recommended ?? null
+  const weightKg = data?.weightKg ?? null
+  const saved = data?.saved ?? null
+  const isSaved = !!recommended && saved?.cp === recommended.cp && saved.wPrime === recommended.wPrime
+
+  const handleSave = async () => {
+    if (!recommended || !onSave) return
+    setSaving(true)
+    await onSave(recommended.cp, recommended.wPrime)
+    setSaving(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              Critical Power Model
+            </CardTitle>
+            <CardDescription>
+              CP and W&prime; fitted to your mean-maximal power
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(v) => onDaysChange(Number(v))}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CP_WINDOWS.map((window) => (
+                <SelectItem key={window.value} value={String(window.value)}>
+                  {window.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-[160px] w-full" />
+        ) : !recommended ? (
+          <div className="text-sm text-muted-foreground">
+            Not enough maximal efforts in this window to fit a model. Hard efforts of
+            roughly 3, 8 and 15 minutes give the most reliable fit.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <div className="text-xs text-muted-foreground">CP</div>
+                <div className="text-xl font-bold">{recommended.cp}W</div>
+                {weightKg && (
+                  <div className="text-xs text-muted-foreground">
+                    {(recommended.cp / weightKg).toFixed(2)} W/kg
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">W&prime;</div>
+                <div className="text-xl font-bold">{(recommended.wPrime / 1000).toFixed(1)}kJ</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Pmax</div>
+                <div className="text-xl font-bold">
+                  {recommended.pMax !== null ? `${recommended.pMax}W` : '—'}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Modeled FTP</div>
+                <div className="text-xl font-bold">{recommended.modeledFtp}W</div>
+                {data?.ftp && (
+                  <div className="text-xs text-muted-foreground">Current {data.ftp}W</div>
+                )}
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">CP</TableHead>
+                  <TableHead className="text-right">W&prime;</TableHead>
+                  <TableHead className="text-right">Pmax</TableHead>
+                  <TableHead className="text-right">Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.models.map((model) => (
+                  <TableRow key={model.model}>
+                    <TableCell className="flex items-center gap-2">
+                      {MODEL_LABELS[model.model]}
+                      {model.model === recommended.model && (
+                        <Badge variant="secondary" className="text-xs">Used</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{model.cp}W</TableCell>
+                    <TableCell className="text-right">{(model.wPrime / 1000).toFixed(1)}kJ</TableCell>
+                    <TableCell className="text-right">{model.pMax !== null ? `${model.pMax}W` : '—'}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {model.rmse}W ({model.errorPercent}%)
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                {data?.source === 'streams'
+                  ? `From ${data.sessionCount} rides with power streams`
+                  : 'From power bests recorded'}{' '}
+                between {data?.window.startDate} and {data?.window.endDate}.
+                {saved && !isSaved && ` W′ balance currently uses CP ${saved.cp}W / W′ ${(saved.wPrime / 1000).toFixed(1)}kJ.`}
+              </p>
+              {onSave && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0"
+                  onClick={handleSave}
+                  disabled={saving || isSaved}
+                >
+                  {isSaved ? (
+                    <>
+                      <Check className="mr-1.5 h-3 w-3" />
+                      Used for W′ balance
+                    </>
+                  ) : (
+                    'Use for W′ balance'
+                  )}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
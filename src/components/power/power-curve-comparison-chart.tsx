@@ -0,0 +1,330 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  Line,
+  LineChart,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/lib/utils'
+import {
+  usePowerCurveComparison,
+  type PowerCurveComparisonSelection,
+} from '@/hooks/use-power-curve-comparison'
+import type { ComparisonPoint, ComparisonPreset } from '@/lib/analysis/power-curve-comparison'
+
+interface PowerCurveComparisonChartProps {
+  /** Windows shown first; defaults to this season vs. last */
+  defaultSelection?: PowerCurveComparisonSelection
+}
+
+const chartConfig = {
+  baseline: {
+    label: 'Baseline',
+    color: 'hsl(0, 0%, 60%)',
+  },
+  current: {
+    label: 'Current',
+    color: 'hsl(221, 83%, 53%)',
+  },
+} satisfies ChartConfig
+
+const PRESET_OPTIONS: Array<{ value: ComparisonPreset | 'custom'; label: string }> = [
+  { value: 'season', label: 'This season vs last' },
+  { value: 'last-42-days-vs-all-time', label: 'Last 42 days vs all-time' },
+  { value: 'last-90-days-vs-previous', label: 'Last 90 days vs previous' },
+  { value: 'custom', label: 'Custom windows' },
+]
+
+// Durations summarized below the chart
+const KEY_DURATIONS = [5, 60, 300, 1200, 3600]
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '–'
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+function deltaClass(value: number | null): string {
+  if (value === null || value === 0) return 'text-muted-foreground'
+  return value > 0 ? 'text-green-600' : 'text-red-600'
+}
+
+export function PowerCurveComparisonChart({
+  defaultSelection = { preset: 'season' },
+}: PowerCurveComparisonChartProps) {
+  const [selection, setSelection] = useState<PowerCurveComparisonSelection>(defaultSelection)
+  const [custom, setCustom] = useState(() => 'baseline' in defaultSelection
+    ? {
+        baselineStart: defaultSelection.baseline.startDate,
+        baselineEnd: defaultSelection.baseline.endDate,
+        currentStart: defaultSelection.current.startDate,
+        currentEnd: defaultSelection.current.endDate,
+      }
+    : { baselineStart: '', baselineEnd: '', currentStart: '', currentEnd: '' })
+  const [showCustom, setShowCustom] = useState('baseline' in defaultSelection)
+  const [showWkg, setShowWkg] = useState(false)
+  const { data, loading, error } = usePowerCurveComparison(selection)
+
+  const points = useMemo(() => data?.comparison.points ?? [], [data])
+  const canShowWkg = points.some(p => p.baselineWkg !== null || p.wkg !== null)
+  const wkgMode = showWkg && canShowWkg
+
+  const chartData = useMemo(() => points.map(point => ({
+    ...point,
+    baseline: wkgMode ? point.baselineWkg : point.baselineWatts,
+    current: wkgMode ? point.wkg : point.watts,
+  })), [points, wkgMode])
+
+  const keyPoints = KEY_DURATIONS
+    .map(duration => points.find(p => p.duration === duration))
+    .filter((p): p is ComparisonPoint => !!p)
+
+  const customValid = !!custom.baselineStart && !!custom.baselineEnd && !!custom.currentStart && !!custom.currentEnd
+    && custom.baselineEnd >= custom.baselineStart && custom.currentEnd >= custom.currentStart
+
+  const selectValue = showCustom ? 'custom' : 'preset' in selection ? selection.preset : 'custom'
+
+  const handlePresetChange = (value: string) => {
+    if (value === 'custom') {
+      setShowCustom(true)
+      return
+    }
+    setShowCustom(false)
+    setSelection({ preset: value as ComparisonPreset })
+  }
+
+  const applyCustom = () => {
+    if (!customValid) return
+    setSelection({
+      baseline: { startDate: custom.baselineStart, endDate: custom.baselineEnd },
+      current: { startDate: custom.currentStart, endDate: custom.currentEnd },
+    })
+  }
+
+  const baselineLabel = data?.baseline.label ?? 'Baseline'
+  const currentLabel = data?.current.label ?? 'Current'
+  const avgDelta = wkgMode ? data?.comparison.avgDeltaWkgPercent ?? null : data?.comparison.avgDeltaPercent ?? null
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle>Power Curve Comparison</CardTitle>
+            <CardDescription>
+              Mean-maximal power of two periods, with the change at each duration
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectValue} onValueChange={handlePresetChange}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRESET_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canShowWkg && (
+              <div className="flex gap-1">
+                <Button
+                  variant={!wkgMode ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowWkg(false)}
+                >
+                  Watts
+                </Button>
+                <Button
+                  variant={wkgMode ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowWkg(true)}
+                >
+                  W/kg
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+        {showCustom && (
+          <div className="flex flex-wrap items-end gap-2 pt-2 text-xs text-muted-foreground">
+            <div className="space-y-1">
+              <div>Before</div>
+              <div className="flex gap-1">
+                <Input type="date" className="w-36" value={custom.baselineStart}
+                  onChange={(e) => setCustom(c => ({ ...c, baselineStart: e.target.value }))} />
+                <Input type="date" className="w-36" value={custom.baselineEnd}
+                  onChange={(e) => setCustom(c => ({ ...c, baselineEnd: e.target.value }))} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div>After</div>
+              <div className="flex gap-1">
+                <Input type="date" className="w-36" value={custom.currentStart}
+                  onChange={(e) => setCustom(c => ({ ...c, currentStart: e.target.value }))} />
+                <Input type="date" className="w-36" value={custom.currentEnd}
+                  onChange={(e) => setCustom(c => ({ ...c, currentEnd: e.target.value }))} />
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={applyCustom} disabled={!customValid}>
+              Compare
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[350px] w-full" />
+        ) : error ? (
+          <div className="flex items-center justify-center h-[300px] text-muted-foreground text-sm">
+            Failed to load the power curve comparison.
+          </div>
+        ) : points.length === 0 ? (
+          <div className="flex items-center justify-center h-[300px] text-muted-foreground text-sm">
+            No power data in these periods. Sync rides with power to compare them.
+          </div>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="h-[350px] w-full">
+              <LineChart
+                data={chartData}
+                margin={{
+                  top: 20,
+                  right: 20,
+                  left: 10,
+                  bottom: 20,
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="durationLabel"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  width={50}
+                  tickFormatter={(value: number) =>
+                    wkgMode ? `${value.toFixed(1)}` : `${value}`
+                  }
+                  label={{
+                    value: wkgMode ? 'W/kg' : 'Watts',
+                    angle: -90,
+                    position: 'insideLeft',
+                    style: { textAnchor: 'middle', fontSize: 12 },
+                  }}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      hideIndicator
+                      formatter={(_value: unknown, _name: unknown, props: Record<string, unknown>, index: number) => {
+                        // One block for both lines
+                        if (index !== 0) return null
+                        const point = props.payload as ComparisonPoint
+                        const unit = wkgMode ? ' W/kg' : 'W'
+                        const before = wkgMode ? point.baselineWkg : point.baselineWatts
+                        const after = wkgMode ? point.wkg : point.watts
+                        const delta = wkgMode ? point.deltaWkgPercent : point.deltaPercent
+                        return (
+                          <div className="space-y-1">
+                            <div className="font-medium">{point.durationLabel}</div>
+                            <div>{baselineLabel}: {before !== null ? `${before}${unit}` : '–'}</div>
+                            <div>{currentLabel}: {after !== null ? `${after}${unit}` : '–'}</div>
+                            <div className={deltaClass(delta)}>{formatDelta(delta)}</div>
+                          </div>
+                        )
+                      }}
+                    />
+                  }
+                />
+                <Line
+                  type="monotone"
+                  dataKey="baseline"
+                  stroke="var(--color-baseline)"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="current"
+                  stroke="var(--color-current)"
+                  strokeWidth={3}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+
+            {/* Legend */}
+            <div className="flex items-center justify-center gap-4 mt-2 text-xs text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-0.5 bg-gray-400" />
+                <span>
+                  {baselineLabel}
+                  {wkgMode && data?.baseline.weightKg && ` (${data.baseline.weightKg} kg)`}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-0.5 bg-blue-500" />
+                <span>
+                  {currentLabel}
+                  {wkgMode && data?.current.weightKg && ` (${data.current.weightKg} kg)`}
+                </span>
+              </div>
+            </div>
+
+            {/* Change at key durations */}
+            <div className="mt-4 grid grid-cols-3 sm:grid-cols-6 gap-2 text-center text-sm tabular-nums">
+              {keyPoints.map(point => {
+                const delta = wkgMode ? point.deltaWkgPercent : point.deltaPercent
+                return (
+                  <div key={point.duration} className="rounded-md border p-2">
+                    <div className="text-xs text-muted-foreground">{point.durationLabel}</div>
+                    <div className={cn('font-medium', deltaClass(delta))}>{formatDelta(delta)}</div>
+                  </div>
+                )
+              })}
+              <div className="rounded-md border p-2">
+                <div className="text-xs text-muted-foreground">Average</div>
+                <div className={cn('font-medium', deltaClass(avgDelta))}>{formatDelta(avgDelta)}</div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -26,10 +26,14 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { Trophy } from 'lucide-react'
 import type { ProjectedFitness } from '@/lib/fitness/projector'
+import type { PhaseBand } from '@/lib/plans/season'
 
 interface FitnessProjectionChartProps {
   projections: ProjectedFitness[]
   compact?: boolean
+  title?: string
+  /** Plan phases drawn as background bands */
+  phases?: PhaseBand[]
 }
 
 const chartConfig = {
@@ -45,8 +49,26 @@ const chartConfig = {
     label: 'Form (TSB)',
     color: 'hsl(142, 71%, 45%)', // Green
   },
+  predictedPerformance: {
+    label: 'Performance (%)',
+    color: 'hsl(271, 76%, 53%)', // Purple
+  },
 } satisfies ChartConfig
 
+const PHASE_COLORS: Record<string, string> = {
+  base: 'hsl(199, 89%, 48%)',
+  build: 'hsl(262, 83%, 58%)',
+  peak: 'hsl(0, 84%, 60%)',
+  taper: 'hsl(142, 71%, 45%)',
+  recovery: 'hsl(0, 0%, 60%)',
+}
+
+const EVENT_COLORS: Record<string, string> = {
+  A: 'hsl(38, 92%, 50%)',
+  B: 'hsl(221, 83%, 53%)',
+  C: 'hsl(0, 0%, 60%)',
+}
+
 function getTsbStatus(tsb: number): { label: string; color: string } {
   if (tsb >= 5 && tsb <= 25) {
     return { label: 'Peak Form', color: 'text-green-500' }
@@ -64,6 +86,8 @@ function getTsbStatus(tsb: number): { label: string; color: string } {
 export function FitnessProjectionChart({
   projections,
   compact = false,
+  title = 'Fitness Projection',
+  phases = [],
 }: FitnessProjectionChartProps) {
   // Get event days for markers
   const eventDays = useMemo(
@@ -71,6 +95,25 @@ export function FitnessProjectionChart({
     [projections]
   )
 
+  // C-events are trained through, so only A/B form gets a badge
+  const badgeEvents = eventDays.filter(e => e.eventPriority !== 'C')
+
+  // Phase bands clipped to the projected range
+  const phaseBands = useMemo(() => {
+    if (projections.length === 0) return []
+    const first = projections[0].date
+    const last = projections[projections.length - 1].date
+    return phases
+      .filter(p => p.endDate >= first && p.startDate <= last)
+      .map(p => ({
+        ...p,
+        startDate: p.startDate < first ? first : p.startDate,
+        endDate: p.endDate > last ? last : p.endDate,
+      }))
+  }, [projections, phases])
+
+  const hasPerformance = projections.some(p => p.predictedPerformance != null)
+
   // Find today's position
   const today = new Date().toISOString().split('T')[0]
   const todayIndex = projections.findIndex(p => p.date === today)
@@ -79,7 +122,7 @@ export function FitnessProjectionChart({
     return (
       <Card className={compact ? 'h-full' : ''}>
         <CardHeader className={compact ? 'pb-2' : ''}>
-          <CardTitle className={compact ? 'text-base' : ''}>Fitness Projection</CardTitle>
+          <CardTitle className={compact ? 'text-base' : ''}>{title}</CardTitle>
           <CardDescription>
             Projected CTL, ATL, and TSB based on planned workouts
           </CardDescription>
@@ -98,14 +141,14 @@ export function FitnessProjectionChart({
       <CardHeader className={compact ? 'pb-2' : ''}>
         <div className="flex items-center justify-between">
           <div>
-            <CardTitle className={compact ? 'text-base' : ''}>Fitness Projection</CardTitle>
+            <CardTitle className={compact ? 'text-base' : ''}>{title}</CardTitle>
             <CardDescription>
               Projected CTL, ATL, and TSB based on planned workouts
             </CardDescription>
           </div>
-          {eventDays.length > 0 && (
+          {badgeEvents.length > 0 && (
             <div className="flex items-center gap-2">
-              {eventDays.slice(0, 2).map(event => {
+              {badgeEvents.slice(0, compact ? 2 : 3).map(event => {
                 const status = getTsbStatus(event.projectedTsb)
                 return (
                   <Badge
@@ -167,6 +210,18 @@ export function FitnessProjectionChart({
               tickMargin={8}
               width={40}
             />
+            {hasPerformance && (
+              <YAxis
+                yAxisId="performance"
+                orientation="right"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                width={40}
+                domain={['auto', 'auto']}
+                unit="%"
+              />
+            )}
             <ChartTooltip
               content={
                 <ChartTooltipContent
@@ -182,6 +237,19 @@ export function FitnessProjectionChart({
               }
             />
 
+            {/* Plan phases */}
+            {phaseBands.map(band => (
+              <ReferenceArea
+                key={band.startDate}
+                x1={band.startDate}
+                x2={band.endDate}
+                fill={PHASE_COLORS[band.phase] ?? PHASE_COLORS.recovery}
+                fillOpacity={0.06}
+                strokeOpacity={0}
+                label={compact ? undefined : { value: band.phase, position: 'insideTopLeft', fontSize: 10 }}
+              />
+            ))}
+
             {/* Optimal TSB zone (5-25) */}
             <ReferenceArea
               y1={5}
@@ -206,8 +274,9 @@ export function FitnessProjectionChart({
               <ReferenceLine
                 key={event.date}
                 x={event.date}
-                stroke={event.eventPriority === 'A' ? 'hsl(38, 92%, 50%)' : 'hsl(0, 0%, 60%)'}
-                strokeWidth={2}
+                stroke={EVENT_COLORS[event.eventPriority ?? 'C'] ?? EVENT_COLORS.C}
+                strokeWidth={event.eventPriority === 'C' ? 1 : 2}
+                strokeDasharray={event.eventPriority === 'C' ? '4 4' : undefined}
               />
             ))}
 
@@ -233,6 +302,16 @@ export function FitnessProjectionChart({
               strokeWidth={2}
               strokeDasharray="5 5"
             />
+            {hasPerformance && (
+              <Area
+                yAxisId="performance"
+                type="monotone"
+                dataKey="predictedPerformance"
+                stroke="hsl(271, 76%, 53%)"
+                fill="none"
+                strokeWidth={2}
+              />
+            )}
           </AreaChart>
         </ChartContainer>
 
@@ -250,10 +329,24 @@ export function FitnessProjectionChart({
             <div className="w-3 h-0.5 bg-green-500 border-dashed" style={{ borderTopWidth: 2, borderStyle: 'dashed' }} />
             <span>TSB</span>
           </div>
+          {hasPerformance && (
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-0.5 bg-purple-500" />
+              <span>Performance</span>
+            </div>
+          )}
           <div className="flex items-center gap-1">
             <div className="w-3 h-3 bg-green-500/10 border border-green-500/30" />
             <span>Peak Zone</span>
           </div>
+          {(['A', 'B', 'C'] as const)
+            .filter(priority => eventDays.some(e => e.eventPriority === priority))
+            .map(priority => (
+              <div key={priority} className="flex items-center gap-1">
+                <div className="w-0.5 h-3" style={{ backgroundColor: EVENT_COLORS[priority] }} />
+                <span>{priority}-event</span>
+              </div>
+            ))}
         </div>
       </CardContent>
     </Card>
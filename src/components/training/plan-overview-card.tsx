@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Calendar, Target, Clock } from 'lucide-react'
+import { summarizePlanCompliance } from '@/lib/analysis/plan-compliance'
 import type { TrainingPlan, PlanDay } from '@/types'
 
 interface PlanOverviewCardProps {
@@ -48,6 +49,10 @@ export function PlanOverviewCard({ plan, days }: PlanOverviewCardProps) {
   const completedThisWeek = thisWeekDays.filter(d => d.completed).length
   const totalWorkoutsThisWeek = thisWeekDays.filter(d => d.workout_name).length
 
+  // Compliance of the workout days so far
+  const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
+  const compliance = summarizePlanCompliance(days, todayStr)
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -96,6 +101,32 @@ export function PlanOverviewCard({ plan, days }: PlanOverviewCardProps) {
           </div>
         </div>
 
+        {compliance.averageScore !== null && (
+          <div className="flex items-center justify-between pt-2 border-t text-sm">
+            <div>
+              <span className="font-medium">{Math.round(compliance.averageScore * 100)}%</span>
+              <span className="text-xs text-muted-foreground ml-1">compliance</span>
+            </div>
+            <div className="flex items-center gap-3 text-xs tabular-nums">
+              <span className="flex items-center gap-1">
+                <span className="size-2 rounded-full bg-green-500" />
+                {compliance.green}
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="size-2 rounded-full bg-yellow-500" />
+                {compliance.yellow}
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="size-2 rounded-full bg-red-500" />
+                {compliance.red}
+                {compliance.missed > 0 && (
+                  <span className="text-muted-foreground">({compliance.missed} missed)</span>
+                )}
+              </span>
+            </div>
+          </div>
+        )}
+
         {plan.target_event_date && (
           <div className="pt-2 border-t">
             <div className="text-xs text-muted-foreground">
@@ -0,0 +1,771 @@
+'use client'
+
+/**
+ * Plan Templates Editor
+ *
+ * Settings card for coach-defined training plan templates: start from a
+ * built-in or a blank plan, lay out weeks (phase, TSS range, load multiplier)
+ * and their key workouts, share with athletes by email and exchange
+ * templates as JSON files. Saved templates are picked by the plan generator
+ * alongside the built-ins.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Loader2, Plus, Trash2, Pencil, Copy, Download, Upload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { PlanTemplatesResponse, SavedPlanTemplate } from '@/app/api/plan-templates/route'
+import {
+  PLAN_GOALS,
+  type PlanGoal,
+  type PlanTemplate,
+  type WeekTemplate,
+} from '@/lib/plans/templates'
+import {
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_PHASES,
+  exportPlanTemplate,
+  normalizePlanTemplate,
+  validatePlanTemplate,
+} from '@/lib/plans/custom-templates'
+import { getWorkoutsBySport, type TrainingPhase, type WorkoutCategory, type WorkoutSport } from '@/lib/workouts/library'
+import { logger } from '@/lib/logger'
+
+const GOAL_LABELS: Record<PlanGoal, string> = {
+  base_build: 'Base building',
+  ftp_build: 'Threshold build',
+  event_prep: 'Event prep',
+  taper: 'Taper',
+  maintenance: 'Maintenance',
+}
+
+const PHASE_COLORS: Record<string, string> = {
+  base: 'hsl(199, 89%, 48%)',
+  build: 'hsl(262, 83%, 58%)',
+  peak: 'hsl(0, 84%, 60%)',
+  taper: 'hsl(142, 71%, 45%)',
+  recovery: 'hsl(0, 0%, 60%)',
+}
+
+/** Select value for a key workout slot without a preferred workout */
+const ANY_WORKOUT = 'any'
+
+interface Draft {
+  /** plan_templates row id; absent for new templates */
+  id?: string
+  template: PlanTemplate
+  shares: SavedPlanTemplate['shares']
+}
+
+function blankWeek(phase: TrainingPhase = 'base'): WeekTemplate {
+  return {
+    weekNumber: 1,
+    phase,
+    focusDescription: '',
+    targetTSSRange: [90, 100],
+    keyWorkouts: [],
+    recoveryDays: 2,
+    intensityDistribution: { zone1_2: 80, zone3_4: 15, zone5_plus: 5 },
+  }
+}
+
+function blankTemplate(): PlanTemplate {
+  return {
+    id: '',
+    name: '',
+    sport: 'cycling',
+    goal: 'base_build',
+    description: '',
+    durationWeeks: 1,
+    minCTL: 0,
+    suitableFor: [],
+    weeks: [blankWeek()],
+    recoveryWeekFrequency: 4,
+    recoveryWeekLoadReduction: 0.6,
+    weeklyTSSProgression: [1],
+    tags: [],
+  }
+}
+
+function copyOf<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function downloadTemplate(template: PlanTemplate) {
+  const json = JSON.stringify(exportPlanTemplate(template), null, 2)
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'plan-template'}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Relative weekly load bars, colored by phase
+ */
+function WeekLoadBars({ template }: { template: PlanTemplate }) {
+  const loads = template.weeks.map((week, i) =>
+    (template.weeklyTSSProgression[i] || 1) * (week.targetTSSRange[0] + week.targetTSSRange[1]) / 2
+  )
+  const max = Math.max(...loads, 1)
+
+  return (
+    <div className="flex h-16 items-end gap-1">
+      {template.weeks.map((week, i) => (
+        <div
+          key={i}
+          className="flex-1 rounded-t-sm"
+          title={`Week ${i + 1}: ${week.phase}, ${Math.round(loads[i])}% of baseline`}
+          style={{
+            height: `${Math.max(4, (loads[i] / max) * 100)}%`,
+            backgroundColor: PHASE_COLORS[week.phase] ?? PHASE_COLORS.recovery,
+          }}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function PlanTemplatesEditor() {
+  const [data, setData] = useState<PlanTemplatesResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [shareEmail, setShareEmail] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/plan-templates')
+      if (!res.ok) return
+      setData(await res.json())
+    } catch (err) {
+      logger.error('Failed to load plan templates:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const request = async <T = SavedPlanTemplate>(method: string, body?: unknown, query = ''): Promise<T | null> => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/plan-templates${query}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.error || 'Plan template request failed')
+        return null
+      }
+      await fetchTemplates()
+      return result
+    } catch (err) {
+      logger.error('Plan template request failed:', err)
+      setError('Network error')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openDraft = (saved: SavedPlanTemplate) => {
+    setDraft({ id: saved.id, template: copyOf(saved.template), shares: saved.shares })
+    setShareEmail('')
+    setError(null)
+  }
+
+  const startFrom = (template: PlanTemplate, name: string) => {
+    setDraft({ template: { ...copyOf(template), id: '', isCustom: undefined, name }, shares: [] })
+    setError(null)
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    const template = normalizePlanTemplate(draft.template)
+    const invalid = validatePlanTemplate(template)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    const saved = await request(draft.id ? 'PATCH' : 'POST', draft.id
+      ? { action: 'update', id: draft.id, template }
+      : { template })
+    if (saved) setDraft(null)
+  }
+
+  const deleteTemplate = async (id: string) => {
+    const result = await request<{ success: boolean }>('DELETE', undefined, `?id=${id}`)
+    if (result) setDraft(null)
+  }
+
+  const share = async () => {
+    if (!draft?.id || !shareEmail.trim()) return
+    const saved = await request('PATCH', { action: 'share', id: draft.id, email: shareEmail })
+    if (saved) {
+      setDraft(d => d && { ...d, shares: saved.shares })
+      setShareEmail('')
+    }
+  }
+
+  const unshare = async (id: string, email?: string) => {
+    const result = await request<{ success: boolean }>('PATCH', { action: 'unshare', id, email })
+    if (result && email) {
+      setDraft(d => d && { ...d, shares: d.shares.filter(s => s.email !== email) })
+    }
+  }
+
+  const importFile = async (file: File) => {
+    const saved = await request('POST', { import: await file.text() })
+    if (saved) openDraft(saved)
+  }
+
+  const updateTemplate = (changes: Partial<PlanTemplate>) => {
+    setDraft(d => d && { ...d, template: { ...d.template, ...changes } })
+  }
+
+  const updateWeek = (index: number, changes: Partial<WeekTemplate>) => {
+    setDraft(d => d && {
+      ...d,
+      template: {
+        ...d.template,
+        weeks: d.template.weeks.map((week, i) => i === index ? { ...week, ...changes } : week),
+      },
+    })
+  }
+
+  const updateKeyWorkout = (
+    weekIndex: number,
+    slot: number,
+    changes: Partial<WeekTemplate['keyWorkouts'][number]>
+  ) => {
+    if (!draft) return
+    const week = draft.template.weeks[weekIndex]
+    updateWeek(weekIndex, {
+      keyWorkouts: week.keyWorkouts.map((kw, i) => i === slot ? { ...kw, ...changes } : kw),
+    })
+  }
+
+  const setMultiplier = (index: number, value: number) => {
+    if (!draft) return
+    updateTemplate({
+      weeklyTSSProgression: draft.template.weeks.map((_, i) =>
+        i === index ? value : draft.template.weeklyTSSProgression[i] ?? 1
+      ),
+    })
+  }
+
+  const insertWeek = (index: number, week: WeekTemplate, multiplier: number) => {
+    if (!draft) return
+    const { weeks, weeklyTSSProgression } = draft.template
+    updateTemplate({
+      weeks: [...weeks.slice(0, index), copyOf(week), ...weeks.slice(index)],
+      weeklyTSSProgression: [
+        ...weeks.slice(0, index).map((_, i) => weeklyTSSProgression[i] ?? 1),
+        multiplier,
+        ...weeks.slice(index).map((_, i) => weeklyTSSProgression[index + i] ?? 1),
+      ],
+    })
+  }
+
+  const removeWeek = (index: number) => {
+    if (!draft) return
+    updateTemplate({
+      weeks: draft.template.weeks.filter((_, i) => i !== index),
+      weeklyTSSProgression: draft.template.weeklyTSSProgression.filter((_, i) => i !== index),
+    })
+  }
+
+  const sport: WorkoutSport = draft?.template.sport ?? 'cycling'
+  const workouts = getWorkoutsBySport(sport)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Plan Templates</CardTitle>
+        <CardDescription>
+          Your own training plan templates, used alongside the built-in plans when the coach builds a plan
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Saved templates */}
+            <div className="space-y-2">
+              {data.own.length === 0 && data.shared.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No templates yet. Start from a built-in plan, a blank plan or a JSON file.
+                </p>
+              )}
+              {[...data.own, ...data.shared].map(saved => {
+                const isOwn = data.own.includes(saved)
+                return (
+                  <div key={saved.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{saved.template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {saved.template.durationWeeks} weeks · {GOAL_LABELS[saved.template.goal]} · {saved.template.sport ?? 'cycling'}
+                        {isOwn
+                          ? saved.shares.length > 0 && ` · shared with ${saved.shares.length}`
+                          : ' · shared with you'}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center">
+                      {isOwn ? (
+                        <Button variant="ghost" size="icon" title="Edit template" onClick={() => openDraft(saved)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Copy to your templates"
+                            onClick={() => startFrom(saved.template, `${saved.template.name} (copy)`)}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Remove from your templates"
+                            disabled={saving}
+                            onClick={() => unshare(saved.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="icon" title="Export as JSON" onClick={() => downloadTemplate(saved.template)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Select onValueChange={(id) => {
+                const builtIn = data.builtIn.find(t => t.id === id)
+                if (builtIn) startFrom(builtIn, `${builtIn.name} (custom)`)
+              }}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue placeholder="Start from a built-in plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.builtIn.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => startFrom(blankTemplate(), '')}>
+                <Plus className="mr-1 h-3 w-3" />
+                Blank plan
+              </Button>
+              <Button variant="outline" size="sm" disabled={saving} onClick={() => fileInput.current?.click()}>
+                <Upload className="mr-1 h-3 w-3" />
+                Import JSON
+              </Button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+
+            {/* Template editor */}
+            {draft && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="plan-template-name">Name</Label>
+                    <Input
+                      id="plan-template-name"
+                      value={draft.template.name}
+                      onChange={(e) => updateTemplate({ name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Goal</Label>
+                    <Select
+                      value={draft.template.goal}
+                      onValueChange={(value) => updateTemplate({ goal: value as PlanGoal })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PLAN_GOALS.map(goal => (
+                          <SelectItem key={goal} value={goal}>{GOAL_LABELS[goal]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 sm:col-span-3">
+                    <Label htmlFor="plan-template-description">Description</Label>
+                    <Input
+                      id="plan-template-description"
+                      value={draft.template.description}
+                      onChange={(e) => updateTemplate({ description: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Sport</Label>
+                    <Select
+                      value={sport}
+                      onValueChange={(value) => updateTemplate({ sport: value as WorkoutSport })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cycling">Cycling</SelectItem>
+                        <SelectItem value="running">Running</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-template-min-ctl">CTL range</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="plan-template-min-ctl"
+                        type="number"
+                        value={draft.template.minCTL}
+                        onChange={(e) => updateTemplate({ minCTL: parseFloat(e.target.value) || 0 })}
+                      />
+                      <span className="text-xs text-muted-foreground">to</span>
+                      <Input
+                        type="number"
+                        value={draft.template.maxCTL ?? ''}
+                        placeholder="Any"
+                        onChange={(e) => updateTemplate({
+                          maxCTL: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                        })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-template-recovery">Recovery week</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="plan-template-recovery"
+                        type="number"
+                        title="Every n weeks (0 = none)"
+                        value={draft.template.recoveryWeekFrequency}
+                        onChange={(e) => updateTemplate({ recoveryWeekFrequency: parseInt(e.target.value) || 0 })}
+                      />
+                      <span className="text-xs text-muted-foreground">wks at</span>
+                      <Input
+                        type="number"
+                        step="0.05"
+                        title="Load as a fraction of a normal week"
+                        value={draft.template.recoveryWeekLoadReduction}
+                        onChange={(e) => updateTemplate({ recoveryWeekLoadReduction: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Weekly load */}
+                <div className="space-y-2">
+                  <Label>Weekly load</Label>
+                  <WeekLoadBars template={draft.template} />
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {TEMPLATE_PHASES.filter(p => p !== 'any').map(phase => (
+                      <span key={phase} className="inline-flex items-center gap-1.5">
+                        <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: PHASE_COLORS[phase] }} />
+                        {phase}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Weeks */}
+                <div className="space-y-3">
+                  {draft.template.weeks.map((week, weekIndex) => (
+                    <div key={weekIndex} className="space-y-3 rounded-md border p-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span
+                          className="h-3 w-3 rounded-sm"
+                          style={{ backgroundColor: PHASE_COLORS[week.phase] ?? PHASE_COLORS.recovery }}
+                        />
+                        <span className="w-16 text-sm font-medium">Week {weekIndex + 1}</span>
+                        <Select
+                          value={week.phase}
+                          onValueChange={(value) => updateWeek(weekIndex, { phase: value as TrainingPhase })}
+                        >
+                          <SelectTrigger className="w-[120px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TEMPLATE_PHASES.map(phase => (
+                              <SelectItem key={phase} value={phase}>{phase}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          value={week.focusDescription}
+                          placeholder="Focus"
+                          onChange={(e) => updateWeek(weekIndex, { focusDescription: e.target.value })}
+                          className="min-w-[160px] flex-1"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Duplicate week"
+                          disabled={draft.template.weeks.length >= 52}
+                          onClick={() => insertWeek(weekIndex + 1, week, draft.template.weeklyTSSProgression[weekIndex] ?? 1)}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Remove week"
+                          disabled={draft.template.weeks.length <= 1}
+                          onClick={() => removeWeek(weekIndex)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <span>TSS</span>
+                        <Input
+                          type="number"
+                          value={week.targetTSSRange[0]}
+                          onChange={(e) => updateWeek(weekIndex, {
+                            targetTSSRange: [parseFloat(e.target.value) || 0, week.targetTSSRange[1]],
+                          })}
+                          className="h-8 w-20"
+                        />
+                        <span>–</span>
+                        <Input
+                          type="number"
+                          value={week.targetTSSRange[1]}
+                          onChange={(e) => updateWeek(weekIndex, {
+                            targetTSSRange: [week.targetTSSRange[0], parseFloat(e.target.value) || 0],
+                          })}
+                          className="h-8 w-20"
+                        />
+                        <span>% of baseline, ×</span>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          value={draft.template.weeklyTSSProgression[weekIndex] ?? 1}
+                          onChange={(e) => setMultiplier(weekIndex, parseFloat(e.target.value) || 0)}
+                          className="h-8 w-20"
+                        />
+                        <span>load,</span>
+                        <Input
+                          type="number"
+                          value={week.recoveryDays}
+                          onChange={(e) => updateWeek(weekIndex, { recoveryDays: parseInt(e.target.value) || 0 })}
+                          className="h-8 w-16"
+                        />
+                        <span>recovery days</span>
+                      </div>
+
+                      {/* Key workouts, one per key day in order */}
+                      <div className="space-y-2">
+                        {week.keyWorkouts.map((kw, slot) => (
+                          <div key={slot} className="flex flex-wrap items-center gap-2">
+                            <span className="w-14 text-xs text-muted-foreground">Key {slot + 1}</span>
+                            <Select
+                              value={kw.category}
+                              onValueChange={(value) => updateKeyWorkout(weekIndex, slot, {
+                                category: value as WorkoutCategory,
+                                preferredWorkoutIds: undefined,
+                              })}
+                            >
+                              <SelectTrigger className="w-[130px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {TEMPLATE_CATEGORIES.map(category => (
+                                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={kw.preferredWorkoutIds?.[0] ?? ANY_WORKOUT}
+                              onValueChange={(value) => updateKeyWorkout(weekIndex, slot, {
+                                preferredWorkoutIds: value === ANY_WORKOUT ? undefined : [value],
+                              })}
+                            >
+                              <SelectTrigger className="min-w-[180px] flex-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={ANY_WORKOUT}>Any {kw.category} workout</SelectItem>
+                                {workouts
+                                  .filter(w => w.category === kw.category || kw.preferredWorkoutIds?.includes(w.id))
+                                  .map(w => (
+                                    <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            {(kw.preferredWorkoutIds?.length ?? 0) > 1 && (
+                              <span className="text-xs text-muted-foreground">
+                                +{kw.preferredWorkoutIds!.length - 1} alt
+                              </span>
+                            )}
+                            <Input
+                              type="number"
+                              title="Share of the weekly TSS"
+                              value={kw.targetTSSPercent}
+                              onChange={(e) => updateKeyWorkout(weekIndex, slot, {
+                                targetTSSPercent: parseFloat(e.target.value) || 0,
+                              })}
+                              className="h-8 w-16"
+                            />
+                            <span className="text-xs text-muted-foreground">%</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => updateWeek(weekIndex, {
+                                keyWorkouts: week.keyWorkouts
+                                  .filter((_, i) => i !== slot)
+                                  .map((kw, i) => ({ ...kw, dayOffset: i })),
+                              })}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={week.keyWorkouts.length >= 7}
+                          onClick={() => updateWeek(weekIndex, {
+                            keyWorkouts: [
+                              ...week.keyWorkouts,
+                              { dayOffset: week.keyWorkouts.length, category: 'endurance', targetTSSPercent: 20 },
+                            ],
+                          })}
+                        >
+                          <Plus className="mr-1 h-3 w-3" />
+                          Add key workout
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={draft.template.weeks.length >= 52}
+                    onClick={() => {
+                      const weeks = draft.template.weeks
+                      insertWeek(weeks.length, weeks[weeks.length - 1] ?? blankWeek(), 1)
+                    }}
+                  >
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add week
+                  </Button>
+                </div>
+
+                {/* Sharing */}
+                {draft.id && (
+                  <div className="space-y-2 border-t pt-4">
+                    <Label htmlFor="plan-template-share">Share with athletes</Label>
+                    {draft.shares.length > 0 && (
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        {draft.shares.map(s => (
+                          <span key={s.email} className="inline-flex items-center gap-1 rounded-md border px-2 py-1">
+                            {s.email}
+                            <button
+                              type="button"
+                              className="text-muted-foreground hover:text-foreground"
+                              title="Stop sharing"
+                              onClick={() => unshare(draft.id!, s.email)}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Input
+                        id="plan-template-share"
+                        type="email"
+                        placeholder="athlete@example.com"
+                        value={shareEmail}
+                        onChange={(e) => setShareEmail(e.target.value)}
+                      />
+                      <Button variant="outline" disabled={saving || !shareEmail.trim()} onClick={share}>
+                        Share
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The athlete with this email sees the template, including if they sign up later.
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex justify-between gap-2">
+                  <div className="flex gap-2">
+                    {draft.id && (
+                      <Button
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={saving}
+                        onClick={() => deleteTemplate(draft.id!)}
+                      >
+                        Delete
+                      </Button>
+                    )}
+                    <Button variant="ghost" onClick={() => downloadTemplate(normalizePlanTemplate(draft.template))}>
+                      <Download className="mr-1 h-4 w-4" />
+                      Export
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => { setDraft(null); setError(null) }}>
+                      Cancel
+                    </Button>
+                    <Button onClick={saveDraft} disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save Template
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
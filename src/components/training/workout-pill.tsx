@@ -1,5 +1,6 @@
 import { cn } from '@/lib/utils'
 import { Check, X } from 'lucide-react'
+import { planDayStatus, type ComplianceStatus } from '@/lib/analysis/plan-compliance'
 import type { PlanDay } from '@/types'
 
 const typeColors: Record<string, { border: string; bg: string; text: string; darkBg: string; darkText: string }> = {
@@ -21,6 +22,12 @@ const typeColors: Record<string, { border: string; bg: string; text: string; dar
   vo2max_3x3: { border: 'border-l-purple-500', bg: 'bg-purple-50', text: 'text-purple-700', darkBg: 'dark:bg-purple-950/40', darkText: 'dark:text-purple-300' },
 }
 
+const complianceColors: Record<ComplianceStatus, string> = {
+  green: 'text-green-600 dark:text-green-400',
+  yellow: 'text-yellow-600 dark:text-yellow-400',
+  red: 'text-red-500',
+}
+
 const defaultColors = { border: 'border-l-gray-400', bg: 'bg-gray-50', text: 'text-gray-700', darkBg: 'dark:bg-gray-800/40', darkText: 'dark:text-gray-300' }
 
 function getDisplayName(day: PlanDay): string {
@@ -45,6 +52,7 @@ export function WorkoutPill({ day, onClick }: WorkoutPillProps) {
   const isMissed = !day.completed && !day.skipped && day.date < todayStr
   const isSkipped = day.skipped
   const isCompleted = day.completed
+  const compliance = planDayStatus(day, todayStr)
 
   return (
     <button
@@ -60,7 +68,12 @@ export function WorkoutPill({ day, onClick }: WorkoutPillProps) {
     >
       <span className="flex items-center gap-1.5 min-w-0">
         <span className="truncate font-medium">{getDisplayName(day)}</span>
-        {isCompleted && <Check className="size-3.5 shrink-0 text-green-600 dark:text-green-400" />}
+        {isCompleted && <Check className={cn('size-3.5 shrink-0', complianceColors[compliance ?? 'green'])} />}
+        {isCompleted && day.compliance_score != null && (
+          <span className={cn('text-xs tabular-nums shrink-0', complianceColors[compliance ?? 'green'])}>
+            {Math.round(day.compliance_score * 100)}%
+          </span>
+        )}
         {isMissed && !isSkipped && <X className="size-3.5 shrink-0 text-red-500" />}
       </span>
       {(day.target_tss || day.target_duration_minutes) && (
@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Mountain, Trophy } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import type { RankedClimbEffort } from '@/lib/db/climbs'
+import type { ClimbLeaderboardResponse } from '@/app/api/climbs/[id]/route'
+
+interface ClimbsCardProps {
+  climbs: RankedClimbEffort[]
+  /** The session being viewed, highlighted in leaderboards */
+  sessionId: string
+}
+
+function formatClimbTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+function Leaderboard({ climbId, sessionId }: { climbId: string; sessionId: string }) {
+  const [data, setData] = useState<ClimbLeaderboardResponse | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/climbs/${climbId}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(setData)
+      .catch(() => setError(true))
+  }, [climbId])
+
+  if (error) return <p className="text-xs text-muted-foreground py-2">Could not load leaderboard</p>
+  if (!data) return <p className="text-xs text-muted-foreground py-2">Loading…</p>
+
+  return (
+    <ol className="py-2 space-y-1 text-xs">
+      {data.efforts.map((effort, i) => (
+        <li
+          key={effort.id}
+          className={`grid grid-cols-[2rem_1fr_4rem_4rem_4rem] gap-2 tabular-nums ${
+            effort.session_id === sessionId ? 'font-semibold text-foreground' : 'text-muted-foreground'
+          }`}
+        >
+          <span>{i + 1}.</span>
+          <span>{effort.date}</span>
+          <span className="text-right">{formatClimbTime(effort.duration_seconds)}</span>
+          <span className="text-right">{effort.vam} m/h</span>
+          <span className="text-right">{effort.watts_per_kg != null ? `${effort.watts_per_kg} W/kg` : '—'}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function ClimbsCard({ climbs, sessionId }: ClimbsCardProps) {
+  const [openClimbId, setOpenClimbId] = useState<string | null>(null)
+
+  if (climbs.length === 0) return null
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Mountain className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Climbs</h3>
+      </div>
+      <div className="divide-y">
+        {climbs.map(climb => {
+          const open = climb.climb_id !== null && openClimbId === climb.climb_id
+          return (
+            <div key={climb.id}>
+              <button
+                type="button"
+                className="w-full flex flex-wrap items-center gap-x-6 gap-y-1 py-2 text-sm text-left disabled:cursor-default"
+                disabled={!climb.climb_id || climb.effort_count < 2}
+                onClick={() => setOpenClimbId(open ? null : climb.climb_id)}
+              >
+                <span className="font-medium min-w-[8rem]">
+                  {climb.climb_name ?? `${(climb.length_meters / 1000).toFixed(1)} km at ${climb.avg_gradient}%`}
+                </span>
+                <span className="text-muted-foreground tabular-nums">
+                  {(climb.length_meters / 1000).toFixed(1)} km · {climb.avg_gradient}% · +{climb.elevation_gain} m
+                </span>
+                <span className="tabular-nums">{formatClimbTime(climb.duration_seconds)}</span>
+                <span className="text-muted-foreground tabular-nums">{climb.vam} m/h</span>
+                {climb.watts_per_kg != null && (
+                  <span className="text-muted-foreground tabular-nums">{climb.watts_per_kg} W/kg</span>
+                )}
+                {climb.rank !== null && climb.effort_count > 1 && (
+                  <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                    {climb.rank === 1 && <Trophy className="h-3 w-3 text-amber-500" />}
+                    {climb.rank} of {climb.effort_count}
+                  </span>
+                )}
+              </button>
+              {open && climb.climb_id && <Leaderboard climbId={climb.climb_id} sessionId={sessionId} />}
+            </div>
+          )
+        })}
+      </div>
+    </Card>
+  )
+}
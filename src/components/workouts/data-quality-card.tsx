@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { ShieldAlert, X } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import type { DataQualityFlag, DataQualityIssue, ExcludedRange } from '@/types'
+
+export interface SessionDataQuality {
+  /** Null when the streams have not been checked yet */
+  flags: DataQualityFlag[] | null
+  excludeFromBests: boolean
+  excludedRanges: ExcludedRange[]
+}
+
+interface DataQualityCardProps {
+  sessionId: string
+  dataQuality: SessionDataQuality
+  /** Whether the session has power, so bests can be excluded */
+  hasPower: boolean
+}
+
+const ISSUE_LABELS: Record<DataQualityIssue, string> = {
+  power_spike: 'Power spike',
+  hr_dropout: 'Heart rate dropout',
+  stuck_value: 'Stuck sensor',
+  cadence_power_mismatch: 'Power without cadence',
+  zero_filled_pause: 'Paused recording',
+}
+
+const ACTION_LABELS: Record<DataQualityFlag['action'], string> = {
+  interpolated: 'smoothed over',
+  masked: 'left out of power bests',
+  flagged: 'kept',
+}
+
+function formatOffset(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
+/**
+ * Parse "h:mm:ss", "m:ss" or plain seconds into seconds from the start
+ */
+function parseOffset(value: string): number | null {
+  const parts = value.trim().split(':').map(Number)
+  if (parts.length === 0 || parts.length > 3 || parts.some(p => !Number.isInteger(p) || p < 0)) return null
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+export function DataQualityCard({ sessionId, dataQuality, hasPower }: DataQualityCardProps) {
+  const [excludeFromBests, setExcludeFromBests] = useState(dataQuality.excludeFromBests)
+  const [excludedRanges, setExcludedRanges] = useState(dataQuality.excludedRanges)
+  const [rangeStart, setRangeStart] = useState('')
+  const [rangeEnd, setRangeEnd] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const flags = dataQuality.flags ?? []
+  if (flags.length === 0 && !hasPower) return null
+
+  const save = async (updates: { exclude_from_bests?: boolean; excluded_ranges?: ExcludedRange[] }) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error || `Failed to save: ${res.status}`)
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleExclude = async (checked: boolean) => {
+    if (await save({ exclude_from_bests: checked })) setExcludeFromBests(checked)
+  }
+
+  const updateRanges = async (ranges: ExcludedRange[]) => {
+    if (await save({ excluded_ranges: ranges })) setExcludedRanges(ranges)
+  }
+
+  const addRange = async () => {
+    const start = parseOffset(rangeStart)
+    const end = parseOffset(rangeEnd)
+    if (start === null || end === null || end < start) {
+      setError('Enter a start and end time like 12:30, with the end after the start')
+      return
+    }
+    await updateRanges([...excludedRanges, { start, end }].sort((a, b) => a.start - b.start))
+    setRangeStart('')
+    setRangeEnd('')
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Data Quality</h3>
+      </div>
+
+      {dataQuality.flags === null ? (
+        <p className="text-sm text-muted-foreground">Streams not checked yet.</p>
+      ) : flags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No sensor issues found.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {flags.map((flag, i) => (
+            <li key={i} className="flex flex-wrap gap-x-3 tabular-nums">
+              <span className="font-medium">{ISSUE_LABELS[flag.issue]}</span>
+              <span className="text-muted-foreground">
+                {formatOffset(flag.start)}
+                {flag.end > flag.start && `–${formatOffset(flag.end)}`}
+                {flag.value !== null && ` (${flag.value}${flag.stream === 'heartrate' ? ' bpm' : flag.stream === 'cadence' ? ' rpm' : 'W'})`}
+              </span>
+              <span className="text-muted-foreground">{ACTION_LABELS[flag.action]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasPower && (
+        <div className="mt-4 space-y-3 border-t pt-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="exclude-from-bests"
+              checked={excludeFromBests}
+              onCheckedChange={toggleExclude}
+              disabled={saving}
+            />
+            <Label htmlFor="exclude-from-bests" className="text-sm">Exclude this session from power bests</Label>
+          </div>
+
+          {!excludeFromBests && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Exclude a time range from power bests</div>
+              {excludedRanges.length > 0 && (
+                <ul className="space-y-1 text-sm tabular-nums">
+                  {excludedRanges.map((range, i) => (
+                    <li key={`${range.start}-${range.end}`} className="flex items-center gap-2">
+                      {formatOffset(range.start)}–{formatOffset(range.end)}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={saving}
+                        onClick={() => updateRanges(excludedRanges.filter((_, j) => j !== i))}
+                        aria-label="Remove range"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="From (m:ss)"
+                  value={rangeStart}
+                  onChange={(e) => setRangeStart(e.target.value)}
+                  className="w-32"
+                />
+                <Input
+                  placeholder="To (m:ss)"
+                  value={rangeEnd}
+                  onChange={(e) => setRangeEnd(e.target.value)}
+                  className="w-32"
+                />
+                <Button variant="outline" onClick={addRange} disabled={saving || !rangeStart || !rangeEnd}>
+                  Exclude
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-destructive">{error}</p>}
+    </Card>
+  )
+}
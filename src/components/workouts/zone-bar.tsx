@@ -6,12 +6,18 @@ interface ZoneData {
   zone: string
   seconds: number
   minutes: number
+  /** Zone name from the athlete's zone model (e.g. "Tempo") */
+  name?: string
+  /** Hex color from the zone model, overrides the color scheme */
+  color?: string
 }
 
 interface ZoneBarChartProps {
   title: string
   data: ZoneData[]
   colorScheme?: 'power' | 'hr'
+  /** Zone model the times were computed with */
+  modelName?: string | null
 }
 
 const powerColors: Record<string, string> = {
@@ -44,8 +50,12 @@ function formatDuration(seconds: number): string {
   return `${minutes}m`
 }
 
-export function ZoneBarChart({ title, data, colorScheme = 'power' }: ZoneBarChartProps) {
+export function ZoneBarChart({ title, data, colorScheme = 'power', modelName }: ZoneBarChartProps) {
   const colors = colorScheme === 'power' ? powerColors : hrColors
+  const swatch = (zone: ZoneData) => zone.color
+    ? { className: '', style: { backgroundColor: zone.color } }
+    : { className: colors[zone.zone] || 'bg-gray-300', style: {} }
+  const label = (zone: ZoneData) => zone.name ? `${zone.zone} ${zone.name}` : zone.zone
   const totalSeconds = data.reduce((sum, d) => sum + d.seconds, 0)
 
   // Filter out zones with 0 time
@@ -62,18 +72,22 @@ export function ZoneBarChart({ title, data, colorScheme = 'power' }: ZoneBarChar
 
   return (
     <Card className="p-4">
-      <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{title}</span>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{title}</span>
+        {modelName && <span className="text-xs text-muted-foreground">{modelName}</span>}
+      </div>
       <div className="mt-4 space-y-3">
         {/* Stacked bar */}
         <div className="h-8 flex rounded-md overflow-hidden">
           {activeZones.map((zone) => {
             const percentage = (zone.seconds / totalSeconds) * 100
+            const { className, style } = swatch(zone)
             return (
               <div
                 key={zone.zone}
-                className={`${colors[zone.zone] || 'bg-gray-300'} transition-all`}
-                style={{ width: `${percentage}%` }}
-                title={`${zone.zone}: ${formatDuration(zone.seconds)}`}
+                className={`${className} transition-all`}
+                style={{ ...style, width: `${percentage}%` }}
+                title={`${label(zone)}: ${formatDuration(zone.seconds)}`}
               />
             )
           })}
@@ -82,9 +96,9 @@ export function ZoneBarChart({ title, data, colorScheme = 'power' }: ZoneBarChar
         {/* Legend with times */}
         <div className="grid grid-cols-4 gap-2 text-xs">
           {data.map((zone) => (
-            <div key={zone.zone} className="flex items-center gap-1.5">
-              <div className={`w-3 h-3 rounded-sm ${colors[zone.zone] || 'bg-gray-300'}`} />
-              <span className="text-muted-foreground">{zone.zone}</span>
+            <div key={zone.zone} className="flex items-center gap-1.5" title={zone.name}>
+              <div className={`w-3 h-3 rounded-sm ${swatch(zone).className}`} style={swatch(zone).style} />
+              <span className="text-muted-foreground truncate">{label(zone)}</span>
               <span className="font-semibold tabular-nums">{zone.minutes}m</span>
             </div>
           ))}
@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { CriticalPowerResponse } from '@/app/api/power-curve/model/route'
+
+interface UseCriticalPowerReturn {
+  data: CriticalPowerResponse | null
+  loading: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+  /** Save CP/W′ on the athlete for W′ balance analysis */
+  save: (cp: number, wPrime: number) => Promise<boolean>
+}
+
+export function useCriticalPower(days: number = 90): UseCriticalPowerReturn {
+  const [data, setData] = useState<CriticalPowerResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const res = await fetch(`/api/power-curve/model?days=${days}`)
+      if (!res.ok) throw new Error('Failed to fetch critical power model')
+
+      setData(await res.json())
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'))
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const save = useCallback(async (cp: number, wPrime: number) => {
+    try {
+      const res = await fetch('/api/power-curve/model', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cp, wPrime }),
+      })
+      if (!res.ok) return false
+
+      const { saved } = await res.json()
+      setData(prev => (prev ? { ...prev, saved } : prev))
+      return true
+    } catch {
+      return false
+    }
+  }, [])
+
+  return {
+    data,
+    loading,
+    error,
+    refresh: fetchData,
+    save,
+  }
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { CurrentFitness, Session } from '@/types'
+import type { SportPMCDataPoint } from '@/lib/transforms'
 
 // Auto-refresh interval: 5 minutes
 const REFRESH_INTERVAL = 5 * 60 * 1000
@@ -39,6 +40,7 @@ interface IntervalsData {
   recovery: Recovery | null  // Separate recovery/sleep data
   sessions: Session[]
   pmcData: { date: string; ctl: number; atl: number; tsb: number }[]
+  sportPmcData: SportPMCDataPoint[]
   ctlTrend: number
   lastUpdated: Date | null
   fitnessSource: 'local' | 'intervals_icu' | null
@@ -54,6 +56,7 @@ export function useIntervalsData() {
     recovery: null,
     sessions: [],
     pmcData: [],
+    sportPmcData: [],
     ctlTrend: 0,
     lastUpdated: null,
     fitnessSource: null,
@@ -102,6 +105,7 @@ export function useIntervalsData() {
       // Fall back to intervals.icu data if local fitness is not available
       const currentFitness = fitnessJson.currentFitness || intervalsJson.currentFitness
       const pmcData = fitnessJson.pmcData || intervalsJson.pmcData || []
+      const sportPmcData = fitnessJson.sportPmcData || []
       const ctlTrend = fitnessJson.ctlTrend ?? intervalsJson.ctlTrend ?? 0
 
       // Recovery data comes from intervals endpoint (separate concern)
@@ -116,6 +120,7 @@ export function useIntervalsData() {
         recovery,
         sessions: intervalsJson.sessions || [],
         pmcData,
+        sportPmcData,
         ctlTrend,
         lastUpdated: new Date(),
         fitnessSource: fitnessJson.source || 'intervals_icu',
@@ -0,0 +1,62 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { PowerCurveComparisonResponse } from '@/app/api/power-curve/compare/route'
+import type { ComparisonPreset, DateWindow } from '@/lib/analysis/power-curve-comparison'
+
+export type PowerCurveComparisonSelection =
+  | { preset: ComparisonPreset }
+  | { baseline: DateWindow; current: DateWindow }
+
+interface UsePowerCurveComparisonReturn {
+  data: PowerCurveComparisonResponse | null
+  loading: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+}
+
+function toQuery(selection: PowerCurveComparisonSelection): string {
+  if ('preset' in selection) return `preset=${selection.preset}`
+  return new URLSearchParams({
+    baselineStart: selection.baseline.startDate,
+    baselineEnd: selection.baseline.endDate,
+    currentStart: selection.current.startDate,
+    currentEnd: selection.current.endDate,
+  }).toString()
+}
+
+export function usePowerCurveComparison(
+  selection: PowerCurveComparisonSelection
+): UsePowerCurveComparisonReturn {
+  const [data, setData] = useState<PowerCurveComparisonResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const query = toQuery(selection)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const res = await fetch(`/api/power-curve/compare?${query}`)
+      if (!res.ok) throw new Error('Failed to compare power curves')
+
+      setData(await res.json())
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'))
+    } finally {
+      setLoading(false)
+    }
+  }, [query])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  return {
+    data,
+    loading,
+    error,
+    refresh: fetchData,
+  }
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { SeasonProjectionResponse } from '@/app/api/training-plans/season/route'
+
+interface UseSeasonProjectionReturn {
+  data: SeasonProjectionResponse | null
+  loading: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Fitness projection across the active plan; refetched when planId changes
+ */
+export function useSeasonProjection(planId: string | null): UseSeasonProjectionReturn {
+  const [data, setData] = useState<SeasonProjectionResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchData = useCallback(async () => {
+    if (!planId) {
+      setData(null)
+      setLoading(false)
+      return
+    }
+    try {
+      setLoading(true)
+      setError(null)
+
+      const res = await fetch('/api/training-plans/season')
+      if (!res.ok) throw new Error('Failed to fetch season projection')
+
+      setData(await res.json())
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'))
+    } finally {
+      setLoading(false)
+    }
+  }, [planId])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  return {
+    data,
+    loading,
+    error,
+    refresh: fetchData,
+  }
+}
@@ -10,6 +10,8 @@
 import { useState, useEffect } from 'react'
 import type { ChartMetric } from '@/lib/widgets/types'
 import type { OverlayDataPoint } from '@/components/charts/overlay-chart'
+import type { DetectedInterval, IntervalComplianceResult } from '@/lib/analysis/interval-detection'
+import { calculateTorqueStream } from '@/lib/analysis/pedaling'
 
 interface SessionActivity {
   id: string
@@ -35,6 +37,8 @@ interface SessionStreams {
   cadence: number[]
   altitude?: number[]
   velocity_smooth?: number[]
+  /** W′bal in kJ (only when the athlete's CP/W′ are known) */
+  w_prime_balance?: number[]
 }
 
 interface SessionResponse {
@@ -43,12 +47,18 @@ interface SessionResponse {
   powerZones: { zone: string; seconds: number; minutes: number }[]
   hrZones: { zone: string; seconds: number; minutes: number }[]
   wellness: { ctl: number; atl: number; tsb: number } | null
+  /** Detected work/recovery bouts */
+  intervals?: DetectedInterval[]
+  /** Bouts compared with the prescribed intervals of the matching plan day */
+  intervalComparison?: IntervalComplianceResult | null
 }
 
 interface UseSessionChartResult {
   data: OverlayDataPoint[]
   activity: SessionActivity | null
   averages: Partial<Record<ChartMetric, number>>
+  intervals: DetectedInterval[]
+  intervalComparison: IntervalComplianceResult | null
   loading: boolean
   error: string | null
 }
@@ -57,12 +67,14 @@ interface UseSessionChartResult {
  * Transform raw streams into OverlayDataPoint format
  */
 function transformStreams(streams: SessionStreams): OverlayDataPoint[] {
-  const { time, watts, heartrate, cadence, altitude, velocity_smooth } = streams
+  const { time, watts, heartrate, cadence, altitude, velocity_smooth, w_prime_balance } = streams
 
   if (!time || time.length === 0) {
     return []
   }
 
+  const torque = watts && cadence ? calculateTorqueStream(watts, cadence) : undefined
+
   return time.map((t, i) => ({
     time: t,
     power: watts?.[i] ?? undefined,
@@ -70,6 +82,8 @@ function transformStreams(streams: SessionStreams): OverlayDataPoint[] {
     cadence: cadence?.[i] ?? undefined,
     altitude: altitude?.[i] ?? undefined,
     speed: velocity_smooth?.[i] ?? undefined,
+    wPrimeBalance: w_prime_balance?.[i] ?? undefined,
+    torque: torque?.[i] ?? undefined,
   }))
 }
 
@@ -105,6 +119,8 @@ export function useSessionChart(
   const [data, setData] = useState<OverlayDataPoint[]>([])
   const [activity, setActivity] = useState<SessionActivity | null>(null)
   const [averages, setAverages] = useState<Partial<Record<ChartMetric, number>>>({})
+  const [intervals, setIntervals] = useState<DetectedInterval[]>([])
+  const [intervalComparison, setIntervalComparison] = useState<IntervalComplianceResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -162,12 +178,16 @@ export function useSessionChart(
         setData(chartData)
         setActivity(sessionData.activity)
         setAverages(avgData)
+        setIntervals(sessionData.intervals ?? [])
+        setIntervalComparison(sessionData.intervalComparison ?? null)
       } catch (err) {
         if (!cancelled) {
           setError(err instanceof Error ? err.message : 'Unknown error')
           setData([])
           setActivity(null)
           setAverages({})
+          setIntervals([])
+          setIntervalComparison(null)
         }
       } finally {
         if (!cancelled) {
@@ -183,5 +203,5 @@ export function useSessionChart(
     }
   }, [sessionId, enabled])
 
-  return { data, activity, averages, loading, error }
+  return { data, activity, averages, intervals, intervalComparison, loading, error }
 }
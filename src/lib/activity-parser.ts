@@ -0,0 +1,53 @@
+import { parseFitFile } from '@/lib/fit-parser'
+import { parseTcxFile } from '@/lib/tcx-parser'
+import { parseGpxFile } from '@/lib/gpx-parser'
+import type { ParsedFitData } from '@/lib/fit-parser'
+
+export type ActivityFileFormat = 'fit' | 'tcx' | 'gpx'
+
+export const SUPPORTED_ACTIVITY_EXTENSIONS = ['.fit', '.tcx', '.gpx'] as const
+
+/**
+ * Detect activity file format from content, falling back to the file extension.
+ * FIT files carry ".FIT" at bytes 8-11 of the header; TCX and GPX are XML with a known root.
+ */
+export function detectActivityFormat(fileName: string, buffer: ArrayBuffer): ActivityFileFormat | null {
+  const bytes = new Uint8Array(buffer)
+
+  if (bytes.length >= 12) {
+    const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11])
+    if (signature === '.FIT') return 'fit'
+  }
+
+  const head = new TextDecoder().decode(bytes.slice(0, 2048))
+  if (/<(?:[\w-]+:)?TrainingCenterDatabase\b/.test(head)) return 'tcx'
+  if (/<(?:[\w-]+:)?gpx\b/.test(head)) return 'gpx'
+
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.fit')) return 'fit'
+  if (name.endsWith('.tcx')) return 'tcx'
+  if (name.endsWith('.gpx')) return 'gpx'
+
+  return null
+}
+
+/**
+ * Parse any supported activity file into ParsedFitData
+ */
+export async function parseActivityFile(
+  fileName: string,
+  buffer: ArrayBuffer
+): Promise<{ format: ActivityFileFormat; data: ParsedFitData }> {
+  const format = detectActivityFormat(fileName, buffer)
+
+  switch (format) {
+    case 'fit':
+      return { format, data: await parseFitFile(buffer) }
+    case 'tcx':
+      return { format, data: parseTcxFile(buffer) }
+    case 'gpx':
+      return { format, data: parseGpxFile(buffer) }
+    default:
+      throw new Error(`Unsupported activity file: ${fileName}`)
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Banister Impulse-Response Model
+ *
+ * Fitness-fatigue model of performance fitted to the athlete's own
+ * performance markers (maximal 5/20-minute efforts, races, tests):
+ *   p(t) = p0 + k1 * fitness(t) - k2 * fatigue(t)
+ *   fitness(t) = Σ w(s) * e^(-(t-s)/τ1), fatigue(t) = Σ w(s) * e^(-(t-s)/τ2), s < t
+ * with w = daily TSS. For each (τ1, τ2) on a grid, p0/k1/k2 follow from
+ * linear least squares; the pair with the lowest error is kept.
+ */
+
+import type { MeanMaxPoint } from './critical-power'
+
+export type PerformanceMarkerSource = 'best_5min' | 'best_20min' | 'race' | 'test'
+
+export interface PerformanceMarker {
+  date: string // YYYY-MM-DD
+  /** Performance as % of the athlete's best power at the effort's duration */
+  performance: number
+  source: PerformanceMarkerSource
+  watts: number
+  durationSeconds: number
+  label?: string
+}
+
+export interface BanisterModel {
+  /** Baseline performance (% of best) without training */
+  p0: number
+  /** Fitness gain per unit of load */
+  k1: number
+  /** Fatigue gain per unit of load */
+  k2: number
+  /** Fitness time constant (days) */
+  tau1: number
+  /** Fatigue time constant (days) */
+  tau2: number
+  /** Root mean square error of the fit (% points) */
+  rmse: number
+  /** Share of marker variance explained by the model */
+  r2: number
+  markerCount: number
+}
+
+/** Accumulated fitness and fatigue impulses at the start of a day */
+export interface BanisterState {
+  fitness: number
+  fatigue: number
+}
+
+export interface PerformancePoint {
+  date: string
+  performance: number
+}
+
+export interface TaperResult {
+  /** Taper length with the highest predicted performance on the event day */
+  days: number
+  performance: number
+  /** Gain over racing without a taper (% points) */
+  gain: number
+  curve: Array<{ days: number; performance: number }>
+}
+
+const TAU1_GRID = { min: 20, max: 60, step: 2 }
+const TAU2_GRID = { min: 3, max: 20, step: 1 }
+
+/** Fewest markers the 5-parameter fit is attempted with */
+export const MIN_PERFORMANCE_MARKERS = 6
+
+/** Taper load as a fraction of the usual daily load */
+export const DEFAULT_TAPER_LOAD = 0.4
+const MAX_TAPER_DAYS = 21
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = []
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    days.push(date)
+  }
+  return days
+}
+
+/**
+ * Solve a 3x3 linear system by Gaussian elimination (null if singular)
+ */
+function solve3(a: number[][], b: number[]): number[] | null {
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < 3; col++) {
+    let pivot = col
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    if (Math.abs(m[pivot][col]) < 1e-9) return null
+    const swap = m[col]
+    m[col] = m[pivot]
+    m[pivot] = swap
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k < 4; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  return [m[0][3] / m[0][0], m[1][3] / m[1][1], m[2][3] / m[2][2]]
+}
+
+/**
+ * Best power at a duration from a mean-max curve, interpolated on log(duration)
+ */
+export function bestPowerAt(curve: MeanMaxPoint[], durationSeconds: number): number | null {
+  const points = curve.filter(p => p.watts > 0).sort((a, b) => a.duration - b.duration)
+  if (points.length === 0) return null
+  if (durationSeconds <= points[0].duration) return points[0].watts
+  const last = points[points.length - 1]
+  if (durationSeconds >= last.duration) return last.watts
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1]
+    const hi = points[i]
+    if (durationSeconds <= hi.duration) {
+      const t = Math.log(durationSeconds / lo.duration) / Math.log(hi.duration / lo.duration)
+      return lo.watts + t * (hi.watts - lo.watts)
+    }
+  }
+  return last.watts
+}
+
+/**
+ * An effort as % of the athlete's best power at the same duration
+ */
+export function relativePerformance(
+  watts: number,
+  durationSeconds: number,
+  bestCurve: MeanMaxPoint[]
+): number | null {
+  const best = bestPowerAt(bestCurve, durationSeconds)
+  if (!best || watts <= 0) return null
+  return round((watts / best) * 100, 1)
+}
+
+/**
+ * Advance the impulses by one day of training
+ */
+export function advanceBanisterState(
+  state: BanisterState,
+  tss: number,
+  tau1: number,
+  tau2: number
+): BanisterState {
+  return {
+    fitness: (state.fitness + tss) * Math.exp(-1 / tau1),
+    fatigue: (state.fatigue + tss) * Math.exp(-1 / tau2),
+  }
+}
+
+/**
+ * Predicted performance for a given state
+ */
+export function banisterPerformance(model: BanisterModel, state: BanisterState): number {
+  return model.p0 + model.k1 * state.fitness - model.k2 * state.fatigue
+}
+
+/**
+ * Impulses at the start of `date` from all daily TSS before it
+ */
+export function banisterStateAt(
+  model: Pick<BanisterModel, 'tau1' | 'tau2'>,
+  dailyTss: Map<string, number>,
+  date: string
+): BanisterState {
+  const dates = Array.from(dailyTss.keys()).filter(d => d < date).sort()
+  let state: BanisterState = { fitness: 0, fatigue: 0 }
+  if (dates.length === 0) return state
+
+  for (const day of eachDay(dates[0], addDays(date, -1))) {
+    state = advanceBanisterState(state, dailyTss.get(day) || 0, model.tau1, model.tau2)
+  }
+  return state
+}
+
+/**
+ * Fit p0, k1, k2, τ1 and τ2 to the markers.
+ * Returns null with too few markers or when no time constants give
+ * positive fitness and fatigue gains.
+ */
+export function fitBanisterModel(
+  dailyTss: Map<string, number>,
+  markers: PerformanceMarker[]
+): BanisterModel | null {
+  const loadDates = Array.from(dailyTss.keys()).sort()
+  if (loadDates.length === 0) return null
+
+  const usable = markers.filter(m => m.date > loadDates[0])
+  if (usable.length < MIN_PERFORMANCE_MARKERS) return null
+
+  const days = eachDay(loadDates[0], usable.map(m => m.date).sort()[usable.length - 1])
+  const loads = days.map(day => dailyTss.get(day) || 0)
+  const dayIndex = new Map(days.map((day, i) => [day, i]))
+  const ys = usable.map(m => m.performance)
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length
+  const sst = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0)
+
+  let best: BanisterModel | null = null
+  let bestSse = Infinity
+
+  for (let tau1 = TAU1_GRID.min; tau1 <= TAU1_GRID.max; tau1 += TAU1_GRID.step) {
+    for (let tau2 = TAU2_GRID.min; tau2 <= TAU2_GRID.max && tau2 < tau1; tau2 += TAU2_GRID.step) {
+      // Impulses at the start of each day
+      const fitness: number[] = []
+      const fatigue: number[] = []
+      let state: BanisterState = { fitness: 0, fatigue: 0 }
+      for (const load of loads) {
+        fitness.push(state.fitness)
+        fatigue.push(state.fatigue)
+        state = advanceBanisterState(state, load, tau1, tau2)
+      }
+
+      // Normal equations for y = p0 + k1 * fitness - k2 * fatigue
+      const xtx = [[0, 0, 0], [0, 0, 0], [0, 0, 0]]
+      const xty = [0, 0, 0]
+      const rows = usable.map(m => {
+        const i = dayIndex.get(m.date)!
+        return [1, fitness[i], -fatigue[i]]
+      })
+      rows.forEach((x, r) => {
+        for (let i = 0; i < 3; i++) {
+          xty[i] += x[i] * ys[r]
+          for (let j = 0; j < 3; j++) xtx[i][j] += x[i] * x[j]
+        }
+      })
+
+      const solution = solve3(xtx, xty)
+      if (!solution) continue
+      const [p0, k1, k2] = solution
+      if (k1 <= 0 || k2 <= 0) continue
+
+      const sse = rows.reduce((sum, x, r) => sum + (p0 + k1 * x[1] + k2 * x[2] - ys[r]) ** 2, 0)
+      if (sse < bestSse) {
+        bestSse = sse
+        best = {
+          p0,
+          k1,
+          k2,
+          tau1,
+          tau2,
+          rmse: round(Math.sqrt(sse / usable.length), 2),
+          r2: sst > 0 ? round(1 - sse / sst, 2) : 0,
+          markerCount: usable.length,
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Predicted performance for each day from startDate through endDate,
+ * starting from the impulses at the start of startDate.
+ * Each day's value is before that day's training (race-day performance).
+ */
+export function predictPerformance(
+  model: BanisterModel,
+  state: BanisterState,
+  dailyTss: Map<string, number>,
+  startDate: string,
+  endDate: string
+): PerformancePoint[] {
+  const points: PerformancePoint[] = []
+  let current = state
+  for (const date of eachDay(startDate, endDate)) {
+    points.push({ date, performance: round(banisterPerformance(model, current), 1) })
+    current = advanceBanisterState(current, dailyTss.get(date) || 0, model.tau1, model.tau2)
+  }
+  return points
+}
+
+/**
+ * Taper length that maximises event-day performance, starting from steady
+ * training at dailyLoad and reducing to taperLoad × dailyLoad for the taper.
+ */
+export function findBestTaper(
+  model: BanisterModel,
+  dailyLoad: number,
+  options: { taperLoad?: number; maxDays?: number } = {}
+): TaperResult | null {
+  if (dailyLoad <= 0) return null
+  const { taperLoad = DEFAULT_TAPER_LOAD, maxDays = MAX_TAPER_DAYS } = options
+
+  // Steady state of x = (x + w) * d is x = w * d / (1 - d)
+  const d1 = Math.exp(-1 / model.tau1)
+  const d2 = Math.exp(-1 / model.tau2)
+  let state: BanisterState = {
+    fitness: dailyLoad * d1 / (1 - d1),
+    fatigue: dailyLoad * d2 / (1 - d2),
+  }
+
+  const curve: TaperResult['curve'] = []
+  for (let days = 0; days <= maxDays; days++) {
+    curve.push({ days, performance: round(banisterPerformance(model, state), 1) })
+    state = advanceBanisterState(state, dailyLoad * taperLoad, model.tau1, model.tau2)
+  }
+
+  const best = curve.reduce((a, b) => (b.performance > a.performance ? b : a))
+  return {
+    days: best.days,
+    performance: best.performance,
+    gain: round(best.performance - curve[0].performance, 1),
+    curve,
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Climbing Analysis
+ *
+ * Splits a session into climbs from its distance and altitude streams and
+ * reports length, gradient, VAM (vertical ascent in m/h), time and W/kg for
+ * each, plus time and distance in gradient bins. Repeated ascents of the
+ * same climb are matched by the GPS position of their start and end.
+ *
+ * Altitude is sampled every SEGMENT_METERS of distance so GPS and barometer
+ * noise average out. Streams are sampled once per second.
+ */
+
+export interface ClimbStreams {
+  distance?: number[]
+  altitude?: number[]
+  time?: number[]
+  watts?: number[]
+  heartrate?: number[]
+  latlng?: [number, number][]
+}
+
+export interface DetectedClimb {
+  /** Stream indexes of the bottom and top */
+  startIndex: number
+  endIndex: number
+  lengthMeters: number
+  elevationGain: number
+  /** Percent */
+  avgGradient: number
+  /** Steepest segment, percent */
+  maxGradient: number
+  durationSeconds: number
+  /** Vertical ascent in m/h */
+  vam: number
+  avgPower: number | null
+  wattsPerKg: number | null
+  avgHr: number | null
+  start: [number, number] | null
+  end: [number, number] | null
+}
+
+export interface GradientBin {
+  label: string
+  /** Lower bound in percent (inclusive); null for the open lowest bin */
+  min: number | null
+  /** Upper bound in percent (exclusive); null for the open highest bin */
+  max: number | null
+  meters: number
+  seconds: number
+  avgPower: number | null
+}
+
+/** Where a climb starts and ends, for matching repeated ascents */
+export interface ClimbLocation {
+  start: [number, number]
+  end: [number, number]
+  lengthMeters: number
+}
+
+// Altitude is read at this distance spacing
+const SEGMENT_METERS = 100
+// A segment at or above this grade counts as climbing
+const MIN_SEGMENT_GRADE = 0.02
+// Up to this many flatter segments are bridged inside a climb (false flats)
+const MAX_GAP_SEGMENTS = 2
+// A bridged segment must not drop more steeply than this
+const MAX_GAP_DESCENT = -0.02
+// Smallest climb worth reporting
+const MIN_CLIMB_METERS = 500
+const MIN_CLIMB_GAIN = 25
+const MIN_CLIMB_GRADE = 0.03
+// Repeated ascents start and end within this distance of each other
+const MATCH_RADIUS_METERS = 150
+// and differ in length by no more than this fraction
+const MATCH_LENGTH_TOLERANCE = 0.15
+
+export const GRADIENT_BINS: Pick<GradientBin, 'label' | 'min' | 'max'>[] = [
+  { label: 'Descent (< -2%)', min: null, max: -2 },
+  { label: 'Flat (-2–2%)', min: -2, max: 2 },
+  { label: '2–5%', min: 2, max: 5 },
+  { label: '5–8%', min: 5, max: 8 },
+  { label: '8–11%', min: 8, max: 11 },
+  { label: '11%+', min: 11, max: null },
+]
+
+interface Segment {
+  startIndex: number
+  endIndex: number
+  meters: number
+  gain: number
+  grade: number
+}
+
+/**
+ * Stream indexes where each SEGMENT_METERS of distance is first reached,
+ * paired up as segments with their altitude change
+ */
+function buildSegments(distance: number[], altitude: number[]): Segment[] {
+  const length = Math.min(distance.length, altitude.length)
+  const segments: Segment[] = []
+  let start = 0
+  for (let i = 1; i < length; i++) {
+    const meters = distance[i] - distance[start]
+    if (meters < SEGMENT_METERS && i < length - 1) continue
+    if (meters <= 0) continue
+    const gain = altitude[i] - altitude[start]
+    segments.push({ startIndex: start, endIndex: i, meters, gain, grade: gain / meters })
+    start = i
+  }
+  return segments
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function mean(values: number[] | undefined, from: number, to: number, skipBelow = 0): number | null {
+  if (!values) return null
+  let sum = 0
+  let count = 0
+  for (let i = from; i <= to && i < values.length; i++) {
+    if (values[i] < skipBelow) continue
+    sum += values[i]
+    count++
+  }
+  return count > 0 ? sum / count : null
+}
+
+/**
+ * Great-circle distance in meters between two [lat, lng] points
+ */
+export function haversineMeters(a: [number, number], b: [number, number]): number {
+  const rad = Math.PI / 180
+  const dLat = (b[0] - a[0]) * rad
+  const dLng = (b[1] - a[1]) * rad
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * rad) * Math.cos(b[0] * rad) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371000 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * VAM (vertical ascent in meters per hour)
+ */
+export function calculateVam(elevationGain: number, durationSeconds: number): number {
+  return durationSeconds > 0 ? Math.round(elevationGain / (durationSeconds / 3600)) : 0
+}
+
+/**
+ * Climbs in a session: runs of climbing segments, bridging short false
+ * flats, that are long, high and steep enough. W/kg needs the athlete's weight.
+ */
+export function detectClimbs(streams: ClimbStreams, weightKg?: number | null): DetectedClimb[] {
+  if (!streams.distance || !streams.altitude) return []
+  const segments = buildSegments(streams.distance, streams.altitude)
+  const at = (i: number) => streams.time?.[i] ?? i
+  const climbs: DetectedClimb[] = []
+
+  let k = 0
+  while (k < segments.length) {
+    if (segments[k].grade < MIN_SEGMENT_GRADE) {
+      k++
+      continue
+    }
+    // Extend over climbing segments and short false flats
+    let last = k
+    let j = k + 1
+    while (j < segments.length) {
+      if (segments[j].grade >= MIN_SEGMENT_GRADE) {
+        last = j
+      } else if (j - last > MAX_GAP_SEGMENTS || segments[j].grade < MAX_GAP_DESCENT) {
+        break
+      }
+      j++
+    }
+
+    const run = segments.slice(k, last + 1)
+    const lengthMeters = run.reduce((sum, s) => sum + s.meters, 0)
+    const elevationGain = run.reduce((sum, s) => sum + s.gain, 0)
+    if (lengthMeters >= MIN_CLIMB_METERS && elevationGain >= MIN_CLIMB_GAIN && elevationGain / lengthMeters >= MIN_CLIMB_GRADE) {
+      const startIndex = run[0].startIndex
+      const endIndex = run[run.length - 1].endIndex
+      const durationSeconds = at(endIndex) - at(startIndex)
+      const avgPower = mean(streams.watts, startIndex, endIndex)
+      const avgHr = mean(streams.heartrate, startIndex, endIndex, 30)
+      climbs.push({
+        startIndex,
+        endIndex,
+        lengthMeters: Math.round(lengthMeters),
+        elevationGain: Math.round(elevationGain),
+        avgGradient: round((elevationGain / lengthMeters) * 100, 1),
+        maxGradient: round(Math.max(...run.map(s => s.grade)) * 100, 1),
+        durationSeconds,
+        vam: calculateVam(elevationGain, durationSeconds),
+        avgPower: avgPower !== null && avgPower > 0 ? Math.round(avgPower) : null,
+        wattsPerKg: avgPower && weightKg ? round(avgPower / weightKg, 2) : null,
+        avgHr: avgHr !== null ? Math.round(avgHr) : null,
+        start: streams.latlng?.[startIndex] ?? null,
+        end: streams.latlng?.[endIndex] ?? null,
+      })
+    }
+    k = last + 1
+  }
+  return climbs
+}
+
+/**
+ * Distance, time and average power in each gradient bin
+ */
+export function calculateGradientBins(streams: ClimbStreams): GradientBin[] {
+  const bins: GradientBin[] = GRADIENT_BINS.map(b => ({ ...b, meters: 0, seconds: 0, avgPower: null }))
+  if (!streams.distance || !streams.altitude) return bins
+  const at = (i: number) => streams.time?.[i] ?? i
+  const work = bins.map(() => ({ joules: 0, seconds: 0 }))
+
+  for (const segment of buildSegments(streams.distance, streams.altitude)) {
+    const percent = segment.grade * 100
+    const b = bins.findIndex(bin => (bin.min === null || percent >= bin.min) && (bin.max === null || percent < bin.max))
+    const seconds = at(segment.endIndex) - at(segment.startIndex)
+    bins[b].meters += segment.meters
+    bins[b].seconds += seconds
+    if (streams.watts) {
+      const power = mean(streams.watts, segment.startIndex, segment.endIndex - 1)
+      if (power !== null) {
+        work[b].joules += power * seconds
+        work[b].seconds += seconds
+      }
+    }
+  }
+
+  return bins.map((bin, i) => ({
+    ...bin,
+    meters: Math.round(bin.meters),
+    avgPower: work[i].seconds > 0 ? Math.round(work[i].joules / work[i].seconds) : null,
+  }))
+}
+
+/**
+ * Whether two climbs are ascents of the same road: starts and ends within
+ * MATCH_RADIUS_METERS of each other and similar length
+ */
+export function isSameClimb(a: ClimbLocation, b: ClimbLocation): boolean {
+  const longer = Math.max(a.lengthMeters, b.lengthMeters)
+  if (longer <= 0 || Math.abs(a.lengthMeters - b.lengthMeters) / longer > MATCH_LENGTH_TOLERANCE) return false
+  return haversineMeters(a.start, b.start) <= MATCH_RADIUS_METERS
+    && haversineMeters(a.end, b.end) <= MATCH_RADIUS_METERS
+}
+
+/**
+ * A readable default name, e.g. "1.8 km at 6.2%"
+ */
+export function describeClimb(climb: Pick<DetectedClimb, 'lengthMeters' | 'avgGradient'>): string {
+  return `${(climb.lengthMeters / 1000).toFixed(1)} km at ${climb.avgGradient}%`
+}
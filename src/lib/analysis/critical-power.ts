@@ -0,0 +1,373 @@
+/**
+ * Critical Power Model Fitting
+ *
+ * Fits power-duration models to mean-maximal power (MMP) data:
+ * - 2-parameter (Monod): linear regression of work on time, P = W'/t + CP
+ * - 3-parameter (Morton): P = W'/(t - k) + CP with Pmax = CP - W'/k
+ * - Omni-domain (Puchowicz 2020): P = W'/t * (1 - e^(-t(Pmax-CP)/W')) + CP,
+ *   with a log decay of A * ln(t/TCPmax) beyond TCPmax
+ */
+
+export interface MeanMaxPoint {
+  duration: number // seconds
+  watts: number
+}
+
+export type CpModelType = 'two_parameter' | 'three_parameter' | 'omni_domain'
+
+export interface CpModelFit {
+  model: CpModelType
+  cp: number // W
+  wPrime: number // J
+  pMax: number | null // W (not defined for the 2-parameter model)
+  /** Long-duration decay (W per ln unit), omni-domain only */
+  decay: number | null
+  /** Root mean square error of the fit in watts */
+  rmse: number
+  /** Mean absolute error as a percentage of observed power */
+  errorPercent: number
+  /** Modeled 60-minute power (CP for the hyperbolic models) */
+  modeledFtp: number
+  pointsUsed: number
+  durationRange: [number, number]
+}
+
+export interface CriticalPowerResult {
+  models: CpModelFit[]
+  /** Most complete model that could be fitted (omni > 3p > 2p) */
+  recommended: CpModelFit | null
+  pointsAvailable: number
+}
+
+// Duration ranges each model is valid for (seconds)
+const TWO_PARAMETER_RANGE: [number, number] = [120, 1200]
+const THREE_PARAMETER_RANGE: [number, number] = [1, 1200]
+const OMNI_DOMAIN_RANGE: [number, number] = [1, 7200]
+
+// Omni-domain: duration at which CP stops being sustainable (Puchowicz et al.)
+const TCP_MAX = 1800
+
+const MIN_POINTS = {
+  two_parameter: 3,
+  three_parameter: 4,
+  omni_domain: 5,
+} as const
+
+function inRange(points: MeanMaxPoint[], [min, max]: [number, number]): MeanMaxPoint[] {
+  return points
+    .filter(p => p.duration >= min && p.duration <= max && p.watts > 0)
+    .sort((a, b) => a.duration - b.duration)
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Ordinary least squares y = slope * x + intercept
+ */
+function linearRegression(xs: number[], ys: number[]): { slope: number; intercept: number } | null {
+  const n = xs.length
+  if (n < 2) return null
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n
+  const meanY = ys.reduce((a, b) => a + b, 0) / n
+  let sxx = 0
+  let sxy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2
+    sxy += (xs[i] - meanX) * (ys[i] - meanY)
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  return { slope, intercept: meanY - slope * meanX }
+}
+
+function fitErrors(
+  points: MeanMaxPoint[],
+  predict: (t: number) => number
+): { rmse: number; errorPercent: number; sse: number } {
+  let sse = 0
+  let percent = 0
+  for (const p of points) {
+    const diff = predict(p.duration) - p.watts
+    sse += diff * diff
+    percent += Math.abs(diff) / p.watts
+  }
+  return {
+    sse,
+    rmse: Math.sqrt(sse / points.length),
+    errorPercent: (percent / points.length) * 100,
+  }
+}
+
+/**
+ * Minimal Nelder-Mead simplex minimizer
+ */
+function nelderMead(
+  fn: (x: number[]) => number,
+  start: number[],
+  step: number[],
+  maxIterations = 500
+): number[] {
+  const n = start.length
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step[j] : v)))]
+  let values = simplex.map(fn)
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b])
+    simplex = order.map(i => simplex[i])
+    values = order.map(i => values[i])
+
+    if (Math.abs(values[n] - values[0]) < 1e-9 * (Math.abs(values[0]) + 1e-9)) break
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, p) => sum + p[j], 0) / n)
+    const towards = (coef: number) => centroid.map((c, j) => c + coef * (simplex[n][j] - c))
+
+    const reflected = towards(-1)
+    const reflectedValue = fn(reflected)
+
+    if (reflectedValue < values[0]) {
+      const expanded = towards(-2)
+      const expandedValue = fn(expanded)
+      if (expandedValue < reflectedValue) {
+        simplex[n] = expanded
+        values[n] = expandedValue
+      } else {
+        simplex[n] = reflected
+        values[n] = reflectedValue
+      }
+    } else if (reflectedValue < values[n - 1]) {
+      simplex[n] = reflected
+      values[n] = reflectedValue
+    } else {
+      const contracted = towards(0.5)
+      const contractedValue = fn(contracted)
+      if (contractedValue < values[n]) {
+        simplex[n] = contracted
+        values[n] = contractedValue
+      } else {
+        // Shrink towards the best vertex
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]))
+          values[i] = fn(simplex[i])
+        }
+      }
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values))
+  return simplex[best]
+}
+
+function buildFit(
+  model: CpModelType,
+  points: MeanMaxPoint[],
+  params: { cp: number; wPrime: number; pMax: number | null; decay: number | null },
+  predict: (t: number) => number,
+  modeledFtp: number
+): CpModelFit {
+  const { rmse, errorPercent } = fitErrors(points, predict)
+  return {
+    model,
+    cp: round(params.cp),
+    wPrime: round(params.wPrime),
+    pMax: params.pMax !== null ? round(params.pMax) : null,
+    decay: params.decay !== null ? round(params.decay, 1) : null,
+    rmse: round(rmse, 1),
+    errorPercent: round(errorPercent, 1),
+    modeledFtp: round(modeledFtp),
+    pointsUsed: points.length,
+    durationRange: [points[0].duration, points[points.length - 1].duration],
+  }
+}
+
+/**
+ * 2-parameter model: work = CP * t + W'
+ */
+export function fitTwoParameterModel(mmp: MeanMaxPoint[]): CpModelFit | null {
+  const points = inRange(mmp, TWO_PARAMETER_RANGE)
+  if (points.length < MIN_POINTS.two_parameter) return null
+
+  const regression = linearRegression(
+    points.map(p => p.duration),
+    points.map(p => p.watts * p.duration)
+  )
+  if (!regression) return null
+
+  const cp = regression.slope
+  const wPrime = regression.intercept
+  if (cp <= 0 || wPrime <= 0) return null
+
+  return buildFit(
+    'two_parameter',
+    points,
+    { cp, wPrime, pMax: null, decay: null },
+    t => cp + wPrime / t,
+    cp
+  )
+}
+
+/**
+ * 3-parameter model: P = W'/(t - k) + CP, with k < 0.
+ * For a fixed k the model is linear in 1/(t - k), so k is found by a
+ * log-spaced grid search refined with golden-section search.
+ */
+export function fitThreeParameterModel(mmp: MeanMaxPoint[]): CpModelFit | null {
+  const points = inRange(mmp, THREE_PARAMETER_RANGE)
+  if (points.length < MIN_POINTS.three_parameter) return null
+
+  const solve = (offset: number) => {
+    const regression = linearRegression(
+      points.map(p => 1 / (p.duration + offset)),
+      points.map(p => p.watts)
+    )
+    if (!regression || regression.slope <= 0 || regression.intercept <= 0) return null
+    const cp = regression.intercept
+    const wPrime = regression.slope
+    const { sse } = fitErrors(points, t => cp + wPrime / (t + offset))
+    return { cp, wPrime, sse }
+  }
+
+  // offset = -k, searched between 0.1s and 10min
+  const sseAt = (logOffset: number) => solve(Math.exp(logOffset))?.sse ?? Infinity
+  const lo = Math.log(0.1)
+  const hi = Math.log(600)
+  const steps = 60
+  let bestIndex = 0
+  let bestSse = Infinity
+  for (let i = 0; i <= steps; i++) {
+    const sse = sseAt(lo + ((hi - lo) * i) / steps)
+    if (sse < bestSse) {
+      bestSse = sse
+      bestIndex = i
+    }
+  }
+  if (!isFinite(bestSse)) return null
+
+  const ratio = (Math.sqrt(5) - 1) / 2
+  let a = lo + ((hi - lo) * Math.max(0, bestIndex - 1)) / steps
+  let b = lo + ((hi - lo) * Math.min(steps, bestIndex + 1)) / steps
+  for (let i = 0; i < 40; i++) {
+    const c = b - ratio * (b - a)
+    const d = a + ratio * (b - a)
+    if (sseAt(c) < sseAt(d)) b = d
+    else a = c
+  }
+
+  const offset = Math.exp((a + b) / 2)
+  const fit = solve(offset)
+  if (!fit) return null
+
+  const { cp, wPrime } = fit
+  return buildFit(
+    'three_parameter',
+    points,
+    { cp, wPrime, pMax: cp + wPrime / offset, decay: null },
+    t => cp + wPrime / (t + offset),
+    cp
+  )
+}
+
+function omniDomainPower(
+  t: number,
+  cp: number,
+  wPrime: number,
+  pMax: number,
+  decay: number
+): number {
+  const power = (wPrime / t) * (1 - Math.exp((-t * (pMax - cp)) / wPrime)) + cp
+  return t > TCP_MAX ? power - decay * Math.log(t / TCP_MAX) : power
+}
+
+/**
+ * Omni-domain power-duration model (OmPD). CP, W' and Pmax are fitted with
+ * Nelder-Mead; the long-duration decay A is solved in closed form for each
+ * candidate so it only needs efforts longer than TCPmax to be non-zero.
+ */
+export function fitOmniDomainModel(mmp: MeanMaxPoint[]): CpModelFit | null {
+  const points = inRange(mmp, OMNI_DOMAIN_RANGE)
+  if (points.length < MIN_POINTS.omni_domain) return null
+  // Needs both a short effort for Pmax and a threshold-length effort for CP
+  if (points[0].duration > 30 || points[points.length - 1].duration < 600) return null
+
+  const longPoints = points.filter(p => p.duration > TCP_MAX)
+
+  const solveDecay = (cp: number, wPrime: number, pMax: number) => {
+    let num = 0
+    let den = 0
+    for (const p of longPoints) {
+      const log = Math.log(p.duration / TCP_MAX)
+      num += (omniDomainPower(p.duration, cp, wPrime, pMax, 0) - p.watts) * log
+      den += log * log
+    }
+    return den > 0 ? Math.max(0, num / den) : 0
+  }
+
+  const objective = ([cp, wPrime, pMax]: number[]) => {
+    if (cp <= 0 || wPrime <= 0 || pMax <= cp) return Infinity
+    const decay = solveDecay(cp, wPrime, pMax)
+    return fitErrors(points, t => omniDomainPower(t, cp, wPrime, pMax, decay)).sse
+  }
+
+  // Seed from the hyperbolic fits where possible
+  const seed = fitThreeParameterModel(mmp) ?? fitTwoParameterModel(mmp)
+  const maxObserved = Math.max(...points.map(p => p.watts))
+  const start = [
+    seed?.cp ?? points[points.length - 1].watts,
+    seed?.wPrime ?? 20000,
+    Math.max(seed?.pMax ?? maxObserved, maxObserved),
+  ]
+
+  const [cp, wPrime, pMax] = nelderMead(objective, start, [start[0] * 0.1, start[1] * 0.2, start[2] * 0.1])
+  if (!isFinite(objective([cp, wPrime, pMax]))) return null
+
+  const decay = solveDecay(cp, wPrime, pMax)
+  return buildFit(
+    'omni_domain',
+    points,
+    { cp, wPrime, pMax, decay },
+    t => omniDomainPower(t, cp, wPrime, pMax, decay),
+    omniDomainPower(3600, cp, wPrime, pMax, decay)
+  )
+}
+
+/**
+ * Predicted power for a duration from a fitted model
+ */
+export function predictPower(fit: CpModelFit, durationSeconds: number): number {
+  switch (fit.model) {
+    case 'two_parameter':
+      return fit.cp + fit.wPrime / durationSeconds
+    case 'three_parameter': {
+      const offset = fit.wPrime / ((fit.pMax ?? fit.cp) - fit.cp || 1)
+      return fit.cp + fit.wPrime / (durationSeconds + offset)
+    }
+    case 'omni_domain':
+      return omniDomainPower(durationSeconds, fit.cp, fit.wPrime, fit.pMax ?? fit.cp, fit.decay ?? 0)
+  }
+}
+
+/**
+ * Fit all models that the data supports
+ */
+export function fitCriticalPowerModels(mmp: MeanMaxPoint[]): CriticalPowerResult {
+  const models = [
+    fitTwoParameterModel(mmp),
+    fitThreeParameterModel(mmp),
+    fitOmniDomainModel(mmp),
+  ].filter((fit): fit is CpModelFit => fit !== null)
+
+  const preference: CpModelType[] = ['omni_domain', 'three_parameter', 'two_parameter']
+  const recommended = preference
+    .map(type => models.find(m => m.model === type))
+    .find(Boolean) ?? null
+
+  return {
+    models,
+    recommended,
+    pointsAvailable: mmp.filter(p => p.watts > 0).length,
+  }
+}
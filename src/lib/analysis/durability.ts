@@ -0,0 +1,153 @@
+/**
+ * Aerobic Decoupling and Durability
+ *
+ * Per-session aerobic metrics from power and heart rate streams:
+ *   efficiency factor - normalized power / average heart rate
+ *   decoupling        - Pw:HR drift, the drop in watts per beat from the first
+ *                       half of the session to the second, in percent
+ *   durability        - best 5 and 20 minute power produced after 1000, 2000
+ *                       and 3000 kJ of work, i.e. what is left once fatigued
+ *
+ * Streams are sampled once per second, so each watt sample is one joule.
+ */
+
+import { MIN_VALID_HR } from './stream-quality'
+import type { DurabilityPoint } from '@/types'
+
+export interface AerobicStreams {
+  watts?: number[]
+  heartrate?: number[]
+}
+
+export interface AerobicMetrics {
+  efficiencyFactor: number | null
+  /** Pw:HR decoupling in percent; positive when heart rate drifts up relative to power */
+  decoupling: number | null
+  /** Null without a power stream */
+  durability: DurabilityPoint[] | null
+}
+
+export const DURABILITY_WORK_THRESHOLDS_KJ = [1000, 2000, 3000]
+export const DURABILITY_DURATIONS = [
+  { seconds: 300, key: 'best_5min' },
+  { seconds: 1200, key: 'best_20min' },
+] as const
+
+// Halves shorter than 10 minutes say more about the warm-up than about drift
+const MIN_DECOUPLING_SECONDS = 1200
+// Rolling window for normalized power
+const NP_WINDOW_SECONDS = 30
+
+/**
+ * Highest mean power over `seconds` starting at or after `from`
+ */
+function bestAverage(watts: number[], from: number, seconds: number): number | null {
+  if (watts.length - from < seconds) return null
+  let windowSum = 0
+  for (let i = from; i < from + seconds; i++) windowSum += watts[i] || 0
+  let best = windowSum
+  for (let i = from + seconds; i < watts.length; i++) {
+    windowSum += (watts[i] || 0) - (watts[i - seconds] || 0)
+    if (windowSum > best) best = windowSum
+  }
+  return Math.round(best / seconds)
+}
+
+function normalizedPower(watts: number[]): number | null {
+  if (watts.length < NP_WINDOW_SECONDS) return null
+  let windowSum = watts.slice(0, NP_WINDOW_SECONDS).reduce((a, b) => a + (b || 0), 0)
+  let fourthPowerSum = (windowSum / NP_WINDOW_SECONDS) ** 4
+  for (let i = NP_WINDOW_SECONDS; i < watts.length; i++) {
+    windowSum += (watts[i] || 0) - (watts[i - NP_WINDOW_SECONDS] || 0)
+    fourthPowerSum += (windowSum / NP_WINDOW_SECONDS) ** 4
+  }
+  const np = (fourthPowerSum / (watts.length - NP_WINDOW_SECONDS + 1)) ** 0.25
+  return np > 0 ? np : null
+}
+
+/**
+ * Efficiency factor: normalized power over the average of valid heart rate samples
+ */
+export function calculateEfficiencyFactor(watts: number[], heartrate: number[]): number | null {
+  const np = normalizedPower(watts)
+  const valid = heartrate.filter(hr => hr >= MIN_VALID_HR)
+  if (!np || valid.length === 0) return null
+  const avgHr = valid.reduce((a, b) => a + b, 0) / valid.length
+  return Math.round((np / avgHr) * 100) / 100
+}
+
+/**
+ * Pw:HR decoupling: (EF first half - EF second half) / EF first half, using
+ * average power over average heart rate on the samples with a valid heart rate
+ */
+export function calculateDecoupling(watts: number[], heartrate: number[]): number | null {
+  const power: number[] = []
+  const hr: number[] = []
+  const length = Math.min(watts.length, heartrate.length)
+  for (let i = 0; i < length; i++) {
+    if (heartrate[i] < MIN_VALID_HR) continue
+    power.push(watts[i] || 0)
+    hr.push(heartrate[i])
+  }
+  if (power.length < MIN_DECOUPLING_SECONDS) return null
+
+  const half = Math.floor(power.length / 2)
+  const ratio = (from: number, to: number) => {
+    const p = power.slice(from, to).reduce((a, b) => a + b, 0)
+    const h = hr.slice(from, to).reduce((a, b) => a + b, 0)
+    return h > 0 ? p / h : 0
+  }
+  const first = ratio(0, half)
+  const second = ratio(half, power.length)
+  if (first <= 0) return null
+  return Math.round(((first - second) / first) * 1000) / 10
+}
+
+/**
+ * Best 5 and 20 minute power after each work threshold the session reached.
+ * A threshold is left out when less than 5 minutes of riding remained after it.
+ */
+export function calculateDurability(watts: number[]): DurabilityPoint[] {
+  const points: DurabilityPoint[] = []
+  let joules = 0
+  let index = 0
+  for (const kj of DURABILITY_WORK_THRESHOLDS_KJ) {
+    while (index < watts.length && joules < kj * 1000) {
+      joules += watts[index] || 0
+      index++
+    }
+    if (joules < kj * 1000) break
+
+    const best5 = bestAverage(watts, index, 300)
+    if (best5 === null) break
+    points.push({ after_kj: kj, best_5min: best5, best_20min: bestAverage(watts, index, 1200) })
+  }
+  return points
+}
+
+/**
+ * Efficiency factor, decoupling and durability for a session's streams
+ */
+export function calculateAerobicMetrics(streams: AerobicStreams): AerobicMetrics {
+  const watts = streams.watts && streams.watts.some(w => w > 0) ? streams.watts : null
+  const heartrate = streams.heartrate ?? null
+  return {
+    efficiencyFactor: watts && heartrate ? calculateEfficiencyFactor(watts, heartrate) : null,
+    decoupling: watts && heartrate ? calculateDecoupling(watts, heartrate) : null,
+    durability: watts ? calculateDurability(watts) : null,
+  }
+}
+
+/**
+ * Power for one of the durability durations (300 or 1200 s) after `afterKj`
+ */
+export function durabilityPower(
+  points: DurabilityPoint[] | null | undefined,
+  afterKj: number,
+  durationSeconds: number
+): number | null {
+  const duration = DURABILITY_DURATIONS.find(d => d.seconds === durationSeconds)
+  const point = points?.find(p => p.after_kj === afterKj)
+  if (!duration || !point) return null
+  return point[duration.key]
+}
@@ -0,0 +1,167 @@
+/**
+ * Estimated FTP (eFTP)
+ *
+ * Estimates FTP from recent rides with three methods:
+ * - 20-minute: best 20-minute power x 0.95
+ * - CP model: modeled FTP of the recommended Critical Power fit
+ * - Ramp test: best 1-minute power x 0.75 for rides that look like a ramp test
+ *
+ * A ramp test is a deliberate maximal test and takes precedence; otherwise the
+ * highest estimate is used, since submaximal rides only ever underestimate.
+ */
+
+import { calculatePeakPower } from './power-analysis'
+import type { CpModelFit } from './critical-power'
+
+export type FtpEstimateMethod = 'twenty_minute' | 'cp_model' | 'ramp_test'
+
+export interface FtpEstimate {
+  method: FtpEstimateMethod
+  ftp: number
+  /** Effort the estimate is based on (W): 20-min power, 1-min ramp peak or CP */
+  basisWatts: number
+  sessionId: string | null
+  date: string | null
+}
+
+export interface RampTestDetection {
+  /** Consecutive rising 1-minute steps */
+  steps: number
+  peakMinutePower: number
+  estimatedFtp: number
+  /** Seconds into the ride where the ramp starts and the athlete failed */
+  startSecond: number
+  endSecond: number
+}
+
+export interface FtpChangeAssessment {
+  currentFtp: number | null
+  estimatedFtp: number
+  method: FtpEstimateMethod
+  change: number
+  changePercent: number | null
+  /** Minimum change (W) for a proposal at the current FTP */
+  threshold: number
+  shouldPropose: boolean
+  estimate: FtpEstimate
+}
+
+export const TWENTY_MINUTE_FACTOR = 0.95
+export const RAMP_TEST_FACTOR = 0.75
+
+// Propose a change only when it moves by at least this much
+export const FTP_CHANGE_MIN_WATTS = 5
+export const FTP_CHANGE_MIN_PERCENT = 3
+
+// Ramp detection on 1-minute block averages: steady rises of at most 20% per
+// minute, then a drop below 70% of the last step when the athlete fails.
+// Rides named "ramp" need fewer steps.
+const RAMP_MIN_STEPS = 8
+const RAMP_MIN_STEPS_NAMED = 5
+const RAMP_MAX_STEP_FRACTION = 0.2
+const RAMP_FAILURE_FRACTION = 0.7
+const RAMP_NAME_PATTERN = /\bramp\b/i
+
+export function estimateFromTwentyMinute(power20min: number): number {
+  return Math.round(power20min * TWENTY_MINUTE_FACTOR)
+}
+
+export function estimateFromRampTest(peakMinutePower: number): number {
+  return Math.round(peakMinutePower * RAMP_TEST_FACTOR)
+}
+
+export function estimateFromCpModel(fit: CpModelFit): number {
+  return Math.round(fit.modeledFtp)
+}
+
+function minuteAverages(watts: number[]): number[] {
+  const minutes: number[] = []
+  for (let start = 0; start + 60 <= watts.length; start += 60) {
+    let sum = 0
+    for (let i = start; i < start + 60; i++) sum += watts[i] || 0
+    minutes.push(sum / 60)
+  }
+  return minutes
+}
+
+/**
+ * Detect a ramp test in a 1Hz power stream: power rising every minute until
+ * the athlete fails. The activity name ("Ramp Test") lowers the step count
+ * required but a ramp must still be visible in the data.
+ */
+export function detectRampTest(
+  watts: number[],
+  name?: string | null
+): RampTestDetection | null {
+  const minutes = minuteAverages(watts)
+  const required = name && RAMP_NAME_PATTERN.test(name) ? RAMP_MIN_STEPS_NAMED : RAMP_MIN_STEPS
+
+  let run = 0
+  let bestRun = 0
+  let bestEnd = -1
+  for (let i = 1; i < minutes.length; i++) {
+    const step = minutes[i] - minutes[i - 1]
+    run = step > 0 && step <= minutes[i - 1] * RAMP_MAX_STEP_FRACTION ? run + 1 : 0
+    if (run > bestRun) {
+      bestRun = run
+      bestEnd = i
+    }
+  }
+
+  if (bestRun < required) return null
+
+  // The test ends at failure (or the recording stops at the top step)
+  const after = minutes[bestEnd + 1]
+  if (after !== undefined && after > minutes[bestEnd] * RAMP_FAILURE_FRACTION) return null
+
+  const startSecond = (bestEnd - bestRun) * 60
+  const endSecond = Math.min(watts.length, (bestEnd + 2) * 60)
+  const peakMinutePower = calculatePeakPower(watts.slice(startSecond, endSecond), 60)
+  if (!peakMinutePower) return null
+
+  return {
+    steps: bestRun + 1,
+    peakMinutePower,
+    estimatedFtp: estimateFromRampTest(peakMinutePower),
+    startSecond,
+    endSecond,
+  }
+}
+
+/**
+ * Minimum FTP change (W) worth proposing at the current FTP
+ */
+export function ftpChangeThreshold(currentFtp: number | null): number {
+  if (!currentFtp) return FTP_CHANGE_MIN_WATTS
+  return Math.max(FTP_CHANGE_MIN_WATTS, Math.round((currentFtp * FTP_CHANGE_MIN_PERCENT) / 100))
+}
+
+/**
+ * Pick the estimate to act on and decide whether it warrants a proposal
+ */
+export function assessFtpChange(
+  currentFtp: number | null,
+  estimates: FtpEstimate[]
+): FtpChangeAssessment | null {
+  const valid = estimates.filter(e => e.ftp > 0)
+  if (valid.length === 0) return null
+
+  const rampTests = valid
+    .filter(e => e.method === 'ramp_test')
+    .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''))
+  const estimate = rampTests[0] ?? valid.reduce((best, e) => (e.ftp > best.ftp ? e : best))
+
+  const threshold = ftpChangeThreshold(currentFtp)
+  const change = currentFtp ? estimate.ftp - currentFtp : estimate.ftp
+
+  return {
+    currentFtp,
+    estimatedFtp: estimate.ftp,
+    method: estimate.method,
+    change,
+    changePercent: currentFtp ? Math.round((change / currentFtp) * 1000) / 10 : null,
+    threshold,
+    shouldPropose: Math.abs(change) >= threshold,
+    estimate,
+  }
+}
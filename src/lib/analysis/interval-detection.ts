@@ -0,0 +1,488 @@
+/**
+ * Interval Detection
+ *
+ * Segments a 1Hz power stream into work and recovery bouts:
+ * 1. Smooth power (30s centered average)
+ * 2. Binary segmentation: split where it most reduces the squared error,
+ *    while the reduction beats a penalty equivalent to a minimum power shift
+ * 3. Refine each change point on raw power, snap to device laps when close
+ *    and add lap boundaries (manual / workout-step laps, not auto-laps)
+ * 4. Merge neighbouring segments whose averages differ less than the minimum
+ *    shift, classify work vs recovery and join neighbours of the same kind
+ *
+ * Efforts shorter than ~30s (sprints, 30/30s) are smoothed away.
+ * Bouts can then be compared with the prescribed WorkoutIntervals of a plan day.
+ */
+
+import type { ChartAnnotation } from '@/lib/widgets/types'
+import type { WorkoutInterval } from '@/lib/workouts/library'
+import type { ActivityLap } from '@/lib/fit-parser'
+
+export type IntervalBoutKind = 'work' | 'recovery'
+
+export interface DetectedInterval {
+  kind: IntervalBoutKind
+  /** 1-based number among bouts of the same kind */
+  number: number
+  /** Seconds from the start of the session */
+  startSecond: number
+  endSecond: number
+  durationSeconds: number
+  avgPower: number
+  normalizedPower: number | null
+  percentFtp: number | null
+  avgHr: number | null
+  /** HR rise from the first to the second half of the bout (%) */
+  hrDrift: number | null
+  avgCadence: number | null
+  /** 'lap' when both ends come from device laps */
+  source: 'detected' | 'lap'
+}
+
+export interface IntervalStreams {
+  watts: number[]
+  time?: number[]
+  heartrate?: number[]
+  cadence?: number[]
+}
+
+export interface IntervalDetectionOptions {
+  ftp: number | null
+  /** Lap start times in seconds from the session start */
+  lapStarts?: number[]
+}
+
+export type RepStatus = 'completed' | 'short' | 'under' | 'over' | 'missed'
+
+export interface RepComparison {
+  rep: number
+  targetDurationSeconds: number
+  targetIntensityMin: number
+  targetIntensityMax: number
+  /** Prescribed cadence in rpm (e.g. low-cadence strength work) */
+  targetCadence: number | null
+  bout: DetectedInterval | null
+  /** Actual duration as % of the target */
+  durationPercent: number | null
+  status: RepStatus
+  /** Whether the bout's cadence met the target; null without a target or cadence */
+  cadenceOnTarget: boolean | null
+}
+
+export interface IntervalComplianceResult {
+  prescribedReps: number
+  completedReps: number
+  reps: RepComparison[]
+  /** Work bouts not matched to any prescribed rep */
+  extraWorkBouts: number
+  executedAsPrescribed: boolean
+  summary: string
+}
+
+const SMOOTHING_SECONDS = 30
+const MIN_SEGMENT_SECONDS = 30
+const MAX_SEGMENTS = 200
+
+// Minimum power change between bouts: 15W or 5% FTP
+const MIN_SHIFT_WATTS = 15
+const MIN_SHIFT_FTP_FRACTION = 0.05
+
+// Work bouts: at least 75% FTP, or 15% above ride average without an FTP
+const WORK_FTP_FRACTION = 0.75
+const WORK_AVERAGE_FACTOR = 1.15
+
+// Change points within this many seconds of a lap boundary move onto it
+const LAP_SNAP_SECONDS = 20
+const REFINE_SECONDS = SMOOTHING_SECONDS / 2
+
+const MIN_DRIFT_SECONDS = 120
+
+// Rep matching: bouts between half and 1.75x the target duration are candidates;
+// completed reps are within 10% of the target duration and 3% FTP of the range
+const MATCH_MIN_DURATION_FRACTION = 0.5
+const MATCH_MAX_DURATION_FRACTION = 1.75
+const DURATION_TOLERANCE = 0.1
+const INTENSITY_TOLERANCE = 3
+// Cadence targets are met within this many rpm
+const CADENCE_TOLERANCE = 5
+
+// Laps that come from the device's auto-lap rather than the athlete/workout
+const AUTO_LAP_TRIGGERS = new Set(['distance', 'position_start', 'position_lap', 'position_waypoint', 'position_marked'])
+
+function prefixSums(values: number[]): { sum: Float64Array; sumSq: Float64Array } {
+  const sum = new Float64Array(values.length + 1)
+  const sumSq = new Float64Array(values.length + 1)
+  for (let i = 0; i < values.length; i++) {
+    sum[i + 1] = sum[i] + values[i]
+    sumSq[i + 1] = sumSq[i] + values[i] * values[i]
+  }
+  return { sum, sumSq }
+}
+
+type Prefix = ReturnType<typeof prefixSums>
+
+function segmentMean({ sum }: Prefix, start: number, end: number): number {
+  return (sum[end] - sum[start]) / (end - start)
+}
+
+function segmentCost({ sum, sumSq }: Prefix, start: number, end: number): number {
+  const s = sum[end] - sum[start]
+  return sumSq[end] - sumSq[start] - (s * s) / (end - start)
+}
+
+function smooth(values: number[], window: number): number[] {
+  const { sum } = prefixSums(values)
+  const half = Math.floor(window / 2)
+  return values.map((_, i) => {
+    const start = Math.max(0, i - half)
+    const end = Math.min(values.length, i + half + 1)
+    return (sum[end] - sum[start]) / (end - start)
+  })
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+function normalizedPower(watts: number[]): number | null {
+  if (watts.length < SMOOTHING_SECONDS) return null
+  const rolling = smooth(watts, SMOOTHING_SECONDS).slice(
+    Math.floor(SMOOTHING_SECONDS / 2),
+    watts.length - Math.floor(SMOOTHING_SECONDS / 2)
+  )
+  const fourth = mean(rolling.map(p => p ** 4))
+  return fourth !== null ? Math.round(fourth ** 0.25) : null
+}
+
+/**
+ * Change points (sample indices) by binary segmentation on smoothed power
+ */
+function findChangePoints(smoothed: number[], minShift: number): number[] {
+  const prefix = prefixSums(smoothed)
+  // Squared-error reduction of a step of minShift between two minimum-length segments
+  const penalty = minShift * minShift * (MIN_SEGMENT_SECONDS / 2)
+  const points: number[] = []
+  const queue: Array<[number, number]> = [[0, smoothed.length]]
+
+  while (queue.length > 0 && points.length < MAX_SEGMENTS) {
+    const [start, end] = queue.pop()!
+    if (end - start < MIN_SEGMENT_SECONDS * 2) continue
+
+    const total = segmentCost(prefix, start, end)
+    let best = -1
+    let bestCost = Infinity
+    for (let k = start + MIN_SEGMENT_SECONDS; k <= end - MIN_SEGMENT_SECONDS; k++) {
+      const cost = segmentCost(prefix, start, k) + segmentCost(prefix, k, end)
+      if (cost < bestCost) {
+        bestCost = cost
+        best = k
+      }
+    }
+
+    if (best > 0 && total - bestCost >= penalty) {
+      points.push(best)
+      queue.push([start, best], [best, end])
+    }
+  }
+
+  return points.sort((a, b) => a - b)
+}
+
+/**
+ * Move each boundary to the best step position on raw power nearby
+ */
+function refineBoundaries(watts: number[], boundaries: number[]): number[] {
+  const prefix = prefixSums(watts)
+  return boundaries.map((b, i) => {
+    if (i === 0 || i === boundaries.length - 1) return b
+    const prev = boundaries[i - 1]
+    const next = boundaries[i + 1]
+    let best = b
+    let bestCost = Infinity
+    const from = Math.max(prev + 1, b - REFINE_SECONDS)
+    const to = Math.min(next - 1, b + REFINE_SECONDS)
+    for (let k = from; k <= to; k++) {
+      const cost = segmentCost(prefix, prev, k) + segmentCost(prefix, k, next)
+      if (cost < bestCost) {
+        bestCost = cost
+        best = k
+      }
+    }
+    return best
+  })
+}
+
+function indexAtSecond(time: number[] | undefined, second: number, length: number): number {
+  if (!time || time.length !== length) return Math.min(Math.max(Math.round(second), 0), length)
+  const index = time.findIndex(t => t >= second)
+  return index < 0 ? length : index
+}
+
+/**
+ * Lap start times (seconds from session start) for laps the athlete or a
+ * structured workout created; auto-laps by distance/position are left out.
+ */
+export function lapBoundarySeconds(laps: ActivityLap[], sessionStart: string): number[] {
+  const start = new Date(sessionStart).getTime()
+  if (Number.isNaN(start)) return []
+  return laps
+    .filter(lap => !lap.trigger || !AUTO_LAP_TRIGGERS.has(lap.trigger))
+    .map(lap => Math.round((new Date(lap.start_time).getTime() - start) / 1000))
+    .filter(seconds => Number.isFinite(seconds) && seconds > 0)
+}
+
+/**
+ * Detect work and recovery bouts in a session's streams
+ */
+export function detectIntervals(
+  streams: IntervalStreams,
+  { ftp, lapStarts = [] }: IntervalDetectionOptions
+): DetectedInterval[] {
+  const watts = streams.watts.map(w => w || 0)
+  const n = watts.length
+  if (n < MIN_SEGMENT_SECONDS * 2 || !watts.some(w => w > 0)) return []
+
+  const minShift = Math.max(MIN_SHIFT_WATTS, ftp ? ftp * MIN_SHIFT_FTP_FRACTION : 0)
+  const rideAverage = mean(watts)!
+  const workThreshold = ftp ? ftp * WORK_FTP_FRACTION : rideAverage * WORK_AVERAGE_FACTOR
+
+  // Change points refined on raw power, snapped to nearby lap boundaries
+  const lapIndices = new Set(
+    lapStarts
+      .map(s => indexAtSecond(streams.time, s, n))
+      .filter(i => i > 0 && i < n)
+  )
+  const detected = refineBoundaries(watts, [0, ...findChangePoints(smooth(watts, SMOOTHING_SECONDS), minShift), n])
+    .slice(1, -1)
+    .map(b => {
+      let nearest = b
+      let nearestDistance = Infinity
+      for (const lap of lapIndices) {
+        const distance = Math.abs(lap - b)
+        if (distance <= LAP_SNAP_SECONDS && distance < nearestDistance) {
+          nearest = lap
+          nearestDistance = distance
+        }
+      }
+      return nearest
+    })
+  const boundaries = Array.from(new Set([0, ...detected, ...lapIndices, n])).sort((a, b) => a - b)
+
+  // Merge segments whose averages are within minShift, closest pair first
+  const prefix = prefixSums(watts)
+  let segments = boundaries.slice(0, -1).map((start, i) => ({ start, end: boundaries[i + 1] }))
+  while (segments.length > 1) {
+    let closest = -1
+    let closestDiff = Infinity
+    for (let i = 0; i < segments.length - 1; i++) {
+      const diff = Math.abs(
+        segmentMean(prefix, segments[i].start, segments[i].end) -
+        segmentMean(prefix, segments[i + 1].start, segments[i + 1].end)
+      )
+      // Very short segments (e.g. lap boundaries close together) always merge
+      const tooShort = Math.min(
+        segments[i].end - segments[i].start,
+        segments[i + 1].end - segments[i + 1].start
+      ) < MIN_SEGMENT_SECONDS / 2
+      if ((diff < minShift || tooShort) && diff < closestDiff) {
+        closestDiff = diff
+        closest = i
+      }
+    }
+    if (closest < 0) break
+    segments = [
+      ...segments.slice(0, closest),
+      { start: segments[closest].start, end: segments[closest + 1].end },
+      ...segments.slice(closest + 2),
+    ]
+  }
+
+  // Classify, then join neighbours of the same kind into bouts
+  const bouts: Array<{ start: number; end: number; kind: IntervalBoutKind }> = []
+  for (const segment of segments) {
+    const kind: IntervalBoutKind =
+      segmentMean(prefix, segment.start, segment.end) >= workThreshold ? 'work' : 'recovery'
+    const last = bouts[bouts.length - 1]
+    if (last && last.kind === kind) {
+      last.end = segment.end
+    } else {
+      bouts.push({ ...segment, kind })
+    }
+  }
+
+  const counts: Record<IntervalBoutKind, number> = { work: 0, recovery: 0 }
+  const second = (i: number) => (streams.time && streams.time.length === n
+    ? (i < n ? streams.time[i] : streams.time[n - 1] + 1)
+    : i)
+
+  return bouts.map(({ start, end, kind }) => {
+    const power = watts.slice(start, end)
+    const avgPower = mean(power)!
+    const hr = (streams.heartrate ?? []).slice(start, end)
+    const validHr = hr.filter(h => h > 0)
+    const cadence = (streams.cadence ?? []).slice(start, end).filter(c => c > 0)
+
+    let hrDrift: number | null = null
+    if (hr.length >= MIN_DRIFT_SECONDS) {
+      const half = Math.floor(hr.length / 2)
+      const first = mean(hr.slice(0, half).filter(h => h > 0))
+      const secondHalf = mean(hr.slice(half).filter(h => h > 0))
+      if (first && secondHalf) hrDrift = Math.round(((secondHalf - first) / first) * 1000) / 10
+    }
+
+    const avgHr = mean(validHr)
+    const avgCadence = mean(cadence)
+
+    return {
+      kind,
+      number: ++counts[kind],
+      startSecond: second(start),
+      endSecond: second(end),
+      durationSeconds: second(end) - second(start),
+      avgPower: Math.round(avgPower),
+      normalizedPower: normalizedPower(power),
+      percentFtp: ftp ? Math.round((avgPower / ftp) * 100) : null,
+      avgHr: avgHr !== null ? Math.round(avgHr) : null,
+      hrDrift,
+      avgCadence: avgCadence !== null ? Math.round(avgCadence) : null,
+      source: (start === 0 || lapIndices.has(start)) && (end === n || lapIndices.has(end)) && lapIndices.size > 0
+        ? 'lap' as const
+        : 'detected' as const,
+    }
+  })
+}
+
+/**
+ * Expand prescribed intervals (sets x duration) into individual reps
+ */
+export function expandPrescribedReps(intervals: WorkoutInterval[]): Array<Omit<RepComparison, 'bout' | 'durationPercent' | 'status' | 'cadenceOnTarget'>> {
+  const reps: Array<Omit<RepComparison, 'bout' | 'durationPercent' | 'status' | 'cadenceOnTarget'>> = []
+  for (const interval of intervals) {
+    for (let set = 0; set < Math.max(1, interval.sets); set++) {
+      reps.push({
+        rep: reps.length + 1,
+        targetDurationSeconds: interval.duration_seconds,
+        targetIntensityMin: interval.intensity_min,
+        targetIntensityMax: interval.intensity_max,
+        targetCadence: interval.cadence_target ?? null,
+      })
+    }
+  }
+  return reps
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+/**
+ * Match detected work bouts to the prescribed reps in order and grade each rep.
+ * Intensity is only graded when the bouts carry % FTP, cadence only when the
+ * rep has a cadence target and the bout has cadence.
+ */
+export function compareWithPrescribed(
+  detected: DetectedInterval[],
+  prescribed: WorkoutInterval[]
+): IntervalComplianceResult | null {
+  const targets = expandPrescribedReps(prescribed)
+  if (targets.length === 0) return null
+
+  const work = detected.filter(d => d.kind === 'work')
+  let next = 0
+  const reps: RepComparison[] = targets.map(target => {
+    const index = work.findIndex((bout, i) =>
+      i >= next &&
+      bout.durationSeconds >= target.targetDurationSeconds * MATCH_MIN_DURATION_FRACTION &&
+      bout.durationSeconds <= target.targetDurationSeconds * MATCH_MAX_DURATION_FRACTION
+    )
+    if (index < 0) {
+      return { ...target, bout: null, durationPercent: null, status: 'missed' as const, cadenceOnTarget: null }
+    }
+    next = index + 1
+
+    const bout = work[index]
+    const durationPercent = Math.round((bout.durationSeconds / target.targetDurationSeconds) * 100)
+    let status: RepStatus = 'completed'
+    if (bout.durationSeconds < target.targetDurationSeconds * (1 - DURATION_TOLERANCE)) {
+      status = 'short'
+    } else if (bout.percentFtp !== null && bout.percentFtp < target.targetIntensityMin - INTENSITY_TOLERANCE) {
+      status = 'under'
+    } else if (bout.percentFtp !== null && bout.percentFtp > target.targetIntensityMax + INTENSITY_TOLERANCE) {
+      status = 'over'
+    }
+    const cadenceOnTarget = target.targetCadence !== null && bout.avgCadence !== null
+      ? Math.abs(bout.avgCadence - target.targetCadence) <= CADENCE_TOLERANCE
+      : null
+    return { ...target, bout, durationPercent, status, cadenceOnTarget }
+  })
+
+  const completedReps = reps.filter(r => r.status === 'completed').length
+  const matched = reps.filter(r => r.bout).length
+  const offCadence = reps.filter(r => r.cadenceOnTarget === false)
+  const executedAsPrescribed = completedReps === reps.length && offCadence.length === 0
+
+  const first = targets[0]
+  const prescription = `${targets.length} x ${formatDuration(first.targetDurationSeconds)} @ ` +
+    `${first.targetIntensityMin}-${first.targetIntensityMax}% FTP` +
+    (first.targetCadence !== null ? `, ${first.targetCadence} rpm` : '')
+  const issues = reps
+    .filter(r => r.status !== 'completed')
+    .map(r => r.status === 'missed'
+      ? `rep ${r.rep} missed`
+      : r.status === 'short'
+        ? `rep ${r.rep} short (${formatDuration(r.bout!.durationSeconds)})`
+        : `rep ${r.rep} ${r.status} (${r.bout!.percentFtp}% FTP)`)
+    .concat(offCadence.map(r => `rep ${r.rep} at ${r.bout!.avgCadence} rpm`))
+
+  return {
+    prescribedReps: reps.length,
+    completedReps,
+    reps,
+    extraWorkBouts: work.length - matched,
+    executedAsPrescribed,
+    summary: executedAsPrescribed
+      ? `All ${reps.length} reps executed as prescribed (${prescription})`
+      : `${completedReps} of ${reps.length} reps on target (${prescription}): ${issues.join(', ')}`,
+  }
+}
+
+const STATUS_COLORS: Record<RepStatus, string> = {
+  completed: 'hsl(142, 71%, 45%)', // Green
+  short: 'hsl(38, 92%, 50%)', // Amber
+  under: 'hsl(38, 92%, 50%)',
+  over: 'hsl(0, 84%, 60%)', // Red
+  missed: 'hsl(0, 84%, 60%)',
+}
+const WORK_COLOR = 'hsl(217, 91%, 60%)' // Blue
+
+/**
+ * Chart areas for detected work bouts, colored by rep status when compared
+ * with a prescription
+ */
+export function intervalsToAnnotations(
+  intervals: DetectedInterval[],
+  compliance?: IntervalComplianceResult | null
+): ChartAnnotation[] {
+  const statusByStart = new Map(
+    (compliance?.reps ?? [])
+      .filter(r => r.bout)
+      .map(r => [r.bout!.startSecond, r.status])
+  )
+
+  return intervals
+    .filter(i => i.kind === 'work')
+    .map(interval => {
+      const status = statusByStart.get(interval.startSecond)
+      const intensity = interval.percentFtp !== null ? ` (${interval.percentFtp}%)` : ''
+      return {
+        id: `interval-${interval.number}`,
+        type: 'area' as const,
+        xStart: interval.startSecond,
+        xEnd: interval.endSecond,
+        label: `#${interval.number} ${formatDuration(interval.durationSeconds)} · ${interval.avgPower}W${intensity}`,
+        color: status ? STATUS_COLORS[status] : WORK_COLOR,
+      }
+    })
+}
@@ -0,0 +1,195 @@
+/**
+ * Mean-Maximal Power
+ *
+ * Builds an athlete's mean-maximal power curve for a date window from
+ * locally stored power streams, falling back to recorded power bests.
+ * Flagged power samples, excluded ranges and excluded sessions are left out.
+ */
+
+import { getSessions } from '@/lib/db/sessions'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE } from '@/lib/db/session-streams'
+import { getPowerBestsInRange } from '@/lib/db/power-bests'
+import { getAthlete } from '@/lib/db/athletes'
+import { calculatePeakPower } from './power-analysis'
+import { bestsExclusionMask } from './stream-quality'
+import { fitCriticalPowerModels, type MeanMaxPoint } from './critical-power'
+import type { CriticalPowerParams } from './w-prime-balance'
+import { logger } from '@/lib/logger'
+
+// Durations sampled for model fitting (seconds)
+export const MEAN_MAX_DURATIONS = [
+  1, 2, 3, 5, 8, 10, 15, 20, 30, 45, 60, 90, 120, 180, 240, 300,
+  420, 600, 900, 1200, 1800, 2400, 3600, 5400, 7200,
+]
+
+// Power bests window used when the athlete has no saved CP/W′
+const CP_FALLBACK_DAYS = 180
+
+export type MeanMaxSource = 'streams' | 'power_bests' | 'none'
+
+export interface SessionMeanMax {
+  sessionId: string
+  date: string
+  curve: MeanMaxPoint[]
+}
+
+export interface ResolvedCriticalPower extends CriticalPowerParams {
+  source: 'athlete' | 'power_bests_fit'
+}
+
+export interface MeanMaxPowerResult {
+  points: MeanMaxPoint[]
+  source: MeanMaxSource
+  sessionCount: number
+}
+
+/**
+ * Mean-maximal power at each standard duration for one power stream,
+ * skipping excluded samples
+ */
+export function calculateMeanMaxCurve(watts: number[], excluded?: boolean[]): MeanMaxPoint[] {
+  if (!watts.some(w => w > 0)) return []
+
+  return MEAN_MAX_DURATIONS
+    .map(duration => ({ duration, watts: calculatePeakPower(watts, duration, excluded) }))
+    .filter((p): p is MeanMaxPoint => p.watts !== null && p.watts > 0)
+}
+
+/**
+ * Combine per-session curves into the envelope (best per duration)
+ */
+export function mergeMeanMaxCurves(curves: MeanMaxPoint[][]): MeanMaxPoint[] {
+  const best = new Map<number, number>()
+  for (const curve of curves) {
+    for (const point of curve) {
+      if (point.watts > (best.get(point.duration) ?? 0)) {
+        best.set(point.duration, point.watts)
+      }
+    }
+  }
+  return Array.from(best.entries())
+    .map(([duration, watts]) => ({ duration, watts }))
+    .sort((a, b) => a.duration - b.duration)
+}
+
+/**
+ * Per-session mean-max curves for sessions with stored power streams,
+ * optionally limited to one sport
+ */
+export async function getSessionMeanMaxCurves(
+  athleteId: string,
+  startDate: string,
+  endDate: string,
+  sport?: string
+): Promise<SessionMeanMax[]> {
+  const sessions = await getSessions(athleteId, { startDate, endDate, sport, limit: 1000 })
+  const withPower = sessions.filter(s => (s.avg_power || s.max_power) && !s.exclude_from_bests)
+  const result: SessionMeanMax[] = []
+
+  for (let i = 0; i < withPower.length; i += STREAM_BATCH_SIZE) {
+    const batch = withPower.slice(i, i + STREAM_BATCH_SIZE)
+    const streams = await getStoredStreamsForAthlete(athleteId, ['watts'], {
+      sessionIds: batch.map(s => s.id),
+    })
+
+    for (const session of batch) {
+      const watts = streams.get(session.id)?.watts
+      if (!watts || watts.length === 0) continue
+      const excluded = bestsExclusionMask(watts.length, session.data_quality, session.excluded_ranges)
+      const curve = calculateMeanMaxCurve(watts, excluded)
+      if (curve.length > 0) {
+        result.push({ sessionId: session.id, date: session.date, curve })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Mean-maximal power curve for a date window.
+ * Uses stored streams when available, otherwise the power bests recorded in the window.
+ */
+export async function getMeanMaxPower(
+  athleteId: string,
+  startDate: string,
+  endDate: string
+): Promise<MeanMaxPowerResult> {
+  const [result] = await getMeanMaxPowerWindows(athleteId, [{ startDate, endDate }])
+  return result
+}
+
+/**
+ * Mean-maximal power curves for several date windows (e.g. consecutive
+ * blocks of a season). Streams are loaded once for the whole span.
+ */
+export async function getMeanMaxPowerWindows(
+  athleteId: string,
+  windows: Array<{ startDate: string; endDate: string }>
+): Promise<MeanMaxPowerResult[]> {
+  if (windows.length === 0) return []
+
+  const spanStart = windows.map(w => w.startDate).sort()[0]
+  const spanEnd = windows.map(w => w.endDate).sort().slice(-1)[0]
+
+  let curves: SessionMeanMax[] = []
+  try {
+    curves = await getSessionMeanMaxCurves(athleteId, spanStart, spanEnd)
+  } catch (error) {
+    logger.error('[MeanMaxPower] Failed to build curves from streams:', error)
+  }
+
+  return Promise.all(windows.map(async ({ startDate, endDate }) => {
+    const inWindow = curves.filter(c => {
+      const day = c.date.split('T')[0]
+      return day >= startDate && day <= endDate
+    })
+    if (inWindow.length > 0) {
+      return {
+        points: mergeMeanMaxCurves(inWindow.map(c => c.curve)),
+        source: 'streams' as const,
+        sessionCount: inWindow.length,
+      }
+    }
+    return getPowerBestsWindow(athleteId, startDate, endDate)
+  }))
+}
+
+async function getPowerBestsWindow(
+  athleteId: string,
+  startDate: string,
+  endDate: string
+): Promise<MeanMaxPowerResult> {
+  const bests = await getPowerBestsInRange(athleteId, startDate, endDate)
+  if (bests.length > 0) {
+    return {
+      points: bests.map(b => ({ duration: b.duration_seconds, watts: b.power_watts })),
+      source: 'power_bests',
+      sessionCount: new Set(bests.map(b => b.session_id).filter(Boolean)).size,
+    }
+  }
+
+  return { points: [], source: 'none', sessionCount: 0 }
+}
+
+/**
+ * CP and W′ to use for a session: the athlete's saved values, otherwise a
+ * model fitted to the power bests recorded in the months before the date.
+ */
+export async function resolveCriticalPower(
+  athleteId: string,
+  date: string
+): Promise<ResolvedCriticalPower | null> {
+  const athlete = await getAthlete(athleteId)
+  if (athlete?.critical_power && athlete.w_prime) {
+    return { cp: athlete.critical_power, wPrime: athlete.w_prime, source: 'athlete' }
+  }
+
+  const endDate = date.split('T')[0]
+  const start = new Date(`${endDate}T00:00:00Z`)
+  start.setUTCDate(start.getUTCDate() - CP_FALLBACK_DAYS)
+
+  const { points } = await getPowerBestsWindow(athleteId, start.toISOString().split('T')[0], endDate)
+  const fit = fitCriticalPowerModels(points).recommended
+  return fit ? { cp: fit.cp, wPrime: fit.wPrime, source: 'power_bests_fit' } : null
+}
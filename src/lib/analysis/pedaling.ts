@@ -0,0 +1,354 @@
+/**
+ * Pedaling Analysis
+ *
+ * Quadrant analysis (Coggan): each pedaling second is placed by average
+ * effective pedal force (AEPF, N) against circumferential pedal velocity
+ * (CPV, m/s), split at the force and velocity of riding at FTP at a
+ * reference cadence:
+ *   I   high force, high velocity (sprints, hard accelerations)
+ *   II  high force, low velocity (climbing, low-cadence strength work)
+ *   III low force, low velocity (easy riding)
+ *   IV  low force, high velocity (spinning)
+ *
+ * Also cadence distribution per power zone and peak crank torque over
+ * standard durations. Streams are sampled once per second.
+ */
+
+import { defaultZoneModel, resolveZoneThreshold, zoneBoundaries, type ZoneModelDefinition } from './zones'
+
+export interface PedalingStreams {
+  watts?: number[]
+  cadence?: number[]
+}
+
+export type Quadrant = 1 | 2 | 3 | 4
+
+export interface QuadrantTime {
+  quadrant: Quadrant
+  label: string
+  seconds: number
+  percent: number
+}
+
+export interface QuadrantPoint {
+  /** Circumferential pedal velocity, m/s */
+  velocity: number
+  /** Average effective pedal force, N */
+  force: number
+}
+
+export interface QuadrantAnalysis {
+  ftp: number
+  referenceCadence: number
+  /** Whether the reference cadence came from the athlete's riding near FTP */
+  referenceCadenceEstimated: boolean
+  crankLengthMm: number
+  thresholdForce: number
+  thresholdVelocity: number
+  quadrants: QuadrantTime[]
+  pedalingSeconds: number
+  coastingSeconds: number
+  /** Downsampled scatter for charts */
+  points: QuadrantPoint[]
+}
+
+export interface CadenceBand {
+  label: string
+  /** Lower bound in rpm (inclusive) */
+  min: number
+  /** Upper bound in rpm (exclusive); null for the open highest band */
+  max: number | null
+}
+
+export interface ZoneCadence {
+  /** Z1, Z2, ... */
+  zone: string
+  name: string
+  seconds: number
+  avgCadence: number | null
+  /** Seconds in each CADENCE_BANDS band */
+  bands: number[]
+}
+
+export interface TorquePeak {
+  durationSeconds: number
+  /** Mean crank torque, Nm */
+  torque: number
+  avgPower: number
+  avgCadence: number
+  startIndex: number
+}
+
+export interface PedalingAnalysis {
+  avgCadence: number | null
+  quadrants: QuadrantAnalysis | null
+  cadenceByZone: ZoneCadence[] | null
+  torquePeaks: TorquePeak[]
+}
+
+export interface PedalingOptions {
+  ftp: number | null
+  /** Cadence the quadrant split refers to; estimated from the ride when omitted */
+  referenceCadence?: number | null
+  crankLengthMm?: number | null
+  zoneModel?: ZoneModelDefinition
+}
+
+export const DEFAULT_CRANK_LENGTH_MM = 172.5
+// Used when the ride has too little time near FTP to estimate one
+export const DEFAULT_REFERENCE_CADENCE = 90
+// Below this the rider is coasting or the cadence sensor is noise
+const MIN_PEDALING_CADENCE = 20
+// Reference cadence: mean cadence of at least this much riding at 90-110% FTP
+const REFERENCE_MIN_SECONDS = 60
+const REFERENCE_FTP_RANGE: [number, number] = [0.9, 1.1]
+const MAX_SCATTER_POINTS = 1500
+
+export const TORQUE_PEAK_DURATIONS = [5, 30, 60, 300, 1200]
+
+export const CADENCE_BANDS: CadenceBand[] = [
+  { label: '<60', min: 0, max: 60 },
+  { label: '60–70', min: 60, max: 70 },
+  { label: '70–80', min: 70, max: 80 },
+  { label: '80–90', min: 80, max: 90 },
+  { label: '90–100', min: 90, max: 100 },
+  { label: '100+', min: 100, max: null },
+]
+
+const QUADRANT_LABELS: Record<Quadrant, string> = {
+  1: 'High force, high velocity',
+  2: 'High force, low velocity',
+  3: 'Low force, low velocity',
+  4: 'Low force, high velocity',
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function isPedaling(watts: number | undefined, cadence: number | undefined): boolean {
+  return watts != null && watts > 0 && cadence != null && cadence >= MIN_PEDALING_CADENCE
+}
+
+/**
+ * Circumferential pedal velocity (m/s) at a cadence
+ */
+export function pedalVelocity(cadence: number, crankLengthMm = DEFAULT_CRANK_LENGTH_MM): number {
+  return (cadence * 2 * Math.PI * crankLengthMm / 1000) / 60
+}
+
+/**
+ * Average effective pedal force (N) from power and cadence
+ */
+export function pedalForce(watts: number, cadence: number, crankLengthMm = DEFAULT_CRANK_LENGTH_MM): number {
+  const velocity = pedalVelocity(cadence, crankLengthMm)
+  return velocity > 0 ? watts / velocity : 0
+}
+
+/**
+ * Crank torque (Nm) from power and cadence
+ */
+export function crankTorque(watts: number, cadence: number): number {
+  return cadence > 0 ? watts / (cadence * 2 * Math.PI / 60) : 0
+}
+
+/**
+ * Per-second crank torque in Nm; 0 while coasting
+ */
+export function calculateTorqueStream(watts: number[], cadence: number[]): number[] {
+  const length = Math.min(watts.length, cadence.length)
+  const torque = new Array<number>(length)
+  for (let i = 0; i < length; i++) {
+    torque[i] = isPedaling(watts[i], cadence[i]) ? round(crankTorque(watts[i], cadence[i]), 1) : 0
+  }
+  return torque
+}
+
+/**
+ * Mean cadence while riding at 90-110% FTP, or null with too little of it
+ */
+export function estimateReferenceCadence(watts: number[], cadence: number[], ftp: number): number | null {
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < Math.min(watts.length, cadence.length); i++) {
+    if (!isPedaling(watts[i], cadence[i])) continue
+    if (watts[i] < ftp * REFERENCE_FTP_RANGE[0] || watts[i] > ftp * REFERENCE_FTP_RANGE[1]) continue
+    sum += cadence[i]
+    count++
+  }
+  return count >= REFERENCE_MIN_SECONDS ? Math.round(sum / count) : null
+}
+
+/**
+ * Time in each force-velocity quadrant. Returns null without FTP or pedaling data.
+ */
+export function calculateQuadrants(
+  streams: PedalingStreams,
+  options: PedalingOptions
+): QuadrantAnalysis | null {
+  const { watts, cadence } = streams
+  const ftp = options.ftp
+  if (!watts || !cadence || !ftp || ftp <= 0) return null
+
+  const crankLengthMm = options.crankLengthMm || DEFAULT_CRANK_LENGTH_MM
+  const estimated = options.referenceCadence ? null : estimateReferenceCadence(watts, cadence, ftp)
+  const referenceCadence = options.referenceCadence || estimated || DEFAULT_REFERENCE_CADENCE
+  const thresholdVelocity = pedalVelocity(referenceCadence, crankLengthMm)
+  const thresholdForce = ftp / thresholdVelocity
+
+  const seconds: Record<Quadrant, number> = { 1: 0, 2: 0, 3: 0, 4: 0 }
+  const all: QuadrantPoint[] = []
+  let coastingSeconds = 0
+  const length = Math.min(watts.length, cadence.length)
+  for (let i = 0; i < length; i++) {
+    if (!isPedaling(watts[i], cadence[i])) {
+      coastingSeconds++
+      continue
+    }
+    const velocity = pedalVelocity(cadence[i], crankLengthMm)
+    const force = watts[i] / velocity
+    const highForce = force >= thresholdForce
+    const highVelocity = velocity >= thresholdVelocity
+    const quadrant: Quadrant = highForce ? (highVelocity ? 1 : 2) : (highVelocity ? 4 : 3)
+    seconds[quadrant]++
+    all.push({ velocity: round(velocity, 2), force: Math.round(force) })
+  }
+
+  const pedalingSeconds = all.length
+  if (pedalingSeconds === 0) return null
+  const step = Math.max(1, Math.ceil(pedalingSeconds / MAX_SCATTER_POINTS))
+
+  return {
+    ftp,
+    referenceCadence,
+    referenceCadenceEstimated: !options.referenceCadence && estimated !== null,
+    crankLengthMm,
+    thresholdForce: Math.round(thresholdForce),
+    thresholdVelocity: round(thresholdVelocity, 2),
+    quadrants: ([1, 2, 3, 4] as Quadrant[]).map(quadrant => ({
+      quadrant,
+      label: QUADRANT_LABELS[quadrant],
+      seconds: seconds[quadrant],
+      percent: round(seconds[quadrant] / pedalingSeconds * 100, 1),
+    })),
+    pedalingSeconds,
+    coastingSeconds,
+    points: all.filter((_, i) => i % step === 0),
+  }
+}
+
+/**
+ * Pedaling time, mean cadence and cadence bands in each power zone.
+ * Returns null without FTP or pedaling data.
+ */
+export function calculateCadenceByZone(
+  streams: PedalingStreams,
+  ftp: number | null,
+  model: ZoneModelDefinition = defaultZoneModel('power')
+): ZoneCadence[] | null {
+  const { watts, cadence } = streams
+  if (!watts || !cadence || !ftp || ftp <= 0) return null
+
+  const bounds = zoneBoundaries(model, resolveZoneThreshold(model, { ftp }) ?? ftp)
+  const zones = model.zones.map((zone, i) => ({
+    zone: `Z${i + 1}`,
+    name: zone.name,
+    seconds: 0,
+    cadenceSum: 0,
+    bands: new Array<number>(CADENCE_BANDS.length).fill(0),
+  }))
+
+  let counted = 0
+  for (let i = 0; i < Math.min(watts.length, cadence.length); i++) {
+    if (!isPedaling(watts[i], cadence[i])) continue
+    let z = 0
+    while (z + 1 < bounds.length && watts[i] >= bounds[z + 1]) z++
+    const band = CADENCE_BANDS.findIndex(b => cadence[i] >= b.min && (b.max === null || cadence[i] < b.max))
+    zones[z].seconds++
+    zones[z].cadenceSum += cadence[i]
+    zones[z].bands[band]++
+    counted++
+  }
+  if (counted === 0) return null
+
+  return zones.map(({ cadenceSum, ...zone }) => ({
+    ...zone,
+    avgCadence: zone.seconds > 0 ? Math.round(cadenceSum / zone.seconds) : null,
+  }))
+}
+
+/**
+ * Highest mean crank torque over each duration. Coasting counts as zero torque,
+ * so peaks reflect sustained pedaling.
+ */
+export function calculateTorquePeaks(
+  streams: PedalingStreams,
+  durations: number[] = TORQUE_PEAK_DURATIONS
+): TorquePeak[] {
+  const { watts, cadence } = streams
+  if (!watts || !cadence) return []
+  const torque = calculateTorqueStream(watts, cadence)
+  const length = torque.length
+
+  const peaks: TorquePeak[] = []
+  for (const duration of durations) {
+    if (duration > length) continue
+    let sum = 0
+    for (let i = 0; i < duration; i++) sum += torque[i]
+    let best = sum
+    let bestStart = 0
+    for (let i = duration; i < length; i++) {
+      sum += torque[i] - torque[i - duration]
+      if (sum > best) {
+        best = sum
+        bestStart = i - duration + 1
+      }
+    }
+    if (best <= 0) continue
+
+    let powerSum = 0
+    let cadenceSum = 0
+    let pedaling = 0
+    for (let i = bestStart; i < bestStart + duration; i++) {
+      powerSum += watts[i] ?? 0
+      if (isPedaling(watts[i], cadence[i])) {
+        cadenceSum += cadence[i]
+        pedaling++
+      }
+    }
+    peaks.push({
+      durationSeconds: duration,
+      torque: round(best / duration, 1),
+      avgPower: Math.round(powerSum / duration),
+      avgCadence: pedaling > 0 ? Math.round(cadenceSum / pedaling) : 0,
+      startIndex: bestStart,
+    })
+  }
+  return peaks
+}
+
+/**
+ * Quadrants, cadence per zone and torque peaks for one session
+ */
+export function analyzePedaling(streams: PedalingStreams, options: PedalingOptions): PedalingAnalysis {
+  const { watts, cadence } = streams
+  let avgCadence: number | null = null
+  if (watts && cadence) {
+    let sum = 0
+    let count = 0
+    for (let i = 0; i < Math.min(watts.length, cadence.length); i++) {
+      if (!isPedaling(watts[i], cadence[i])) continue
+      sum += cadence[i]
+      count++
+    }
+    avgCadence = count > 0 ? Math.round(sum / count) : null
+  }
+
+  return {
+    avgCadence,
+    quadrants: calculateQuadrants(streams, options),
+    cadenceByZone: calculateCadenceByZone(streams, options.ftp, options.zoneModel),
+    torquePeaks: calculateTorquePeaks(streams),
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Athlete Performance Model
+ *
+ * Collects the athlete's performance markers (5/20-minute power bests, race
+ * results and test sessions), fits the Banister impulse-response model to
+ * them and prepares it for fitness projections.
+ */
+
+import { getPowerBests, getPowerHistory } from '@/lib/db/power-bests'
+import { getRaceResults } from '@/lib/db/race-results'
+import { getSessions } from '@/lib/db/sessions'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE } from '@/lib/db/session-streams'
+import { getDailyTss } from '@/lib/fitness/pmc-engine'
+import { calculatePeakPower } from './power-analysis'
+import { bestsExclusionMask } from './stream-quality'
+import {
+  banisterStateAt,
+  findBestTaper,
+  fitBanisterModel,
+  relativePerformance,
+  type BanisterModel,
+  type BanisterState,
+  type PerformanceMarker,
+  type TaperResult,
+} from './banister'
+import type { MeanMaxPoint } from './critical-power'
+
+// Training history the model is fitted on
+const DEFAULT_MODEL_DAYS = 365
+// Window for the usual daily load the taper is modelled from
+const RECENT_LOAD_DAYS = 28
+// Shortest race that counts as a maximal effort
+const MIN_RACE_SECONDS = 240
+
+export interface AthletePerformanceModel {
+  model: BanisterModel | null
+  markers: PerformanceMarker[]
+  dailyTss: Map<string, number>
+  /** Average daily TSS over the last 4 weeks */
+  recentDailyLoad: number
+  bestTaper: TaperResult | null
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/**
+ * Performance markers between startDate and endDate, each as % of the
+ * athlete's best power at the effort's duration.
+ */
+export async function getPerformanceMarkers(
+  athleteId: string,
+  startDate: string,
+  endDate: string
+): Promise<PerformanceMarker[]> {
+  const [bests, fiveMinute, twentyMinute, races, tests] = await Promise.all([
+    getPowerBests(athleteId),
+    getPowerHistory(athleteId, 300),
+    getPowerHistory(athleteId, 1200),
+    getRaceResults(athleteId, { startDate, endDate, limit: 200 }),
+    getSessions(athleteId, { startDate, endDate, nameSearch: 'test', limit: 200 }),
+  ])
+
+  const bestCurve: MeanMaxPoint[] = bests.map(b => ({ duration: b.duration_seconds, watts: b.power_watts }))
+  const markers: PerformanceMarker[] = []
+  const add = (marker: Omit<PerformanceMarker, 'performance'>) => {
+    const performance = relativePerformance(marker.watts, marker.durationSeconds, bestCurve)
+    if (performance !== null) markers.push({ ...marker, performance })
+  }
+
+  // Power bests at the time they were set
+  for (const [history, source] of [[fiveMinute, 'best_5min'], [twentyMinute, 'best_20min']] as const) {
+    for (const best of history) {
+      const date = best.recorded_date.split('T')[0]
+      if (date < startDate || date > endDate) continue
+      add({ date, source, watts: best.power_watts, durationSeconds: best.duration_seconds })
+    }
+  }
+
+  for (const race of races) {
+    if (!race.avg_power || !race.duration_seconds || race.duration_seconds < MIN_RACE_SECONDS) continue
+    add({
+      date: race.race_date.split('T')[0],
+      source: 'race',
+      watts: race.avg_power,
+      durationSeconds: race.duration_seconds,
+      label: race.race_name,
+    })
+  }
+
+  // Test sessions: their best 20-minute (or 5-minute) power
+  for (let i = 0; i < tests.length; i += STREAM_BATCH_SIZE) {
+    const batch = tests.slice(i, i + STREAM_BATCH_SIZE)
+    const streams = await getStoredStreamsForAthlete(athleteId, ['watts'], {
+      sessionIds: batch.map(s => s.id),
+    })
+    for (const session of batch) {
+      const watts = streams.get(session.id)?.watts
+      if (!watts || session.exclude_from_bests) continue
+      const duration = watts.length >= 1200 ? 1200 : 300
+      const excluded = bestsExclusionMask(watts.length, session.data_quality, session.excluded_ranges)
+      const peak = calculatePeakPower(watts, duration, excluded)
+      if (!peak) continue
+      add({
+        date: session.date.split('T')[0],
+        source: 'test',
+        watts: peak,
+        durationSeconds: duration,
+        label: session.workout_type,
+      })
+    }
+  }
+
+  // One marker per day and source (the best one)
+  const byKey = new Map<string, PerformanceMarker>()
+  for (const marker of markers) {
+    const key = `${marker.date}:${marker.source}`
+    const existing = byKey.get(key)
+    if (!existing || marker.performance > existing.performance) byKey.set(key, marker)
+  }
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Fit the Banister model to the athlete's training and performance markers
+ */
+export async function fitAthletePerformanceModel(
+  athleteId: string,
+  options: { days?: number; endDate?: string } = {}
+): Promise<AthletePerformanceModel> {
+  const endDate = options.endDate ?? new Date().toISOString().split('T')[0]
+  const startDate = shiftDays(endDate, -(options.days ?? DEFAULT_MODEL_DAYS))
+
+  const [dailyTss, markers] = await Promise.all([
+    getDailyTss(athleteId, startDate),
+    getPerformanceMarkers(athleteId, startDate, endDate),
+  ])
+
+  const model = fitBanisterModel(dailyTss, markers)
+
+  const recentStart = shiftDays(endDate, -RECENT_LOAD_DAYS)
+  let recentLoad = 0
+  for (const [date, tss] of dailyTss) {
+    if (date > recentStart && date <= endDate) recentLoad += tss
+  }
+  const recentDailyLoad = Math.round(recentLoad / RECENT_LOAD_DAYS)
+
+  return {
+    model,
+    markers,
+    dailyTss,
+    recentDailyLoad,
+    bestTaper: model ? findBestTaper(model, recentDailyLoad) : null,
+  }
+}
+
+/**
+ * Fitted model and the impulses at the start of startDate, for projections.
+ * Null when the athlete has too few performance markers.
+ */
+export async function getPerformanceProjectionInput(
+  athleteId: string,
+  startDate: string
+): Promise<{ model: BanisterModel; state: BanisterState; bestTaper: TaperResult | null } | null> {
+  const { model, dailyTss, bestTaper } = await fitAthletePerformanceModel(athleteId)
+  if (!model) return null
+  return { model, state: banisterStateAt(model, dailyTss, startDate), bestTaper }
+}
@@ -0,0 +1,211 @@
+/**
+ * Plan Compliance
+ *
+ * Matches completed sessions to the plan days they fulfil and scores how
+ * closely each followed the prescription: duration, TSS, intensity factor and,
+ * for structured workouts, the share of reps executed as prescribed. Scores
+ * run 0-1 and map to the green/yellow/red of other training platforms.
+ */
+
+import type { PlanDay, Session } from '@/types'
+
+export type ComplianceStatus = 'green' | 'yellow' | 'red'
+
+export interface ComplianceBreakdown {
+  /** Component scores 0-1; null when the plan day has no target for it */
+  duration: number | null
+  tss: number | null
+  intensity: number | null
+  intervals: number | null
+}
+
+export interface PlanDayCompliance {
+  score: number
+  status: ComplianceStatus
+  breakdown: ComplianceBreakdown
+}
+
+export interface PlannedTargets {
+  target_duration_minutes?: number | null
+  target_tss?: number | null
+  target_if?: number | null
+}
+
+export interface ActualExecution {
+  durationMinutes: number | null
+  tss: number | null
+  intensityFactor: number | null
+  /** Share of prescribed reps executed as prescribed, 0-1 */
+  intervalCompletion?: number | null
+}
+
+export interface PlanDayMatch {
+  day: PlanDay
+  session: Session
+  compliance: PlanDayCompliance
+}
+
+// Score thresholds for green and yellow
+export const COMPLIANCE_THRESHOLDS = { green: 0.8, yellow: 0.5 }
+
+// Ratios within the tolerance of the target score 1, then fall off linearly
+const COMPONENTS = {
+  duration: { weight: 0.3, tolerance: 0.2, falloff: 1.5 },
+  tss: { weight: 0.3, tolerance: 0.2, falloff: 1.5 },
+  intensity: { weight: 0.2, tolerance: 0.05, falloff: 4 },
+  intervals: { weight: 0.2, tolerance: 0, falloff: 1 },
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function ratioScore(actual: number, target: number, component: keyof typeof COMPONENTS): number {
+  const { tolerance, falloff } = COMPONENTS[component]
+  const deviation = Math.abs(actual / target - 1)
+  if (deviation <= tolerance) return 1
+  return Math.max(0, 1 - (deviation - tolerance) * falloff)
+}
+
+export function complianceStatus(score: number): ComplianceStatus {
+  if (score >= COMPLIANCE_THRESHOLDS.green) return 'green'
+  if (score >= COMPLIANCE_THRESHOLDS.yellow) return 'yellow'
+  return 'red'
+}
+
+/**
+ * Weighted compliance over the targets the plan day has. Null when it has none.
+ */
+export function scoreCompliance(planned: PlannedTargets, actual: ActualExecution): PlanDayCompliance | null {
+  const breakdown: ComplianceBreakdown = {
+    duration: planned.target_duration_minutes && actual.durationMinutes !== null
+      ? ratioScore(actual.durationMinutes, planned.target_duration_minutes, 'duration')
+      : null,
+    tss: planned.target_tss && actual.tss !== null
+      ? ratioScore(actual.tss, planned.target_tss, 'tss')
+      : null,
+    intensity: planned.target_if && actual.intensityFactor !== null
+      ? ratioScore(actual.intensityFactor, planned.target_if, 'intensity')
+      : null,
+    intervals: actual.intervalCompletion ?? null,
+  }
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const key of Object.keys(COMPONENTS) as Array<keyof ComplianceBreakdown>) {
+    const value = breakdown[key]
+    if (value === null) continue
+    weighted += value * COMPONENTS[key].weight
+    totalWeight += COMPONENTS[key].weight
+  }
+  if (totalWeight === 0) return null
+
+  const score = round(weighted / totalWeight, 2)
+  return {
+    score,
+    status: complianceStatus(score),
+    breakdown: {
+      duration: breakdown.duration !== null ? round(breakdown.duration, 2) : null,
+      tss: breakdown.tss !== null ? round(breakdown.tss, 2) : null,
+      intensity: breakdown.intensity !== null ? round(breakdown.intensity, 2) : null,
+      intervals: breakdown.intervals !== null ? round(breakdown.intervals, 2) : null,
+    },
+  }
+}
+
+export function isWorkoutDay(day: PlanDay): boolean {
+  if (day.workout_type === 'rest') return false
+  return !!(day.workout_type || day.workout_name || day.target_tss || day.target_duration_minutes)
+}
+
+export function sessionExecution(session: Session, intervalCompletion?: number | null): ActualExecution {
+  return {
+    durationMinutes: Math.round(session.duration_seconds / 60),
+    tss: session.tss ?? null,
+    intensityFactor: session.intensity_factor ?? null,
+    intervalCompletion,
+  }
+}
+
+/**
+ * Link unlinked sessions to open plan days on the same date. A skipped day
+ * moved to a date without a plan day of its own is matched on that date.
+ * With several sessions on one date, the day takes the closest match.
+ */
+export function matchSessionsToPlanDays(days: PlanDay[], sessions: Session[]): PlanDayMatch[] {
+  const linked = new Set(days.map(d => d.actual_session_id).filter(Boolean))
+  const available = sessions.filter(s => !linked.has(s.id))
+  const openDates = new Set(days.filter(d => !d.skipped).map(d => d.date))
+
+  const candidates = days
+    .filter(d => isWorkoutDay(d) && !d.completed && !d.actual_session_id)
+    .map(day => ({
+      day,
+      matchDate: !day.skipped
+        ? day.date
+        : day.rescheduled_to && !openDates.has(day.rescheduled_to) ? day.rescheduled_to : null,
+    }))
+    .filter((c): c is { day: PlanDay; matchDate: string } => c.matchDate !== null)
+
+  const used = new Set<string>()
+  const matches: PlanDayMatch[] = []
+  for (const { day, matchDate } of candidates) {
+    let best: PlanDayMatch | null = null
+    for (const session of available) {
+      if (used.has(session.id) || session.date.split('T')[0] !== matchDate) continue
+      const compliance = scoreCompliance(day, sessionExecution(session))
+        ?? { score: 1, status: 'green' as const, breakdown: { duration: null, tss: null, intensity: null, intervals: null } }
+      if (!best || compliance.score > best.compliance.score) best = { day, session, compliance }
+    }
+    if (best) {
+      used.add(best.session.id)
+      matches.push(best)
+    }
+  }
+  return matches
+}
+
+/**
+ * Calendar status of a plan day: its compliance once done, red when a
+ * workout day has passed without a session, null for rest, skipped and
+ * upcoming days
+ */
+export function planDayStatus(day: PlanDay, today: string): ComplianceStatus | null {
+  if (!isWorkoutDay(day) || day.skipped) return null
+  if (day.completed) {
+    return day.compliance_score !== null && day.compliance_score !== undefined
+      ? complianceStatus(day.compliance_score)
+      : 'green'
+  }
+  return day.date < today ? 'red' : null
+}
+
+export interface PlanComplianceSummary {
+  /** Mean compliance of completed workout days and missed ones (0) */
+  averageScore: number | null
+  green: number
+  yellow: number
+  red: number
+  missed: number
+}
+
+export function summarizePlanCompliance(days: PlanDay[], today: string): PlanComplianceSummary {
+  const summary: PlanComplianceSummary = { averageScore: null, green: 0, yellow: 0, red: 0, missed: 0 }
+  const scores: number[] = []
+  for (const day of days) {
+    const status = planDayStatus(day, today)
+    if (!status) continue
+    summary[status]++
+    if (!day.completed) {
+      summary.missed++
+      scores.push(0)
+    } else {
+      scores.push(day.compliance_score ?? 1)
+    }
+  }
+  if (scores.length > 0) {
+    summary.averageScore = round(scores.reduce((a, b) => a + b, 0) / scores.length, 2)
+  }
+  return summary
+}
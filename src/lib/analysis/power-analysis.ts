@@ -4,6 +4,14 @@
  * Extracted from get-detailed-session.ts for reuse across tools.
  */
 
+import { getSessionStreams } from '@/lib/streams/stream-access'
+import type { RemoteStreamSource, StreamSessionRef } from '@/lib/streams/stream-access'
+import { STANDARD_DURATIONS } from '@/lib/db/power-bests'
+import { calculateWPrimeBalance, summarizeWPrimeBalance } from './w-prime-balance'
+import type { CriticalPowerParams, WPrimeBalanceSummary } from './w-prime-balance'
+import { bestsExclusionMask, summarizeDataQuality } from './stream-quality'
+import type { Session } from '@/types'
+
 export interface PeakPowers {
   peak_5s: number | null
   peak_30s: number | null
@@ -22,28 +30,55 @@ export interface PacingAnalysis {
 }
 
 /**
- * Calculate peak power for a given duration from power stream
+ * Calculate peak power for a given duration from power stream.
+ * Windows touching an excluded sample (see bestsExclusionMask) are skipped;
+ * returns null when no window is left.
  */
-export function calculatePeakPower(watts: number[], durationSeconds: number): number | null {
+export function calculatePeakPower(
+  watts: number[],
+  durationSeconds: number,
+  excluded?: boolean[]
+): number | null {
   if (!watts || watts.length < durationSeconds) return null
 
-  let maxAvg = 0
+  let maxAvg: number | null = null
   let windowSum = 0
+  let excludedInWindow = 0
 
-  // Initialize window
-  for (let i = 0; i < durationSeconds && i < watts.length; i++) {
+  for (let i = 0; i < watts.length; i++) {
     windowSum += watts[i] || 0
+    if (excluded?.[i]) excludedInWindow++
+    // Slide window
+    if (i >= durationSeconds) {
+      windowSum -= watts[i - durationSeconds] || 0
+      if (excluded?.[i - durationSeconds]) excludedInWindow--
+    }
+    if (i >= durationSeconds - 1 && excludedInWindow === 0) {
+      const avg = windowSum / durationSeconds
+      if (maxAvg === null || avg > maxAvg) maxAvg = avg
+    }
   }
-  maxAvg = windowSum / durationSeconds
 
-  // Slide window
-  for (let i = durationSeconds; i < watts.length; i++) {
-    windowSum = windowSum - (watts[i - durationSeconds] || 0) + (watts[i] || 0)
-    const avg = windowSum / durationSeconds
-    if (avg > maxAvg) maxAvg = avg
-  }
+  return maxAvg === null ? null : Math.round(maxAvg)
+}
 
-  return Math.round(maxAvg)
+/**
+ * Peak power for each standard power-bests duration, skipping excluded samples
+ */
+export function calculatePowerCurve(
+  watts: number[],
+  excluded?: boolean[]
+): { durationSeconds: number; watts: number }[] {
+  if (!watts.some(w => w > 0)) return []
+
+  return STANDARD_DURATIONS
+    .map(durationSeconds => ({
+      durationSeconds: durationSeconds as number,
+      watts: calculatePeakPower(watts, durationSeconds, excluded),
+    }))
+    .filter((p): p is { durationSeconds: number; watts: number } =>
+      p.watts !== null && p.watts > 0
+    )
 }
 
 /**
@@ -139,30 +174,67 @@ export function buildPacingAssessment(pacing: PacingAnalysis): string | undefine
 }
 
 /**
- * Enrich a session response with stream-based analysis (peak powers, pacing).
- * Fetches power streams from intervals.icu and adds computed metrics.
+ * Describe how deep W′ was drained, from a W′bal summary
+ */
+export function buildWPrimeAssessment(summary: WPrimeBalanceSummary): string {
+  if (summary.nearEmptyMatches > 0) {
+    return `W′ emptied to ${summary.minBalancePercent}% ${summary.nearEmptyMatches} time(s), ` +
+      `${summary.secondsBelow25Percent}s below 25% - efforts went to the limit`
+  }
+  if (summary.minBalancePercent < 50) {
+    return `Deepest effort drained W′ to ${summary.minBalancePercent}% - hard but not maximal`
+  }
+  return `W′ stayed above ${Math.floor(summary.minBalancePercent)}% - no deep anaerobic efforts`
+}
+
+/**
+ * Peak powers over the standard report durations, skipping excluded samples
+ */
+export function calculatePeakPowers(watts: number[], excluded?: boolean[]): PeakPowers {
+  return {
+    peak_5s: calculatePeakPower(watts, 5, excluded),
+    peak_30s: calculatePeakPower(watts, 30, excluded),
+    peak_1min: calculatePeakPower(watts, 60, excluded),
+    peak_5min: calculatePeakPower(watts, 300, excluded),
+    peak_20min: calculatePeakPower(watts, 1200, excluded),
+  }
+}
+
+/**
+ * Enrich a session response with stream-based analysis (peak powers, pacing,
+ * and W′ balance when CP/W′ are known). Peak powers leave out flagged power
+ * samples and the athlete's excluded ranges, and data quality issues are summarized.
+ * Reads locally stored streams first, falling back to intervals.icu when a client is given.
  * Fails silently if streams unavailable — caller gets original response unchanged.
  */
 export async function enrichWithStreams(
   response: { session: Record<string, unknown>; analysis: Record<string, unknown> },
-  externalId: string,
-  intervalsClient: { getActivityStreams: (id: string, types: string[]) => Promise<{ watts?: number[] }> },
-  ftp: number | null
+  session: StreamSessionRef & Pick<Session, 'data_quality' | 'excluded_ranges'>,
+  intervalsClient: RemoteStreamSource | null,
+  ftp: number | null,
+  criticalPower: CriticalPowerParams | null = null
 ): Promise<void> {
   try {
-    const streams = await intervalsClient.getActivityStreams(externalId, ['watts'])
-    if (!streams.watts || streams.watts.length === 0) return
-
-    response.session.peakPowers = {
-      peak_5s: calculatePeakPower(streams.watts, 5),
-      peak_30s: calculatePeakPower(streams.watts, 30),
-      peak_1min: calculatePeakPower(streams.watts, 60),
-      peak_5min: calculatePeakPower(streams.watts, 300),
-      peak_20min: calculatePeakPower(streams.watts, 1200),
+    const streams = await getSessionStreams(session, ['watts'], intervalsClient)
+    if (!streams?.watts || streams.watts.length === 0) return
+
+    const excluded = bestsExclusionMask(streams.watts.length, session.data_quality, session.excluded_ranges)
+    response.session.peakPowers = calculatePeakPowers(streams.watts, excluded)
+    if (session.data_quality?.length) {
+      response.session.dataQuality = summarizeDataQuality(session.data_quality)
     }
     const pacing = analyzePacing(streams.watts, ftp)
     response.session.pacing = pacing
     response.analysis.pacingAssessment = buildPacingAssessment(pacing)
+
+    if (criticalPower) {
+      const balance = calculateWPrimeBalance(streams.watts, criticalPower)
+      const summary = summarizeWPrimeBalance(balance, streams.watts, criticalPower)
+      if (summary) {
+        response.session.wPrimeBalance = summary
+        response.analysis.wPrimeAssessment = buildWPrimeAssessment(summary)
+      }
+    }
   } catch {
     // Streams not available, continue without
   }
@@ -0,0 +1,167 @@
+/**
+ * Power Curve Comparison
+ *
+ * Compares the mean-maximal power curves of two date windows (this season
+ * vs. last, the last 42 days vs. all-time, before vs. after a block) per
+ * duration, in watts and in W/kg. W/kg uses the athlete's weight at the time,
+ * from their weight history, so a block that also dropped weight shows both.
+ */
+
+import type { MeanMaxPoint } from './critical-power'
+
+export interface DateWindow {
+  startDate: string
+  endDate: string
+  label?: string
+}
+
+export interface WeightSample {
+  date: string
+  weightKg: number
+}
+
+export interface ComparisonPoint {
+  duration: number
+  durationLabel: string
+  baselineWatts: number | null
+  watts: number | null
+  deltaWatts: number | null
+  deltaPercent: number | null
+  baselineWkg: number | null
+  wkg: number | null
+  deltaWkgPercent: number | null
+}
+
+export interface PowerCurveComparison {
+  points: ComparisonPoint[]
+  /** Mean change over the durations both windows have */
+  avgDeltaPercent: number | null
+  avgDeltaWkgPercent: number | null
+  biggestGain: ComparisonPoint | null
+  biggestLoss: ComparisonPoint | null
+}
+
+export type ComparisonPreset = 'season' | 'last-42-days-vs-all-time' | 'last-90-days-vs-previous'
+
+export const COMPARISON_PRESETS: ComparisonPreset[] = ['season', 'last-42-days-vs-all-time', 'last-90-days-vs-previous']
+
+// Start of "all time"; older than any synced ride
+const ALL_TIME_START = '2000-01-01'
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function percentChange(from: number | null, to: number | null): number | null {
+  if (from === null || to === null || from <= 0) return null
+  return round((to - from) / from * 100, 1)
+}
+
+/**
+ * Short label for a duration: 5s, 90s, 5min, 1hr, 90min
+ */
+export function formatDurationLabel(seconds: number): string {
+  if (seconds < 60 || seconds % 60 !== 0) return `${seconds}s`
+  if (seconds % 3600 === 0) return `${seconds / 3600}hr`
+  return `${seconds / 60}min`
+}
+
+/**
+ * Baseline (earlier) and current windows for a preset, ending today
+ */
+export function comparisonPresetWindows(
+  preset: ComparisonPreset,
+  today: string
+): { baseline: DateWindow; current: DateWindow } {
+  switch (preset) {
+    case 'season': {
+      const year = Number(today.slice(0, 4))
+      return {
+        baseline: { startDate: `${year - 1}-01-01`, endDate: `${year - 1}-12-31`, label: `${year - 1} season` },
+        current: { startDate: `${year}-01-01`, endDate: today, label: `${year} season` },
+      }
+    }
+    case 'last-42-days-vs-all-time':
+      return {
+        baseline: { startDate: ALL_TIME_START, endDate: today, label: 'All time' },
+        current: { startDate: shiftDays(today, -41), endDate: today, label: 'Last 42 days' },
+      }
+    case 'last-90-days-vs-previous':
+      return {
+        baseline: { startDate: shiftDays(today, -179), endDate: shiftDays(today, -90), label: 'Previous 90 days' },
+        current: { startDate: shiftDays(today, -89), endDate: today, label: 'Last 90 days' },
+      }
+  }
+}
+
+/**
+ * The athlete's weight during a window: the mean of the measurements in it,
+ * else the last one before it, else the first one after it.
+ */
+export function weightForWindow(history: WeightSample[], window: DateWindow): number | null {
+  if (history.length === 0) return null
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date))
+
+  const inWindow = sorted.filter(s => s.date >= window.startDate && s.date <= window.endDate)
+  if (inWindow.length > 0) {
+    return round(inWindow.reduce((sum, s) => sum + s.weightKg, 0) / inWindow.length, 1)
+  }
+  const before = sorted.filter(s => s.date < window.startDate)
+  if (before.length > 0) return before[before.length - 1].weightKg
+  return sorted[0].weightKg
+}
+
+/**
+ * Per-duration change from the baseline curve to the current one
+ */
+export function comparePowerCurves(
+  baseline: MeanMaxPoint[],
+  current: MeanMaxPoint[],
+  weights: { baseline: number | null; current: number | null } = { baseline: null, current: null }
+): PowerCurveComparison {
+  const baselineByDuration = new Map(baseline.map(p => [p.duration, p.watts]))
+  const currentByDuration = new Map(current.map(p => [p.duration, p.watts]))
+  const durations = Array.from(new Set([...baselineByDuration.keys(), ...currentByDuration.keys()]))
+    .sort((a, b) => a - b)
+
+  const wkg = (watts: number | null, weightKg: number | null) =>
+    watts !== null && weightKg ? round(watts / weightKg, 2) : null
+
+  const points: ComparisonPoint[] = durations.map(duration => {
+    const baselineWatts = baselineByDuration.get(duration) ?? null
+    const watts = currentByDuration.get(duration) ?? null
+    const baselineWkg = wkg(baselineWatts, weights.baseline)
+    const currentWkg = wkg(watts, weights.current)
+    return {
+      duration,
+      durationLabel: formatDurationLabel(duration),
+      baselineWatts,
+      watts,
+      deltaWatts: baselineWatts !== null && watts !== null ? watts - baselineWatts : null,
+      deltaPercent: percentChange(baselineWatts, watts),
+      baselineWkg,
+      wkg: currentWkg,
+      deltaWkgPercent: percentChange(baselineWkg, currentWkg),
+    }
+  })
+
+  const compared = points.filter(p => p.deltaPercent !== null)
+  const mean = (values: number[]) =>
+    values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length, 1) : null
+  const byDelta = [...compared].sort((a, b) => b.deltaPercent! - a.deltaPercent!)
+
+  return {
+    points,
+    avgDeltaPercent: mean(compared.map(p => p.deltaPercent!)),
+    avgDeltaWkgPercent: mean(compared.filter(p => p.deltaWkgPercent !== null).map(p => p.deltaWkgPercent!)),
+    biggestGain: byDelta.length > 0 && byDelta[0].deltaPercent! > 0 ? byDelta[0] : null,
+    biggestLoss: byDelta.length > 0 && byDelta[byDelta.length - 1].deltaPercent! < 0 ? byDelta[byDelta.length - 1] : null,
+  }
+}
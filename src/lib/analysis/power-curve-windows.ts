@@ -0,0 +1,130 @@
+/**
+ * Power Curve Windows
+ *
+ * Loads the mean-maximal power curves of two date windows and the athlete's
+ * weight in each, and compares them. Curves come from stored streams or power
+ * bests; windows without local power can be filled from another source
+ * (e.g. intervals.icu power curves). Weight comes from body measurements,
+ * falling back to the weight on the athlete's profile.
+ */
+
+import { getBodyMeasurements } from '@/lib/db/body-measurements'
+import { getAthlete } from '@/lib/db/athletes'
+import { getMeanMaxPowerWindows, type MeanMaxSource } from './mean-max-power'
+import {
+  comparePowerCurves,
+  weightForWindow,
+  type DateWindow,
+  type PowerCurveComparison,
+  type WeightSample,
+} from './power-curve-comparison'
+import type { MeanMaxPoint } from './critical-power'
+import { logger } from '@/lib/logger'
+
+export type PowerCurveWindowSource = MeanMaxSource | 'intervals_icu'
+
+export interface PowerCurveWindow extends DateWindow {
+  label: string
+  points: MeanMaxPoint[]
+  source: PowerCurveWindowSource
+  sessionCount: number
+  weightKg: number | null
+  weightSource: 'body_measurements' | 'profile' | null
+}
+
+export interface PowerCurveWindowComparison {
+  baseline: PowerCurveWindow
+  current: PowerCurveWindow
+  comparison: PowerCurveComparison
+}
+
+/** Mean-maximal power for a window from a remote source, empty when it has none */
+export type RemotePowerCurve = (startDate: string, endDate: string) => Promise<MeanMaxPoint[]>
+
+/**
+ * Weight measurements up to endDate, oldest first
+ */
+export async function getWeightHistory(athleteId: string, endDate: string): Promise<WeightSample[]> {
+  const measurements = await getBodyMeasurements(athleteId, {
+    endDate: new Date(`${endDate}T23:59:59Z`),
+  })
+  return measurements
+    .filter(m => m.weight_kg !== null && m.weight_kg > 0)
+    .map(m => ({ date: m.measured_at.split('T')[0], weightKg: m.weight_kg! }))
+    .reverse()
+}
+
+/**
+ * Compare the mean-maximal power of a baseline window with a current one
+ */
+export async function comparePowerCurveWindows(
+  athleteId: string,
+  baseline: DateWindow,
+  current: DateWindow,
+  options: {
+    /** Fills windows without local power */
+    remote?: RemotePowerCurve
+    /** Read curves and weight history from the database (default true) */
+    useLocalData?: boolean
+    /** Weight used when there are no measurements; read from the athlete when omitted */
+    profileWeightKg?: number | null
+  } = {}
+): Promise<PowerCurveWindowComparison> {
+  const { remote, useLocalData = true } = options
+  const windows = [baseline, current]
+  const curves: Array<{ points: MeanMaxPoint[]; source: PowerCurveWindowSource; sessionCount: number }> =
+    windows.map(() => ({ points: [], source: 'none', sessionCount: 0 }))
+
+  if (useLocalData) {
+    try {
+      const local = await getMeanMaxPowerWindows(athleteId, windows)
+      local.forEach((result, i) => { curves[i] = result })
+    } catch (error) {
+      logger.error('[PowerCurveWindows] Error loading local power data:', error)
+    }
+  }
+
+  if (remote) {
+    for (let i = 0; i < windows.length; i++) {
+      if (curves[i].points.length > 0) continue
+      try {
+        const points = await remote(windows[i].startDate, windows[i].endDate)
+        if (points.length > 0) curves[i] = { points, source: 'intervals_icu', sessionCount: 0 }
+      } catch (error) {
+        logger.error('[PowerCurveWindows] Error fetching remote power curve:', error)
+      }
+    }
+  }
+
+  let history: WeightSample[] = []
+  if (useLocalData) {
+    try {
+      history = await getWeightHistory(athleteId, [baseline.endDate, current.endDate].sort()[1])
+    } catch (error) {
+      logger.error('[PowerCurveWindows] Error loading weight history:', error)
+    }
+  }
+  const profileWeight = options.profileWeightKg !== undefined
+    ? options.profileWeightKg
+    : history.length === 0 && useLocalData ? (await getAthlete(athleteId))?.weight_kg ?? null : null
+
+  const [baselineWindow, currentWindow] = windows.map((window, i): PowerCurveWindow => {
+    const measured = weightForWindow(history, window)
+    return {
+      ...window,
+      label: window.label || `${window.startDate} – ${window.endDate}`,
+      ...curves[i],
+      weightKg: measured ?? profileWeight,
+      weightSource: measured !== null ? 'body_measurements' : profileWeight !== null ? 'profile' : null,
+    }
+  })
+
+  return {
+    baseline: baselineWindow,
+    current: currentWindow,
+    comparison: comparePowerCurves(baselineWindow.points, currentWindow.points, {
+      baseline: baselineWindow.weightKg,
+      current: currentWindow.weightKg,
+    }),
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Running Analytics
+ *
+ * Grade-adjusted pace (GAP) from speed, distance and altitude streams,
+ * normalized graded pace (NGP), running intensity and rTSS relative to the
+ * athlete's threshold pace, and best efforts over standard race distances
+ * within a run and across the athlete's history.
+ *
+ * Speeds are in m/s and paces in seconds per km. Streams are sampled once
+ * per second, like power streams.
+ */
+
+import type { RunningBest } from '@/types'
+
+export interface RunningStreams {
+  time?: number[]
+  velocity_smooth?: number[]
+  distance?: number[]
+  altitude?: number[]
+}
+
+export interface RunningMetrics {
+  distanceMeters: number
+  durationSeconds: number
+  /** Average pace in s/km */
+  avgPace: number | null
+  /** Average grade-adjusted pace in s/km */
+  gradeAdjustedPace: number | null
+  /** Normalized graded pace in s/km */
+  normalizedGradedPace: number | null
+  /** NGP speed / threshold speed */
+  intensityFactor: number | null
+  rtss: number | null
+}
+
+export interface RunningBestEffort {
+  distance: number
+  label: string
+  seconds: number
+  /** Pace in s/km */
+  pace: number
+  /** Stream index where the effort starts */
+  startIndex: number
+}
+
+/** A best effort and the run it came from */
+export interface RunningBestRecord {
+  distance: number
+  label: string
+  seconds: number
+  /** Pace in s/km */
+  pace: number
+  date: string
+  sessionId: string
+}
+
+export interface RunningBestProgression {
+  distance: number
+  label: string
+  best: RunningBestRecord
+  latest: RunningBestRecord
+  /** Runs that covered the distance */
+  efforts: number
+  /** Each time the best improved, oldest first */
+  records: RunningBestRecord[]
+}
+
+export const RUNNING_BEST_DISTANCES = [
+  { distance: 1000, label: '1k' },
+  { distance: 5000, label: '5k' },
+  { distance: 10000, label: '10k' },
+  { distance: 21097.5, label: 'Half marathon' },
+]
+
+// Grade is measured over at least this much horizontal distance
+const GRADE_WINDOW_METERS = 20
+// Beyond ±45% the cost-of-running polynomial is not valid
+const MAX_GRADE = 0.45
+// Rolling window for NGP, as for normalized power
+const NGP_WINDOW_SECONDS = 30
+// Metabolic cost of running on the flat (J/kg/m)
+const FLAT_COST = 3.6
+// Slower than this (1.8 km/h) is standing still
+const MIN_MOVING_SPEED = 0.5
+
+/**
+ * Seconds per km for a speed in m/s
+ */
+export function speedToPace(speed: number): number | null {
+  return speed > 0 ? Math.round(1000 / speed) : null
+}
+
+/**
+ * Speed in m/s for a pace in seconds per km
+ */
+export function paceToSpeed(pace: number): number | null {
+  return pace > 0 ? 1000 / pace : null
+}
+
+/**
+ * Minetti et al. (2002) energy cost of running at a grade (J/kg/m)
+ */
+export function runningCost(grade: number): number {
+  const i = Math.min(Math.max(grade, -MAX_GRADE), MAX_GRADE)
+  return 155.4 * i ** 5 - 30.4 * i ** 4 - 43.3 * i ** 3 + 46.3 * i ** 2 + 19.5 * i + FLAT_COST
+}
+
+/**
+ * Factor converting speed on a grade to the equivalent flat speed
+ */
+export function gradeAdjustmentFactor(grade: number): number {
+  return runningCost(grade) / FLAT_COST
+}
+
+/**
+ * Grade per sample from the distance and altitude streams, measured back
+ * over at least GRADE_WINDOW_METERS so GPS and barometer noise average out
+ */
+export function calculateGradeStream(distance: number[], altitude: number[]): number[] {
+  const length = Math.min(distance.length, altitude.length)
+  const grades: number[] = new Array(length).fill(0)
+  let start = 0
+  for (let i = 1; i < length; i++) {
+    while (start < i - 1 && distance[i] - distance[start + 1] >= GRADE_WINDOW_METERS) start++
+    const run = distance[i] - distance[start]
+    grades[i] = run >= GRADE_WINDOW_METERS
+      ? Math.min(Math.max((altitude[i] - altitude[start]) / run, -MAX_GRADE), MAX_GRADE)
+      : grades[i - 1]
+  }
+  return grades
+}
+
+/**
+ * Grade-adjusted speed per sample (m/s). Plain speed without altitude.
+ */
+export function calculateGradeAdjustedSpeed(streams: RunningStreams): number[] {
+  const speed = streams.velocity_smooth ?? []
+  if (!streams.distance || !streams.altitude) return speed
+  const grades = calculateGradeStream(streams.distance, streams.altitude)
+  return speed.map((s, i) => s * gradeAdjustmentFactor(grades[i] ?? 0))
+}
+
+/**
+ * Normalized graded speed (m/s): 4th-power mean of the 30-second rolling
+ * average of grade-adjusted speed, weighting surges like normalized power
+ */
+export function calculateNormalizedGradedSpeed(gradeAdjusted: number[]): number | null {
+  if (gradeAdjusted.length === 0) return null
+  if (gradeAdjusted.length < NGP_WINDOW_SECONDS) {
+    const mean = gradeAdjusted.reduce((a, b) => a + b, 0) / gradeAdjusted.length
+    return mean > 0 ? mean : null
+  }
+
+  let windowSum = gradeAdjusted.slice(0, NGP_WINDOW_SECONDS).reduce((a, b) => a + b, 0)
+  let fourthPowerSum = (windowSum / NGP_WINDOW_SECONDS) ** 4
+  for (let i = NGP_WINDOW_SECONDS; i < gradeAdjusted.length; i++) {
+    windowSum += gradeAdjusted[i] - gradeAdjusted[i - NGP_WINDOW_SECONDS]
+    fourthPowerSum += (windowSum / NGP_WINDOW_SECONDS) ** 4
+  }
+  const count = gradeAdjusted.length - NGP_WINDOW_SECONDS + 1
+  const ngs = (fourthPowerSum / count) ** 0.25
+  return ngs > 0 ? ngs : null
+}
+
+/**
+ * Running intensity factor: NGP speed relative to threshold speed
+ */
+export function calculateRunningIF(ngpSpeed: number, thresholdPace: number): number | null {
+  const thresholdSpeed = paceToSpeed(thresholdPace)
+  if (!thresholdSpeed || ngpSpeed <= 0) return null
+  return Math.round((ngpSpeed / thresholdSpeed) * 100) / 100
+}
+
+/**
+ * rTSS: hours × IF² × 100, so an hour at threshold pace scores 100
+ */
+export function calculateRtss(ngpSpeed: number, durationSeconds: number, thresholdPace: number): number | null {
+  const thresholdSpeed = paceToSpeed(thresholdPace)
+  if (!thresholdSpeed || ngpSpeed <= 0 || durationSeconds <= 0) return null
+  return Math.round((durationSeconds / 3600) * (ngpSpeed / thresholdSpeed) ** 2 * 100)
+}
+
+/**
+ * Pace, GAP, NGP, intensity and rTSS for a run from its streams.
+ * Intensity and rTSS need the athlete's threshold pace.
+ */
+export function calculateRunningMetrics(
+  streams: RunningStreams,
+  thresholdPace?: number | null
+): RunningMetrics {
+  const speed = streams.velocity_smooth ?? []
+  const durationSeconds = speed.length
+  const distanceMeters = streams.distance && streams.distance.length > 0
+    ? streams.distance[streams.distance.length - 1] - streams.distance[0]
+    : speed.reduce((a, b) => a + b, 0)
+
+  const gradeAdjusted = calculateGradeAdjustedSpeed(streams)
+  const moving = gradeAdjusted.filter((_, i) => speed[i] >= MIN_MOVING_SPEED)
+  const movingSeconds = moving.length
+  const avgGap = movingSeconds > 0 ? moving.reduce((a, b) => a + b, 0) / movingSeconds : 0
+  const ngpSpeed = calculateNormalizedGradedSpeed(gradeAdjusted)
+
+  return {
+    distanceMeters: Math.round(distanceMeters),
+    durationSeconds,
+    avgPace: movingSeconds > 0 ? speedToPace(distanceMeters / movingSeconds) : null,
+    gradeAdjustedPace: speedToPace(avgGap),
+    normalizedGradedPace: ngpSpeed ? speedToPace(ngpSpeed) : null,
+    intensityFactor: ngpSpeed && thresholdPace ? calculateRunningIF(ngpSpeed, thresholdPace) : null,
+    rtss: ngpSpeed && thresholdPace ? calculateRtss(ngpSpeed, durationSeconds, thresholdPace) : null,
+  }
+}
+
+/**
+ * Fastest time over each standard distance within one run, from the
+ * cumulative distance stream. The shortest stretch covering the distance
+ * is scaled to the exact distance.
+ */
+export function calculateRunningBests(distance: number[], time?: number[]): RunningBestEffort[] {
+  if (distance.length < 2) return []
+  const at = (i: number) => time?.[i] ?? i
+  const total = distance[distance.length - 1] - distance[0]
+  const bests: RunningBestEffort[] = []
+
+  for (const { distance: target, label } of RUNNING_BEST_DISTANCES) {
+    if (total < target) continue
+    let best: { seconds: number; startIndex: number } | null = null
+    let start = 0
+    for (let end = 1; end < distance.length; end++) {
+      if (distance[end] - distance[start] < target) continue
+      while (distance[end] - distance[start + 1] >= target) start++
+      const covered = distance[end] - distance[start]
+      const seconds = (at(end) - at(start)) * (target / covered)
+      if (seconds > 0 && (!best || seconds < best.seconds)) {
+        best = { seconds, startIndex: start }
+      }
+    }
+    if (best) {
+      bests.push({
+        distance: target,
+        label,
+        seconds: Math.round(best.seconds),
+        pace: Math.round(best.seconds / (target / 1000)),
+        startIndex: best.startIndex,
+      })
+    }
+  }
+  return bests
+}
+
+/**
+ * A run's best efforts in the form stored on the session
+ */
+export function runningBestsFromStreams(distance: number[], time?: number[]): RunningBest[] {
+  return calculateRunningBests(distance, time).map(effort => ({
+    distance_meters: effort.distance,
+    seconds: effort.seconds,
+    start_index: effort.startIndex,
+  }))
+}
+
+/**
+ * Best, latest and record progression per standard distance across runs
+ */
+export function summarizeRunningBests(
+  runs: { id: string; date: string; running_bests: RunningBest[] }[]
+): RunningBestProgression[] {
+  const ordered = [...runs].sort((a, b) => a.date.localeCompare(b.date))
+  const progressions: RunningBestProgression[] = []
+
+  for (const { distance, label } of RUNNING_BEST_DISTANCES) {
+    const efforts = ordered.flatMap(run => {
+      const effort = run.running_bests.find(b => b.distance_meters === distance)
+      return effort
+        ? [{
+            distance,
+            label,
+            seconds: effort.seconds,
+            pace: Math.round(effort.seconds / (distance / 1000)),
+            date: run.date,
+            sessionId: run.id,
+          }]
+        : []
+    })
+    if (efforts.length === 0) continue
+
+    const records: RunningBestRecord[] = []
+    for (const effort of efforts) {
+      if (records.length === 0 || effort.seconds < records[records.length - 1].seconds) records.push(effort)
+    }
+    progressions.push({
+      distance,
+      label,
+      best: records[records.length - 1],
+      latest: efforts[efforts.length - 1],
+      efforts: efforts.length,
+      records,
+    })
+  }
+  return progressions
+}
@@ -0,0 +1,97 @@
+/**
+ * Session Interval Analysis
+ *
+ * Detects work/recovery bouts for a stored session (merged with its device
+ * laps) and compares them with the prescribed intervals of the matching
+ * plan day.
+ */
+
+import { getPlanDayForSession } from '@/lib/db/training-plans'
+import { getWorkoutById, type WorkoutInterval } from '@/lib/workouts/library'
+import {
+  detectIntervals,
+  compareWithPrescribed,
+  lapBoundarySeconds,
+  type DetectedInterval,
+  type IntervalComplianceResult,
+  type IntervalStreams,
+} from './interval-detection'
+import type { ActivityLap } from '@/lib/fit-parser'
+import type { PlanDay, Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+export interface PlannedIntervalComparison extends IntervalComplianceResult {
+  planDayId: string
+  workoutName: string | null
+}
+
+export interface SessionIntervalAnalysis {
+  intervals: DetectedInterval[]
+  lapsUsed: boolean
+  plannedComparison: PlannedIntervalComparison | null
+}
+
+/**
+ * Prescribed intervals for a plan day: stored on the day, else from its library workout
+ */
+export function getPrescribedIntervals(day: PlanDay): WorkoutInterval[] {
+  if (Array.isArray(day.intervals_json) && day.intervals_json.length > 0) {
+    return day.intervals_json as unknown as WorkoutInterval[]
+  }
+  const template = day.workout_template_id ? getWorkoutById(day.workout_template_id) : undefined
+  return template?.intervals ?? []
+}
+
+/**
+ * Work/recovery bouts of a session, split at its device laps when it has them
+ */
+export function detectSessionIntervals(
+  session: Session,
+  streams: IntervalStreams,
+  ftp: number | null
+): { intervals: DetectedInterval[]; lapsUsed: boolean } {
+  const raw = session.raw_data as Record<string, unknown> | undefined
+  const laps = raw?.laps as ActivityLap[] | undefined
+  const lapStarts = laps?.length
+    ? lapBoundarySeconds(laps, (raw?.start_time as string | undefined) ?? session.date)
+    : []
+
+  const intervals = detectIntervals(
+    {
+      watts: streams.watts,
+      time: streams.time,
+      heartrate: streams.heartrate,
+      cadence: streams.cadence,
+    },
+    { ftp, lapStarts }
+  )
+  return { intervals, lapsUsed: lapStarts.length > 0 }
+}
+
+export async function analyzeSessionIntervals(
+  session: Session,
+  streams: Partial<IntervalStreams>,
+  ftp: number | null
+): Promise<SessionIntervalAnalysis | null> {
+  if (!streams.watts || streams.watts.length === 0) return null
+
+  const { intervals, lapsUsed } = detectSessionIntervals(session, { ...streams, watts: streams.watts }, ftp)
+
+  let plannedComparison: PlannedIntervalComparison | null = null
+  try {
+    const day = await getPlanDayForSession(session.athlete_id, session.id, session.date)
+    const prescribed = day ? getPrescribedIntervals(day) : []
+    const comparison = prescribed.length > 0 ? compareWithPrescribed(intervals, prescribed) : null
+    if (day && comparison) {
+      plannedComparison = {
+        planDayId: day.id,
+        workoutName: day.workout_name ?? null,
+        ...comparison,
+      }
+    }
+  } catch (error) {
+    logger.warn('[SessionIntervals] Plan comparison failed:', error)
+  }
+
+  return { intervals, lapsUsed, plannedComparison }
+}
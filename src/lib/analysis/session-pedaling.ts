@@ -0,0 +1,75 @@
+/**
+ * Session Pedaling Analysis
+ *
+ * Quadrants, cadence per power zone and torque peaks for a stored session,
+ * with the athlete's FTP and power zone model, plus how prescribed cadence
+ * targets (e.g. low-cadence strength reps) were met.
+ */
+
+import { getSessionStreams, type RemoteStreamSource } from '@/lib/streams/stream-access'
+import { analyzePedaling, type PedalingAnalysis } from './pedaling'
+import { analyzeSessionIntervals } from './session-intervals'
+import { getZoneContext } from './session-zones'
+import type { RepComparison } from './interval-detection'
+import type { Session } from '@/types'
+
+export interface CadenceTargetRep {
+  rep: number
+  targetCadence: number
+  actualCadence: number | null
+  onTarget: boolean | null
+}
+
+export interface SessionPedalingAnalysis extends PedalingAnalysis {
+  sessionId: string
+  date: string
+  ftp: number | null
+  /** Reps of the matching plan day that had a cadence target */
+  cadenceTargets: CadenceTargetRep[]
+}
+
+function cadenceTargetReps(reps: RepComparison[]): CadenceTargetRep[] {
+  return reps
+    .filter(r => r.targetCadence !== null)
+    .map(r => ({
+      rep: r.rep,
+      targetCadence: r.targetCadence!,
+      actualCadence: r.bout?.avgCadence ?? null,
+      onTarget: r.cadenceOnTarget,
+    }))
+}
+
+/**
+ * Analyze a ride's pedaling. Returns null for other sports and rides without
+ * power and cadence streams.
+ */
+export async function analyzeSessionPedaling(
+  session: Session,
+  options: { referenceCadence?: number | null; remote?: RemoteStreamSource | null } = {}
+): Promise<SessionPedalingAnalysis | null> {
+  if (session.sport !== 'cycling') return null
+  const streams = await getSessionStreams(
+    session,
+    ['time', 'watts', 'cadence', 'heartrate'],
+    options.remote
+  )
+  if (!streams?.watts?.length || !streams.cadence?.length) return null
+
+  const raw = session.raw_data as Record<string, unknown> | undefined
+  const zoneContext = await getZoneContext(session.athlete_id)
+  const ftp = (raw?.icu_ftp as number | undefined) || (raw?.ftp_used as number | undefined) || zoneContext.thresholds.ftp || null
+
+  const intervals = await analyzeSessionIntervals(session, streams, ftp)
+
+  return {
+    sessionId: session.id,
+    date: session.date,
+    ftp,
+    ...analyzePedaling(streams, {
+      ftp,
+      referenceCadence: options.referenceCadence,
+      zoneModel: zoneContext.models.power,
+    }),
+    cadenceTargets: cadenceTargetReps(intervals?.plannedComparison?.reps ?? []),
+  }
+}
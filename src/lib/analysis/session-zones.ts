@@ -0,0 +1,117 @@
+/**
+ * Session Zone Distribution
+ *
+ * Time in zones for stored sessions, recomputed from their streams with the
+ * athlete's active zone models (power, HR and, for runs, pace).
+ */
+
+import { getAthlete } from '@/lib/db/athletes'
+import { getActiveZoneModels, type ActiveZoneModels } from '@/lib/db/zone-models'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE } from '@/lib/db/session-streams'
+import {
+  calculateZoneDistribution,
+  sumZoneTimes,
+  type AthleteThresholds,
+  type SessionZoneDistribution,
+  type ZoneStreams,
+  type ZoneTime,
+} from './zones'
+import type { Session } from '@/types'
+
+export interface ZoneContext {
+  models: ActiveZoneModels
+  thresholds: AthleteThresholds
+}
+
+/**
+ * Active zone models and the athlete's thresholds they refer to
+ */
+export async function getZoneContext(athleteId: string): Promise<ZoneContext> {
+  const [models, athlete] = await Promise.all([
+    getActiveZoneModels(athleteId),
+    getAthlete(athleteId),
+  ])
+  return {
+    models,
+    thresholds: {
+      ftp: athlete?.ftp ?? null,
+      lthr: athlete?.lthr ?? null,
+      runningFtp: athlete?.running_ftp ?? null,
+      thresholdPace: athlete?.threshold_pace ?? null,
+    },
+  }
+}
+
+/**
+ * Zone distribution for one session. The FTP the session was analysed with
+ * (if known) takes precedence over the athlete's current FTP, or running FTP
+ * for runs.
+ */
+export function sessionZoneDistribution(
+  session: Pick<Session, 'sport'>,
+  streams: ZoneStreams,
+  context: ZoneContext,
+  ftp?: number | null
+): SessionZoneDistribution {
+  const thresholds = session.sport === 'running'
+    ? { ...context.thresholds, runningFtp: ftp || context.thresholds.runningFtp }
+    : { ...context.thresholds, ftp: ftp || context.thresholds.ftp }
+  return calculateZoneDistribution(streams, context.models, thresholds, session.sport)
+}
+
+/**
+ * Time in zones summed over many sessions, from their stored streams, loaded
+ * a batch at a time. Sessions without stored streams are left out
+ * (sessionCount says how many were used).
+ */
+export async function aggregateZoneDistribution(
+  athleteId: string,
+  sessions: Pick<Session, 'id' | 'sport' | 'raw_data'>[],
+  context?: ZoneContext
+): Promise<SessionZoneDistribution & { sessionCount: number }> {
+  if (sessions.length === 0) return { sessionCount: 0 }
+
+  const zoneContext = context ?? await getZoneContext(athleteId)
+  const perMetric: Record<'power' | 'hr' | 'pace', ZoneTime[][]> = { power: [], hr: [], pace: [] }
+  let sessionCount = 0
+  for (let i = 0; i < sessions.length; i += STREAM_BATCH_SIZE) {
+    const batch = sessions.slice(i, i + STREAM_BATCH_SIZE)
+    const streamsById = await getStoredStreamsForAthlete(
+      athleteId,
+      ['watts', 'heartrate', 'velocity_smooth', 'distance', 'altitude'],
+      { sessionIds: batch.map(s => s.id) }
+    )
+
+    for (const session of batch) {
+      const streams = streamsById.get(session.id)
+      if (!streams) continue
+
+      const raw = session.raw_data as Record<string, unknown> | undefined
+      const ftp = (raw?.icu_ftp as number | undefined) || (raw?.ftp_used as number | undefined)
+      const distribution = sessionZoneDistribution(session, streams, zoneContext, ftp)
+      if (distribution.power) perMetric.power.push(distribution.power.zones)
+      if (distribution.hr) perMetric.hr.push(distribution.hr.zones)
+      if (distribution.pace) perMetric.pace.push(distribution.pace.zones)
+      sessionCount++
+    }
+  }
+
+  const result: SessionZoneDistribution & { sessionCount: number } = { sessionCount }
+  for (const metric of ['power', 'hr', 'pace'] as const) {
+    const model = zoneContext.models[metric]
+    const zones = sumZoneTimes(model, perMetric[metric])
+    if (zones) result[metric] = { model: model.name, zones }
+  }
+  return result
+}
+
+/**
+ * Zone distribution of a stored session with the athlete's active zone models
+ */
+export async function getSessionZoneDistribution(
+  session: Pick<Session, 'athlete_id' | 'sport'>,
+  streams: ZoneStreams,
+  ftp?: number | null
+): Promise<SessionZoneDistribution> {
+  return sessionZoneDistribution(session, streams, await getZoneContext(session.athlete_id), ftp)
+}
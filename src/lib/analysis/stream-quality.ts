@@ -0,0 +1,296 @@
+/**
+ * Stream Quality
+ *
+ * Cleans per-second session streams before they are stored and analyzed:
+ *   power spikes           - one to three samples far above the samples either
+ *                            side, or above any plausible power; interpolated
+ *   heart rate dropouts    - zero or implausibly low samples and short sudden
+ *                            drops from lost strap contact; interpolated
+ *   stuck values           - a sensor repeating the same non-zero reading
+ *   cadence/power mismatch - sustained power while the cadence sensor reads zero
+ *   zero-filled pauses     - stopped but still recording, every stream at zero
+ *
+ * Every issue becomes a flag with its sample range. Power bests leave out all
+ * flagged power samples, plus the ranges the athlete excluded.
+ */
+
+import type { DataQualityFlag, DataQualityIssue, ExcludedRange, QualityStream } from '@/types'
+
+export interface QualityStreams {
+  watts?: number[]
+  heartrate?: number[]
+  cadence?: number[]
+  velocity_smooth?: number[]
+}
+
+export interface CleanedStreams<T extends QualityStreams> {
+  /** Copy of the input with spikes and dropouts interpolated */
+  streams: T
+  flags: DataQualityFlag[]
+}
+
+export interface DataQualitySummary {
+  issues: Partial<Record<DataQualityIssue, number>>
+  interpolatedSeconds: number
+  /** Power samples left out of power bests */
+  maskedSeconds: number
+  pausedSeconds: number
+}
+
+// Above this the sample is a spike whatever its neighbours (elite sprints peak near 2300W)
+export const MAX_PLAUSIBLE_WATTS = 2500
+// A spike is at most this many samples, each this multiple of and this far above the samples either side
+const MAX_SPIKE_SAMPLES = 3
+const SPIKE_RATIO = 2.5
+const SPIKE_MIN_JUMP_WATTS = 500
+// Heart rate samples below this are dropouts
+export const MIN_VALID_HR = 30
+// Gaps up to this long are interpolated; longer ones are only flagged
+const MAX_HR_GAP_SECONDS = 120
+// A fall of this much that comes back within HR_DROP_MAX_SECONDS is lost strap contact
+const HR_DROP_BPM = 40
+const HR_DROP_MAX_SECONDS = 30
+// The same non-zero reading for this long is a stuck sensor
+export const STUCK_SECONDS: Record<QualityStream, number> = {
+  watts: 60,
+  heartrate: 180,
+  cadence: 180,
+}
+// Power of at least this much with zero cadence for this long
+const MISMATCH_MIN_WATTS = 100
+const MISMATCH_MIN_SECONDS = 5
+// Standing still with everything at zero for this long is a pause
+const PAUSE_MIN_SECONDS = 60
+
+/**
+ * Replace values[start..end] with a straight line between the samples either
+ * side (or the nearest one at the ends of the stream)
+ */
+function interpolate(values: number[], start: number, end: number): void {
+  const before = start > 0 ? values[start - 1] : undefined
+  const after = end + 1 < values.length ? values[end + 1] : undefined
+  const from = before ?? after ?? 0
+  const to = after ?? before ?? 0
+  const steps = end - start + 2
+  for (let i = start; i <= end; i++) {
+    values[i] = Math.round(from + (to - from) * (i - start + 1) / steps)
+  }
+}
+
+/** Inclusive runs of consecutive indices where the predicate holds */
+function findRuns(length: number, predicate: (i: number) => boolean): Array<[number, number]> {
+  const runs: Array<[number, number]> = []
+  let start = -1
+  for (let i = 0; i <= length; i++) {
+    if (i < length && predicate(i)) {
+      if (start < 0) start = i
+    } else if (start >= 0) {
+      runs.push([start, i - 1])
+      start = -1
+    }
+  }
+  return runs
+}
+
+function isSpikeRun(watts: number[], start: number, end: number): boolean {
+  const before = start > 0 ? watts[start - 1] : undefined
+  const after = end + 1 < watts.length ? watts[end + 1] : undefined
+  if (before === undefined && after === undefined) return false
+  const reference = Math.max(before ?? 0, after ?? 0)
+  const threshold = Math.max(reference * SPIKE_RATIO, reference + SPIKE_MIN_JUMP_WATTS)
+  for (let i = start; i <= end; i++) {
+    if (watts[i] < threshold) return false
+  }
+  return true
+}
+
+/**
+ * Interpolate power spikes in place
+ */
+function cleanPowerSpikes(watts: number[]): DataQualityFlag[] {
+  const flags: DataQualityFlag[] = []
+  let i = 0
+  while (i < watts.length) {
+    let end = -1
+    if (watts[i] > MAX_PLAUSIBLE_WATTS) {
+      end = i
+      while (end + 1 < watts.length && watts[end + 1] > MAX_PLAUSIBLE_WATTS) end++
+    } else if (watts[i] > 0) {
+      for (let length = 1; length <= MAX_SPIKE_SAMPLES && i + length <= watts.length; length++) {
+        if (isSpikeRun(watts, i, i + length - 1)) {
+          end = i + length - 1
+          break
+        }
+      }
+    }
+    if (end < 0) {
+      i++
+      continue
+    }
+
+    const peak = watts.slice(i, end + 1).reduce((a, b) => Math.max(a, b), 0)
+    interpolate(watts, i, end)
+    flags.push({ issue: 'power_spike', stream: 'watts', start: i, end, action: 'interpolated', value: peak })
+    i = end + 1
+  }
+  return flags
+}
+
+/**
+ * Fill heart rate dropouts in place: missing samples first, then short drops
+ */
+function cleanHeartRateDropouts(heartrate: number[]): DataQualityFlag[] {
+  if (!heartrate.some(hr => hr >= MIN_VALID_HR)) return []
+  const flags: DataQualityFlag[] = []
+
+  for (const [start, end] of findRuns(heartrate.length, i => heartrate[i] < MIN_VALID_HR)) {
+    const fill = end - start + 1 <= MAX_HR_GAP_SECONDS
+    if (fill) interpolate(heartrate, start, end)
+    flags.push({ issue: 'hr_dropout', stream: 'heartrate', start, end, action: fill ? 'interpolated' : 'flagged', value: null })
+  }
+
+  for (let i = 1; i < heartrate.length; i++) {
+    const before = heartrate[i - 1]
+    if (heartrate[i] > before - HR_DROP_BPM) continue
+    // Lost contact reads low until the strap picks the heart rate up again
+    let back = -1
+    for (let j = i + 1; j < Math.min(heartrate.length, i + HR_DROP_MAX_SECONDS + 1); j++) {
+      if (heartrate[j] >= before - HR_DROP_BPM / 2) {
+        back = j
+        break
+      }
+    }
+    if (back < 0) continue
+    interpolate(heartrate, i, back - 1)
+    flags.push({ issue: 'hr_dropout', stream: 'heartrate', start: i, end: back - 1, action: 'interpolated', value: null })
+    i = back
+  }
+
+  return flags
+}
+
+function detectStuckValues(values: number[], stream: QualityStream): DataQualityFlag[] {
+  const flags: DataQualityFlag[] = []
+  let start = 0
+  for (let i = 1; i <= values.length; i++) {
+    if (i < values.length && values[i] === values[start]) continue
+    if (values[start] > 0 && i - start >= STUCK_SECONDS[stream]) {
+      flags.push({
+        issue: 'stuck_value',
+        stream,
+        start,
+        end: i - 1,
+        // Stuck power would inflate long power bests, other streams are only reported
+        action: stream === 'watts' ? 'masked' : 'flagged',
+        value: values[start],
+      })
+    }
+    start = i
+  }
+  return flags
+}
+
+function detectCadenceMismatch(watts: number[], cadence: number[]): DataQualityFlag[] {
+  // Without any pedaling in the cadence stream there is no sensor to disagree with
+  if (!cadence.some(c => c > 0)) return []
+  const length = Math.min(watts.length, cadence.length)
+  return findRuns(length, i => watts[i] >= MISMATCH_MIN_WATTS && cadence[i] === 0)
+    .filter(([start, end]) => end - start + 1 >= MISMATCH_MIN_SECONDS)
+    .map(([start, end]) => {
+      let sum = 0
+      for (let i = start; i <= end; i++) sum += watts[i]
+      return {
+        issue: 'cadence_power_mismatch' as const,
+        stream: 'watts' as const,
+        start,
+        end,
+        action: 'masked' as const,
+        value: Math.round(sum / (end - start + 1)),
+      }
+    })
+}
+
+function detectPauses(streams: QualityStreams): DataQualityFlag[] {
+  // Needs speed to tell standing still from coasting
+  const speed = streams.velocity_smooth
+  if (!speed) return []
+  const stopped = (i: number) =>
+    speed[i] === 0 && !streams.watts?.[i] && !streams.cadence?.[i]
+  return findRuns(speed.length, stopped)
+    .filter(([start, end]) => end - start + 1 >= PAUSE_MIN_SECONDS)
+    .map(([start, end]) => ({ issue: 'zero_filled_pause' as const, stream: null, start, end, action: 'flagged' as const, value: null }))
+}
+
+/**
+ * Detect and repair bad samples. The input is not modified.
+ */
+export function cleanStreams<T extends QualityStreams>(streams: T): CleanedStreams<T> {
+  const cleaned: T = { ...streams }
+  const flags: DataQualityFlag[] = []
+
+  if (streams.watts?.length) {
+    const watts = [...streams.watts]
+    flags.push(...cleanPowerSpikes(watts), ...detectStuckValues(watts, 'watts'))
+    if (streams.cadence?.length) flags.push(...detectCadenceMismatch(watts, streams.cadence))
+    cleaned.watts = watts
+  }
+  if (streams.heartrate?.length) {
+    const heartrate = [...streams.heartrate]
+    flags.push(...cleanHeartRateDropouts(heartrate), ...detectStuckValues(heartrate, 'heartrate'))
+    cleaned.heartrate = heartrate
+  }
+  if (streams.cadence?.length) {
+    flags.push(...detectStuckValues(streams.cadence, 'cadence'))
+  }
+  flags.push(...detectPauses(cleaned))
+
+  flags.sort((a, b) => a.start - b.start)
+  return { streams: cleaned, flags }
+}
+
+/**
+ * Samples to leave out of power bests: every flagged power sample and the
+ * ranges the athlete excluded. true = excluded.
+ */
+export function bestsExclusionMask(
+  length: number,
+  flags: DataQualityFlag[] | null | undefined,
+  excludedRanges: ExcludedRange[] | null | undefined = []
+): boolean[] {
+  const mask = new Array<boolean>(length).fill(false)
+  const ranges = [
+    ...(flags ?? []).filter(f => f.stream === 'watts'),
+    ...(excludedRanges ?? []),
+  ]
+  for (const { start, end } of ranges) {
+    for (let i = Math.max(0, start); i <= Math.min(end, length - 1); i++) mask[i] = true
+  }
+  return mask
+}
+
+/**
+ * Drop the samples of zero-filled pauses, e.g. before normalized power
+ */
+export function withoutPauses(values: number[], flags: DataQualityFlag[]): number[] {
+  const pauses = flags.filter(f => f.issue === 'zero_filled_pause')
+  if (pauses.length === 0) return values
+  return values.filter((_, i) => !pauses.some(p => i >= p.start && i <= p.end))
+}
+
+export function summarizeDataQuality(flags: DataQualityFlag[]): DataQualitySummary {
+  const summary: DataQualitySummary = { issues: {}, interpolatedSeconds: 0, maskedSeconds: 0, pausedSeconds: 0 }
+  let lastMasked = -1
+  for (const flag of flags) {
+    const seconds = flag.end - flag.start + 1
+    summary.issues[flag.issue] = (summary.issues[flag.issue] ?? 0) + 1
+    if (flag.action === 'interpolated') summary.interpolatedSeconds += seconds
+    if (flag.issue === 'zero_filled_pause') summary.pausedSeconds += seconds
+    if (flag.stream === 'watts') {
+      // Flags are sorted by start; count overlapping power flags once
+      const from = Math.max(flag.start, lastMasked + 1)
+      if (flag.end >= from) summary.maskedSeconds += flag.end - from + 1
+      lastMasked = Math.max(lastMasked, flag.end)
+    }
+  }
+  return summary
+}
@@ -0,0 +1,104 @@
+/**
+ * W′ Balance (Skiba)
+ *
+ * Per-second W′bal using the differential form of Skiba's model
+ * (Skiba et al. 2015): above CP W′ is spent at (P - CP) J/s, below CP it
+ * recovers towards full at a rate proportional to (CP - P) / W′.
+ */
+
+export interface CriticalPowerParams {
+  cp: number // W
+  wPrime: number // J
+}
+
+export interface WPrimeBalanceSummary {
+  cp: number
+  wPrime: number
+  /** Lowest W′bal reached (J) */
+  minBalance: number
+  minBalancePercent: number
+  /** Seconds into the session when the minimum was reached */
+  minBalanceAt: number
+  /** Efforts that took W′bal below 10% before recovering above 25% */
+  nearEmptyMatches: number
+  secondsBelow25Percent: number
+  /** Total W′ expended above CP over the session (kJ) */
+  totalExpendedKj: number
+}
+
+// A match is "near-empty" below this fraction of W′; it must recover above
+// the re-arm fraction before another one is counted
+const NEAR_EMPTY_FRACTION = 0.1
+const REARM_FRACTION = 0.25
+const LOW_BALANCE_FRACTION = 0.25
+
+/**
+ * W′bal for each sample of a 1Hz power stream (J)
+ */
+export function calculateWPrimeBalance(
+  watts: number[],
+  { cp, wPrime }: CriticalPowerParams
+): number[] {
+  const balance: number[] = new Array(watts.length)
+  let current = wPrime
+
+  for (let i = 0; i < watts.length; i++) {
+    const power = watts[i] || 0
+    if (power > cp) {
+      current -= power - cp
+    } else {
+      current += ((wPrime - current) * (cp - power)) / wPrime
+    }
+    balance[i] = current
+  }
+
+  return balance
+}
+
+/**
+ * Depletion statistics for a W′bal series
+ */
+export function summarizeWPrimeBalance(
+  balance: number[],
+  watts: number[],
+  { cp, wPrime }: CriticalPowerParams
+): WPrimeBalanceSummary | null {
+  if (balance.length === 0 || wPrime <= 0) return null
+
+  let minBalance = wPrime
+  let minBalanceAt = 0
+  let nearEmptyMatches = 0
+  let secondsBelow25Percent = 0
+  let armed = true
+  let expended = 0
+
+  for (let i = 0; i < balance.length; i++) {
+    const value = balance[i]
+    if (value < minBalance) {
+      minBalance = value
+      minBalanceAt = i
+    }
+    if (value < wPrime * LOW_BALANCE_FRACTION) secondsBelow25Percent++
+
+    if (armed && value < wPrime * NEAR_EMPTY_FRACTION) {
+      nearEmptyMatches++
+      armed = false
+    } else if (!armed && value > wPrime * REARM_FRACTION) {
+      armed = true
+    }
+
+    const power = watts[i] || 0
+    if (power > cp) expended += power - cp
+  }
+
+  return {
+    cp: Math.round(cp),
+    wPrime: Math.round(wPrime),
+    minBalance: Math.round(minBalance),
+    minBalancePercent: Math.round((minBalance / wPrime) * 1000) / 10,
+    minBalanceAt,
+    nearEmptyMatches,
+    secondsBelow25Percent,
+    totalExpendedKj: Math.round(expended / 100) / 10,
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Zone Models
+ *
+ * Named training zones for power, heart rate and running pace, and
+ * time-in-zone computed from per-second streams.
+ *
+ * A model lists its zones by lower bound; each zone ends where the next one
+ * starts and the last zone is open-ended. Bounds are either a percentage of
+ * a threshold (FTP, LTHR, threshold pace) or absolute values (W or bpm,
+ * e.g. HR zones from a lab test). Pace zones are always relative to the
+ * threshold pace, as a percentage of threshold speed.
+ */
+
+import { calculateGradeAdjustedSpeed } from './running'
+
+export type ZoneMetric = 'power' | 'hr' | 'pace'
+
+export type ZoneBasis = 'threshold' | 'absolute'
+
+export interface ZoneDefinition {
+  name: string
+  /** Lower bound: % of threshold (or % of threshold speed for pace), or W / bpm for absolute models */
+  min: number
+  /** Hex color used in zone bars */
+  color?: string
+}
+
+export interface ZoneModelDefinition {
+  metric: ZoneMetric
+  name: string
+  basis: ZoneBasis
+  /**
+   * Threshold the percentages refer to. Power: W (defaults to the athlete's FTP,
+   * or running FTP for runs), HR: bpm (defaults to LTHR), pace: seconds per km
+   * (required when saved; the athlete's threshold pace stands in otherwise).
+   */
+  threshold?: number | null
+  zones: ZoneDefinition[]
+}
+
+export interface ZoneTime {
+  /** Z1, Z2, ... */
+  zone: string
+  name: string
+  seconds: number
+  minutes: number
+  percent: number
+  color: string
+}
+
+export interface AthleteThresholds {
+  ftp?: number | null
+  lthr?: number | null
+  /** Running power threshold in W; power zones of runs refer to it */
+  runningFtp?: number | null
+  /** Threshold pace in s/km, used by pace models without their own threshold */
+  thresholdPace?: number | null
+}
+
+const SEVEN_ZONE_COLORS = ['#9ca3af', '#60a5fa', '#4ade80', '#facc15', '#fb923c', '#ef4444', '#b91c1c']
+const THREE_ZONE_COLORS = ['#60a5fa', '#facc15', '#ef4444']
+
+export const ZONE_MODEL_PRESETS: Record<string, ZoneModelDefinition> = {
+  coggan_power: {
+    metric: 'power',
+    name: 'Coggan 7-zone',
+    basis: 'threshold',
+    zones: [
+      { name: 'Active Recovery', min: 0 },
+      { name: 'Endurance', min: 55 },
+      { name: 'Tempo', min: 75 },
+      { name: 'Threshold', min: 90 },
+      { name: 'VO2max', min: 105 },
+      { name: 'Anaerobic', min: 120 },
+      { name: 'Neuromuscular', min: 150 },
+    ],
+  },
+  seiler_power: {
+    metric: 'power',
+    name: 'Seiler 3-zone',
+    basis: 'threshold',
+    zones: [
+      { name: 'Low', min: 0 },
+      { name: 'Moderate', min: 75 },
+      { name: 'High', min: 105 },
+    ],
+  },
+  friel_hr: {
+    metric: 'hr',
+    name: 'Friel 5-zone',
+    basis: 'threshold',
+    zones: [
+      { name: 'Recovery', min: 0 },
+      { name: 'Aerobic', min: 81 },
+      { name: 'Tempo', min: 89 },
+      { name: 'Threshold', min: 93 },
+      { name: 'VO2max', min: 99 },
+    ],
+  },
+  seiler_hr: {
+    metric: 'hr',
+    name: 'Seiler 3-zone',
+    basis: 'threshold',
+    zones: [
+      { name: 'Low', min: 0 },
+      { name: 'Moderate', min: 89 },
+      { name: 'High', min: 99 },
+    ],
+  },
+  threshold_pace: {
+    metric: 'pace',
+    name: 'Threshold pace 5-zone',
+    basis: 'threshold',
+    zones: [
+      { name: 'Recovery', min: 0 },
+      { name: 'Aerobic', min: 78 },
+      { name: 'Tempo', min: 88 },
+      { name: 'Threshold', min: 94 },
+      { name: 'VO2max', min: 99 },
+    ],
+  },
+}
+
+const DEFAULT_PRESETS: Record<ZoneMetric, string> = {
+  power: 'coggan_power',
+  hr: 'friel_hr',
+  pace: 'threshold_pace',
+}
+
+/**
+ * The model used when the athlete hasn't chosen one
+ */
+export function defaultZoneModel(metric: ZoneMetric): ZoneModelDefinition {
+  return ZONE_MODEL_PRESETS[DEFAULT_PRESETS[metric]]
+}
+
+/**
+ * Color for a zone without an explicit one, spread over the 7-zone palette
+ */
+export function zoneColor(index: number, count: number): string {
+  if (count === 3) return THREE_ZONE_COLORS[index]
+  if (count <= 1) return SEVEN_ZONE_COLORS[1]
+  const position = Math.round(index * (SEVEN_ZONE_COLORS.length - 1) / (count - 1))
+  return SEVEN_ZONE_COLORS[Math.min(position, SEVEN_ZONE_COLORS.length - 1)]
+}
+
+/**
+ * Check a model definition, returning an error message or null if valid
+ */
+export function validateZoneModel(model: ZoneModelDefinition): string | null {
+  if (!model.name?.trim()) return 'Zone model needs a name'
+  if (!['power', 'hr', 'pace'].includes(model.metric)) return `Unknown zone metric: ${model.metric}`
+  if (model.basis !== 'threshold' && model.basis !== 'absolute') return `Unknown zone basis: ${model.basis}`
+  if (model.metric === 'pace' && model.basis !== 'threshold') return 'Pace zones must be relative to threshold pace'
+  if (model.metric === 'pace' && !(model.threshold && model.threshold > 0)) return 'Pace zones need a threshold pace'
+  if (model.threshold != null && model.threshold <= 0) return 'Threshold must be positive'
+  if (!Array.isArray(model.zones) || model.zones.length < 2) return 'A zone model needs at least 2 zones'
+  if (model.zones.length > 10) return 'A zone model can have at most 10 zones'
+
+  for (let i = 0; i < model.zones.length; i++) {
+    const zone = model.zones[i]
+    if (!zone.name?.trim()) return `Zone ${i + 1} needs a name`
+    if (!Number.isFinite(zone.min) || zone.min < 0) return `Zone ${i + 1} has an invalid lower bound`
+    if (i === 0 && zone.min !== 0) return 'The first zone must start at 0'
+    if (i > 0 && zone.min <= model.zones[i - 1].min) return `Zone ${i + 1} must start above zone ${i}`
+  }
+  return null
+}
+
+/**
+ * Threshold the model's percentages refer to, in stream units (W, bpm, m/s).
+ * Absolute models return 100 so that bound * threshold / 100 = bound.
+ */
+export function resolveZoneThreshold(
+  model: ZoneModelDefinition,
+  athlete: AthleteThresholds,
+  sport?: string
+): number | null {
+  if (model.basis === 'absolute') return 100
+
+  switch (model.metric) {
+    case 'power':
+      // Running power is never compared with cycling FTP
+      if (sport === 'running') return athlete.runningFtp || null
+      return model.threshold || athlete.ftp || null
+    case 'hr':
+      return model.threshold || athlete.lthr || null
+    case 'pace': {
+      // Threshold pace in s/km -> threshold speed in m/s
+      const pace = model.threshold || athlete.thresholdPace
+      return pace ? 1000 / pace : null
+    }
+  }
+}
+
+/**
+ * Lower bounds of each zone in stream units
+ */
+export function zoneBoundaries(model: ZoneModelDefinition, threshold: number): number[] {
+  return model.zones.map(zone => zone.min * threshold / 100)
+}
+
+function zoneIndex(value: number, bounds: number[]): number {
+  let index = 0
+  for (let i = 1; i < bounds.length; i++) {
+    if (value >= bounds[i]) index = i
+    else break
+  }
+  return index
+}
+
+function toZoneTimes(model: ZoneModelDefinition, seconds: number[]): ZoneTime[] {
+  const total = seconds.reduce((a, b) => a + b, 0)
+  return model.zones.map((zone, i) => ({
+    zone: `Z${i + 1}`,
+    name: zone.name,
+    seconds: seconds[i],
+    minutes: Math.round(seconds[i] / 60),
+    percent: total > 0 ? Math.round(seconds[i] / total * 1000) / 10 : 0,
+    color: zone.color || zoneColor(i, model.zones.length),
+  }))
+}
+
+/**
+ * Time in each zone from a 1 Hz stream (watts, heartrate or velocity_smooth).
+ *
+ * Zero power counts as Z1 (coasting is part of the ride); zero HR or speed
+ * samples are dropouts/stops and are left out. Returns null if the
+ * threshold is unknown or the stream is empty.
+ */
+export function calculateTimeInZones(
+  stream: (number | null)[] | undefined,
+  model: ZoneModelDefinition,
+  threshold: number | null
+): ZoneTime[] | null {
+  if (!stream || stream.length === 0 || !threshold || threshold <= 0) return null
+
+  const bounds = zoneBoundaries(model, threshold)
+  const seconds = new Array<number>(model.zones.length).fill(0)
+  const includeZeros = model.metric === 'power'
+  let counted = 0
+
+  for (const value of stream) {
+    if (value == null || !Number.isFinite(value)) continue
+    if (value <= 0 && !includeZeros) continue
+    seconds[zoneIndex(Math.max(0, value), bounds)]++
+    counted++
+  }
+
+  return counted > 0 ? toZoneTimes(model, seconds) : null
+}
+
+/**
+ * Sum zone times from several sessions computed with the same model
+ */
+export function sumZoneTimes(model: ZoneModelDefinition, sessions: ZoneTime[][]): ZoneTime[] | null {
+  if (sessions.length === 0) return null
+  const seconds = new Array<number>(model.zones.length).fill(0)
+  for (const times of sessions) {
+    times.forEach((time, i) => {
+      if (i < seconds.length) seconds[i] += time.seconds
+    })
+  }
+  return toZoneTimes(model, seconds)
+}
+
+/**
+ * Human-readable range of a zone, e.g. "75-90% FTP", ">150% FTP", "<140 bpm"
+ */
+export function describeZoneRange(model: ZoneModelDefinition, index: number): string {
+  const unit = model.basis === 'absolute'
+    ? (model.metric === 'power' ? 'W' : 'bpm')
+    : { power: '% FTP', hr: '% LTHR', pace: '% threshold speed' }[model.metric]
+  const separator = model.basis === 'absolute' ? ' ' : ''
+  const lower = model.zones[index].min
+  const upper = model.zones[index + 1]?.min
+
+  if (index === 0) return `<${upper}${separator}${unit}`
+  if (upper === undefined) return `>${lower}${separator}${unit}`
+  return `${lower}-${upper}${separator}${unit}`
+}
+
+/**
+ * Format seconds per km as m:ss
+ */
+export function formatPace(secondsPerKm: number): string {
+  const minutes = Math.floor(secondsPerKm / 60)
+  const seconds = Math.round(secondsPerKm % 60)
+  return seconds === 60 ? `${minutes + 1}:00` : `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+/**
+ * Parse "m:ss" (or plain seconds) into seconds per km
+ */
+export function parsePace(value: string): number | null {
+  const match = value.trim().match(/^(\d+):([0-5]\d)$/)
+  if (match) return Number(match[1]) * 60 + Number(match[2])
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null
+}
+
+/** Streams time-in-zone is computed from */
+export interface ZoneStreams {
+  watts?: number[]
+  heartrate?: number[]
+  velocity_smooth?: number[]
+  distance?: number[]
+  altitude?: number[]
+}
+
+export interface ZoneDistribution {
+  model: string
+  zones: ZoneTime[]
+}
+
+/** Time in zones per metric for one session (or a set of sessions) */
+export interface SessionZoneDistribution {
+  power?: ZoneDistribution
+  hr?: ZoneDistribution
+  pace?: ZoneDistribution
+}
+
+/**
+ * Time in zones for every metric the streams and thresholds allow.
+ * Pace zones only apply to runs, and runs use running FTP for power zones.
+ */
+export function calculateZoneDistribution(
+  streams: ZoneStreams,
+  models: Record<ZoneMetric, ZoneModelDefinition>,
+  athlete: AthleteThresholds,
+  sport?: string
+): SessionZoneDistribution {
+  const sources: Record<ZoneMetric, number[] | undefined> = {
+    power: streams.watts,
+    hr: streams.heartrate,
+    // Grade-adjusted when the run has distance and altitude
+    pace: sport === 'running' && streams.velocity_smooth ? calculateGradeAdjustedSpeed(streams) : undefined,
+  }
+
+  const distribution: SessionZoneDistribution = {}
+  for (const metric of ['power', 'hr', 'pace'] as const) {
+    const model = models[metric]
+    const zones = calculateTimeInZones(sources[metric], model, resolveZoneThreshold(model, athlete, sport))
+    if (zones) distribution[metric] = { model: model.name, zones }
+  }
+  return distribution
+}
+
+export interface ZoneSummary {
+  model: string
+  zones: { zone: string; name: string; minutes: number; percent: number }[]
+}
+
+/**
+ * Compact zone distribution for AI context (no colors, minutes and % only)
+ */
+export function summarizeZoneDistribution(
+  distribution: SessionZoneDistribution
+): Partial<Record<ZoneMetric, ZoneSummary>> | undefined {
+  const summary: Partial<Record<ZoneMetric, ZoneSummary>> = {}
+  for (const metric of ['power', 'hr', 'pace'] as const) {
+    const entry = distribution[metric]
+    if (!entry) continue
+    summary[metric] = {
+      model: entry.model,
+      zones: entry.zones.map(({ zone, name, minutes, percent }) => ({ zone, name, minutes, percent })),
+    }
+  }
+  return Object.keys(summary).length > 0 ? summary : undefined
+}
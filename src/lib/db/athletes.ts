@@ -11,6 +11,14 @@ export type AthleteRow = {
   lthr: number | null
   resting_hr: number | null
   weight_kg: number | null
+  threshold_pace: number | null
+  running_ftp: number | null
+  critical_power: number | null
+  w_prime: number | null
+  critical_power_updated_at: string | null
+  ctl_time_constant: number | null
+  atl_time_constant: number | null
+  fitness_source: 'intervals_icu' | 'local' | null
   weekly_hours_available: number | null
   timezone: string | null
   created_at: string
@@ -30,6 +38,14 @@ function rowToAthlete(row: AthleteRow): Athlete {
     lthr: row.lthr ?? 165,
     resting_hr: row.resting_hr ?? undefined,
     weight_kg: row.weight_kg ?? 75,
+    threshold_pace: row.threshold_pace ?? null,
+    running_ftp: row.running_ftp ?? null,
+    critical_power: row.critical_power ?? null,
+    w_prime: row.w_prime ?? null,
+    critical_power_updated_at: row.critical_power_updated_at ?? null,
+    ctl_time_constant: row.ctl_time_constant ?? 42,
+    atl_time_constant: row.atl_time_constant ?? 7,
+    fitness_source: row.fitness_source ?? null,
     weekly_hours_available: row.weekly_hours_available ?? 10,
     created_at: row.created_at,
     updated_at: row.updated_at,
@@ -61,6 +77,9 @@ export async function updateAthlete(
   if (updates.ftp !== undefined) {
     updates.ftp_updated_at = new Date().toISOString()
   }
+  if (updates.critical_power !== undefined || updates.w_prime !== undefined) {
+    updates.critical_power_updated_at = new Date().toISOString()
+  }
 
   const { data, error } = await supabase
     .from('athletes')
@@ -0,0 +1,254 @@
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { Session } from '@/types'
+
+export interface Climb {
+  id: string
+  athlete_id: string
+  sport: Session['sport']
+  name: string
+  start_lat: number
+  start_lng: number
+  end_lat: number
+  end_lng: number
+  length_meters: number
+  elevation_gain: number
+  avg_gradient: number
+  created_at: string
+  updated_at: string
+}
+
+export type ClimbInsert = Omit<Climb, 'id' | 'created_at' | 'updated_at'>
+
+export interface ClimbEffort {
+  id: string
+  athlete_id: string
+  session_id: string
+  /** Null when the session had no GPS to match the climb by */
+  climb_id: string | null
+  date: string
+  start_index: number
+  end_index: number
+  length_meters: number
+  elevation_gain: number
+  avg_gradient: number
+  max_gradient: number
+  duration_seconds: number
+  vam: number
+  avg_power: number | null
+  watts_per_kg: number | null
+  avg_hr: number | null
+  created_at: string
+}
+
+export type ClimbEffortInsert = Omit<ClimbEffort, 'id' | 'created_at'>
+
+/** A climb with how often and how fast the athlete has ridden it */
+export interface ClimbSummary extends Climb {
+  effort_count: number
+  best_seconds: number
+  last_date: string
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * All known climbs for an athlete, optionally for one sport
+ */
+export async function getAthleteClimbs(athleteId: string, sport?: Session['sport']): Promise<Climb[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  let query = supabase
+    .from('climbs')
+    .select('*')
+    .eq('athlete_id', athleteId)
+  if (sport) query = query.eq('sport', sport)
+
+  const { data, error } = await query
+  if (error || !data) {
+    if (error) logger.error('[climbs] Error fetching climbs:', error)
+    return []
+  }
+  return data as Climb[]
+}
+
+export async function getClimb(climbId: string, athleteId: string): Promise<Climb | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('climbs')
+    .select('*')
+    .eq('id', climbId)
+    .eq('athlete_id', athleteId)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return data as Climb
+}
+
+export async function createClimb(climb: ClimbInsert): Promise<Climb | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('climbs')
+    .insert(climb)
+    .select()
+    .single()
+
+  if (error || !data) {
+    logger.error('[climbs] Error creating climb:', error)
+    return null
+  }
+  return data as Climb
+}
+
+/**
+ * Climbs found in a session, in the order they were ridden
+ */
+export async function getSessionClimbEfforts(sessionId: string): Promise<ClimbEffort[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('climb_efforts')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('start_index', { ascending: true })
+
+  if (error || !data) return []
+  return data as ClimbEffort[]
+}
+
+/**
+ * Replace the climbs stored for a session (re-analysis after new streams)
+ */
+export async function replaceSessionClimbEfforts(
+  sessionId: string,
+  efforts: ClimbEffortInsert[]
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error: deleteError } = await supabase
+    .from('climb_efforts')
+    .delete()
+    .eq('session_id', sessionId)
+
+  if (deleteError) {
+    logger.error('[climbs] Error clearing session climbs:', deleteError)
+    return false
+  }
+  if (efforts.length === 0) return true
+
+  const { error } = await supabase
+    .from('climb_efforts')
+    .insert(efforts)
+
+  if (error) {
+    logger.error('[climbs] Error saving session climbs:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Every effort on a climb, fastest first
+ */
+export async function getClimbLeaderboard(climbId: string, athleteId: string): Promise<ClimbEffort[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('climb_efforts')
+    .select('*')
+    .eq('climb_id', climbId)
+    .eq('athlete_id', athleteId)
+    .order('duration_seconds', { ascending: true })
+
+  if (error || !data) return []
+  return data as ClimbEffort[]
+}
+
+/**
+ * Known climbs with effort count, best time and last ascent, most ridden first
+ */
+export async function getClimbSummaries(athleteId: string, sport?: Session['sport']): Promise<ClimbSummary[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const climbs = await getAthleteClimbs(athleteId, sport)
+  if (climbs.length === 0) return []
+
+  const efforts: Pick<ClimbEffort, 'climb_id' | 'duration_seconds' | 'date'>[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('climb_efforts')
+      .select('climb_id, duration_seconds, date')
+      .eq('athlete_id', athleteId)
+      .not('climb_id', 'is', null)
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      logger.error('[climbs] Error fetching climb efforts:', error)
+      break
+    }
+    efforts.push(...((data || []) as typeof efforts))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const byClimb = new Map<string, typeof efforts>()
+  for (const effort of efforts) {
+    const list = byClimb.get(effort.climb_id!) ?? []
+    list.push(effort)
+    byClimb.set(effort.climb_id!, list)
+  }
+
+  return climbs
+    .filter(c => byClimb.has(c.id))
+    .map(c => {
+      const list = byClimb.get(c.id)!
+      return {
+        ...c,
+        effort_count: list.length,
+        best_seconds: Math.min(...list.map(e => e.duration_seconds)),
+        last_date: list.reduce((last, e) => (e.date > last ? e.date : last), list[0].date),
+      }
+    })
+    .sort((a, b) => b.effort_count - a.effort_count || b.last_date.localeCompare(a.last_date))
+}
+
+/** A session's climb with where it ranks among the athlete's ascents of it */
+export interface RankedClimbEffort extends ClimbEffort {
+  climb_name: string | null
+  /** 1 = fastest ascent; null for climbs not matched by GPS */
+  rank: number | null
+  effort_count: number
+  best_seconds: number | null
+}
+
+/**
+ * A session's climbs, each ranked on its leaderboard
+ */
+export async function getRankedSessionClimbs(sessionId: string, athleteId: string): Promise<RankedClimbEffort[]> {
+  const efforts = await getSessionClimbEfforts(sessionId)
+  return Promise.all(efforts.map(async effort => {
+    if (!effort.climb_id) {
+      return { ...effort, climb_name: null, rank: null, effort_count: 1, best_seconds: null }
+    }
+    const [climb, leaderboard] = await Promise.all([
+      getClimb(effort.climb_id, athleteId),
+      getClimbLeaderboard(effort.climb_id, athleteId),
+    ])
+    const index = leaderboard.findIndex(e => e.id === effort.id)
+    return {
+      ...effort,
+      climb_name: climb?.name ?? null,
+      rank: index >= 0 ? index + 1 : null,
+      effort_count: leaderboard.length,
+      best_seconds: leaderboard[0]?.duration_seconds ?? null,
+    }
+  }))
+}
@@ -139,7 +139,8 @@ export async function resolveDiscrepancy(
  * Resolve all active discrepancies for an athlete
  */
 export async function resolveAllDiscrepancies(
-  athleteId: string
+  athleteId: string,
+  notes?: string
 ): Promise<boolean> {
   const supabase = await createClient()
   if (!supabase) return false
@@ -149,6 +150,7 @@ export async function resolveAllDiscrepancies(
     .update({
       status: 'resolved',
       resolved_at: new Date().toISOString(),
+      ...(notes ? { notes } : {}),
     })
     .eq('athlete_id', athleteId)
     .eq('status', 'active')
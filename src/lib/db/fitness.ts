@@ -1,5 +1,5 @@
 import { createClient } from '@/lib/supabase/server'
-import type { FitnessHistory, CurrentFitness } from '@/types'
+import type { FitnessHistory, CurrentFitness, SportFitness } from '@/types'
 
 export type FitnessRow = {
   id: string
@@ -17,6 +17,8 @@ export type FitnessRow = {
   readiness: number | null
   // Ramp rate for overtraining detection
   ramp_rate: number | null
+  // 'intervals_icu' (wellness sync), 'local' (local PMC engine) or 'manual'
+  source: string | null
   created_at: string
 }
 
@@ -157,6 +159,33 @@ export async function getFitnessForDate(
   return rowToFitness(data as FitnessRow)
 }
 
+/**
+ * Stored fitness rows from startDate through endDate (inclusive), oldest first,
+ * with the source that wrote each row
+ */
+export async function getFitnessRange(
+  athleteId: string,
+  startDate: string,
+  endDate: string
+): Promise<Array<FitnessHistory & { source: string | null }>> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('fitness_history')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date', { ascending: true })
+
+  if (error || !data) return []
+  return data.map((row) => ({
+    ...rowToFitness(row as FitnessRow),
+    source: (row as FitnessRow).source,
+  }))
+}
+
 /**
  * Get fitness data for a specific date, falling back to the most recent date before it.
  * Prevents null fitness context when exact date row is missing.
@@ -209,6 +238,42 @@ export async function upsertFitness(fitness: {
   return rowToFitness(data as FitnessRow)
 }
 
+/**
+ * Upsert many days of locally calculated CTL/ATL/TSB.
+ * Only the load columns are written, so synced sleep/HRV/readiness values are kept.
+ */
+export async function upsertFitnessBatch(
+  rows: Array<{
+    athlete_id: string
+    date: string
+    ctl: number
+    atl: number
+    tsb: number
+    tss_day: number
+    ramp_rate?: number | null
+    source?: string
+  }>,
+  batchSize: number = 500
+): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  let written = 0
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize)
+    const { error } = await supabase
+      .from('fitness_history')
+      .upsert(batch, { onConflict: 'athlete_id,date' })
+
+    if (error) {
+      throw new Error(`Fitness history upsert failed: ${error.message}`)
+    }
+    written += batch.length
+  }
+
+  return written
+}
+
 /**
  * Get recent wellness data including ramp rate for overtraining detection
  */
@@ -232,3 +297,118 @@ export async function getRecentWellness(
   if (error || !data) return []
   return data.map((row) => rowToFitness(row as FitnessRow))
 }
+
+// ============================================
+// PER-SPORT PMC (fitness_history_by_sport)
+// ============================================
+
+type SportFitnessRow = SportFitness & { id: string; created_at: string }
+
+function rowToSportFitness(row: SportFitnessRow): SportFitness {
+  return {
+    athlete_id: row.athlete_id,
+    date: row.date,
+    sport: row.sport,
+    ctl: Number(row.ctl),
+    atl: Number(row.atl),
+    tsb: Number(row.tsb),
+    tss_day: row.tss_day ?? 0,
+    ramp_rate: row.ramp_rate != null ? Number(row.ramp_rate) : null,
+  }
+}
+
+/**
+ * Per-sport PMC rows from startDate through endDate (inclusive), oldest
+ * first, optionally for one sport
+ */
+export async function getSportFitnessRange(
+  athleteId: string,
+  startDate: string,
+  endDate: string,
+  sport?: SportFitness['sport']
+): Promise<SportFitness[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const rows: SportFitness[] = []
+  for (let from = 0; ; from += 1000) {
+    let query = supabase
+      .from('fitness_history_by_sport')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+    if (sport) query = query.eq('sport', sport)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .order('sport', { ascending: true })
+      .range(from, from + 999)
+
+    if (error || !data) break
+    rows.push(...data.map((row) => rowToSportFitness(row as SportFitnessRow)))
+    if (data.length < 1000) break
+  }
+  return rows
+}
+
+/**
+ * Per-sport PMC for the last N days
+ */
+export async function getSportFitnessHistory(
+  athleteId: string,
+  days: number = 90,
+  sport?: SportFitness['sport']
+): Promise<SportFitness[]> {
+  const startDate = new Date()
+  startDate.setDate(startDate.getDate() - days)
+  return getSportFitnessRange(
+    athleteId,
+    startDate.toISOString().split('T')[0],
+    new Date().toISOString().split('T')[0],
+    sport
+  )
+}
+
+/**
+ * Upsert many days of per-sport CTL/ATL/TSB
+ */
+export async function upsertSportFitnessBatch(
+  rows: SportFitness[],
+  batchSize: number = 500
+): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  let written = 0
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize)
+    const { error } = await supabase
+      .from('fitness_history_by_sport')
+      .upsert(batch, { onConflict: 'athlete_id,date,sport' })
+
+    if (error) {
+      throw new Error(`Sport fitness upsert failed: ${error.message}`)
+    }
+    written += batch.length
+  }
+
+  return written
+}
+
+/**
+ * Remove every per-sport PMC row of an athlete (before a full recompute)
+ */
+export async function deleteSportFitness(athleteId: string): Promise<void> {
+  const supabase = await createClient()
+  if (!supabase) return
+
+  const { error } = await supabase
+    .from('fitness_history_by_sport')
+    .delete()
+    .eq('athlete_id', athleteId)
+
+  if (error) {
+    throw new Error(`Sport fitness delete failed: ${error.message}`)
+  }
+}
@@ -0,0 +1,219 @@
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { FtpEstimate, FtpEstimateMethod } from '@/lib/analysis/eftp'
+
+export interface FtpProposalEvidence {
+  estimates: FtpEstimate[]
+  /** Sessions whose sync/upload triggered the estimate */
+  triggeredBy: string[]
+  windowStart: string
+  windowEnd: string
+}
+
+export interface FtpChangeProposal {
+  id: string
+  athlete_id: string
+  created_at: string
+  current_ftp: number | null
+  proposed_ftp: number
+  method: FtpEstimateMethod
+  effective_date: string
+  evidence: FtpProposalEvidence
+  status: 'pending' | 'accepted' | 'rejected' | 'superseded'
+  resolved_at: string | null
+}
+
+export type FtpProposalInsert = Pick<
+  FtpChangeProposal,
+  'athlete_id' | 'current_ftp' | 'proposed_ftp' | 'method' | 'effective_date' | 'evidence'
+>
+
+export type FtpHistorySource = 'intervals_icu' | 'proposal' | 'manual'
+
+export interface FtpHistoryEntry {
+  id: string
+  athlete_id: string
+  created_at: string
+  ftp: number
+  previous_ftp: number | null
+  effective_date: string
+  source: FtpHistorySource
+  proposal_id: string | null
+}
+
+export type FtpHistoryInsert = Omit<FtpHistoryEntry, 'id' | 'created_at' | 'proposal_id'> & {
+  proposal_id?: string | null
+}
+
+/**
+ * Get the pending FTP change proposal for an athlete (at most one is pending)
+ */
+export async function getPendingFtpProposal(
+  athleteId: string
+): Promise<FtpChangeProposal | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('ftp_change_proposals')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return data as FtpChangeProposal
+}
+
+export async function getFtpProposal(
+  proposalId: string,
+  athleteId: string
+): Promise<FtpChangeProposal | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('ftp_change_proposals')
+    .select('*')
+    .eq('id', proposalId)
+    .eq('athlete_id', athleteId)
+    .single()
+
+  if (error || !data) return null
+  return data as FtpChangeProposal
+}
+
+/**
+ * Proposals the athlete rejected since a given time
+ */
+export async function getRejectedFtpProposals(
+  athleteId: string,
+  since: string
+): Promise<FtpChangeProposal[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('ftp_change_proposals')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .eq('status', 'rejected')
+    .gte('resolved_at', since)
+
+  if (error || !data) return []
+  return data as FtpChangeProposal[]
+}
+
+/**
+ * Insert a new pending proposal, superseding any pending one
+ */
+export async function insertFtpProposal(
+  proposal: FtpProposalInsert
+): Promise<FtpChangeProposal | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  await supabase
+    .from('ftp_change_proposals')
+    .update({ status: 'superseded', resolved_at: new Date().toISOString() })
+    .eq('athlete_id', proposal.athlete_id)
+    .eq('status', 'pending')
+
+  const { data, error } = await supabase
+    .from('ftp_change_proposals')
+    .insert(proposal)
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[FtpProposals] Insert error:', error)
+    return null
+  }
+  return data as FtpChangeProposal
+}
+
+/**
+ * Mark a pending proposal accepted or rejected
+ */
+export async function resolveFtpProposal(
+  proposalId: string,
+  athleteId: string,
+  status: 'accepted' | 'rejected'
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('ftp_change_proposals')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq('id', proposalId)
+    .eq('athlete_id', athleteId)
+    .eq('status', 'pending')
+
+  return !error
+}
+
+/**
+ * FTP history for an athlete, newest first
+ */
+export async function getFtpHistory(
+  athleteId: string,
+  limit: number = 50
+): Promise<FtpHistoryEntry[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('ftp_history')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error || !data) return []
+  return data as FtpHistoryEntry[]
+}
+
+/**
+ * Most recent history entry from a given source
+ */
+export async function getLatestFtpHistory(
+  athleteId: string,
+  source: FtpHistorySource
+): Promise<FtpHistoryEntry | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('ftp_history')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .eq('source', source)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return data as FtpHistoryEntry
+}
+
+export async function insertFtpHistory(
+  entry: FtpHistoryInsert
+): Promise<FtpHistoryEntry | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('ftp_history')
+    .insert(entry)
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[FtpHistory] Insert error:', error)
+    return null
+  }
+  return data as FtpHistoryEntry
+}
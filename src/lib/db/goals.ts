@@ -168,6 +168,7 @@ export const GOAL_TYPES = {
   hr_at_power: { name: 'HR Efficiency at Power', unit: 'bpm', targetType: 'metric', metricType: 'hr_at_power' },
   power_duration: { name: 'Hold Power for Duration', unit: 'watts', targetType: 'metric', metricType: 'power_duration' },
   relative_power: { name: 'W/kg Target', unit: 'w/kg', targetType: 'metric', metricType: 'relative_power' },
+  durability: { name: 'Power When Fatigued', unit: 'watts', targetType: 'metric', metricType: 'durability' },
 } as const
 
 /**
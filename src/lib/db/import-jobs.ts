@@ -0,0 +1,106 @@
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+
+export type ImportJobStatus = 'pending' | 'running' | 'rebuilding' | 'completed' | 'failed'
+
+export interface ImportJob {
+  id: string
+  athlete_id: string
+  file_name: string
+  status: ImportJobStatus
+  total_files: number
+  processed_files: number
+  imported: number
+  duplicates: number
+  failed: number
+  oldest_date: string | null
+  newest_date: string | null
+  errors: string[]
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ImportJobUpdate = Partial<Omit<ImportJob, 'id' | 'athlete_id' | 'file_name' | 'created_at' | 'updated_at'>>
+
+/**
+ * Create a pending import job
+ */
+export async function createImportJob(
+  athleteId: string,
+  fileName: string
+): Promise<ImportJob | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .insert({ athlete_id: athleteId, file_name: fileName, status: 'pending' })
+    .select()
+    .single()
+
+  if (error || !data) {
+    logger.error('[ImportJobs] Error creating import job:', error)
+    return null
+  }
+  return data as ImportJob
+}
+
+/**
+ * Update progress or status of an import job
+ */
+export async function updateImportJob(
+  jobId: string,
+  update: ImportJobUpdate
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('import_jobs')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  if (error) {
+    logger.error('[ImportJobs] Error updating import job:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Get an import job by ID
+ */
+export async function getImportJob(jobId: string): Promise<ImportJob | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error || !data) return null
+  return data as ImportJob
+}
+
+/**
+ * Get the most recent import job for an athlete
+ */
+export async function getLatestImportJob(athleteId: string): Promise<ImportJob | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return data as ImportJob
+}
@@ -9,3 +9,5 @@ export * from './integrations'
 export * from './training-plans'
 export * from './power-bests'
 export * from './fitness-discrepancies'
+export * from './ftp-proposals'
+export * from './zone-models'
@@ -0,0 +1,219 @@
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { customTemplateId, normalizePlanTemplate } from '@/lib/plans/custom-templates'
+import type { PlanGoal, PlanTemplate } from '@/lib/plans/templates'
+import type { WorkoutSport } from '@/lib/workouts/library'
+
+export interface PlanTemplateRow {
+  id: string
+  athlete_id: string
+  created_at: string
+  updated_at: string
+  name: string
+  sport: WorkoutSport
+  goal: PlanGoal
+  /** PlanTemplate without id; name, sport and goal mirror the columns */
+  template: Omit<PlanTemplate, 'id' | 'isCustom'>
+}
+
+export interface PlanTemplateShare {
+  template_id: string
+  owner_id: string
+  /** Lowercase; whoever has an athlete account with this email sees the template */
+  athlete_email: string
+  created_at: string
+}
+
+export type PlanTemplateInsert = Pick<PlanTemplateRow, 'athlete_id' | 'template'>
+
+/**
+ * Row as a PlanTemplate the generator can use, with a custom_ id
+ */
+export function rowToPlanTemplate(row: PlanTemplateRow): PlanTemplate {
+  return {
+    ...normalizePlanTemplate(row.template),
+    id: customTemplateId(row.id),
+    name: row.name,
+    isCustom: true,
+  }
+}
+
+function columns(template: PlanTemplateRow['template']) {
+  return {
+    name: template.name,
+    sport: template.sport ?? 'cycling',
+    goal: template.goal,
+    template,
+  }
+}
+
+/**
+ * Templates the athlete created, plus those shared with them
+ */
+export async function getPlanTemplates(athleteId: string): Promise<{
+  own: PlanTemplateRow[]
+  shared: PlanTemplateRow[]
+}> {
+  const supabase = await createClient()
+  if (!supabase) return { own: [], shared: [] }
+
+  const [ownResult, sharesResult] = await Promise.all([
+    supabase
+      .from('plan_templates')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .order('created_at'),
+    // Shares visible to the athlete are their own and those matching their email
+    supabase
+      .from('plan_template_shares')
+      .select('template_id')
+      .neq('owner_id', athleteId),
+  ])
+
+  const own = (ownResult.data ?? []) as PlanTemplateRow[]
+  const sharedIds = ((sharesResult.data ?? []) as Pick<PlanTemplateShare, 'template_id'>[]).map(s => s.template_id)
+  if (sharedIds.length === 0) return { own, shared: [] }
+
+  const { data, error } = await supabase
+    .from('plan_templates')
+    .select('*')
+    .in('id', sharedIds)
+    .order('created_at')
+
+  if (error) {
+    logger.error('[PlanTemplates] Shared fetch error:', error)
+    return { own, shared: [] }
+  }
+  return { own, shared: (data ?? []) as PlanTemplateRow[] }
+}
+
+/**
+ * Own and shared templates as PlanTemplates for the plan generator
+ */
+export async function getCustomPlanTemplates(athleteId: string): Promise<PlanTemplate[]> {
+  const { own, shared } = await getPlanTemplates(athleteId)
+  return [...own, ...shared].map(rowToPlanTemplate)
+}
+
+export async function createPlanTemplate(insert: PlanTemplateInsert): Promise<PlanTemplateRow | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('plan_templates')
+    .insert({ athlete_id: insert.athlete_id, ...columns(insert.template) })
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[PlanTemplates] Insert error:', error)
+    return null
+  }
+  return data as PlanTemplateRow
+}
+
+export async function updatePlanTemplate(
+  templateId: string,
+  athleteId: string,
+  template: PlanTemplateRow['template']
+): Promise<PlanTemplateRow | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('plan_templates')
+    .update({ ...columns(template), updated_at: new Date().toISOString() })
+    .eq('id', templateId)
+    .eq('athlete_id', athleteId)
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[PlanTemplates] Update error:', error)
+    return null
+  }
+  return data as PlanTemplateRow
+}
+
+export async function deletePlanTemplate(templateId: string, athleteId: string): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('plan_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('athlete_id', athleteId)
+
+  if (error) {
+    logger.error('[PlanTemplates] Delete error:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Everyone the owner has shared templates with
+ */
+export async function getPlanTemplateShares(ownerId: string): Promise<PlanTemplateShare[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('plan_template_shares')
+    .select('*')
+    .eq('owner_id', ownerId)
+    .order('created_at')
+
+  if (error || !data) return []
+  return data as PlanTemplateShare[]
+}
+
+/**
+ * Share a template with an email address. The athlete with that email sees
+ * it, now or once they sign up; nothing tells the owner whether they exist.
+ */
+export async function sharePlanTemplate(templateId: string, email: string): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase.rpc('share_plan_template', {
+    p_template_id: templateId,
+    p_email: email,
+  })
+
+  if (error) {
+    logger.error('[PlanTemplates] Share error:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Remove a share; owners revoke an email, and recipients (no email) leave
+ */
+export async function unsharePlanTemplate(
+  templateId: string,
+  athleteId: string,
+  email?: string
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  let query = supabase
+    .from('plan_template_shares')
+    .delete()
+    .eq('template_id', templateId)
+  // Recipients only see their own share of someone else's template
+  query = email
+    ? query.eq('owner_id', athleteId).eq('athlete_email', email.trim().toLowerCase())
+    : query.neq('owner_id', athleteId)
+
+  const { error } = await query
+
+  if (error) {
+    logger.error('[PlanTemplates] Unshare error:', error)
+    return false
+  }
+  return true
+}
@@ -166,6 +166,80 @@ export async function updatePowerBestsFromSession(
   return newBests
 }
 
+// Get the best power per duration among bests recorded in a date range
+// (includes superseded records, so earlier seasons can still be analyzed)
+export async function getPowerBestsInRange(
+  athleteId: string,
+  startDate: string,
+  endDate: string
+): Promise<PowerBest[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('power_bests')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .gte('recorded_date', startDate)
+    .lte('recorded_date', endDate)
+    .order('duration_seconds', { ascending: true })
+
+  if (error || !data) return []
+
+  const byDuration = new Map<number, PowerBest>()
+  for (const row of data as PowerBestRow[]) {
+    const existing = byDuration.get(row.duration_seconds)
+    if (!existing || row.power_watts > existing.power_watts) {
+      byDuration.set(row.duration_seconds, rowToPowerBest(row))
+    }
+  }
+  return Array.from(byDuration.values())
+}
+
+// Delete the power bests a session set. Returns the durations whose current
+// best was removed, so the next best can be restored with restoreCurrentBests.
+export async function removeSessionPowerBests(
+  athleteId: string,
+  sessionId: string
+): Promise<number[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('power_bests')
+    .delete()
+    .eq('athlete_id', athleteId)
+    .eq('session_id', sessionId)
+    .select('duration_seconds, is_current_best')
+
+  if (error || !data) return []
+  return data.filter(row => row.is_current_best).map(row => row.duration_seconds as number)
+}
+
+// Mark the highest remaining record for each duration as the current best
+export async function restoreCurrentBests(athleteId: string, durations: number[]): Promise<void> {
+  const supabase = await createClient()
+  if (!supabase) return
+
+  for (const duration of durations) {
+    const { data } = await supabase
+      .from('power_bests')
+      .select('id')
+      .eq('athlete_id', athleteId)
+      .eq('duration_seconds', duration)
+      .order('power_watts', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (data?.id) {
+      await supabase
+        .from('power_bests')
+        .update({ is_current_best: true })
+        .eq('id', data.id)
+    }
+  }
+}
+
 // Get power curve data formatted for display
 export async function getPowerCurveDisplay(athleteId: string): Promise<{
   duration: number
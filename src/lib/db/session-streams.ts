@@ -0,0 +1,226 @@
+import { gzipSync, gunzipSync } from 'zlib'
+import { createClient } from '@/lib/supabase/server'
+import type { IntervalsStreams } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+
+/** Per-second stream data for a session (same shape as intervals.icu streams) */
+export type SessionStreams = IntervalsStreams
+
+export type StreamType = keyof SessionStreams
+
+export const STREAM_TYPES: StreamType[] = [
+  'time',
+  'watts',
+  'heartrate',
+  'cadence',
+  'velocity_smooth',
+  'altitude',
+  'distance',
+  'latlng',
+]
+
+/** Sessions whose streams bulk jobs load at once, keeping `in` filters to a reasonable URL length */
+export const STREAM_BATCH_SIZE = 50
+
+// Row type matching database schema (stream columns are compressed)
+export type SessionStreamsRow = {
+  session_id: string
+  athlete_id: string
+  source: string
+  sample_count: number
+  stream_types: string[]
+  time: string | null
+  watts: string | null
+  heartrate: string | null
+  cadence: string | null
+  velocity_smooth: string | null
+  altitude: string | null
+  distance: string | null
+  latlng: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Compress a stream array to a base64 gzip string
+ */
+export function encodeStream(values: unknown[]): string {
+  return gzipSync(Buffer.from(JSON.stringify(values))).toString('base64')
+}
+
+/**
+ * Decompress a base64 gzip string back to a stream array
+ */
+export function decodeStream<T = number>(encoded: string): T[] {
+  return JSON.parse(gunzipSync(Buffer.from(encoded, 'base64')).toString()) as T[]
+}
+
+function rowToStreams(row: Partial<SessionStreamsRow>, types: StreamType[]): SessionStreams {
+  const streams: SessionStreams = {}
+  for (const type of types) {
+    const encoded = row[type]
+    if (!encoded) continue
+    try {
+      if (type === 'latlng') {
+        streams.latlng = decodeStream<[number, number]>(encoded)
+      } else {
+        streams[type] = decodeStream<number>(encoded)
+      }
+    } catch (error) {
+      logger.warn(`[session-streams] Failed to decode ${type} stream for ${row.session_id}:`, error)
+    }
+  }
+  return streams
+}
+
+/**
+ * Get locally stored streams for a session.
+ * Returns null if nothing is stored for the session.
+ */
+export async function getStoredStreams(
+  sessionId: string,
+  types: StreamType[] = STREAM_TYPES
+): Promise<SessionStreams | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('session_streams')
+    .select(['session_id', 'stream_types', ...types].join(', '))
+    .eq('session_id', sessionId)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return rowToStreams(data as unknown as Partial<SessionStreamsRow>, types)
+}
+
+/**
+ * Get stored streams for many sessions at once (bulk analytics across history)
+ */
+export async function getStoredStreamsForAthlete(
+  athleteId: string,
+  types: StreamType[] = ['time', 'watts'],
+  options: { sessionIds?: string[] } = {}
+): Promise<Map<string, SessionStreams>> {
+  const result = new Map<string, SessionStreams>()
+  const supabase = await createClient()
+  if (!supabase) return result
+
+  let query = supabase
+    .from('session_streams')
+    .select(['session_id', ...types].join(', '))
+    .eq('athlete_id', athleteId)
+
+  if (options.sessionIds) {
+    query = query.in('session_id', options.sessionIds)
+  }
+
+  const { data, error } = await query
+
+  if (error || !data) {
+    if (error) logger.error('[session-streams] Error fetching streams:', error)
+    return result
+  }
+
+  for (const row of data as unknown as Partial<SessionStreamsRow>[]) {
+    if (row.session_id) {
+      result.set(row.session_id, rowToStreams(row, types))
+    }
+  }
+  return result
+}
+
+/**
+ * Check which of the given sessions already have stored streams
+ */
+export async function getSessionIdsWithStreams(
+  athleteId: string,
+  sessionIds: string[]
+): Promise<Set<string>> {
+  const supabase = await createClient()
+  if (!supabase || sessionIds.length === 0) return new Set()
+
+  const { data } = await supabase
+    .from('session_streams')
+    .select('session_id')
+    .eq('athlete_id', athleteId)
+    .in('session_id', sessionIds)
+
+  return new Set((data || []).map(r => r.session_id as string))
+}
+
+/**
+ * Store (or replace) streams for a session
+ */
+export async function saveSessionStreams(
+  sessionId: string,
+  athleteId: string,
+  streams: SessionStreams,
+  source: string
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const columns: Partial<Record<StreamType, string>> = {}
+  const storedTypes: StreamType[] = []
+  let sampleCount = 0
+
+  for (const type of STREAM_TYPES) {
+    const values = streams[type]
+    if (!values || values.length === 0) continue
+    columns[type] = encodeStream(values)
+    storedTypes.push(type)
+    sampleCount = Math.max(sampleCount, values.length)
+  }
+
+  if (storedTypes.length === 0) return false
+
+  const { error } = await supabase
+    .from('session_streams')
+    .upsert({
+      session_id: sessionId,
+      athlete_id: athleteId,
+      source,
+      sample_count: sampleCount,
+      stream_types: storedTypes,
+      ...columns,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'session_id',
+    })
+
+  if (error) {
+    logger.error('[session-streams] Error saving streams:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Replace some streams of an already stored session, leaving the others as they are
+ */
+export async function updateStoredStreams(
+  sessionId: string,
+  streams: SessionStreams
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const columns: Partial<Record<StreamType, string>> = {}
+  for (const type of STREAM_TYPES) {
+    const values = streams[type]
+    if (values && values.length > 0) columns[type] = encodeStream(values)
+  }
+  if (Object.keys(columns).length === 0) return false
+
+  const { error } = await supabase
+    .from('session_streams')
+    .update({ ...columns, updated_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+
+  if (error) {
+    logger.error('[session-streams] Error updating streams:', error)
+    return false
+  }
+  return true
+}
@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
-import type { Session, PowerZones, HRZones } from '@/types'
+import type { DurabilityPoint, RunningBest, Session, PowerZones, HRZones } from '@/types'
 import { logger } from '@/lib/logger'
 
 // Zod schema for validating DB rows
@@ -21,6 +21,32 @@ const hrZonesSchema = z.object({
   z5: z.number(),
 })
 
+const durabilityPointSchema = z.object({
+  after_kj: z.number(),
+  best_5min: z.number().nullable(),
+  best_20min: z.number().nullable(),
+})
+
+const dataQualityFlagSchema = z.object({
+  issue: z.enum(['power_spike', 'hr_dropout', 'stuck_value', 'cadence_power_mismatch', 'zero_filled_pause']),
+  stream: z.enum(['watts', 'heartrate', 'cadence']).nullable(),
+  start: z.number(),
+  end: z.number(),
+  action: z.enum(['interpolated', 'masked', 'flagged']),
+  value: z.number().nullable(),
+})
+
+const runningBestSchema = z.object({
+  distance_meters: z.number(),
+  seconds: z.number(),
+  start_index: z.number(),
+})
+
+const excludedRangeSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+})
+
 const sessionRowSchema = z.object({
   id: z.string(),
   athlete_id: z.string(),
@@ -34,8 +60,17 @@ const sessionRowSchema = z.object({
   normalized_power: z.number().nullable(),
   intensity_factor: z.number().nullable(),
   tss: z.number().nullable(),
+  tss_method: z.enum(['power', 'pace', 'hr', 'trimp', 'rpe', 'external']).nullable().optional(),
+  rpe: z.number().nullable().optional(),
   avg_hr: z.number().nullable(),
   max_hr: z.number().nullable(),
+  efficiency_factor: z.number().nullable().optional(),
+  decoupling: z.number().nullable().optional(),
+  durability: z.array(durabilityPointSchema).nullable().optional(),
+  running_bests: z.array(runningBestSchema).nullable().optional(),
+  data_quality: z.array(dataQualityFlagSchema).nullable().optional(),
+  exclude_from_bests: z.boolean().nullable().optional(),
+  excluded_ranges: z.array(excludedRangeSchema).nullable().optional(),
   avg_cadence: z.number().nullable(),
   total_ascent: z.number().nullable(),
   power_zones: powerZonesSchema.nullable(),
@@ -88,8 +123,17 @@ function rowToSession(row: SessionRow): Session {
     normalized_power: row.normalized_power ?? undefined,
     intensity_factor: row.intensity_factor ?? undefined,
     tss: row.tss ?? undefined,
+    tss_method: row.tss_method ?? undefined,
+    rpe: row.rpe ?? undefined,
     avg_hr: row.avg_hr ?? undefined,
     max_hr: row.max_hr ?? undefined,
+    efficiency_factor: row.efficiency_factor ?? undefined,
+    decoupling: row.decoupling ?? undefined,
+    durability: row.durability ?? undefined,
+    running_bests: row.running_bests ?? undefined,
+    data_quality: row.data_quality ?? undefined,
+    exclude_from_bests: row.exclude_from_bests ?? undefined,
+    excluded_ranges: row.excluded_ranges ?? undefined,
     power_zones: row.power_zones ?? undefined,
     hr_zones: row.hr_zones ?? undefined,
     ai_summary: row.ai_summary ?? undefined,
@@ -183,3 +227,130 @@ export async function createSession(session: SessionInsert): Promise<Session | n
   if (error || !data) return null
   return rowToSession(data as SessionRow)
 }
+
+export type SessionUpdate = Partial<Pick<
+  SessionRow,
+  'date' | 'sport' | 'workout_type' | 'tss' | 'tss_method' | 'rpe' | 'notes' | 'exclude_from_bests' | 'excluded_ranges'
+>>
+
+/**
+ * Update an athlete's session. Returns null if it doesn't exist or isn't theirs.
+ */
+export async function updateSession(
+  sessionId: string,
+  athleteId: string,
+  updates: SessionUpdate
+): Promise<Session | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('athlete_id', athleteId)
+    .select()
+    .single()
+
+  if (error || !data) return null
+
+  const validatedRow = parseSessionRow(data)
+  if (!validatedRow) return null
+
+  return rowToSession(validatedRow)
+}
+
+/**
+ * Delete an athlete's session (streams and reports cascade)
+ */
+export async function deleteSession(sessionId: string, athleteId: string): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('athlete_id', athleteId)
+
+  return !error
+}
+
+/** One session's stored aerobic metrics, for trends */
+export interface AerobicTrendPoint {
+  id: string
+  date: string
+  duration_seconds: number
+  efficiency_factor: number | null
+  decoupling: number | null
+  durability: DurabilityPoint[]
+}
+
+/**
+ * Rides with stored EF, decoupling or durability since startDate, oldest first
+ */
+export async function getAerobicTrend(athleteId: string, startDate: string): Promise<AerobicTrendPoint[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, date, duration_seconds, efficiency_factor, decoupling, durability')
+    .eq('athlete_id', athleteId)
+    .eq('sport', 'cycling')
+    .gte('date', startDate)
+    .not('durability', 'is', null)
+    .order('date', { ascending: true })
+
+  if (error || !data) {
+    if (error) logger.error('[sessions] Error fetching aerobic trend:', error)
+    return []
+  }
+
+  return data.map(row => ({
+    id: row.id as string,
+    date: (row.date as string).split('T')[0],
+    duration_seconds: row.duration_seconds as number,
+    efficiency_factor: row.efficiency_factor as number | null,
+    decoupling: row.decoupling as number | null,
+    durability: (row.durability as DurabilityPoint[] | null) ?? [],
+  }))
+}
+
+/** One run's stored best efforts, for progression */
+export interface RunningBestsPoint {
+  id: string
+  date: string
+  running_bests: RunningBest[]
+}
+
+/**
+ * Runs with stored best efforts (since startDate when given), oldest first
+ */
+export async function getRunningBestsHistory(athleteId: string, startDate?: string): Promise<RunningBestsPoint[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  let query = supabase
+    .from('sessions')
+    .select('id, date, running_bests')
+    .eq('athlete_id', athleteId)
+    .eq('sport', 'running')
+    .not('running_bests', 'is', null)
+  if (startDate) query = query.gte('date', startDate)
+
+  const { data, error } = await query.order('date', { ascending: true })
+
+  if (error || !data) {
+    if (error) logger.error('[sessions] Error fetching running bests:', error)
+    return []
+  }
+
+  return data
+    .map(row => ({
+      id: row.id as string,
+      date: (row.date as string).split('T')[0],
+      running_bests: (row.running_bests as RunningBest[] | null) ?? [],
+    }))
+    .filter(row => row.running_bests.length > 0)
+}
@@ -272,6 +272,29 @@ export async function getPlanDayByDate(planId: string, date: string): Promise<Pl
   return rowToPlanDay(data as PlanDayRow)
 }
 
+// Plan day a session belongs to: the day it was logged against, otherwise the
+// active plan's day on the session date
+export async function getPlanDayForSession(
+  athleteId: string,
+  sessionId: string,
+  date: string
+): Promise<PlanDay | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data } = await supabase
+    .from('plan_days')
+    .select('*')
+    .eq('actual_session_id', sessionId)
+    .limit(1)
+    .maybeSingle()
+
+  if (data) return rowToPlanDay(data as PlanDayRow)
+
+  const plan = await getActivePlan(athleteId)
+  return plan ? getPlanDayByDate(plan.id, date.split('T')[0]) : null
+}
+
 export async function createPlanDays(days: PlanDayInsert[]): Promise<PlanDay[]> {
   const supabase = await createClient()
   if (!supabase) return []
@@ -341,20 +364,25 @@ export async function getIncompleteDays(
   return data.map((row) => rowToPlanDay(row as PlanDayRow))
 }
 
-// Helper to calculate plan progress
+// Helper to calculate plan progress: share of workout days completed, whether
+// logged by hand or matched to a session after sync. Rest days don't count.
 export async function calculatePlanProgress(planId: string): Promise<number> {
   const supabase = await createClient()
   if (!supabase) return 0
 
   const { data, error } = await supabase
     .from('plan_days')
-    .select('completed')
+    .select('completed, workout_type, workout_name, target_tss, target_duration_minutes')
     .eq('plan_id', planId)
 
   if (error || !data || data.length === 0) return 0
 
-  const completedDays = data.filter((d) => d.completed).length
-  return Math.round((completedDays / data.length) * 100)
+  const workoutDays = data.filter((d) => d.completed || (d.workout_type !== 'rest' &&
+    (d.workout_type || d.workout_name || d.target_tss || d.target_duration_minutes)))
+  if (workoutDays.length === 0) return 0
+
+  const completedDays = workoutDays.filter((d) => d.completed).length
+  return Math.round((completedDays / workoutDays.length) * 100)
 }
 
 // Skip a workout day
@@ -0,0 +1,178 @@
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import {
+  defaultZoneModel,
+  type ZoneBasis,
+  type ZoneDefinition,
+  type ZoneMetric,
+  type ZoneModelDefinition,
+} from '@/lib/analysis/zones'
+
+export interface ZoneModel {
+  id: string
+  athlete_id: string
+  created_at: string
+  updated_at: string
+  metric: ZoneMetric
+  name: string
+  basis: ZoneBasis
+  threshold: number | null
+  zones: ZoneDefinition[]
+  is_active: boolean
+}
+
+export type ZoneModelInsert = Pick<ZoneModel, 'athlete_id' | 'metric' | 'name' | 'basis' | 'zones'> & {
+  threshold?: number | null
+}
+
+export type ZoneModelUpdate = Partial<Pick<ZoneModel, 'name' | 'basis' | 'threshold' | 'zones'>>
+
+/** The zone model in use for each metric (the athlete's active model or the default) */
+export type ActiveZoneModels = Record<ZoneMetric, ZoneModelDefinition & { id?: string }>
+
+function toDefinition(row: ZoneModel): ZoneModelDefinition & { id: string } {
+  return {
+    id: row.id,
+    metric: row.metric,
+    name: row.name,
+    basis: row.basis,
+    threshold: row.threshold != null ? Number(row.threshold) : null,
+    zones: row.zones,
+  }
+}
+
+/**
+ * All zone models an athlete has defined
+ */
+export async function getZoneModels(athleteId: string): Promise<ZoneModel[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('zone_models')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .order('metric')
+    .order('created_at')
+
+  if (error || !data) return []
+  return data as ZoneModel[]
+}
+
+/**
+ * Active zone model per metric, falling back to the defaults
+ */
+export async function getActiveZoneModels(athleteId: string): Promise<ActiveZoneModels> {
+  const active: ActiveZoneModels = {
+    power: defaultZoneModel('power'),
+    hr: defaultZoneModel('hr'),
+    pace: defaultZoneModel('pace'),
+  }
+
+  const supabase = await createClient()
+  if (!supabase) return active
+
+  const { data, error } = await supabase
+    .from('zone_models')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .eq('is_active', true)
+
+  if (error || !data) return active
+  for (const row of data as ZoneModel[]) {
+    active[row.metric] = toDefinition(row)
+  }
+  return active
+}
+
+export async function createZoneModel(model: ZoneModelInsert): Promise<ZoneModel | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('zone_models')
+    .insert(model)
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[ZoneModels] Insert error:', error)
+    return null
+  }
+  return data as ZoneModel
+}
+
+export async function updateZoneModel(
+  modelId: string,
+  athleteId: string,
+  updates: ZoneModelUpdate
+): Promise<ZoneModel | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('zone_models')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', modelId)
+    .eq('athlete_id', athleteId)
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('[ZoneModels] Update error:', error)
+    return null
+  }
+  return data as ZoneModel
+}
+
+export async function deleteZoneModel(modelId: string, athleteId: string): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('zone_models')
+    .delete()
+    .eq('id', modelId)
+    .eq('athlete_id', athleteId)
+
+  return !error
+}
+
+/**
+ * Make a model the active one for its metric.
+ * Pass modelId null to go back to the default model for the metric.
+ */
+export async function setActiveZoneModel(
+  athleteId: string,
+  metric: ZoneMetric,
+  modelId: string | null
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error: clearError } = await supabase
+    .from('zone_models')
+    .update({ is_active: false })
+    .eq('athlete_id', athleteId)
+    .eq('metric', metric)
+    .eq('is_active', true)
+
+  if (clearError) {
+    logger.error('[ZoneModels] Deactivate error:', clearError)
+    return false
+  }
+  if (!modelId) return true
+
+  const { error } = await supabase
+    .from('zone_models')
+    .update({ is_active: true, updated_at: new Date().toISOString() })
+    .eq('id', modelId)
+    .eq('athlete_id', athleteId)
+    .eq('metric', metric)
+
+  if (error) {
+    logger.error('[ZoneModels] Activate error:', error)
+    return false
+  }
+  return true
+}
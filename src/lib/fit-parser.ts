@@ -1,7 +1,11 @@
 import FitParser from 'fit-file-parser'
+import type { Session } from '@/types'
 
 export interface ParsedFitData {
   date: string
+  /** Full ISO timestamp of the activity start */
+  start_time: string
+  sport: Session['sport']
   duration_seconds: number
   distance_meters?: number
   avg_power?: number
@@ -12,15 +16,68 @@ export interface ParsedFitData {
   avg_cadence?: number
   avg_speed?: number
   total_ascent?: number
+  avg_temperature?: number
+  max_temperature?: number
+  left_right_balance?: LeftRightBalance
+  /** Device laps (manual or auto), in order */
+  laps?: ActivityLap[]
+  /** Recording device and sensors (head unit, power meter, HR strap) */
+  devices?: DeviceInfo[]
+  /**
+   * Per-session breakdown for multi-session files such as brick workouts.
+   * Each part has its own sport, records and laps; undefined for single-session files.
+   */
+  sessions?: ParsedFitData[]
   records: PowerRecord[]
 }
 
-interface PowerRecord {
+export interface PowerRecord {
   timestamp: number
   power?: number
   heart_rate?: number
   cadence?: number
   speed?: number
+  /** Meters */
+  altitude?: number
+  /** Cumulative meters */
+  distance?: number
+  lat?: number
+  lng?: number
+  /** Degrees Celsius */
+  temperature?: number
+  /** Left leg share of power in percent */
+  left_balance?: number
+}
+
+export interface LeftRightBalance {
+  left: number
+  right: number
+}
+
+export interface ActivityLap {
+  start_time: string
+  /** Timer (moving) time */
+  duration_seconds: number
+  elapsed_seconds: number
+  distance_meters?: number
+  avg_power?: number
+  normalized_power?: number
+  max_power?: number
+  avg_hr?: number
+  max_hr?: number
+  avg_cadence?: number
+  /** What ended the lap: 'manual', 'distance', 'time', 'position_lap', 'session_end', ... */
+  trigger?: string
+}
+
+export interface DeviceInfo {
+  manufacturer?: string
+  product?: string
+  serial_number?: number
+  /** Sensor type, e.g. 'bike_power', 'heart_rate'; undefined for the recording unit */
+  device_type?: string
+  software_version?: number
+  battery_status?: string
 }
 
 export async function parseFitFile(buffer: ArrayBuffer): Promise<ParsedFitData> {
@@ -41,32 +98,45 @@ export async function parseFitFile(buffer: ArrayBuffer): Promise<ParsedFitData>
 
       const fitResult = data as FitParseResult
 
-      const session = fitResult.sessions?.[0]
-      const records: PowerRecord[] = (fitResult.records || []).map((r: FitRecord) => ({
-        timestamp: new Date(r.timestamp).getTime(),
-        power: r.power,
-        heart_rate: r.heart_rate,
-        cadence: r.cadence,
-        speed: r.speed,
-      }))
+      const records: PowerRecord[] = (fitResult.records || []).map(toPowerRecord)
+      const laps = (fitResult.laps || []).map(lap => toActivityLap(lap, records))
+      const devices = toDeviceInfos(fitResult.device_infos || [])
+      const sessions = (fitResult.sessions || []).filter(s => s.start_time)
+
+      if (sessions.length <= 1) {
+        resolve({
+          ...buildFromFitSession(sessions[0], records, laps),
+          devices: devices.length > 0 ? devices : undefined,
+        })
+        return
+      }
 
-      // Calculate normalized power from records
-      const normalizedPower = calculateNormalizedPower(records)
+      // Multi-session file: summarize each part on its own records and laps
+      const parts = sessions.map(session => {
+        const start = new Date(session.start_time!).getTime()
+        const end = start + (session.total_elapsed_time ?? session.total_timer_time ?? 0) * 1000
+        const inRange = (timestamp: number) => timestamp >= start && timestamp <= end
+        return buildFromFitSession(
+          session,
+          records.filter(r => inRange(r.timestamp)),
+          laps.filter(l => inRange(new Date(l.start_time).getTime()))
+        )
+      })
+
+      const total = (values: Array<number | undefined>) => {
+        const present = values.filter((v): v is number => v !== undefined)
+        return present.length > 0 ? present.reduce((a, b) => a + b, 0) : undefined
+      }
 
       resolve({
-        date: session?.start_time
-          ? new Date(session.start_time).toISOString().split('T')[0]
-          : new Date().toISOString().split('T')[0],
-        duration_seconds: session?.total_timer_time || 0,
-        distance_meters: session?.total_distance,
-        avg_power: session?.avg_power,
-        normalized_power: normalizedPower,
-        max_power: session?.max_power,
-        avg_hr: session?.avg_heart_rate,
-        max_hr: session?.max_heart_rate,
-        avg_cadence: session?.avg_cadence,
-        avg_speed: session?.avg_speed,
-        total_ascent: session?.total_ascent,
+        ...parts[0],
+        duration_seconds: total(parts.map(p => p.duration_seconds)) ?? 0,
+        distance_meters: total(parts.map(p => p.distance_meters)),
+        total_ascent: total(parts.map(p => p.total_ascent)),
+        normalized_power: calculateNormalizedPower(records) || undefined,
+        laps,
+        devices: devices.length > 0 ? devices : undefined,
+        sessions: parts,
         records,
       })
     })
@@ -75,12 +145,16 @@ export async function parseFitFile(buffer: ArrayBuffer): Promise<ParsedFitData>
 
 interface FitParseResult {
   sessions?: FitSession[]
+  laps?: FitLap[]
   records?: FitRecord[]
+  device_infos?: FitDeviceInfo[]
 }
 
 interface FitSession {
   start_time?: string
+  sport?: string
   total_timer_time?: number
+  total_elapsed_time?: number
   total_distance?: number
   avg_power?: number
   max_power?: number
@@ -89,6 +163,23 @@ interface FitSession {
   avg_cadence?: number
   avg_speed?: number
   total_ascent?: number
+  avg_temperature?: number
+  max_temperature?: number
+  left_right_balance?: FitBalance100
+}
+
+interface FitLap {
+  start_time?: string
+  total_timer_time?: number
+  total_elapsed_time?: number
+  total_distance?: number
+  avg_power?: number
+  normalized_power?: number
+  max_power?: number
+  avg_heart_rate?: number
+  max_heart_rate?: number
+  avg_cadence?: number
+  lap_trigger?: string
 }
 
 interface FitRecord {
@@ -97,10 +188,248 @@ interface FitRecord {
   heart_rate?: number
   cadence?: number
   speed?: number
+  altitude?: number
+  enhanced_altitude?: number
+  distance?: number
+  position_lat?: number
+  position_long?: number
+  temperature?: number
+  left_right_balance?: { value: number; right: boolean } | number
+}
+
+interface FitDeviceInfo {
+  device_index?: number | string
+  manufacturer?: string
+  product?: number
+  garmin_product?: string
+  product_name?: string
+  serial_number?: number
+  device_type?: string | number
+  software_version?: number
+  battery_status?: string
+}
+
+/** Session/lap balance: value in hundredths of a percent, flagged if it is the right leg */
+type FitBalance100 = { value: number; right: boolean } | number
+
+function toPowerRecord(r: FitRecord): PowerRecord {
+  const record: PowerRecord = {
+    timestamp: new Date(r.timestamp).getTime(),
+    power: r.power,
+    heart_rate: r.heart_rate,
+    cadence: r.cadence,
+    speed: r.speed,
+  }
+
+  const altitude = r.enhanced_altitude ?? r.altitude
+  if (altitude !== undefined) record.altitude = altitude
+  if (r.distance !== undefined) record.distance = r.distance
+  if (r.position_lat !== undefined && r.position_long !== undefined) {
+    record.lat = r.position_lat
+    record.lng = r.position_long
+  }
+  if (r.temperature !== undefined) record.temperature = r.temperature
+
+  // Record balance is 0-100%, flagged when the value is the right leg's share
+  if (typeof r.left_right_balance === 'object' && r.left_right_balance.value <= 100) {
+    const { value, right } = r.left_right_balance
+    record.left_balance = right ? 100 - value : value
+  }
+
+  return record
+}
+
+function toLeftRightBalance(balance: FitBalance100 | undefined): LeftRightBalance | undefined {
+  if (typeof balance !== 'object') return undefined
+  const percent = balance.value / 100
+  if (percent <= 0 || percent >= 100) return undefined
+  const left = Math.round((balance.right ? 100 - percent : percent) * 10) / 10
+  return { left, right: Math.round((100 - left) * 10) / 10 }
+}
+
+/**
+ * Average left/right balance from per-record values
+ */
+export function calculateLeftRightBalance(records: PowerRecord[]): LeftRightBalance | undefined {
+  const values = records
+    .filter(r => r.left_balance !== undefined && (r.power ?? 0) > 0)
+    .map(r => r.left_balance!)
+  if (values.length === 0) return undefined
+  const left = Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10
+  return { left, right: Math.round((100 - left) * 10) / 10 }
+}
+
+function toActivityLap(lap: FitLap, records: PowerRecord[]): ActivityLap {
+  const start = lap.start_time ? new Date(lap.start_time).getTime() : 0
+  const elapsed = lap.total_elapsed_time ?? lap.total_timer_time ?? 0
+  const lapRecords = records.filter(r => r.timestamp >= start && r.timestamp < start + elapsed * 1000)
+
+  return buildLap(lapRecords, {
+    start_time: new Date(start).toISOString(),
+    duration_seconds: Math.round(lap.total_timer_time ?? elapsed),
+    elapsed_seconds: Math.round(elapsed),
+    distance_meters: lap.total_distance !== undefined ? Math.round(lap.total_distance) : undefined,
+    avg_power: lap.avg_power,
+    normalized_power: lap.normalized_power,
+    max_power: lap.max_power,
+    avg_hr: lap.avg_heart_rate,
+    max_hr: lap.max_heart_rate,
+    avg_cadence: lap.avg_cadence,
+    trigger: lap.lap_trigger,
+  })
+}
+
+/**
+ * Fill lap power/HR values the device did not record from the lap's records
+ */
+export function buildLap(
+  records: PowerRecord[],
+  lap: Omit<ActivityLap, 'avg_power' | 'normalized_power' | 'max_power' | 'avg_hr' | 'max_hr' | 'avg_cadence'> &
+    Partial<ActivityLap>
+): ActivityLap {
+  const summary = summarizeRecords(records, {})
+  const hasPower = records.some(r => (r.power ?? 0) > 0)
+
+  return {
+    ...lap,
+    avg_power: lap.avg_power ?? (hasPower ? summary.avg_power : undefined),
+    normalized_power: lap.normalized_power ?? (hasPower ? summary.normalized_power : undefined),
+    max_power: lap.max_power ?? (hasPower ? summary.max_power : undefined),
+    avg_hr: lap.avg_hr ?? summary.avg_hr,
+    max_hr: lap.max_hr ?? summary.max_hr,
+    avg_cadence: lap.avg_cadence ?? summary.avg_cadence,
+  }
+}
+
+function toDeviceInfos(infos: FitDeviceInfo[]): DeviceInfo[] {
+  const devices = new Map<string, DeviceInfo>()
+
+  for (const info of infos) {
+    if (!info.manufacturer && !info.product_name && !info.garmin_product && !info.serial_number) continue
+    const deviceType = typeof info.device_type === 'string' ? info.device_type : undefined
+    // Devices repeat device_info at start and end; keep one entry per device
+    const key = `${info.serial_number ?? ''}:${info.device_index ?? ''}:${deviceType ?? ''}`
+
+    devices.set(key, {
+      manufacturer: info.manufacturer,
+      product: info.product_name || info.garmin_product || (info.product !== undefined ? String(info.product) : undefined),
+      serial_number: info.serial_number,
+      device_type: deviceType,
+      software_version: info.software_version,
+      battery_status: info.battery_status ?? devices.get(key)?.battery_status,
+    })
+  }
+
+  return Array.from(devices.values())
+}
+
+function buildFromFitSession(
+  session: FitSession | undefined,
+  records: PowerRecord[],
+  laps: ActivityLap[]
+): ParsedFitData {
+  // Calculate normalized power from records
+  const normalizedPower = calculateNormalizedPower(records)
+
+  const startTime = session?.start_time
+    ? new Date(session.start_time).toISOString()
+    : records.length > 0
+      ? new Date(records[0].timestamp).toISOString()
+      : new Date().toISOString()
+
+  const temperatures = records.filter(r => r.temperature !== undefined).map(r => r.temperature!)
+
+  return {
+    date: startTime.split('T')[0],
+    start_time: startTime,
+    sport: mapSport(session?.sport),
+    duration_seconds: session?.total_timer_time || 0,
+    distance_meters: session?.total_distance,
+    avg_power: session?.avg_power,
+    normalized_power: normalizedPower,
+    max_power: session?.max_power,
+    avg_hr: session?.avg_heart_rate,
+    max_hr: session?.max_heart_rate,
+    avg_cadence: session?.avg_cadence,
+    avg_speed: session?.avg_speed,
+    total_ascent: session?.total_ascent,
+    avg_temperature: session?.avg_temperature ?? (temperatures.length > 0
+      ? Math.round(temperatures.reduce((a, b) => a + b, 0) / temperatures.length)
+      : undefined),
+    max_temperature: session?.max_temperature ?? (temperatures.length > 0
+      ? temperatures.reduce((a, b) => Math.max(a, b), -Infinity)
+      : undefined),
+    left_right_balance: toLeftRightBalance(session?.left_right_balance) ?? calculateLeftRightBalance(records),
+    laps: laps.length > 0 ? laps : undefined,
+    records,
+  }
+}
+
+/**
+ * Map a device/file sport name (FIT sport enum, TCX Sport attribute, GPX type) to our sport type
+ */
+export function mapSport(sport: string | undefined): Session['sport'] {
+  const value = (sport || '').toLowerCase()
+  if (!value) return 'cycling'
+  if (value.includes('cycl') || value.includes('bik') || value.includes('ride')) return 'cycling'
+  if (value.includes('run')) return 'running'
+  if (value.includes('swim')) return 'swimming'
+  return 'other'
+}
+
+/**
+ * Build ParsedFitData from records alone, for formats without a session summary (TCX, GPX).
+ * Values in `summary` take precedence over those derived from the records.
+ */
+export function summarizeRecords(
+  records: PowerRecord[],
+  summary: Partial<ParsedFitData> = {}
+): ParsedFitData {
+  const powers = records.filter(r => r.power !== undefined).map(r => r.power!)
+  const heartRates = records.filter(r => r.heart_rate !== undefined && r.heart_rate > 0).map(r => r.heart_rate!)
+  const cadences = records.filter(r => r.cadence !== undefined && r.cadence > 0).map(r => r.cadence!)
+  const speeds = records.filter(r => r.speed !== undefined).map(r => r.speed!)
+  const temperatures = records.filter(r => r.temperature !== undefined).map(r => r.temperature!)
+
+  const average = (values: number[]): number | undefined =>
+    values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined
+  const maximum = (values: number[]): number | undefined =>
+    values.length > 0 ? values.reduce((a, b) => Math.max(a, b), 0) : undefined
+
+  const startTime = summary.start_time
+    ?? (records.length > 0 ? new Date(records[0].timestamp).toISOString() : new Date().toISOString())
+  const elapsedSeconds = records.length > 1
+    ? Math.round((records[records.length - 1].timestamp - records[0].timestamp) / 1000)
+    : 0
+
+  return {
+    date: startTime.split('T')[0],
+    start_time: startTime,
+    sport: summary.sport ?? 'cycling',
+    duration_seconds: summary.duration_seconds ?? elapsedSeconds,
+    distance_meters: summary.distance_meters,
+    avg_power: summary.avg_power ?? average(powers),
+    normalized_power: summary.normalized_power ?? (powers.length > 0 ? calculateNormalizedPower(records) : undefined),
+    max_power: summary.max_power ?? maximum(powers),
+    avg_hr: summary.avg_hr ?? average(heartRates),
+    max_hr: summary.max_hr ?? maximum(heartRates),
+    avg_cadence: summary.avg_cadence ?? average(cadences),
+    avg_speed: summary.avg_speed ?? (speeds.length > 0
+      ? Math.round(speeds.reduce((a, b) => a + b, 0) / speeds.length * 10) / 10
+      : undefined),
+    total_ascent: summary.total_ascent,
+    avg_temperature: summary.avg_temperature ?? average(temperatures),
+    max_temperature: summary.max_temperature ?? (temperatures.length > 0
+      ? temperatures.reduce((a, b) => Math.max(a, b), -Infinity)
+      : undefined),
+    left_right_balance: summary.left_right_balance ?? calculateLeftRightBalance(records),
+    laps: summary.laps,
+    records,
+  }
 }
 
 // Calculate Normalized Power using 30-second rolling average
-function calculateNormalizedPower(records: PowerRecord[]): number {
+export function calculateNormalizedPower(records: PowerRecord[]): number {
   if (records.length < 30) {
     // Not enough data for 30-sec rolling average
     const powers = records.filter(r => r.power).map(r => r.power!)
@@ -142,3 +471,70 @@ export function calculateIF(normalizedPower: number, ftp: number): number {
   if (!normalizedPower || !ftp) return 0
   return Math.round((normalizedPower / ftp) * 100) / 100
 }
+
+// Calculate percentage of time in each Coggan power zone
+export function calculatePowerZones(
+  records: PowerRecord[],
+  ftp: number
+): Record<string, number> | null {
+  if (!ftp) return null
+  const powers = records.filter(r => r.power !== undefined).map(r => r.power!)
+  if (powers.length === 0) return null
+
+  // Upper bounds as fraction of FTP for Z1-Z5; everything above is Z6
+  const upperBounds = [0.55, 0.75, 0.90, 1.05, 1.20]
+  const counts = [0, 0, 0, 0, 0, 0]
+  for (const power of powers) {
+    const ratio = power / ftp
+    const zone = upperBounds.findIndex(bound => ratio <= bound)
+    counts[zone === -1 ? 5 : zone]++
+  }
+
+  return {
+    z1: Math.round(counts[0] / powers.length * 100),
+    z2: Math.round(counts[1] / powers.length * 100),
+    z3: Math.round(counts[2] / powers.length * 100),
+    z4: Math.round(counts[3] / powers.length * 100),
+    z5: Math.round(counts[4] / powers.length * 100),
+    z6: Math.round(counts[5] / powers.length * 100),
+  }
+}
+
+// Calculate percentage of time in each HR zone (based on lactate threshold HR)
+export function calculateHRZones(
+  records: PowerRecord[],
+  lthr: number
+): Record<string, number> | null {
+  if (!lthr) return null
+  const heartRates = records
+    .filter(r => r.heart_rate !== undefined && r.heart_rate > 0)
+    .map(r => r.heart_rate!)
+  if (heartRates.length === 0) return null
+
+  // Upper bounds as fraction of LTHR for Z1-Z4; everything above is Z5
+  const upperBounds = [0.81, 0.89, 0.93, 0.99]
+  const counts = [0, 0, 0, 0, 0]
+  for (const hr of heartRates) {
+    const ratio = hr / lthr
+    const zone = upperBounds.findIndex(bound => ratio <= bound)
+    counts[zone === -1 ? 4 : zone]++
+  }
+
+  return {
+    z1: Math.round(counts[0] / heartRates.length * 100),
+    z2: Math.round(counts[1] / heartRates.length * 100),
+    z3: Math.round(counts[2] / heartRates.length * 100),
+    z4: Math.round(counts[3] / heartRates.length * 100),
+    z5: Math.round(counts[4] / heartRates.length * 100),
+  }
+}
+
+// Infer a structured workout type from Intensity Factor
+export function inferWorkoutTypeFromIF(intensityFactor: number): string {
+  if (intensityFactor >= 1.05) return 'vo2max'
+  if (intensityFactor >= 0.95) return 'threshold'
+  if (intensityFactor >= 0.85) return 'sweetspot'
+  if (intensityFactor >= 0.75) return 'tempo'
+  if (intensityFactor < 0.65) return 'recovery'
+  return 'endurance'
+}
@@ -0,0 +1,208 @@
+/**
+ * Climb Engine
+ *
+ * Finds the climbs in a session's altitude stream, matches each to the
+ * athlete's known climbs by GPS (creating a climb the first time it is
+ * ridden) and stores one effort per ascent for the climb leaderboards.
+ * Runs when a session's streams are stored, and fills in sessions whose
+ * streams were stored before.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete } from '@/lib/db/athletes'
+import { getLatestBodyMeasurement } from '@/lib/db/body-measurements'
+import { createClimb, getAthleteClimbs, replaceSessionClimbEfforts, type Climb, type ClimbEffortInsert } from '@/lib/db/climbs'
+import { getStoredStreamsForAthlete, type SessionStreams, type StreamType } from '@/lib/db/session-streams'
+import { describeClimb, detectClimbs, isSameClimb, type DetectedClimb } from '@/lib/analysis/climbs'
+import type { Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+// Fewer sessions per batch than other engines: GPS streams are large
+const CLIMB_STREAM_BATCH_SIZE = 20
+const CLIMB_STREAM_TYPES: StreamType[] = ['time', 'distance', 'altitude', 'watts', 'heartrate', 'latlng']
+// Climbs are tracked for sports where going uphill is the point
+const CLIMB_SPORTS: Session['sport'][] = ['cycling', 'running']
+
+interface ClimbSessionRow {
+  id: string
+  athlete_id: string
+  date: string
+  sport: Session['sport']
+}
+
+/**
+ * Weight for W/kg on climbs: the profile weight, else the latest scale measurement
+ */
+export async function getClimbingWeight(athleteId: string): Promise<number | null> {
+  const athlete = await getAthlete(athleteId)
+  if (athlete?.weight_kg) return athlete.weight_kg
+  try {
+    const latest = await getLatestBodyMeasurement(athleteId)
+    return latest?.weight_kg ?? null
+  } catch {
+    return null
+  }
+}
+
+function climbLocation(climb: Climb) {
+  return {
+    start: [climb.start_lat, climb.start_lng] as [number, number],
+    end: [climb.end_lat, climb.end_lng] as [number, number],
+    lengthMeters: climb.length_meters,
+  }
+}
+
+/**
+ * The known climb this ascent matches, creating one when it is new.
+ * Null without GPS.
+ */
+async function resolveClimb(
+  session: ClimbSessionRow,
+  detected: DetectedClimb,
+  known: Climb[]
+): Promise<string | null> {
+  if (!detected.start || !detected.end) return null
+  const location = { start: detected.start, end: detected.end, lengthMeters: detected.lengthMeters }
+  const match = known.find(c => isSameClimb(climbLocation(c), location))
+  if (match) return match.id
+
+  const created = await createClimb({
+    athlete_id: session.athlete_id,
+    sport: session.sport,
+    name: describeClimb(detected),
+    start_lat: detected.start[0],
+    start_lng: detected.start[1],
+    end_lat: detected.end[0],
+    end_lng: detected.end[1],
+    length_meters: detected.lengthMeters,
+    elevation_gain: detected.elevationGain,
+    avg_gradient: detected.avgGradient,
+  })
+  if (!created) return null
+  known.push(created)
+  return created.id
+}
+
+async function storeClimbs(
+  session: ClimbSessionRow,
+  streams: SessionStreams,
+  weightKg: number | null,
+  known: Climb[]
+): Promise<number> {
+  const detected = detectClimbs(streams, weightKg)
+  const efforts: ClimbEffortInsert[] = []
+  for (const climb of detected) {
+    efforts.push({
+      athlete_id: session.athlete_id,
+      session_id: session.id,
+      climb_id: await resolveClimb(session, climb, known),
+      date: session.date.split('T')[0],
+      start_index: climb.startIndex,
+      end_index: climb.endIndex,
+      length_meters: climb.lengthMeters,
+      elevation_gain: climb.elevationGain,
+      avg_gradient: climb.avgGradient,
+      max_gradient: climb.maxGradient,
+      duration_seconds: climb.durationSeconds,
+      vam: climb.vam,
+      avg_power: climb.avgPower,
+      watts_per_kg: climb.wattsPerKg,
+      avg_hr: climb.avgHr,
+    })
+  }
+
+  if (!(await replaceSessionClimbEfforts(session.id, efforts))) return 0
+
+  const supabase = await createClient()
+  if (supabase) {
+    const { error } = await supabase
+      .from('sessions')
+      .update({ climb_count: efforts.length })
+      .eq('id', session.id)
+    if (error) logger.error(`[ClimbEngine] Failed to mark session ${session.id} analyzed:`, error)
+  }
+  return efforts.length
+}
+
+/**
+ * Find and store the climbs in one session's streams.
+ * Returns the number of climbs, or null for sports without climbs.
+ */
+export async function storeSessionClimbs(
+  sessionId: string,
+  athleteId: string,
+  streams: SessionStreams
+): Promise<number | null> {
+  const supabase = await createClient()
+  if (!supabase) return null
+
+  const { data } = await supabase
+    .from('sessions')
+    .select('id, athlete_id, date, sport')
+    .eq('id', sessionId)
+    .maybeSingle()
+  const session = data as ClimbSessionRow | null
+  if (!session || !CLIMB_SPORTS.includes(session.sport)) return null
+
+  const [weightKg, known] = await Promise.all([
+    getClimbingWeight(athleteId),
+    getAthleteClimbs(athleteId, session.sport),
+  ])
+  return storeClimbs(session, streams, weightKg, known)
+}
+
+/**
+ * Find climbs in every ride and run from fromDate onwards that has stored
+ * streams but has not been analyzed. Returns the number of sessions analyzed.
+ */
+export async function analyzeUnclimbedSessions(athleteId: string, fromDate?: string): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  const rows: ClimbSessionRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('id, athlete_id, date, sport')
+      .eq('athlete_id', athleteId)
+      .is('climb_count', null)
+      .in('sport', CLIMB_SPORTS)
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    rows.push(...((data || []) as ClimbSessionRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (rows.length === 0) return 0
+
+  const weightKg = await getClimbingWeight(athleteId)
+  // Climbs created along the way are matched by later sessions
+  const known = new Map<Session['sport'], Climb[]>(CLIMB_SPORTS.map(sport => [sport, []]))
+  for (const climb of await getAthleteClimbs(athleteId)) {
+    known.get(climb.sport)?.push(climb)
+  }
+  let analyzed = 0
+  let climbs = 0
+  for (let i = 0; i < rows.length; i += CLIMB_STREAM_BATCH_SIZE) {
+    const batch = rows.slice(i, i + CLIMB_STREAM_BATCH_SIZE)
+    const streams = await getStoredStreamsForAthlete(athleteId, CLIMB_STREAM_TYPES, {
+      sessionIds: batch.map(r => r.id),
+    })
+    for (const row of batch) {
+      const sessionStreams = streams.get(row.id)
+      if (!sessionStreams) continue
+      climbs += await storeClimbs(row, sessionStreams, weightKg, known.get(row.sport) ?? [])
+      analyzed++
+    }
+  }
+
+  if (analyzed > 0) {
+    logger.info(`[ClimbEngine] Found ${climbs} climbs in ${analyzed} of ${rows.length} unanalyzed sessions`)
+  }
+  return analyzed
+}
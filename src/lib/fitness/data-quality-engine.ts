@@ -0,0 +1,150 @@
+/**
+ * Data Quality Engine
+ *
+ * Cleans session streams and stores the issues found on the session.
+ * Uploaded files are cleaned on import and intervals.icu streams when they
+ * are stored; this checks sessions whose streams were stored before that.
+ * Also rebuilds a session's power bests when its flags change or the athlete
+ * excludes it, or part of it, from bests.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  getStoredStreams,
+  getStoredStreamsForAthlete,
+  updateStoredStreams,
+  STREAM_BATCH_SIZE,
+  type SessionStreams,
+} from '@/lib/db/session-streams'
+import { removeSessionPowerBests, restoreCurrentBests, updatePowerBestsFromSession } from '@/lib/db/power-bests'
+import { getAthlete } from '@/lib/db/athletes'
+import { getSession } from '@/lib/db/sessions'
+import { bestsExclusionMask, cleanStreams } from '@/lib/analysis/stream-quality'
+import { calculatePowerCurve } from '@/lib/analysis/power-analysis'
+import type { DataQualityFlag, Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Store a session's data quality flags. When power spikes were interpolated,
+ * max power is taken from the cleaned stream.
+ */
+export async function storeDataQuality(
+  sessionId: string,
+  streams: SessionStreams,
+  flags: DataQualityFlag[]
+): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const update: { data_quality: DataQualityFlag[]; max_power?: number } = { data_quality: flags }
+  if (streams.watts && flags.some(f => f.issue === 'power_spike')) {
+    update.max_power = streams.watts.reduce((max, w) => Math.max(max, w), 0)
+  }
+
+  const { error } = await supabase
+    .from('sessions')
+    .update(update)
+    .eq('id', sessionId)
+
+  if (error) {
+    logger.error(`[DataQuality] Failed to store flags for session ${sessionId}:`, error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Replace the power bests a session set with ones from its cleaned power
+ * stream, leaving out flagged samples and the athlete's excluded ranges.
+ * Excluded sessions only lose their bests. Returns the number of new bests.
+ */
+export async function refreshSessionPowerBests(session: Session): Promise<number> {
+  // Running power is not comparable to cycling bests
+  if (session.sport === 'running') return 0
+
+  const removed = await removeSessionPowerBests(session.athlete_id, session.id)
+  await restoreCurrentBests(session.athlete_id, removed)
+  if (session.exclude_from_bests) return 0
+
+  const streams = await getStoredStreams(session.id, ['watts'])
+  const watts = streams?.watts
+  if (!watts || watts.length === 0) return 0
+
+  const excluded = bestsExclusionMask(watts.length, session.data_quality, session.excluded_ranges)
+  const curve = calculatePowerCurve(watts, excluded)
+  if (curve.length === 0) return 0
+
+  const athlete = await getAthlete(session.athlete_id)
+  const newBests = await updatePowerBestsFromSession(
+    session.athlete_id,
+    session.id,
+    session.date.split('T')[0],
+    curve,
+    athlete?.weight_kg || undefined
+  )
+  return newBests.length
+}
+
+/**
+ * Clean the stored streams of every session from fromDate onwards that has
+ * not been checked yet. Sessions with bad power samples get their power
+ * bests rebuilt. Returns the number of sessions checked.
+ */
+export async function checkUncheckedSessions(athleteId: string, fromDate?: string): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  const ids: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('id')
+      .eq('athlete_id', athleteId)
+      .is('data_quality', null)
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    ids.push(...(data || []).map(r => r.id as string))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (ids.length === 0) return 0
+
+  let checked = 0
+  let flagged = 0
+  for (let i = 0; i < ids.length; i += STREAM_BATCH_SIZE) {
+    const streams = await getStoredStreamsForAthlete(
+      athleteId,
+      ['watts', 'heartrate', 'cadence', 'velocity_smooth'],
+      { sessionIds: ids.slice(i, i + STREAM_BATCH_SIZE) }
+    )
+    for (const [sessionId, sessionStreams] of streams) {
+      const { streams: cleaned, flags } = cleanStreams(sessionStreams)
+      const interpolated = new Set(flags.filter(f => f.action === 'interpolated').map(f => f.stream))
+      if (interpolated.size > 0) {
+        await updateStoredStreams(sessionId, {
+          ...(interpolated.has('watts') ? { watts: cleaned.watts } : {}),
+          ...(interpolated.has('heartrate') ? { heartrate: cleaned.heartrate } : {}),
+        })
+      }
+      if (!(await storeDataQuality(sessionId, cleaned, flags))) continue
+      checked++
+
+      if (flags.some(f => f.stream === 'watts')) {
+        flagged++
+        const session = await getSession(sessionId)
+        if (session) await refreshSessionPowerBests(session)
+      }
+    }
+  }
+
+  if (checked > 0) {
+    logger.info(`[DataQuality] Checked ${checked} of ${ids.length} sessions, ${flagged} with bad power samples`)
+  }
+  return checked
+}
@@ -0,0 +1,90 @@
+/**
+ * Aerobic Metrics Engine
+ *
+ * Stores efficiency factor, Pw:HR decoupling and durability on sessions from
+ * their power and heart rate streams. Uploaded files are analyzed on import;
+ * intervals.icu sessions when their streams are stored, and this fills in
+ * sessions whose streams were stored before that.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE, type SessionStreams } from '@/lib/db/session-streams'
+import { calculateAerobicMetrics, type AerobicMetrics } from '@/lib/analysis/durability'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+
+function metricColumns(metrics: AerobicMetrics) {
+  return {
+    efficiency_factor: metrics.efficiencyFactor,
+    decoupling: metrics.decoupling,
+    durability: metrics.durability,
+  }
+}
+
+/**
+ * Analyze a session's streams and store the metrics on the session.
+ * Returns false when the streams have no power or the update failed.
+ */
+export async function storeAerobicMetrics(sessionId: string, streams: SessionStreams): Promise<boolean> {
+  const metrics = calculateAerobicMetrics(streams)
+  if (!metrics.durability) return false
+
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from('sessions')
+    .update(metricColumns(metrics))
+    .eq('id', sessionId)
+
+  if (error) {
+    logger.error(`[AerobicMetrics] Failed to store metrics for session ${sessionId}:`, error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Analyze every session with power from fromDate onwards that has stored
+ * streams but no metrics yet. Returns the number of sessions analyzed.
+ */
+export async function analyzeUnanalyzedSessions(athleteId: string, fromDate?: string): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  const ids: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('id')
+      .eq('athlete_id', athleteId)
+      .is('durability', null)
+      .not('avg_power', 'is', null)
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    ids.push(...(data || []).map(r => r.id as string))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (ids.length === 0) return 0
+
+  let analyzed = 0
+  for (let i = 0; i < ids.length; i += STREAM_BATCH_SIZE) {
+    const streams = await getStoredStreamsForAthlete(athleteId, ['watts', 'heartrate'], {
+      sessionIds: ids.slice(i, i + STREAM_BATCH_SIZE),
+    })
+    for (const [sessionId, sessionStreams] of streams) {
+      if (await storeAerobicMetrics(sessionId, sessionStreams)) analyzed++
+    }
+  }
+
+  if (analyzed > 0) {
+    logger.info(`[AerobicMetrics] Analyzed ${analyzed} of ${ids.length} sessions without aerobic metrics`)
+  }
+  return analyzed
+}
@@ -0,0 +1,320 @@
+/**
+ * FTP Change Detector
+ *
+ * Runs after sync/upload: estimates FTP (20-minute, CP model and ramp test)
+ * from recent cycling sessions and, when the estimate moves beyond the
+ * threshold, creates a pending FTP change proposal for the athlete to accept
+ * or reject. Accepting updates athletes.ftp, records ftp_history and can
+ * recompute TSS/IF for the sessions affected by the change.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete, updateAthlete } from '@/lib/db/athletes'
+import { getSession } from '@/lib/db/sessions'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE } from '@/lib/db/session-streams'
+import { getPowerBestsInRange } from '@/lib/db/power-bests'
+import {
+  getPendingFtpProposal,
+  getFtpProposal,
+  getRejectedFtpProposals,
+  insertFtpProposal,
+  insertFtpHistory,
+  resolveFtpProposal,
+  type FtpChangeProposal,
+} from '@/lib/db/ftp-proposals'
+import { getSessionMeanMaxCurves, mergeMeanMaxCurves } from '@/lib/analysis/mean-max-power'
+import { fitCriticalPowerModels } from '@/lib/analysis/critical-power'
+import {
+  assessFtpChange,
+  detectRampTest,
+  estimateFromCpModel,
+  estimateFromTwentyMinute,
+  ftpChangeThreshold,
+  type FtpEstimate,
+} from '@/lib/analysis/eftp'
+import { calculateTSS, calculateIF } from '@/lib/fit-parser'
+import { handleSessionsChanged } from './pmc-engine'
+import type { Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+// 20-minute efforts count for six weeks; the CP model needs a longer window
+const TWENTY_MINUTE_WINDOW_DAYS = 42
+const CP_MODEL_WINDOW_DAYS = 90
+
+// Don't re-propose a value the athlete rejected recently
+const REJECTION_COOLDOWN_DAYS = 14
+
+const PAGE_SIZE = 1000
+
+export interface FtpAcceptResult {
+  ftp: number
+  sessionsRecomputed: number
+  fitnessDaysRebuilt: number
+}
+
+function daysBefore(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - days)
+  return d.toISOString().split('T')[0]
+}
+
+async function estimateFromRecentEfforts(
+  athleteId: string,
+  endDate: string
+): Promise<FtpEstimate[]> {
+  const estimates: FtpEstimate[] = []
+  const twentyMinuteStart = daysBefore(endDate, TWENTY_MINUTE_WINDOW_DAYS - 1)
+  const cpStart = daysBefore(endDate, CP_MODEL_WINDOW_DAYS - 1)
+
+  const curves = await getSessionMeanMaxCurves(athleteId, cpStart, endDate, 'cycling')
+
+  // Best 20-minute power in the window
+  let best20: { watts: number; sessionId: string | null; date: string | null } | null = null
+  for (const session of curves) {
+    const day = session.date.split('T')[0]
+    if (day < twentyMinuteStart) continue
+    const watts = session.curve.find(p => p.duration === 1200)?.watts
+    if (watts && watts > (best20?.watts ?? 0)) {
+      best20 = { watts, sessionId: session.sessionId, date: day }
+    }
+  }
+
+  // Without streams, fall back to recorded power bests
+  const bests = curves.length === 0
+    ? await getPowerBestsInRange(athleteId, cpStart, endDate)
+    : []
+  if (!best20 && curves.length === 0) {
+    const recent = await getPowerBestsInRange(athleteId, twentyMinuteStart, endDate)
+    const best = recent.find(b => b.duration_seconds === 1200)
+    if (best) {
+      best20 = { watts: best.power_watts, sessionId: best.session_id ?? null, date: best.recorded_date.split('T')[0] }
+    }
+  }
+
+  if (best20) {
+    estimates.push({
+      method: 'twenty_minute',
+      ftp: estimateFromTwentyMinute(best20.watts),
+      basisWatts: best20.watts,
+      sessionId: best20.sessionId,
+      date: best20.date,
+    })
+  }
+
+  const points = curves.length > 0
+    ? mergeMeanMaxCurves(curves.map(c => c.curve))
+    : bests.map(b => ({ duration: b.duration_seconds, watts: b.power_watts }))
+  const fit = fitCriticalPowerModels(points).recommended
+  if (fit) {
+    estimates.push({
+      method: 'cp_model',
+      ftp: estimateFromCpModel(fit),
+      basisWatts: fit.cp,
+      sessionId: null,
+      date: endDate,
+    })
+  }
+
+  return estimates
+}
+
+async function estimateFromRampTests(
+  athleteId: string,
+  sessions: Session[]
+): Promise<FtpEstimate[]> {
+  const estimates: FtpEstimate[] = []
+  for (let i = 0; i < sessions.length; i += STREAM_BATCH_SIZE) {
+    const batch = sessions.slice(i, i + STREAM_BATCH_SIZE)
+    const streams = await getStoredStreamsForAthlete(athleteId, ['watts'], {
+      sessionIds: batch.map(s => s.id),
+    })
+
+    for (const session of batch) {
+      const watts = streams.get(session.id)?.watts
+      if (!watts || watts.length === 0) continue
+
+      const ramp = detectRampTest(watts, session.workout_type)
+      if (ramp) {
+        estimates.push({
+          method: 'ramp_test',
+          ftp: ramp.estimatedFtp,
+          basisWatts: ramp.peakMinutePower,
+          sessionId: session.id,
+          date: session.date.split('T')[0],
+        })
+      }
+    }
+  }
+
+  return estimates
+}
+
+/**
+ * Estimate FTP after new sessions arrive and create a pending proposal when
+ * it differs from the athlete's FTP by more than the threshold.
+ * Returns the new proposal, or null when no change is proposed.
+ */
+export async function detectFtpChange(
+  athleteId: string,
+  newSessionIds: string[]
+): Promise<FtpChangeProposal | null> {
+  if (newSessionIds.length === 0) return null
+
+  const sessions = (await Promise.all(newSessionIds.map(id => getSession(id))))
+    .filter((s): s is Session => s !== null && s.sport === 'cycling' && !!(s.avg_power || s.max_power))
+  if (sessions.length === 0) return null
+
+  const athlete = await getAthlete(athleteId)
+  if (!athlete) return null
+
+  const endDate = sessions.map(s => s.date.split('T')[0]).sort().slice(-1)[0]
+  const estimates = [
+    ...(await estimateFromRampTests(athleteId, sessions)),
+    ...(await estimateFromRecentEfforts(athleteId, endDate)),
+  ]
+
+  const assessment = assessFtpChange(athlete.ftp || null, estimates)
+  if (!assessment?.shouldPropose) return null
+
+  const threshold = ftpChangeThreshold(athlete.ftp || null)
+  const isSimilar = (proposal: FtpChangeProposal) =>
+    Math.abs(proposal.proposed_ftp - assessment.estimatedFtp) < threshold
+
+  const pending = await getPendingFtpProposal(athleteId)
+  if (pending && isSimilar(pending)) return null
+
+  const cooldownStart = new Date()
+  cooldownStart.setDate(cooldownStart.getDate() - REJECTION_COOLDOWN_DAYS)
+  const rejected = await getRejectedFtpProposals(athleteId, cooldownStart.toISOString())
+  if (rejected.some(isSimilar)) return null
+
+  const proposal = await insertFtpProposal({
+    athlete_id: athleteId,
+    current_ftp: athlete.ftp || null,
+    proposed_ftp: assessment.estimatedFtp,
+    method: assessment.method,
+    effective_date: assessment.estimate.date ?? endDate,
+    evidence: {
+      estimates,
+      triggeredBy: sessions.map(s => s.id),
+      windowStart: daysBefore(endDate, CP_MODEL_WINDOW_DAYS - 1),
+      windowEnd: endDate,
+    },
+  })
+
+  if (proposal) {
+    logger.info(`[FtpDetector] Proposed FTP ${proposal.current_ftp ?? '-'} -> ${proposal.proposed_ftp}W (${proposal.method})`)
+  }
+  return proposal
+}
+
+/**
+ * Recompute TSS/IF from normalized power for cycling sessions on or after
+ * fromDate using the new FTP
+ */
+async function recomputeSessionStress(
+  athleteId: string,
+  fromDate: string,
+  ftp: number
+): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  type StressRow = {
+    id: string
+    duration_seconds: number
+    normalized_power: number | null
+    raw_data: Record<string, unknown> | null
+  }
+  const sessions: StressRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, duration_seconds, normalized_power, raw_data')
+      .eq('athlete_id', athleteId)
+      .eq('sport', 'cycling')
+      .gte('date', fromDate)
+      .not('normalized_power', 'is', null)
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    sessions.push(...((data || []) as StressRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  let updated = 0
+  for (const session of sessions) {
+    const np = session.normalized_power!
+    const { error } = await supabase
+      .from('sessions')
+      .update({
+        tss: calculateTSS(np, session.duration_seconds, ftp) || null,
+        tss_method: 'power',
+        intensity_factor: calculateIF(np, ftp) || null,
+        raw_data: { ...(session.raw_data || {}), ftp_used: ftp },
+      })
+      .eq('id', session.id)
+
+    if (error) {
+      logger.error(`[FtpDetector] Failed to recompute stress for session ${session.id}:`, error)
+    } else {
+      updated++
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Accept a pending proposal: set the athlete's FTP, record it in FTP history
+ * and optionally recompute session TSS/IF and fitness from the effective date.
+ */
+export async function acceptFtpProposal(
+  athleteId: string,
+  proposalId: string,
+  options: { recomputeTss?: boolean } = {}
+): Promise<FtpAcceptResult | null> {
+  const proposal = await getFtpProposal(proposalId, athleteId)
+  if (!proposal || proposal.status !== 'pending') return null
+
+  const athlete = await getAthlete(athleteId)
+  const updated = await updateAthlete(athleteId, { ftp: proposal.proposed_ftp })
+  if (!updated) return null
+
+  await resolveFtpProposal(proposalId, athleteId, 'accepted')
+  await insertFtpHistory({
+    athlete_id: athleteId,
+    ftp: proposal.proposed_ftp,
+    previous_ftp: athlete?.ftp ?? proposal.current_ftp,
+    effective_date: proposal.effective_date,
+    source: 'proposal',
+    proposal_id: proposalId,
+  })
+
+  const result: FtpAcceptResult = {
+    ftp: proposal.proposed_ftp,
+    sessionsRecomputed: 0,
+    fitnessDaysRebuilt: 0,
+  }
+
+  if (options.recomputeTss) {
+    result.sessionsRecomputed = await recomputeSessionStress(
+      athleteId,
+      proposal.effective_date,
+      proposal.proposed_ftp
+    )
+    if (result.sessionsRecomputed > 0) {
+      result.fitnessDaysRebuilt = await handleSessionsChanged(athleteId, [proposal.effective_date])
+    }
+  }
+
+  return result
+}
+
+export async function rejectFtpProposal(
+  athleteId: string,
+  proposalId: string
+): Promise<boolean> {
+  return resolveFtpProposal(proposalId, athleteId, 'rejected')
+}
@@ -0,0 +1,271 @@
+/**
+ * Plan Adaptation Engine
+ *
+ * Re-balances the remaining weeks of the active training plan after missed
+ * key workouts, illness or more load than planned, and saves the result as a
+ * draft copy of the plan. Accepting the draft through the plan-proposal
+ * widget replaces the active plan, so the adapted plan carries over the
+ * completed days and their compliance.
+ */
+
+import { getSessions } from '@/lib/db/sessions'
+import {
+  createPlanDays,
+  createTrainingPlan,
+  getActivePlan,
+  getPlanDays,
+  updateTrainingPlan,
+  type PlanDayInsert,
+} from '@/lib/db/training-plans'
+import { adaptPlan, isKeyWorkout, type AdaptationWeek, type PlanAdaptation, type SickPeriod } from '@/lib/plans/adaptation'
+import { isWorkoutDay } from '@/lib/analysis/plan-compliance'
+import { matchPlanCompliance } from './plan-compliance-engine'
+import { formatDateForApi } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+import type { PlanDay, TrainingPlan } from '@/types'
+
+// Sessions loaded for the last week's load
+const SESSION_LIMIT = 100
+
+interface PlanDataWeek {
+  weekNumber: number
+  phase?: string
+  focusDescription?: string
+  targetTSSRange?: [number, number]
+  actualTargetTSS?: number
+  days?: Array<{
+    date: string
+    isKeyWorkout?: boolean
+    workout?: Record<string, unknown> | null
+  }>
+}
+
+export interface AdaptedWeekSummary {
+  week: number
+  phase: string
+  focus: string
+  targetTSS: number
+  days: Array<{
+    date: string
+    dayOfWeek: number
+    isKeyWorkout: boolean
+    workout: {
+      name: string
+      category: string
+      targetTSS: number
+      targetDurationMinutes: number
+    } | null
+  }>
+}
+
+export interface PlanAdaptationProposal {
+  plan: TrainingPlan
+  /** Draft plan holding the adapted days; null when nothing changed or it couldn't be saved */
+  draftPlanId: string | null
+  adaptation: PlanAdaptation
+  planData: Record<string, unknown>
+  /** Weeks from the current one on, in the plan-proposal widget's shape */
+  weekSummaries: AdaptedWeekSummary[]
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function planDataWeeks(plan: TrainingPlan): PlanDataWeek[] {
+  const weeks = plan.plan_data?.weeks
+  return Array.isArray(weeks) ? weeks as PlanDataWeek[] : []
+}
+
+/** The day's workout, null for rest and skipped days */
+function scheduledWorkout(day: PlanDay | undefined): PlanDay | null {
+  return day && !day.skipped && isWorkoutDay(day) ? day : null
+}
+
+/**
+ * Plan data with each week's days and target TSS rewritten from the adapted
+ * plan days, so projections and exports follow the adaptation
+ */
+function adaptedPlanData(plan: TrainingPlan, adaptation: PlanAdaptation): Record<string, unknown> {
+  const byDate = new Map<string, PlanDay>()
+  for (const day of adaptation.days) {
+    if (!byDate.has(day.date) || !day.skipped) byDate.set(day.date, day)
+  }
+  const tssByWeek = new Map(adaptation.weeks.map(w => [w.weekNumber, w.adaptedTSS]))
+
+  const weeks = planDataWeeks(plan).map(week => ({
+    ...week,
+    actualTargetTSS: tssByWeek.get(week.weekNumber) ?? week.actualTargetTSS,
+    days: (week.days ?? []).map(day => {
+      const adapted = scheduledWorkout(byDate.get(day.date))
+      if (!adapted) return { ...day, workout: null, isKeyWorkout: false }
+      return {
+        ...day,
+        workout: {
+          ...(day.workout ?? {}),
+          templateId: adapted.workout_template_id ?? null,
+          name: adapted.workout_name ?? adapted.workout_type ?? 'Workout',
+          category: adapted.workout_type ?? 'endurance',
+          targetTSS: adapted.target_tss ?? 0,
+          targetDurationMinutes: adapted.target_duration_minutes ?? 0,
+          targetIF: adapted.target_if ?? null,
+          intervals: adapted.intervals_json ?? undefined,
+        },
+      }
+    }),
+  }))
+
+  return {
+    ...plan.plan_data,
+    weeks,
+    adaptedFrom: plan.id,
+    adaptation: {
+      createdAt: new Date().toISOString(),
+      triggers: adaptation.triggers,
+      changes: adaptation.changes,
+    },
+  }
+}
+
+function weekSummaries(plan: TrainingPlan, adaptation: PlanAdaptation, today: string): AdaptedWeekSummary[] {
+  const meta = new Map(planDataWeeks(plan).map(w => [w.weekNumber, w]))
+  return adaptation.weeks
+    .map(week => {
+      const days = adaptation.days.filter(d => d.week_number === week.weekNumber && !d.skipped)
+      return { week, days }
+    })
+    .filter(({ days }) => days.some(d => d.date >= today))
+    .map(({ week, days }) => ({
+      week: week.weekNumber,
+      phase: week.phase,
+      focus: meta.get(week.weekNumber)?.focusDescription ?? '',
+      targetTSS: week.adaptedTSS,
+      days: days.map(day => {
+        const workout = scheduledWorkout(day)
+        return {
+          date: day.date,
+          dayOfWeek: day.day_of_week,
+          isKeyWorkout: !!workout && isKeyWorkout(workout),
+          workout: workout ? {
+            name: workout.workout_name ?? workout.workout_type ?? 'Workout',
+            category: workout.workout_type ?? 'endurance',
+            targetTSS: workout.target_tss ?? 0,
+            targetDurationMinutes: workout.target_duration_minutes ?? 0,
+          } : null,
+        }
+      }),
+    }))
+}
+
+function toInsert(day: PlanDay, planId: string): PlanDayInsert {
+  return {
+    plan_id: planId,
+    date: day.date,
+    week_number: day.week_number,
+    day_of_week: day.day_of_week,
+    workout_template_id: day.workout_template_id ?? null,
+    workout_type: day.workout_type ?? null,
+    workout_name: day.workout_name ?? null,
+    target_tss: day.target_tss ?? null,
+    target_duration_minutes: day.target_duration_minutes ?? null,
+    target_if: day.target_if ?? null,
+    custom_description: day.custom_description ?? null,
+    intervals_json: day.intervals_json ?? null,
+    completed: day.completed,
+    actual_session_id: day.actual_session_id ?? null,
+    actual_tss: day.actual_tss ?? null,
+    actual_duration_minutes: day.actual_duration_minutes ?? null,
+    compliance_score: day.compliance_score ?? null,
+    coach_notes: day.coach_notes ?? null,
+    athlete_notes: day.athlete_notes ?? null,
+    skipped: day.skipped ?? false,
+    rescheduled_from: day.rescheduled_from ?? null,
+    rescheduled_to: day.rescheduled_to ?? null,
+  }
+}
+
+/**
+ * Adapt the active plan to what actually happened and save it as a draft.
+ * Returns null without an active plan.
+ */
+export async function proposePlanAdaptation(
+  athleteId: string,
+  options: { sick?: SickPeriod | null } = {}
+): Promise<PlanAdaptationProposal | null> {
+  const plan = await getActivePlan(athleteId)
+  if (!plan) return null
+
+  const today = formatDateForApi(new Date())
+
+  // Link recent sessions first so completed workouts don't count as missed
+  try {
+    await matchPlanCompliance(athleteId)
+  } catch (error) {
+    logger.warn('[PlanAdaptation] Compliance matching failed:', error)
+  }
+
+  const [days, sessions] = await Promise.all([
+    getPlanDays(plan.id),
+    getSessions(athleteId, { startDate: shiftDays(today, -7), endDate: shiftDays(today, -1), limit: SESSION_LIMIT }),
+  ])
+
+  const actualLoad: Record<string, number> = {}
+  for (const session of sessions) {
+    const date = session.date.split('T')[0]
+    actualLoad[date] = (actualLoad[date] ?? 0) + (session.tss ?? 0)
+  }
+
+  const weeks: AdaptationWeek[] = planDataWeeks(plan).map(w => ({
+    weekNumber: w.weekNumber,
+    phase: w.phase ?? 'build',
+    targetTSSRange: w.targetTSSRange ?? null,
+  }))
+
+  const adaptation = adaptPlan({
+    days,
+    weeks,
+    today,
+    targetEventDate: plan.target_event_date,
+    sick: options.sick,
+    actualLoad,
+  })
+
+  const planData = adaptedPlanData(plan, adaptation)
+  const proposal: PlanAdaptationProposal = {
+    plan,
+    draftPlanId: null,
+    adaptation,
+    planData,
+    weekSummaries: weekSummaries(plan, adaptation, today),
+  }
+  if (adaptation.changes.length === 0) return proposal
+
+  try {
+    const draft = await createTrainingPlan({
+      athlete_id: athleteId,
+      name: plan.name,
+      description: plan.description ?? null,
+      goal: plan.goal,
+      duration_weeks: plan.duration_weeks,
+      weekly_hours_target: plan.weekly_hours_target ?? null,
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      key_workout_days: plan.key_workout_days ?? [],
+      target_event_id: plan.target_event_id ?? null,
+      target_event_date: plan.target_event_date ?? null,
+      status: 'draft',
+      plan_data: planData,
+    })
+    if (draft) {
+      await createPlanDays(adaptation.days.map(day => toInsert(day, draft.id)))
+      await updateTrainingPlan(draft.id, { progress_percent: plan.progress_percent })
+      proposal.draftPlanId = draft.id
+    }
+  } catch (error) {
+    logger.error('[PlanAdaptation] Failed to save adapted plan draft:', error)
+  }
+
+  return proposal
+}
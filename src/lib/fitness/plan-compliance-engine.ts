@@ -0,0 +1,99 @@
+/**
+ * Plan Compliance Engine
+ *
+ * Links synced and uploaded sessions to the open days of the active training
+ * plan, scores compliance (duration, TSS, IF and, for structured workouts,
+ * reps executed as prescribed), marks the days complete and updates plan
+ * progress. Runs after each sync and upload.
+ */
+
+import { getAthlete } from '@/lib/db/athletes'
+import { getSessions } from '@/lib/db/sessions'
+import { getStoredStreams } from '@/lib/db/session-streams'
+import {
+  calculatePlanProgress,
+  getActivePlan,
+  getPlanDays,
+  updatePlanDay,
+  updateTrainingPlan,
+} from '@/lib/db/training-plans'
+import { compareWithPrescribed } from '@/lib/analysis/interval-detection'
+import { detectSessionIntervals, getPrescribedIntervals } from '@/lib/analysis/session-intervals'
+import {
+  matchSessionsToPlanDays,
+  scoreCompliance,
+  sessionExecution,
+  type PlanDayMatch,
+} from '@/lib/analysis/plan-compliance'
+import { formatDateForApi } from '@/lib/intervals-icu'
+import { logger } from '@/lib/logger'
+
+// Sessions loaded for matching; a plan's worth of training
+const SESSION_LIMIT = 1000
+
+/**
+ * Share of prescribed reps executed as prescribed, null for unstructured
+ * days or sessions without a power stream
+ */
+async function intervalCompletion(match: PlanDayMatch, ftp: number | null): Promise<number | null> {
+  const prescribed = getPrescribedIntervals(match.day)
+  if (prescribed.length === 0) return null
+
+  const streams = await getStoredStreams(match.session.id, ['watts', 'time', 'heartrate', 'cadence'])
+  if (!streams?.watts || streams.watts.length === 0) return null
+
+  const { intervals } = detectSessionIntervals(match.session, { ...streams, watts: streams.watts }, ftp)
+  const comparison = compareWithPrescribed(intervals, prescribed)
+  return comparison ? comparison.completedReps / comparison.prescribedReps : null
+}
+
+/**
+ * Match sessions from fromDate (default: the plan start) to today against the
+ * active plan. Returns the number of plan days completed.
+ */
+export async function matchPlanCompliance(athleteId: string, fromDate?: string): Promise<number> {
+  const plan = await getActivePlan(athleteId)
+  if (!plan) return 0
+
+  const today = formatDateForApi(new Date())
+  const startDate = fromDate && fromDate > plan.start_date ? fromDate : plan.start_date
+  const endDate = plan.end_date < today ? plan.end_date : today
+  if (startDate > endDate) return 0
+
+  const [days, sessions] = await Promise.all([
+    getPlanDays(plan.id),
+    getSessions(athleteId, { startDate, endDate, limit: SESSION_LIMIT }),
+  ])
+  const matches = matchSessionsToPlanDays(days, sessions)
+  if (matches.length === 0) return 0
+
+  const ftp = (await getAthlete(athleteId))?.ftp ?? null
+  let completed = 0
+  for (const match of matches) {
+    let compliance = match.compliance
+    try {
+      const completion = await intervalCompletion(match, ftp)
+      if (completion !== null) {
+        compliance = scoreCompliance(match.day, sessionExecution(match.session, completion)) ?? compliance
+      }
+    } catch (error) {
+      logger.warn(`[PlanCompliance] Interval comparison failed for session ${match.session.id}:`, error)
+    }
+
+    const updated = await updatePlanDay(match.day.id, {
+      completed: true,
+      actual_session_id: match.session.id,
+      actual_tss: match.session.tss !== undefined ? Math.round(match.session.tss) : null,
+      actual_duration_minutes: Math.round(match.session.duration_seconds / 60),
+      compliance_score: compliance.score,
+    })
+    if (updated) completed++
+  }
+
+  if (completed > 0) {
+    const progress = await calculatePlanProgress(plan.id)
+    await updateTrainingPlan(plan.id, { progress_percent: progress })
+    logger.info(`[PlanCompliance] Completed ${completed} plan days, plan progress ${progress}%`)
+  }
+  return completed
+}
@@ -0,0 +1,280 @@
+/**
+ * Local PMC Engine
+ *
+ * Computes daily CTL/ATL/TSB/ramp rate from sessions.tss with the athlete's
+ * own time constants and writes them to fitness_history (source 'local').
+ * This gives athletes without intervals.icu (FIT uploads, archive imports) a
+ * correct PMC, and lets intervals.icu athletes replace the synced wellness
+ * values with locally calculated ones.
+ *
+ * Recomputes are incremental: they start at the earliest changed date and
+ * continue from the stored local values of the days before it, falling back
+ * to a full recompute from the first session when those are missing.
+ *
+ * The per-sport split (fitness_history_by_sport) is always calculated
+ * locally, also for athletes whose overall PMC comes from intervals.icu.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete } from '@/lib/db/athletes'
+import { getIntegration, PROVIDERS } from '@/lib/db/integrations'
+import {
+  deleteSportFitness,
+  getFitnessRange,
+  getSportFitnessRange,
+  upsertFitnessBatch,
+  upsertSportFitnessBatch,
+} from '@/lib/db/fitness'
+import {
+  calculatePmc,
+  resolveTimeConstants,
+  sumDailyTss,
+  sumDailyTssBySport,
+  type PmcDay,
+  type PmcTimeConstants,
+} from './pmc'
+import type { Session, SportFitness } from '@/types'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+// Days of stored CTL needed before the recompute start for the ramp rate
+const RAMP_RATE_DAYS = 7
+
+export type FitnessSource = 'intervals_icu' | 'local'
+
+type SessionTss = { date: string; tss: number | null; sport: Session['sport'] }
+
+export interface PmcSettings {
+  timeConstants: PmcTimeConstants
+  /** Where fitness_history CTL/ATL/TSB come from */
+  source: FitnessSource
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+/**
+ * The athlete's CTL/ATL time constants and fitness source.
+ * Without an explicit source, intervals.icu athletes keep the synced wellness
+ * values and everyone else uses the local engine.
+ */
+export async function getPmcSettings(athleteId: string): Promise<PmcSettings> {
+  const athlete = await getAthlete(athleteId)
+  const timeConstants = resolveTimeConstants(athlete?.ctl_time_constant, athlete?.atl_time_constant)
+
+  if (athlete?.fitness_source) {
+    return { timeConstants, source: athlete.fitness_source }
+  }
+
+  const intervals = await getIntegration(athleteId, PROVIDERS.INTERVALS_ICU)
+  return { timeConstants, source: intervals ? 'intervals_icu' : 'local' }
+}
+
+/**
+ * Session dates, sports and TSS from fromDate onwards (all sessions when omitted)
+ */
+async function loadSessionTss(
+  athleteId: string,
+  fromDate?: string
+): Promise<SessionTss[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const sessions: SessionTss[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('date, tss, sport')
+      .eq('athlete_id', athleteId)
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    sessions.push(...((data || []) as SessionTss[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return sessions
+}
+
+/**
+ * Daily TSS (YYYY-MM-DD -> TSS) from stored sessions, from fromDate onwards
+ */
+export async function getDailyTss(athleteId: string, fromDate?: string): Promise<Map<string, number>> {
+  return sumDailyTss(await loadSessionTss(athleteId, fromDate))
+}
+
+/**
+ * PMC from every stored session, starting at zero on the first session and
+ * running through endDate. Nothing is written.
+ */
+export async function computeLocalPmc(
+  athleteId: string,
+  endDate: string = today(),
+  timeConstants?: PmcTimeConstants
+): Promise<PmcDay[]> {
+  const sessions = await loadSessionTss(athleteId)
+  if (sessions.length === 0) return []
+
+  const constants = timeConstants ?? (await getPmcSettings(athleteId)).timeConstants
+  const firstDate = sessions[0].date.split('T')[0]
+  return calculatePmc(sumDailyTss(sessions), firstDate, endDate, { ctl: 0, atl: 0 }, constants)
+}
+
+/**
+ * Recompute and store every day from the first session through today
+ */
+export async function recomputeAllFitness(
+  athleteId: string,
+  timeConstants?: PmcTimeConstants
+): Promise<number> {
+  const constants = timeConstants ?? (await getPmcSettings(athleteId)).timeConstants
+  const days = await computeLocalPmc(athleteId, today(), constants)
+  if (days.length === 0) return 0
+
+  const written = await upsertFitnessBatch(
+    days.map(day => ({ athlete_id: athleteId, ...day, source: 'local' }))
+  )
+  logger.info(`[PmcEngine] Recomputed ${written} days of fitness history`)
+  await recomputeSportFitness(athleteId, undefined, constants)
+  return written
+}
+
+function toSportRows(athleteId: string, sport: Session['sport'], days: PmcDay[]): SportFitness[] {
+  return days.map(day => ({ athlete_id: athleteId, sport, ...day }))
+}
+
+/**
+ * Recompute and store the per-sport PMC from fromDate through today (every
+ * day from each sport's first session when omitted). Each sport continues
+ * from its stored values of the week before fromDate; a sport without
+ * stored values there had no earlier sessions and starts from zero. Falls
+ * back to a full recompute when the stored week is incomplete.
+ */
+export async function recomputeSportFitness(
+  athleteId: string,
+  fromDate?: string,
+  timeConstants?: PmcTimeConstants
+): Promise<number> {
+  const constants = timeConstants ?? (await getPmcSettings(athleteId)).timeConstants
+  const endDate = today()
+  const rows: SportFitness[] = []
+
+  const startDate = fromDate?.split('T')[0]
+  const previous = startDate
+    ? await getSportFitnessRange(athleteId, addDays(startDate, -RAMP_RATE_DAYS), addDays(startDate, -1))
+    : []
+  const previousBySport = new Map<Session['sport'], SportFitness[]>()
+  for (const day of previous) {
+    previousBySport.set(day.sport, [...(previousBySport.get(day.sport) ?? []), day])
+  }
+  const seeded = startDate !== undefined
+    && previous.length > 0
+    && [...previousBySport.values()].every(days =>
+      days.length === RAMP_RATE_DAYS && days[days.length - 1].date === addDays(startDate, -1)
+    )
+
+  if (startDate && seeded) {
+    const daily = sumDailyTssBySport(await loadSessionTss(athleteId, startDate))
+    const sports = new Set([...previousBySport.keys(), ...daily.keys()])
+    for (const sport of sports) {
+      const before = previousBySport.get(sport)
+      const seed = before?.[before.length - 1]
+      const days = calculatePmc(
+        daily.get(sport) ?? new Map(),
+        startDate,
+        endDate,
+        {
+          ctl: seed?.ctl ?? 0,
+          atl: seed?.atl ?? 0,
+          ctlHistory: before ? before.map(day => day.ctl) : new Array(RAMP_RATE_DAYS).fill(0),
+        },
+        constants
+      )
+      rows.push(...toSportRows(athleteId, sport, days))
+    }
+  } else {
+    const sessions = await loadSessionTss(athleteId)
+    for (const [sport, daily] of sumDailyTssBySport(sessions)) {
+      const firstDate = sessions.find(s => s.sport === sport)!.date.split('T')[0]
+      rows.push(...toSportRows(athleteId, sport, calculatePmc(daily, firstDate, endDate, { ctl: 0, atl: 0 }, constants)))
+    }
+    await deleteSportFitness(athleteId)
+  }
+
+  if (rows.length === 0) return 0
+  const written = await upsertSportFitnessBatch(rows)
+  logger.info(`[PmcEngine] Recomputed ${written} days of per-sport fitness${seeded ? ` from ${startDate}` : ''}`)
+  return written
+}
+
+/**
+ * Recompute and store fitness_history from fromDate through today, after
+ * sessions on or after fromDate were added, edited or deleted.
+ */
+export async function recomputeFitnessHistory(
+  athleteId: string,
+  fromDate: string,
+  timeConstants?: PmcTimeConstants
+): Promise<number> {
+  const constants = timeConstants ?? (await getPmcSettings(athleteId)).timeConstants
+  const startDate = fromDate.split('T')[0]
+
+  // Continue from the locally computed days before startDate
+  const previous = await getFitnessRange(athleteId, addDays(startDate, -RAMP_RATE_DAYS), addDays(startDate, -1))
+  const seed = previous[previous.length - 1]
+  const seeded = previous.length === RAMP_RATE_DAYS
+    && previous.every(day => day.source === 'local')
+    && seed.date === addDays(startDate, -1)
+
+  if (!seeded) {
+    return recomputeAllFitness(athleteId, constants)
+  }
+  await recomputeSportFitness(athleteId, startDate, constants)
+
+  const sessions = await loadSessionTss(athleteId, startDate)
+  const days = calculatePmc(
+    sumDailyTss(sessions),
+    startDate,
+    today(),
+    { ctl: seed.ctl, atl: seed.atl, ctlHistory: previous.map(day => day.ctl) },
+    constants
+  )
+
+  const written = await upsertFitnessBatch(
+    days.map(day => ({ athlete_id: athleteId, ...day, source: 'local' }))
+  )
+  logger.info(`[PmcEngine] Recomputed ${written} days of fitness history from ${startDate}`)
+  return written
+}
+
+/**
+ * Keep the local PMC current after sessions changed on the given dates.
+ * The overall PMC is only recomputed for athletes whose fitness comes from
+ * the local engine; the per-sport split is recomputed for everyone.
+ */
+export async function handleSessionsChanged(
+  athleteId: string,
+  dates: string[]
+): Promise<number> {
+  if (dates.length === 0) return 0
+
+  const settings = await getPmcSettings(athleteId)
+  const fromDate = dates.map(date => date.split('T')[0]).sort()[0]
+  if (settings.source !== 'local') {
+    await recomputeSportFitness(athleteId, fromDate, settings.timeConstants)
+    return 0
+  }
+
+  return recomputeFitnessHistory(athleteId, fromDate, settings.timeConstants)
+}
@@ -0,0 +1,133 @@
+/**
+ * Time constants (days) of the CTL and ATL moving averages.
+ * 42/7 is the standard; athletes can configure their own.
+ */
+export interface PmcTimeConstants {
+  ctlDays: number
+  atlDays: number
+}
+
+export const DEFAULT_TIME_CONSTANTS: PmcTimeConstants = { ctlDays: 42, atlDays: 7 }
+
+// Allowed ranges for athlete-configured time constants
+export const CTL_DAYS_RANGE = { min: 14, max: 90 }
+export const ATL_DAYS_RANGE = { min: 3, max: 21 }
+
+// Ramp rate = CTL change over this many days
+const RAMP_RATE_DAYS = 7
+
+export interface PmcDay {
+  date: string
+  ctl: number
+  atl: number
+  tsb: number
+  tss_day: number
+  /** CTL change over the last 7 days (null while fewer than 7 days have been computed) */
+  ramp_rate: number | null
+}
+
+/**
+ * Time constants from the athlete's settings, falling back to 42/7 for
+ * missing or out-of-range values (ATL must stay shorter than CTL).
+ */
+export function resolveTimeConstants(
+  ctlDays?: number | null,
+  atlDays?: number | null
+): PmcTimeConstants {
+  const ctl = ctlDays && ctlDays >= CTL_DAYS_RANGE.min && ctlDays <= CTL_DAYS_RANGE.max
+    ? ctlDays
+    : DEFAULT_TIME_CONSTANTS.ctlDays
+  const atl = atlDays && atlDays >= ATL_DAYS_RANGE.min && atlDays <= ATL_DAYS_RANGE.max && atlDays < ctl
+    ? atlDays
+    : DEFAULT_TIME_CONSTANTS.atlDays
+  return { ctlDays: ctl, atlDays: atl }
+}
+
+/**
+ * One day of the moving average: load + (tss - load) / timeConstant
+ */
+export function pmcStep(load: number, tss: number, timeConstant: number): number {
+  return load + (tss - load) / timeConstant
+}
+
+/**
+ * Sum TSS per calendar day (YYYY-MM-DD) from session dates
+ */
+export function sumDailyTss(sessions: Array<{ date: string; tss: number | null }>): Map<string, number> {
+  const daily = new Map<string, number>()
+  for (const session of sessions) {
+    if (!session.tss) continue
+    const day = session.date.split('T')[0]
+    daily.set(day, (daily.get(day) || 0) + session.tss)
+  }
+  return daily
+}
+
+/**
+ * Sum TSS per sport and calendar day (sport -> YYYY-MM-DD -> TSS)
+ */
+export function sumDailyTssBySport<S extends string>(
+  sessions: Array<{ date: string; tss: number | null; sport: S }>
+): Map<S, Map<string, number>> {
+  const bySport = new Map<S, Array<{ date: string; tss: number | null }>>()
+  for (const session of sessions) {
+    const list = bySport.get(session.sport) ?? []
+    list.push(session)
+    bySport.set(session.sport, list)
+  }
+  return new Map([...bySport].map(([sport, list]) => [sport, sumDailyTss(list)]))
+}
+
+/**
+ * Calculate the Performance Management Chart from daily TSS.
+ *
+ * Same exponential weighted moving average as projectFitness:
+ * - CTL = yesterday_CTL + (today_TSS - yesterday_CTL) / ctlDays (42)
+ * - ATL = yesterday_ATL + (today_TSS - yesterday_ATL) / atlDays (7)
+ * - TSB = CTL - ATL
+ * - Ramp rate = CTL - CTL 7 days earlier
+ *
+ * Starts from the given CTL/ATL on the day before startDate and returns one row
+ * per day from startDate through endDate inclusive. Ramp rate needs 7 days of
+ * history, so it is null for the first 7 rows unless initial.ctlHistory holds
+ * the CTL of the 7 days before startDate (oldest first).
+ */
+export function calculatePmc(
+  dailyTss: Map<string, number>,
+  startDate: string,
+  endDate: string,
+  initial: { ctl: number; atl: number; ctlHistory?: number[] } = { ctl: 0, atl: 0 },
+  timeConstants: PmcTimeConstants = DEFAULT_TIME_CONSTANTS
+): PmcDay[] {
+  const days: PmcDay[] = []
+  let ctl = initial.ctl
+  let atl = initial.atl
+  const ctlHistory = [...(initial.ctlHistory ?? [])].slice(-RAMP_RATE_DAYS)
+
+  const current = new Date(`${startDate}T00:00:00Z`)
+  const end = new Date(`${endDate}T00:00:00Z`)
+
+  while (current <= end) {
+    const date = current.toISOString().split('T')[0]
+    const tss = dailyTss.get(date) || 0
+
+    ctl = pmcStep(ctl, tss, timeConstants.ctlDays)
+    atl = pmcStep(atl, tss, timeConstants.atlDays)
+    const tsb = ctl - atl
+    const ctlWeekAgo = ctlHistory.length >= RAMP_RATE_DAYS ? ctlHistory.shift()! : null
+    ctlHistory.push(ctl)
+
+    days.push({
+      date,
+      ctl: Math.round(ctl * 10) / 10,
+      atl: Math.round(atl * 10) / 10,
+      tsb: Math.round(tsb * 10) / 10,
+      tss_day: Math.round(tss),
+      ramp_rate: ctlWeekAgo != null ? Math.round((ctl - ctlWeekAgo) * 10) / 10 : null,
+    })
+
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+
+  return days
+}
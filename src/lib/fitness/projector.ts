@@ -1,8 +1,11 @@
 import type { PlanDay } from '@/types'
-
-// CTL and ATL time constants (days)
-const CTL_TIME_CONSTANT = 42
-const ATL_TIME_CONSTANT = 7
+import { DEFAULT_TIME_CONSTANTS, pmcStep, type PmcTimeConstants } from './pmc'
+import {
+  advanceBanisterState,
+  banisterPerformance,
+  type BanisterModel,
+  type BanisterState,
+} from '@/lib/analysis/banister'
 
 export interface ProjectedFitness {
   date: string
@@ -15,6 +18,8 @@ export interface ProjectedFitness {
   eventPriority?: string
   isCompleted: boolean
   isSkipped: boolean
+  /** Predicted performance (% of best) from the athlete's Banister model */
+  predictedPerformance?: number
 }
 
 export interface FitnessProjectionInput {
@@ -23,18 +28,23 @@ export interface FitnessProjectionInput {
   currentDate: string
   plannedDays: PlanDay[]
   events: Array<{ date: string; name: string; priority: string }>
+  /** The athlete's CTL/ATL time constants (default 42/7) */
+  timeConstants?: PmcTimeConstants
+  /** Fitted Banister model and its impulses at the first projected day */
+  performance?: { model: BanisterModel; state: BanisterState }
 }
 
 /**
  * Project fitness (CTL/ATL/TSB) based on current fitness and planned workouts
  *
  * Uses exponential weighted moving average:
- * - CTL = yesterday_CTL + (today_TSS - yesterday_CTL) / 42
- * - ATL = yesterday_ATL + (today_TSS - yesterday_ATL) / 7
+ * - CTL = yesterday_CTL + (today_TSS - yesterday_CTL) / ctlDays (42)
+ * - ATL = yesterday_ATL + (today_TSS - yesterday_ATL) / atlDays (7)
  * - TSB = CTL - ATL
  */
 export function projectFitness(input: FitnessProjectionInput): ProjectedFitness[] {
   const { currentCtl, currentAtl, currentDate, plannedDays, events } = input
+  const timeConstants = input.timeConstants ?? DEFAULT_TIME_CONSTANTS
 
   if (plannedDays.length === 0) {
     return []
@@ -61,6 +71,7 @@ export function projectFitness(input: FitnessProjectionInput): ProjectedFitness[
   const projections: ProjectedFitness[] = []
   let ctl = currentCtl
   let atl = currentAtl
+  let performanceState = input.performance?.state
 
   // Start from current date or plan start, whichever is earlier
   const iterationStart = new Date(Math.min(
@@ -98,9 +109,17 @@ export function projectFitness(input: FitnessProjectionInput): ProjectedFitness[
       }
     }
 
+    // Performance on the day, before its training
+    let predictedPerformance: number | undefined
+    if (input.performance && performanceState) {
+      const { model } = input.performance
+      predictedPerformance = Math.round(banisterPerformance(model, performanceState) * 10) / 10
+      performanceState = advanceBanisterState(performanceState, tss, model.tau1, model.tau2)
+    }
+
     // Calculate new fitness values using exponential decay
-    ctl = ctl + (tss - ctl) / CTL_TIME_CONSTANT
-    atl = atl + (tss - atl) / ATL_TIME_CONSTANT
+    ctl = pmcStep(ctl, tss, timeConstants.ctlDays)
+    atl = pmcStep(atl, tss, timeConstants.atlDays)
     const tsb = ctl - atl
 
     projections.push({
@@ -114,6 +133,7 @@ export function projectFitness(input: FitnessProjectionInput): ProjectedFitness[
       eventPriority: event?.priority,
       isCompleted,
       isSkipped,
+      predictedPerformance,
     })
 
     current.setDate(current.getDate() + 1)
@@ -0,0 +1,82 @@
+/**
+ * Running Bests Engine
+ *
+ * Stores each run's fastest 1k, 5k, 10k and half marathon on the session
+ * from its distance stream. Uploaded files are analyzed on import;
+ * intervals.icu runs when their streams are stored, and this fills in runs
+ * whose streams were stored before that.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE, type SessionStreams } from '@/lib/db/session-streams'
+import { runningBestsFromStreams } from '@/lib/analysis/running'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Find a run's best efforts in its streams and store them on the session.
+ * Other sports are left alone. Returns false when the update failed.
+ */
+export async function storeRunningBests(sessionId: string, streams: SessionStreams): Promise<boolean> {
+  const supabase = await createClient()
+  if (!supabase) return false
+
+  // A run without a distance stream is marked analyzed with no bests
+  const bests = streams.distance ? runningBestsFromStreams(streams.distance, streams.time) : []
+  const { error } = await supabase
+    .from('sessions')
+    .update({ running_bests: bests })
+    .eq('id', sessionId)
+    .eq('sport', 'running')
+
+  if (error) {
+    logger.error(`[RunningBests] Failed to store bests for session ${sessionId}:`, error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Analyze every run from fromDate onwards that has stored streams but no
+ * best efforts yet. Returns the number of runs analyzed.
+ */
+export async function analyzeUnrankedRuns(athleteId: string, fromDate?: string): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  const ids: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('id')
+      .eq('athlete_id', athleteId)
+      .eq('sport', 'running')
+      .is('running_bests', null)
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    ids.push(...(data || []).map(r => r.id as string))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (ids.length === 0) return 0
+
+  let analyzed = 0
+  for (let i = 0; i < ids.length; i += STREAM_BATCH_SIZE) {
+    const streams = await getStoredStreamsForAthlete(athleteId, ['time', 'distance'], {
+      sessionIds: ids.slice(i, i + STREAM_BATCH_SIZE),
+    })
+    for (const [sessionId, sessionStreams] of streams) {
+      if (await storeRunningBests(sessionId, sessionStreams)) analyzed++
+    }
+  }
+
+  if (analyzed > 0) {
+    logger.info(`[RunningBests] Analyzed ${analyzed} of ${ids.length} runs without best efforts`)
+  }
+  return analyzed
+}
@@ -0,0 +1,198 @@
+/**
+ * Session Stress Engine
+ *
+ * Scores stored sessions that have no TSS (runs, unpowered rides, strength)
+ * with the power → rTSS → hrTSS → TRIMP → session RPE fallback, using the
+ * athlete's thresholds and stored heart rate and running streams, and
+ * records the method used.
+ * Sessions are scored on upload/sync; this fills in the rest, re-scores
+ * runs with normalized graded pace once their streams are stored, replaces
+ * intervals.icu's load once a local method applies, and rescores sessions
+ * after the athlete enters an RPE.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getAthlete } from '@/lib/db/athletes'
+import { updateSession } from '@/lib/db/sessions'
+import { getStoredStreamsForAthlete, STREAM_BATCH_SIZE, type SessionStreams, type StreamType } from '@/lib/db/session-streams'
+import { calculateGradeAdjustedSpeed, calculateNormalizedGradedSpeed } from '@/lib/analysis/running'
+import { calculateIntensityFactor, calculateSessionStress, type StressInput, type StressProfile, type StressScore } from './stress'
+import { handleSessionsChanged } from './pmc-engine'
+import type { Session } from '@/types'
+import { logger } from '@/lib/logger'
+
+const PAGE_SIZE = 1000
+const STRESS_STREAM_TYPES: StreamType[] = ['heartrate', 'velocity_smooth', 'distance', 'altitude']
+
+interface UnscoredRow {
+  id: string
+  date: string
+  sport: Session['sport']
+  tss: number | null
+  tss_method: Session['tss_method'] | null
+  duration_seconds: number
+  distance_meters: number | null
+  normalized_power: number | null
+  avg_hr: number | null
+  rpe: number | null
+  trimp: number | null
+  external_load: number | null
+}
+
+/**
+ * The athlete's thresholds for stress scoring
+ */
+export async function getStressProfile(athleteId: string): Promise<StressProfile> {
+  const athlete = await getAthlete(athleteId)
+  return {
+    ftp: athlete?.ftp ?? null,
+    runningFtp: athlete?.running_ftp ?? null,
+    thresholdPace: athlete?.threshold_pace ?? null,
+    lthr: athlete?.lthr ?? null,
+    maxHr: athlete?.max_hr ?? null,
+    restingHr: athlete?.resting_hr ?? null,
+  }
+}
+
+async function loadStreams(athleteId: string, sessionIds: string[]): Promise<Map<string, SessionStreams>> {
+  if (sessionIds.length === 0) return new Map()
+  return getStoredStreamsForAthlete(athleteId, STRESS_STREAM_TYPES, { sessionIds })
+}
+
+/**
+ * Stress inputs from a session's streams: heart rate, and for runs the
+ * normalized graded speed (or average speed without a speed stream)
+ */
+function streamInputs(
+  sport: Session['sport'],
+  durationSeconds: number,
+  distanceMeters: number | null | undefined,
+  streams?: SessionStreams
+): Pick<StressInput, 'heartrate' | 'ngpSpeed' | 'avgSpeed'> {
+  const running = sport === 'running'
+  return {
+    heartrate: streams?.heartrate,
+    ngpSpeed: running && streams?.velocity_smooth
+      ? calculateNormalizedGradedSpeed(calculateGradeAdjustedSpeed(streams))
+      : null,
+    avgSpeed: running && distanceMeters && durationSeconds > 0 ? distanceMeters / durationSeconds : null,
+  }
+}
+
+/**
+ * Score one session from its stored data and heart rate stream
+ */
+export async function scoreSession(
+  session: Session,
+  profile?: StressProfile
+): Promise<StressScore | null> {
+  const [thresholds, streams] = await Promise.all([
+    profile ?? getStressProfile(session.athlete_id),
+    loadStreams(session.athlete_id, [session.id]),
+  ])
+  const trimp = session.raw_data?.trimp
+  const externalLoad = session.raw_data?.icu_training_load
+  return calculateSessionStress({
+    durationSeconds: session.duration_seconds,
+    sport: session.sport,
+    normalizedPower: session.normalized_power,
+    ...streamInputs(session.sport, session.duration_seconds, session.distance_meters, streams.get(session.id)),
+    avgHr: session.avg_hr,
+    trimp: typeof trimp === 'number' ? trimp : null,
+    rpe: session.rpe,
+    externalLoad: typeof externalLoad === 'number' ? externalLoad : null,
+  }, thresholds)
+}
+
+/**
+ * Re-score a session after its RPE changed and store the result.
+ * An RPE-based TSS is cleared when the RPE was removed.
+ * Returns the updated session, or null when nothing changed.
+ */
+export async function rescoreSession(session: Session): Promise<Session | null> {
+  const stress = await scoreSession(session)
+  if (!stress && session.tss_method !== 'rpe') return null
+
+  const updated = await updateSession(session.id, session.athlete_id, {
+    tss: stress?.tss ?? null,
+    tss_method: stress?.method ?? null,
+  })
+  if (updated) {
+    await handleSessionsChanged(session.athlete_id, [session.date])
+  }
+  return updated
+}
+
+/**
+ * Score every session from fromDate onwards that has no TSS yet, re-score
+ * rTSS from the stored streams and intervals.icu loads with the athlete's
+ * thresholds, and update the local PMC. Returns the number of sessions
+ * whose TSS changed.
+ */
+export async function scoreUnscoredSessions(athleteId: string, fromDate?: string): Promise<number> {
+  const supabase = await createClient()
+  if (!supabase) return 0
+
+  const rows: UnscoredRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('sessions')
+      .select('id, date, sport, tss, tss_method, duration_seconds, distance_meters, normalized_power, avg_hr, rpe, trimp:raw_data->trimp, external_load:raw_data->icu_training_load')
+      .eq('athlete_id', athleteId)
+      // rTSS scored at sync from average speed is replaced by NGP from streams,
+      // and intervals.icu's load by a local method once thresholds are set
+      .or('tss.is.null,tss_method.eq.pace,tss_method.eq.external')
+    if (fromDate) query = query.gte('date', fromDate)
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    rows.push(...((data || []) as unknown as UnscoredRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (rows.length === 0) return 0
+
+  const profile = await getStressProfile(athleteId)
+  const scoredDates: string[] = []
+  let streams = new Map<string, SessionStreams>()
+  for (const [i, row] of rows.entries()) {
+    if (i % STREAM_BATCH_SIZE === 0) {
+      streams = await loadStreams(athleteId, rows.slice(i, i + STREAM_BATCH_SIZE).map(r => r.id))
+    }
+    const input: StressInput = {
+      durationSeconds: row.duration_seconds,
+      sport: row.sport,
+      normalizedPower: row.normalized_power,
+      ...streamInputs(row.sport, row.duration_seconds, row.distance_meters, streams.get(row.id)),
+      avgHr: row.avg_hr,
+      trimp: typeof row.trimp === 'number' ? row.trimp : null,
+      rpe: row.rpe,
+      externalLoad: typeof row.external_load === 'number' ? row.external_load : null,
+    }
+    const stress = calculateSessionStress(input, profile)
+    if (!stress || (stress.tss === row.tss && stress.method === row.tss_method)) continue
+
+    const { error } = await supabase
+      .from('sessions')
+      .update({
+        tss: stress.tss,
+        tss_method: stress.method,
+        ...(row.sport === 'running' ? { intensity_factor: calculateIntensityFactor(input, profile) } : {}),
+      })
+      .eq('id', row.id)
+
+    if (error) {
+      logger.error(`[StressEngine] Failed to store stress for session ${row.id}:`, error)
+    } else {
+      scoredDates.push(row.date)
+    }
+  }
+
+  if (scoredDates.length > 0) {
+    logger.info(`[StressEngine] Scored ${scoredDates.length} of ${rows.length} sessions without a local TSS or with rTSS`)
+    await handleSessionsChanged(athleteId, scoredDates)
+  }
+  return scoredDates.length
+}
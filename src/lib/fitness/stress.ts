@@ -0,0 +1,189 @@
+/**
+ * Training Stress Scoring
+ *
+ * TSS for every session, not just rides with power. Falls back through:
+ *   power  - TSS from normalized power and FTP (running FTP for runs)
+ *   pace   - rTSS from normalized graded pace and threshold pace (runs)
+ *   hr     - hrTSS from heart rate relative to LTHR
+ *   trimp  - Banister TRIMP from heart rate reserve, scaled to TSS
+ *   rpe    - session RPE (CR-10) × duration, scaled to TSS
+ *   external - the training load the source platform computed (intervals.icu)
+ * All local methods are scaled so an hour at threshold scores about 100.
+ */
+
+import { calculateIF, calculateTSS } from '@/lib/fit-parser'
+import { calculateRtss, calculateRunningIF } from '@/lib/analysis/running'
+import { MIN_VALID_HR } from '@/lib/analysis/stream-quality'
+import type { Session } from '@/types'
+
+export type StressMethod = 'power' | 'pace' | 'hr' | 'trimp' | 'rpe' | 'external'
+
+export const STRESS_METHODS: StressMethod[] = ['power', 'pace', 'hr', 'trimp', 'rpe', 'external']
+
+/** Athlete thresholds the methods need */
+export interface StressProfile {
+  ftp?: number | null
+  /** Running power threshold; cycling FTP is never applied to runs */
+  runningFtp?: number | null
+  /** Threshold pace in s/km */
+  thresholdPace?: number | null
+  lthr?: number | null
+  maxHr?: number | null
+  restingHr?: number | null
+}
+
+export interface StressInput {
+  durationSeconds: number
+  sport?: Session['sport']
+  normalizedPower?: number | null
+  /** Normalized graded speed of a run in m/s */
+  ngpSpeed?: number | null
+  /** Average speed in m/s, used for rTSS when there is no NGP */
+  avgSpeed?: number | null
+  /** Per-second heart rate; used over avgHr when present */
+  heartrate?: number[] | null
+  avgHr?: number | null
+  /** Banister TRIMP computed elsewhere (e.g. intervals.icu) */
+  trimp?: number | null
+  /** Session RPE on the CR-10 scale */
+  rpe?: number | null
+  /** Training load from the source platform (intervals.icu), used when no local method applies */
+  externalLoad?: number | null
+}
+
+export interface StressScore {
+  tss: number
+  method: StressMethod
+}
+
+// Banister TRIMP weighting (0.64 * e^(1.92 * HRR))
+const TRIMP_A = 0.64
+const TRIMP_B = 1.92
+// Heart rate reserve at threshold, used to scale TRIMP to TSS
+const THRESHOLD_HRR = 0.85
+// RPE of an hour-long effort at threshold ("hard")
+const THRESHOLD_RPE = 7
+
+/**
+ * Valid heart rate samples, or null when there are none
+ */
+function validHeartRate(heartrate?: number[] | null): number[] | null {
+  if (!heartrate) return null
+  const valid = heartrate.filter(hr => hr >= MIN_VALID_HR)
+  return valid.length > 0 ? valid : null
+}
+
+/**
+ * hrTSS: hours × (HR / LTHR)² × 100, averaged per second when a stream is available
+ */
+export function calculateHrTss(input: StressInput, lthr: number): number | null {
+  if (!lthr || input.durationSeconds <= 0) return null
+  const hours = input.durationSeconds / 3600
+
+  const samples = validHeartRate(input.heartrate)
+  if (samples) {
+    const meanSquared = samples.reduce((sum, hr) => sum + (hr / lthr) ** 2, 0) / samples.length
+    return Math.round(hours * meanSquared * 100)
+  }
+  if (input.avgHr && input.avgHr >= MIN_VALID_HR) {
+    return Math.round(hours * (input.avgHr / lthr) ** 2 * 100)
+  }
+  return null
+}
+
+function trimpWeight(hrr: number): number {
+  return hrr * TRIMP_A * Math.exp(TRIMP_B * hrr)
+}
+
+/**
+ * Banister TRIMP: Σ minutes × HRR × 0.64 × e^(1.92 × HRR)
+ */
+export function calculateTrimp(input: StressInput, maxHr: number, restingHr: number): number | null {
+  const reserve = maxHr - restingHr
+  if (reserve <= 0 || input.durationSeconds <= 0) return null
+  const hrr = (hr: number) => Math.min(Math.max((hr - restingHr) / reserve, 0), 1)
+
+  const samples = validHeartRate(input.heartrate)
+  if (samples) {
+    const meanWeight = samples.reduce((sum, hr) => sum + trimpWeight(hrr(hr)), 0) / samples.length
+    return Math.round((input.durationSeconds / 60) * meanWeight)
+  }
+  if (input.avgHr && input.avgHr >= MIN_VALID_HR) {
+    return Math.round((input.durationSeconds / 60) * trimpWeight(hrr(input.avgHr)))
+  }
+  return null
+}
+
+/**
+ * TSS equivalent of a TRIMP score (an hour at threshold HRR = 100)
+ */
+export function trimpToTss(trimp: number): number {
+  return Math.round((trimp / (60 * trimpWeight(THRESHOLD_HRR))) * 100)
+}
+
+/**
+ * TSS equivalent of session RPE × minutes (an hour at RPE 7 = 100)
+ */
+export function calculateRpeTss(rpe: number, durationSeconds: number): number | null {
+  if (!rpe || rpe < 0 || rpe > 10 || durationSeconds <= 0) return null
+  return Math.round((durationSeconds / 60) * rpe * 100 / (60 * THRESHOLD_RPE))
+}
+
+/**
+ * Intensity factor against the sport's threshold: NP / FTP for rides,
+ * NP / running FTP or NGP / threshold pace for runs. Null when the
+ * threshold for the sport is unknown.
+ */
+export function calculateIntensityFactor(input: StressInput, profile: StressProfile): number | null {
+  const running = input.sport === 'running'
+  const powerThreshold = running ? profile.runningFtp : profile.ftp
+  if (input.normalizedPower && input.normalizedPower > 0 && powerThreshold) {
+    return calculateIF(input.normalizedPower, powerThreshold)
+  }
+  const speed = input.ngpSpeed || input.avgSpeed
+  if (running && speed && profile.thresholdPace) {
+    return calculateRunningIF(speed, profile.thresholdPace)
+  }
+  return null
+}
+
+/**
+ * Score a session with the first method its data and the athlete's
+ * thresholds allow. Null when no method applies.
+ */
+export function calculateSessionStress(input: StressInput, profile: StressProfile): StressScore | null {
+  const running = input.sport === 'running'
+  const powerThreshold = running ? profile.runningFtp : profile.ftp
+  if (input.normalizedPower && input.normalizedPower > 0 && powerThreshold) {
+    const tss = calculateTSS(input.normalizedPower, input.durationSeconds, powerThreshold)
+    if (tss > 0) return { tss, method: 'power' }
+  }
+
+  const speed = input.ngpSpeed || input.avgSpeed
+  if (running && speed && profile.thresholdPace) {
+    const tss = calculateRtss(speed, input.durationSeconds, profile.thresholdPace)
+    if (tss) return { tss, method: 'pace' }
+  }
+
+  if (profile.lthr) {
+    const tss = calculateHrTss(input, profile.lthr)
+    if (tss) return { tss, method: 'hr' }
+  }
+
+  const trimp = input.trimp
+    ?? (profile.maxHr && profile.restingHr ? calculateTrimp(input, profile.maxHr, profile.restingHr) : null)
+  if (trimp && trimp > 0) {
+    return { tss: trimpToTss(trimp), method: 'trimp' }
+  }
+
+  if (input.rpe) {
+    const tss = calculateRpeTss(input.rpe, input.durationSeconds)
+    if (tss) return { tss, method: 'rpe' }
+  }
+
+  if (input.externalLoad && input.externalLoad > 0) {
+    return { tss: Math.round(input.externalLoad), method: 'external' }
+  }
+
+  return null
+}
@@ -2,7 +2,7 @@
  * Goal Progress Detector
  *
  * Analyzes activity data to auto-detect progress toward goals.
- * Supports FTP goals, CTL goals, and metric goals (HR at power, power duration, W/kg).
+ * Supports FTP goals, CTL goals, and metric goals (HR at power, power duration, W/kg, durability).
  */
 
 import { createClient } from '@/lib/supabase/server'
@@ -15,6 +15,7 @@ import {
 } from '@/lib/db/goals'
 import { getCurrentFitness } from '@/lib/db/fitness'
 import type { Session } from '@/types'
+import { durabilityPower } from '@/lib/analysis/durability'
 import { logger } from '@/lib/logger'
 
 export interface ProgressDetectionResult {
@@ -258,6 +259,9 @@ function detectMetricProgress(
     case 'relative_power':
       return detectRelativePowerProgress(goal, athleteData, baseResult)
 
+    case 'durability':
+      return detectDurabilityProgress(goal, sessions, baseResult)
+
     default:
       return baseResult
   }
@@ -422,6 +426,50 @@ function detectRelativePowerProgress(
   return baseResult
 }
 
+/**
+ * Detect durability progress (best power for a duration after a given amount of work)
+ */
+function detectDurabilityProgress(
+  goal: Goal,
+  sessions: Session[],
+  baseResult: ProgressDetectionResult
+): ProgressDetectionResult {
+  const conditions = goal.metric_conditions
+  if (!conditions?.target_power || !conditions?.after_kj || !conditions?.duration_seconds) {
+    return { ...baseResult, details: 'Missing target_power, after_kj or duration_seconds in conditions' }
+  }
+
+  const { target_power: targetPower, after_kj: afterKj, duration_seconds: duration } = conditions
+
+  let bestSession: Session | null = null
+  let bestPower = 0
+  for (const s of sessions) {
+    const power = durabilityPower(s.durability, afterKj, duration)
+    if (power !== null && power > bestPower) {
+      bestPower = power
+      bestSession = s
+    }
+  }
+
+  if (!bestSession) {
+    return { ...baseResult, details: `No recent rides with ${Math.round(duration / 60)}min power after ${afterKj}kJ` }
+  }
+
+  const previousValue = goal.current_value
+  if (previousValue === null || bestPower > previousValue) {
+    return {
+      ...baseResult,
+      detected: true,
+      newValue: bestPower,
+      sessionId: bestSession.id,
+      details: `Best ${Math.round(duration / 60)}min power after ${afterKj}kJ: ${bestPower}W (target: ${targetPower}W)`,
+      achieved: bestPower >= targetPower,
+    }
+  }
+
+  return baseResult
+}
+
 // Helper types
 interface AthleteData {
   ftp?: number | null
@@ -0,0 +1,107 @@
+import { summarizeRecords, mapSport } from '@/lib/fit-parser'
+import type { ParsedFitData, PowerRecord } from '@/lib/fit-parser'
+import { xmlBlocks, xmlValue, xmlNumber, calculateAscent } from '@/lib/tcx-parser'
+
+/**
+ * GPX parser.
+ *
+ * Produces the same ParsedFitData shape as parseFitFile. Sensor data is read
+ * from the common extension formats: <power> (Strava/Wahoo) and Garmin's
+ * TrackPointExtension (hr, cad). Distance and speed are derived from positions.
+ */
+
+// Gaps longer than this are treated as pauses and excluded from moving time
+const PAUSE_THRESHOLD_SECONDS = 30
+
+/**
+ * Great-circle distance between two positions in meters
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return 2 * R * Math.asin(Math.sqrt(a))
+}
+
+export function parseGpxFile(buffer: ArrayBuffer): ParsedFitData {
+  const xml = new TextDecoder().decode(buffer)
+
+  if (!/<(?:[\w-]+:)?gpx\b/.test(xml)) {
+    throw new Error('Not a GPX file')
+  }
+
+  const track = xmlBlocks(xml, 'trk')[0]
+  if (!track) {
+    throw new Error('GPX file contains no track')
+  }
+
+  const records: PowerRecord[] = []
+  const altitudes: number[] = []
+  let distance = 0
+  let movingSeconds = 0
+  let previous: { lat: number; lon: number; timestamp: number } | null = null
+
+  const pointPattern = /<(?:[\w-]+:)?trkpt\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?trkpt>/g
+  for (const match of track.matchAll(pointPattern)) {
+    const [, attributes, body] = match
+    const time = xmlValue(body, 'time')
+    if (!time) continue
+
+    const lat = Number(attributes.match(/\blat="([^"]*)"/)?.[1])
+    const lon = Number(attributes.match(/\blon="([^"]*)"/)?.[1])
+    const timestamp = new Date(time).getTime()
+    const hasPosition = Number.isFinite(lat) && Number.isFinite(lon)
+
+    let speed: number | undefined
+    if (hasPosition && previous) {
+      const step = haversineDistance(previous.lat, previous.lon, lat, lon)
+      const seconds = (timestamp - previous.timestamp) / 1000
+      distance += step
+      if (seconds > 0 && seconds <= PAUSE_THRESHOLD_SECONDS) {
+        movingSeconds += seconds
+        speed = Math.round(step / seconds * 3.6 * 100) / 100
+      }
+    }
+
+    const record: PowerRecord = {
+      timestamp,
+      power: xmlNumber(body, 'power') ?? xmlNumber(body, 'PowerInWatts'),
+      heart_rate: xmlNumber(body, 'hr') ?? xmlNumber(body, 'heartrate'),
+      cadence: xmlNumber(body, 'cad') ?? xmlNumber(body, 'cadence'),
+      speed,
+      distance: Math.round(distance * 10) / 10,
+    }
+    if (hasPosition) {
+      record.lat = lat
+      record.lng = lon
+    }
+
+    const elevation = xmlNumber(body, 'ele')
+    if (elevation !== undefined) {
+      record.altitude = elevation
+      altitudes.push(elevation)
+    }
+
+    // Garmin TrackPointExtension air temperature
+    const temperature = xmlNumber(body, 'atemp')
+    if (temperature !== undefined) record.temperature = temperature
+
+    records.push(record)
+
+    if (hasPosition) previous = { lat, lon, timestamp }
+  }
+
+  const metadataTime = xmlValue(xmlBlocks(xml, 'metadata')[0] || '', 'time')
+  const startTime = records.length > 0 ? new Date(records[0].timestamp).toISOString() : metadataTime
+
+  return summarizeRecords(records, {
+    start_time: startTime ? new Date(startTime).toISOString() : undefined,
+    sport: mapSport(xmlValue(track, 'type')),
+    duration_seconds: movingSeconds > 0 ? Math.round(movingSeconds) : undefined,
+    distance_meters: distance > 0 ? Math.round(distance) : undefined,
+    total_ascent: calculateAscent(altitudes),
+  })
+}
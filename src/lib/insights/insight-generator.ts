@@ -327,7 +327,7 @@ export async function getInsightCounts(athleteId: string): Promise<Record<string
 
 /**
  * Create a fitness discrepancy alert
- * Called when local fitness values differ significantly from intervals.icu
+ * Called when the CTL calculated from local sessions differs significantly from intervals.icu
  */
 export async function createFitnessDiscrepancyInsight(
   athleteId: string,
@@ -359,7 +359,7 @@ export async function createFitnessDiscrepancyInsight(
     insight_type: 'warning',
     priority: severity,
     title: 'Fitness Data Discrepancy Detected',
-    content: `Your local CTL (${localCtl}) differs from intervals.icu (${remoteCtl}) by ${diff} points. This may indicate intervals.icu recalculated historical data. Your local values are preserved as your training history.`,
+    content: `Your CTL calculated from your stored sessions (${localCtl}) differs from intervals.icu (${remoteCtl}) by ${diff} points. This may indicate intervals.icu recalculated historical data or has activities that aren't stored locally. You can recompute your fitness history from local sessions on the dashboard.`,
     data: {
       local_ctl: localCtl,
       remote_ctl: remoteCtl,
@@ -613,6 +613,7 @@ function getGoalUnit(goal: Goal): string {
         case 'hr_at_power':
           return 'bpm'
         case 'power_duration':
+        case 'durability':
           return 'W'
         case 'relative_power':
           return 'W/kg'
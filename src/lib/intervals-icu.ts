@@ -17,6 +17,8 @@ export interface IntervalsAthlete {
     indoor_ftp: number | null
     lthr: number
     max_hr: number
+    /** Threshold pace in m/s (Run settings) */
+    threshold_pace?: number | null
   }[]
 }
 
@@ -64,6 +66,7 @@ export interface IntervalsActivity {
   // Additional metrics
   icu_joules?: number
   trimp?: number
+  icu_rpe?: number // session RPE (1-10)
   decoupling?: number
   calories?: number
   interval_summary?: string[]
@@ -73,6 +76,7 @@ export interface IntervalsActivity {
 interface IntervalsStreamItem {
   type: string
   data: number[]
+  data2?: number[] // second component for latlng (longitude)
 }
 
 // Activity streams (time-series data)
@@ -84,6 +88,7 @@ export interface IntervalsStreams {
   distance?: number[]  // cumulative distance
   altitude?: number[]  // elevation
   velocity_smooth?: number[] // speed
+  latlng?: [number, number][] // position
 }
 
 // Helper to convert API response to our format
@@ -100,6 +105,10 @@ function parseStreamsResponse(items: IntervalsStreamItem[]): IntervalsStreams {
     else if (item.type === 'distance') streams.distance = item.data
     else if (item.type === 'altitude') streams.altitude = item.data
     else if (item.type === 'velocity_smooth') streams.velocity_smooth = item.data
+    else if (item.type === 'latlng' && item.data2) {
+      const lng = item.data2
+      streams.latlng = item.data.map((lat, i) => [lat, lng[i]] as [number, number])
+    }
   }
   return streams
 }
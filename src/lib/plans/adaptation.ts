@@ -0,0 +1,411 @@
+// Training Plan Adaptation
+// Re-balances the remaining weeks of a plan after missed key workouts,
+// illness or more load than planned
+
+import type { PlanDay } from '@/types'
+import { isWorkoutDay } from '@/lib/analysis/plan-compliance'
+
+export interface AdaptationWeek {
+  weekNumber: number
+  phase: string
+  /** Template weekly TSS range (% of baseline); null for plans without one */
+  targetTSSRange: [number, number] | null
+}
+
+export interface SickPeriod {
+  startDate: string
+  endDate: string
+}
+
+export interface AdaptationInput {
+  days: PlanDay[]
+  weeks: AdaptationWeek[]
+  today: string
+  targetEventDate?: string | null
+  sick?: SickPeriod | null
+  /** TSS of all sessions per date, including rides outside the plan */
+  actualLoad?: Record<string, number>
+}
+
+export type AdaptationTriggerType = 'missed_key' | 'sick' | 'overload'
+
+export interface AdaptationTrigger {
+  type: AdaptationTriggerType
+  date: string
+  detail: string
+}
+
+export type PlanChangeAction = 'moved' | 'dropped' | 'reduced'
+
+export interface PlanDayChange {
+  date: string
+  action: PlanChangeAction
+  workoutName: string | null
+  workoutType: string | null
+  isKey: boolean
+  /** New date of a moved workout */
+  toDate?: string
+  fromTSS: number | null
+  toTSS: number | null
+  reason: string
+}
+
+export interface AdaptedWeek {
+  weekNumber: number
+  phase: string
+  plannedTSS: number
+  adaptedTSS: number
+  minTSS: number
+  maxTSS: number
+  /** Taper week, left as planned */
+  protected: boolean
+}
+
+export interface PlanAdaptation {
+  triggers: AdaptationTrigger[]
+  changes: PlanDayChange[]
+  /** All plan days with the changes applied, by date */
+  days: PlanDay[]
+  weeks: AdaptedWeek[]
+  /** First protected taper day, null without an event or taper phase */
+  taperStart: string | null
+}
+
+// Easy categories that give way to key sessions
+const FILLER_CATEGORIES = new Set(['endurance', 'recovery'])
+
+// Missed key workouts older than this are not made up
+const MISSED_LOOKBACK_DAYS = 7
+// How far ahead a missed key workout may move
+const RESCHEDULE_WINDOW_DAYS = 7
+// Days before the target event that are never changed
+const TAPER_DAYS = 14
+
+// Easy days after illness: key sessions move out, filler is halved
+const RETURN_DAYS = 2
+const RETURN_LOAD = 0.5
+
+// Actual load over planned in the last week that counts as overreaching
+const OVERLOAD_RATIO = 1.2
+const MIN_OVERLOAD_TSS = 30
+
+// Filler is shortened to no less than half before it is dropped
+const MIN_FILLER_SHARE = 0.5
+// Weekly band around planned TSS for weeks without a template range
+const DEFAULT_RANGE_SPREAD = 0.1
+
+const WORKOUT_FIELDS = [
+  'workout_template_id',
+  'workout_type',
+  'workout_name',
+  'target_tss',
+  'target_duration_minutes',
+  'target_if',
+  'custom_description',
+  'intervals_json',
+] as const
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+export function isKeyWorkout(day: PlanDay): boolean {
+  return isWorkoutDay(day) && !FILLER_CATEGORIES.has(day.workout_type ?? '')
+}
+
+function isFiller(day: PlanDay): boolean {
+  return isWorkoutDay(day) && !isKeyWorkout(day)
+}
+
+/**
+ * Weekly TSS bounds. Templates progress the baseline separately from the
+ * range, so the range's spread around its midpoint is applied to the week's
+ * planned TSS.
+ */
+export function weekTSSBounds(plannedTSS: number, range: [number, number] | null): [number, number] {
+  if (!range || range[0] + range[1] <= 0) {
+    return [Math.round(plannedTSS * (1 - DEFAULT_RANGE_SPREAD)), Math.round(plannedTSS * (1 + DEFAULT_RANGE_SPREAD))]
+  }
+  const mid = (range[0] + range[1]) / 2
+  return [Math.round(plannedTSS * range[0] / mid), Math.round(plannedTSS * range[1] / mid)]
+}
+
+/**
+ * Propose an adapted plan: make up recently missed key workouts on open or
+ * filler days, rest through illness and ease back after it, and take load
+ * off filler after a week over plan. Weeks stay within their TSS range and
+ * the taper before the target event is left as planned.
+ */
+export function adaptPlan(input: AdaptationInput): PlanAdaptation {
+  const { today, targetEventDate, sick, actualLoad } = input
+  const schedule = input.days.map(d => ({ ...d })).sort((a, b) => a.date.localeCompare(b.date))
+  const phaseByWeek = new Map(input.weeks.map(w => [w.weekNumber, w.phase]))
+  const rangeByWeek = new Map(input.weeks.map(w => [w.weekNumber, w.targetTSSRange]))
+  const plannedTSS = new Map(schedule.map(d => [d, d.target_tss ?? 0]))
+  const lastDate = schedule.length > 0 ? schedule[schedule.length - 1].date : today
+
+  // Taper: the days before the event and any taper-phase week
+  const taperDates = schedule
+    .filter(d => phaseByWeek.get(d.week_number) === 'taper')
+    .map(d => d.date)
+  if (targetEventDate) taperDates.push(shiftDays(targetEventDate, -TAPER_DAYS))
+  const taperStart = taperDates.length > 0 ? taperDates.sort()[0] : null
+  const isProtected = (date: string) =>
+    taperStart !== null && date >= taperStart && (!targetEventDate || date <= targetEventDate)
+
+  const triggers: AdaptationTrigger[] = []
+  const changes = new Map<PlanDay, PlanDayChange>()
+
+  const isScheduled = (day: PlanDay) => isWorkoutDay(day) && !day.skipped
+  const dayLoad = (day: PlanDay) => {
+    if (day.completed) return day.actual_tss ?? day.target_tss ?? 0
+    if (!isScheduled(day) || day.date < today) return 0
+    return day.target_tss ?? 0
+  }
+  const openDayOn = (date: string) => schedule.find(d => d.date === date && !d.skipped)
+  const weekDays = (weekNumber: number) => schedule.filter(d => d.week_number === weekNumber)
+  const weekLoad = (weekNumber: number) => weekDays(weekNumber).reduce((sum, d) => sum + dayLoad(d), 0)
+
+  // Planned weekly TSS without days already moved elsewhere
+  const weekPlanned = new Map<number, number>()
+  for (const day of schedule) {
+    if (!isWorkoutDay(day) || (day.skipped && day.rescheduled_to)) continue
+    weekPlanned.set(day.week_number, (weekPlanned.get(day.week_number) ?? 0) + (day.target_tss ?? 0))
+  }
+  const bounds = (weekNumber: number) =>
+    weekTSSBounds(weekPlanned.get(weekNumber) ?? 0, rangeByWeek.get(weekNumber) ?? null)
+
+  const record = (day: PlanDay, change: Omit<PlanDayChange, 'date' | 'workoutName' | 'workoutType' | 'isKey' | 'fromTSS'>) => {
+    changes.set(day, {
+      date: day.date,
+      workoutName: day.workout_name ?? null,
+      workoutType: day.workout_type ?? null,
+      isKey: isKeyWorkout(day),
+      fromTSS: plannedTSS.get(day) || null,
+      ...change,
+    })
+  }
+
+  const drop = (day: PlanDay, reason: string) => {
+    day.skipped = true
+    day.coach_notes = reason
+    record(day, { action: 'dropped', toTSS: null, reason })
+  }
+
+  const reduce = (day: PlanDay, factor: number, reason: string) => {
+    day.target_tss = day.target_tss ? Math.round(day.target_tss * factor) : day.target_tss
+    day.target_duration_minutes = day.target_duration_minutes
+      ? Math.round(day.target_duration_minutes * factor)
+      : day.target_duration_minutes
+    day.coach_notes = reason
+    record(day, { action: 'reduced', toTSS: day.target_tss ?? null, reason })
+  }
+
+  // Take TSS off filler, biggest first. Filler that would fall below
+  // MIN_FILLER_SHARE is dropped instead
+  const trimFiller = (fillers: PlanDay[], amount: number, reason: string) => {
+    let remaining = amount
+    const sorted = [...fillers].sort((a, b) => (b.target_tss ?? 0) - (a.target_tss ?? 0))
+    for (const day of sorted) {
+      if (remaining <= 0) break
+      const tss = day.target_tss ?? 0
+      if (tss <= 0) continue
+      const cut = Math.min(remaining, tss)
+      if (tss - cut < tss * MIN_FILLER_SHARE) {
+        drop(day, reason)
+        remaining -= tss
+      } else {
+        reduce(day, (tss - cut) / tss, reason)
+        remaining -= cut
+      }
+    }
+  }
+
+  const movableFiller = (day: PlanDay) =>
+    isScheduled(day) && isFiller(day) && !day.completed && day.date >= today && !isProtected(day.date)
+
+  // Key sessions to move, with the earliest date they may move to
+  const toReschedule: Array<{ day: PlanDay; earliest: string; reason: string }> = []
+
+  if (sick) {
+    const returnEnd = shiftDays(sick.endDate, RETURN_DAYS)
+    let sickCount = 0
+    for (const day of schedule) {
+      if (!isScheduled(day) || day.completed) continue
+      if (day.date >= sick.startDate && day.date <= sick.endDate) {
+        sickCount++
+        if (isKeyWorkout(day) && !isProtected(day.date)) {
+          toReschedule.push({ day, earliest: shiftDays(returnEnd, 1), reason: 'Moved after illness' })
+        } else {
+          drop(day, 'Rest while sick')
+        }
+      } else if (day.date > sick.endDate && day.date <= returnEnd && day.date >= today) {
+        if (isKeyWorkout(day) && !isProtected(day.date)) {
+          toReschedule.push({ day, earliest: shiftDays(returnEnd, 1), reason: 'Easing back after illness' })
+        } else {
+          reduce(day, RETURN_LOAD, 'Easy return after illness')
+        }
+      }
+    }
+    triggers.push({
+      type: 'sick',
+      date: sick.startDate,
+      detail: `Sick ${sick.startDate} to ${sick.endDate}, ${sickCount} planned workout${sickCount === 1 ? '' : 's'} affected`,
+    })
+  }
+
+  // Key workouts missed in the last week
+  const missedFrom = shiftDays(today, -MISSED_LOOKBACK_DAYS)
+  for (const day of schedule) {
+    if (day.date < missedFrom || day.date >= today) continue
+    if (!isKeyWorkout(day) || day.completed || day.rescheduled_to || changes.has(day)) continue
+    if (toReschedule.some(r => r.day === day)) continue
+    triggers.push({ type: 'missed_key', date: day.date, detail: `Missed ${day.workout_name ?? day.workout_type} on ${day.date}` })
+    toReschedule.push({ day, earliest: today, reason: `Made up after missing it on ${day.date}` })
+  }
+
+  // Load over plan in the last week comes off the next week's filler
+  if (actualLoad) {
+    const actual = Object.entries(actualLoad)
+      .filter(([date]) => date >= missedFrom && date < today)
+      .reduce((sum, [, tss]) => sum + tss, 0)
+    const planned = schedule
+      .filter(d => d.date >= missedFrom && d.date < today && isWorkoutDay(d) && !(d.skipped && d.rescheduled_to))
+      .reduce((sum, d) => sum + (d.target_tss ?? 0), 0)
+    if (actual > planned * OVERLOAD_RATIO && actual - planned >= MIN_OVERLOAD_TSS) {
+      const excess = Math.round(actual - planned)
+      triggers.push({
+        type: 'overload',
+        date: today,
+        detail: `${Math.round(actual)} TSS in the last ${MISSED_LOOKBACK_DAYS} days against ${Math.round(planned)} planned`,
+      })
+      const upcoming = schedule.filter(d => movableFiller(d) && d.date < shiftDays(today, MISSED_LOOKBACK_DAYS))
+      trimFiller(upcoming, excess, `Lighter after ${excess} TSS over plan last week`)
+    }
+  }
+
+  // Move each key session to the day within a week that takes the least
+  // filler away to keep its week in range (earliest on a tie), never next to
+  // another key session
+  toReschedule.sort((a, b) => a.day.date.localeCompare(b.day.date))
+  for (const { day: origin, earliest, reason } of toReschedule) {
+    const start = earliest > today ? earliest : today
+    const end = shiftDays(start, RESCHEDULE_WINDOW_DAYS - 1)
+    const originTSS = origin.target_tss ?? 0
+
+    let best: { date: string; dest: PlanDay | undefined; weekNumber: number; over: number; fillers: PlanDay[]; removed: number } | null = null
+    for (let date = start; date <= end && date <= lastDate; date = shiftDays(date, 1)) {
+      if (date === origin.date || isProtected(date)) continue
+      if (sick && date >= sick.startDate && date <= shiftDays(sick.endDate, RETURN_DAYS)) continue
+      const dest = openDayOn(date)
+      if (dest && (dest.completed || (isScheduled(dest) && !isFiller(dest)))) continue
+      const neighbours = [shiftDays(date, -1), shiftDays(date, 1)].map(openDayOn)
+      if (neighbours.some(n => n && n !== origin && isScheduled(n) && isKeyWorkout(n))) continue
+
+      const weekNumber = dest?.week_number ?? weekNumberFor(schedule, date)
+      const [, maxTSS] = bounds(weekNumber)
+      const destLoad = dest ? dayLoad(dest) : 0
+      const originLoad = origin.week_number === weekNumber ? dayLoad(origin) : 0
+      const over = weekLoad(weekNumber) - originLoad + originTSS - destLoad - maxTSS
+      const fillers = weekDays(weekNumber).filter(d => d !== dest && movableFiller(d))
+      const fillerLoad = fillers.reduce((sum, d) => sum + (d.target_tss ?? 0), 0)
+      if (over > fillerLoad) continue
+
+      const removed = destLoad + Math.max(0, over)
+      if (!best || removed < best.removed) best = { date, dest, weekNumber, over, fillers, removed }
+    }
+
+    if (!best) {
+      const dropReason = taperStart && end >= taperStart ? 'No room before the taper' : 'No open day to move it to'
+      if (origin.skipped) record(origin, { action: 'dropped', toTSS: null, reason: dropReason })
+      else drop(origin, dropReason)
+      continue
+    }
+
+    const { date, dest, weekNumber, over, fillers } = best
+    const workoutName = origin.workout_name ?? 'a key workout'
+    if (dest && isScheduled(dest)) drop(dest, `Replaced by ${workoutName}`)
+    if (over > 0) trimFiller(fillers, over, `Makes room for ${workoutName}`)
+
+    let target = dest
+    if (!target) {
+      target = {
+        ...origin,
+        id: '',
+        date,
+        week_number: weekNumber,
+        day_of_week: dayOfWeek(date),
+        completed: false,
+        actual_session_id: null,
+        actual_tss: null,
+        actual_duration_minutes: null,
+        compliance_score: null,
+        athlete_notes: null,
+        rescheduled_to: null,
+      }
+      schedule.push(target)
+      schedule.sort((a, b) => a.date.localeCompare(b.date))
+    }
+    for (const field of WORKOUT_FIELDS) {
+      (target as unknown as Record<string, unknown>)[field] = origin[field] ?? null
+    }
+    target.skipped = false
+    target.rescheduled_from = origin.date
+    target.coach_notes = reason
+
+    origin.skipped = true
+    origin.rescheduled_to = date
+    record(origin, { action: 'moved', toDate: date, toTSS: origin.target_tss ?? null, reason })
+  }
+
+  // Remaining weeks over their range lose filler
+  const weekNumbers = [...new Set(schedule.map(d => d.week_number))].sort((a, b) => a - b)
+  for (const weekNumber of weekNumbers) {
+    const days = weekDays(weekNumber)
+    if (days.every(d => d.date < today || isProtected(d.date))) continue
+    const [, maxTSS] = bounds(weekNumber)
+    const over = weekLoad(weekNumber) - maxTSS
+    if (over > 0 && triggers.length > 0) {
+      trimFiller(days.filter(movableFiller), over, 'Keeps the week within its TSS range')
+    }
+  }
+
+  const weeks: AdaptedWeek[] = weekNumbers.map(weekNumber => {
+    const [minTSS, maxTSS] = bounds(weekNumber)
+    return {
+      weekNumber,
+      phase: phaseByWeek.get(weekNumber) ?? 'build',
+      plannedTSS: Math.round(weekPlanned.get(weekNumber) ?? 0),
+      adaptedTSS: Math.round(weekLoad(weekNumber)),
+      minTSS,
+      maxTSS,
+      protected: weekDays(weekNumber).every(d => isProtected(d.date)),
+    }
+  })
+
+  return {
+    triggers,
+    changes: [...changes.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    days: schedule,
+    weeks,
+    taperStart,
+  }
+}
+
+/**
+ * Week number of a date without a plan day, counted from the first plan day
+ */
+function weekNumberFor(schedule: PlanDay[], date: string): number {
+  const first = schedule[0]
+  if (!first) return 1
+  const days = Math.round(
+    (new Date(`${date}T00:00:00Z`).getTime() - new Date(`${first.date}T00:00:00Z`).getTime()) / 86400000
+  )
+  return first.week_number + Math.floor(days / 7)
+}
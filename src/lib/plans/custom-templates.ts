@@ -0,0 +1,243 @@
+// Custom Plan Templates
+// Coach-defined templates stored in the DB: coercion, validation and JSON exchange
+
+import { PLAN_GOALS, type PlanGoal, type PlanTemplate, type WeekTemplate } from './templates'
+import { getWorkoutById, workoutSport, type TrainingPhase, type WorkoutCategory, type WorkoutSport } from '../workouts/library'
+
+export const TEMPLATE_PHASES: TrainingPhase[] = ['base', 'build', 'peak', 'taper', 'recovery', 'any']
+
+export const TEMPLATE_CATEGORIES: WorkoutCategory[] = [
+  'recovery', 'endurance', 'tempo', 'sweetspot', 'threshold', 'vo2max', 'anaerobic', 'sprint', 'mixed',
+]
+
+export const MAX_TEMPLATE_WEEKS = 52
+
+const CUSTOM_PREFIX = 'custom_'
+
+/** Template id for a plan_templates row, kept apart from the built-in ids */
+export function customTemplateId(rowId: string): string {
+  return `${CUSTOM_PREFIX}${rowId}`
+}
+
+export function isCustomTemplateId(id: string): boolean {
+  return id.startsWith(CUSTOM_PREFIX)
+}
+
+/** The plan_templates row id behind a custom template id */
+export function customTemplateRowId(id: string): string | null {
+  return isCustomTemplateId(id) ? id.slice(CUSTOM_PREFIX.length) : null
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  if (value === null || value === undefined || value === '') return fallback
+  const n = Number(value)
+  return Number.isFinite(n) ? n : NaN
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter(Boolean) : []
+}
+
+function normalizeWeek(value: unknown, index: number): WeekTemplate {
+  const week = record(value)
+  const range = Array.isArray(week.targetTSSRange) ? week.targetTSSRange : []
+  const distribution = record(week.intensityDistribution)
+  const keyWorkouts = Array.isArray(week.keyWorkouts) ? week.keyWorkouts.map(record) : []
+
+  return {
+    weekNumber: index + 1,
+    phase: text(week.phase) as TrainingPhase,
+    focusDescription: text(week.focusDescription),
+    targetTSSRange: [numberOr(range[0], 100), numberOr(range[1], numberOr(range[0], 100))],
+    // Order is the day pattern: the nth workout lands on the nth key day, so a
+    // missing dayOffset is its position and any other value is left to validation
+    keyWorkouts: keyWorkouts.map((kw, i) => {
+      const preferred = strings(kw.preferredWorkoutIds)
+      const notes = text(kw.notes)
+      return {
+        dayOffset: numberOr(kw.dayOffset, i),
+        category: text(kw.category) as WorkoutCategory,
+        ...(preferred.length > 0 ? { preferredWorkoutIds: preferred } : {}),
+        targetTSSPercent: numberOr(kw.targetTSSPercent, 0),
+        ...(notes ? { notes } : {}),
+      }
+    }),
+    recoveryDays: numberOr(week.recoveryDays, 2),
+    intensityDistribution: {
+      zone1_2: numberOr(distribution.zone1_2, 80),
+      zone3_4: numberOr(distribution.zone3_4, 15),
+      zone5_plus: numberOr(distribution.zone5_plus, 5),
+    },
+  }
+}
+
+/**
+ * Coerce editor or imported input into a PlanTemplate. Missing optional
+ * fields get defaults; bad values are kept for validatePlanTemplate to report.
+ */
+export function normalizePlanTemplate(input: unknown): PlanTemplate {
+  const raw = record(input)
+  const weeks = Array.isArray(raw.weeks) ? raw.weeks.map(normalizeWeek) : []
+  const progression = Array.isArray(raw.weeklyTSSProgression) ? raw.weeklyTSSProgression : []
+  const maxCTL = raw.maxCTL === null || raw.maxCTL === undefined || raw.maxCTL === '' ? undefined : Number(raw.maxCTL)
+
+  return {
+    id: text(raw.id),
+    name: text(raw.name),
+    sport: (text(raw.sport) || 'cycling') as WorkoutSport,
+    goal: text(raw.goal) as PlanGoal,
+    description: text(raw.description),
+    durationWeeks: weeks.length,
+    minCTL: numberOr(raw.minCTL, 0),
+    ...(maxCTL !== undefined ? { maxCTL } : {}),
+    suitableFor: strings(raw.suitableFor),
+    weeks,
+    recoveryWeekFrequency: numberOr(raw.recoveryWeekFrequency, 4),
+    recoveryWeekLoadReduction: numberOr(raw.recoveryWeekLoadReduction, 0.6),
+    weeklyTSSProgression: weeks.map((_, i) => numberOr(progression[i], 1)),
+    tags: strings(raw.tags).map(tag => tag.toLowerCase()),
+  }
+}
+
+/**
+ * Check a template, returning an error message or null if valid
+ */
+export function validatePlanTemplate(template: PlanTemplate): string | null {
+  if (!template.name) return 'Plan template needs a name'
+  if (template.name.length > 100) return 'Plan template name is too long'
+  if (!PLAN_GOALS.includes(template.goal)) return `Unknown plan goal: ${template.goal}`
+  const sport = template.sport ?? 'cycling'
+  if (sport !== 'cycling' && sport !== 'running') return `Unknown sport: ${sport}`
+
+  if (template.weeks.length === 0) return 'A plan template needs at least 1 week'
+  if (template.weeks.length > MAX_TEMPLATE_WEEKS) return `A plan template can have at most ${MAX_TEMPLATE_WEEKS} weeks`
+  if (template.durationWeeks !== template.weeks.length) return 'Duration must match the number of weeks'
+
+  if (!Number.isFinite(template.minCTL) || template.minCTL < 0) return 'Minimum CTL must be 0 or more'
+  if (template.maxCTL !== undefined && !(template.maxCTL > template.minCTL)) {
+    return 'Maximum CTL must be above the minimum'
+  }
+  if (!Number.isInteger(template.recoveryWeekFrequency) || template.recoveryWeekFrequency < 0) {
+    return 'Recovery week frequency must be a whole number of weeks'
+  }
+  if (!(template.recoveryWeekLoadReduction > 0 && template.recoveryWeekLoadReduction <= 1)) {
+    return 'Recovery week load must be between 0 and 1'
+  }
+  if (template.weeklyTSSProgression.length !== template.weeks.length) {
+    return 'Weekly TSS progression needs one value per week'
+  }
+
+  for (let i = 0; i < template.weeks.length; i++) {
+    const week = template.weeks[i]
+    const label = `Week ${i + 1}`
+    if (!TEMPLATE_PHASES.includes(week.phase)) return `${label} has an unknown phase: ${week.phase}`
+
+    const [min, max] = week.targetTSSRange
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min <= 0) return `${label} has an invalid TSS range`
+    if (min > max) return `${label} TSS range minimum is above the maximum`
+    if (max > 200) return `${label} TSS range can be at most 200% of baseline`
+
+    const multiplier = template.weeklyTSSProgression[i]
+    if (!(multiplier > 0 && multiplier <= 3)) return `${label} TSS multiplier must be between 0 and 3`
+
+    if (!Number.isInteger(week.recoveryDays) || week.recoveryDays < 0 || week.recoveryDays > 7) {
+      return `${label} recovery days must be between 0 and 7`
+    }
+    if (week.keyWorkouts.length > 7) return `${label} can have at most 7 key workouts`
+
+    let percentTotal = 0
+    for (let j = 0; j < week.keyWorkouts.length; j++) {
+      const kw = week.keyWorkouts[j]
+      const kwLabel = `${label} workout ${j + 1}`
+      if (kw.dayOffset !== j) {
+        return `${kwLabel} has dayOffset ${kw.dayOffset}: key workouts must be listed in key-day order (expected ${j})`
+      }
+      if (!TEMPLATE_CATEGORIES.includes(kw.category)) return `${kwLabel} has an unknown category: ${kw.category}`
+      if (!(kw.targetTSSPercent > 0 && kw.targetTSSPercent <= 100)) {
+        return `${kwLabel} TSS share must be between 0 and 100%`
+      }
+      percentTotal += kw.targetTSSPercent
+
+      for (const id of kw.preferredWorkoutIds ?? []) {
+        const workout = getWorkoutById(id)
+        if (!workout) return `${kwLabel} references an unknown workout: ${id}`
+        if (workoutSport(workout) !== sport) return `${kwLabel}: ${workout.name} is not a ${sport} workout`
+      }
+    }
+    if (percentTotal > 100) return `${label} key workouts add up to more than 100% of the weekly TSS`
+
+    const { zone1_2, zone3_4, zone5_plus } = week.intensityDistribution
+    if ([zone1_2, zone3_4, zone5_plus].some(z => !Number.isFinite(z) || z < 0)) {
+      return `${label} has an invalid intensity distribution`
+    }
+    if (Math.abs(zone1_2 + zone3_4 + zone5_plus - 100) > 1) return `${label} intensity distribution must add up to 100%`
+  }
+
+  return null
+}
+
+// ============================================
+// JSON EXCHANGE
+// ============================================
+
+export const PLAN_TEMPLATE_FORMAT = 'plan-template'
+export const PLAN_TEMPLATE_VERSION = 1
+
+export interface PlanTemplateExport {
+  format: typeof PLAN_TEMPLATE_FORMAT
+  version: number
+  template: Omit<PlanTemplate, 'id' | 'isCustom'>
+}
+
+/**
+ * Portable form of a template; ids are dropped since they are assigned on save
+ */
+export function exportPlanTemplate(template: PlanTemplate): PlanTemplateExport {
+  const portable: Partial<PlanTemplate> = { ...template }
+  delete portable.id
+  delete portable.isCustom
+  return {
+    format: PLAN_TEMPLATE_FORMAT,
+    version: PLAN_TEMPLATE_VERSION,
+    template: portable as PlanTemplateExport['template'],
+  }
+}
+
+/**
+ * Read an exported template (or a bare PlanTemplate object, e.g. a built-in
+ * copied from source) and validate it
+ */
+export function importPlanTemplate(json: string | unknown): { template?: PlanTemplate; error?: string } {
+  let parsed: unknown = json
+  if (typeof json === 'string') {
+    try {
+      parsed = JSON.parse(json)
+    } catch {
+      return { error: 'File is not valid JSON' }
+    }
+  }
+
+  const raw = record(parsed)
+  let body: unknown = raw
+  if (raw.format !== undefined) {
+    if (raw.format !== PLAN_TEMPLATE_FORMAT) return { error: `Not a plan template export: ${String(raw.format)}` }
+    if (typeof raw.version !== 'number' || raw.version > PLAN_TEMPLATE_VERSION) {
+      return { error: `Unsupported plan template version: ${String(raw.version)}` }
+    }
+    body = raw.template
+  }
+  if (!Array.isArray(record(body).weeks)) return { error: 'No plan template weeks found' }
+
+  const template = { ...normalizePlanTemplate(body), id: '' }
+  const invalid = validatePlanTemplate(template)
+  if (invalid) return { error: invalid }
+  return { template }
+}
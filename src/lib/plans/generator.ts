@@ -8,14 +8,17 @@ import {
   planTemplates,
   getPlanTemplateById,
   getApplicablePlans,
+  templateSport,
   type PlanGoal,
 } from './templates'
-import { getWorkoutById, workoutLibrary, type WorkoutTemplate } from '../workouts/library'
+import { getWorkoutById, getWorkoutsBySport, type WorkoutSport, type WorkoutTemplate } from '../workouts/library'
 import type { AthletePatterns } from '@/lib/learning'
 
 export interface GeneratePlanInput {
   templateId?: string
   goal?: PlanGoal
+  /** Defaults to cycling; ignored when templateId is given */
+  sport?: WorkoutSport
   startDate: string  // ISO date
   weeklyHoursTarget?: number
   keyWorkoutDays?: number[]  // Days of week (0=Sun, 6=Sat)
@@ -25,9 +28,15 @@ export interface GeneratePlanInput {
     ctl: number
     atl?: number
     weight_kg?: number
+    /** Running power threshold (W), for run interval power targets */
+    runningFtp?: number | null
+    /** Threshold pace in s/km, for run interval pace targets */
+    thresholdPace?: number | null
   }
   // Learned patterns for personalization
   patterns?: AthletePatterns
+  /** The athlete's own and shared templates, considered alongside the built-ins */
+  customTemplates?: PlanTemplate[]
 }
 
 export interface GeneratedPlanDay {
@@ -46,8 +55,12 @@ export interface GeneratedPlanDay {
       sets: number
       durationSeconds: number
       restSeconds: number
-      targetPowerMin: number
-      targetPowerMax: number
+      /** Absent for runs without a running FTP */
+      targetPowerMin?: number
+      targetPowerMax?: number
+      /** Run pace targets in s/km (min is the faster pace) */
+      targetPaceMin?: number
+      targetPaceMax?: number
     }>
   } | null  // null for rest days
   isKeyWorkout: boolean
@@ -58,6 +71,7 @@ export interface GeneratedPlanDay {
 export interface GeneratedPlan {
   templateId: string
   templateName: string
+  sport: WorkoutSport
   goal: PlanGoal
   description: string
   startDate: string
@@ -95,20 +109,28 @@ export interface PlanGenerationResult {
 export function selectBestTemplate(
   input: GeneratePlanInput
 ): { template: PlanTemplate; reason: string } | null {
+  const customTemplates = input.customTemplates ?? []
+
   // If specific template requested, use it
   if (input.templateId) {
-    const template = getPlanTemplateById(input.templateId)
+    const template = getPlanTemplateById(input.templateId, customTemplates)
     if (template) {
       return { template, reason: `Requested template: ${template.name}` }
     }
   }
 
-  // Filter by CTL
-  const applicable = getApplicablePlans(input.athleteContext.ctl)
+  // Filter by sport and CTL
+  const sport = input.sport ?? 'cycling'
+  // Custom templates first so they win ties against built-ins of the same goal
+  const applicable = getApplicablePlans(input.athleteContext.ctl, sport, customTemplates)
+    .sort((a, b) => Number(!!b.isCustom) - Number(!!a.isCustom))
 
   if (applicable.length === 0) {
     // Find the plan with lowest minCTL as fallback
-    const sortedByMinCTL = [...planTemplates].sort((a, b) => a.minCTL - b.minCTL)
+    const sortedByMinCTL = [...planTemplates, ...customTemplates]
+      .filter(t => templateSport(t) === sport)
+      .sort((a, b) => a.minCTL - b.minCTL)
+    if (sortedByMinCTL.length === 0) return null
     return {
       template: sortedByMinCTL[0],
       reason: `Fitness below typical thresholds (CTL: ${input.athleteContext.ctl}), using ${sortedByMinCTL[0].name} as starting point`,
@@ -272,7 +294,7 @@ function suggestWeeklyHoursFromPatterns(
 function selectWorkoutForSlot(
   keyWorkout: WeekTemplate['keyWorkouts'][0],
   targetTSS: number,
-  ftp: number
+  sport: WorkoutSport
 ): { workout: WorkoutTemplate; adjustedTSS: number; adjustedDuration: number } | null {
   // Try preferred workouts first
   if (keyWorkout.preferredWorkoutIds) {
@@ -289,8 +311,8 @@ function selectWorkoutForSlot(
     }
   }
 
-  // Fall back to category search
-  const categoryWorkouts = workoutLibrary.filter(w => w.category === keyWorkout.category)
+  // Fall back to category search within the template's sport
+  const categoryWorkouts = getWorkoutsBySport(sport).filter(w => w.category === keyWorkout.category)
   if (categoryWorkouts.length === 0) return null
 
   // Find closest TSS match
@@ -307,6 +329,32 @@ function selectWorkoutForSlot(
   }
 }
 
+/**
+ * A library workout's intervals with the athlete's power and pace targets.
+ * Run intensities are % of threshold speed, so the faster pace comes from
+ * intensity_max.
+ */
+export function personalizeIntervals(
+  workout: WorkoutTemplate,
+  sport: WorkoutSport,
+  athlete: GeneratePlanInput['athleteContext']
+): NonNullable<GeneratedPlanDay['workout']>['intervals'] {
+  const powerThreshold = sport === 'running' ? athlete.runningFtp : athlete.ftp
+  return workout.intervals?.map(interval => ({
+    sets: interval.sets,
+    durationSeconds: interval.duration_seconds,
+    restSeconds: interval.rest_seconds,
+    ...(powerThreshold ? {
+      targetPowerMin: Math.round(powerThreshold * (interval.intensity_min / 100)),
+      targetPowerMax: Math.round(powerThreshold * (interval.intensity_max / 100)),
+    } : {}),
+    ...(sport === 'running' && athlete.thresholdPace ? {
+      targetPaceMin: Math.round(athlete.thresholdPace * 100 / interval.intensity_max),
+      targetPaceMax: Math.round(athlete.thresholdPace * 100 / interval.intensity_min),
+    } : {}),
+  }))
+}
+
 /**
  * Generate a complete training plan from a template
  */
@@ -326,6 +374,12 @@ export function generateTrainingPlan(input: GeneratePlanInput): PlanGenerationRe
   const { template, reason } = selection
   warnings.push(reason)
 
+  const sport = templateSport(template)
+  const { runningFtp, thresholdPace } = input.athleteContext
+  if (sport === 'running' && !thresholdPace && !runningFtp) {
+    warnings.push('No threshold pace or running FTP set - run intervals have no pace or power targets')
+  }
+
   // Validate dates
   const startDate = new Date(input.startDate)
   if (isNaN(startDate.getTime())) {
@@ -409,17 +463,10 @@ export function generateTrainingPlan(input: GeneratePlanInput): PlanGenerationRe
         const keyWorkout = weekTemplate.keyWorkouts[keyDayIndex]
         const slotTSS = Math.round(weekTargetTSS * (keyWorkout.targetTSSPercent / 100))
 
-        const selected = selectWorkoutForSlot(keyWorkout, slotTSS, input.athleteContext.ftp)
+        const selected = selectWorkoutForSlot(keyWorkout, slotTSS, sport)
 
         if (selected) {
-          // Calculate personalized intervals
-          const intervals = selected.workout.intervals?.map(interval => ({
-            sets: interval.sets,
-            durationSeconds: interval.duration_seconds,
-            restSeconds: interval.rest_seconds,
-            targetPowerMin: Math.round(input.athleteContext.ftp * (interval.intensity_min / 100)),
-            targetPowerMax: Math.round(input.athleteContext.ftp * (interval.intensity_max / 100)),
-          }))
+          const intervals = personalizeIntervals(selected.workout, sport, input.athleteContext)
 
           workout = {
             templateId: selected.workout.id,
@@ -470,6 +517,7 @@ export function generateTrainingPlan(input: GeneratePlanInput): PlanGenerationRe
   const plan: GeneratedPlan = {
     templateId: template.id,
     templateName: template.name,
+    sport,
     goal: template.goal,
     description: template.description,
     startDate: input.startDate,
@@ -497,24 +545,34 @@ export function generateTrainingPlan(input: GeneratePlanInput): PlanGenerationRe
 /**
  * Get available plan templates with applicability info
  */
-export function getAvailablePlans(currentCTL: number): Array<{
+export function getAvailablePlans(
+  currentCTL: number,
+  sport?: WorkoutSport,
+  customTemplates: PlanTemplate[] = []
+): Array<{
   id: string
   name: string
+  sport: WorkoutSport
   goal: PlanGoal
   durationWeeks: number
   description: string
   isApplicable: boolean
+  isCustom: boolean
   minCTL: number
   fitnessGap: number | null
 }> {
-  return planTemplates.map(t => ({
-    id: t.id,
-    name: t.name,
-    goal: t.goal,
-    durationWeeks: t.durationWeeks,
-    description: t.description,
-    isApplicable: currentCTL >= t.minCTL,
-    minCTL: t.minCTL,
-    fitnessGap: currentCTL < t.minCTL ? t.minCTL - currentCTL : null,
-  }))
+  return [...planTemplates, ...customTemplates]
+    .filter(t => !sport || templateSport(t) === sport)
+    .map(t => ({
+      id: t.id,
+      name: t.name,
+      sport: templateSport(t),
+      goal: t.goal,
+      durationWeeks: t.durationWeeks,
+      description: t.description,
+      isApplicable: currentCTL >= t.minCTL,
+      isCustom: !!t.isCustom,
+      minCTL: t.minCTL,
+      fitnessGap: currentCTL < t.minCTL ? t.minCTL - currentCTL : null,
+    }))
 }
@@ -0,0 +1,535 @@
+// Target-Driven Plan Optimizer
+// Solves for daily TSS targets that reach a race-day fitness goal (CTL floor,
+// TSB window) within ramp-rate, weekly-hours, rest-day and key-day
+// constraints, then fills the days from the workout library by TSS and phase
+
+import {
+  personalizeIntervals,
+  type GeneratePlanInput,
+  type GeneratedPlan,
+  type GeneratedPlanDay,
+} from './generator'
+import { projectFitness, type PlanDayInput } from './projection'
+import {
+  getWorkoutsBySport,
+  type TrainingPhase,
+  type WorkoutCategory,
+  type WorkoutSport,
+  type WorkoutTemplate,
+} from '../workouts/library'
+import { DEFAULT_TIME_CONSTANTS, type PmcTimeConstants } from '@/lib/fitness/pmc'
+
+export interface FitnessTarget {
+  /** Race day, YYYY-MM-DD */
+  eventDate: string
+  /** Lowest acceptable CTL on race day; without it CTL is maximized */
+  minCTL?: number
+  /** Race-day TSB window */
+  tsbRange?: [number, number]
+}
+
+export interface PlanConstraints {
+  /** Highest CTL gain over any 7 days */
+  maxRampRate?: number
+  maxWeeklyHours?: number
+  /** Days of week without training (0=Sun, 6=Sat) */
+  restDays?: number[]
+  /** Days of week for the hard sessions (0=Sun, 6=Sat) */
+  keyDays?: number[]
+  /** Every Nth build week is a recovery week (0 = none) */
+  recoveryWeekEvery?: number
+}
+
+export interface OptimizePlanInput {
+  startDate: string
+  sport?: WorkoutSport
+  target: FitnessTarget
+  constraints?: PlanConstraints
+  athleteContext: GeneratePlanInput['athleteContext']
+  timeConstants?: PmcTimeConstants
+}
+
+export interface PlanOptimization {
+  target: { eventDate: string; minCTL: number | null; tsbRange: [number, number] }
+  constraints: Required<PlanConstraints>
+  /** Weekly CTL gain solved for the build weeks */
+  rampRate: number
+  taperDays: number
+  /** Taper daily load as a fraction of the last build week's */
+  taperLoad: number
+  /** Race-day CTL and TSB both land in the target */
+  feasible: boolean
+  projected: { ctl: number; tsb: number; maxRampRate: number; maxWeeklyHours: number }
+}
+
+export interface OptimizedPlan extends GeneratedPlan {
+  optimization: PlanOptimization
+}
+
+export interface OptimizedPlanResult {
+  success: boolean
+  plan?: OptimizedPlan
+  error?: string
+  warnings: string[]
+}
+
+const DEFAULT_TSB_RANGE: [number, number] = [5, 15]
+const DEFAULT_MAX_RAMP = 6
+const DEFAULT_WEEKLY_HOURS = 8
+const DEFAULT_REST_DAYS = [1]
+const DEFAULT_KEY_DAYS = [2, 4, 6]
+const DEFAULT_RECOVERY_EVERY = 4
+
+// Shortest plan the solver works with: 8 build days before the shortest taper
+const MIN_PLAN_DAYS = 15
+// Key days carry more of the week's load than filler days
+const KEY_WEIGHT = 1.6
+// Intensity assumed per day when converting weekly hours to TSS
+const KEY_IF = 0.85
+const FILLER_IF = 0.7
+const RECOVERY_LOAD = 0.6
+// Share of a filler day for the openers the day before the race
+const OPENER_WEIGHT = 0.4
+// Days below this TSS become rest days
+const MIN_WORKOUT_TSS = 15
+const RECOVERY_TSS = 35
+
+const TAPER_DAYS = [7, 10, 14, 21]
+const TAPER_LOADS = [0.4, 0.5, 0.6, 0.7, 0.8]
+const SEARCH_STEPS = 12
+
+const KEY_CATEGORIES: Record<string, WorkoutCategory[]> = {
+  base: ['sweetspot', 'tempo'],
+  build: ['threshold', 'vo2max', 'sweetspot'],
+  taper: ['vo2max', 'threshold'],
+  recovery: ['endurance'],
+}
+
+// Next category to try when the sport has none of a kind (no running sweet spot)
+const CATEGORY_FALLBACK: Partial<Record<WorkoutCategory, WorkoutCategory>> = {
+  sweetspot: 'tempo',
+  vo2max: 'threshold',
+  threshold: 'tempo',
+  tempo: 'endurance',
+  recovery: 'endurance',
+}
+
+// Library phases suitable for each plan phase
+const LIBRARY_PHASES: Record<string, TrainingPhase[]> = {
+  base: ['base'],
+  build: ['build'],
+  taper: ['peak', 'taper'],
+  recovery: ['recovery'],
+}
+
+const PHASE_FOCUS: Record<string, string> = {
+  base: 'Aerobic base and sweet spot',
+  build: 'Threshold and VO2max build',
+  recovery: 'Recovery week - absorb the training',
+  taper: 'Taper - sharpen and freshen up for race day',
+}
+
+interface DaySlot {
+  date: string
+  dayOfWeek: number
+  /** 7-day block from the start date */
+  weekIndex: number
+  phase: string
+  isKey: boolean
+  /** Share of the block's load; 0 for rest days and race day */
+  weight: number
+}
+
+interface Evaluation {
+  loads: number[]
+  ctl: number
+  tsb: number
+  maxRampRate: number
+  totalTSS: number
+  hoursCapped: boolean
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000)
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Days from start to race day with their phase and load weight. Build weeks
+ * split 40/60 into base and build with every Nth a recovery week; the last
+ * taperDays before the race are taper.
+ */
+function planSlots(startDate: string, days: number, taperDays: number, constraints: Required<PlanConstraints>): DaySlot[] {
+  const taperStart = days - 1 - taperDays
+  const buildWeeks = Math.ceil(taperStart / 7)
+  const baseWeeks = Math.ceil(buildWeeks * 0.4)
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = shiftDays(startDate, i)
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay()
+    const weekIndex = Math.floor(i / 7)
+    const isRace = i === days - 1
+    const isEve = i === days - 2
+    const isRest = isRace || constraints.restDays.includes(dayOfWeek)
+    const isKey = !isRest && !isEve && constraints.keyDays.includes(dayOfWeek)
+
+    let phase = 'taper'
+    if (i < taperStart) {
+      const every = constraints.recoveryWeekEvery
+      const recovery = every > 0 && (weekIndex + 1) % every === 0 && weekIndex < buildWeeks - 1
+      phase = recovery ? 'recovery' : weekIndex < baseWeeks ? 'base' : 'build'
+    }
+
+    const weight = isRest ? 0 : isKey ? KEY_WEIGHT : isEve ? OPENER_WEIGHT : 1
+    return { date, dayOfWeek, weekIndex, phase, isKey, weight }
+  })
+}
+
+/** Groups of consecutive slot indexes in the same 7-day block */
+function weekChunks(slots: DaySlot[], from: number, to: number): number[][] {
+  const chunks: number[][] = []
+  for (let i = from; i < to; i++) {
+    const last = chunks[chunks.length - 1]
+    if (last && slots[last[0]].weekIndex === slots[i].weekIndex) last.push(i)
+    else chunks.push([i])
+  }
+  return chunks
+}
+
+/**
+ * Daily TSS for a ramp rate and taper. Each build week's load is solved so
+ * CTL gains rampRate over the week given how the load is spread across its
+ * days, capped by the weekly hours.
+ */
+function dailyLoads(
+  slots: DaySlot[],
+  rampRate: number,
+  taperLoad: number,
+  currentCTL: number,
+  constraints: Required<PlanConstraints>,
+  timeConstants: PmcTimeConstants
+): { loads: number[]; hoursCapped: boolean } {
+  const decay = Math.exp(-1 / timeConstants.ctlDays)
+  const loads = slots.map(() => 0)
+  const taperStart = slots.findIndex(s => s.phase === 'taper')
+  let ctl = currentCTL
+  let dailyAverage: number | null = null
+  let hoursCapped = false
+
+  for (const chunk of weekChunks(slots, 0, taperStart)) {
+    const totalWeight = chunk.reduce((sum, i) => sum + slots[i].weight, 0)
+    if (totalWeight > 0) {
+      const shares = chunk.map(i => slots[i].weight / totalWeight)
+      const hoursPerTSS = chunk.reduce((sum, i, j) => {
+        const intensity = slots[i].isKey ? KEY_IF : FILLER_IF
+        return sum + shares[j] / (intensity * intensity * 100)
+      }, 0)
+      const maxLoad = constraints.maxWeeklyHours * chunk.length / 7 / hoursPerTSS
+
+      let load: number
+      if (slots[chunk[0]].phase === 'recovery' && dailyAverage !== null) {
+        load = dailyAverage * chunk.length * RECOVERY_LOAD
+      } else {
+        const targetCTL = ctl + rampRate * chunk.length / 7
+        const gain = shares.reduce((sum, share, j) => sum + share * (1 - decay) * decay ** (chunk.length - 1 - j), 0)
+        load = (targetCTL - ctl * decay ** chunk.length) / gain
+      }
+      if (load > maxLoad) {
+        load = maxLoad
+        hoursCapped = true
+      }
+      load = Math.max(0, load)
+      chunk.forEach((i, j) => { loads[i] = load * shares[j] })
+      if (slots[chunk[0]].phase !== 'recovery') dailyAverage = load / chunk.length
+    }
+    for (const i of chunk) ctl = ctl * decay + loads[i] * (1 - decay)
+  }
+
+  // Taper: a fraction of the last build week's daily load, race day at 0
+  const taper = slots.slice(taperStart).map((s, j) => ({ ...s, index: taperStart + j }))
+  const taperWeight = taper.reduce((sum, s) => sum + s.weight, 0)
+  if (taperWeight > 0) {
+    const total = (dailyAverage ?? currentCTL) * taperLoad * (taper.length - 1)
+    for (const s of taper) loads[s.index] = total * s.weight / taperWeight
+  }
+
+  return { loads, hoursCapped }
+}
+
+function toPlanDays(slots: DaySlot[], loads: number[]): PlanDayInput[] {
+  return slots.map((s, i) => ({ date: s.date, targetTSS: loads[i], phase: s.phase }))
+}
+
+/** Highest CTL gain over any 7 days, counting the days before the plan at the current CTL */
+function maxRamp(ctls: number[], currentCTL: number): number {
+  let max = -Infinity
+  ctls.forEach((ctl, i) => {
+    max = Math.max(max, ctl - (i >= 7 ? ctls[i - 7] : currentCTL))
+  })
+  return max
+}
+
+/** Largest value in [lo, hi] that passes, assuming passing values form a prefix */
+function largestPassing(lo: number, hi: number, passes: (value: number) => boolean): number {
+  if (passes(hi)) return hi
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const mid = (lo + hi) / 2
+    if (passes(mid)) lo = mid
+    else hi = mid
+  }
+  return lo
+}
+
+/** Smallest value in [lo, hi] that passes, assuming passing values form a suffix; null when none does */
+function smallestPassing(lo: number, hi: number, passes: (value: number) => boolean): number | null {
+  if (passes(lo)) return lo
+  if (!passes(hi)) return null
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const mid = (lo + hi) / 2
+    if (passes(mid)) hi = mid
+    else lo = mid
+  }
+  return hi
+}
+
+function tsbMiss(tsb: number, [low, high]: [number, number]): number {
+  return tsb < low ? low - tsb : tsb > high ? tsb - high : 0
+}
+
+/**
+ * The closest library workout for a day: the category (or its fallback) in
+ * the athlete's sport, suited to the phase where possible, nearest in TSS
+ */
+function pickWorkout(sport: WorkoutSport, category: WorkoutCategory, phase: string, tss: number): WorkoutTemplate | null {
+  const pool = getWorkoutsBySport(sport)
+  let candidates: WorkoutTemplate[] = []
+  for (let c: WorkoutCategory | undefined = category; c && candidates.length === 0; c = CATEGORY_FALLBACK[c]) {
+    candidates = pool.filter(w => w.category === c)
+  }
+  if (candidates.length === 0) return null
+
+  const phases = LIBRARY_PHASES[phase] ?? []
+  const suitable = candidates.filter(w => w.suitable_phases.some(p => p === 'any' || phases.includes(p)))
+  const list = suitable.length > 0 ? suitable : candidates
+  const distance = (w: WorkoutTemplate) => Math.abs((w.target_tss_range[0] + w.target_tss_range[1]) / 2 - tss)
+  return list.reduce((best, w) => (distance(w) < distance(best) ? w : best))
+}
+
+function resolveConstraints(constraints: PlanConstraints = {}): Required<PlanConstraints> {
+  return {
+    maxRampRate: constraints.maxRampRate ?? DEFAULT_MAX_RAMP,
+    maxWeeklyHours: constraints.maxWeeklyHours ?? DEFAULT_WEEKLY_HOURS,
+    restDays: constraints.restDays ?? DEFAULT_REST_DAYS,
+    keyDays: constraints.keyDays ?? DEFAULT_KEY_DAYS,
+    recoveryWeekEvery: constraints.recoveryWeekEvery ?? DEFAULT_RECOVERY_EVERY,
+  }
+}
+
+/**
+ * Solve for the daily TSS that reaches the race-day target within the
+ * constraints and fill the days from the workout library.
+ *
+ * For each taper length and depth, binary-searches the build ramp rate: the
+ * highest the 7-day ramp limit allows, then the lowest that still reaches
+ * the CTL target. The candidate closest to the target wins, ties going to
+ * the TSB nearest the middle of the window, then the least total load.
+ */
+export function optimizePlan(input: OptimizePlanInput): OptimizedPlanResult {
+  const warnings: string[] = []
+  const sport = input.sport ?? 'cycling'
+  const constraints = resolveConstraints(input.constraints)
+  const timeConstants = input.timeConstants ?? DEFAULT_TIME_CONSTANTS
+  const { eventDate } = input.target
+  const tsbRange = input.target.tsbRange ?? DEFAULT_TSB_RANGE
+  const minCTL = input.target.minCTL ?? null
+  const currentCTL = input.athleteContext.ctl
+  const currentATL = input.athleteContext.atl ?? currentCTL
+
+  if (isNaN(new Date(input.startDate).getTime()) || isNaN(new Date(eventDate).getTime())) {
+    return { success: false, error: 'Invalid start or event date', warnings }
+  }
+  const days = daysBetween(input.startDate, eventDate) + 1
+  if (days < MIN_PLAN_DAYS) {
+    return { success: false, error: `The event needs to be at least ${MIN_PLAN_DAYS} days after the start date`, warnings }
+  }
+  if (tsbRange[0] > tsbRange[1]) {
+    return { success: false, error: 'TSB range minimum is above its maximum', warnings }
+  }
+  if (constraints.keyDays.some(d => constraints.restDays.includes(d))) {
+    return { success: false, error: 'Key days cannot also be rest days', warnings }
+  }
+  if (constraints.restDays.length >= 7) {
+    return { success: false, error: 'At least one training day per week is needed', warnings }
+  }
+
+  const evaluate = (slots: DaySlot[], rampRate: number, taperLoad: number): Evaluation => {
+    const { loads, hoursCapped } = dailyLoads(slots, rampRate, taperLoad, currentCTL, constraints, timeConstants)
+    const projection = projectFitness(currentCTL, currentATL, toPlanDays(slots, loads), { eventDate, timeConstants })
+    return {
+      loads,
+      ctl: projection.eventFitness?.ctl ?? projection.finalCTL,
+      tsb: projection.eventFitness?.tsb ?? projection.finalTSB,
+      maxRampRate: maxRamp(projection.points.map(p => p.ctl), currentCTL),
+      totalTSS: loads.reduce((sum, l) => sum + l, 0),
+      hoursCapped,
+    }
+  }
+
+  let best: { slots: DaySlot[]; rampRate: number; taperDays: number; taperLoad: number; result: Evaluation; miss: number } | null = null
+
+  for (const taperDays of TAPER_DAYS.filter(t => t <= days - 8)) {
+    const slots = planSlots(input.startDate, days, taperDays, constraints)
+    for (const taperLoad of TAPER_LOADS) {
+      const rampLimit = largestPassing(0, constraints.maxRampRate, r =>
+        evaluate(slots, r, taperLoad).maxRampRate <= constraints.maxRampRate + 0.05)
+      const rampRate = minCTL === null
+        ? rampLimit
+        : smallestPassing(0, rampLimit, r => evaluate(slots, r, taperLoad).ctl >= minCTL) ?? rampLimit
+      const result = evaluate(slots, rampRate, taperLoad)
+      const miss = 3 * Math.max(0, (minCTL ?? 0) - result.ctl) + tsbMiss(result.tsb, tsbRange)
+
+      const offCenter = Math.abs(result.tsb - (tsbRange[0] + tsbRange[1]) / 2)
+      const bestOffCenter = best ? Math.abs(best.result.tsb - (tsbRange[0] + tsbRange[1]) / 2) : 0
+      const better = !best
+        || miss < best.miss - 0.05
+        || (Math.abs(miss - best.miss) <= 0.05 && offCenter < bestOffCenter - 0.5)
+        || (Math.abs(miss - best.miss) <= 0.05 && Math.abs(offCenter - bestOffCenter) <= 0.5 && result.totalTSS < best.result.totalTSS)
+      if (better) best = { slots, rampRate, taperDays, taperLoad, result, miss }
+    }
+  }
+
+  if (!best) {
+    return { success: false, error: 'No plan fits between the start date and the event', warnings }
+  }
+
+  // Fill the days from the workout library
+  const { slots } = best
+  const keyCount = new Map<number, number>()
+  const planDays: GeneratedPlanDay[] = slots.map((slot, i) => {
+    const tss = Math.round(best.result.loads[i])
+    let workout: GeneratedPlanDay['workout'] = null
+
+    if (tss >= MIN_WORKOUT_TSS) {
+      // Openers the day before the race whatever their load
+      let category: WorkoutCategory = tss < RECOVERY_TSS || i === slots.length - 2 ? 'recovery' : 'endurance'
+      if (slot.isKey) {
+        const index = keyCount.get(slot.weekIndex) ?? 0
+        keyCount.set(slot.weekIndex, index + 1)
+        const options = KEY_CATEGORIES[slot.phase] ?? KEY_CATEGORIES.build
+        category = options[index % options.length]
+      }
+      const picked = pickWorkout(sport, category, slot.phase, tss)
+      if (picked) {
+        const intensity = (picked.intensity_factor_range[0] + picked.intensity_factor_range[1]) / 2
+        workout = {
+          templateId: picked.id,
+          name: picked.name,
+          category: picked.category,
+          targetTSS: tss,
+          targetDurationMinutes: Math.round(tss / (intensity * intensity * 100) * 60),
+          targetIF: intensity,
+          description: picked.description,
+          intervals: personalizeIntervals(picked, sport, input.athleteContext),
+        }
+      }
+    }
+
+    return {
+      date: slot.date,
+      weekNumber: slot.weekIndex + 1,
+      dayOfWeek: slot.dayOfWeek,
+      workout,
+      isKeyWorkout: slot.isKey && workout !== null,
+      isRecoveryDay: !workout || workout.category === 'recovery',
+      weekFocus: '',
+    }
+  })
+
+  const weeks: GeneratedPlan['weeks'] = weekChunks(slots, 0, slots.length).map((chunk, index) => {
+    const phaseDays = new Map<string, number>()
+    for (const i of chunk) phaseDays.set(slots[i].phase, (phaseDays.get(slots[i].phase) ?? 0) + 1)
+    const phase = [...phaseDays.entries()].reduce((a, b) => (b[1] >= a[1] ? b : a))[0]
+    const focusDescription = PHASE_FOCUS[phase] ?? ''
+    const weekDays = chunk.map(i => ({ ...planDays[i], weekFocus: focusDescription }))
+    return {
+      weekNumber: index + 1,
+      phase,
+      focusDescription,
+      targetTSSRange: [90, 110],
+      actualTargetTSS: weekDays.reduce((sum, d) => sum + (d.workout?.targetTSS ?? 0), 0),
+      days: weekDays,
+    }
+  })
+
+  // Report what the filled plan actually projects to
+  const finalLoads = weeks.flatMap(w => w.days.map(d => d.workout?.targetTSS ?? 0))
+  const projection = projectFitness(currentCTL, currentATL, toPlanDays(slots, finalLoads), { eventDate, timeConstants })
+  const ctl = projection.eventFitness?.ctl ?? projection.finalCTL
+  const tsb = projection.eventFitness?.tsb ?? projection.finalTSB
+  const weeklyHours = weeks.map(w => w.days.reduce((sum, d) => sum + (d.workout?.targetDurationMinutes ?? 0), 0) / 60)
+  const feasible = (minCTL === null || ctl >= minCTL - 0.5) && tsbMiss(tsb, tsbRange) <= 0.5
+
+  if (!feasible) {
+    const limit = best.result.hoursCapped ? `${constraints.maxWeeklyHours} h/week`
+      : best.rampRate >= constraints.maxRampRate - 0.1 ? `a ramp rate of ${constraints.maxRampRate}/week`
+      : 'the time available'
+    warnings.push(`Target not reachable within ${limit}: race-day CTL ${Math.round(ctl)}${minCTL !== null ? ` (target ${minCTL})` : ''}, TSB ${Math.round(tsb)} (target ${tsbRange[0]} to ${tsbRange[1]})`)
+  }
+  if (currentATL > currentCTL + 15) {
+    warnings.push(`Starting with high fatigue (TSB ${Math.round(currentCTL - currentATL)}); the first week may feel hard`)
+  }
+
+  const phaseCount: Record<string, number> = {}
+  for (const week of weeks) phaseCount[week.phase] = (phaseCount[week.phase] ?? 0) + 1
+  const totalWorkoutDays = planDays.filter(d => d.workout !== null).length
+  const targetLabel = [
+    minCTL !== null ? `CTL ≥ ${minCTL}` : null,
+    `TSB ${tsbRange[0]} to ${tsbRange[1]}`,
+  ].filter(Boolean).join(', ')
+
+  const plan: OptimizedPlan = {
+    templateId: 'optimized',
+    templateName: `Optimized Plan: ${targetLabel}`,
+    sport,
+    goal: 'event_prep',
+    description: `Daily load solved for race-day ${targetLabel} on ${eventDate}, ramping at most ${constraints.maxRampRate} CTL/week within ${constraints.maxWeeklyHours} h/week, with a ${best.taperDays}-day taper.`,
+    startDate: input.startDate,
+    endDate: eventDate,
+    durationWeeks: weeks.length,
+    weeklyHoursTarget: constraints.maxWeeklyHours,
+    targetEventDate: eventDate,
+    weeks,
+    summary: {
+      totalDays: days,
+      totalWorkoutDays,
+      totalRestDays: days - totalWorkoutDays,
+      avgWeeklyTSS: Math.round(weeks.reduce((sum, w) => sum + w.actualTargetTSS, 0) / weeks.length),
+      phases: Object.entries(phaseCount).map(([phase, count]) => ({ phase, weeks: count })),
+    },
+    optimization: {
+      target: { eventDate, minCTL, tsbRange },
+      constraints,
+      rampRate: round1(best.rampRate),
+      taperDays: best.taperDays,
+      taperLoad: best.taperLoad,
+      feasible,
+      projected: {
+        ctl: round1(ctl),
+        tsb: round1(tsb),
+        maxRampRate: round1(maxRamp(projection.points.map(p => p.ctl), currentCTL)),
+        maxWeeklyHours: round1(Math.max(...weeklyHours)),
+      },
+    },
+  }
+
+  return { success: true, plan, warnings }
+}
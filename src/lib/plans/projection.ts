@@ -2,12 +2,21 @@
  * Fitness Projection Calculator
  *
  * Projects CTL, ATL, and TSB forward through a training plan using
- * standard PMC exponential decay constants.
+ * PMC exponential decay constants.
  *
- * CTL time constant (τ) = 42 days
- * ATL time constant (τ) = 7 days
+ * CTL time constant (τ) = 42 days, ATL time constant (τ) = 7 days,
+ * unless the athlete has configured their own. With a fitted Banister
+ * model it also predicts performance for each day.
  */
 
+import { DEFAULT_TIME_CONSTANTS, type PmcTimeConstants } from '@/lib/fitness/pmc'
+import {
+  advanceBanisterState,
+  banisterPerformance,
+  type BanisterModel,
+  type BanisterState,
+} from '@/lib/analysis/banister'
+
 export interface PlanDayInput {
   date: string
   targetTSS: number
@@ -28,6 +37,8 @@ export interface ProjectionPoint {
   isTaper?: boolean
   /** Phase label (Base, Build, Peak, Taper) */
   phase?: string
+  /** Predicted performance (% of best) from the athlete's Banister model */
+  performance?: number
 }
 
 export interface ProjectionResult {
@@ -47,12 +58,15 @@ export interface ProjectionResult {
     ctl: number
     atl: number
     tsb: number
+    performance?: number
+  }
+  /** Highest predicted performance during the plan (with a performance model) */
+  peakPerformance?: {
+    date: string
+    performance: number
   }
 }
 
-const CTL_TAU = 42 // days
-const ATL_TAU = 7  // days
-
 /**
  * Calculate decay factor for exponential moving average
  * factor = e^(-1/tau) ≈ 1 - 1/tau for small 1/tau
@@ -68,6 +82,7 @@ function decayFactor(tau: number): number {
  *   CTL_new = CTL_old * e^(-1/42) + TSS * (1 - e^(-1/42))
  *   ATL_new = ATL_old * e^(-1/7)  + TSS * (1 - e^(-1/7))
  *   TSB = CTL - ATL
+ * with 42/7 replaced by options.timeConstants when given.
  */
 export function projectFitness(
   currentCTL: number,
@@ -76,10 +91,14 @@ export function projectFitness(
   options?: {
     eventDate?: string
     taperStartDate?: string
+    timeConstants?: PmcTimeConstants
+    /** Fitted Banister model and its impulses at the first plan day */
+    performance?: { model: BanisterModel; state: BanisterState }
   }
 ): ProjectionResult {
-  const ctlDecay = decayFactor(CTL_TAU)
-  const atlDecay = decayFactor(ATL_TAU)
+  const timeConstants = options?.timeConstants ?? DEFAULT_TIME_CONSTANTS
+  const ctlDecay = decayFactor(timeConstants.ctlDays)
+  const atlDecay = decayFactor(timeConstants.atlDays)
   const ctlGain = 1 - ctlDecay
   const atlGain = 1 - atlDecay
 
@@ -90,6 +109,8 @@ export function projectFitness(
 
   const points: ProjectionPoint[] = []
   let eventFitness: ProjectionResult['eventFitness'] = undefined
+  let performanceState = options?.performance?.state
+  let peakPerformance: ProjectionResult['peakPerformance'] = undefined
 
   // Sort plan days by date
   const sortedDays = [...planDays].sort((a, b) => a.date.localeCompare(b.date))
@@ -110,6 +131,17 @@ export function projectFitness(
   for (const day of allDays) {
     const tss = day.targetTSS || 0
 
+    // Performance on the day, before its training
+    let performance: number | undefined
+    if (options?.performance && performanceState) {
+      const { model } = options.performance
+      performance = Math.round(banisterPerformance(model, performanceState) * 10) / 10
+      performanceState = advanceBanisterState(performanceState, tss, model.tau1, model.tau2)
+      if (!peakPerformance || performance > peakPerformance.performance) {
+        peakPerformance = { date: day.date, performance }
+      }
+    }
+
     // Update CTL and ATL using exponential decay
     ctl = ctl * ctlDecay + tss * ctlGain
     atl = atl * atlDecay + tss * atlGain
@@ -135,6 +167,7 @@ export function projectFitness(
       isEvent,
       isTaper,
       phase: day.phase ?? undefined,
+      performance,
     })
 
     // Capture event day fitness
@@ -144,6 +177,7 @@ export function projectFitness(
         ctl: Math.round(ctl * 10) / 10,
         atl: Math.round(atl * 10) / 10,
         tsb: Math.round(tsb * 10) / 10,
+        performance,
       }
     }
   }
@@ -159,6 +193,7 @@ export function projectFitness(
     peakCTLDate,
     ctlGain: Math.round(((lastPoint?.ctl ?? currentCTL) - currentCTL) * 10) / 10,
     eventFitness,
+    peakPerformance,
   }
 }
 
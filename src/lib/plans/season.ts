@@ -0,0 +1,363 @@
+// Season Periodization
+// Chains plan templates into one macrocycle across every upcoming event:
+// base/build/peak/taper blocks toward each A-event, mini-tapers for B-events
+// and train-through for C-events
+
+import {
+  generateTrainingPlan,
+  type GeneratePlanInput,
+  type GeneratedPlan,
+  type GeneratedPlanDay,
+} from './generator'
+import { planTemplates, templateSport, type PlanGoal, type PlanTemplate } from './templates'
+import { projectFitness, planDataToPlanDays } from './projection'
+
+export type EventPriority = 'A' | 'B' | 'C'
+
+export type EventTreatment = 'peak' | 'mini_taper' | 'train_through'
+
+export interface SeasonEvent {
+  id?: string
+  name: string
+  date: string
+  priority: EventPriority
+  distanceKm?: number | null
+}
+
+export interface SeasonPlanInput extends Omit<GeneratePlanInput, 'templateId' | 'goal' | 'targetEventDate'> {
+  events: SeasonEvent[]
+}
+
+export interface SeasonBlock {
+  templateId: string
+  templateName: string
+  /** Template weeks used (1-based, inclusive) */
+  templateWeeks: [number, number]
+  /** Season weeks covered (1-based, inclusive) */
+  seasonWeeks: [number, number]
+  startDate: string
+  endDate: string
+  phases: string[]
+  /** A-event the block builds toward, null for bridges between events */
+  targetEvent: string | null
+}
+
+export interface SeasonPlanEvent extends SeasonEvent {
+  treatment: EventTreatment
+  weekNumber: number
+}
+
+export interface SeasonPlan extends GeneratedPlan {
+  blocks: SeasonBlock[]
+  events: SeasonPlanEvent[]
+}
+
+export interface SeasonPlanResult {
+  success: boolean
+  plan?: SeasonPlan
+  error?: string
+  warnings: string[]
+}
+
+// Load reduction before an event when no taper template covers it
+const EVENT_TAPER: Record<EventPriority, { days: number; load: number } | null> = {
+  A: { days: 10, load: 0.5 },
+  B: { days: 3, load: 0.6 },
+  C: null,
+}
+
+// Race day estimates without a distance
+const DEFAULT_RACE_MINUTES = 150
+const RACE_IF = 0.9
+const RACE_SPEED_KMH: Record<string, number> = { cycling: 30, running: 10 }
+
+const TREATMENTS: Record<EventPriority, EventTreatment> = {
+  A: 'peak',
+  B: 'mini_taper',
+  C: 'train_through',
+}
+
+interface TemplateSlice {
+  template: PlanTemplate
+  /** Template week range, 0-based, end exclusive */
+  from: number
+  to: number
+  targetEvent: SeasonEvent | null
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000)
+}
+
+/**
+ * Template for a goal in the sport; the most demanding one the athlete's CTL
+ * allows, else the least demanding
+ */
+function templateFor(goal: PlanGoal, sport: string, ctl: number): PlanTemplate | null {
+  const candidates = planTemplates
+    .filter(t => t.goal === goal && templateSport(t) === sport)
+    .sort((a, b) => a.minCTL - b.minCTL)
+  if (candidates.length === 0) return null
+  const applicable = candidates.filter(t => ctl >= t.minCTL)
+  return applicable.length > 0 ? applicable[applicable.length - 1] : candidates[0]
+}
+
+/**
+ * Fill weeks by cycling through templates from their first week
+ */
+function fillWeeks(weeks: number, templates: PlanTemplate[], targetEvent: SeasonEvent | null): TemplateSlice[] {
+  const slices: TemplateSlice[] = []
+  if (templates.length === 0) return slices
+  let remaining = weeks
+  for (let i = 0; remaining > 0; i++) {
+    const template = templates[Math.min(i, templates.length - 1)]
+    const take = Math.min(remaining, template.durationWeeks)
+    slices.push({ template, from: 0, to: take, targetEvent })
+    remaining -= take
+  }
+  return slices
+}
+
+/**
+ * Blocks for the weeks leading to an A-event: the full event-prep template
+ * when there is room (base weeks before it), else build weeks and the taper
+ */
+function aEventSlices(weeks: number, event: SeasonEvent, sport: string, ctl: number): TemplateSlice[] {
+  const eventPrep = templateFor('event_prep', sport, ctl)
+  const taper = templateFor('taper', sport, ctl)
+  const build = templateFor('ftp_build', sport, ctl)
+  const base = templateFor('base_build', sport, ctl)
+  const buildUp = [build && ctl >= build.minCTL ? null : base, build ?? base]
+    .filter((t): t is PlanTemplate => t !== null)
+
+  if (eventPrep && weeks >= eventPrep.durationWeeks) {
+    return [
+      ...fillWeeks(weeks - eventPrep.durationWeeks, base ? [base] : buildUp, event),
+      { template: eventPrep, from: 0, to: eventPrep.durationWeeks, targetEvent: event },
+    ]
+  }
+  if (!taper) return fillWeeks(weeks, buildUp, event)
+
+  const taperWeeks = Math.min(weeks, taper.durationWeeks)
+  return [
+    ...fillWeeks(weeks - taperWeeks, buildUp, event),
+    { template: taper, from: taper.durationWeeks - taperWeeks, to: taper.durationWeeks, targetEvent: event },
+  ]
+}
+
+function raceWorkout(event: SeasonEvent, sport: string): NonNullable<GeneratedPlanDay['workout']> {
+  const minutes = event.distanceKm
+    ? Math.round(event.distanceKm / (RACE_SPEED_KMH[sport] ?? RACE_SPEED_KMH.cycling) * 60)
+    : DEFAULT_RACE_MINUTES
+  return {
+    templateId: null,
+    name: event.name,
+    category: 'race',
+    targetTSS: Math.round(minutes / 60 * RACE_IF * RACE_IF * 100),
+    targetDurationMinutes: minutes,
+    targetIF: RACE_IF,
+    description: `${event.priority}-priority event`,
+  }
+}
+
+/**
+ * Build one plan across all events from startDate to the week of the last
+ * event. Each block is generated from its template at the CTL projected for
+ * its start, so later blocks build on earlier ones.
+ */
+export function generateSeasonPlan(input: SeasonPlanInput): SeasonPlanResult {
+  const warnings: string[] = []
+  const sport = input.sport ?? 'cycling'
+  const events = input.events
+    .filter(e => e.date >= input.startDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  if (events.length === 0) {
+    return { success: false, error: 'No upcoming events to plan a season around', warnings }
+  }
+  if (isNaN(new Date(input.startDate).getTime())) {
+    return { success: false, error: 'Invalid start date', warnings }
+  }
+
+  const weekOf = (date: string) => Math.floor(daysBetween(input.startDate, date) / 7)
+  const totalWeeks = weekOf(events[events.length - 1].date) + 1
+  const startCTL = input.athleteContext.ctl
+
+  // Template slices: a segment toward each A-event, then a bridge to the
+  // last B/C event
+  const slices: TemplateSlice[] = []
+  let nextWeek = 0
+  for (const event of events.filter(e => e.priority === 'A')) {
+    const weeks = weekOf(event.date) - nextWeek + 1
+    if (weeks <= 0) {
+      warnings.push(`${event.name} falls in the same week as another A-event and shares its taper`)
+      continue
+    }
+    slices.push(...aEventSlices(weeks, event, sport, startCTL))
+    nextWeek += weeks
+  }
+  if (nextWeek < totalWeeks) {
+    const maintenance = templateFor('maintenance', sport, startCTL)
+    const build = templateFor('ftp_build', sport, startCTL)
+    const base = templateFor('base_build', sport, startCTL)
+    const bridge = nextWeek > 0 && maintenance
+      ? [maintenance]
+      : [base, build].filter((t): t is PlanTemplate => t !== null)
+    slices.push(...fillWeeks(totalWeeks - nextWeek, bridge, null))
+  }
+  if (slices.length === 0) {
+    return { success: false, error: `No ${sport} plan templates to build a season from`, warnings }
+  }
+
+  // Generate each slice from its template, aligned so its first week starts
+  // where the previous one ended
+  const weeks: GeneratedPlan['weeks'] = []
+  const blocks: SeasonBlock[] = []
+  let fitness = { ctl: startCTL, atl: input.athleteContext.atl ?? startCTL }
+  let weeklyHoursTarget = input.weeklyHoursTarget ?? 8
+
+  for (const slice of slices) {
+    const sliceStart = shiftDays(input.startDate, weeks.length * 7)
+    const result = generateTrainingPlan({
+      ...input,
+      templateId: slice.template.id,
+      sport,
+      startDate: shiftDays(sliceStart, -slice.from * 7),
+      targetEventDate: slice.targetEvent?.date,
+      athleteContext: { ...input.athleteContext, ctl: Math.round(fitness.ctl), atl: Math.round(fitness.atl) },
+    })
+    if (!result.success || !result.plan) {
+      return { success: false, error: result.error ?? `Failed to generate ${slice.template.name}`, warnings }
+    }
+    for (const warning of result.warnings) {
+      if (!warning.startsWith('Requested template') && !warnings.includes(warning)) warnings.push(warning)
+    }
+    weeklyHoursTarget = result.plan.weeklyHoursTarget
+
+    const sliceWeeks = result.plan.weeks.slice(slice.from, slice.to)
+    const firstWeek = weeks.length + 1
+    for (const week of sliceWeeks) {
+      const weekNumber = weeks.length + 1
+      weeks.push({
+        ...week,
+        weekNumber,
+        days: week.days.map(day => ({ ...day, weekNumber })),
+      })
+    }
+    blocks.push({
+      templateId: slice.template.id,
+      templateName: slice.template.name,
+      templateWeeks: [slice.from + 1, slice.to],
+      seasonWeeks: [firstWeek, weeks.length],
+      startDate: sliceStart,
+      endDate: shiftDays(sliceStart, sliceWeeks.length * 7 - 1),
+      phases: [...new Set(sliceWeeks.map(w => w.phase))],
+      targetEvent: slice.targetEvent?.name ?? null,
+    })
+
+    const projection = projectFitness(fitness.ctl, fitness.atl, planDataToPlanDays({ weeks: sliceWeeks }))
+    fitness = { ctl: projection.finalCTL, atl: projection.finalATL }
+  }
+
+  // Event days: race in place of the planned workout, the day after easy,
+  // and a short load reduction before events no taper template covers
+  const dayByDate = new Map(weeks.flatMap(w => w.days).map(d => [d.date, d]))
+  const eventDates = new Set(events.map(e => e.date))
+  const taperedEvents = new Set(slices.filter(s => s.template.goal === 'taper' || s.template.goal === 'event_prep')
+    .map(s => s.targetEvent?.date))
+
+  const seasonEvents: SeasonPlanEvent[] = events.map(event => {
+    const taper = EVENT_TAPER[event.priority]
+    if (taper && !(event.priority === 'A' && taperedEvents.has(event.date))) {
+      for (let offset = taper.days; offset >= 1; offset--) {
+        const day = dayByDate.get(shiftDays(event.date, -offset))
+        if (!day?.workout || eventDates.has(day.date)) continue
+        day.workout = {
+          ...day.workout,
+          targetTSS: Math.round(day.workout.targetTSS * taper.load),
+          targetDurationMinutes: Math.round(day.workout.targetDurationMinutes * taper.load),
+        }
+      }
+    }
+
+    const raceDay = dayByDate.get(event.date)
+    if (raceDay) {
+      raceDay.workout = raceWorkout(event, sport)
+      raceDay.isKeyWorkout = true
+      raceDay.isRecoveryDay = false
+    }
+    const dayAfter = dayByDate.get(shiftDays(event.date, 1))
+    if (dayAfter && event.priority !== 'C' && !eventDates.has(dayAfter.date)) {
+      dayAfter.workout = null
+      dayAfter.isKeyWorkout = false
+      dayAfter.isRecoveryDay = true
+    }
+
+    return { ...event, treatment: TREATMENTS[event.priority], weekNumber: weekOf(event.date) + 1 }
+  })
+
+  const allDays = weeks.flatMap(w => w.days)
+  const phaseCount = new Map<string, number>()
+  for (const week of weeks) phaseCount.set(week.phase, (phaseCount.get(week.phase) ?? 0) + 1)
+
+  const aEvents = events.filter(e => e.priority === 'A')
+  const finalEvent = aEvents[aEvents.length - 1] ?? events[events.length - 1]
+  const counts = (['A', 'B', 'C'] as const).map(p => `${events.filter(e => e.priority === p).length} ${p}`).join(', ')
+
+  const plan: SeasonPlan = {
+    templateId: 'season',
+    templateName: `Season Plan: ${finalEvent.name}`,
+    sport,
+    goal: aEvents.length > 0 ? 'event_prep' : 'maintenance',
+    description: `${totalWeeks}-week season across ${events.length} events (${counts}), chaining ${blocks.map(b => b.templateName).join(' → ')}.`,
+    startDate: input.startDate,
+    endDate: shiftDays(input.startDate, totalWeeks * 7 - 1),
+    durationWeeks: totalWeeks,
+    weeklyHoursTarget,
+    targetEventDate: aEvents[aEvents.length - 1]?.date ?? null,
+    weeks,
+    summary: {
+      totalDays: allDays.length,
+      totalWorkoutDays: allDays.filter(d => d.workout !== null).length,
+      totalRestDays: allDays.filter(d => d.workout === null).length,
+      avgWeeklyTSS: Math.round(weeks.reduce((sum, w) => sum + w.actualTargetTSS, 0) / weeks.length),
+      phases: [...phaseCount.entries()].map(([phase, count]) => ({ phase, weeks: count })),
+    },
+    blocks,
+    events: seasonEvents,
+  }
+
+  return { success: true, plan, warnings }
+}
+
+export interface PhaseBand {
+  phase: string
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Runs of consecutive plan weeks in the same phase, for the season chart.
+ * Works on any stored plan_data, season or single-template.
+ */
+export function phaseBands(weeks: Array<{ phase?: string; days?: Array<{ date: string }> }>): PhaseBand[] {
+  const bands: PhaseBand[] = []
+  for (const week of weeks) {
+    const dates = (week.days ?? []).map(d => d.date).sort()
+    if (dates.length === 0) continue
+    const phase = week.phase ?? 'build'
+    const last = bands[bands.length - 1]
+    if (last && last.phase === phase && shiftDays(last.endDate, 1) >= dates[0]) {
+      last.endDate = dates[dates.length - 1]
+    } else {
+      bands.push({ phase, startDate: dates[0], endDate: dates[dates.length - 1] })
+    }
+  }
+  return bands
+}
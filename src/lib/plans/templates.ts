@@ -1,10 +1,12 @@
 // Training Plan Templates
-// Phase 4: Structured multi-week training plans
+// Phase 4: Structured multi-week training plans (cycling and running)
 
-import type { WorkoutCategory, TrainingPhase } from '../workouts/library'
+import type { WorkoutCategory, WorkoutSport, TrainingPhase } from '../workouts/library'
 
 export type PlanGoal = 'base_build' | 'ftp_build' | 'event_prep' | 'taper' | 'maintenance'
 
+export const PLAN_GOALS: PlanGoal[] = ['base_build', 'ftp_build', 'event_prep', 'taper', 'maintenance']
+
 export interface WeekTemplate {
   weekNumber: number
   phase: TrainingPhase
@@ -28,6 +30,8 @@ export interface WeekTemplate {
 export interface PlanTemplate {
   id: string
   name: string
+  /** Undefined = cycling */
+  sport?: WorkoutSport
   goal: PlanGoal
   description: string
   durationWeeks: number
@@ -49,6 +53,9 @@ export interface PlanTemplate {
 
   // Tags for search/matching
   tags: string[]
+
+  /** Set on templates coaches saved to the DB (see custom-templates.ts) */
+  isCustom?: boolean
 }
 
 // ============================================
@@ -580,6 +587,187 @@ export const maintenance4Week: PlanTemplate = {
   tags: ['maintenance', 'balanced', 'sustainable', 'variety'],
 }
 
+// ============================================
+// 4-WEEK RUN BASE PLAN
+// ============================================
+
+export const runBase4Week: PlanTemplate = {
+  id: 'run_base_4week',
+  name: '4-Week Run Base',
+  sport: 'running',
+  goal: 'base_build',
+  description: 'Aerobic running base: easy runs and a progressive long run with one tempo session, then a recovery week. Volume grows gradually to limit impact stress.',
+  durationWeeks: 4,
+
+  minCTL: 15,
+  maxCTL: 60,
+  suitableFor: ['new to running', 'returning from break', 'triathlon base'],
+
+  weeks: [
+    {
+      weekNumber: 1,
+      phase: 'base',
+      focusDescription: 'Easy running rhythm',
+      targetTSSRange: [85, 95],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 28 },
+        { dayOffset: 1, category: 'tempo', preferredWorkoutIds: ['run_tempo_3x10'], targetTSSPercent: 30, notes: 'Controlled tempo' },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 40, notes: 'Long run - start at 60-75 min' },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 82, zone3_4: 16, zone5_plus: 2 },
+    },
+    {
+      weekNumber: 2,
+      phase: 'base',
+      focusDescription: 'Extend the long run',
+      targetTSSRange: [95, 105],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 28 },
+        { dayOffset: 1, category: 'tempo', preferredWorkoutIds: ['run_tempo_3x10'], targetTSSPercent: 30 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 40 },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 80, zone3_4: 18, zone5_plus: 2 },
+    },
+    {
+      weekNumber: 3,
+      phase: 'base',
+      focusDescription: 'Peak volume week',
+      targetTSSRange: [105, 115],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 26 },
+        { dayOffset: 1, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8', 'run_tempo_3x10'], targetTSSPercent: 30, notes: 'First threshold touch' },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 42, notes: 'Longest run of the block' },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 78, zone3_4: 18, zone5_plus: 4 },
+    },
+    {
+      weekNumber: 4,
+      phase: 'recovery',
+      focusDescription: 'Recovery week - absorb adaptations',
+      targetTSSRange: [60, 70],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 32 },
+        { dayOffset: 1, category: 'recovery', preferredWorkoutIds: ['run_recovery_jog'], targetTSSPercent: 18 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 32 },
+      ],
+      recoveryDays: 4,
+      intensityDistribution: { zone1_2: 92, zone3_4: 6, zone5_plus: 2 },
+    },
+  ],
+
+  recoveryWeekFrequency: 4,
+  recoveryWeekLoadReduction: 0.6,
+  weeklyTSSProgression: [1.0, 1.08, 1.15, 0.6],
+
+  tags: ['running', 'base', 'aerobic', 'long run', 'triathlon'],
+}
+
+// ============================================
+// 6-WEEK RUN THRESHOLD BUILD
+// ============================================
+
+export const runThreshold6Week: PlanTemplate = {
+  id: 'run_threshold_6week',
+  name: '6-Week Run Threshold Build',
+  sport: 'running',
+  goal: 'ftp_build',
+  description: 'Raises threshold pace with cruise intervals and VO2max reps on top of a steady long run, with a recovery week after three weeks of build. Good preparation for 10k to half marathon.',
+  durationWeeks: 6,
+
+  minCTL: 35,
+  suitableFor: ['10k', 'half marathon', 'threshold pace', 'triathlon build'],
+
+  weeks: [
+    {
+      weekNumber: 1,
+      phase: 'build',
+      focusDescription: 'Threshold introduction',
+      targetTSSRange: [95, 105],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8'], targetTSSPercent: 30 },
+        { dayOffset: 1, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 25 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 40 },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 75, zone3_4: 15, zone5_plus: 10 },
+    },
+    {
+      weekNumber: 2,
+      phase: 'build',
+      focusDescription: 'Add VO2max work',
+      targetTSSRange: [100, 110],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'vo2max', preferredWorkoutIds: ['run_vo2_5x3'], targetTSSPercent: 28 },
+        { dayOffset: 1, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8'], targetTSSPercent: 30 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 38 },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 72, zone3_4: 14, zone5_plus: 14 },
+    },
+    {
+      weekNumber: 3,
+      phase: 'build',
+      focusDescription: 'Peak build week',
+      targetTSSRange: [105, 115],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'vo2max', preferredWorkoutIds: ['run_vo2_5x3'], targetTSSPercent: 28 },
+        { dayOffset: 1, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8'], targetTSSPercent: 30 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 40 },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 70, zone3_4: 15, zone5_plus: 15 },
+    },
+    {
+      weekNumber: 4,
+      phase: 'recovery',
+      focusDescription: 'Recovery week',
+      targetTSSRange: [60, 70],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 32 },
+        { dayOffset: 1, category: 'recovery', preferredWorkoutIds: ['run_recovery_jog'], targetTSSPercent: 18 },
+        { dayOffset: 2, category: 'tempo', preferredWorkoutIds: ['run_tempo_3x10'], targetTSSPercent: 32, notes: 'Keep it controlled' },
+      ],
+      recoveryDays: 4,
+      intensityDistribution: { zone1_2: 85, zone3_4: 13, zone5_plus: 2 },
+    },
+    {
+      weekNumber: 5,
+      phase: 'build',
+      focusDescription: 'Threshold extension',
+      targetTSSRange: [105, 115],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8'], targetTSSPercent: 30 },
+        { dayOffset: 1, category: 'vo2max', preferredWorkoutIds: ['run_vo2_5x3'], targetTSSPercent: 28 },
+        { dayOffset: 2, category: 'endurance', preferredWorkoutIds: ['run_long_90'], targetTSSPercent: 40 },
+      ],
+      recoveryDays: 3,
+      intensityDistribution: { zone1_2: 70, zone3_4: 15, zone5_plus: 15 },
+    },
+    {
+      weekNumber: 6,
+      phase: 'peak',
+      focusDescription: 'Sharpen - lower volume, keep intensity',
+      targetTSSRange: [75, 85],
+      keyWorkouts: [
+        { dayOffset: 0, category: 'vo2max', preferredWorkoutIds: ['run_vo2_5x3'], targetTSSPercent: 28 },
+        { dayOffset: 1, category: 'endurance', preferredWorkoutIds: ['run_easy_45'], targetTSSPercent: 28 },
+        { dayOffset: 2, category: 'threshold', preferredWorkoutIds: ['run_threshold_4x8'], targetTSSPercent: 32, notes: 'Time trial or test run' },
+      ],
+      recoveryDays: 4,
+      intensityDistribution: { zone1_2: 72, zone3_4: 12, zone5_plus: 16 },
+    },
+  ],
+
+  recoveryWeekFrequency: 4,
+  recoveryWeekLoadReduction: 0.6,
+  weeklyTSSProgression: [1.0, 1.05, 1.1, 0.6, 1.1, 0.8],
+
+  tags: ['running', 'threshold', '10k', 'half marathon', 'build'],
+}
+
 // ============================================
 // EXPORT ALL TEMPLATES
 // ============================================
@@ -590,22 +778,37 @@ export const planTemplates: PlanTemplate[] = [
   taper3Week,
   eventPrep12Week,
   maintenance4Week,
+  runBase4Week,
+  runThreshold6Week,
 ]
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
-export function getPlanTemplateById(id: string): PlanTemplate | undefined {
-  return planTemplates.find(t => t.id === id)
+/**
+ * Look up a template by id. `extra` holds the athlete's custom templates,
+ * searched after the built-ins.
+ */
+export function getPlanTemplateById(id: string, extra: PlanTemplate[] = []): PlanTemplate | undefined {
+  return planTemplates.find(t => t.id === id) ?? extra.find(t => t.id === id)
 }
 
 export function getPlanTemplatesByGoal(goal: PlanGoal): PlanTemplate[] {
   return planTemplates.filter(t => t.goal === goal)
 }
 
-export function getApplicablePlans(currentCTL: number): PlanTemplate[] {
-  return planTemplates.filter(t =>
+export function templateSport(template: PlanTemplate): WorkoutSport {
+  return template.sport ?? 'cycling'
+}
+
+export function getApplicablePlans(
+  currentCTL: number,
+  sport: WorkoutSport = 'cycling',
+  extra: PlanTemplate[] = []
+): PlanTemplate[] {
+  return [...planTemplates, ...extra].filter(t =>
+    templateSport(t) === sport &&
     currentCTL >= t.minCTL &&
     (t.maxCTL === undefined || currentCTL <= t.maxCTL)
   )
@@ -168,6 +168,16 @@ Session type could not be determined. Score based on general quality indicators.
 - Score 45: Aimless ride with no clear objective, variable intensity, added fatigue without clear benefit
 `
 
+const RUNNING_NOTES = `
+## Running Session
+This is a run. The rubric is written for rides; apply it with running metrics:
+- Intensity factor (IF) is normalized graded pace (NGP) relative to threshold pace (or running power / running FTP)
+- Use pace, grade-adjusted pace (GAP) and NGP in place of power; GAP accounts for hills, so judge effort from GAP rather than raw pace on hilly routes
+- Zone anchors refer to pace or HR zones (timeInZones) unless running power is present
+- VI, W′ and % FTP criteria only apply when running power is recorded
+- Best efforts (1k/5k/10k/half marathon) show the fastest stretches within the run
+`
+
 function getRubricForType(sessionType: SessionType): string {
   switch (sessionType) {
     case 'race': return RACE_RUBRIC
@@ -178,7 +188,7 @@ function getRubricForType(sessionType: SessionType): string {
   }
 }
 
-export const REPORT_SYSTEM_PROMPT = `You are an expert cycling coach analyzing a training session. Generate a coaching report with a session score, headline, quick take, and deep analysis.
+export const REPORT_SYSTEM_PROMPT = `You are an expert endurance coach (cycling and running) analyzing a training session. Generate a coaching report with a session score, headline, quick take, and deep analysis.
 
 You score sessions based on their TYPE and OBJECTIVE — a recovery ride is scored on whether it was truly easy, an endurance ride on zone discipline, a race on pacing and tactics. The scoring rubric will be provided with the session data.
 
@@ -206,14 +216,23 @@ DO NOT cluster scores. A sloppy recovery ride that went too hard should score 35
   - VI < 1.05 = excellent power control, score execution higher
   - VI 1.05-1.10 = good control for most ride types
   - Negative split = disciplined pacing, score execution higher
+- When W′ balance (wPrimeBalance) is provided, use it to judge how deep efforts went:
+  - Near-empty matches (W′ below 10%) mean maximal efforts — expected in races and VO2/anaerobic work, a red flag in endurance or recovery rides
+  - Long time below 25% W′ indicates high anaerobic cost and slower recovery
+- When time in zones (timeInZones) is provided, judge zone discipline with the athlete's own zone model (named zones, e.g. Seiler 3-zone or custom lab zones) rather than assuming Coggan zones
 - If stream data (peak powers, pacing) is not available, do not penalize — score based on available metrics without assuming poor execution
 - All field names must use snake_case
 `
 
-export function buildReportPrompt(sessionData: Record<string, unknown>, sessionType: SessionType): string {
-  const rubric = getRubricForType(sessionType)
+export function buildReportPrompt(
+  sessionData: Record<string, unknown>,
+  sessionType: SessionType,
+  sport: string = 'cycling'
+): string {
+  const running = sport === 'running'
+  const rubric = getRubricForType(sessionType) + (running ? RUNNING_NOTES : '')
 
-  return `Analyze this cycling session and generate a coaching report.
+  return `Analyze this ${running ? 'run' : 'cycling session'} and generate a coaching report.
 
 ## Session Type: ${sessionType.toUpperCase()}
 
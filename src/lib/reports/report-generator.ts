@@ -12,9 +12,14 @@ import { getSession } from '@/lib/db/sessions'
 import { getFitnessNearDate } from '@/lib/db/fitness'
 import { getActiveGoals } from '@/lib/db/goals'
 import { createSessionReport, hasReportForSession } from '@/lib/db/session-reports'
-import { buildSessionResponse } from '@/app/api/chat/tools/get-detailed-session'
+import { buildRunningSummary, buildSessionResponse } from '@/app/api/chat/tools/get-detailed-session'
+import { getAthlete } from '@/lib/db/athletes'
 import { findSimilarSessions } from '@/lib/analysis/session-comparison'
 import { enrichWithStreams } from '@/lib/analysis/power-analysis'
+import { resolveCriticalPower } from '@/lib/analysis/mean-max-power'
+import { getSessionZoneDistribution } from '@/lib/analysis/session-zones'
+import { summarizeZoneDistribution } from '@/lib/analysis/zones'
+import { getSessionStreams } from '@/lib/streams/stream-access'
 import { REPORT_SYSTEM_PROMPT, buildReportPrompt, type SessionType } from './prompts'
 import type { DeepAnalysis, SessionReportInsert } from './types'
 import type { IntervalsICUClient } from '@/lib/intervals-icu'
@@ -93,9 +98,9 @@ export async function generateSessionReports(
         continue
       }
 
-      // Only generate for cycling sessions with TSS > 0
-      if (session.sport !== 'cycling') {
-        logger.info(`[ReportGenerator] Skipping non-cycling session ${sessionId} (${session.sport})`)
+      // Only generate for rides and runs with TSS > 0
+      if (session.sport !== 'cycling' && session.sport !== 'running') {
+        logger.info(`[ReportGenerator] Skipping ${session.sport} session ${sessionId}`)
         continue
       }
       if (!session.tss || session.tss <= 0) {
@@ -106,11 +111,39 @@ export async function generateSessionReports(
       // Build session response data
       const sessionResponse = buildSessionResponse(session)
 
-      // Enrich with stream data (peak powers, pacing) if intervals client available
-      if (intervalsClient && session.external_id) {
-        const raw = session.raw_data as Record<string, unknown> | null
-        const ftp = (raw?.icu_ftp as number) || null
-        await enrichWithStreams(sessionResponse, session.external_id, intervalsClient, ftp)
+      // Enrich with stream data (peak powers, pacing, W′ balance) from local streams or intervals.icu.
+      // Runs use running FTP and skip the cycling CP/W′ model.
+      const raw = session.raw_data as Record<string, unknown> | null
+      const running = session.sport === 'running'
+      const athlete = running ? await getAthlete(athleteId) : null
+      const ftp = running
+        ? (raw?.icu_ftp as number) || athlete?.running_ftp || null
+        : (raw?.icu_ftp as number) || (raw?.ftp_used as number) || null
+      const criticalPower = running ? null : await resolveCriticalPower(athleteId, session.date)
+      await enrichWithStreams(sessionResponse, session, intervalsClient ?? null, ftp, criticalPower)
+
+      // Time in zones with the athlete's zone models (power, HR and, for runs, pace)
+      try {
+        const streams = await getSessionStreams(
+          session,
+          running ? ['time', 'watts', 'heartrate', 'velocity_smooth', 'distance', 'altitude'] : ['watts', 'heartrate'],
+          intervalsClient ?? null
+        )
+        if (running) {
+          sessionResponse.session.running = buildRunningSummary(
+            session.distance_meters,
+            session.duration_seconds,
+            athlete?.threshold_pace ?? null,
+            streams
+          )
+        }
+        if (streams) {
+          sessionResponse.session.timeInZones = summarizeZoneDistribution(
+            await getSessionZoneDistribution(session, streams, ftp)
+          )
+        }
+      } catch {
+        // Zone distribution is optional
       }
 
       // Fetch fitness context, goals, and similar sessions in parallel
@@ -153,7 +186,7 @@ export async function generateSessionReports(
         model: anthropic('claude-opus-4-6-20250610'),
         schema: reportSchema,
         system: REPORT_SYSTEM_PROMPT,
-        prompt: buildReportPrompt(promptData, sessionType),
+        prompt: buildReportPrompt(promptData, sessionType, session.sport),
       })
 
       const report = result.object
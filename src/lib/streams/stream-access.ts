@@ -0,0 +1,142 @@
+/**
+ * Stream Access Layer
+ *
+ * Single entry point for per-second session streams. Reads from the local
+ * session_streams store first and only falls back to intervals.icu when a
+ * session has never been stored. Remote fetches are written through so the
+ * next read is local. Remote streams are cleaned before they are stored, and the
+ * session's data quality flags, aerobic metrics, climbs and running bests are
+ * computed from them.
+ */
+
+import {
+  getStoredStreams,
+  saveSessionStreams,
+  getSessionIdsWithStreams,
+  STREAM_TYPES,
+  type SessionStreams,
+  type StreamType,
+} from '@/lib/db/session-streams'
+import type { IntervalsStreams } from '@/lib/intervals-icu'
+import { cleanStreams } from '@/lib/analysis/stream-quality'
+import { storeDataQuality } from '@/lib/fitness/data-quality-engine'
+import { storeAerobicMetrics } from '@/lib/fitness/durability-engine'
+import { storeSessionClimbs } from '@/lib/fitness/climb-engine'
+import { storeRunningBests } from '@/lib/fitness/running-bests-engine'
+import { logger } from '@/lib/logger'
+
+/** Anything that can fetch streams remotely (the intervals.icu client) */
+export interface RemoteStreamSource {
+  getActivityStreams: (activityId: string, types: string[]) => Promise<IntervalsStreams>
+}
+
+/** Minimal session fields needed to locate its streams */
+export interface StreamSessionRef {
+  id: string
+  athlete_id: string
+  external_id?: string | null
+  source?: string
+}
+
+function pickTypes(streams: SessionStreams, types: StreamType[]): SessionStreams {
+  const picked: SessionStreams = {}
+  for (const type of types) {
+    if (streams[type]) {
+      (picked as Record<string, unknown>)[type] = streams[type]
+    }
+  }
+  return picked
+}
+
+function canFetchRemote(session: StreamSessionRef): boolean {
+  return !!session.external_id && (session.source ?? 'intervals_icu') === 'intervals_icu'
+}
+
+/**
+ * Fetch all streams for a session from intervals.icu, clean them and store them locally
+ */
+export async function fetchAndStoreStreams(
+  session: StreamSessionRef,
+  remote: RemoteStreamSource
+): Promise<SessionStreams | null> {
+  if (!canFetchRemote(session)) return null
+
+  const fetched = await remote.getActivityStreams(session.external_id!, STREAM_TYPES)
+  const hasData = STREAM_TYPES.some(type => (fetched[type]?.length ?? 0) > 0)
+  if (!hasData) return null
+
+  // Spikes and dropouts are interpolated before anything is stored or analyzed
+  const { streams, flags } = cleanStreams(fetched)
+
+  const saved = await saveSessionStreams(session.id, session.athlete_id, streams, 'intervals_icu')
+  if (!saved) {
+    logger.warn(`[Streams] Could not store streams for session ${session.id}`)
+  }
+
+  // Data quality, EF, decoupling, durability, climbs and running bests are computed once, when the streams arrive (non-critical)
+  try {
+    await storeDataQuality(session.id, streams, flags)
+    await storeAerobicMetrics(session.id, streams)
+    await storeSessionClimbs(session.id, session.athlete_id, streams)
+    await storeRunningBests(session.id, streams)
+  } catch (error) {
+    logger.warn(`[Streams] Stream analysis failed for session ${session.id}:`, error)
+  }
+  return streams
+}
+
+/**
+ * Get streams for a session, local first.
+ * Returns null if the session has no stored streams and no remote source can provide them.
+ */
+export async function getSessionStreams(
+  session: StreamSessionRef,
+  types: StreamType[] = STREAM_TYPES,
+  remote?: RemoteStreamSource | null
+): Promise<SessionStreams | null> {
+  const local = await getStoredStreams(session.id, types)
+  if (local) return local
+
+  if (!remote || !canFetchRemote(session)) return null
+
+  try {
+    const streams = await fetchAndStoreStreams(session, remote)
+    return streams ? pickTypes(streams, types) : null
+  } catch (error) {
+    logger.warn(`[Streams] Remote stream fetch failed for session ${session.id}:`, error)
+    return null
+  }
+}
+
+/**
+ * Store streams for sessions that don't have them yet (used by sync).
+ * Fetches at most `limit` sessions per call to stay within API rate limits;
+ * the rest are filled lazily by getSessionStreams.
+ */
+export async function storeMissingStreams(
+  athleteId: string,
+  sessions: StreamSessionRef[],
+  remote: RemoteStreamSource,
+  limit: number
+): Promise<{ stored: number; errors: string[] }> {
+  const errors: string[] = []
+  let stored = 0
+
+  const candidates = sessions.filter(canFetchRemote)
+  if (candidates.length === 0) return { stored, errors }
+
+  const existing = await getSessionIdsWithStreams(athleteId, candidates.map(s => s.id))
+  const missing = candidates.filter(s => !existing.has(s.id)).slice(0, limit)
+
+  for (const session of missing) {
+    try {
+      const streams = await fetchAndStoreStreams(session, remote)
+      if (streams) stored++
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error'
+      errors.push(`Streams ${session.external_id}: ${msg}`)
+    }
+  }
+
+  return { stored, errors }
+}
@@ -0,0 +1,417 @@
+/**
+ * Bulk Archive Import Service
+ *
+ * Seeds history from a Strava or Garmin bulk export ZIP:
+ * - Walks the archive on disk entry by entry (including Garmin's nested upload ZIPs)
+ * - Parses .fit/.tcx/.gpx files, gzipped or not, with the upload parsers
+ * - Uses the activities CSV (Strava) for names and sport types
+ * - Skips activities already stored, matched by start time and duration
+ * - Rebuilds power bests and fitness_history once all files are in
+ *
+ * Progress is written to import_jobs so the UI can poll it.
+ */
+
+import { gunzipSync } from 'zlib'
+import { createClient } from '@/lib/supabase/server'
+import { readZipEntries, isZipArchive, openZipFile, type ZipEntry } from '@/lib/zip-reader'
+import { parseActivityFile } from '@/lib/activity-parser'
+import { mapSport } from '@/lib/fit-parser'
+import { importFitSession } from '@/lib/sync/fit-upload'
+import { updateImportJob } from '@/lib/db/import-jobs'
+import { updatePowerBestsFromSession } from '@/lib/db/power-bests'
+import { handleSessionsChanged } from '@/lib/fitness/pmc-engine'
+import { embedNewSessions } from '@/lib/rag/session-embeddings'
+import { features } from '@/lib/features'
+import { logger } from '@/lib/logger'
+
+const ACTIVITY_FILE_PATTERN = /\.(fit|tcx|gpx)(\.gz)?$/i
+
+// Write progress every N files to keep updates cheap
+const PROGRESS_INTERVAL = 10
+
+// Keep the stored error list readable for large archives
+const MAX_STORED_ERRORS = 50
+
+// Supabase caps selects at 1000 rows
+const PAGE_SIZE = 1000
+
+// Duplicate matching tolerances
+const START_TOLERANCE_SECONDS = 120
+const DURATION_TOLERANCE = 0.05
+const MAX_TIMEZONE_OFFSET_HOURS = 14
+
+export interface ArchiveActivityMeta {
+  name?: string
+  type?: string
+}
+
+export interface ExistingSessionRef {
+  id: string
+  date: string
+  duration_seconds: number
+}
+
+export interface ArchiveImportResult {
+  totalFiles: number
+  imported: number
+  duplicates: number
+  failed: number
+  powerBestsUpdated: number
+  fitnessDaysRebuilt: number
+  oldestDate: string | null
+  newestDate: string | null
+  errors: string[]
+}
+
+interface ArchiveFile {
+  name: string
+  read: () => Buffer
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, newlines in quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop()!.toLowerCase()
+}
+
+/**
+ * Map activity file names to name/type from an export's activities CSV.
+ * Keyed by lowercase file name, e.g. "1234.fit.gz" from "activities/1234.fit.gz".
+ */
+export function parseActivitiesCsv(text: string): Map<string, ArchiveActivityMeta> {
+  const meta = new Map<string, ArchiveActivityMeta>()
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) return meta
+
+  const column = (...names: string[]) =>
+    header.findIndex(h => names.includes(h.trim().toLowerCase()))
+
+  const fileColumn = column('filename', 'file name', 'file')
+  const nameColumn = column('activity name', 'title', 'name')
+  const typeColumn = column('activity type', 'type', 'sport')
+  if (fileColumn < 0) return meta
+
+  for (const row of rows) {
+    const file = row[fileColumn]?.trim()
+    if (!file) continue
+    meta.set(baseName(file), {
+      name: nameColumn >= 0 ? row[nameColumn]?.trim() || undefined : undefined,
+      type: typeColumn >= 0 ? row[typeColumn]?.trim() || undefined : undefined,
+    })
+  }
+
+  return meta
+}
+
+/**
+ * Find an existing session for the same activity.
+ *
+ * Matches on start time and duration. intervals.icu sessions store the local
+ * start time without an offset, so whole-hour shifts (time zones) also match.
+ */
+export function findDuplicateSession(
+  existing: ExistingSessionRef[],
+  startTime: string,
+  durationSeconds: number
+): ExistingSessionRef | null {
+  const start = new Date(startTime).getTime()
+
+  for (const session of existing) {
+    const durationDelta = Math.abs(session.duration_seconds - durationSeconds)
+    if (durationDelta > Math.max(60, durationSeconds * DURATION_TOLERANCE)) continue
+
+    const offsetSeconds = Math.abs(new Date(session.date).getTime() - start) / 1000
+    const hours = Math.round(offsetSeconds / 3600)
+    if (hours > MAX_TIMEZONE_OFFSET_HOURS) continue
+    if (Math.abs(offsetSeconds - hours * 3600) <= START_TOLERANCE_SECONDS) {
+      return session
+    }
+  }
+
+  return null
+}
+
+/**
+ * Flatten archive entries, descending one level into nested ZIPs (Garmin exports)
+ */
+function collectArchiveFiles(archive: ZipEntry[], errors: string[]): ArchiveFile[] {
+  const files: ArchiveFile[] = []
+
+  for (const entry of archive) {
+    if (entry.name.startsWith('__MACOSX/')) continue
+
+    if (entry.name.toLowerCase().endsWith('.zip')) {
+      try {
+        const nested = entry.read()
+        if (!isZipArchive(nested)) continue
+        for (const inner of readZipEntries(nested)) {
+          files.push({ name: `${entry.name}/${inner.name}`, read: inner.read })
+        }
+      } catch (error) {
+        errors.push(`${entry.name}: ${error instanceof Error ? error.message : 'Unreadable ZIP'}`)
+      }
+      continue
+    }
+
+    files.push({ name: entry.name, read: entry.read })
+  }
+
+  return files
+}
+
+async function getExistingSessions(athleteId: string): Promise<ExistingSessionRef[]> {
+  const supabase = await createClient()
+  if (!supabase) return []
+
+  const sessions: ExistingSessionRef[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, date, duration_seconds')
+      .eq('athlete_id', athleteId)
+      .order('date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`)
+    sessions.push(...((data || []) as ExistingSessionRef[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return sessions
+}
+
+/**
+ * Import every activity in a bulk export archive (a ZIP file on disk) for
+ * the athlete. Updates the import job as it goes; never throws.
+ */
+export async function runArchiveImport(
+  jobId: string,
+  athleteId: string,
+  archivePath: string
+): Promise<ArchiveImportResult> {
+  const result: ArchiveImportResult = {
+    totalFiles: 0,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    powerBestsUpdated: 0,
+    fitnessDaysRebuilt: 0,
+    oldestDate: null,
+    newestDate: null,
+    errors: [],
+  }
+
+  const addError = (message: string) => {
+    if (result.errors.length < MAX_STORED_ERRORS) result.errors.push(message)
+  }
+
+  const progress = () => ({
+    total_files: result.totalFiles,
+    imported: result.imported,
+    duplicates: result.duplicates,
+    failed: result.failed,
+    oldest_date: result.oldestDate,
+    newest_date: result.newestDate,
+    errors: result.errors,
+  })
+
+  let archive: ReturnType<typeof openZipFile> | null = null
+  try {
+    await updateImportJob(jobId, { status: 'running', started_at: new Date().toISOString() })
+
+    archive = openZipFile(archivePath)
+    const entries = collectArchiveFiles(archive.entries, result.errors)
+
+    // Activity metadata from the export's CSV, if present
+    let meta = new Map<string, ArchiveActivityMeta>()
+    const csvEntry = entries.find(e => /activit[^/]*\.csv$/i.test(e.name))
+    if (csvEntry) {
+      meta = parseActivitiesCsv(csvEntry.read().toString('utf8'))
+      logger.info(`[ArchiveImport] Loaded ${meta.size} activities from ${csvEntry.name}`)
+    }
+
+    const files = entries.filter(e => ACTIVITY_FILE_PATTERN.test(e.name))
+    result.totalFiles = files.length
+    await updateImportJob(jobId, { ...progress(), processed_files: 0 })
+
+    const existing = await getExistingSessions(athleteId)
+    const imported: Array<{ sessionId: string; date: string; powerCurve: { durationSeconds: number; watts: number }[] }> = []
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i]
+      const fileName = file.name.split('/').pop()!
+
+      try {
+        let contents = file.read()
+        let parseName = fileName
+        if (/\.gz$/i.test(fileName)) {
+          contents = gunzipSync(contents)
+          parseName = fileName.replace(/\.gz$/i, '')
+        }
+
+        const buffer = contents.buffer.slice(
+          contents.byteOffset,
+          contents.byteOffset + contents.byteLength
+        ) as ArrayBuffer
+        const { format, data } = await parseActivityFile(parseName, buffer)
+
+        const activityMeta = meta.get(baseName(file.name))
+        // Multi-session files (brick workouts) import as one session per part
+        const parts = data.sessions ?? [data]
+        if (activityMeta?.type && parts.length === 1) {
+          data.sport = mapSport(activityMeta.type)
+        }
+
+        for (const part of parts) {
+          if (findDuplicateSession(existing, part.start_time, part.duration_seconds)) {
+            result.duplicates++
+            continue
+          }
+
+          const session = await importFitSession(athleteId, part, parseName, format, {
+            name: activityMeta?.name,
+            skipPowerBests: true,
+            skipEmbedding: true,
+          })
+
+          if (session.sessionId) {
+            result.imported++
+            existing.push({
+              id: session.sessionId,
+              date: part.start_time,
+              duration_seconds: Math.round(part.duration_seconds),
+            })
+            imported.push({ sessionId: session.sessionId, date: part.date, powerCurve: session.powerCurve })
+
+            if (!result.oldestDate || part.date < result.oldestDate) result.oldestDate = part.date
+            if (!result.newestDate || part.date > result.newestDate) result.newestDate = part.date
+          } else {
+            result.failed++
+            addError(`${fileName}: ${session.errors[0] || 'Failed to store session'}`)
+          }
+        }
+      } catch (error) {
+        result.failed++
+        addError(`${fileName}: ${error instanceof Error ? error.message : 'Failed to parse'}`)
+      }
+
+      if ((i + 1) % PROGRESS_INTERVAL === 0) {
+        await updateImportJob(jobId, { ...progress(), processed_files: i + 1 })
+      }
+    }
+
+    await updateImportJob(jobId, { ...progress(), processed_files: files.length, status: 'rebuilding' })
+
+    // Apply power bests oldest first so power history reads chronologically
+    if (imported.length > 0) {
+      try {
+        const supabase = await createClient()
+        const { data: athlete } = supabase
+          ? await supabase.from('athletes').select('weight_kg').eq('id', athleteId).single()
+          : { data: null }
+        const weightKg: number | undefined = athlete?.weight_kg || undefined
+
+        const withPower = imported
+          .filter(s => s.powerCurve.length > 0)
+          .sort((a, b) => a.date.localeCompare(b.date))
+
+        for (const session of withPower) {
+          const newBests = await updatePowerBestsFromSession(
+            athleteId,
+            session.sessionId,
+            session.date,
+            session.powerCurve,
+            weightKg
+          )
+          result.powerBestsUpdated += newBests.length
+        }
+      } catch (error) {
+        logger.error('[ArchiveImport] Power bests rebuild error:', error)
+        addError(`Power bests: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Recalculate CTL/ATL/TSB from the oldest imported activity forward (only
+    // the per-sport split when fitness comes from intervals.icu)
+    if (result.oldestDate) {
+      try {
+        result.fitnessDaysRebuilt = await handleSessionsChanged(athleteId, [result.oldestDate])
+      } catch (error) {
+        logger.error('[ArchiveImport] Fitness history rebuild error:', error)
+        addError(`Fitness history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Generate session embeddings for RAG (non-critical)
+    if (features.rag && result.imported > 0) {
+      try {
+        await embedNewSessions(athleteId)
+      } catch (error) {
+        logger.error('[ArchiveImport] Session embedding error (non-critical):', error)
+      }
+    }
+
+    await updateImportJob(jobId, {
+      ...progress(),
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    })
+
+    logger.info(`[ArchiveImport] Job ${jobId}: ${result.imported} imported, ${result.duplicates} duplicates, ${result.failed} failed`)
+  } catch (error) {
+    logger.error('[ArchiveImport] Import failed:', error)
+    addError(error instanceof Error ? error.message : 'Import failed')
+    await updateImportJob(jobId, {
+      ...progress(),
+      status: 'failed',
+      completed_at: new Date().toISOString(),
+    })
+  } finally {
+    archive?.close()
+  }
+
+  return result
+}
@@ -0,0 +1,343 @@
+/**
+ * FIT Upload -> Supabase Import Service
+ *
+ * Turns a parsed activity file (FIT, TCX or GPX) into a first-class session for the signed-in athlete,
+ * so riders without intervals.icu get the same pipeline as a sync:
+ * - Metrics (TSS, IF, zones) computed with the athlete's stored FTP/LTHR; TSS falls back
+ *   to heart rate when the file has no power. Runs use running FTP and threshold pace (rTSS)
+ * - Per-second records cleaned (spikes, dropouts, stuck sensors, pauses) and stored in
+ *   session_streams, with data quality flags, EF, Pw:HR decoupling and durability
+ * - Best 1k, 5k, 10k and half marathon times from the distance stream (runs only)
+ * - Climbs found in the altitude stream and matched to earlier ascents
+ * - Power bests updated from the cleaned power stream, skipping flagged samples (rides only)
+ * - Session embedded for RAG
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  calculatePowerZones,
+  calculateHRZones,
+  calculateNormalizedPower,
+  inferWorkoutTypeFromIF,
+  type ParsedFitData,
+  type PowerRecord,
+} from '@/lib/fit-parser'
+import type { ActivityFileFormat } from '@/lib/activity-parser'
+import { calculatePowerCurve } from '@/lib/analysis/power-analysis'
+import { bestsExclusionMask, cleanStreams, withoutPauses } from '@/lib/analysis/stream-quality'
+import { updatePowerBestsFromSession } from '@/lib/db/power-bests'
+import { saveSessionStreams, type SessionStreams } from '@/lib/db/session-streams'
+import { getSession } from '@/lib/db/sessions'
+import { embedNewSessions } from '@/lib/rag/session-embeddings'
+import { ensureAthleteExists } from '@/lib/sync/intervals-sync'
+import { calculateIntensityFactor, calculateSessionStress, type StressInput, type StressProfile } from '@/lib/fitness/stress'
+import { calculateGradeAdjustedSpeed, calculateNormalizedGradedSpeed, runningBestsFromStreams } from '@/lib/analysis/running'
+import { calculateAerobicMetrics } from '@/lib/analysis/durability'
+import { storeSessionClimbs } from '@/lib/fitness/climb-engine'
+import { refreshSessionPowerBests } from '@/lib/fitness/data-quality-engine'
+import { features } from '@/lib/features'
+import type { DataQualityFlag } from '@/types'
+import type { SessionInsert } from './types'
+import { logger } from '@/lib/logger'
+
+export interface FitImportResult {
+  sessionId: string | null
+  /** False when the same activity was uploaded before (row was updated) */
+  isNew: boolean
+  tss: number
+  powerBestsUpdated: number
+  /** Peak power per standard duration (empty without power data) */
+  powerCurve: { durationSeconds: number; watts: number }[]
+  errors: string[]
+}
+
+export interface FitImportOptions {
+  /** Activity name (e.g. from an export's activities CSV), stored like intervals.icu names */
+  name?: string
+  /** Leave power bests to the caller (bulk imports apply them in date order afterwards) */
+  skipPowerBests?: boolean
+  /** Leave RAG embedding to the caller */
+  skipEmbedding?: boolean
+}
+
+/**
+ * Stable external ID for an uploaded activity.
+ * Based on start time so re-uploading the same file updates instead of duplicating.
+ */
+export function fitExternalId(fitData: ParsedFitData): string {
+  return `fit:${new Date(fitData.start_time).getTime()}`
+}
+
+/**
+ * Convert per-record objects into stream arrays (intervals.icu stream naming).
+ * Missing sensor samples become 0, matching how intervals.icu fills gaps;
+ * altitude, distance and position carry the last known value forward.
+ */
+export function recordsToStreams(records: PowerRecord[]): SessionStreams {
+  const start = records[0]?.timestamp ?? 0
+  const streams: SessionStreams = {
+    time: records.map(r => Math.round((r.timestamp - start) / 1000)),
+  }
+  if (records.some(r => r.power !== undefined)) {
+    streams.watts = records.map(r => r.power ?? 0)
+  }
+  if (records.some(r => r.heart_rate !== undefined)) {
+    streams.heartrate = records.map(r => r.heart_rate ?? 0)
+  }
+  if (records.some(r => r.cadence !== undefined)) {
+    streams.cadence = records.map(r => r.cadence ?? 0)
+  }
+  if (records.some(r => r.speed !== undefined)) {
+    // Parser reports km/h, streams use m/s
+    streams.velocity_smooth = records.map(r => Math.round(((r.speed ?? 0) / 3.6) * 100) / 100)
+  }
+  if (records.some(r => r.altitude !== undefined)) {
+    // Carry the last known altitude over gaps instead of dropping to 0
+    let last = records.find(r => r.altitude !== undefined)!.altitude!
+    streams.altitude = records.map(r => (last = r.altitude ?? last))
+  }
+  if (records.some(r => r.distance !== undefined)) {
+    let last = 0
+    streams.distance = records.map(r => (last = r.distance ?? last))
+  }
+  if (records.some(r => r.lat !== undefined)) {
+    let last: [number, number] = [0, 0]
+    streams.latlng = records.map(r => (last = r.lat !== undefined && r.lng !== undefined ? [r.lat, r.lng] : last))
+  }
+  return streams
+}
+
+/**
+ * Normalized power from the cleaned power stream, without zero-filled pauses.
+ * Falls back to the file's value when nothing was cleaned.
+ */
+function cleanedNormalizedPower(fitData: ParsedFitData, watts: number[] | undefined, flags: DataQualityFlag[]): number {
+  const fileValue = fitData.normalized_power || fitData.avg_power || 0
+  const touchesPower = flags.some(f => f.stream === 'watts' || f.issue === 'zero_filled_pause')
+  if (!watts || !touchesPower) return fileValue
+  const records = withoutPauses(watts, flags).map((power, i) => ({ timestamp: i * 1000, power }))
+  return calculateNormalizedPower(records) || fileValue
+}
+
+/**
+ * Transform parsed FIT data to our Session format
+ */
+function transformFitData(
+  fitData: ParsedFitData,
+  athleteId: string,
+  fileName: string,
+  format: ActivityFileFormat,
+  profile: StressProfile,
+  cleaned: { streams: SessionStreams; flags: DataQualityFlag[] },
+  name?: string
+): SessionInsert {
+  const running = fitData.sport === 'running'
+  // Running power is measured against running FTP, never cycling FTP
+  const ftp = (running ? profile.runningFtp : profile.ftp) ?? null
+  const lthr = profile.lthr ?? null
+  const { streams, flags } = cleaned
+  const normalizedPower = cleanedNormalizedPower(fitData, streams.watts, flags)
+  const spikesRemoved = !!streams.watts && flags.some(f => f.issue === 'power_spike')
+  const stressInput: StressInput = {
+    durationSeconds: fitData.duration_seconds,
+    sport: fitData.sport,
+    normalizedPower,
+    ngpSpeed: running && streams.velocity_smooth
+      ? calculateNormalizedGradedSpeed(calculateGradeAdjustedSpeed(streams))
+      : null,
+    avgSpeed: running && fitData.distance_meters && fitData.duration_seconds > 0
+      ? fitData.distance_meters / fitData.duration_seconds
+      : null,
+    heartrate: streams.heartrate,
+    avgHr: fitData.avg_hr,
+  }
+  const intensityFactor = calculateIntensityFactor(stressInput, profile) ?? 0
+  const stress = calculateSessionStress(stressInput, profile)
+  const aerobic = calculateAerobicMetrics(streams)
+
+  const roundOrNull = (val: number | undefined | null): number | null =>
+    val != null ? Math.round(val) : null
+
+  return {
+    athlete_id: athleteId,
+    date: fitData.start_time,
+    duration_seconds: Math.round(fitData.duration_seconds),
+    distance_meters: roundOrNull(fitData.distance_meters),
+    sport: fitData.sport,
+    workout_type: name || (intensityFactor > 0 ? inferWorkoutTypeFromIF(intensityFactor) : null),
+    avg_power: roundOrNull(fitData.avg_power),
+    max_power: spikesRemoved
+      ? streams.watts!.reduce((max, w) => Math.max(max, w), 0)
+      : roundOrNull(fitData.max_power),
+    normalized_power: normalizedPower > 0 ? Math.round(normalizedPower) : null,
+    intensity_factor: intensityFactor > 0 ? intensityFactor : null,
+    tss: stress?.tss ?? null,
+    tss_method: stress?.method ?? null,
+    avg_hr: roundOrNull(fitData.avg_hr),
+    max_hr: roundOrNull(fitData.max_hr),
+    efficiency_factor: aerobic.efficiencyFactor,
+    decoupling: aerobic.decoupling,
+    durability: aerobic.durability,
+    running_bests: running ? runningBestsFromStreams(streams.distance ?? [], streams.time) : null,
+    data_quality: flags,
+    avg_cadence: roundOrNull(fitData.avg_cadence),
+    total_ascent: roundOrNull(fitData.total_ascent),
+    power_zones: ftp ? calculatePowerZones(fitData.records, ftp) : null,
+    hr_zones: lthr ? calculateHRZones(fitData.records, lthr) : null,
+    source: 'fit_upload',
+    external_id: fitExternalId(fitData),
+    raw_data: {
+      file_name: fileName,
+      file_format: format,
+      ...(name ? { name } : {}),
+      start_time: fitData.start_time,
+      ftp_used: ftp,
+      // Device laps and environment for reports and interval analysis
+      ...(fitData.laps ? { laps: fitData.laps } : {}),
+      ...(fitData.devices ? { devices: fitData.devices } : {}),
+      ...(fitData.left_right_balance ? { left_right_balance: fitData.left_right_balance } : {}),
+      ...(fitData.avg_temperature !== undefined ? { avg_temperature: fitData.avg_temperature } : {}),
+      ...(fitData.max_temperature !== undefined ? { max_temperature: fitData.max_temperature } : {}),
+    },
+    synced_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Import a parsed activity file as a session for the athlete
+ */
+export async function importFitSession(
+  athleteId: string,
+  fitData: ParsedFitData,
+  fileName: string,
+  format: ActivityFileFormat = 'fit',
+  options: FitImportOptions = {}
+): Promise<FitImportResult> {
+  const result: FitImportResult = {
+    sessionId: null,
+    isNew: false,
+    tss: 0,
+    powerBestsUpdated: 0,
+    powerCurve: [],
+    errors: [],
+  }
+
+  const supabase = await createClient()
+  if (!supabase) {
+    result.errors.push('Supabase not configured')
+    return result
+  }
+
+  const athleteExists = await ensureAthleteExists(athleteId)
+  if (!athleteExists) {
+    result.errors.push('Failed to create athlete record')
+    return result
+  }
+
+  const { data: athlete } = await supabase
+    .from('athletes')
+    .select('ftp, running_ftp, threshold_pace, lthr, max_hr, resting_hr, weight_kg')
+    .eq('id', athleteId)
+    .single()
+
+  const profile: StressProfile = {
+    ftp: athlete?.ftp ?? null,
+    runningFtp: athlete?.running_ftp ?? null,
+    thresholdPace: athlete?.threshold_pace ?? null,
+    lthr: athlete?.lthr ?? null,
+    maxHr: athlete?.max_hr ?? null,
+    restingHr: athlete?.resting_hr ?? null,
+  }
+  const weightKg: number | undefined = athlete?.weight_kg || undefined
+
+  if (fitData.sport === 'running' ? !profile.thresholdPace && !profile.runningFtp : !profile.ftp) {
+    logger.warn('[FitUpload] Athlete has no threshold for this sport, IF/power zones will be empty and TSS falls back to heart rate')
+  }
+
+  // Spikes and dropouts are interpolated before anything is stored or analyzed
+  const cleaned = cleanStreams(recordsToStreams(fitData.records))
+  const session = transformFitData(fitData, athleteId, fileName, format, profile, cleaned, options.name)
+  result.tss = session.tss ?? 0
+
+  // Check for a previous upload of the same activity
+  const { data: existing } = await supabase
+    .from('sessions')
+    .select('id')
+    .eq('athlete_id', athleteId)
+    .eq('external_id', session.external_id)
+    .maybeSingle()
+  result.isNew = !existing
+
+  const { data: upserted, error } = await supabase
+    .from('sessions')
+    .upsert(session, {
+      onConflict: 'athlete_id,external_id',
+      ignoreDuplicates: false,
+    })
+    .select('id')
+    .single()
+
+  if (error || !upserted) {
+    logger.error('[FitUpload] Session upsert error:', error)
+    result.errors.push(error?.message || 'Failed to store session')
+    return result
+  }
+
+  result.sessionId = upserted.id as string
+  logger.info(`[FitUpload] Stored ${fileName} as session ${result.sessionId} (${result.isNew ? 'new' : 'update'})`)
+
+  // Store per-second records as session streams
+  const { streams, flags } = cleaned
+  if (fitData.records.length > 0) {
+    const saved = await saveSessionStreams(result.sessionId, athleteId, streams, 'fit_upload')
+    if (!saved) {
+      result.errors.push('Failed to store session streams')
+    }
+
+    // Climbs and their matches to earlier ascents (non-critical)
+    try {
+      await storeSessionClimbs(result.sessionId, athleteId, streams)
+    } catch (e) {
+      logger.error('[FitUpload] Climb detection error (non-critical):', e)
+    }
+  }
+
+  // Update power bests from the cleaned power stream without flagged samples;
+  // running power is not comparable to cycling bests
+  result.powerCurve = streams.watts
+    ? calculatePowerCurve(streams.watts, bestsExclusionMask(streams.watts.length, flags))
+    : []
+  if (result.powerCurve.length > 0 && fitData.sport !== 'running' && !options.skipPowerBests) {
+    try {
+      // A re-upload replaces the bests the earlier upload set and keeps the athlete's exclusions
+      const stored = result.isNew ? null : await getSession(result.sessionId)
+      if (stored) {
+        result.powerBestsUpdated = await refreshSessionPowerBests(stored)
+      } else {
+        const newBests = await updatePowerBestsFromSession(
+          athleteId,
+          result.sessionId,
+          fitData.date,
+          result.powerCurve,
+          weightKg
+        )
+        result.powerBestsUpdated = newBests.length
+      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Unknown error'
+      logger.error('[FitUpload] Power bests update error:', msg)
+      result.errors.push(`Power bests: ${msg}`)
+    }
+  }
+
+  // Generate session embedding for RAG (non-critical)
+  if (features.rag && !options.skipEmbedding) {
+    try {
+      await embedNewSessions(athleteId)
+    } catch (e) {
+      logger.error('[FitUpload] Session embedding error (non-critical):', e)
+    }
+  }
+
+  return result
+}
@@ -12,22 +12,47 @@ import { createClient } from '@/lib/supabase/server'
 import { intervalsClient, formatDateForApi } from '@/lib/intervals-icu'
 import type { IntervalsActivity, IntervalsWellness } from '@/lib/intervals-icu'
 import type { SyncLog, SyncResult, SyncOptions, SessionInsert, FitnessHistoryInsert } from './types'
+import type { Session } from '@/types'
 import { updatePowerBestsFromSession, STANDARD_DURATIONS } from '@/lib/db/power-bests'
-import { getCurrentFitness } from '@/lib/db/fitness'
+import { getLatestFtpHistory, insertFtpHistory } from '@/lib/db/ftp-proposals'
+import { getLatestDiscrepancy, insertDiscrepancy } from '@/lib/db/fitness-discrepancies'
 import { createFitnessDiscrepancyInsight } from '@/lib/insights/insight-generator'
+import { computeLocalPmc, getPmcSettings, recomputeFitnessHistory, recomputeSportFitness } from '@/lib/fitness/pmc-engine'
+import { calculateIntensityFactor, calculateSessionStress, type StressInput, type StressMethod, type StressProfile, type StressScore } from '@/lib/fitness/stress'
+import { speedToPace } from '@/lib/analysis/running'
+import { getStressProfile, scoreUnscoredSessions } from '@/lib/fitness/stress-engine'
+import { analyzeUnanalyzedSessions } from '@/lib/fitness/durability-engine'
+import { analyzeUnclimbedSessions } from '@/lib/fitness/climb-engine'
+import { analyzeUnrankedRuns } from '@/lib/fitness/running-bests-engine'
+import { checkUncheckedSessions } from '@/lib/fitness/data-quality-engine'
+import { matchPlanCompliance } from '@/lib/fitness/plan-compliance-engine'
 import { embedNewSessions } from '@/lib/rag/session-embeddings'
 import { features } from '@/lib/features'
 import { syncZwiftPowerRaces, shouldSyncZwiftPower } from '@/lib/sync/zwiftpower-sync'
+import { storeMissingStreams } from '@/lib/streams/stream-access'
+import { getSessionIdsWithStreams, STREAM_BATCH_SIZE } from '@/lib/db/session-streams'
 import { logger } from '@/lib/logger'
 
 const DEFAULT_BATCH_SIZE = 100
 const DEFAULT_LOOKBACK_DAYS = 365
+// Max new sessions per sync whose streams are fetched eagerly (rest are fetched on first use)
+const STREAM_SYNC_LIMIT = 25
+// Methods the stress engine scores from stored heart rate and running streams
+const STREAM_STRESS_METHODS: StressMethod[] = ['pace', 'hr', 'trimp']
+
+interface ExistingSessionRow {
+  id: string
+  external_id: string
+  tss: number | null
+  tss_method: StressMethod | null
+  intensity_factor: number | null
+}
 
 /**
  * Ensure athlete record exists in database
  * Creates one if missing (for users who signed up before trigger was created)
  */
-async function ensureAthleteExists(athleteId: string): Promise<boolean> {
+export async function ensureAthleteExists(athleteId: string): Promise<boolean> {
   const supabase = await createClient()
   if (!supabase) return false
 
@@ -107,9 +132,16 @@ async function upsertSyncLog(
 }
 
 /**
- * Transform intervals.icu activity to our Session format
+ * Transform intervals.icu activity to our Session format.
+ * Powered activities keep the intervals.icu training load; the rest are
+ * scored from heart rate, TRIMP or RPE with the athlete's thresholds, and
+ * fall back to the intervals.icu load when none of those apply.
  */
-function transformActivity(activity: IntervalsActivity, athleteId: string): SessionInsert {
+function transformActivity(
+  activity: IntervalsActivity,
+  athleteId: string,
+  profile: StressProfile
+): SessionInsert {
   // Calculate power zones percentages
   let powerZones: Record<string, number> | null = null
   if (activity.power_zone_times && activity.power_zone_times.length > 0) {
@@ -152,19 +184,42 @@ function transformActivity(activity: IntervalsActivity, athleteId: string): Sess
   const roundOrNull = (val: number | undefined | null): number | null =>
     val != null ? Math.round(val) : null
 
+  const sport = mapActivityType(activity.type)
+  const normalizedPower = activity.icu_weighted_avg_watts ?? activity.weighted_average_watts
+  const stressInput: StressInput = {
+    durationSeconds: activity.moving_time || 0,
+    sport,
+    normalizedPower,
+    // rTSS from average speed until the streams arrive and NGP replaces it
+    avgSpeed: activity.distance && activity.moving_time ? activity.distance / activity.moving_time : null,
+    avgHr: activity.average_heartrate,
+    trimp: activity.trimp,
+    rpe: activity.icu_rpe,
+    externalLoad: activity.icu_training_load,
+  }
+  // Runs are scored against running thresholds, never cycling FTP
+  const running = sport === 'running'
+  const stress: StressScore | null = !running && normalizedPower > 0 && activity.icu_training_load != null
+    ? { tss: Math.round(activity.icu_training_load), method: 'power' }
+    : calculateSessionStress(stressInput, profile)
+  // icu_intensity from intervals.icu is percentage (e.g., 83.61), convert to decimal (0.8361) for DECIMAL(4,2)
+  const intensityFactor = running
+    ? calculateIntensityFactor(stressInput, profile)
+    : activity.icu_intensity != null ? Math.round(activity.icu_intensity) / 100 : null
+
   return {
     athlete_id: athleteId,
     date: activity.start_date_local,
     duration_seconds: activity.moving_time || 0,
     distance_meters: roundOrNull(activity.distance),
-    sport: mapActivityType(activity.type),
+    sport,
     workout_type: workoutType,
     avg_power: roundOrNull(activity.icu_average_watts ?? activity.average_watts),
     max_power: roundOrNull(activity.max_watts),
-    normalized_power: roundOrNull(activity.icu_weighted_avg_watts ?? activity.weighted_average_watts),
-    // icu_intensity from intervals.icu is percentage (e.g., 83.61), convert to decimal (0.8361) for DECIMAL(4,2)
-    intensity_factor: activity.icu_intensity != null ? Math.round(activity.icu_intensity) / 100 : null,
-    tss: roundOrNull(activity.icu_training_load),
+    normalized_power: roundOrNull(normalizedPower),
+    intensity_factor: intensityFactor,
+    tss: stress?.tss ?? null,
+    tss_method: stress?.method ?? null,
     avg_hr: roundOrNull(activity.average_heartrate),
     max_hr: roundOrNull(activity.max_heartrate),
     avg_cadence: roundOrNull(activity.average_cadence),
@@ -178,11 +233,42 @@ function transformActivity(activity: IntervalsActivity, athleteId: string): Sess
   }
 }
 
+/**
+ * Keep the stream-based TSS of re-synced sessions. The activity summary only
+ * has average heart rate and speed, so its score would replace the hrTSS,
+ * TRIMP or NGP rTSS the stress engine computed from the stored streams.
+ */
+async function keepStreamScores(
+  athleteId: string,
+  sessions: SessionInsert[],
+  existingRows: ExistingSessionRow[]
+): Promise<void> {
+  const streamScored = existingRows.filter(r =>
+    r.tss != null && r.tss_method != null && STREAM_STRESS_METHODS.includes(r.tss_method))
+  if (streamScored.length === 0) return
+
+  const withStreams = new Set<string>()
+  for (let i = 0; i < streamScored.length; i += STREAM_BATCH_SIZE) {
+    const ids = await getSessionIdsWithStreams(athleteId, streamScored.slice(i, i + STREAM_BATCH_SIZE).map(r => r.id))
+    ids.forEach(id => withStreams.add(id))
+  }
+
+  const byExternalId = new Map(streamScored.filter(r => withStreams.has(r.id)).map(r => [r.external_id, r]))
+  for (const session of sessions) {
+    const existing = byExternalId.get(session.external_id)
+    // A power score from the summary is as good as one from the streams
+    if (!existing || session.tss_method === 'power') continue
+    session.tss = existing.tss
+    session.tss_method = existing.tss_method
+    if (session.sport === 'running') session.intensity_factor = existing.intensity_factor
+  }
+}
+
 /**
  * Map intervals.icu activity type to our sport type
  */
-function mapActivityType(type: string): string {
-  const typeMap: Record<string, string> = {
+function mapActivityType(type: string): Session['sport'] {
+  const typeMap: Record<string, Session['sport']> = {
     'Ride': 'cycling',
     'VirtualRide': 'cycling',
     'Run': 'running',
@@ -231,17 +317,37 @@ export async function syncAthleteProfile(
     const cycling = athlete.sportSettings?.find(
       (s: { type?: string }) => s.type === 'Bike'
     ) || athlete.sportSettings?.[0]
+    const running = athlete.sportSettings?.find(
+      (s: { type?: string }) => s.type === 'Run'
+    )
+    // intervals.icu stores threshold pace as a speed in m/s
+    const thresholdPace = running?.threshold_pace ? speedToPace(running.threshold_pace) : null
+
+    // FTP is only taken from intervals.icu when it changes there, so a locally
+    // accepted eFTP proposal isn't reverted by the next sync
+    const intervalsFtp: number | null = cycling?.ftp ?? null
+    const lastSyncedFtp = await getLatestFtpHistory(athleteId, 'intervals_icu')
+    const ftpChanged = intervalsFtp !== null && intervalsFtp !== lastSyncedFtp?.ftp
+
+    const { data: previous } = await supabase
+      .from('athletes')
+      .select('ftp')
+      .eq('id', athleteId)
+      .single()
 
     // Update the athletes table with intervals.icu values
+    const now = new Date().toISOString()
     const { error } = await supabase
       .from('athletes')
       .update({
-        ftp: cycling?.ftp ?? null,
+        ...(ftpChanged ? { ftp: intervalsFtp, ftp_updated_at: now } : {}),
         max_hr: cycling?.max_hr ?? null,
         lthr: cycling?.lthr ?? null,
         weight_kg: athlete.icu_weight ?? athlete.weight ?? null,
         resting_hr: athlete.icu_resting_hr ?? null,
-        updated_at: new Date().toISOString(),
+        ...(thresholdPace ? { threshold_pace: thresholdPace } : {}),
+        ...(running?.ftp ? { running_ftp: running.ftp } : {}),
+        updated_at: now,
       })
       .eq('id', athleteId)
 
@@ -250,12 +356,24 @@ export async function syncAthleteProfile(
       return { updated: false, error: error.message }
     }
 
+    if (ftpChanged) {
+      await insertFtpHistory({
+        athlete_id: athleteId,
+        ftp: intervalsFtp,
+        previous_ftp: previous?.ftp ?? null,
+        effective_date: now.split('T')[0],
+        source: 'intervals_icu',
+      })
+    }
+
     logger.info('[Sync] Synced athlete profile:', {
       ftp: cycling?.ftp,
       max_hr: cycling?.max_hr,
       lthr: cycling?.lthr,
       weight_kg: athlete.icu_weight ?? athlete.weight,
       resting_hr: athlete.icu_resting_hr,
+      threshold_pace: thresholdPace,
+      running_ftp: running?.ftp,
     })
 
     return { updated: true }
@@ -350,11 +468,12 @@ export async function syncActivities(
     logger.info('[sync] After filtering:', validActivities.length, 'valid activities (excluded', activities.length - validActivities.length, 'STRAVA/invalid)')
 
     // Transform activities individually to catch errors without crashing entire sync
+    const profile = await getStressProfile(athleteId)
     const sessions: SessionInsert[] = []
     const transformErrors: string[] = []
     for (const activity of validActivities) {
       try {
-        sessions.push(transformActivity(activity, athleteId))
+        sessions.push(transformActivity(activity, athleteId, profile))
       } catch (e) {
         const msg = e instanceof Error ? e.message : 'Unknown error'
         transformErrors.push(`Activity ${activity.id}: ${msg}`)
@@ -371,12 +490,15 @@ export async function syncActivities(
     const externalIds = sessions.map(s => s.external_id)
     const { data: existingRows } = await supabase
       .from('sessions')
-      .select('external_id')
+      .select('id, external_id, tss, tss_method, intensity_factor')
       .eq('athlete_id', athleteId)
       .in('external_id', externalIds)
     const existingExternalIds = new Set((existingRows || []).map(r => r.external_id))
     const newExternalIds = externalIds.filter(id => !existingExternalIds.has(id))
 
+    // Re-synced activities must not downgrade scores computed from stored streams
+    await keepStreamScores(athleteId, sessions, (existingRows || []) as ExistingSessionRow[])
+
     // Upsert in batches with actual count tracking
     const totalBatches = Math.ceil(sessions.length / batchSize)
     for (let i = 0; i < sessions.length; i += batchSize) {
@@ -409,13 +531,70 @@ export async function syncActivities(
     if (newExternalIds.length > 0) {
       const { data: newRows } = await supabase
         .from('sessions')
-        .select('id')
+        .select('id, external_id, date')
         .eq('athlete_id', athleteId)
         .in('external_id', newExternalIds)
+        .order('date', { ascending: false })
       if (newRows) {
         newSessionIds.push(...newRows.map(r => r.id))
       }
       logger.info(`[sync] ${newSessionIds.length} new sessions (${synced - newSessionIds.length} updates)`)
+
+      // Store per-second streams locally for the newest sessions (non-critical)
+      if (newRows && newRows.length > 0) {
+        const streamResult = await storeMissingStreams(
+          athleteId,
+          newRows.map(r => ({ id: r.id, athlete_id: athleteId, external_id: r.external_id, source: 'intervals_icu' })),
+          intervalsClient,
+          STREAM_SYNC_LIMIT
+        )
+        logger.info(`[sync] Stored streams for ${streamResult.stored} sessions`)
+        if (streamResult.errors.length > 0) {
+          logger.warn('[sync] Stream storage errors:', streamResult.errors.slice(0, 5))
+        }
+      }
+    }
+
+    // Clean streams stored before data quality checks existed, before anything reads them (non-critical)
+    try {
+      await checkUncheckedSessions(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Data quality check error (non-critical):', e)
+    }
+
+    // Score sessions the activity summary had no TSS for, from stored RPE and HR streams (non-critical)
+    try {
+      await scoreUnscoredSessions(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Stress scoring error (non-critical):', e)
+    }
+
+    // EF, decoupling and durability for sessions whose streams were stored earlier (non-critical)
+    try {
+      await analyzeUnanalyzedSessions(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Aerobic metrics error (non-critical):', e)
+    }
+
+    // Climbs in sessions whose streams were stored earlier (non-critical)
+    try {
+      await analyzeUnclimbedSessions(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Climb detection error (non-critical):', e)
+    }
+
+    // Best 1k/5k/10k/half marathon in runs whose streams were stored earlier (non-critical)
+    try {
+      await analyzeUnrankedRuns(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Running bests error (non-critical):', e)
+    }
+
+    // Link new sessions to the active plan's days and score compliance (non-critical)
+    try {
+      await matchPlanCompliance(athleteId, oldest)
+    } catch (e) {
+      logger.error('[sync] Plan compliance error (non-critical):', e)
     }
 
     // Find the newest activity date for sync log
@@ -452,7 +631,7 @@ export async function syncActivities(
 export async function syncWellness(
   athleteId: string,
   options: SyncOptions = {}
-): Promise<{ synced: number; errors: string[] }> {
+): Promise<{ synced: number; errors: string[]; oldest?: string }> {
   const supabase = await createClient()
   if (!supabase) {
     return { synced: 0, errors: ['Supabase not configured'] }
@@ -481,7 +660,7 @@ export async function syncWellness(
     const wellnessData = await intervalsClient.getWellness(oldest, newest)
 
     if (!wellnessData || wellnessData.length === 0) {
-      return { synced: 0, errors: [] }
+      return { synced: 0, errors: [], oldest }
     }
 
     // Filter out records without valid dates and transform
@@ -515,7 +694,7 @@ export async function syncWellness(
     errors.push(message)
   }
 
-  return { synced, errors }
+  return { synced, errors, oldest }
 }
 
 /**
@@ -595,6 +774,7 @@ export async function syncPowerBests(
       .from('sessions')
       .select('id, date, max_power, normalized_power, avg_power, duration_seconds')
       .eq('athlete_id', athleteId)
+      .eq('exclude_from_bests', false)
       .gte('date', oldest)
       .lte('date', newest)
       .order('date', { ascending: false })
@@ -663,45 +843,68 @@ export async function syncPowerBests(
 }
 
 /**
- * Check for discrepancy between local and intervals.icu fitness values
- * Creates an insight alert if CTL differs significantly
+ * Check for discrepancy between the locally calculated PMC and intervals.icu.
+ * Records a fitness_discrepancies row and an insight alert if CTL differs
+ * significantly, so the athlete can switch to the local values.
+ * Returns the number of discrepancies recorded.
  */
-async function checkFitnessDiscrepancy(athleteId: string): Promise<void> {
+async function checkFitnessDiscrepancy(athleteId: string): Promise<number> {
   try {
-    // Get local fitness from database
-    const localFitness = await getCurrentFitness(athleteId)
+    const today = formatDateForApi(new Date())
+
+    // Fitness calculated from our own sessions
+    const localDays = await computeLocalPmc(athleteId, today)
+    const localFitness = localDays[localDays.length - 1]
     if (!localFitness) {
-      logger.info('[Sync] No local fitness data to compare')
-      return
+      logger.info('[Sync] No local sessions to compare fitness with')
+      return 0
     }
 
     // Get live fitness from intervals.icu
-    const today = formatDateForApi(new Date())
     const yesterday = formatDateForApi(new Date(Date.now() - 24 * 60 * 60 * 1000))
     const wellness = await intervalsClient.getWellness(yesterday, today)
 
     const remoteFitness = wellness.find(w => w.id === today) || wellness[wellness.length - 1]
     if (!remoteFitness) {
       logger.info('[Sync] No remote fitness data to compare')
-      return
+      return 0
     }
 
     // Calculate difference
     const ctlDiff = Math.abs(localFitness.ctl - remoteFitness.ctl)
     const threshold = Math.max(5, localFitness.ctl * 0.1) // 5 points or 10%, whichever is greater
 
-    if (ctlDiff > threshold) {
-      logger.info(`[Sync] Fitness discrepancy detected: local=${localFitness.ctl}, remote=${Math.round(remoteFitness.ctl)}, diff=${Math.round(ctlDiff)}`)
-      await createFitnessDiscrepancyInsight(
-        athleteId,
-        localFitness.ctl,
-        Math.round(remoteFitness.ctl),
-        Math.round(ctlDiff)
-      )
-    }
+    if (ctlDiff <= threshold) return 0
+
+    logger.info(`[Sync] Fitness discrepancy detected: local=${localFitness.ctl}, remote=${Math.round(remoteFitness.ctl)}, diff=${Math.round(ctlDiff)}`)
+
+    // One record per day
+    const latest = await getLatestDiscrepancy(athleteId)
+    if (latest?.date === today) return 0
+
+    const remoteCtl = Math.round(remoteFitness.ctl * 10) / 10
+    const remoteAtl = Math.round(remoteFitness.atl * 10) / 10
+    await insertDiscrepancy({
+      athlete_id: athleteId,
+      date: today,
+      local_ctl: localFitness.ctl,
+      local_atl: localFitness.atl,
+      remote_ctl: remoteCtl,
+      remote_atl: remoteAtl,
+      ctl_delta: Math.round((remoteCtl - localFitness.ctl) * 10) / 10,
+      atl_delta: Math.round((remoteAtl - localFitness.atl) * 10) / 10,
+    })
+    await createFitnessDiscrepancyInsight(
+      athleteId,
+      Math.round(localFitness.ctl),
+      Math.round(remoteFitness.ctl),
+      Math.round(ctlDiff)
+    )
+    return 1
   } catch (error) {
     logger.error('[Sync] Error checking fitness discrepancy:', error)
     // Don't throw - discrepancy check is non-critical
+    return 0
   }
 }
 
@@ -747,13 +950,46 @@ export async function syncAll(
   const wellnessResult = await syncWellness(athleteId, options)
   allErrors.push(...wellnessResult.errors)
 
-  // Check for fitness discrepancies after wellness sync
-  await checkFitnessDiscrepancy(athleteId)
+  // Athletes on the local PMC keep locally calculated CTL/ATL/TSB: recompute
+  // over the synced window so the wellness values don't replace them.
+  // Otherwise compare the local calculation with intervals.icu, and keep the
+  // per-sport split (only calculated locally) current with the new sessions.
+  let discrepanciesFound = 0
+  try {
+    const pmcSettings = await getPmcSettings(athleteId)
+    if (pmcSettings.source === 'local') {
+      if (wellnessResult.oldest) {
+        await recomputeFitnessHistory(athleteId, wellnessResult.oldest, pmcSettings.timeConstants)
+      }
+    } else {
+      discrepanciesFound = await checkFitnessDiscrepancy(athleteId)
+      if (activitiesResult.synced > 0 && wellnessResult.oldest) {
+        await recomputeSportFitness(athleteId, wellnessResult.oldest, pmcSettings.timeConstants)
+      }
+    }
+  } catch (error) {
+    logger.error('[Sync] Local PMC error:', error)
+    allErrors.push(`Fitness: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
 
   // Sync power bests
   const powerBestsResult = await syncPowerBests(athleteId, options)
   allErrors.push(...powerBestsResult.errors)
 
+  // Estimate FTP from the new sessions and propose a change if it moved
+  if (activitiesResult.newSessionIds.length > 0) {
+    try {
+      const { detectFtpChange } = await import('@/lib/fitness/ftp-detector')
+      const proposal = await detectFtpChange(athleteId, activitiesResult.newSessionIds)
+      if (proposal) {
+        logger.info(`[Sync] Created FTP change proposal: ${proposal.proposed_ftp}W (${proposal.method})`)
+      }
+    } catch (error) {
+      logger.error('[Sync] FTP detection error (non-critical):', error)
+      // Don't add to errors - FTP detection is non-critical
+    }
+  }
+
   // Generate session embeddings for RAG (if enabled and activities were synced)
   if (features.rag && activitiesResult.synced > 0) {
     try {
@@ -814,7 +1050,7 @@ export async function syncAll(
     success: allErrors.length === 0,
     activitiesSynced: activitiesResult.synced,
     wellnessSynced: wellnessResult.synced,
-    discrepanciesFound: 0,
+    discrepanciesFound,
     lastActivityDate: syncLog?.last_activity_date || null,
     newSessionIds: activitiesResult.newSessionIds,
     errors: allErrors,
@@ -899,6 +1135,12 @@ export async function backfillWellness(
         wellness_synced: (syncLog?.wellness_synced || 0) + synced,
         last_sync_at: new Date().toISOString(),
       })
+
+      // Keep locally calculated CTL/ATL/TSB for athletes on the local PMC
+      const pmcSettings = await getPmcSettings(athleteId)
+      if (pmcSettings.source === 'local') {
+        await recomputeFitnessHistory(athleteId, oldest, pmcSettings.timeConstants)
+      }
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
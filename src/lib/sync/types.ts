@@ -1,5 +1,7 @@
 // Sync infrastructure types for intervals.icu -> Supabase synchronization
 
+import type { DataQualityFlag, DurabilityPoint, RunningBest } from '@/types'
+
 export type SyncStatus = 'idle' | 'syncing' | 'error'
 export type SyncProvider = 'intervals_icu'
 
@@ -103,8 +105,17 @@ export interface SessionInsert {
   normalized_power: number | null
   intensity_factor: number | null
   tss: number | null
+  tss_method: 'power' | 'pace' | 'hr' | 'trimp' | 'rpe' | 'external' | null
   avg_hr: number | null
   max_hr: number | null
+  /** Set from streams; intervals.icu rows leave them to the durability engine */
+  efficiency_factor?: number | null
+  decoupling?: number | null
+  durability?: DurabilityPoint[] | null
+  /** Set from a run's distance stream; intervals.icu rows leave it to the running bests engine */
+  running_bests?: RunningBest[] | null
+  /** Set when the streams are cleaned; intervals.icu rows leave it to the data quality engine */
+  data_quality?: DataQualityFlag[] | null
   avg_cadence: number | null
   total_ascent: number | null
   power_zones: Record<string, number> | null
@@ -0,0 +1,161 @@
+import { summarizeRecords, mapSport, buildLap } from '@/lib/fit-parser'
+import type { ParsedFitData, PowerRecord, ActivityLap } from '@/lib/fit-parser'
+
+/**
+ * Garmin Training Center (TCX) parser.
+ *
+ * Produces the same ParsedFitData shape as parseFitFile so NP/TSS/IF and
+ * workout type inference work unchanged. Power and speed come from the
+ * ActivityExtension (TPX) block that Garmin, Wahoo and Zwift write.
+ */
+
+/**
+ * Get all inner blocks for an element, ignoring namespace prefixes
+ */
+export function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g')
+  return Array.from(xml.matchAll(pattern), m => m[1])
+}
+
+/**
+ * Get the text value of the first matching element, ignoring namespace prefixes
+ */
+export function xmlValue(xml: string, tag: string): string | undefined {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>\\s*([^<]*?)\\s*</(?:[\\w-]+:)?${tag}>`)
+  return xml.match(pattern)?.[1]
+}
+
+/**
+ * Get a numeric element value, or undefined if missing or not a number
+ */
+export function xmlNumber(xml: string, tag: string): number | undefined {
+  const value = xmlValue(xml, tag)
+  if (value === undefined || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Get an attribute value from the opening tag of the first matching element
+ */
+export function xmlAttribute(xml: string, tag: string, attribute: string): string | undefined {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*\\b${attribute}="([^"]*)"`)
+  return xml.match(pattern)?.[1]
+}
+
+/**
+ * Sum positive altitude changes, ignoring jitter below 1m
+ */
+export function calculateAscent(altitudes: number[]): number | undefined {
+  if (altitudes.length < 2) return undefined
+  let ascent = 0
+  let reference = altitudes[0]
+  for (const altitude of altitudes) {
+    if (altitude - reference >= 1) {
+      ascent += altitude - reference
+      reference = altitude
+    } else if (altitude < reference) {
+      reference = altitude
+    }
+  }
+  return Math.round(ascent)
+}
+
+export function parseTcxFile(buffer: ArrayBuffer): ParsedFitData {
+  const xml = new TextDecoder().decode(buffer)
+
+  if (!/<(?:[\w-]+:)?TrainingCenterDatabase\b/.test(xml)) {
+    throw new Error('Not a TCX file')
+  }
+
+  const activity = xmlBlocks(xml, 'Activity')[0]
+  if (!activity) {
+    throw new Error('TCX file contains no activity')
+  }
+
+  const records: PowerRecord[] = []
+  const altitudes: number[] = []
+  const laps: ActivityLap[] = []
+  let lastDistance: number | undefined
+  let lapSeconds = 0
+  let lapDistance = 0
+
+  const lapPattern = /<(?:[\w-]+:)?Lap\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?Lap>/g
+  for (const [, lapAttributes, lap] of activity.matchAll(lapPattern)) {
+    const lapRecords: PowerRecord[] = []
+
+    for (const trackpoint of xmlBlocks(lap, 'Trackpoint')) {
+      const time = xmlValue(trackpoint, 'Time')
+      if (!time) continue
+
+      const heartRateBlock = xmlBlocks(trackpoint, 'HeartRateBpm')[0]
+      const positionBlock = xmlBlocks(trackpoint, 'Position')[0]
+      const speed = xmlNumber(trackpoint, 'Speed') // m/s in TPX extension
+      const altitude = xmlNumber(trackpoint, 'AltitudeMeters')
+      const distance = xmlNumber(trackpoint, 'DistanceMeters')
+
+      const record: PowerRecord = {
+        timestamp: new Date(time).getTime(),
+        power: xmlNumber(trackpoint, 'Watts'),
+        heart_rate: heartRateBlock ? xmlNumber(heartRateBlock, 'Value') : undefined,
+        cadence: xmlNumber(trackpoint, 'Cadence') ?? xmlNumber(trackpoint, 'RunCadence'),
+        speed: speed !== undefined ? Math.round(speed * 3.6 * 100) / 100 : undefined,
+      }
+      if (altitude !== undefined) {
+        record.altitude = altitude
+        altitudes.push(altitude)
+      }
+      if (distance !== undefined) {
+        record.distance = distance
+        lastDistance = distance
+      }
+      if (positionBlock) {
+        const lat = xmlNumber(positionBlock, 'LatitudeDegrees')
+        const lng = xmlNumber(positionBlock, 'LongitudeDegrees')
+        if (lat !== undefined && lng !== undefined) {
+          record.lat = lat
+          record.lng = lng
+        }
+      }
+
+      lapRecords.push(record)
+    }
+    records.push(...lapRecords)
+
+    // Lap totals are the device's own moving time and distance
+    const seconds = xmlNumber(lap, 'TotalTimeSeconds') || 0
+    const distance = xmlNumber(lap, 'DistanceMeters')
+    lapSeconds += seconds
+    lapDistance += distance || 0
+
+    const startTime = lapAttributes.match(/\bStartTime="([^"]*)"/)?.[1]
+    const averageHeartRate = xmlBlocks(lap, 'AverageHeartRateBpm')[0]
+    const maximumHeartRate = xmlBlocks(lap, 'MaximumHeartRateBpm')[0]
+    const firstTimestamp = lapRecords[0]?.timestamp
+    const lastTimestamp = lapRecords[lapRecords.length - 1]?.timestamp
+
+    laps.push(buildLap(lapRecords, {
+      start_time: new Date(startTime || firstTimestamp || 0).toISOString(),
+      duration_seconds: Math.round(seconds),
+      elapsed_seconds: firstTimestamp !== undefined
+        ? Math.max(Math.round(seconds), Math.round((lastTimestamp - firstTimestamp) / 1000))
+        : Math.round(seconds),
+      distance_meters: distance !== undefined ? Math.round(distance) : undefined,
+      avg_hr: averageHeartRate ? xmlNumber(averageHeartRate, 'Value') : undefined,
+      max_hr: maximumHeartRate ? xmlNumber(maximumHeartRate, 'Value') : undefined,
+      trigger: xmlValue(lap, 'TriggerMethod')?.toLowerCase(),
+    }))
+  }
+
+  const activityId = xmlValue(activity, 'Id')
+  const startTime = xmlAttribute(activity, 'Lap', 'StartTime') || activityId
+
+  return summarizeRecords(records, {
+    start_time: startTime ? new Date(startTime).toISOString() : undefined,
+    sport: mapSport(xmlAttribute(xml, 'Activity', 'Sport')),
+    duration_seconds: lapSeconds > 0 ? Math.round(lapSeconds) : undefined,
+    distance_meters: lapDistance > 0 ? lapDistance : lastDistance,
+    total_ascent: calculateAscent(altitudes),
+    laps: laps.length > 0 ? laps : undefined,
+  })
+}
@@ -11,6 +11,10 @@ export {
 
 export type { PMCDataPoint } from './intervals'
 
+// Per-sport PMC (stacked chart)
+export { buildSportPMCData, PMC_SPORTS } from './sport-pmc'
+export type { SportPMCDataPoint, PMCSport } from './sport-pmc'
+
 // Recovery data exports (separate from PMC/training load)
 export {
   getRecoveryData,
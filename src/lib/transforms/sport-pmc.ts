@@ -0,0 +1,30 @@
+/**
+ * Per-sport PMC Transforms
+ *
+ * Turns fitness_history_by_sport rows into one chart point per day with
+ * each sport's CTL, for the stacked-by-sport PMC chart.
+ */
+
+import type { Session, SportFitness } from '@/types'
+
+export type PMCSport = Session['sport']
+
+export const PMC_SPORTS: PMCSport[] = ['cycling', 'running', 'swimming', 'other']
+
+/**
+ * One day of the per-sport PMC: CTL per sport (absent = no load yet)
+ */
+export type SportPMCDataPoint = { date: string } & Partial<Record<PMCSport, number>>
+
+/**
+ * Build stacked chart data from per-sport PMC rows (oldest first)
+ */
+export function buildSportPMCData(rows: SportFitness[]): SportPMCDataPoint[] {
+  const byDate = new Map<string, SportPMCDataPoint>()
+  for (const row of rows) {
+    const point = byDate.get(row.date) ?? { date: row.date }
+    point[row.sport] = Math.round(row.ctl * 10) / 10
+    byDate.set(row.date, point)
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
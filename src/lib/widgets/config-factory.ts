@@ -19,6 +19,7 @@ export function getWidgetTitle(type: WidgetType): string {
     'plan-projection': 'Fitness Projection',
     'training-calendar': 'Training Calendar',
     'session-analysis': 'Session Analysis',
+    'pedaling-analysis': 'Pedaling Analysis',
   }
   return titles[type] || type
 }
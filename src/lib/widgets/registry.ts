@@ -50,6 +50,12 @@ export const WIDGET_REGISTRY: WidgetDefinition[] = [
     name: 'Session Analysis',
     description: 'Deep multi-tier analysis of a training session with metrics, zones, pacing, and comparison data',
     keywords: ['session', 'analysis', 'analyze', 'ride', 'workout', 'race', 'detailed', 'deep dive', 'review']
+  },
+  {
+    type: 'pedaling-analysis',
+    name: 'Pedaling Analysis',
+    description: 'Quadrant analysis of pedal force vs. velocity, cadence per power zone and torque peaks for a ride',
+    keywords: ['pedaling', 'cadence', 'torque', 'quadrant', 'force', 'low cadence', 'strength', 'rpm']
   }
 ]
 
@@ -18,11 +18,12 @@ export type WidgetType =
   | 'plan-projection'
   | 'training-calendar'
   | 'session-analysis'
+  | 'pedaling-analysis'
 
 /**
  * Chart-specific types for overlay visualizations
  */
-export type ChartMetric = 'power' | 'heartRate' | 'cadence' | 'speed' | 'altitude'
+export type ChartMetric = 'power' | 'heartRate' | 'cadence' | 'speed' | 'altitude' | 'wPrimeBalance' | 'torque'
 
 export interface ChartSeries {
   key: ChartMetric
@@ -145,6 +146,7 @@ export function getWidgetIcon(type: WidgetType): WidgetIcon {
     'plan-projection': 'projection',
     'training-calendar': 'calendar',
     'session-analysis': 'analysis',
+    'pedaling-analysis': 'analysis',
   }
   return iconMap[type] || 'chart'
 }
@@ -1,5 +1,5 @@
 // Comprehensive Workout Library
-// 30+ structured workout templates with metadata for intelligent selection
+// 30+ structured workout templates (cycling and running) with metadata for intelligent selection
 
 export type WorkoutCategory =
   | 'recovery'
@@ -16,12 +16,14 @@ export type EnergySystem = 'aerobic' | 'threshold' | 'vo2max' | 'anaerobic' | 'n
 
 export type TrainingPhase = 'base' | 'build' | 'peak' | 'taper' | 'recovery' | 'any'
 
+export type WorkoutSport = 'cycling' | 'running'
+
 export interface WorkoutInterval {
   sets: number
   duration_seconds: number
   rest_seconds: number
-  intensity_min: number // % of FTP
-  intensity_max: number // % of FTP
+  intensity_min: number // % of FTP (runs: % of threshold speed)
+  intensity_max: number // % of FTP (runs: % of threshold speed)
   cadence_target?: number
   notes?: string
 }
@@ -39,6 +41,8 @@ export interface WorkoutPrerequisites {
 export interface WorkoutTemplate {
   id: string
   name: string
+  /** Undefined = cycling */
+  sport?: WorkoutSport
   category: WorkoutCategory
   energy_systems: EnergySystem[]
   suitable_phases: TrainingPhase[]
@@ -321,7 +325,7 @@ const enduranceWorkouts: WorkoutTemplate[] = [
 ]
 
 // ============================================
-// TEMPO WORKOUTS (4)
+// TEMPO WORKOUTS (5)
 // ============================================
 
 const tempoWorkouts: WorkoutTemplate[] = [
@@ -452,6 +456,39 @@ const tempoWorkouts: WorkoutTemplate[] = [
     easier_alternative: 'tempo_2x20',
     tags: ['tempo', 'continuous', 'time trial', 'mental toughness'],
   },
+  {
+    id: 'tempo_low_cadence',
+    name: 'Low-Cadence Tempo',
+    category: 'tempo',
+    energy_systems: ['aerobic', 'threshold'],
+    suitable_phases: ['base'],
+    duration_minutes: 75,
+    warmup_minutes: 15,
+    cooldown_minutes: 10,
+    intervals: [
+      { sets: 4, duration_seconds: 600, rest_seconds: 300, intensity_min: 76, intensity_max: 87, cadence_target: 60, notes: 'Seated, 55-65 rpm' },
+    ],
+    target_tss_range: [60, 75],
+    intensity_factor_range: [0.76, 0.82],
+    description: '4x10 minutes at tempo power held at 60 rpm, seated, with 5 min easy spinning between.',
+    purpose: 'On-bike strength work: high pedal force at moderate power. Builds muscular endurance for climbing and big-gear efforts.',
+    execution_tips: [
+      'Stay seated with a quiet upper body',
+      'Use a gear that holds power at 55-65 rpm',
+      'Spin freely at 90+ rpm in the recoveries',
+    ],
+    common_mistakes: [
+      'Letting cadence creep back up to normal',
+      'Rocking the upper body or standing',
+      'Doing it with knee pain - stop and spin instead',
+    ],
+    prerequisites: {
+      min_ctl: 35,
+    },
+    easier_alternative: 'tempo_3x10',
+    harder_progression: 'tempo_2x20',
+    tags: ['tempo', 'low cadence', 'strength', 'force', 'muscular endurance'],
+  },
 ]
 
 // ============================================
@@ -1204,6 +1241,203 @@ const sprintWorkouts: WorkoutTemplate[] = [
   },
 ]
 
+// ============================================
+// RUNNING WORKOUTS (6)
+// ============================================
+
+const runningWorkouts: WorkoutTemplate[] = [
+  {
+    id: 'run_recovery_jog',
+    name: 'Recovery Jog',
+    sport: 'running',
+    category: 'recovery',
+    energy_systems: ['aerobic'],
+    suitable_phases: ['any'],
+    duration_minutes: 30,
+    warmup_minutes: 0,
+    cooldown_minutes: 0,
+    intervals: [
+      { sets: 1, duration_seconds: 1800, rest_seconds: 0, intensity_min: 65, intensity_max: 75, notes: 'Very easy, flat route' },
+    ],
+    target_tss_range: [15, 25],
+    intensity_factor_range: [0.65, 0.75],
+    description: 'Short, very easy jog well below threshold pace. Flat route, soft surfaces if possible.',
+    purpose: 'Promote blood flow between hard sessions without adding impact stress.',
+    execution_tips: [
+      'Run slower than feels natural',
+      'Walk breaks are fine',
+      'Skip it if anything aches',
+    ],
+    common_mistakes: [
+      'Drifting into easy-run pace',
+      'Choosing a hilly route',
+    ],
+    prerequisites: {
+      max_tsb: 10,
+    },
+    harder_progression: 'run_easy_45',
+    tags: ['running', 'recovery', 'easy', 'jog'],
+  },
+  {
+    id: 'run_easy_45',
+    name: 'Easy Run',
+    sport: 'running',
+    category: 'endurance',
+    energy_systems: ['aerobic'],
+    suitable_phases: ['base', 'build', 'any'],
+    duration_minutes: 45,
+    warmup_minutes: 0,
+    cooldown_minutes: 0,
+    intervals: [
+      { sets: 1, duration_seconds: 2700, rest_seconds: 0, intensity_min: 75, intensity_max: 85, notes: 'Conversational pace' },
+    ],
+    target_tss_range: [35, 50],
+    intensity_factor_range: [0.75, 0.85],
+    description: 'Steady conversational run at 75-85% of threshold speed.',
+    purpose: 'Build aerobic base and running economy with low injury risk.',
+    execution_tips: [
+      'Judge effort by breathing, not pace, on hills',
+      'Keep cadence quick and light',
+    ],
+    common_mistakes: [
+      'Running easy days too fast',
+      'Racing the watch on hilly routes - use grade-adjusted pace',
+    ],
+    prerequisites: {},
+    easier_alternative: 'run_recovery_jog',
+    harder_progression: 'run_long_90',
+    tags: ['running', 'easy', 'aerobic', 'base'],
+  },
+  {
+    id: 'run_long_90',
+    name: 'Long Run',
+    sport: 'running',
+    category: 'endurance',
+    energy_systems: ['aerobic'],
+    suitable_phases: ['base', 'build'],
+    duration_minutes: 90,
+    warmup_minutes: 0,
+    cooldown_minutes: 0,
+    intervals: [
+      { sets: 1, duration_seconds: 5400, rest_seconds: 0, intensity_min: 72, intensity_max: 82, notes: 'Steady, finish feeling controlled' },
+    ],
+    target_tss_range: [75, 100],
+    intensity_factor_range: [0.72, 0.82],
+    description: '90-minute steady run at easy pace. The key aerobic session of the week.',
+    purpose: 'Extend aerobic endurance, fatigue resistance and fuelling practice.',
+    execution_tips: [
+      'Take fluids and carbs after 60 minutes',
+      'Keep the first half deliberately easy',
+    ],
+    common_mistakes: [
+      'Turning the long run into a tempo run',
+      'Increasing long run duration more than 10-15 minutes per week',
+    ],
+    prerequisites: {
+      min_ctl: 25,
+    },
+    easier_alternative: 'run_easy_45',
+    tags: ['running', 'long run', 'aerobic', 'endurance'],
+  },
+  {
+    id: 'run_tempo_3x10',
+    name: 'Tempo Run 3x10',
+    sport: 'running',
+    category: 'tempo',
+    energy_systems: ['aerobic', 'threshold'],
+    suitable_phases: ['base', 'build'],
+    duration_minutes: 60,
+    warmup_minutes: 15,
+    cooldown_minutes: 10,
+    intervals: [
+      { sets: 3, duration_seconds: 600, rest_seconds: 120, intensity_min: 88, intensity_max: 93, notes: 'Comfortably hard' },
+    ],
+    target_tss_range: [55, 70],
+    intensity_factor_range: [0.82, 0.88],
+    description: '3x10 min at 88-93% of threshold speed with 2 min easy jog.',
+    purpose: 'Raise aerobic capacity and marathon/half-marathon pace durability.',
+    execution_tips: [
+      'Should be able to speak in short phrases',
+      'Run the last rep no faster than the first',
+    ],
+    common_mistakes: [
+      'Running tempo at threshold pace',
+    ],
+    prerequisites: {
+      min_ctl: 25,
+    },
+    easier_alternative: 'run_easy_45',
+    harder_progression: 'run_threshold_4x8',
+    tags: ['running', 'tempo', 'steady state'],
+  },
+  {
+    id: 'run_threshold_4x8',
+    name: 'Threshold Cruise Intervals',
+    sport: 'running',
+    category: 'threshold',
+    energy_systems: ['threshold'],
+    suitable_phases: ['build', 'peak'],
+    duration_minutes: 65,
+    warmup_minutes: 15,
+    cooldown_minutes: 10,
+    intervals: [
+      { sets: 4, duration_seconds: 480, rest_seconds: 90, intensity_min: 97, intensity_max: 102, notes: 'At threshold pace' },
+    ],
+    target_tss_range: [65, 80],
+    intensity_factor_range: [0.88, 0.94],
+    description: '4x8 min at threshold pace with 90 s jog recoveries.',
+    purpose: 'Raise threshold pace - the pace sustainable for about an hour.',
+    execution_tips: [
+      'Use grade-adjusted pace on rolling routes',
+      'Even splits across all reps',
+    ],
+    common_mistakes: [
+      'Starting the first rep too fast',
+      'Shortening recoveries to a standstill',
+    ],
+    prerequisites: {
+      min_ctl: 35,
+      min_days_since_intensity: 2,
+    },
+    easier_alternative: 'run_tempo_3x10',
+    harder_progression: 'run_vo2_5x3',
+    tags: ['running', 'threshold', 'cruise intervals', '10k'],
+  },
+  {
+    id: 'run_vo2_5x3',
+    name: 'VO2max Intervals 5x3',
+    sport: 'running',
+    category: 'vo2max',
+    energy_systems: ['vo2max'],
+    suitable_phases: ['build', 'peak'],
+    duration_minutes: 55,
+    warmup_minutes: 15,
+    cooldown_minutes: 10,
+    intervals: [
+      { sets: 5, duration_seconds: 180, rest_seconds: 150, intensity_min: 105, intensity_max: 110, notes: 'About 5k race pace' },
+    ],
+    target_tss_range: [55, 70],
+    intensity_factor_range: [0.88, 0.95],
+    description: '5x3 min at 105-110% of threshold speed (about 5k pace) with 2.5 min jog.',
+    purpose: 'Develop VO2max and 5k-10k race speed.',
+    execution_tips: [
+      'Track or flat loop works best',
+      'Stop the session if pace drops more than 3%',
+    ],
+    common_mistakes: [
+      'Running the first rep at mile pace',
+      'Doing this session fatigued',
+    ],
+    prerequisites: {
+      min_ctl: 40,
+      min_tsb: -15,
+      min_days_since_intensity: 2,
+    },
+    easier_alternative: 'run_threshold_4x8',
+    tags: ['running', 'vo2max', 'intervals', '5k'],
+  },
+]
+
 // ============================================
 // EXPORT ALL WORKOUTS
 // ============================================
@@ -1217,6 +1451,7 @@ export const workoutLibrary: WorkoutTemplate[] = [
   ...vo2maxWorkouts,
   ...anaerobicWorkouts,
   ...sprintWorkouts,
+  ...runningWorkouts,
 ]
 
 // ============================================
@@ -1227,6 +1462,14 @@ export function getWorkoutById(id: string): WorkoutTemplate | undefined {
   return workoutLibrary.find(w => w.id === id)
 }
 
+export function workoutSport(workout: WorkoutTemplate): WorkoutSport {
+  return workout.sport ?? 'cycling'
+}
+
+export function getWorkoutsBySport(sport: WorkoutSport): WorkoutTemplate[] {
+  return workoutLibrary.filter(w => workoutSport(w) === sport)
+}
+
 export function getWorkoutsByCategory(category: WorkoutCategory): WorkoutTemplate[] {
   return workoutLibrary.filter(w => w.category === category)
 }
@@ -2,12 +2,13 @@
 // Scores and selects workouts based on athlete context and learned patterns
 
 import {
-  workoutLibrary,
   WorkoutTemplate,
   WorkoutCategory,
+  WorkoutSport,
   TrainingPhase,
   getWorkoutsByCategory,
   getWorkoutsByPhase,
+  getWorkoutsBySport,
 } from './library'
 import type { AthletePatterns } from '@/lib/learning'
 
@@ -30,6 +31,8 @@ export interface AthleteContext {
 
 export interface PrescriptionRequest {
   athlete: AthleteContext
+  /** Default cycling; interval power targets only make sense for rides */
+  sport?: WorkoutSport
   requested_type?: WorkoutCategory | 'any'
   target_duration_minutes?: number
   target_tss?: number
@@ -374,11 +377,12 @@ function personalizeWorkout(
  * Get the best workout recommendations for an athlete
  */
 export function prescribeWorkout(request: PrescriptionRequest): ScoredWorkout[] {
-  let candidates = workoutLibrary
+  let candidates = getWorkoutsBySport(request.sport ?? 'cycling')
 
   // Filter by requested type if specified
   if (request.requested_type && request.requested_type !== 'any') {
-    candidates = getWorkoutsByCategory(request.requested_type)
+    const categoryWorkouts = getWorkoutsByCategory(request.requested_type)
+    candidates = candidates.filter(w => categoryWorkouts.includes(w))
   }
 
   // Filter by phase if specified
@@ -0,0 +1,164 @@
+import { closeSync, fstatSync, openSync, readSync } from 'fs'
+import { inflateRawSync } from 'zlib'
+
+/**
+ * Minimal ZIP archive reader.
+ *
+ * Reads the central directory and inflates entries one at a time, so a bulk
+ * export with hundreds of activities never has to be extracted all at once.
+ * Archives on disk are read with positioned reads: only the central
+ * directory and the entry being read are held in memory.
+ * Supports stored and deflated entries (what Strava and Garmin exports use);
+ * ZIP64 archives (> 4 GB or > 65535 entries) are rejected.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+export interface ZipEntry {
+  /** Path inside the archive, e.g. "activities/1234.fit.gz" */
+  name: string
+  size: number
+  compressedSize: number
+  /** Decompress the entry contents */
+  read: () => Buffer
+}
+
+/**
+ * Random access to the archive bytes, in memory or on disk
+ */
+interface ZipSource {
+  size: number
+  read: (offset: number, length: number) => Buffer
+}
+
+function bufferSource(buffer: Buffer): ZipSource {
+  return {
+    size: buffer.length,
+    read: (offset, length) => buffer.subarray(offset, offset + length),
+  }
+}
+
+function fileSource(fd: number): ZipSource {
+  return {
+    size: fstatSync(fd).size,
+    read: (offset, length) => {
+      const chunk = Buffer.alloc(length)
+      const bytesRead = readSync(fd, chunk, 0, length, offset)
+      return bytesRead < length ? chunk.subarray(0, bytesRead) : chunk
+    },
+  }
+}
+
+/**
+ * Check for the local file header signature ("PK\x03\x04")
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE
+}
+
+/**
+ * isZipArchive for a file on disk, reading only its first bytes
+ */
+export function isZipFile(path: string): boolean {
+  const fd = openSync(path, 'r')
+  try {
+    return isZipArchive(fileSource(fd).read(0, 4))
+  } finally {
+    closeSync(fd)
+  }
+}
+
+function findEndOfCentralDirectory(source: ZipSource): Buffer {
+  // EOCD is 22 bytes plus an optional comment of up to 65535 bytes
+  const tailStart = Math.max(0, source.size - 22 - 0xffff)
+  const tail = source.read(tailStart, source.size - tailStart)
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return tail.subarray(offset, offset + 22)
+    }
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)')
+}
+
+function readEntries(source: ZipSource): ZipEntry[] {
+  const record = findEndOfCentralDirectory(source)
+  const entryCount = record.readUInt16LE(10)
+  const directorySize = record.readUInt32LE(12)
+  const directoryOffset = record.readUInt32LE(16)
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const directory = source.read(directoryOffset, directorySize)
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive (bad central directory entry)')
+    }
+
+    const method = directory.readUInt16LE(offset + 10)
+    const compressedSize = directory.readUInt32LE(offset + 20)
+    const size = directory.readUInt32LE(offset + 24)
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const commentLength = directory.readUInt16LE(offset + 32)
+    const localHeaderOffset = directory.readUInt32LE(offset + 42)
+    const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      read: () => {
+        const localHeader = source.read(localHeaderOffset, 30)
+        if (localHeader.length < 30 || localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`Corrupt ZIP archive (bad local header for ${name})`)
+        }
+        // Local header name/extra lengths can differ from the central directory
+        const dataStart = localHeaderOffset + 30 +
+          localHeader.readUInt16LE(26) +
+          localHeader.readUInt16LE(28)
+        const data = source.read(dataStart, compressedSize)
+
+        if (method === METHOD_STORED) return Buffer.from(data)
+        if (method === METHOD_DEFLATE) return inflateRawSync(data)
+        throw new Error(`Unsupported compression method ${method} for ${name}`)
+      },
+    })
+  }
+
+  return entries
+}
+
+/**
+ * List file entries in a ZIP archive held in memory. Directories are skipped.
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  return readEntries(bufferSource(buffer))
+}
+
+/**
+ * Open a ZIP archive on disk. Entries read from the file on demand until
+ * close() is called.
+ */
+export function openZipFile(path: string): { entries: ZipEntry[]; close: () => void } {
+  const fd = openSync(path, 'r')
+  try {
+    return { entries: readEntries(fileSource(fd)), close: () => closeSync(fd) }
+  } catch (error) {
+    closeSync(fd)
+    throw error
+  }
+}
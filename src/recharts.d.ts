@@ -20,6 +20,8 @@ declare module 'recharts' {
   export const RadialBarChart: ComponentType<any>
   export const ReferenceArea: ComponentType<any>
   export const ReferenceLine: ComponentType<any>
+  export const Scatter: ComponentType<any>
+  export const ScatterChart: ComponentType<any>
   export const Tooltip: ComponentType<any>
   export const XAxis: ComponentType<any>
   export const YAxis: ComponentType<any>
@@ -5,7 +5,7 @@ export interface Athlete {
   id: string
   name: string
   email: string
-  /** Functional Threshold Power in watts. From intervals.icu sportSettings[0].ftp */
+  /** Functional Threshold Power in watts. From intervals.icu sportSettings[0].ftp or an accepted eFTP proposal */
   ftp?: number | null
   ftp_updated_at?: string | null
   /** Maximum heart rate. From intervals.icu sportSettings[0].max_hr */
@@ -16,6 +16,21 @@ export interface Athlete {
   resting_hr?: number | null
   /** Weight in kg. From intervals.icu icu_weight */
   weight_kg?: number | null
+  /** Threshold pace in seconds per km. From intervals.icu Run sportSettings.threshold_pace */
+  threshold_pace?: number | null
+  /** Running FTP in watts (running power meter). From intervals.icu Run sportSettings.ftp */
+  running_ftp?: number | null
+  /** Critical Power in watts. Saved from a fitted CP model */
+  critical_power?: number | null
+  /** W′ (anaerobic work capacity) in joules */
+  w_prime?: number | null
+  critical_power_updated_at?: string | null
+  /** CTL time constant in days (default 42) */
+  ctl_time_constant?: number | null
+  /** ATL time constant in days (default 7) */
+  atl_time_constant?: number | null
+  /** Where CTL/ATL/TSB come from. null = intervals.icu when connected, else local */
+  fitness_source?: 'intervals_icu' | 'local' | null
   weekly_hours_available?: number | null
   intervals_icu_id?: string | null
   intervals_icu_token?: string | null
@@ -41,13 +56,33 @@ export interface Session {
   avg_power?: number
   max_power?: number
   normalized_power?: number
-  intensity_factor?: number // NP / FTP
+  intensity_factor?: number // NP / FTP; runs: NGP / threshold pace or running power / running FTP
   tss?: number // Training Stress Score
+  /** How tss was scored. Undefined = entered by the athlete or not scored */
+  tss_method?: 'power' | 'pace' | 'hr' | 'trimp' | 'rpe' | 'external'
+  /** Session RPE (CR-10) */
+  rpe?: number
 
   // Heart rate
   avg_hr?: number
   max_hr?: number
 
+  // Aerobic metrics from the power and heart rate streams
+  efficiency_factor?: number // NP / average HR
+  decoupling?: number // Pw:HR drift from the first half to the second, in %
+  /** Best power after each work threshold; empty when the ride never reached one */
+  durability?: DurabilityPoint[]
+  /** Fastest time over each standard distance a run covered; empty when it covered none */
+  running_bests?: RunningBest[]
+
+  // Stream data quality
+  /** Issues found when the streams were cleaned; undefined = not checked yet */
+  data_quality?: DataQualityFlag[]
+  /** Athlete excluded the whole session from power bests */
+  exclude_from_bests?: boolean
+  /** Sample ranges the athlete excluded from power bests */
+  excluded_ranges?: ExcludedRange[]
+
   // Zone distributions (percentage of time)
   power_zones?: PowerZones
   hr_zones?: HRZones
@@ -63,6 +98,50 @@ export interface Session {
   raw_data?: Record<string, unknown>
 }
 
+/** Best efforts produced after a given amount of work within one session */
+export interface DurabilityPoint {
+  after_kj: number
+  best_5min: number | null
+  best_20min: number | null
+}
+
+/** Fastest time over a standard distance (1k, 5k, 10k, half marathon) within one run */
+export interface RunningBest {
+  distance_meters: number
+  seconds: number
+  /** Stream index where the effort starts */
+  start_index: number
+}
+
+export type DataQualityIssue =
+  | 'power_spike'
+  | 'hr_dropout'
+  | 'stuck_value'
+  | 'cadence_power_mismatch'
+  | 'zero_filled_pause'
+
+export type QualityStream = 'watts' | 'heartrate' | 'cadence'
+
+/** A stretch of bad samples found when a session's streams were cleaned */
+export interface DataQualityFlag {
+  issue: DataQualityIssue
+  /** Affected stream; null when every stream is affected (pauses) */
+  stream: QualityStream | null
+  /** First and last affected sample (seconds from start), inclusive */
+  start: number
+  end: number
+  /** interpolated = replaced in the stored stream; masked = kept but left out of power bests */
+  action: 'interpolated' | 'masked' | 'flagged'
+  /** Spike peak, stuck reading or mean power without cadence */
+  value: number | null
+}
+
+/** Sample range (seconds from start, inclusive) excluded from power bests */
+export interface ExcludedRange {
+  start: number
+  end: number
+}
+
 export interface PowerZones {
   z1: number // Recovery
   z2: number // Endurance
@@ -98,6 +177,18 @@ export interface FitnessHistory {
   ramp_rate?: number | null
 }
 
+/** One day of the per-sport PMC (fitness_history_by_sport) */
+export interface SportFitness {
+  athlete_id: string
+  date: string
+  sport: Session['sport']
+  ctl: number
+  atl: number
+  tsb: number
+  tss_day: number // TSS from this sport that day
+  ramp_rate: number | null
+}
+
 export interface Event {
   id: string
   athlete_id: string
@@ -147,13 +238,15 @@ export interface ChatMessage {
 }
 
 // Goals
-export type MetricGoalType = 'hr_at_power' | 'power_duration' | 'relative_power'
+export type MetricGoalType = 'hr_at_power' | 'power_duration' | 'relative_power' | 'durability'
 
 export interface MetricConditions {
   target_hr?: number
   target_power?: number
   duration_seconds?: number
   target_wkg?: number
+  /** Work done before the effort, for durability goals */
+  after_kj?: number
 }
 
 export interface Goal {
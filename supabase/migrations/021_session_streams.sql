@@ -0,0 +1,53 @@
+-- AI Training Analyst Database Schema
+-- Migration 021: Session Streams (local per-second data)
+
+-- Per-second stream data for each session, stored locally so analysis
+-- does not need to re-fetch from intervals.icu on every request.
+-- Each stream column holds a gzip-compressed, base64-encoded JSON array.
+CREATE TABLE public.session_streams (
+  session_id UUID PRIMARY KEY REFERENCES public.sessions(id) ON DELETE CASCADE,
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'intervals_icu', -- 'intervals_icu', 'fit_upload'
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  stream_types TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Compressed stream arrays
+  time TEXT,
+  watts TEXT,
+  heartrate TEXT,
+  cadence TEXT,
+  velocity_smooth TEXT,
+  altitude TEXT,
+  distance TEXT,
+  latlng TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for bulk analytics across an athlete's history
+CREATE INDEX idx_session_streams_athlete
+  ON public.session_streams(athlete_id);
+
+-- Enable RLS
+ALTER TABLE public.session_streams ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view own session streams"
+  ON public.session_streams FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+CREATE POLICY "Users can insert own session streams"
+  ON public.session_streams FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+CREATE POLICY "Users can update own session streams"
+  ON public.session_streams FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+CREATE POLICY "Users can delete own session streams"
+  ON public.session_streams FOR DELETE
+  USING (auth.uid() = athlete_id);
+
+COMMENT ON TABLE public.session_streams IS
+  'Compressed per-second streams (power, HR, cadence, speed, altitude, position) per session';
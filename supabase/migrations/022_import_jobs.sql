@@ -0,0 +1,50 @@
+-- AI Training Analyst Database Schema
+-- Migration 022: Import Jobs (bulk archive import progress)
+
+-- One row per bulk import (e.g. a Strava or Garmin export ZIP).
+-- Updated as files are processed so the UI can poll progress.
+CREATE TABLE public.import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'rebuilding', 'completed', 'failed'
+
+  -- Progress counters
+  total_files INTEGER NOT NULL DEFAULT 0,
+  processed_files INTEGER NOT NULL DEFAULT 0,
+  imported INTEGER NOT NULL DEFAULT 0,
+  duplicates INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+
+  -- Imported date range (for the fitness_history rebuild)
+  oldest_date DATE,
+  newest_date DATE,
+
+  errors TEXT[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_import_jobs_athlete_created
+  ON public.import_jobs(athlete_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view own import jobs"
+  ON public.import_jobs FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+CREATE POLICY "Users can insert own import jobs"
+  ON public.import_jobs FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+CREATE POLICY "Users can update own import jobs"
+  ON public.import_jobs FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+COMMENT ON TABLE public.import_jobs IS
+  'Progress and results of bulk activity archive imports';
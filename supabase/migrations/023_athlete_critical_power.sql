@@ -0,0 +1,8 @@
+-- AI Training Analyst Database Schema
+-- Migration 023: Athlete Critical Power
+
+-- CP and W' used for W' balance analysis. Saved from a fitted
+-- Critical Power model on the power page (or set manually).
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS critical_power INTEGER; -- W
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS w_prime INTEGER; -- J
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS critical_power_updated_at TIMESTAMPTZ;
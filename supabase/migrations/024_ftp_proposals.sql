@@ -0,0 +1,73 @@
+-- AI Training Analyst Database Schema
+-- Migration 024: FTP Change Proposals and FTP History
+
+-- Estimated FTP changes detected after sync/upload, waiting for the athlete
+-- to accept or reject them. Evidence holds every estimate (method, watts,
+-- session) behind the proposal.
+CREATE TABLE IF NOT EXISTS public.ftp_change_proposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  current_ftp INTEGER,
+  proposed_ftp INTEGER NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('twenty_minute', 'cp_model', 'ramp_test')),
+  effective_date DATE NOT NULL, -- Date of the ride the estimate is based on
+  evidence JSONB NOT NULL DEFAULT '{}',
+
+  -- Status tracking
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded')),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ftp_proposals_athlete
+  ON public.ftp_change_proposals(athlete_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ftp_proposals_pending
+  ON public.ftp_change_proposals(athlete_id, status)
+  WHERE status = 'pending';
+
+-- Every FTP change applied to the athlete, whatever its source
+CREATE TABLE IF NOT EXISTS public.ftp_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  ftp INTEGER NOT NULL,
+  previous_ftp INTEGER,
+  effective_date DATE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('intervals_icu', 'proposal', 'manual')),
+  proposal_id UUID REFERENCES public.ftp_change_proposals(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ftp_history_athlete
+  ON public.ftp_history(athlete_id, created_at DESC);
+
+-- RLS Policies
+ALTER TABLE public.ftp_change_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ftp_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Athletes can view their own FTP proposals" ON public.ftp_change_proposals;
+CREATE POLICY "Athletes can view their own FTP proposals"
+  ON public.ftp_change_proposals FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own FTP proposals" ON public.ftp_change_proposals;
+CREATE POLICY "Athletes can insert their own FTP proposals"
+  ON public.ftp_change_proposals FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can update their own FTP proposals" ON public.ftp_change_proposals;
+CREATE POLICY "Athletes can update their own FTP proposals"
+  ON public.ftp_change_proposals FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can view their own FTP history" ON public.ftp_history;
+CREATE POLICY "Athletes can view their own FTP history"
+  ON public.ftp_history FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own FTP history" ON public.ftp_history;
+CREATE POLICY "Athletes can insert their own FTP history"
+  ON public.ftp_history FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
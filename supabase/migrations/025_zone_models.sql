@@ -0,0 +1,51 @@
+-- AI Training Analyst Database Schema
+-- Migration 025: Per-athlete Zone Models
+
+-- Named power, HR and pace zones. Zones are stored by lower bound
+-- ([{ name, min, color? }]) as a percentage of the threshold, or in W / bpm
+-- for absolute models. At most one model per metric is active; athletes
+-- without an active model use the built-in defaults (Coggan 7-zone power,
+-- Friel 5-zone HR).
+CREATE TABLE IF NOT EXISTS public.zone_models (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  metric TEXT NOT NULL CHECK (metric IN ('power', 'hr', 'pace')),
+  name TEXT NOT NULL,
+  basis TEXT NOT NULL DEFAULT 'threshold' CHECK (basis IN ('threshold', 'absolute')),
+  -- W for power, bpm for HR, seconds per km for pace. NULL = athlete's FTP / LTHR
+  threshold NUMERIC,
+  zones JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_zone_models_athlete
+  ON public.zone_models(athlete_id, metric);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_zone_models_active
+  ON public.zone_models(athlete_id, metric)
+  WHERE is_active;
+
+-- RLS Policies
+ALTER TABLE public.zone_models ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Athletes can view their own zone models" ON public.zone_models;
+CREATE POLICY "Athletes can view their own zone models"
+  ON public.zone_models FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own zone models" ON public.zone_models;
+CREATE POLICY "Athletes can insert their own zone models"
+  ON public.zone_models FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can update their own zone models" ON public.zone_models;
+CREATE POLICY "Athletes can update their own zone models"
+  ON public.zone_models FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can delete their own zone models" ON public.zone_models;
+CREATE POLICY "Athletes can delete their own zone models"
+  ON public.zone_models FOR DELETE
+  USING (auth.uid() = athlete_id);
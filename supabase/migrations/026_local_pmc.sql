@@ -0,0 +1,14 @@
+-- AI Training Analyst Database Schema
+-- Migration 026: Local PMC Engine
+
+-- Time constants (days) of the CTL/ATL moving averages used by the
+-- local PMC engine and the fitness projections.
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS ctl_time_constant INTEGER DEFAULT 42;
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS atl_time_constant INTEGER DEFAULT 7;
+
+-- Where fitness_history CTL/ATL/TSB come from. NULL = automatic:
+-- intervals.icu wellness when connected, otherwise the local engine.
+-- Rows the local engine writes to fitness_history have source = 'local'.
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS fitness_source TEXT
+  CHECK (fitness_source IN ('intervals_icu', 'local'));
+
@@ -0,0 +1,15 @@
+-- AI Training Analyst Database Schema
+-- Migration 027: Session Stress Methods
+
+-- How a session's TSS was scored: power TSS, hrTSS from LTHR, TRIMP or
+-- session RPE. NULL = entered by the athlete or not scored.
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS tss_method TEXT
+  CHECK (tss_method IN ('power', 'hr', 'trimp', 'rpe'));
+
+-- Session RPE on the CR-10 scale, the last fallback for TSS
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS rpe SMALLINT
+  CHECK (rpe BETWEEN 1 AND 10);
+
+-- Sessions scored from power before this migration
+UPDATE public.sessions SET tss_method = 'power'
+  WHERE tss IS NOT NULL AND normalized_power IS NOT NULL AND tss_method IS NULL;
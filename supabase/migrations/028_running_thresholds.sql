@@ -0,0 +1,14 @@
+-- AI Training Analyst Database Schema
+-- Migration 028: Running Thresholds
+
+-- Threshold pace in seconds per km and running FTP (running power meters
+-- such as Stryd) for pace zones, rTSS and running intensity
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS threshold_pace INTEGER
+  CHECK (threshold_pace BETWEEN 120 AND 900);
+ALTER TABLE public.athletes ADD COLUMN IF NOT EXISTS running_ftp INTEGER
+  CHECK (running_ftp BETWEEN 50 AND 800);
+
+-- Runs scored with rTSS from grade-adjusted pace
+ALTER TABLE public.sessions DROP CONSTRAINT IF EXISTS sessions_tss_method_check;
+ALTER TABLE public.sessions ADD CONSTRAINT sessions_tss_method_check
+  CHECK (tss_method IN ('power', 'pace', 'hr', 'trimp', 'rpe'));
@@ -0,0 +1,46 @@
+-- AI Training Analyst Database Schema
+-- Migration 029: Per-sport PMC
+
+-- Daily TSS and CTL/ATL/TSB/ramp rate per sport, calculated by the local PMC
+-- engine from sessions.tss with the athlete's time constants. Kept for every
+-- athlete, including those whose overall fitness_history comes from
+-- intervals.icu, which has no per-sport split.
+CREATE TABLE IF NOT EXISTS public.fitness_history_by_sport (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  sport TEXT NOT NULL,
+  ctl DECIMAL(6,2) NOT NULL,
+  atl DECIMAL(6,2) NOT NULL,
+  tsb DECIMAL(6,2) NOT NULL,
+  tss_day INTEGER DEFAULT 0,
+  ramp_rate DECIMAL(5,2),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(athlete_id, date, sport)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fitness_history_by_sport_athlete_date
+  ON public.fitness_history_by_sport(athlete_id, date DESC);
+
+-- RLS Policies
+ALTER TABLE public.fitness_history_by_sport ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Athletes can view their own sport fitness" ON public.fitness_history_by_sport;
+CREATE POLICY "Athletes can view their own sport fitness"
+  ON public.fitness_history_by_sport FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own sport fitness" ON public.fitness_history_by_sport;
+CREATE POLICY "Athletes can insert their own sport fitness"
+  ON public.fitness_history_by_sport FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can update their own sport fitness" ON public.fitness_history_by_sport;
+CREATE POLICY "Athletes can update their own sport fitness"
+  ON public.fitness_history_by_sport FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can delete their own sport fitness" ON public.fitness_history_by_sport;
+CREATE POLICY "Athletes can delete their own sport fitness"
+  ON public.fitness_history_by_sport FOR DELETE
+  USING (auth.uid() = athlete_id);
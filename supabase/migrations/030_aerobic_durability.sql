@@ -0,0 +1,20 @@
+-- AI Training Analyst Database Schema
+-- Migration 030: Aerobic Decoupling and Durability
+
+-- Computed from the power and heart rate streams when a session's streams
+-- are stored. Efficiency factor = NP / average HR; decoupling = Pw:HR drift
+-- from the first half to the second, in percent.
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS efficiency_factor REAL;
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS decoupling REAL;
+
+-- Best 5 and 20 minute power after 1000/2000/3000 kJ of work, e.g.
+-- [{"after_kj": 1000, "best_5min": 310, "best_20min": 265}].
+-- An empty array means the session has power but never reached 1000 kJ;
+-- NULL means it has not been analyzed.
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS durability JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_aerobic_metrics
+  ON public.sessions(athlete_id, date)
+  WHERE efficiency_factor IS NOT NULL OR durability IS NOT NULL;
+
+COMMENT ON COLUMN public.goals.metric_type IS 'Type of metric goal: hr_at_power, power_duration, relative_power, durability';
@@ -0,0 +1,91 @@
+-- AI Training Analyst Database Schema
+-- Migration 031: Climbs
+
+-- Climbs an athlete has ridden or run, found in session altitude streams.
+-- Repeated ascents are matched to the same climb by the GPS position of
+-- their start and end.
+CREATE TABLE IF NOT EXISTS public.climbs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  sport TEXT NOT NULL,
+  name TEXT NOT NULL,
+  start_lat DOUBLE PRECISION NOT NULL,
+  start_lng DOUBLE PRECISION NOT NULL,
+  end_lat DOUBLE PRECISION NOT NULL,
+  end_lng DOUBLE PRECISION NOT NULL,
+  length_meters INTEGER NOT NULL,
+  elevation_gain INTEGER NOT NULL,
+  avg_gradient DECIMAL(4,1) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_climbs_athlete ON public.climbs(athlete_id, sport);
+
+-- One ascent of a climb within a session. Climbs without GPS have no
+-- climb_id and only appear on their session.
+CREATE TABLE IF NOT EXISTS public.climb_efforts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  climb_id UUID REFERENCES public.climbs(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  start_index INTEGER NOT NULL,
+  end_index INTEGER NOT NULL,
+  length_meters INTEGER NOT NULL,
+  elevation_gain INTEGER NOT NULL,
+  avg_gradient DECIMAL(4,1) NOT NULL,
+  max_gradient DECIMAL(4,1) NOT NULL,
+  duration_seconds INTEGER NOT NULL,
+  vam INTEGER NOT NULL,
+  avg_power INTEGER,
+  watts_per_kg DECIMAL(4,2),
+  avg_hr INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_climb_efforts_session ON public.climb_efforts(session_id);
+CREATE INDEX IF NOT EXISTS idx_climb_efforts_climb ON public.climb_efforts(climb_id, duration_seconds)
+  WHERE climb_id IS NOT NULL;
+
+-- Number of climbs found in the session; NULL = not analyzed yet
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS climb_count SMALLINT;
+
+-- RLS Policies
+ALTER TABLE public.climbs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.climb_efforts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Athletes can view their own climbs" ON public.climbs;
+CREATE POLICY "Athletes can view their own climbs"
+  ON public.climbs FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own climbs" ON public.climbs;
+CREATE POLICY "Athletes can insert their own climbs"
+  ON public.climbs FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can update their own climbs" ON public.climbs;
+CREATE POLICY "Athletes can update their own climbs"
+  ON public.climbs FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can delete their own climbs" ON public.climbs;
+CREATE POLICY "Athletes can delete their own climbs"
+  ON public.climbs FOR DELETE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can view their own climb efforts" ON public.climb_efforts;
+CREATE POLICY "Athletes can view their own climb efforts"
+  ON public.climb_efforts FOR SELECT
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can insert their own climb efforts" ON public.climb_efforts;
+CREATE POLICY "Athletes can insert their own climb efforts"
+  ON public.climb_efforts FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can delete their own climb efforts" ON public.climb_efforts;
+CREATE POLICY "Athletes can delete their own climb efforts"
+  ON public.climb_efforts FOR DELETE
+  USING (auth.uid() = athlete_id);
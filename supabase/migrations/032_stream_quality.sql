@@ -0,0 +1,18 @@
+-- AI Training Analyst Database Schema
+-- Migration 032: Stream Data Quality
+
+-- Issues found when a session's streams were cleaned (power spikes, heart
+-- rate dropouts, stuck sensors, power without cadence, zero-filled pauses),
+-- e.g. [{"issue": "power_spike", "stream": "watts", "start": 1805,
+-- "end": 1805, "action": "interpolated", "value": 2400}].
+-- An empty array means the streams are clean; NULL means not checked yet.
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS data_quality JSONB;
+
+-- Athlete overrides for power bests: leave out the whole session, or
+-- sample ranges of it, e.g. [{"start": 600, "end": 660}]
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS exclude_from_bests BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS excluded_ranges JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_unchecked_quality
+  ON public.sessions(athlete_id, date)
+  WHERE data_quality IS NULL;
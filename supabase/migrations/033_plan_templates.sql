@@ -0,0 +1,108 @@
+-- AI Training Analyst Database Schema
+-- Migration 033: Custom Plan Templates
+
+-- Plan templates defined by coaches alongside the built-in ones. The
+-- template column holds the PlanTemplate structure (weeks, phases, TSS
+-- ranges, key workouts); name, sport and goal are copied out for listing.
+CREATE TABLE IF NOT EXISTS public.plan_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sport TEXT NOT NULL DEFAULT 'cycling' CHECK (sport IN ('cycling', 'running')),
+  goal TEXT NOT NULL CHECK (goal IN ('base_build', 'ftp_build', 'event_prep', 'taper', 'maintenance')),
+  template JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_templates_athlete ON public.plan_templates(athlete_id);
+
+-- Email addresses a template is shared with (lowercase). The athlete with
+-- that email sees the template, including one who signs up later, so sharing
+-- never reveals whether an address is registered. owner_id mirrors the
+-- template's athlete_id so the policies below don't have to read plan_templates.
+CREATE TABLE IF NOT EXISTS public.plan_template_shares (
+  template_id UUID NOT NULL REFERENCES public.plan_templates(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES public.athletes(id) ON DELETE CASCADE,
+  athlete_email TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (template_id, athlete_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_template_shares_email ON public.plan_template_shares(athlete_email);
+
+-- The calling athlete's email, lowercase, to match shares against
+CREATE OR REPLACE FUNCTION current_athlete_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT lower(email) FROM public.athletes WHERE id = auth.uid();
+$$;
+
+-- RLS Policies
+ALTER TABLE public.plan_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.plan_template_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Athletes can view their own and shared plan templates" ON public.plan_templates;
+CREATE POLICY "Athletes can view their own and shared plan templates"
+  ON public.plan_templates FOR SELECT
+  USING (
+    auth.uid() = athlete_id
+    OR EXISTS (
+      SELECT 1 FROM public.plan_template_shares s
+      WHERE s.template_id = plan_templates.id AND s.athlete_email = current_athlete_email()
+    )
+  );
+
+DROP POLICY IF EXISTS "Athletes can insert their own plan templates" ON public.plan_templates;
+CREATE POLICY "Athletes can insert their own plan templates"
+  ON public.plan_templates FOR INSERT
+  WITH CHECK (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can update their own plan templates" ON public.plan_templates;
+CREATE POLICY "Athletes can update their own plan templates"
+  ON public.plan_templates FOR UPDATE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Athletes can delete their own plan templates" ON public.plan_templates;
+CREATE POLICY "Athletes can delete their own plan templates"
+  ON public.plan_templates FOR DELETE
+  USING (auth.uid() = athlete_id);
+
+DROP POLICY IF EXISTS "Owners and recipients can view plan template shares" ON public.plan_template_shares;
+CREATE POLICY "Owners and recipients can view plan template shares"
+  ON public.plan_template_shares FOR SELECT
+  USING (auth.uid() = owner_id OR athlete_email = current_athlete_email());
+
+-- Shares are created through share_plan_template()
+DROP POLICY IF EXISTS "Owners and recipients can delete plan template shares" ON public.plan_template_shares;
+CREATE POLICY "Owners and recipients can delete plan template shares"
+  ON public.plan_template_shares FOR DELETE
+  USING (auth.uid() = owner_id OR athlete_email = current_athlete_email());
+
+-- Share a template with an email address after checking the caller owns
+-- it. The result is the same whether or not an athlete has that email.
+CREATE OR REPLACE FUNCTION share_plan_template(
+  p_template_id UUID,
+  p_email TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.plan_templates
+    WHERE id = p_template_id AND athlete_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Plan template not found';
+  END IF;
+
+  INSERT INTO public.plan_template_shares (template_id, owner_id, athlete_email)
+  VALUES (p_template_id, auth.uid(), lower(trim(p_email)))
+  ON CONFLICT (template_id, athlete_email) DO NOTHING;
+END;
+$$;
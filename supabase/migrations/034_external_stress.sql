@@ -0,0 +1,15 @@
+-- AI Training Analyst Database Schema
+-- Migration 034: External Training Load
+
+-- Sessions no local method can score (no power threshold, heart rate
+-- thresholds or RPE) keep the training load intervals.icu computed
+ALTER TABLE public.sessions DROP CONSTRAINT IF EXISTS sessions_tss_method_check;
+ALTER TABLE public.sessions ADD CONSTRAINT sessions_tss_method_check
+  CHECK (tss_method IN ('power', 'pace', 'hr', 'trimp', 'rpe', 'external'));
+
+-- Restore the load of intervals.icu sessions left unscored
+UPDATE public.sessions
+  SET tss = ROUND((raw_data->>'icu_training_load')::numeric), tss_method = 'external'
+  WHERE tss IS NULL
+    AND source = 'intervals_icu'
+    AND (raw_data->>'icu_training_load')::numeric > 0;
@@ -0,0 +1,12 @@
+-- AI Training Analyst Database Schema
+-- Migration 035: Running Best Efforts
+
+-- Fastest time over each standard distance within a run, from its distance
+-- stream, e.g. [{"distance_meters": 5000, "seconds": 1265, "start_index": 340}].
+-- An empty array means the run covered none of the distances (or has no
+-- distance stream); NULL means it has not been analyzed.
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS running_bests JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_running_bests
+  ON public.sessions(athlete_id, date)
+  WHERE sport = 'running' AND running_bests IS NOT NULL;
@@ -0,0 +1,137 @@
+/**
+ * Banister Model Tests
+ *
+ * Recovering a known impulse-response model from synthetic markers,
+ * prediction, taper optimisation and relative performance markers.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  advanceBanisterState,
+  banisterPerformance,
+  banisterStateAt,
+  bestPowerAt,
+  findBestTaper,
+  fitBanisterModel,
+  predictPerformance,
+  relativePerformance,
+  type BanisterModel,
+  type BanisterState,
+  type PerformanceMarker,
+} from '@/lib/analysis/banister'
+
+const TRUE_MODEL: BanisterModel = {
+  p0: 80,
+  k1: 0.01,
+  k2: 0.02,
+  tau1: 40,
+  tau2: 10,
+  rmse: 0,
+  r2: 1,
+  markerCount: 0,
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+// 300 days of blocks: 3 weeks building, 1 week easy, with a rest day each week
+function syntheticLoad(startDate: string, days: number): Map<string, number> {
+  const daily = new Map<string, number>()
+  for (let i = 0; i < days; i++) {
+    const week = Math.floor(i / 7) % 4
+    const base = week === 3 ? 30 : 60 + week * 15
+    daily.set(addDays(startDate, i), i % 7 === 0 ? 0 : base)
+  }
+  return daily
+}
+
+function syntheticMarkers(daily: Map<string, number>, startDate: string, model: BanisterModel): PerformanceMarker[] {
+  const markers: PerformanceMarker[] = []
+  let state: BanisterState = { fitness: 0, fatigue: 0 }
+  let date = startDate
+  for (let i = 0; i < daily.size; i++) {
+    if (i > 0 && i % 10 === 0) {
+      markers.push({
+        date,
+        performance: banisterPerformance(model, state),
+        source: 'best_20min',
+        watts: 250,
+        durationSeconds: 1200,
+      })
+    }
+    state = advanceBanisterState(state, daily.get(date) || 0, model.tau1, model.tau2)
+    date = addDays(date, 1)
+  }
+  return markers
+}
+
+describe('fitBanisterModel', () => {
+  it('recovers the gains and time constants of a known model', () => {
+    const daily = syntheticLoad('2025-01-01', 300)
+    const markers = syntheticMarkers(daily, '2025-01-01', TRUE_MODEL)
+    const fit = fitBanisterModel(daily, markers)!
+
+    expect(fit).not.toBeNull()
+    expect(fit.tau1).toBe(40)
+    expect(fit.tau2).toBe(10)
+    expect(fit.k1).toBeCloseTo(0.01, 3)
+    expect(fit.k2).toBeCloseTo(0.02, 3)
+    expect(fit.p0).toBeCloseTo(80, 1)
+    expect(fit.r2).toBeGreaterThan(0.95)
+    expect(fit.markerCount).toBe(markers.length)
+  })
+
+  it('returns null with too few markers', () => {
+    const daily = syntheticLoad('2025-01-01', 100)
+    const markers = syntheticMarkers(daily, '2025-01-01', TRUE_MODEL).slice(0, 4)
+    expect(fitBanisterModel(daily, markers)).toBeNull()
+  })
+})
+
+describe('predictPerformance', () => {
+  it('continues from the impulses at the start date', () => {
+    const daily = syntheticLoad('2025-01-01', 60)
+    const state = banisterStateAt(TRUE_MODEL, daily, '2025-02-01')
+    const points = predictPerformance(TRUE_MODEL, state, daily, '2025-02-01', '2025-02-10')
+
+    expect(points).toHaveLength(10)
+    expect(points[0].performance).toBeCloseTo(banisterPerformance(TRUE_MODEL, state), 1)
+  })
+})
+
+describe('findBestTaper', () => {
+  it('finds a taper that improves event-day performance', () => {
+    const taper = findBestTaper(TRUE_MODEL, 80)!
+
+    expect(taper.days).toBeGreaterThan(0)
+    expect(taper.days).toBeLessThan(21)
+    expect(taper.gain).toBeGreaterThan(0)
+    expect(taper.curve[taper.days].performance).toBe(taper.performance)
+  })
+
+  it('returns null without training load', () => {
+    expect(findBestTaper(TRUE_MODEL, 0)).toBeNull()
+  })
+})
+
+describe('relativePerformance', () => {
+  const curve = [
+    { duration: 60, watts: 500 },
+    { duration: 300, watts: 360 },
+    { duration: 1200, watts: 300 },
+  ]
+
+  it('interpolates best power on log duration', () => {
+    expect(bestPowerAt(curve, 300)).toBe(360)
+    expect(bestPowerAt(curve, 600)).toBeCloseTo(330, 0)
+    expect(bestPowerAt(curve, 3600)).toBe(300)
+  })
+
+  it('expresses an effort as % of best', () => {
+    expect(relativePerformance(342, 300, curve)).toBe(95)
+    expect(relativePerformance(300, 300, [])).toBeNull()
+  })
+})
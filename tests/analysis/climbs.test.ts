@@ -0,0 +1,105 @@
+/**
+ * Climbing Analysis Tests
+ *
+ * Climb detection from distance and altitude, VAM and W/kg, gradient bins and
+ * GPS matching of repeated ascents.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateGradientBins,
+  calculateVam,
+  detectClimbs,
+  haversineMeters,
+  isSameClimb,
+} from '@/lib/analysis/climbs'
+
+// Rides `sections` in order at a constant speed, one sample per second
+function ride(sections: { meters: number; grade: number; speed: number; watts?: number }[]) {
+  const distance: number[] = [0]
+  const altitude: number[] = [100]
+  const watts: number[] = [0]
+  for (const { meters, grade, speed, watts: power = 200 } of sections) {
+    for (let covered = 0; covered < meters; covered += speed) {
+      distance.push(distance[distance.length - 1] + speed)
+      altitude.push(altitude[altitude.length - 1] + speed * grade)
+      watts.push(power)
+    }
+  }
+  return { distance, altitude, watts }
+}
+
+describe('detectClimbs', () => {
+  it('finds a climb between flat sections with its gradient, VAM and W/kg', () => {
+    const streams = ride([
+      { meters: 2000, grade: 0, speed: 10 },
+      { meters: 2000, grade: 0.06, speed: 4, watts: 300 },
+      { meters: 2000, grade: 0, speed: 10 },
+    ])
+    const climbs = detectClimbs(streams, 75)
+
+    expect(climbs).toHaveLength(1)
+    const [climb] = climbs
+    expect(climb.lengthMeters).toBeCloseTo(2000, -2)
+    expect(climb.elevationGain).toBeCloseTo(120, -1)
+    expect(climb.avgGradient).toBeCloseTo(6, 0)
+    // 4 m/s at 6% = 0.24 m/s vertical = 864 m/h
+    expect(climb.vam).toBeCloseTo(864, -2)
+    expect(climb.avgPower).toBeCloseTo(300, -1)
+    expect(climb.wattsPerKg).toBeCloseTo(4, 1)
+  })
+
+  it('bridges a short false flat but splits climbs separated by a descent', () => {
+    const bridged = detectClimbs(ride([
+      { meters: 1000, grade: 0.05, speed: 5 },
+      { meters: 150, grade: 0, speed: 8 },
+      { meters: 1000, grade: 0.05, speed: 5 },
+    ]))
+    expect(bridged).toHaveLength(1)
+
+    const split = detectClimbs(ride([
+      { meters: 1000, grade: 0.05, speed: 5 },
+      { meters: 500, grade: -0.05, speed: 12 },
+      { meters: 1000, grade: 0.05, speed: 5 },
+    ]))
+    expect(split).toHaveLength(2)
+  })
+
+  it('ignores rollers too short or shallow to be climbs', () => {
+    expect(detectClimbs(ride([{ meters: 300, grade: 0.08, speed: 4 }]))).toEqual([])
+    expect(detectClimbs(ride([{ meters: 3000, grade: 0.015, speed: 8 }]))).toEqual([])
+    expect(detectClimbs({ distance: [0, 100] })).toEqual([])
+  })
+})
+
+describe('calculateGradientBins', () => {
+  it('puts distance and time into gradient bins', () => {
+    const bins = calculateGradientBins(ride([
+      { meters: 1000, grade: 0, speed: 10 },
+      { meters: 1000, grade: 0.065, speed: 4 },
+    ]))
+    const flat = bins.find(b => b.min === -2)!
+    const steep = bins.find(b => b.min === 5)!
+    expect(flat.meters).toBeCloseTo(1000, -2)
+    expect(steep.meters).toBeCloseTo(1000, -2)
+    expect(steep.seconds).toBeGreaterThan(flat.seconds * 2)
+  })
+})
+
+describe('climb matching', () => {
+  const climb = { start: [46.0, 7.0] as [number, number], end: [46.01, 7.01] as [number, number], lengthMeters: 1800 }
+
+  it('matches ascents that start and end at the same place', () => {
+    expect(haversineMeters([46.0, 7.0], [46.001, 7.0])).toBeCloseTo(111, 0)
+    expect(isSameClimb(climb, { ...climb, start: [46.0005, 7.0], lengthMeters: 1750 })).toBe(true)
+  })
+
+  it('rejects a different end point or length', () => {
+    expect(isSameClimb(climb, { ...climb, end: [46.02, 7.01] })).toBe(false)
+    expect(isSameClimb(climb, { ...climb, lengthMeters: 1200 })).toBe(false)
+  })
+
+  it('computes VAM in meters per hour', () => {
+    expect(calculateVam(500, 1800)).toBe(1000)
+  })
+})
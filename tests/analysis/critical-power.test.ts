@@ -0,0 +1,125 @@
+/**
+ * Critical Power Model Tests
+ *
+ * Fits each model to synthetic mean-maximal power generated from known
+ * parameters and checks that CP, W' and Pmax are recovered.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  fitTwoParameterModel,
+  fitThreeParameterModel,
+  fitOmniDomainModel,
+  fitCriticalPowerModels,
+  predictPower,
+  type MeanMaxPoint,
+} from '@/lib/analysis/critical-power'
+import { calculateMeanMaxCurve, mergeMeanMaxCurves } from '@/lib/analysis/mean-max-power'
+
+const DURATIONS = [1, 5, 10, 30, 60, 120, 180, 300, 600, 900, 1200, 1800, 3600, 5400]
+
+function curve(durations: number[], power: (t: number) => number): MeanMaxPoint[] {
+  return durations.map(duration => ({ duration, watts: power(duration) }))
+}
+
+describe('2-parameter model', () => {
+  it('recovers CP and W\' from a hyperbolic curve', () => {
+    const fit = fitTwoParameterModel(curve(DURATIONS, t => 280 + 20000 / t))
+
+    expect(fit).not.toBeNull()
+    expect(fit!.cp).toBe(280)
+    expect(fit!.wPrime).toBe(20000)
+    expect(fit!.pMax).toBeNull()
+    expect(fit!.rmse).toBe(0)
+    // Only the 2-20 minute efforts are used
+    expect(fit!.durationRange).toEqual([120, 1200])
+    expect(fit!.pointsUsed).toBe(6)
+  })
+
+  it('needs at least three efforts between 2 and 20 minutes', () => {
+    expect(fitTwoParameterModel(curve([5, 60, 300, 1200], t => 280 + 20000 / t))).toBeNull()
+  })
+})
+
+describe('3-parameter model', () => {
+  it('recovers CP, W\' and Pmax', () => {
+    // Pmax = CP + W'/offset = 300 + 18000/20 = 1200W
+    const fit = fitThreeParameterModel(curve(DURATIONS, t => 300 + 18000 / (t + 20)))
+
+    expect(fit).not.toBeNull()
+    expect(fit!.cp).toBeCloseTo(300, -1)
+    expect(fit!.wPrime).toBeGreaterThan(17000)
+    expect(fit!.wPrime).toBeLessThan(19000)
+    expect(fit!.pMax).toBeGreaterThan(1100)
+    expect(fit!.pMax).toBeLessThan(1300)
+    expect(fit!.errorPercent).toBeLessThan(1)
+  })
+})
+
+describe('omni-domain model', () => {
+  const ompd = (t: number) => {
+    const cp = 270
+    const wPrime = 22000
+    const pMax = 1100
+    const p = (wPrime / t) * (1 - Math.exp((-t * (pMax - cp)) / wPrime)) + cp
+    return t > 1800 ? p - 25 * Math.log(t / 1800) : p
+  }
+
+  it('fits sprint to endurance durations with a long-duration decay', () => {
+    const fit = fitOmniDomainModel(curve(DURATIONS, ompd))
+
+    expect(fit).not.toBeNull()
+    expect(Math.abs(fit!.cp - 270)).toBeLessThan(10)
+    expect(Math.abs(fit!.pMax! - 1100)).toBeLessThan(60)
+    expect(fit!.decay).toBeGreaterThan(15)
+    expect(fit!.errorPercent).toBeLessThan(2)
+    // Modeled FTP is the predicted 60-minute power
+    expect(Math.abs(fit!.modeledFtp - ompd(3600))).toBeLessThan(8)
+    expect(predictPower(fit!, 3600)).toBeCloseTo(fit!.modeledFtp, -1)
+  })
+
+  it('requires both a sprint and a threshold-length effort', () => {
+    expect(fitOmniDomainModel(curve([60, 120, 300, 600, 1200], ompd))).toBeNull()
+    expect(fitOmniDomainModel(curve([1, 5, 10, 30, 60, 120], ompd))).toBeNull()
+  })
+})
+
+describe('fitCriticalPowerModels', () => {
+  it('prefers the most complete model that fits', () => {
+    const result = fitCriticalPowerModels(curve(DURATIONS, t => 300 + 18000 / (t + 20)))
+    expect(result.models.map(m => m.model)).toEqual(['two_parameter', 'three_parameter', 'omni_domain'])
+    expect(result.recommended?.model).toBe('omni_domain')
+  })
+
+  it('returns no recommendation without enough data', () => {
+    const result = fitCriticalPowerModels([{ duration: 300, watts: 350 }])
+    expect(result.models).toEqual([])
+    expect(result.recommended).toBeNull()
+    expect(result.pointsAvailable).toBe(1)
+  })
+})
+
+describe('mean-maximal power curve', () => {
+  it('takes the best rolling average per duration', () => {
+    const watts = [...Array(60).fill(200), ...Array(10).fill(500), ...Array(60).fill(200)]
+    const mmp = calculateMeanMaxCurve(watts)
+
+    expect(mmp.find(p => p.duration === 1)?.watts).toBe(500)
+    expect(mmp.find(p => p.duration === 10)?.watts).toBe(500)
+    expect(mmp.find(p => p.duration === 20)?.watts).toBe(350)
+    // Durations longer than the ride are skipped
+    expect(mmp.find(p => p.duration === 300)).toBeUndefined()
+  })
+
+  it('merges session curves into an envelope', () => {
+    const merged = mergeMeanMaxCurves([
+      [{ duration: 5, watts: 900 }, { duration: 300, watts: 300 }],
+      [{ duration: 5, watts: 800 }, { duration: 300, watts: 320 }, { duration: 1200, watts: 280 }],
+    ])
+    expect(merged).toEqual([
+      { duration: 5, watts: 900 },
+      { duration: 300, watts: 320 },
+      { duration: 1200, watts: 280 },
+    ])
+  })
+})
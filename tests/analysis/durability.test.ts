@@ -0,0 +1,73 @@
+/**
+ * Aerobic Decoupling and Durability Tests
+ *
+ * Efficiency factor, Pw:HR drift between the halves of a session and best
+ * power after 1000/2000/3000 kJ of work.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateAerobicMetrics,
+  calculateDecoupling,
+  calculateDurability,
+  calculateEfficiencyFactor,
+  durabilityPower,
+} from '@/lib/analysis/durability'
+
+const HOUR = 3600
+
+describe('calculateEfficiencyFactor', () => {
+  it('divides normalized power by average heart rate, skipping dropouts', () => {
+    const watts = Array(HOUR).fill(200)
+    const heartrate = [...Array(HOUR - 60).fill(140), ...Array(60).fill(0)]
+    expect(calculateEfficiencyFactor(watts, heartrate)).toBe(1.43)
+  })
+})
+
+describe('calculateDecoupling', () => {
+  it('is zero when heart rate holds steady at constant power', () => {
+    expect(calculateDecoupling(Array(HOUR).fill(200), Array(HOUR).fill(140))).toBe(0)
+  })
+
+  it('is positive when heart rate drifts up in the second half', () => {
+    const heartrate = [...Array(HOUR / 2).fill(140), ...Array(HOUR / 2).fill(147)]
+    expect(calculateDecoupling(Array(HOUR).fill(200), heartrate)).toBeCloseTo(4.8, 1)
+  })
+
+  it('needs at least 20 minutes of heart rate', () => {
+    expect(calculateDecoupling(Array(600).fill(200), Array(600).fill(140))).toBeNull()
+  })
+})
+
+describe('calculateDurability', () => {
+  it('finds the best efforts after each work threshold reached', () => {
+    // 200 W for 5000 s (1000 kJ), 20 min at 300 W, then 200 W for 10000 s
+    const watts = [...Array(5000).fill(200), ...Array(1200).fill(300), ...Array(10000).fill(200)]
+    const points = calculateDurability(watts)
+
+    expect(points.map(p => p.after_kj)).toEqual([1000, 2000, 3000])
+    expect(points[0]).toEqual({ after_kj: 1000, best_5min: 300, best_20min: 300 })
+    // The hard block is done by 2000 kJ
+    expect(points[1].best_20min).toBe(200)
+    expect(durabilityPower(points, 1000, 1200)).toBe(300)
+    expect(durabilityPower(points, 3000, 300)).toBe(200)
+  })
+
+  it('leaves out thresholds with under five minutes of riding after them', () => {
+    const points = calculateDurability(Array(5100).fill(200))
+    expect(points).toEqual([])
+  })
+})
+
+describe('calculateAerobicMetrics', () => {
+  it('has no metrics without power and no decoupling without heart rate', () => {
+    expect(calculateAerobicMetrics({ heartrate: Array(HOUR).fill(140) })).toEqual({
+      efficiencyFactor: null,
+      decoupling: null,
+      durability: null,
+    })
+    const powerOnly = calculateAerobicMetrics({ watts: Array(HOUR).fill(200) })
+    expect(powerOnly.decoupling).toBeNull()
+    expect(powerOnly.durability).toEqual([])
+  })
+})
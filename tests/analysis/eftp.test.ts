@@ -0,0 +1,88 @@
+/**
+ * eFTP Tests
+ *
+ * Ramp test detection on synthetic power streams and the choice of
+ * estimate / proposal threshold.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectRampTest,
+  assessFtpChange,
+  estimateFromTwentyMinute,
+  ftpChangeThreshold,
+  type FtpEstimate,
+} from '@/lib/analysis/eftp'
+
+// Warm-up, then +20W every minute from 100W until failure, then cool-down
+function rampStream(steps: number, { coolDown = 300 } = {}): number[] {
+  const watts: number[] = [...Array(300).fill(120)]
+  for (let step = 0; step < steps; step++) {
+    watts.push(...Array(60).fill(100 + step * 20))
+  }
+  watts.push(...Array(coolDown).fill(80))
+  return watts
+}
+
+function estimate(method: FtpEstimate['method'], ftp: number, date = '2026-10-01'): FtpEstimate {
+  return { method, ftp, basisWatts: ftp, sessionId: null, date }
+}
+
+describe('detectRampTest', () => {
+  it('detects a ramp to failure and estimates 75% of peak minute power', () => {
+    const ramp = detectRampTest(rampStream(15))
+
+    expect(ramp).not.toBeNull()
+    // Last step is 100 + 14 * 20 = 380W
+    expect(ramp!.peakMinutePower).toBe(380)
+    expect(ramp!.estimatedFtp).toBe(285)
+    expect(ramp!.steps).toBeGreaterThanOrEqual(14)
+  })
+
+  it('needs fewer steps when the ride is named as a ramp test', () => {
+    const watts = rampStream(6)
+    expect(detectRampTest(watts)).toBeNull()
+    expect(detectRampTest(watts, 'Zwift - Ramp Test')).not.toBeNull()
+  })
+
+  it('ignores steady rides and ramps without a failure', () => {
+    expect(detectRampTest(Array(3600).fill(220), 'Ramp Test')).toBeNull()
+
+    // Power keeps going at the top step: a progressive warm-up, not a test
+    const watts = [...rampStream(10, { coolDown: 0 }), ...Array(600).fill(280)]
+    expect(detectRampTest(watts)).toBeNull()
+  })
+})
+
+describe('assessFtpChange', () => {
+  it('uses the highest estimate when there is no ramp test', () => {
+    const result = assessFtpChange(250, [
+      estimate('twenty_minute', estimateFromTwentyMinute(290)),
+      estimate('cp_model', 268),
+    ])
+
+    expect(result!.method).toBe('twenty_minute')
+    expect(result!.estimatedFtp).toBe(276)
+    expect(result!.change).toBe(26)
+    expect(result!.changePercent).toBe(10.4)
+    expect(result!.shouldPropose).toBe(true)
+  })
+
+  it('prefers the most recent ramp test', () => {
+    const result = assessFtpChange(250, [
+      estimate('cp_model', 290),
+      estimate('ramp_test', 262, '2026-09-01'),
+      estimate('ramp_test', 270, '2026-10-10'),
+    ])
+    expect(result!.method).toBe('ramp_test')
+    expect(result!.estimatedFtp).toBe(270)
+  })
+
+  it('only proposes changes beyond 3% (at least 5W)', () => {
+    expect(ftpChangeThreshold(300)).toBe(9)
+    expect(ftpChangeThreshold(120)).toBe(5)
+    expect(assessFtpChange(300, [estimate('cp_model', 292)])!.shouldPropose).toBe(false)
+    expect(assessFtpChange(300, [estimate('cp_model', 291)])!.shouldPropose).toBe(true)
+    expect(assessFtpChange(300, [])).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Interval Detection Tests
+ *
+ * Segments synthetic "3x15 sweet spot" power streams (with noise) and
+ * compares the detected bouts against the prescribed intervals.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectIntervals,
+  compareWithPrescribed,
+  intervalsToAnnotations,
+  lapBoundarySeconds,
+} from '@/lib/analysis/interval-detection'
+import type { WorkoutInterval } from '@/lib/workouts/library'
+
+const FTP = 280
+
+// Deterministic noise so the tests are stable
+function noise(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return (state / 2147483648 - 0.5) * 40
+  }
+}
+
+function block(seconds: number, watts: number, rand: () => number): number[] {
+  return Array.from({ length: seconds }, () => Math.round(watts + rand()))
+}
+
+// 10' warm-up, 3 x 15' @ 255W (91% FTP) with 5' recoveries, 10' cool-down
+function sweetSpotSession(repWatts = [255, 255, 255]): number[] {
+  const rand = noise(42)
+  return [
+    ...block(600, 150, rand),
+    ...block(900, repWatts[0], rand),
+    ...block(300, 130, rand),
+    ...block(900, repWatts[1], rand),
+    ...block(300, 130, rand),
+    ...block(900, repWatts[2], rand),
+    ...block(600, 120, rand),
+  ]
+}
+
+const SWEET_SPOT: WorkoutInterval[] = [
+  { sets: 3, duration_seconds: 900, rest_seconds: 300, intensity_min: 88, intensity_max: 94 },
+]
+
+describe('detectIntervals', () => {
+  it('finds three 15-minute work bouts with recoveries between them', () => {
+    const watts = sweetSpotSession()
+    const heartrate = watts.map((_, i) => 130 + Math.floor(i / 300))
+    const intervals = detectIntervals({ watts, heartrate, cadence: watts.map(() => 90) }, { ftp: FTP })
+
+    const work = intervals.filter(i => i.kind === 'work')
+    expect(work).toHaveLength(3)
+    expect(intervals.map(i => i.kind)).toEqual(['recovery', 'work', 'recovery', 'work', 'recovery', 'work', 'recovery'])
+
+    for (const bout of work) {
+      expect(Math.abs(bout.durationSeconds - 900)).toBeLessThanOrEqual(5)
+      expect(Math.abs(bout.avgPower - 255)).toBeLessThanOrEqual(3)
+      expect(bout.percentFtp).toBe(91)
+      expect(bout.avgCadence).toBe(90)
+      // HR climbs steadily through each bout
+      expect(bout.hrDrift).toBeGreaterThan(0)
+    }
+    expect(Math.abs(work[0].startSecond - 600)).toBeLessThanOrEqual(5)
+  })
+
+  it('finds no work bouts in a steady endurance ride', () => {
+    const rand = noise(7)
+    const intervals = detectIntervals({ watts: block(3600, 190, rand) }, { ftp: FTP })
+    expect(intervals.filter(i => i.kind === 'work')).toHaveLength(0)
+  })
+
+  it('snaps change points to nearby laps', () => {
+    const watts = sweetSpotSession()
+    const intervals = detectIntervals({ watts }, { ftp: FTP, lapStarts: [610, 1500, 1800, 2700, 3000, 3900] })
+    const work = intervals.filter(i => i.kind === 'work')
+
+    expect(work[0].startSecond).toBe(610)
+    expect(work[0].endSecond).toBe(1500)
+    expect(work[1].source).toBe('lap')
+  })
+
+  it('leaves auto-laps out of the lap boundaries', () => {
+    const start = '2026-10-01T08:00:00Z'
+    expect(lapBoundarySeconds([
+      { start_time: start, duration_seconds: 600, elapsed_seconds: 600, trigger: 'manual' },
+      { start_time: '2026-10-01T08:10:00Z', duration_seconds: 900, elapsed_seconds: 900, trigger: 'manual' },
+      { start_time: '2026-10-01T08:25:00Z', duration_seconds: 300, elapsed_seconds: 300, trigger: 'distance' },
+    ], start)).toEqual([600])
+  })
+})
+
+describe('compareWithPrescribed', () => {
+  it('confirms a session executed as prescribed', () => {
+    const result = compareWithPrescribed(detectIntervals({ watts: sweetSpotSession() }, { ftp: FTP }), SWEET_SPOT)
+
+    expect(result!.prescribedReps).toBe(3)
+    expect(result!.completedReps).toBe(3)
+    expect(result!.executedAsPrescribed).toBe(true)
+    expect(result!.summary).toContain('3 x 15:00 @ 88-94% FTP')
+  })
+
+  it('flags a rep ridden below the prescribed intensity', () => {
+    const intervals = detectIntervals({ watts: sweetSpotSession([255, 255, 225]) }, { ftp: FTP })
+    const result = compareWithPrescribed(intervals, SWEET_SPOT)
+
+    expect(result!.executedAsPrescribed).toBe(false)
+    expect(result!.reps.map(r => r.status)).toEqual(['completed', 'completed', 'under'])
+
+    const annotations = intervalsToAnnotations(intervals, result)
+    expect(annotations).toHaveLength(3)
+    expect(annotations[2].color).not.toBe(annotations[0].color)
+  })
+
+  it('marks reps that were not ridden as missed', () => {
+    const rand = noise(3)
+    const watts = [...block(600, 150, rand), ...block(900, 255, rand), ...block(1200, 130, rand)]
+    const result = compareWithPrescribed(detectIntervals({ watts }, { ftp: FTP }), SWEET_SPOT)
+
+    expect(result!.completedReps).toBe(1)
+    expect(result!.reps.slice(1).every(r => r.status === 'missed')).toBe(true)
+  })
+
+  it('checks reps against a cadence target', () => {
+    const cadence = [
+      ...Array(600).fill(90), ...Array(900).fill(60), ...Array(300).fill(90),
+      ...Array(900).fill(60), ...Array(300).fill(90), ...Array(900).fill(85), ...Array(600).fill(90),
+    ]
+    const prescribed = [{ ...SWEET_SPOT[0], cadence_target: 60 }]
+    const result = compareWithPrescribed(detectIntervals({ watts: sweetSpotSession(), cadence }, { ftp: FTP }), prescribed)
+
+    expect(result!.reps.map(r => r.cadenceOnTarget)).toEqual([true, true, false])
+    expect(result!.executedAsPrescribed).toBe(false)
+    expect(result!.summary).toContain('rep 3 at')
+  })
+})
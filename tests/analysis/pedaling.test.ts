@@ -0,0 +1,106 @@
+/**
+ * Pedaling Analysis Tests
+ *
+ * Quadrant split around FTP at the reference cadence, cadence per power zone
+ * and torque peaks on synthetic power/cadence streams.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  analyzePedaling,
+  calculateCadenceByZone,
+  calculateQuadrants,
+  calculateTorquePeaks,
+  crankTorque,
+  estimateReferenceCadence,
+  pedalForce,
+  pedalVelocity,
+} from '@/lib/analysis/pedaling'
+
+const FTP = 250
+
+function steady(seconds: number, watts: number, cadence: number) {
+  return {
+    watts: new Array<number>(seconds).fill(watts),
+    cadence: new Array<number>(seconds).fill(cadence),
+  }
+}
+
+function join(...parts: { watts: number[]; cadence: number[] }[]) {
+  return {
+    watts: parts.flatMap(p => p.watts),
+    cadence: parts.flatMap(p => p.cadence),
+  }
+}
+
+describe('pedal force and velocity', () => {
+  it('converts power and cadence to force, velocity and torque', () => {
+    // 172.5 mm cranks at 90 rpm: 2π × 0.1725 × 1.5 = 1.63 m/s
+    expect(pedalVelocity(90)).toBeCloseTo(1.626, 2)
+    expect(pedalForce(250, 90)).toBeCloseTo(153.8, 0)
+    // 250 W at 90 rpm (9.42 rad/s) = 26.5 Nm
+    expect(crankTorque(250, 90)).toBeCloseTo(26.5, 1)
+  })
+})
+
+describe('calculateQuadrants', () => {
+  it('puts low-cadence strength work in quadrant II and spinning in IV', () => {
+    const streams = join(
+      steady(600, 220, 60), // strength: below FTP power but high force
+      steady(300, 150, 110), // spin-ups: low force, high velocity
+      steady(120, 0, 0), // coasting
+    )
+    const result = calculateQuadrants(streams, { ftp: FTP, referenceCadence: 90 })!
+
+    expect(result.coastingSeconds).toBe(120)
+    expect(result.pedalingSeconds).toBe(900)
+    expect(result.quadrants.find(q => q.quadrant === 2)!.seconds).toBe(600)
+    expect(result.quadrants.find(q => q.quadrant === 4)!.seconds).toBe(300)
+    expect(result.points.length).toBeLessThanOrEqual(900)
+  })
+
+  it('estimates the reference cadence from riding near FTP', () => {
+    const streams = join(steady(600, 250, 84), steady(600, 150, 95))
+    expect(estimateReferenceCadence(streams.watts, streams.cadence, FTP)).toBe(84)
+
+    const result = calculateQuadrants(streams, { ftp: FTP })!
+    expect(result.referenceCadence).toBe(84)
+    expect(result.referenceCadenceEstimated).toBe(true)
+  })
+
+  it('needs FTP and cadence', () => {
+    expect(calculateQuadrants(steady(60, 200, 90), { ftp: null })).toBeNull()
+    expect(calculateQuadrants({ watts: [200, 200] }, { ftp: FTP })).toBeNull()
+  })
+})
+
+describe('calculateCadenceByZone', () => {
+  it('reports mean cadence and cadence bands per power zone', () => {
+    const zones = calculateCadenceByZone(join(steady(600, 160, 92), steady(300, 240, 62)), FTP)!
+
+    const endurance = zones.find(z => z.name === 'Endurance')!
+    const threshold = zones.find(z => z.name === 'Threshold')!
+    expect(endurance.avgCadence).toBe(92)
+    expect(endurance.bands[4]).toBe(600)
+    expect(threshold.avgCadence).toBe(62)
+    expect(threshold.bands[1]).toBe(300)
+    expect(zones.find(z => z.name === 'VO2max')!.avgCadence).toBeNull()
+  })
+})
+
+describe('calculateTorquePeaks', () => {
+  it('finds the highest sustained torque', () => {
+    const peaks = calculateTorquePeaks(join(steady(600, 200, 90), steady(60, 300, 50), steady(600, 200, 90)), [5, 60])
+
+    const minute = peaks.find(p => p.durationSeconds === 60)!
+    expect(minute.startIndex).toBe(600)
+    expect(minute.avgCadence).toBe(50)
+    expect(minute.torque).toBeCloseTo(crankTorque(300, 50), 0)
+  })
+
+  it('skips durations longer than the ride', () => {
+    const result = analyzePedaling(steady(120, 200, 90), { ftp: FTP })
+    expect(result.avgCadence).toBe(90)
+    expect(result.torquePeaks.map(p => p.durationSeconds)).toEqual([5, 30, 60])
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Plan Adaptation Tests
+ *
+ * Re-balancing a plan after missed key workouts, illness and overload.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { adaptPlan, weekTSSBounds, type AdaptationWeek } from '@/lib/plans/adaptation'
+import type { PlanDay } from '@/types'
+
+type Workout = [type: string, name: string, tss: number] | null
+
+// Week starting on a Monday, one entry per day Mon-Sun
+function week(weekNumber: number, monday: string, workouts: Workout[]): PlanDay[] {
+  return workouts.map((workout, i) => {
+    const d = new Date(`${monday}T00:00:00Z`)
+    d.setUTCDate(d.getUTCDate() + i)
+    const date = d.toISOString().split('T')[0]
+    return {
+      id: `day-${date}`,
+      plan_id: 'plan-1',
+      date,
+      week_number: weekNumber,
+      day_of_week: d.getUTCDay(),
+      workout_type: workout?.[0] ?? null,
+      workout_name: workout?.[1] ?? null,
+      target_tss: workout?.[2] ?? null,
+      target_duration_minutes: workout ? workout[2] : null,
+      target_if: null,
+      completed: false,
+      skipped: false,
+      created_at: '',
+      updated_at: '',
+    }
+  })
+}
+
+function complete(days: PlanDay[], date: string, actualTss: number): void {
+  const day = days.find(d => d.date === date)!
+  day.completed = true
+  day.actual_tss = actualTss
+}
+
+const SS: Workout = ['sweetspot', 'Sweet Spot 2x20', 80]
+const THRESHOLD: Workout = ['threshold', 'Threshold 3x12', 90]
+const LONG: Workout = ['endurance', 'Long Zone 2', 120]
+
+const WEEKS: AdaptationWeek[] = [
+  { weekNumber: 1, phase: 'build', targetTSSRange: [90, 100] },
+  { weekNumber: 2, phase: 'build', targetTSSRange: [95, 105] },
+]
+
+describe('weekTSSBounds', () => {
+  it('applies the template range spread to the planned TSS', () => {
+    expect(weekTSSBounds(400, [95, 105])).toEqual([380, 420])
+    expect(weekTSSBounds(400, null)).toEqual([360, 440])
+  })
+})
+
+describe('adaptPlan', () => {
+  it('makes up a missed key workout on a rest day that keeps the week in range', () => {
+    const days = week(1, '2026-03-02', [null, SS, null, THRESHOLD, null, LONG, null])
+    const result = adaptPlan({ days, weeks: WEEKS, today: '2026-03-05' })
+
+    expect(result.triggers.map(t => t.type)).toEqual(['missed_key'])
+    expect(result.changes).toEqual([
+      expect.objectContaining({ date: '2026-03-03', action: 'moved', toDate: '2026-03-08', isKey: true }),
+    ])
+    const sunday = result.days.find(d => d.date === '2026-03-08')!
+    expect(sunday).toMatchObject({ workout_name: 'Sweet Spot 2x20', rescheduled_from: '2026-03-03' })
+    expect(result.days.find(d => d.date === '2026-03-03')).toMatchObject({ skipped: true, rescheduled_to: '2026-03-08' })
+    // Input days are left untouched
+    expect(days[1].skipped).toBe(false)
+  })
+
+  it('trims filler rather than dropping it when the week would go over range', () => {
+    const days = week(2, '2026-03-09', [
+      ['endurance', 'Zone 2', 60], ['vo2max', 'VO2 5x4', 100], null, THRESHOLD, null, ['endurance', 'Long Zone 2', 150], null,
+    ])
+    complete(days, '2026-03-09', 120)
+    const result = adaptPlan({ days, weeks: WEEKS, today: '2026-03-11' })
+
+    // Sunday needs 40 TSS off the long ride; Saturday would replace all 150
+    expect(result.changes).toEqual([
+      expect.objectContaining({ date: '2026-03-10', action: 'moved', toDate: '2026-03-15' }),
+      expect.objectContaining({ date: '2026-03-14', action: 'reduced', fromTSS: 150, toTSS: 110 }),
+    ])
+    const adapted = result.weeks.find(w => w.weekNumber === 2)!
+    expect(adapted.adaptedTSS).toBeLessThanOrEqual(adapted.maxTSS)
+  })
+
+  it('rests through illness, eases back and drops a key session with no room', () => {
+    const days = [
+      ...week(1, '2026-03-02', [null, SS, null, THRESHOLD, ['recovery', 'Easy Spin', 30], LONG, null]),
+      ...week(2, '2026-03-09', [null, SS, null, THRESHOLD, null, LONG, null]),
+    ]
+    const result = adaptPlan({
+      days,
+      weeks: WEEKS,
+      today: '2026-03-03',
+      sick: { startDate: '2026-03-03', endDate: '2026-03-04' },
+    })
+
+    expect(result.triggers).toEqual([expect.objectContaining({ type: 'sick' })])
+    expect(result.changes.map(c => [c.date, c.action, c.toDate])).toEqual([
+      ['2026-03-03', 'moved', '2026-03-08'],
+      ['2026-03-05', 'dropped', undefined],
+      ['2026-03-06', 'reduced', undefined],
+    ])
+    expect(result.days.find(d => d.date === '2026-03-06')?.target_tss).toBe(15)
+    expect(result.days.find(d => d.date === '2026-03-07')?.skipped).toBe(false)
+  })
+
+  it('takes load over plan off the next week of filler and keeps key sessions', () => {
+    const days = [
+      ...week(1, '2026-03-02', [null, SS, null, THRESHOLD, null, LONG, null]),
+      ...week(2, '2026-03-09', [null, SS, null, THRESHOLD, null, ['endurance', 'Long Zone 2', 130], ['endurance', 'Zone 2', 100]]),
+    ]
+    complete(days, '2026-03-03', 100)
+    complete(days, '2026-03-05', 110)
+    complete(days, '2026-03-07', 200)
+    const result = adaptPlan({
+      days,
+      weeks: WEEKS,
+      today: '2026-03-09',
+      actualLoad: { '2026-03-03': 100, '2026-03-05': 110, '2026-03-07': 200, '2026-03-08': 60 },
+    })
+
+    expect(result.triggers).toEqual([expect.objectContaining({ type: 'overload' })])
+    expect(result.changes).toEqual([
+      expect.objectContaining({ date: '2026-03-14', action: 'dropped', isKey: false }),
+      expect.objectContaining({ date: '2026-03-15', action: 'reduced', toTSS: 50 }),
+    ])
+  })
+
+  it('leaves the taper alone', () => {
+    const days = [
+      ...week(1, '2026-03-02', [null, SS, null, THRESHOLD, null, LONG, null]),
+      ...week(2, '2026-03-09', [null, SS, null, THRESHOLD, null, LONG, null]),
+    ]
+    complete(days, '2026-03-03', 80)
+    const result = adaptPlan({ days, weeks: WEEKS, today: '2026-03-08', targetEventDate: '2026-03-22' })
+
+    expect(result.taperStart).toBe('2026-03-08')
+    expect(result.changes).toEqual([
+      expect.objectContaining({ date: '2026-03-05', action: 'dropped', reason: 'No room before the taper' }),
+    ])
+    expect(result.weeks.find(w => w.weekNumber === 2)?.protected).toBe(true)
+  })
+
+  it('changes nothing when the plan is on track', () => {
+    const days = week(1, '2026-03-02', [null, SS, null, THRESHOLD, null, LONG, null])
+    complete(days, '2026-03-03', 82)
+    const result = adaptPlan({ days, weeks: WEEKS, today: '2026-03-04', actualLoad: { '2026-03-03': 82 } })
+    expect(result.triggers).toEqual([])
+    expect(result.changes).toEqual([])
+  })
+})
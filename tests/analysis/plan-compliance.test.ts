@@ -0,0 +1,124 @@
+/**
+ * Plan Compliance Tests
+ *
+ * Compliance scoring, matching sessions to plan days and calendar status.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  matchSessionsToPlanDays,
+  planDayStatus,
+  scoreCompliance,
+  summarizePlanCompliance,
+} from '@/lib/analysis/plan-compliance'
+import type { PlanDay, Session } from '@/types'
+
+function planDay(date: string, overrides: Partial<PlanDay> = {}): PlanDay {
+  return {
+    id: `day-${date}`,
+    plan_id: 'plan-1',
+    date,
+    week_number: 1,
+    day_of_week: 1,
+    workout_type: 'sweetspot',
+    workout_name: 'Sweet Spot 2x20',
+    target_tss: 80,
+    target_duration_minutes: 75,
+    target_if: 0.85,
+    completed: false,
+    skipped: false,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  }
+}
+
+function session(id: string, date: string, minutes: number, tss: number, intensityFactor?: number): Session {
+  return {
+    id,
+    athlete_id: 'athlete-1',
+    date: `${date}T07:00:00`,
+    duration_seconds: minutes * 60,
+    sport: 'cycling',
+    tss,
+    intensity_factor: intensityFactor,
+    source: 'intervals_icu',
+  } as Session
+}
+
+describe('scoreCompliance', () => {
+  it('scores a workout done as planned green', () => {
+    const result = scoreCompliance(planDay('2026-03-02'), { durationMinutes: 78, tss: 84, intensityFactor: 0.86 })
+    expect(result).toMatchObject({ score: 1, status: 'green' })
+  })
+
+  it('drops to yellow and red as the session falls short', () => {
+    const day = planDay('2026-03-02')
+    const short = scoreCompliance(day, { durationMinutes: 45, tss: 50, intensityFactor: 0.82 })
+    expect(short?.status).toBe('yellow')
+    expect(short?.breakdown.duration).toBe(0.7)
+
+    const easy = scoreCompliance(day, { durationMinutes: 30, tss: 20, intensityFactor: 0.6 })
+    expect(easy?.status).toBe('red')
+  })
+
+  it('counts prescribed reps and only the targets the day has', () => {
+    const day = planDay('2026-03-02', { target_if: null, target_tss: null })
+    const result = scoreCompliance(day, { durationMinutes: 75, tss: null, intensityFactor: null, intervalCompletion: 0.5 })
+    // duration 1 x 0.3, intervals 0.5 x 0.2
+    expect(result?.score).toBe(0.8)
+    expect(result?.breakdown).toEqual({ duration: 1, tss: null, intensity: null, intervals: 0.5 })
+
+    expect(scoreCompliance({}, { durationMinutes: 60, tss: 50, intensityFactor: 0.7 })).toBeNull()
+  })
+})
+
+describe('matchSessionsToPlanDays', () => {
+  it('links each open day to the closest session on its date', () => {
+    const days = [planDay('2026-03-02'), planDay('2026-03-03', { workout_type: 'rest', workout_name: null, target_tss: null, target_duration_minutes: null, target_if: null })]
+    const sessions = [
+      session('commute', '2026-03-02', 25, 15),
+      session('workout', '2026-03-02', 76, 82, 0.85),
+      session('spin', '2026-03-03', 40, 25),
+    ]
+    const matches = matchSessionsToPlanDays(days, sessions)
+    expect(matches.map(m => [m.day.date, m.session.id])).toEqual([['2026-03-02', 'workout']])
+    expect(matches[0].compliance.status).toBe('green')
+  })
+
+  it('skips completed days and sessions already linked', () => {
+    const days = [
+      planDay('2026-03-02', { completed: true, actual_session_id: 'done' }),
+      planDay('2026-03-04'),
+    ]
+    const sessions = [session('done', '2026-03-04', 75, 80)]
+    expect(matchSessionsToPlanDays(days, sessions)).toEqual([])
+  })
+
+  it('matches a rescheduled day on its new date', () => {
+    const days = [planDay('2026-03-02', { skipped: true, rescheduled_to: '2026-03-05' })]
+    const matches = matchSessionsToPlanDays(days, [session('moved', '2026-03-05', 70, 78)])
+    expect(matches).toHaveLength(1)
+    expect(matches[0].day.date).toBe('2026-03-02')
+  })
+})
+
+describe('planDayStatus', () => {
+  it('colors completed days by compliance and missed days red', () => {
+    expect(planDayStatus(planDay('2026-03-02', { completed: true, compliance_score: 0.65 }), '2026-03-10')).toBe('yellow')
+    expect(planDayStatus(planDay('2026-03-02', { completed: true }), '2026-03-10')).toBe('green')
+    expect(planDayStatus(planDay('2026-03-02'), '2026-03-10')).toBe('red')
+    expect(planDayStatus(planDay('2026-03-12'), '2026-03-10')).toBeNull()
+    expect(planDayStatus(planDay('2026-03-02', { skipped: true }), '2026-03-10')).toBeNull()
+  })
+
+  it('summarizes a plan with missed days counting as zero', () => {
+    const summary = summarizePlanCompliance([
+      planDay('2026-03-02', { completed: true, compliance_score: 0.9 }),
+      planDay('2026-03-03', { completed: true, compliance_score: 0.6 }),
+      planDay('2026-03-04'),
+      planDay('2026-03-20'),
+    ], '2026-03-10')
+    expect(summary).toEqual({ averageScore: 0.5, green: 1, yellow: 1, red: 1, missed: 1 })
+  })
+})
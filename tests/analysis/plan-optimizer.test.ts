@@ -0,0 +1,90 @@
+/**
+ * Plan Optimizer Tests
+ *
+ * Solving daily TSS for a race-day CTL/TSB target under constraints.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { optimizePlan, type OptimizePlanInput } from '@/lib/plans/optimizer'
+import { projectFitness, planDataToPlanDays } from '@/lib/plans/projection'
+
+const INPUT: OptimizePlanInput = {
+  startDate: '2026-03-02',
+  target: { eventDate: '2026-05-31', minCTL: 85, tsbRange: [5, 15] },
+  constraints: { maxRampRate: 6, maxWeeklyHours: 12 },
+  athleteContext: { ftp: 250, ctl: 60, atl: 55 },
+}
+
+function optimize(overrides: Partial<OptimizePlanInput> = {}) {
+  const result = optimizePlan({ ...INPUT, ...overrides })
+  expect(result.success).toBe(true)
+  return { plan: result.plan!, warnings: result.warnings }
+}
+
+describe('optimizePlan', () => {
+  it('reaches the race-day CTL and TSB target within the ramp rate', () => {
+    const { plan, warnings } = optimize()
+
+    const projection = projectFitness(60, 55, planDataToPlanDays(plan as unknown as Record<string, unknown>), {
+      eventDate: '2026-05-31',
+    })
+    expect(projection.eventFitness!.ctl).toBeGreaterThanOrEqual(84.5)
+    expect(projection.eventFitness!.tsb).toBeGreaterThanOrEqual(5)
+    expect(projection.eventFitness!.tsb).toBeLessThanOrEqual(15)
+
+    const ctls = projection.points.map(p => p.ctl)
+    const ramps = ctls.map((ctl, i) => ctl - (i >= 7 ? ctls[i - 7] : 60))
+    expect(Math.max(...ramps)).toBeLessThanOrEqual(6.1)
+
+    expect(plan.optimization.feasible).toBe(true)
+    expect(plan.endDate).toBe('2026-05-31')
+    expect(plan.weeks.at(-1)!.phase).toBe('taper')
+    expect(warnings).toEqual([])
+  })
+
+  it('keeps rest days free and saves key sessions for key days', () => {
+    const { plan } = optimize({ constraints: { maxWeeklyHours: 12, restDays: [1, 5], keyDays: [2, 6] } })
+    const days = plan.weeks.flatMap(w => w.days)
+
+    expect(days.filter(d => d.dayOfWeek === 1 || d.dayOfWeek === 5).every(d => d.workout === null)).toBe(true)
+    expect(days.filter(d => d.isKeyWorkout).every(d => d.dayOfWeek === 2 || d.dayOfWeek === 6)).toBe(true)
+    // Openers the day before and nothing on race day
+    expect(days.at(-2)!.workout?.category).toBe('recovery')
+    expect(days.at(-1)!.workout).toBeNull()
+  })
+
+  it('fills days from the library by phase and sport', () => {
+    const { plan } = optimize({ sport: 'running', athleteContext: { ftp: 0, ctl: 40, thresholdPace: 270 } })
+    const workouts = plan.weeks.flatMap(w => w.days).flatMap(d => (d.workout ? [d.workout] : []))
+
+    expect(workouts.every(w => w.templateId?.startsWith('run_'))).toBe(true)
+    // No running sweet spot: base key sessions fall back to tempo
+    const baseKeys = plan.weeks[0].days.filter(d => d.isKeyWorkout).map(d => d.workout!.category)
+    expect(baseKeys).toContain('tempo')
+    expect(workouts[0].intervals?.[0]?.targetPaceMin ?? workouts[1].intervals?.[0]?.targetPaceMin).toBeDefined()
+  })
+
+  it('reports the shortfall when the hours cap binds', () => {
+    const { plan, warnings } = optimize({ constraints: { maxRampRate: 6, maxWeeklyHours: 8 } })
+
+    expect(plan.optimization.feasible).toBe(false)
+    expect(plan.optimization.projected.ctl).toBeLessThan(85)
+    expect(plan.optimization.projected.maxWeeklyHours).toBeLessThanOrEqual(8.5)
+    expect(warnings[0]).toMatch(/^Target not reachable within 8 h\/week/)
+  })
+
+  it('rejects conflicting constraints and plans that are too short', () => {
+    expect(optimizePlan({ ...INPUT, constraints: { restDays: [2], keyDays: [2, 4] } }).success).toBe(false)
+    expect(optimizePlan({ ...INPUT, target: { eventDate: '2026-03-10' } }).success).toBe(false)
+  })
+
+  it('solves the shortest plan it accepts', () => {
+    const tooShort = optimizePlan({ ...INPUT, target: { eventDate: '2026-03-15' } })
+    expect(tooShort.success).toBe(false)
+    expect(tooShort.error).toContain('15 days')
+
+    const { plan } = optimize({ target: { eventDate: '2026-03-16' } })
+    expect(plan.endDate).toBe('2026-03-16')
+    expect(plan.weeks.at(-1)!.phase).toBe('taper')
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Custom Plan Template Tests
+ *
+ * Validation, JSON exchange and selection alongside the built-in templates.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  normalizePlanTemplate,
+  validatePlanTemplate,
+  exportPlanTemplate,
+  importPlanTemplate,
+  customTemplateId,
+  customTemplateRowId,
+} from '@/lib/plans/custom-templates'
+import { planTemplates, getApplicablePlans, getPlanTemplateById, type PlanTemplate } from '@/lib/plans/templates'
+import { generateTrainingPlan, getAvailablePlans, selectBestTemplate } from '@/lib/plans/generator'
+
+const ATHLETE = { ftp: 250, ctl: 45 }
+
+function customBuild(overrides: Record<string, unknown> = {}): PlanTemplate {
+  return {
+    ...normalizePlanTemplate({
+      name: 'Club Sweet Spot Block',
+      goal: 'ftp_build',
+      minCTL: 30,
+      weeks: [
+        {
+          phase: 'build',
+          targetTSSRange: [100, 110],
+          keyWorkouts: [
+            { category: 'sweetspot', preferredWorkoutIds: ['sweetspot_3x15'], targetTSSPercent: 30 },
+            { category: 'endurance', preferredWorkoutIds: ['endurance_zone2_90'], targetTSSPercent: 35 },
+          ],
+        },
+        { phase: 'recovery', targetTSSRange: [60, 70], keyWorkouts: [{ category: 'endurance', targetTSSPercent: 40 }] },
+      ],
+      weeklyTSSProgression: [1.1],
+      ...overrides,
+    }),
+    id: customTemplateId('0f9c'),
+    isCustom: true,
+  }
+}
+
+describe('validatePlanTemplate', () => {
+  it('accepts every built-in template', () => {
+    for (const template of planTemplates) {
+      expect(validatePlanTemplate(normalizePlanTemplate(template)), template.id).toBeNull()
+    }
+  })
+
+  it('fills defaults for a sparse template', () => {
+    const template = customBuild()
+    expect(validatePlanTemplate(template)).toBeNull()
+    expect(template.durationWeeks).toBe(2)
+    expect(template.sport).toBe('cycling')
+    expect(template.weeklyTSSProgression).toEqual([1.1, 1])
+    expect(template.weeks[1].keyWorkouts[0]).toEqual({ dayOffset: 0, category: 'endurance', targetTSSPercent: 40 })
+  })
+
+  it('reports the first problem', () => {
+    expect(validatePlanTemplate(customBuild({ name: ' ' }))).toBe('Plan template needs a name')
+    expect(validatePlanTemplate(customBuild({ weeks: [] }))).toBe('A plan template needs at least 1 week')
+    expect(validatePlanTemplate(customBuild({ maxCTL: 20 }))).toBe('Maximum CTL must be above the minimum')
+    expect(validatePlanTemplate(customBuild({
+      weeks: [{ phase: 'build', targetTSSRange: [110, 100], keyWorkouts: [] }],
+    }))).toBe('Week 1 TSS range minimum is above the maximum')
+    expect(validatePlanTemplate(customBuild({
+      weeks: [{ phase: 'build', targetTSSRange: [100, 110], keyWorkouts: [
+        { category: 'threshold', targetTSSPercent: 60 },
+        { category: 'vo2max', targetTSSPercent: 50 },
+      ] }],
+    }))).toBe('Week 1 key workouts add up to more than 100% of the weekly TSS')
+  })
+
+  it('checks workout ids exist and match the sport', () => {
+    const week = (id: string) => [{ phase: 'base', keyWorkouts: [{ category: 'endurance', preferredWorkoutIds: [id], targetTSSPercent: 30 }] }]
+    expect(validatePlanTemplate(customBuild({ weeks: week('missing_workout') })))
+      .toBe('Week 1 workout 1 references an unknown workout: missing_workout')
+    expect(validatePlanTemplate(customBuild({ sport: 'running', weeks: week('endurance_zone2_90') })))
+      .toMatch(/is not a running workout$/)
+    expect(validatePlanTemplate(customBuild({ sport: 'running', weeks: week('run_easy_45') }))).toBeNull()
+  })
+
+  it('keeps key workouts in key-day order', () => {
+    const week = (offsets: unknown[]) => [{
+      phase: 'build',
+      keyWorkouts: offsets.map(dayOffset => ({ dayOffset, category: 'endurance', targetTSSPercent: 20 })),
+    }]
+    expect(customBuild({ weeks: week([0, 1, 2]) }).weeks[0].keyWorkouts.map(kw => kw.dayOffset)).toEqual([0, 1, 2])
+    expect(validatePlanTemplate(customBuild({ weeks: week([0, 2]) })))
+      .toBe('Week 1 workout 2 has dayOffset 2: key workouts must be listed in key-day order (expected 1)')
+    expect(validatePlanTemplate(customBuild({ weeks: week([1, 0]) }))).toMatch(/^Week 1 workout 1 has dayOffset 1/)
+    expect(importPlanTemplate({ name: 'Gaps', goal: 'ftp_build', weeks: week([0, 'x']) }).error)
+      .toMatch(/^Week 1 workout 2 has dayOffset NaN/)
+  })
+})
+
+describe('plan template JSON exchange', () => {
+  it('round-trips through export and import without ids', () => {
+    const template = customBuild()
+    const exported = exportPlanTemplate(template)
+    expect(exported).toMatchObject({ format: 'plan-template', version: 1 })
+    expect(exported.template).not.toHaveProperty('id')
+    expect(exported.template).not.toHaveProperty('isCustom')
+
+    const { template: imported, error } = importPlanTemplate(JSON.stringify(exported))
+    expect(error).toBeUndefined()
+    expect(imported).toEqual({ ...exported.template, id: '' })
+  })
+
+  it('imports a bare built-in template', () => {
+    const { template } = importPlanTemplate(JSON.parse(JSON.stringify(planTemplates[0])))
+    expect(template?.weeks).toEqual(planTemplates[0].weeks)
+  })
+
+  it('rejects invalid files', () => {
+    expect(importPlanTemplate('{ not json').error).toBe('File is not valid JSON')
+    expect(importPlanTemplate({ format: 'plan-template', version: 2, template: {} }).error)
+      .toBe('Unsupported plan template version: 2')
+    expect(importPlanTemplate({ name: 'No weeks' }).error).toBe('No plan template weeks found')
+    expect(importPlanTemplate({ ...exportPlanTemplate(customBuild()), template: { ...customBuild(), goal: 'sprint' } }).error)
+      .toBe('Unknown plan goal: sprint')
+  })
+})
+
+describe('custom templates in plan selection', () => {
+  it('maps ids between templates and rows', () => {
+    expect(customTemplateRowId(customTemplateId('abc'))).toBe('abc')
+    expect(customTemplateRowId('ftp_build_8week')).toBeNull()
+  })
+
+  it('are found and listed alongside the built-ins', () => {
+    const custom = customBuild()
+    expect(getPlanTemplateById(custom.id)).toBeUndefined()
+    expect(getPlanTemplateById(custom.id, [custom])).toBe(custom)
+    expect(getApplicablePlans(45, 'cycling', [custom])).toContain(custom)
+    expect(getApplicablePlans(20, 'cycling', [custom])).not.toContain(custom)
+
+    const listed = getAvailablePlans(45, 'cycling', [custom])
+    expect(listed.filter(p => p.isCustom).map(p => p.id)).toEqual([custom.id])
+  })
+
+  it('win ties against built-ins with the same goal', () => {
+    const custom = customBuild()
+    const input = { goal: 'ftp_build' as const, startDate: '2026-03-02', athleteContext: ATHLETE }
+    expect(selectBestTemplate(input)?.template.id).toBe('ftp_build_8week')
+    expect(selectBestTemplate({ ...input, customTemplates: [custom] })?.template).toBe(custom)
+  })
+
+  it('generate plans by id', () => {
+    const custom = customBuild()
+    const result = generateTrainingPlan({
+      templateId: custom.id,
+      startDate: '2026-03-02',
+      athleteContext: ATHLETE,
+      customTemplates: [custom],
+    })
+    expect(result.success).toBe(true)
+    expect(result.plan?.templateId).toBe(custom.id)
+    expect(result.plan?.weeks).toHaveLength(2)
+    expect(result.plan?.weeks[0].days.some(d => d.workout?.templateId === 'sweetspot_3x15')).toBe(true)
+  })
+})
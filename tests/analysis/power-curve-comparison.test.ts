@@ -0,0 +1,98 @@
+/**
+ * Power Curve Comparison Tests
+ *
+ * Preset windows, weight per window and per-duration deltas in watts and W/kg.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  comparePowerCurves,
+  comparisonPresetWindows,
+  formatDurationLabel,
+  weightForWindow,
+} from '@/lib/analysis/power-curve-comparison'
+
+describe('formatDurationLabel', () => {
+  it('labels seconds, minutes and hours', () => {
+    expect(formatDurationLabel(5)).toBe('5s')
+    expect(formatDurationLabel(90)).toBe('90s')
+    expect(formatDurationLabel(300)).toBe('5min')
+    expect(formatDurationLabel(3600)).toBe('1hr')
+    expect(formatDurationLabel(5400)).toBe('90min')
+  })
+})
+
+describe('comparisonPresetWindows', () => {
+  it('compares this season to date with all of last season', () => {
+    expect(comparisonPresetWindows('season', '2026-10-18')).toEqual({
+      baseline: { startDate: '2025-01-01', endDate: '2025-12-31', label: '2025 season' },
+      current: { startDate: '2026-01-01', endDate: '2026-10-18', label: '2026 season' },
+    })
+  })
+
+  it('builds back-to-back 90-day windows and a 42-day window', () => {
+    const ninety = comparisonPresetWindows('last-90-days-vs-previous', '2026-03-31')
+    expect(ninety.current).toMatchObject({ startDate: '2026-01-01', endDate: '2026-03-31' })
+    expect(ninety.baseline).toMatchObject({ startDate: '2025-10-03', endDate: '2025-12-31' })
+
+    const recent = comparisonPresetWindows('last-42-days-vs-all-time', '2026-03-31')
+    expect(recent.current.startDate).toBe('2026-02-18')
+    expect(recent.baseline.endDate).toBe('2026-03-31')
+  })
+})
+
+describe('weightForWindow', () => {
+  const history = [
+    { date: '2026-03-10', weightKg: 72 },
+    { date: '2026-01-05', weightKg: 75 },
+    { date: '2026-01-20', weightKg: 74 },
+  ]
+
+  it('averages the measurements in the window', () => {
+    expect(weightForWindow(history, { startDate: '2026-01-01', endDate: '2026-01-31' })).toBe(74.5)
+  })
+
+  it('falls back to the last weight before, then the first after', () => {
+    expect(weightForWindow(history, { startDate: '2026-02-01', endDate: '2026-02-28' })).toBe(74)
+    expect(weightForWindow(history, { startDate: '2025-06-01', endDate: '2025-06-30' })).toBe(75)
+    expect(weightForWindow([], { startDate: '2026-01-01', endDate: '2026-01-31' })).toBeNull()
+  })
+})
+
+describe('comparePowerCurves', () => {
+  const before = [
+    { duration: 5, watts: 1000 },
+    { duration: 300, watts: 320 },
+    { duration: 1200, watts: 280 },
+  ]
+  const after = [
+    { duration: 5, watts: 950 },
+    { duration: 300, watts: 336 },
+    { duration: 1200, watts: 294 },
+    { duration: 3600, watts: 260 },
+  ]
+
+  it('reports per-duration deltas and the biggest gain and loss', () => {
+    const result = comparePowerCurves(before, after)
+
+    expect(result.points.map(p => p.duration)).toEqual([5, 300, 1200, 3600])
+    expect(result.points[1]).toMatchObject({ baselineWatts: 320, watts: 336, deltaWatts: 16, deltaPercent: 5 })
+    // Only the current window has an hour
+    expect(result.points[3]).toMatchObject({ baselineWatts: null, watts: 260, deltaPercent: null })
+    expect(result.avgDeltaPercent).toBe(1.7)
+    expect(result.biggestGain?.duration).toBe(300)
+    expect(result.biggestLoss?.duration).toBe(5)
+    expect(result.avgDeltaWkgPercent).toBeNull()
+  })
+
+  it('normalizes with the weight of each window', () => {
+    const result = comparePowerCurves(before, after, { baseline: 80, current: 76 })
+    const fiveMin = result.points[1]
+
+    expect(fiveMin.baselineWkg).toBe(4)
+    expect(fiveMin.wkg).toBe(4.42)
+    expect(fiveMin.deltaWkgPercent).toBe(10.5)
+    // Lighter, so W/kg improves more than watts
+    expect(result.avgDeltaWkgPercent!).toBeGreaterThan(result.avgDeltaPercent!)
+  })
+})
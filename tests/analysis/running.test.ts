@@ -0,0 +1,130 @@
+/**
+ * Running Analytics Tests
+ *
+ * Grade adjustment, normalized graded pace, rTSS scaling and best efforts
+ * over standard distances.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateGradeStream,
+  calculateNormalizedGradedSpeed,
+  calculateRtss,
+  calculateRunningBests,
+  calculateRunningMetrics,
+  gradeAdjustmentFactor,
+  runningBestsFromStreams,
+  speedToPace,
+  summarizeRunningBests,
+} from '@/lib/analysis/running'
+
+// Constant speed for n seconds, with cumulative distance and optional grade
+function steadyRun(seconds: number, speed: number, grade = 0) {
+  const velocity_smooth = Array(seconds).fill(speed)
+  const distance = velocity_smooth.map((_, i) => i * speed)
+  const altitude = distance.map(d => 100 + d * grade)
+  return { velocity_smooth, distance, altitude }
+}
+
+describe('grade adjustment', () => {
+  it('is neutral on the flat, faster uphill and slightly faster on gentle descents', () => {
+    expect(gradeAdjustmentFactor(0)).toBe(1)
+    expect(gradeAdjustmentFactor(0.1)).toBeGreaterThan(1.4)
+    expect(gradeAdjustmentFactor(-0.05)).toBeLessThan(1)
+  })
+
+  it('measures grade over a distance window', () => {
+    const { distance, altitude } = steadyRun(120, 3, 0.08)
+    const grades = calculateGradeStream(distance, altitude)
+    expect(grades[0]).toBe(0)
+    expect(grades[100]).toBeCloseTo(0.08, 5)
+  })
+})
+
+describe('calculateRunningMetrics', () => {
+  it('gives pace, GAP equal to pace on the flat and rTSS 100 for an hour at threshold', () => {
+    // 4:00/km threshold
+    const metrics = calculateRunningMetrics(steadyRun(3600, 1000 / 240), 240)
+    expect(metrics.avgPace).toBe(240)
+    expect(metrics.gradeAdjustedPace).toBe(240)
+    expect(metrics.normalizedGradedPace).toBe(240)
+    expect(metrics.intensityFactor).toBe(1)
+    expect(metrics.rtss).toBe(100)
+  })
+
+  it('makes uphill running count as faster than its pace', () => {
+    const metrics = calculateRunningMetrics(steadyRun(1800, 2.5, 0.06), 240)
+    expect(metrics.gradeAdjustedPace!).toBeLessThan(metrics.avgPace!)
+  })
+
+  it('leaves intensity and rTSS empty without a threshold pace', () => {
+    const metrics = calculateRunningMetrics(steadyRun(600, 3))
+    expect(metrics.intensityFactor).toBeNull()
+    expect(metrics.rtss).toBeNull()
+  })
+})
+
+describe('normalized graded speed', () => {
+  it('weights surges above the average speed', () => {
+    const surging = Array.from({ length: 1200 }, (_, i) => (Math.floor(i / 60) % 2 === 0 ? 5 : 2))
+    const ngs = calculateNormalizedGradedSpeed(surging)!
+    expect(ngs).toBeGreaterThan(3.5)
+    expect(calculateRtss(3, 3600, speedToPace(3)!)).toBe(100)
+  })
+})
+
+describe('calculateRunningBests', () => {
+  it('finds the fastest stretch for each distance the run covers', () => {
+    // 2 km easy at 5:00/km, 1 km hard at 3:20/km, 3 km easy
+    const speeds = [...Array(600).fill(1000 / 300), ...Array(200).fill(1000 / 200), ...Array(900).fill(1000 / 300)]
+    const distance: number[] = [0]
+    for (const s of speeds) distance.push(distance[distance.length - 1] + s)
+
+    const bests = calculateRunningBests(distance)
+    expect(bests.map(b => b.label)).toEqual(['1k', '5k'])
+    expect(bests[0].seconds).toBe(200)
+    expect(bests[0].pace).toBe(200)
+    expect(bests[1].seconds).toBeLessThan(5 * 300)
+  })
+
+  it('returns nothing for a short run', () => {
+    expect(calculateRunningBests([0, 100, 200])).toEqual([])
+  })
+
+  it('stores the bests by distance and stream index', () => {
+    const { distance } = steadyRun(400, 5)
+    expect(runningBestsFromStreams(distance)).toEqual([{ distance_meters: 1000, seconds: 200, start_index: 0 }])
+  })
+})
+
+describe('summarizeRunningBests', () => {
+  const run = (id: string, date: string, fiveK: number, tenK?: number) => ({
+    id,
+    date,
+    running_bests: [
+      { distance_meters: 5000, seconds: fiveK, start_index: 0 },
+      ...(tenK ? [{ distance_meters: 10000, seconds: tenK, start_index: 0 }] : []),
+    ],
+  })
+
+  it('tracks the best, latest and record progression per distance', () => {
+    const [fiveK, tenK] = summarizeRunningBests([
+      run('c', '2026-05-01', 1230),
+      run('a', '2026-03-01', 1290, 2700),
+      run('b', '2026-04-01', 1250),
+      run('d', '2026-06-01', 1240, 2650),
+    ])
+
+    expect(fiveK.label).toBe('5k')
+    expect(fiveK.best).toMatchObject({ sessionId: 'c', seconds: 1230, pace: 246 })
+    expect(fiveK.latest.sessionId).toBe('d')
+    expect(fiveK.efforts).toBe(4)
+    expect(fiveK.records.map(r => r.sessionId)).toEqual(['a', 'b', 'c'])
+    expect(tenK).toMatchObject({ label: '10k', efforts: 2, best: { sessionId: 'd', seconds: 2650 } })
+  })
+
+  it('skips distances no run covered', () => {
+    expect(summarizeRunningBests([])).toEqual([])
+    expect(summarizeRunningBests([run('a', '2026-03-01', 1290)]).map(p => p.label)).toEqual(['5k'])
+  })
+})
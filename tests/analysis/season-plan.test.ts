@@ -0,0 +1,122 @@
+/**
+ * Season Plan Tests
+ *
+ * Chaining templates across A/B/C events.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateSeasonPlan, phaseBands, type SeasonEvent, type SeasonPlan } from '@/lib/plans/season'
+
+const ATHLETE = { ftp: 250, ctl: 60, atl: 55 }
+const START = '2026-03-02'
+
+function season(events: SeasonEvent[]): SeasonPlan {
+  const result = generateSeasonPlan({ startDate: START, events, athleteContext: ATHLETE })
+  expect(result.success).toBe(true)
+  return result.plan!
+}
+
+function day(plan: SeasonPlan, date: string) {
+  return plan.weeks.flatMap(w => w.days).find(d => d.date === date)
+}
+
+function shift(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+const A_EVENT: SeasonEvent = { name: 'Gran Fondo', date: '2026-06-06', priority: 'A' }
+
+describe('generateSeasonPlan', () => {
+  it('builds base and a full event-prep block toward a distant A-event', () => {
+    const plan = season([A_EVENT])
+
+    expect(plan.durationWeeks).toBe(14)
+    expect(plan.weeks.map(w => w.weekNumber)).toEqual(Array.from({ length: 14 }, (_, i) => i + 1))
+    expect(plan.blocks.map(b => [b.templateId, b.seasonWeeks])).toEqual([
+      ['base_build_4week', [1, 2]],
+      ['event_prep_12week', [3, 14]],
+    ])
+    expect(plan.targetEventDate).toBe('2026-06-06')
+    expect(day(plan, '2026-06-06')?.workout).toMatchObject({ name: 'Gran Fondo', category: 'race' })
+    expect(day(plan, '2026-06-07')?.workout).toBeNull()
+  })
+
+  it('chains build and taper blocks for each A-event', () => {
+    const plan = season([
+      { name: 'Spring Classic', date: '2026-04-11', priority: 'A' },
+      A_EVENT,
+    ])
+
+    expect(plan.blocks.map(b => [b.templateId, b.templateWeeks, b.targetEvent])).toEqual([
+      ['ftp_build_8week', [1, 3], 'Spring Classic'],
+      ['taper_3week', [1, 3], 'Spring Classic'],
+      ['ftp_build_8week', [1, 5], 'Gran Fondo'],
+      ['taper_3week', [1, 3], 'Gran Fondo'],
+    ])
+    expect(plan.blocks[2].startDate).toBe('2026-04-13')
+    expect(plan.events.map(e => e.treatment)).toEqual(['peak', 'peak'])
+  })
+
+  it('mini-tapers into B-events and trains through C-events', () => {
+    const base = season([A_EVENT])
+    const plan = season([
+      A_EVENT,
+      { name: 'Club Race', date: '2026-04-11', priority: 'B' },
+      { name: 'Crit', date: '2026-05-09', priority: 'C', distanceKm: 40 },
+    ])
+
+    // Thursday before the B-event at 60%
+    const before = day(base, '2026-04-09')!.workout!
+    expect(day(plan, '2026-04-09')?.workout?.targetTSS).toBe(Math.round(before.targetTSS * 0.6))
+    expect(day(plan, '2026-04-12')?.workout).toBeNull()
+
+    // The C-event replaces the Saturday workout and nothing else changes
+    expect(day(plan, '2026-05-07')?.workout).toEqual(day(base, '2026-05-07')?.workout)
+    expect(day(plan, '2026-05-09')?.workout).toMatchObject({ category: 'race', targetDurationMinutes: 80 })
+    expect(plan.events.map(e => [e.priority, e.treatment, e.weekNumber])).toEqual([
+      ['B', 'mini_taper', 6],
+      ['C', 'train_through', 10],
+      ['A', 'peak', 14],
+    ])
+  })
+
+  it('bridges to B/C events after the last A-event', () => {
+    const plan = season([
+      { name: 'Spring Classic', date: '2026-04-11', priority: 'A' },
+      { name: 'Summer Series', date: '2026-05-09', priority: 'C' },
+    ])
+    expect(plan.blocks.map(b => b.templateId)).toEqual(['ftp_build_8week', 'taper_3week', 'maintenance_4week'])
+    expect(plan.blocks[2].targetEvent).toBeNull()
+    expect(plan.durationWeeks).toBe(10)
+  })
+
+  it('needs at least one upcoming event', () => {
+    const result = generateSeasonPlan({
+      startDate: START,
+      events: [{ name: 'Last Year', date: '2025-09-01', priority: 'A' }],
+      athleteContext: ATHLETE,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('phaseBands', () => {
+  it('merges consecutive weeks of the same phase', () => {
+    const week = (phase: string, monday: string) => ({
+      phase,
+      days: [{ date: monday }, { date: shift(monday, 6) }],
+    })
+    expect(phaseBands([
+      week('base', '2026-03-02'),
+      week('base', '2026-03-09'),
+      week('build', '2026-03-16'),
+      week('taper', '2026-03-23'),
+    ])).toEqual([
+      { phase: 'base', startDate: '2026-03-02', endDate: '2026-03-15' },
+      { phase: 'build', startDate: '2026-03-16', endDate: '2026-03-22' },
+      { phase: 'taper', startDate: '2026-03-23', endDate: '2026-03-29' },
+    ])
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Stream Quality Tests
+ *
+ * Spike, dropout, stuck value, cadence mismatch and pause detection, and
+ * power bests that skip flagged samples.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  bestsExclusionMask,
+  cleanStreams,
+  summarizeDataQuality,
+  withoutPauses,
+} from '@/lib/analysis/stream-quality'
+import { calculatePeakPower } from '@/lib/analysis/power-analysis'
+
+function steady(seconds: number, value: number, wobble = 0): number[] {
+  return Array.from({ length: seconds }, (_, i) => value + (wobble ? (i % 3) - 1 : 0) * wobble)
+}
+
+describe('cleanStreams', () => {
+  it('interpolates a single-sample power spike and keeps a real sprint', () => {
+    const watts = [...steady(60, 200, 5), 2400, ...steady(60, 200, 5), 600, 900, 1100, 1150, 1000, 800, ...steady(60, 200, 5)]
+    const { streams, flags } = cleanStreams({ watts })
+
+    expect(flags).toHaveLength(1)
+    expect(flags[0]).toMatchObject({ issue: 'power_spike', stream: 'watts', start: 60, end: 60, action: 'interpolated', value: 2400 })
+    expect(streams.watts![60]).toBeLessThan(300)
+    // The sprint survives
+    expect(streams.watts!.slice(121, 127)).toEqual([600, 900, 1100, 1150, 1000, 800])
+    // The input is left alone
+    expect(watts[60]).toBe(2400)
+  })
+
+  it('treats power above the plausible maximum as a spike', () => {
+    const watts = [...steady(30, 800, 20), 3200, 3100, 3300, 3000, ...steady(30, 800, 20)]
+    const { flags } = cleanStreams({ watts })
+    expect(flags[0]).toMatchObject({ issue: 'power_spike', start: 30, end: 33, value: 3300 })
+  })
+
+  it('fills heart rate zeros and short strap dropouts', () => {
+    const heartrate = [...steady(30, 140, 1), 0, 0, 0, ...steady(30, 142, 1), 80, 75, 78, ...steady(30, 141, 1)]
+    const { streams, flags } = cleanStreams({ heartrate })
+
+    expect(flags.map(f => [f.issue, f.start, f.end])).toEqual([
+      ['hr_dropout', 30, 32],
+      ['hr_dropout', 63, 65],
+    ])
+    expect(Math.min(...streams.heartrate!)).toBeGreaterThan(130)
+  })
+
+  it('flags stuck power and masks it from bests', () => {
+    const watts = [...steady(60, 250, 10), ...steady(90, 412), ...steady(60, 250, 10)]
+    const { flags } = cleanStreams({ watts })
+    expect(flags).toEqual([
+      { issue: 'stuck_value', stream: 'watts', start: 60, end: 149, action: 'masked', value: 412 },
+    ])
+    const mask = bestsExclusionMask(watts.length, flags)
+    expect(calculatePeakPower(watts, 60)).toBe(412)
+    expect(calculatePeakPower(watts, 60, mask)).toBe(250)
+  })
+
+  it('flags power without cadence when the cadence sensor is working', () => {
+    const watts = steady(60, 220, 5)
+    const cadence = [...steady(20, 90), ...steady(10, 0), ...steady(30, 90)]
+    const { flags } = cleanStreams({ watts, cadence })
+    expect(flags).toHaveLength(1)
+    expect(flags[0]).toMatchObject({ issue: 'cadence_power_mismatch', start: 20, end: 29, action: 'masked' })
+
+    // No cadence sensor: nothing to compare against
+    expect(cleanStreams({ watts, cadence: steady(60, 0) }).flags).toEqual([])
+  })
+
+  it('flags zero-filled pauses only when standing still', () => {
+    const watts = [...steady(30, 200, 5), ...steady(120, 0), ...steady(30, 200, 5)]
+    const velocity = [...steady(30, 9), ...steady(60, 12), ...steady(60, 0), ...steady(30, 9)]
+    const { flags } = cleanStreams({ watts, velocity_smooth: velocity })
+    expect(flags).toEqual([
+      { issue: 'zero_filled_pause', stream: null, start: 90, end: 149, action: 'flagged', value: null },
+    ])
+    expect(withoutPauses(watts, flags)).toHaveLength(watts.length - 60)
+  })
+})
+
+describe('bestsExclusionMask', () => {
+  it('combines power flags with athlete-excluded ranges', () => {
+    const mask = bestsExclusionMask(
+      10,
+      [
+        { issue: 'power_spike', stream: 'watts', start: 1, end: 1, action: 'interpolated', value: 2000 },
+        { issue: 'hr_dropout', stream: 'heartrate', start: 3, end: 4, action: 'interpolated', value: null },
+      ],
+      [{ start: 7, end: 20 }]
+    )
+    expect(mask).toEqual([false, true, false, false, false, false, false, true, true, true])
+  })
+
+  it('leaves no window for peak power when everything is excluded', () => {
+    const watts = steady(10, 300)
+    expect(calculatePeakPower(watts, 5, bestsExclusionMask(10, [], [{ start: 0, end: 9 }]))).toBeNull()
+  })
+})
+
+describe('summarizeDataQuality', () => {
+  it('counts issues and overlapping masked power once', () => {
+    const summary = summarizeDataQuality([
+      { issue: 'stuck_value', stream: 'watts', start: 0, end: 59, action: 'masked', value: 300 },
+      { issue: 'cadence_power_mismatch', stream: 'watts', start: 50, end: 69, action: 'masked', value: 300 },
+      { issue: 'hr_dropout', stream: 'heartrate', start: 10, end: 12, action: 'interpolated', value: null },
+    ])
+    expect(summary).toEqual({
+      issues: { stuck_value: 1, cadence_power_mismatch: 1, hr_dropout: 1 },
+      interpolatedSeconds: 3,
+      maskedSeconds: 70,
+      pausedSeconds: 0,
+    })
+  })
+})
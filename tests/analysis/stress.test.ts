@@ -0,0 +1,85 @@
+/**
+ * Training Stress Tests
+ *
+ * The power → rTSS → hrTSS → TRIMP → session RPE → external load fallback chain and the scaling of
+ * each method to TSS (an hour at threshold ≈ 100).
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateHrTss,
+  calculateRpeTss,
+  calculateSessionStress,
+  calculateTrimp,
+  trimpToTss,
+} from '@/lib/fitness/stress'
+
+const HOUR = 3600
+
+describe('calculateSessionStress', () => {
+  const profile = { ftp: 250, lthr: 165, maxHr: 190, restingHr: 50 }
+
+  it('prefers power TSS when there is power and an FTP', () => {
+    const stress = calculateSessionStress({ durationSeconds: HOUR, normalizedPower: 250, avgHr: 150 }, profile)
+    expect(stress).toEqual({ tss: 100, method: 'power' })
+  })
+
+  it('falls back to hrTSS without power', () => {
+    const stress = calculateSessionStress({ durationSeconds: HOUR, avgHr: 165 }, profile)
+    expect(stress).toEqual({ tss: 100, method: 'hr' })
+  })
+
+  it('falls back to TRIMP without LTHR', () => {
+    const stress = calculateSessionStress(
+      { durationSeconds: HOUR, avgHr: 50 + 0.85 * 140 },
+      { maxHr: 190, restingHr: 50 }
+    )
+    expect(stress?.method).toBe('trimp')
+    expect(stress?.tss).toBeCloseTo(100, -1)
+  })
+
+  it('scores runs from running power or threshold pace, never cycling FTP', () => {
+    const runner = { ...profile, thresholdPace: 240 }
+    const run = { durationSeconds: HOUR, sport: 'running' as const, normalizedPower: 250, ngpSpeed: 1000 / 240 }
+    expect(calculateSessionStress(run, runner)).toEqual({ tss: 100, method: 'pace' })
+    expect(calculateSessionStress(run, { ...runner, runningFtp: 250 })).toEqual({ tss: 100, method: 'power' })
+    expect(calculateSessionStress({ ...run, avgHr: 165 }, profile)).toEqual({ tss: 100, method: 'hr' })
+  })
+
+  it('falls back to session RPE without heart rate', () => {
+    expect(calculateSessionStress({ durationSeconds: HOUR, rpe: 7 }, profile)).toEqual({ tss: 100, method: 'rpe' })
+    expect(calculateSessionStress({ durationSeconds: HOUR }, profile)).toBeNull()
+  })
+
+  it('keeps the intervals.icu load when no local method applies', () => {
+    // An unpowered swim with no heart rate thresholds or RPE
+    const swim = { durationSeconds: HOUR, sport: 'swimming' as const, avgHr: 140, externalLoad: 61.6 }
+    expect(calculateSessionStress(swim, { ftp: 250 })).toEqual({ tss: 62, method: 'external' })
+    expect(calculateSessionStress({ ...swim, avgHr: null }, {})).toEqual({ tss: 62, method: 'external' })
+    // Any local method wins over it
+    expect(calculateSessionStress(swim, { lthr: 140 })).toEqual({ tss: 100, method: 'hr' })
+    expect(calculateSessionStress({ ...swim, rpe: 7 }, {})).toEqual({ tss: 100, method: 'rpe' })
+  })
+})
+
+describe('heart rate methods', () => {
+  it('uses the HR stream over the average and skips dropouts', () => {
+    const heartrate = [...Array(1800).fill(140), ...Array(1800).fill(170), ...Array(60).fill(0)]
+    const fromStream = calculateHrTss({ durationSeconds: HOUR, heartrate, avgHr: 100 }, 160)!
+    // Mean of (140/160)² and (170/160)², not (100/160)²
+    expect(fromStream).toBe(Math.round(((140 / 160) ** 2 + (170 / 160) ** 2) / 2 * 100))
+  })
+
+  it('weights TRIMP exponentially by heart rate reserve', () => {
+    const easy = calculateTrimp({ durationSeconds: HOUR, avgHr: 120 }, 190, 50)!
+    const hard = calculateTrimp({ durationSeconds: HOUR, avgHr: 170 }, 190, 50)!
+    expect(hard).toBeGreaterThan(easy * 2)
+    expect(trimpToTss(easy)).toBeLessThan(60)
+  })
+
+  it('scales session RPE linearly with duration', () => {
+    expect(calculateRpeTss(3, HOUR)).toBe(43)
+    expect(calculateRpeTss(3, 2 * HOUR)).toBe(86)
+    expect(calculateRpeTss(11, HOUR)).toBeNull()
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * W′ Balance Tests
+ *
+ * Covers the Skiba differential W′bal series and the depletion summary
+ * reported by getDetailedSession and session reports.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateWPrimeBalance, summarizeWPrimeBalance } from '@/lib/analysis/w-prime-balance'
+
+const PARAMS = { cp: 250, wPrime: 20000 }
+
+describe('calculateWPrimeBalance', () => {
+  it('spends W′ above CP at (P - CP) joules per second', () => {
+    const balance = calculateWPrimeBalance(Array(10).fill(350), PARAMS)
+    expect(balance[0]).toBe(19900)
+    expect(balance[9]).toBe(19000)
+  })
+
+  it('recovers towards full below CP, faster when further below', () => {
+    const efforts = Array(100).fill(450) // 20kJ spent -> empty
+    const easy = calculateWPrimeBalance([...efforts, ...Array(60).fill(100)], PARAMS)
+    const moderate = calculateWPrimeBalance([...efforts, ...Array(60).fill(200)], PARAMS)
+
+    expect(easy[99]).toBe(0)
+    expect(easy[159]).toBeGreaterThan(moderate[159])
+    expect(easy[159]).toBeLessThan(PARAMS.wPrime)
+  })
+
+  it('stays full when riding below CP', () => {
+    const balance = calculateWPrimeBalance(Array(60).fill(200), PARAMS)
+    expect(balance.every(b => b === PARAMS.wPrime)).toBe(true)
+  })
+})
+
+describe('summarizeWPrimeBalance', () => {
+  it('counts near-empty matches only after W′ recovers', () => {
+    // Two efforts that each drain W′ to ~5%, with full recovery in between,
+    // then a shallow dip that stays above 10%
+    const drain = Array(95).fill(450)
+    const rest = Array(600).fill(0)
+    const watts = [...drain, ...rest, ...drain, ...rest, ...Array(30).fill(450)]
+    const balance = calculateWPrimeBalance(watts, PARAMS)
+    const summary = summarizeWPrimeBalance(balance, watts, PARAMS)!
+
+    expect(summary.nearEmptyMatches).toBe(2)
+    // Recovery is exponential, so the second effort starts slightly below full
+    expect(Math.abs(summary.minBalance - 1000)).toBeLessThan(20)
+    expect(summary.minBalancePercent).toBeCloseTo(5, 0)
+    expect(summary.minBalanceAt).toBe(95 + 600 + 94)
+    expect(summary.secondsBelow25Percent).toBeGreaterThan(0)
+    expect(summary.totalExpendedKj).toBeCloseTo((95 * 2 + 30) * 0.2, 1)
+  })
+
+  it('returns null for an empty stream', () => {
+    expect(summarizeWPrimeBalance([], [], PARAMS)).toBeNull()
+  })
+})
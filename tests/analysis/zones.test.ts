@@ -0,0 +1,157 @@
+/**
+ * Zone Model Tests
+ *
+ * Time-in-zone with the default Coggan model, a Seiler 3-zone model,
+ * absolute lab HR zones and threshold-pace zones, plus model validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  ZONE_MODEL_PRESETS,
+  calculateTimeInZones,
+  calculateZoneDistribution,
+  defaultZoneModel,
+  describeZoneRange,
+  resolveZoneThreshold,
+  sumZoneTimes,
+  validateZoneModel,
+  parsePace,
+  formatPace,
+  type ZoneModelDefinition,
+} from '@/lib/analysis/zones'
+
+const FTP = 250
+
+function steady(seconds: number, value: number): number[] {
+  return Array(seconds).fill(value)
+}
+
+const LAB_HR: ZoneModelDefinition = {
+  metric: 'hr',
+  name: 'Lab test 2026',
+  basis: 'absolute',
+  zones: [
+    { name: 'Below LT1', min: 0 },
+    { name: 'LT1-LT2', min: 142 },
+    { name: 'Above LT2', min: 168 },
+  ],
+}
+
+describe('calculateTimeInZones', () => {
+  it('splits a ride into Coggan zones by % FTP', () => {
+    // 10' coasting, 30' endurance (60%), 20' threshold (100%), 10' VO2 (115%)
+    const watts = [...steady(600, 0), ...steady(1800, 150), ...steady(1200, 250), ...steady(600, 288)]
+    const zones = calculateTimeInZones(watts, defaultZoneModel('power'), FTP)!
+
+    expect(zones).toHaveLength(7)
+    expect(zones.map(z => z.seconds)).toEqual([600, 1800, 0, 1200, 600, 0, 0])
+    expect(zones[3]).toMatchObject({ zone: 'Z4', name: 'Threshold', minutes: 20 })
+    expect(zones[1].percent).toBe(42.9)
+  })
+
+  it('uses the Seiler 3-zone model for polarized analysis', () => {
+    const watts = [...steady(3000, 170), ...steady(600, 300)]
+    const zones = calculateTimeInZones(watts, ZONE_MODEL_PRESETS.seiler_power, FTP)!
+
+    expect(zones.map(z => z.name)).toEqual(['Low', 'Moderate', 'High'])
+    expect(zones.map(z => z.seconds)).toEqual([3000, 0, 600])
+  })
+
+  it('uses absolute bpm bounds and skips HR dropouts', () => {
+    const heartrate = [...steady(100, 130), ...steady(50, 0), ...steady(200, 150), ...steady(60, 170)]
+    const zones = calculateTimeInZones(heartrate, LAB_HR, resolveZoneThreshold(LAB_HR, { lthr: 160 }))!
+
+    expect(zones.map(z => z.seconds)).toEqual([100, 200, 60])
+  })
+
+  it('bins running speed against threshold pace', () => {
+    const pace = { ...ZONE_MODEL_PRESETS.threshold_pace, threshold: 240 } // 4:00/km = 4.17 m/s
+    const threshold = resolveZoneThreshold(pace, {})!
+    // 5:30/km easy running, 4:00/km threshold, standing still
+    const speed = [...steady(600, 1000 / 330), ...steady(300, 1000 / 240), ...steady(30, 0)]
+    const zones = calculateTimeInZones(speed, pace, threshold)!
+
+    expect(zones[0].seconds).toBe(600)
+    expect(zones[4].seconds).toBe(300)
+    expect(zones.reduce((sum, z) => sum + z.seconds, 0)).toBe(900)
+  })
+
+  it('returns null without a threshold or data', () => {
+    expect(calculateTimeInZones(steady(60, 200), defaultZoneModel('power'), null)).toBeNull()
+    expect(calculateTimeInZones([], defaultZoneModel('power'), FTP)).toBeNull()
+    expect(resolveZoneThreshold(defaultZoneModel('pace'), { ftp: FTP })).toBeNull()
+  })
+})
+
+describe('calculateZoneDistribution', () => {
+  it('computes power and HR zones, and pace only for runs', () => {
+    const models = {
+      power: defaultZoneModel('power'),
+      hr: LAB_HR,
+      pace: { ...ZONE_MODEL_PRESETS.threshold_pace, threshold: 240 },
+    }
+    const streams = { watts: steady(60, 200), heartrate: steady(60, 150), velocity_smooth: steady(60, 4) }
+
+    const ride = calculateZoneDistribution(streams, models, { ftp: FTP }, 'cycling')
+    expect(ride.power?.model).toBe('Coggan 7-zone')
+    expect(ride.hr?.model).toBe('Lab test 2026')
+    expect(ride.pace).toBeUndefined()
+
+    const run = calculateZoneDistribution(streams, models, {}, 'running')
+    expect(run.power).toBeUndefined()
+    expect(run.pace?.zones).toHaveLength(5)
+  })
+
+  it('uses running thresholds for runs', () => {
+    const models = { power: defaultZoneModel('power'), hr: LAB_HR, pace: defaultZoneModel('pace') }
+    const streams = { watts: steady(60, 250), velocity_smooth: steady(60, 1000 / 240) }
+
+    // Cycling FTP is ignored; running FTP and the athlete's threshold pace apply
+    expect(calculateZoneDistribution(streams, models, { ftp: FTP }, 'running').power).toBeUndefined()
+    const run = calculateZoneDistribution(streams, models, { ftp: FTP, runningFtp: 250, thresholdPace: 240 }, 'running')
+    expect(run.power?.zones.find(z => z.seconds > 0)?.zone).toBe('Z4')
+    expect(run.pace?.zones.find(z => z.seconds > 0)?.zone).toBe('Z5')
+  })
+
+  it('sums zone times across sessions', () => {
+    const model = ZONE_MODEL_PRESETS.seiler_power
+    const a = calculateTimeInZones(steady(600, 150), model, FTP)!
+    const b = calculateTimeInZones(steady(200, 300), model, FTP)!
+    const total = sumZoneTimes(model, [a, b])!
+
+    expect(total.map(z => z.seconds)).toEqual([600, 0, 200])
+    expect(total[0].percent).toBe(75)
+  })
+})
+
+describe('validateZoneModel', () => {
+  it('accepts the presets and lab zones', () => {
+    for (const preset of Object.values(ZONE_MODEL_PRESETS)) {
+      if (preset.metric === 'pace') continue
+      expect(validateZoneModel(preset)).toBeNull()
+    }
+    expect(validateZoneModel(LAB_HR)).toBeNull()
+  })
+
+  it('rejects unordered bounds and pace models without a threshold', () => {
+    const unordered = { ...LAB_HR, zones: [{ name: 'A', min: 0 }, { name: 'B', min: 160 }, { name: 'C', min: 150 }] }
+    expect(validateZoneModel(unordered)).toContain('must start above')
+    expect(validateZoneModel(ZONE_MODEL_PRESETS.threshold_pace)).toContain('threshold pace')
+    expect(validateZoneModel({ ...LAB_HR, zones: [{ name: 'A', min: 10 }, { name: 'B', min: 150 }] }))
+      .toContain('start at 0')
+  })
+})
+
+describe('zone formatting', () => {
+  it('describes zone ranges and parses paces', () => {
+    const coggan = defaultZoneModel('power')
+    expect(describeZoneRange(coggan, 0)).toBe('<55% FTP')
+    expect(describeZoneRange(coggan, 2)).toBe('75-90% FTP')
+    expect(describeZoneRange(coggan, 6)).toBe('>150% FTP')
+    expect(describeZoneRange(LAB_HR, 1)).toBe('142-168 bpm')
+
+    expect(parsePace('4:15')).toBe(255)
+    expect(formatPace(255)).toBe('4:15')
+    expect(parsePace('abc')).toBeNull()
+  })
+})
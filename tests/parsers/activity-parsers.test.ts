@@ -0,0 +1,183 @@
+/**
+ * Activity File Parser Tests
+ *
+ * Verifies TCX and GPX parsing into the shared ParsedFitData shape
+ * and format detection for uploads.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseTcxFile, calculateAscent } from '@/lib/tcx-parser'
+import { parseGpxFile, haversineDistance } from '@/lib/gpx-parser'
+import { detectActivityFormat } from '@/lib/activity-parser'
+import { mapSport, calculateLeftRightBalance } from '@/lib/fit-parser'
+
+function toBuffer(text: string): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text)
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2024-05-01T08:00:00Z</Id>
+      <Lap StartTime="2024-05-01T08:00:00Z">
+        <TotalTimeSeconds>3</TotalTimeSeconds>
+        <DistanceMeters>30</DistanceMeters>
+        <Track>
+          <Trackpoint>
+            <Time>2024-05-01T08:00:00Z</Time>
+            <AltitudeMeters>100</AltitudeMeters>
+            <DistanceMeters>0</DistanceMeters>
+            <HeartRateBpm><Value>120</Value></HeartRateBpm>
+            <Cadence>85</Cadence>
+            <Extensions><ns3:TPX><ns3:Speed>10</ns3:Speed><ns3:Watts>200</ns3:Watts></ns3:TPX></Extensions>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T08:00:01Z</Time>
+            <AltitudeMeters>102</AltitudeMeters>
+            <DistanceMeters>10</DistanceMeters>
+            <HeartRateBpm><Value>130</Value></HeartRateBpm>
+            <Cadence>90</Cadence>
+            <Extensions><ns3:TPX><ns3:Speed>10</ns3:Speed><ns3:Watts>300</ns3:Watts></ns3:TPX></Extensions>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T08:00:02Z</Time>
+            <AltitudeMeters>105</AltitudeMeters>
+            <DistanceMeters>20</DistanceMeters>
+            <HeartRateBpm><Value>140</Value></HeartRateBpm>
+            <Cadence>95</Cadence>
+            <Extensions><ns3:TPX><ns3:Speed>10</ns3:Speed><ns3:Watts>250</ns3:Watts></ns3:TPX></Extensions>
+          </Trackpoint>
+        </Track>
+      </Lap>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <metadata><time>2024-06-01T07:00:00Z</time></metadata>
+  <trk>
+    <type>running</type>
+    <trkseg>
+      <trkpt lat="52.0000" lon="4.0000"><ele>0</ele><time>2024-06-01T07:00:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>150</gpxtpx:hr><gpxtpx:cad>88</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="52.0001" lon="4.0000"><ele>2</ele><time>2024-06-01T07:00:05Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>160</gpxtpx:hr><gpxtpx:cad>90</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="52.0002" lon="4.0000"><ele>1</ele><time>2024-06-01T07:10:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>155</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+    </trkseg>
+  </trk>
+</gpx>`
+
+describe('TCX parser', () => {
+  it('reads trackpoints, lap totals and sport', () => {
+    const data = parseTcxFile(toBuffer(TCX))
+
+    expect(data.start_time).toBe('2024-05-01T08:00:00.000Z')
+    expect(data.sport).toBe('cycling')
+    expect(data.duration_seconds).toBe(3)
+    expect(data.distance_meters).toBe(30)
+    expect(data.avg_power).toBe(250)
+    expect(data.max_power).toBe(300)
+    expect(data.avg_hr).toBe(130)
+    expect(data.max_hr).toBe(140)
+    expect(data.total_ascent).toBe(5)
+    expect(data.records).toHaveLength(3)
+    // TPX speed is m/s; records use km/h like the FIT parser
+    expect(data.records[0].speed).toBe(36)
+  })
+
+  it('reads laps, altitude and distance per record', () => {
+    const data = parseTcxFile(toBuffer(TCX))
+
+    expect(data.laps).toHaveLength(1)
+    expect(data.laps![0]).toMatchObject({
+      start_time: '2024-05-01T08:00:00.000Z',
+      duration_seconds: 3,
+      distance_meters: 30,
+      avg_power: 250,
+      max_hr: 140,
+    })
+    expect(data.records[1]).toMatchObject({ altitude: 102, distance: 10 })
+  })
+
+  it('rejects non-TCX content', () => {
+    expect(() => parseTcxFile(toBuffer('<gpx></gpx>'))).toThrow('Not a TCX file')
+  })
+})
+
+describe('GPX parser', () => {
+  it('derives distance from positions and excludes pauses from moving time', () => {
+    const data = parseGpxFile(toBuffer(GPX))
+
+    expect(data.start_time).toBe('2024-06-01T07:00:00.000Z')
+    expect(data.sport).toBe('running')
+    // Only the first 5s step counts as moving; the 595s gap is a pause
+    expect(data.duration_seconds).toBe(5)
+    expect(data.distance_meters).toBe(22)
+    expect(data.avg_hr).toBe(155)
+    expect(data.max_hr).toBe(160)
+    expect(data.avg_power).toBeUndefined()
+    expect(data.records).toHaveLength(3)
+  })
+
+  it('keeps position and cumulative distance on records', () => {
+    const data = parseGpxFile(toBuffer(GPX))
+
+    expect(data.records[0]).toMatchObject({ lat: 52, lng: 4, altitude: 0, distance: 0 })
+    expect(data.records[2].distance).toBeCloseTo(22.2, 0)
+  })
+
+  it('calculates haversine distance', () => {
+    // 0.001 degrees of latitude is ~111m
+    expect(haversineDistance(52, 4, 52.001, 4)).toBeCloseTo(111.2, 0)
+  })
+})
+
+describe('shared helpers', () => {
+  it('ignores altitude jitter below 1m', () => {
+    expect(calculateAscent([100, 100.5, 100.2, 100.8, 102])).toBe(2)
+    expect(calculateAscent([100])).toBeUndefined()
+  })
+
+  it('averages left/right balance over pedalling samples', () => {
+    const balance = calculateLeftRightBalance([
+      { timestamp: 0, power: 200, left_balance: 48 },
+      { timestamp: 1000, power: 220, left_balance: 52 },
+      { timestamp: 2000, power: 0, left_balance: 90 }, // coasting, ignored
+    ])
+    expect(balance).toEqual({ left: 50, right: 50 })
+    expect(calculateLeftRightBalance([{ timestamp: 0, power: 200 }])).toBeUndefined()
+  })
+
+  it('maps device sport names', () => {
+    expect(mapSport('Biking')).toBe('cycling')
+    expect(mapSport('Running')).toBe('running')
+    expect(mapSport('swimming')).toBe('swimming')
+    expect(mapSport('hiking')).toBe('other')
+    expect(mapSport(undefined)).toBe('cycling')
+  })
+})
+
+describe('detectActivityFormat', () => {
+  it('detects XML formats by root element regardless of extension', () => {
+    expect(detectActivityFormat('ride.xml', toBuffer(TCX))).toBe('tcx')
+    expect(detectActivityFormat('run.txt', toBuffer(GPX))).toBe('gpx')
+  })
+
+  it('detects FIT by header signature', () => {
+    const header = new Uint8Array(14)
+    header.set([0x2e, 0x46, 0x49, 0x54], 8) // ".FIT"
+    expect(detectActivityFormat('activity.bin', header.buffer)).toBe('fit')
+  })
+
+  it('falls back to the extension and rejects unknown files', () => {
+    expect(detectActivityFormat('ride.FIT', toBuffer('x'))).toBe('fit')
+    expect(detectActivityFormat('notes.txt', toBuffer('hello'))).toBeNull()
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Bulk Archive Import Tests
+ *
+ * Covers the pure parts of the archive import: ZIP reading,
+ * activities CSV metadata, duplicate matching and PMC rebuild.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { deflateRawSync } from 'zlib'
+import { readZipEntries, isZipArchive, isZipFile, openZipFile } from '@/lib/zip-reader'
+import { parseCsv, parseActivitiesCsv, findDuplicateSession } from '@/lib/sync/archive-import'
+import { calculatePmc, sumDailyTss } from '@/lib/fitness/pmc'
+
+/**
+ * Build a ZIP archive in memory (stored or deflated entries)
+ */
+function buildZip(files: Array<{ name: string; content: string; deflate?: boolean }>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name)
+    const raw = Buffer.from(file.content)
+    const data = file.deflate ? deflateRawSync(raw) : raw
+    const method = file.deflate ? 8 : 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(files.length, 8)
+  eocd.writeUInt16LE(files.length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, eocd])
+}
+
+describe('ZIP reader', () => {
+  it('reads stored and deflated entries', () => {
+    const zip = buildZip([
+      { name: 'activities.csv', content: 'Filename\nactivities/1.gpx' },
+      { name: 'activities/1.gpx', content: '<gpx>'.repeat(100), deflate: true },
+    ])
+
+    expect(isZipArchive(zip)).toBe(true)
+    const entries = readZipEntries(zip)
+    expect(entries.map(e => e.name)).toEqual(['activities.csv', 'activities/1.gpx'])
+    expect(entries[0].read().toString()).toBe('Filename\nactivities/1.gpx')
+    expect(entries[1].read().toString()).toBe('<gpx>'.repeat(100))
+  })
+
+  it('reads entries from a file on disk', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zip-reader-'))
+    try {
+      const path = join(dir, 'export.zip')
+      writeFileSync(path, buildZip([
+        { name: 'activities/', content: '' },
+        { name: 'activities/1.gpx', content: '<gpx>'.repeat(100), deflate: true },
+        { name: 'activities/2.tcx', content: '<tcx/>' },
+      ]))
+
+      expect(isZipFile(path)).toBe(true)
+      const archive = openZipFile(path)
+      expect(archive.entries.map(e => e.name)).toEqual(['activities/1.gpx', 'activities/2.tcx'])
+      expect(archive.entries[1].read().toString()).toBe('<tcx/>')
+      expect(archive.entries[0].read().toString()).toBe('<gpx>'.repeat(100))
+      archive.close()
+
+      writeFileSync(path, 'plain text')
+      expect(isZipFile(path)).toBe(false)
+      expect(() => openZipFile(path)).toThrow('Not a ZIP archive')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('rejects non-ZIP content', () => {
+    const text = Buffer.from('not a zip file at all, just some text to scan through')
+    expect(isZipArchive(text)).toBe(false)
+    expect(() => readZipEntries(text)).toThrow('Not a ZIP archive')
+  })
+})
+
+describe('activities CSV', () => {
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    const rows = parseCsv('a,b\n"x, y","say ""hi""\nthere"\r\n')
+    expect(rows).toEqual([['a', 'b'], ['x, y', 'say "hi"\nthere']])
+  })
+
+  it('maps Strava export file names to activity name and type', () => {
+    const csv = [
+      'Activity ID,Activity Date,Activity Name,Activity Type,Activity Description,Filename',
+      '123,"Jan 1, 2024, 8:00:00 AM",Morning Ride,Ride,"Long, easy",activities/123.fit.gz',
+      '124,"Jan 2, 2024, 8:00:00 AM",Lunch Run,Run,,activities/124.GPX',
+      '125,"Jan 3, 2024, 8:00:00 AM",Manual Entry,Workout,,',
+    ].join('\n')
+
+    const meta = parseActivitiesCsv(csv)
+    expect(meta.size).toBe(2)
+    expect(meta.get('123.fit.gz')).toEqual({ name: 'Morning Ride', type: 'Ride' })
+    expect(meta.get('124.gpx')).toEqual({ name: 'Lunch Run', type: 'Run' })
+  })
+})
+
+describe('findDuplicateSession', () => {
+  const existing = [
+    { id: 'a', date: '2024-05-01T08:00:00+00:00', duration_seconds: 3600 },
+  ]
+
+  it('matches the same start time and similar duration', () => {
+    expect(findDuplicateSession(existing, '2024-05-01T08:00:30.000Z', 3620)?.id).toBe('a')
+  })
+
+  it('matches local start times stored without an offset', () => {
+    // Activity at 06:00 UTC stored by intervals.icu as 08:00 local (UTC+2)
+    expect(findDuplicateSession(existing, '2024-05-01T06:00:00.000Z', 3600)?.id).toBe('a')
+  })
+
+  it('does not match different durations or start times', () => {
+    expect(findDuplicateSession(existing, '2024-05-01T08:00:00.000Z', 5400)).toBeNull()
+    expect(findDuplicateSession(existing, '2024-05-01T08:30:00.000Z', 3600)).toBeNull()
+    expect(findDuplicateSession(existing, '2024-05-03T08:00:00.000Z', 3600)).toBeNull()
+  })
+})
+
+describe('PMC calculation', () => {
+  it('sums TSS per day', () => {
+    const daily = sumDailyTss([
+      { date: '2024-05-01T08:00:00+00:00', tss: 50 },
+      { date: '2024-05-01T18:00:00+00:00', tss: 30 },
+      { date: '2024-05-02T08:00:00+00:00', tss: null },
+    ])
+    expect(daily.get('2024-05-01')).toBe(80)
+    expect(daily.has('2024-05-02')).toBe(false)
+  })
+
+  it('applies the 42/7 day exponential averages', () => {
+    const days = calculatePmc(new Map([['2024-05-01', 100]]), '2024-05-01', '2024-05-03')
+
+    expect(days.map(d => d.date)).toEqual(['2024-05-01', '2024-05-02', '2024-05-03'])
+    expect(days[0].ctl).toBeCloseTo(100 / 42, 1)
+    expect(days[0].atl).toBeCloseTo(100 / 7, 1)
+    expect(days[0].tsb).toBeCloseTo(days[0].ctl - days[0].atl, 0)
+    expect(days[0].tss_day).toBe(100)
+    // Rest days decay fatigue faster than fitness
+    expect(days[2].atl).toBeLessThan(days[0].atl)
+    expect(days[2].ctl).toBeLessThan(days[0].ctl)
+  })
+
+  it('continues from a seeded CTL/ATL', () => {
+    const days = calculatePmc(new Map(), '2024-05-01', '2024-05-01', { ctl: 60, atl: 70 })
+    expect(days[0].ctl).toBeCloseTo(60 - 60 / 42, 1)
+    expect(days[0].atl).toBeCloseTo(70 - 70 / 7, 1)
+  })
+})
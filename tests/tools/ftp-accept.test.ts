@@ -0,0 +1,93 @@
+/**
+ * FTP Proposal Acceptance Tests
+ *
+ * Accepting an FTP change with a TSS recompute must only rebuild the overall
+ * PMC for athletes whose fitness comes from the local engine.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const SESSIONS = [
+  { id: 's1', date: '2026-03-03', sport: 'cycling', tss: 80, duration_seconds: 3600, normalized_power: 220, raw_data: null },
+  { id: 's2', date: '2026-03-05', sport: 'cycling', tss: 95, duration_seconds: 4200, normalized_power: 230, raw_data: null },
+]
+
+/** Chainable query that resolves to the test sessions */
+function query(): Record<string, unknown> {
+  const chain: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'gte', 'not', 'order', 'range', 'update']) {
+    chain[method] = vi.fn(() => chain)
+  }
+  chain.then = (resolve: (value: unknown) => unknown) => resolve({ data: SESSIONS, error: null })
+  return chain
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(() => Promise.resolve({ from: vi.fn(() => query()) })),
+}))
+
+vi.mock('@/lib/db/athletes', () => ({
+  getAthlete: vi.fn(),
+  updateAthlete: vi.fn(() => Promise.resolve(true)),
+}))
+
+vi.mock('@/lib/db/integrations', () => ({
+  getIntegration: vi.fn(() => Promise.resolve(null)),
+  PROVIDERS: { INTERVALS_ICU: 'intervals_icu' },
+}))
+
+vi.mock('@/lib/db/ftp-proposals', () => ({
+  getFtpProposal: vi.fn(() => Promise.resolve({
+    id: 'p1',
+    status: 'pending',
+    current_ftp: 250,
+    proposed_ftp: 265,
+    effective_date: '2026-03-02',
+  })),
+  resolveFtpProposal: vi.fn(() => Promise.resolve(true)),
+  insertFtpHistory: vi.fn(() => Promise.resolve(null)),
+  getPendingFtpProposal: vi.fn(),
+  getRejectedFtpProposals: vi.fn(),
+  insertFtpProposal: vi.fn(),
+}))
+
+vi.mock('@/lib/db/fitness', () => ({
+  getFitnessRange: vi.fn(() => Promise.resolve([])),
+  getSportFitnessRange: vi.fn(() => Promise.resolve([])),
+  upsertFitnessBatch: vi.fn((rows: unknown[]) => Promise.resolve(rows.length)),
+  upsertSportFitnessBatch: vi.fn((rows: unknown[]) => Promise.resolve(rows.length)),
+  deleteSportFitness: vi.fn(() => Promise.resolve()),
+}))
+
+import { acceptFtpProposal } from '@/lib/fitness/ftp-detector'
+import { getAthlete } from '@/lib/db/athletes'
+import { upsertFitnessBatch, upsertSportFitnessBatch } from '@/lib/db/fitness'
+
+function athlete(fitnessSource: 'intervals_icu' | 'local') {
+  return { id: 'a1', ftp: 250, fitness_source: fitnessSource } as unknown as Awaited<ReturnType<typeof getAthlete>>
+}
+
+describe('acceptFtpProposal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('leaves an intervals.icu athlete\'s fitness history alone', async () => {
+    vi.mocked(getAthlete).mockResolvedValue(athlete('intervals_icu'))
+
+    const result = await acceptFtpProposal('a1', 'p1', { recomputeTss: true })
+
+    expect(result).toMatchObject({ ftp: 265, sessionsRecomputed: 2, fitnessDaysRebuilt: 0 })
+    expect(upsertFitnessBatch).not.toHaveBeenCalled()
+    expect(upsertSportFitnessBatch).toHaveBeenCalled()
+  })
+
+  it('rebuilds the local PMC for local-source athletes', async () => {
+    vi.mocked(getAthlete).mockResolvedValue(athlete('local'))
+
+    const result = await acceptFtpProposal('a1', 'p1', { recomputeTss: true })
+
+    expect(upsertFitnessBatch).toHaveBeenCalled()
+    expect(result!.fitnessDaysRebuilt).toBeGreaterThan(0)
+  })
+})